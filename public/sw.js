@@ -1,170 +1,532 @@
-const CACHE_NAME = "habitta-v1.0.0";
-const STATIC_CACHE = "habitta-static-v1.0.0";
-const DYNAMIC_CACHE = "habitta-dynamic-v1.0.0";
-
-// Assets to cache on install
-const STATIC_ASSETS = [
-  "/",
-  "/dashboard",
-  "/manifest.json",
-  "/favicon.ico",
-];
-
-// API routes that should be cached
-const CACHEABLE_APIS = [
-  "/api/property",
-  "/api/tasks",
-  "/api/health",
-];
-
-// Install event - cache static assets
+// Habitta service worker
+//
+// Offline-first for the dashboard:
+// - App shell: navigations are network-first with the cached index.html as
+//   fallback; hashed build assets are cache-first
+// - Data: the latest capital timeline, home systems and maintenance tasks
+//   responses from Supabase are cached and served when the network is gone
+// - Writes: task completions and skips, home events and photo uploads that fail for
+//   lack of network are queued in IndexedDB and replayed when connectivity
+//   returns (Background Sync where available, otherwise on the page's
+//   REPLAY_QUEUE message). Writes the server refuses for auth are parked
+//   until their own user hands over a fresh token; signing out parks the
+//   whole queue so the next user's session never replays it
+// - Push: maintenance alerts from notification-dispatch are shown as
+//   notifications; clicking one focuses an open tab or opens the linked page
+//
+// Pages get queue state through SYNC_STATUS messages (see useServiceWorker).
+
+const VERSION = "v2.3.0";
+const SHELL_CACHE = `habitta-shell-${VERSION}`;
+const ASSET_CACHE = `habitta-assets-${VERSION}`;
+const DATA_CACHE = `habitta-data-${VERSION}`;
+const CURRENT_CACHES = [SHELL_CACHE, ASSET_CACHE, DATA_CACHE];
+
+const SHELL_URL = "/";
+const SHELL_ASSETS = [SHELL_URL, "/manifest.json", "/favicon.ico"];
+
+const SYNC_TAG = "habitta-replay";
+
+// Supabase reads worth keeping for offline use
+const CACHEABLE_REST_TABLES = ["home_systems", "maintenance_tasks"];
+const CACHEABLE_FUNCTIONS = ["capital-timeline"];
+
+// Photo buckets whose uploads are queued
+const QUEUEABLE_BUCKETS = ["home-photos"];
+
+// maintenance-task-action actions that are queued, and the kind each becomes.
+// Snooze and reopen need the server's answer, so they are not queued
+const QUEUEABLE_TASK_ACTIONS = { complete: "task_completion", skip: "task_skip" };
+
+// ============== IndexedDB queue ==============
+
+const DB_NAME = "habitta-offline";
+const DB_VERSION = 1;
+const QUEUE_STORE = "writes";
+const META_STORE = "meta";
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        db.createObjectStore(QUEUE_STORE, { keyPath: "id", autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore(storeName, mode, fn) {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const result = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(result && "result" in result ? result.result : undefined);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+const queueAdd = (entry) => withStore(QUEUE_STORE, "readwrite", (store) => store.add(entry));
+const queueAll = () => withStore(QUEUE_STORE, "readonly", (store) => store.getAll());
+const queueDelete = (id) => withStore(QUEUE_STORE, "readwrite", (store) => store.delete(id));
+const queuePut = (entry) => withStore(QUEUE_STORE, "readwrite", (store) => store.put(entry));
+const metaGet = (key) => withStore(META_STORE, "readonly", (store) => store.get(key));
+const metaSet = (key, value) => withStore(META_STORE, "readwrite", (store) => store.put(value, key));
+
+// ============== Request classification ==============
+
+function isSupabase(url) {
+  return url.hostname.endsWith(".supabase.co") || url.pathname.startsWith("/rest/v1/");
+}
+
+function restTable(url) {
+  const match = url.pathname.match(/\/rest\/v1\/([a-z_]+)/);
+  return match ? match[1] : null;
+}
+
+function functionName(url) {
+  const match = url.pathname.match(/\/functions\/v1\/([a-z0-9-]+)/);
+  return match ? match[1] : null;
+}
+
+function storageBucket(url) {
+  const match = url.pathname.match(/\/storage\/v1\/object\/([a-z0-9-]+)\//);
+  return match ? match[1] : null;
+}
+
+// Writes that may be queued; everything else is left alone (e.g. streaming chat)
+function isQueueCandidate(request, url) {
+  const table = restTable(url);
+  return (
+    (request.method === "POST" && table === "home_events") ||
+    (request.method === "PATCH" && table === "maintenance_tasks") ||
+    (request.method === "POST" && functionName(url) === "maintenance-task-action") ||
+    ((request.method === "POST" || request.method === "PUT") && QUEUEABLE_BUCKETS.includes(storageBucket(url)))
+  );
+}
+
+/**
+ * Which queued-write kind a candidate is, or null when it must not be queued.
+ * Task writes are only queued when they complete (or, through
+ * maintenance-task-action, skip) a task.
+ */
+async function writeKind(request, url) {
+  if (restTable(url) === "home_events") return "home_event";
+  if (functionName(url) === "maintenance-task-action") {
+    try {
+      const body = await request.clone().json();
+      return (body && QUEUEABLE_TASK_ACTIONS[body.action]) || null;
+    } catch {
+      return null;
+    }
+  }
+  if (restTable(url) === "maintenance_tasks") {
+    try {
+      const body = await request.clone().json();
+      return body && body.status === "completed" ? "task_completion" : null;
+    } catch {
+      return null;
+    }
+  }
+  return "photo_upload";
+}
+
+function decodeUserId(authorization) {
+  try {
+    const token = (authorization || "").replace(/^Bearer\s+/i, "");
+    const payload = JSON.parse(atob(token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    return payload.sub || null;
+  } catch {
+    return null;
+  }
+}
+
+// ============== Install / activate ==============
+
 self.addEventListener("install", (event) => {
   event.waitUntil(
-    caches.open(STATIC_CACHE).then((cache) => {
-      console.log("Caching static assets");
-      return cache.addAll(STATIC_ASSETS);
-    })
+    caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_ASSETS))
   );
   self.skipWaiting();
 });
 
-// Activate event - clean up old caches
 self.addEventListener("activate", (event) => {
   event.waitUntil(
-    caches.keys().then((cacheNames) => {
-      return Promise.all(
-        cacheNames.map((cacheName) => {
-          if (
-            cacheName !== STATIC_CACHE && 
-            cacheName !== DYNAMIC_CACHE &&
-            cacheName !== CACHE_NAME
-          ) {
-            console.log("Deleting old cache:", cacheName);
-            return caches.delete(cacheName);
-          }
-        })
-      );
-    })
+    caches.keys().then((cacheNames) =>
+      Promise.all(
+        cacheNames
+          .filter((cacheName) => !CURRENT_CACHES.includes(cacheName))
+          .map((cacheName) => caches.delete(cacheName))
+      )
+    )
   );
   self.clients.claim();
 });
 
-// Fetch event - serve from cache, fallback to network
+// ============== Fetch routing ==============
+
 self.addEventListener("fetch", (event) => {
   const { request } = event;
   const url = new URL(request.url);
 
-  // Handle API requests
-  if (url.pathname.startsWith("/api/") || url.pathname.startsWith("/supabase/")) {
-    event.respondWith(handleApiRequest(request));
+  if (isSupabase(url)) {
+    const table = restTable(url);
+    const fn = functionName(url);
+
+    if (request.method === "GET" && CACHEABLE_REST_TABLES.includes(table)) {
+      event.respondWith(networkFirstData(request, request));
+      return;
+    }
+    if (request.method === "POST" && CACHEABLE_FUNCTIONS.includes(fn)) {
+      event.respondWith(
+        functionCacheKey(request).then((cacheKey) => networkFirstData(request, cacheKey))
+      );
+      return;
+    }
+    if (isQueueCandidate(request, url)) {
+      event.respondWith(networkOrQueue(request, url));
+    }
+    // Everything else (auth, other tables) goes straight to the network
+    return;
+  }
+
+  if (url.origin !== self.location.origin || request.method !== "GET") return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstShell(request));
     return;
   }
 
-  // Handle static assets and navigation
-  event.respondWith(handleStaticRequest(request));
+  if (url.pathname.startsWith("/assets/")) {
+    event.respondWith(cacheFirstAsset(request));
+  }
 });
 
-// Handle API requests with network-first strategy
-async function handleApiRequest(request) {
-  const cacheName = DYNAMIC_CACHE;
-  
+// Navigations: fresh shell when online, cached shell when not
+async function networkFirstShell(request) {
   try {
-    // Try network first
-    const networkResponse = await fetch(request);
-    
-    // Cache successful responses for supported APIs
-    if (networkResponse.ok && CACHEABLE_APIS.some(api => request.url.includes(api))) {
-      const cache = await caches.open(cacheName);
-      cache.put(request, networkResponse.clone());
-    }
-    
-    return networkResponse;
-  } catch (error) {
-    // Fallback to cache
-    const cachedResponse = await caches.match(request);
-    if (cachedResponse) {
-      return cachedResponse;
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put(SHELL_URL, response.clone());
     }
-    
-    // Return offline message for failed API calls
-    return new Response(
-      JSON.stringify({ 
-        error: "Offline", 
-        message: "This feature is not available offline" 
-      }),
-      {
-        status: 503,
-        headers: { "Content-Type": "application/json" },
-      }
-    );
+    return response;
+  } catch {
+    const cached = await caches.match(SHELL_URL);
+    return cached || new Response("Offline content not available", {
+      status: 503,
+      headers: { "Content-Type": "text/plain" },
+    });
   }
 }
 
-// Handle static requests with cache-first strategy
-async function handleStaticRequest(request) {
-  // Try cache first
-  const cachedResponse = await caches.match(request);
-  if (cachedResponse) {
-    return cachedResponse;
+// Build assets are content-hashed, so a cached copy is always correct
+async function cacheFirstAsset(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(ASSET_CACHE);
+    cache.put(request, response.clone());
   }
+  return response;
+}
+
+// POST bodies aren't part of Cache API keys; fold the body into a GET key
+async function functionCacheKey(request) {
+  const body = await request.clone().text();
+  const url = new URL(request.url);
+  url.searchParams.set("__body", body);
+  return new Request(url.toString(), { method: "GET" });
+}
+
+async function networkFirstData(request, cacheKey) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(DATA_CACHE);
+      cache.put(cacheKey, response.clone());
+    }
+    return response;
+  } catch {
+    const cached = await caches.match(cacheKey);
+    if (cached) {
+      const headers = new Headers(cached.headers);
+      headers.set("X-Habitta-Offline", "1");
+      return new Response(cached.body, { status: cached.status, headers });
+    }
+    return offlineResponse();
+  }
+}
 
+async function networkOrQueue(request, url) {
+  const kind = await writeKind(request, url);
+  if (!kind) return fetch(request);
+
+  // Read the body up front: once fetch consumes the request it can't be queued
+  const queuedCopy = request.clone();
   try {
-    // Try network
-    const networkResponse = await fetch(request);
-    
-    // Cache successful responses
-    if (networkResponse.ok) {
-      const cache = await caches.open(STATIC_CACHE);
-      cache.put(request, networkResponse.clone());
+    return await fetch(request);
+  } catch {
+    return queueWrite(queuedCopy, url, kind);
+  }
+}
+
+function offlineResponse() {
+  return new Response(
+    JSON.stringify({ error: "Offline", message: "This feature is not available offline" }),
+    { status: 503, headers: { "Content-Type": "application/json" } }
+  );
+}
+
+// ============== Write queue ==============
+
+async function queueWrite(request, url, kind) {
+  const headers = {};
+  request.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+  const body = await request.arrayBuffer();
+
+  await queueAdd({
+    kind,
+    url: request.url,
+    method: request.method,
+    headers,
+    body,
+    userId: decodeUserId(headers.authorization),
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  });
+
+  if (self.registration.sync) {
+    try {
+      await self.registration.sync.register(SYNC_TAG);
+    } catch {
+      // Background Sync unavailable or denied — the page replays on reconnect
     }
-    
-    return networkResponse;
-  } catch (error) {
-    // For navigation requests, return the cached index.html
-    if (request.mode === "navigate") {
-      const cachedIndex = await caches.match("/");
-      if (cachedIndex) {
-        return cachedIndex;
+  }
+  await broadcastStatus();
+
+  return queuedResponse(request, url, kind, body, headers);
+}
+
+// Optimistic response so callers carry on as if the write went through
+function queuedResponse(request, url, kind, body, headers) {
+  const responseHeaders = { "Content-Type": "application/json", "X-Habitta-Queued": "1" };
+
+  if (kind === "photo_upload") {
+    const key = url.pathname.replace(/^.*\/storage\/v1\/object\//, "");
+    return new Response(JSON.stringify({ Key: key, Id: null }), { status: 200, headers: responseHeaders });
+  }
+
+  // maintenance-task-action: the updated task and next occurrence only exist after replay
+  if (functionName(url) === "maintenance-task-action") {
+    return new Response(JSON.stringify({ task: null, next: null }), { status: 200, headers: responseHeaders });
+  }
+
+  const wantsRepresentation = (headers.prefer || "").includes("return=representation");
+  if (!wantsRepresentation) {
+    return new Response(null, { status: 204, headers: { "X-Habitta-Queued": "1" } });
+  }
+
+  let rows = [];
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(body));
+    rows = Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    rows = [];
+  }
+  const wantsObject = (headers.accept || "").includes("vnd.pgrst.object");
+  return new Response(JSON.stringify(wantsObject ? rows[0] || null : rows), {
+    status: kind === "home_event" ? 201 : 200,
+    headers: responseHeaders,
+  });
+}
+
+let replaying = false;
+
+/**
+ * Replay queued writes oldest-first. A fresh access token from the page
+ * replaces the stored one, but only for writes queued by the same user.
+ * A 401/403 parks the entry instead of stopping the queue; later writes
+ * by the same user wait behind it so their order holds, while other
+ * users' writes carry on. Parked entries only go out again with their
+ * own user's fresh token.
+ */
+async function replayQueue(accessToken) {
+  if (replaying) return;
+  replaying = true;
+  await broadcastStatus();
+
+  const tokenUserId = accessToken ? decodeUserId(accessToken) : null;
+  const blockedUserIds = new Set();
+  let lastError = null;
+
+  try {
+    const entries = await queueAll();
+    for (const entry of entries) {
+      const hasFreshToken = !!tokenUserId && tokenUserId === entry.userId;
+      if (blockedUserIds.has(entry.userId) || (entry.parked && !hasFreshToken)) {
+        continue;
+      }
+
+      const headers = { ...entry.headers };
+      if (hasFreshToken) {
+        headers.authorization = `Bearer ${accessToken}`;
+      }
+
+      let response;
+      try {
+        response = await fetch(entry.url, {
+          method: entry.method,
+          headers,
+          body: entry.body,
+        });
+      } catch {
+        // Still offline — stop and keep the rest in order
+        lastError = "offline";
+        break;
+      }
+
+      if (response.ok || response.status === 409) {
+        await queueDelete(entry.id);
+        continue;
       }
+
+      // Expired token: park it until its user's session hands over a fresh one.
+      // A 403 on a fresh token is a real refusal and falls through to the drop
+      if (response.status === 401 || (response.status === 403 && !hasFreshToken)) {
+        await queuePut({ ...entry, parked: true, attempts: entry.attempts + 1 });
+        blockedUserIds.add(entry.userId);
+        lastError = `HTTP ${response.status}`;
+        continue;
+      }
+
+      // Rate limiting or server trouble: stop and retry the queue later
+      if ([408, 429].includes(response.status) || response.status >= 500) {
+        await queuePut({ ...entry, attempts: entry.attempts + 1 });
+        lastError = `HTTP ${response.status}`;
+        break;
+      }
+
+      // Rejected outright (bad row, missing record) — retrying won't help
+      console.error("[sw] Dropping rejected queued write:", entry.kind, response.status);
+      await queueDelete(entry.id);
+      const dropped = (await metaGet("droppedCount")) || 0;
+      await metaSet("droppedCount", dropped + 1);
     }
-    
-    // Return offline page for other requests
-    return new Response("Offline content not available", {
-      status: 503,
-      headers: { "Content-Type": "text/plain" },
-    });
+
+    if (!lastError) {
+      await metaSet("lastSyncedAt", new Date().toISOString());
+    }
+    await metaSet("lastError", lastError);
+  } finally {
+    replaying = false;
+    await broadcastStatus();
   }
 }
 
-// Handle messages from the main thread
+// Signed out: nothing queued may replay under whoever signs in next
+async function parkQueue() {
+  const entries = await queueAll();
+  for (const entry of entries) {
+    if (!entry.parked) await queuePut({ ...entry, parked: true });
+  }
+  await broadcastStatus();
+}
+
+async function getStatus() {
+  const all = await queueAll();
+  const entries = all.filter((entry) => !entry.parked);
+  return {
+    type: "SYNC_STATUS",
+    pendingCount: entries.length,
+    parkedCount: all.length - entries.length,
+    pendingByKind: entries.reduce((counts, entry) => {
+      counts[entry.kind] = (counts[entry.kind] || 0) + 1;
+      return counts;
+    }, {}),
+    isSyncing: replaying,
+    lastSyncedAt: (await metaGet("lastSyncedAt")) || null,
+    lastError: (await metaGet("lastError")) || null,
+    droppedCount: (await metaGet("droppedCount")) || 0,
+  };
+}
+
+async function broadcastStatus() {
+  const status = await getStatus();
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  clients.forEach((client) => client.postMessage(status));
+}
+
+// ============== Messages / sync ==============
+
 self.addEventListener("message", (event) => {
-  if (event.data && event.data.type === "SKIP_WAITING") {
-    self.skipWaiting();
+  const data = event.data || {};
+
+  switch (data.type) {
+    case "SKIP_WAITING":
+      self.skipWaiting();
+      break;
+    case "GET_SYNC_STATUS":
+      event.waitUntil(broadcastStatus());
+      break;
+    case "REPLAY_QUEUE":
+      event.waitUntil(replayQueue(data.accessToken || null));
+      break;
+    case "CLEAR_USER_DATA":
+      // Signed out: cached reads and queued writes belong to the previous user
+      event.waitUntil(Promise.all([caches.delete(DATA_CACHE), parkQueue()]));
+      break;
   }
 });
 
-// Background sync for offline actions
 self.addEventListener("sync", (event) => {
-  if (event.tag === "background-sync-tasks") {
-    event.waitUntil(syncOfflineActions());
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(replayQueue(null));
   }
 });
 
-async function syncOfflineActions() {
-  // Sync any offline actions when connection is restored
-  const cache = await caches.open(DYNAMIC_CACHE);
-  const offlineActions = await cache.match("/offline-actions");
-  
-  if (offlineActions) {
-    try {
-      const actions = await offlineActions.json();
-      // Process offline actions here
-      console.log("Syncing offline actions:", actions);
-      
-      // Clear offline actions after sync
-      await cache.delete("/offline-actions");
-    } catch (error) {
-      console.error("Failed to sync offline actions:", error);
-    }
+// ============== Push ==============
+
+self.addEventListener("push", (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : "" };
   }
-}
\ No newline at end of file
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "Habitta", {
+      body: payload.body || "",
+      tag: payload.tag,
+      icon: "/favicon.png",
+      badge: "/favicon.png",
+      data: { url: payload.url || "/" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const target = new URL((event.notification.data && event.notification.data.url) || "/", self.location.origin);
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => new URL(client.url).origin === target.origin);
+      if (existing) {
+        return existing.focus().then((client) => (client && "navigate" in client ? client.navigate(target.href) : client));
+      }
+      return self.clients.openWindow(target.href);
+    })
+  );
+});
@@ -2,6 +2,7 @@ import { AppRoutes } from "@/pages/AppRoutes";
 import ErrorBoundary from "@/components/ErrorBoundary";
 import { useEffect } from "react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { loadActiveFailureCalibration } from "@/services/failureCalibrationLoader";
 
 // Global error logging for runtime errors
 const setupGlobalErrorHandlers = () => {
@@ -35,6 +36,8 @@ const queryClient = new QueryClient({
 export default function App() {
   useEffect(() => {
     setupGlobalErrorHandlers();
+    // Fitted failure curves; scoring uses built-in constants until this resolves
+    void loadActiveFailureCalibration();
   }, []);
 
   return (
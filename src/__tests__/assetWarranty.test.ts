@@ -0,0 +1,104 @@
+/**
+ * Asset Warranty Tests
+ *
+ * Expiry arithmetic, the asset_warranties row mapping, and re-deriving
+ * estimates when their asset changes.
+ */
+
+import {
+  addYearsIso,
+  buildDefaultWarranty,
+  rederiveDefaultWarranty,
+  warrantyFromRow,
+  warrantyToRow,
+  withExpiries,
+} from '../../supabase/functions/_shared/assetWarranty.ts';
+
+describe('addYearsIso', () => {
+  it('keeps the calendar day', () => {
+    expect(addYearsIso('2021-06-15', 10)).toBe('2031-06-15');
+    expect(addYearsIso('2021-06-15T08:30:00Z', 1)).toBe('2022-06-15');
+  });
+
+  it('lands Feb 29 on Feb 28 in a non-leap year', () => {
+    expect(addYearsIso('2024-02-29', 5)).toBe('2029-02-28');
+    expect(addYearsIso('2024-02-29', 4)).toBe('2028-02-29');
+  });
+
+  it('gives valid expiries for a leap-day install', () => {
+    const warranty = buildDefaultWarranty({ kind: 'hvac', installDate: '2024-02-29' });
+    for (const date of [warranty.partsExpiresOn, warranty.laborExpiresOn]) {
+      expect(date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+      expect(new Date(`${date}T00:00:00Z`).toISOString().substring(0, 10)).toBe(date);
+    }
+  });
+});
+
+describe('confirmed_at', () => {
+  const estimate = buildDefaultWarranty({ kind: 'water_heater', installDate: '2022-03-01' });
+
+  it('is null until the owner confirms', () => {
+    expect(warrantyToRow(estimate).confirmed_at).toBeNull();
+  });
+
+  it('is stamped on first confirmation', () => {
+    const row = warrantyToRow({ ...estimate, source: 'owner', confirmed: true });
+    expect(row.confirmed_at).not.toBeNull();
+  });
+
+  it('survives later saves of a confirmed warranty', () => {
+    const firstConfirmed = '2025-01-10T12:00:00.000Z';
+    const stored = warrantyFromRow({
+      ...warrantyToRow(estimate),
+      source: 'owner',
+      confirmed_at: firstConfirmed,
+    });
+    expect(stored.confirmed).toBe(true);
+
+    const edited = warrantyToRow({ ...stored, laborYears: 2 });
+    expect(edited.confirmed_at).toBe(firstConfirmed);
+  });
+});
+
+describe('rederiveDefaultWarranty (R5)', () => {
+  const stored = warrantyFromRow(warrantyToRow(
+    buildDefaultWarranty({ kind: 'hvac', manufacturer: 'Lennox', installDate: '2020-05-01' })
+  ));
+
+  it('leaves an estimate alone while its asset is unchanged', () => {
+    expect(rederiveDefaultWarranty(stored, { kind: 'hvac', manufacturer: 'Lennox', installDate: '2020-05-01' })).toBeNull();
+  });
+
+  it('moves every date when the install date changes', () => {
+    const refreshed = rederiveDefaultWarranty(stored, { kind: 'hvac', manufacturer: 'Lennox', installDate: '2023-08-15' });
+    expect(refreshed?.coverageStart).toBe('2023-08-15');
+    expect(refreshed?.partsExpiresOn).toBe('2028-08-15');
+    expect(refreshed?.registrationDeadline).toBe('2023-10-14');
+  });
+
+  it('picks up brand terms when the manufacturer changes', () => {
+    const refreshed = rederiveDefaultWarranty(stored, { kind: 'hvac', manufacturer: 'Carrier', installDate: '2020-05-01' });
+    expect(refreshed?.registrationDeadline).toBe('2020-07-30');
+  });
+
+  it('keeps registration when re-deriving', () => {
+    const registered = { ...stored, registered: true };
+    const refreshed = rederiveDefaultWarranty(registered, { kind: 'hvac', manufacturer: 'Lennox', installDate: '2021-05-01' });
+    expect(refreshed?.registered).toBe(true);
+    expect(refreshed?.partsYears).toBe(10);
+  });
+
+  it('never touches confirmed terms', () => {
+    const confirmed = { ...stored, source: 'owner' as const, confirmed: true, confirmedAt: '2024-01-01T00:00:00.000Z' };
+    expect(rederiveDefaultWarranty(confirmed, { kind: 'hvac', manufacturer: 'Carrier', installDate: '2023-08-15' })).toBeNull();
+  });
+});
+
+describe('withExpiries (R6)', () => {
+  it('moves the registration deadline with the coverage start', () => {
+    const stored = warrantyFromRow(warrantyToRow(buildDefaultWarranty({ kind: 'hvac', installDate: '2020-05-01' })));
+    const edited = withExpiries({ ...stored, coverageStart: '2022-01-10' });
+    expect(edited.registrationDeadline).toBe('2022-03-11');
+    expect(withExpiries({ ...stored, coverageStart: null }).registrationDeadline).toBeNull();
+  });
+});
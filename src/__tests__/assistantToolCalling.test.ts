@@ -0,0 +1,286 @@
+/**
+ * Assistant Tool-Calling Tests
+ *
+ * Runs the ai-home-assistant tool flows against the mock LLM provider:
+ * no network, deterministic fixtures. Also covers the streaming path and
+ * the wire requests the real providers send (fetch stubbed).
+ */
+
+import {
+  createAnthropicProvider,
+  createMockProvider,
+  createOpenAICompatibleProvider,
+  resolveLlmProvider,
+  runToolTurn,
+  toAnthropicRequest,
+  type ChatMessage,
+  type ToolCall,
+} from '../../supabase/functions/_shared/llmProvider.ts';
+import { ASSISTANT_TOOLS, ASSISTANT_MOCK_FIXTURES } from '../../supabase/functions/_shared/assistantTools.ts';
+import { createSseParser, formatSseEvent } from '../../supabase/functions/_shared/sse.ts';
+import { prepareStreamingContent } from '../lib/chatFormatting';
+
+function conversation(userMessage: string): ChatMessage[] {
+  return [
+    { role: 'system', content: 'You are Habitta.' },
+    { role: 'user', content: userMessage },
+  ];
+}
+
+async function runFlow(userMessage: string) {
+  const provider = createMockProvider(ASSISTANT_MOCK_FIXTURES);
+  const executed: ToolCall[] = [];
+  const result = await runToolTurn(provider, conversation(userMessage), {
+    tools: ASSISTANT_TOOLS,
+    executeTool: async (call) => {
+      executed.push(call);
+      return JSON.stringify({ success: true, systemKey: 'hvac' });
+    },
+    followUpInstruction: 'Respond naturally.',
+  });
+  return { result, executed };
+}
+
+describe('assistant mock fixtures', () => {
+  it('only reference declared tools and supply their required arguments', () => {
+    for (const fixture of ASSISTANT_MOCK_FIXTURES) {
+      if (!fixture.toolCall) continue;
+      const tool = ASSISTANT_TOOLS.find((t) => t.name === fixture.toolCall!.name);
+      expect(tool).toBeDefined();
+      const required = (tool!.parameters.required ?? []) as string[];
+      for (const field of required) {
+        expect(fixture.toolCall.arguments).toHaveProperty(field);
+      }
+    }
+  });
+});
+
+describe('tool-calling flows (mock provider)', () => {
+  it('schedule_maintenance runs the tool and composes a follow-up', async () => {
+    const { result, executed } = await runFlow('Can you schedule a reminder to change my furnace filter?');
+
+    expect(executed).toHaveLength(1);
+    expect(executed[0].name).toBe('schedule_maintenance');
+    expect(JSON.parse(executed[0].arguments)).toMatchObject({ system: 'hvac', urgency: 'medium' });
+    expect(result.followUpFailed).toBe(false);
+    expect(result.content).toMatch(/maintenance list/);
+  });
+
+  it('update_system_info records a specific install year', async () => {
+    const { result, executed } = await runFlow('We replaced the water heater in 2019');
+
+    expect(executed.map((c) => c.name)).toEqual(['update_system_info']);
+    expect(JSON.parse(executed[0].arguments)).toMatchObject({
+      system_type: 'water_heater',
+      install_year: 2019,
+      replacement_status: 'replaced',
+    });
+    expect(result.toolResult).toContain('success');
+  });
+
+  it('record_home_event logs a reported issue', async () => {
+    const { result, executed } = await runFlow('My dishwasher is leaking onto the floor');
+
+    expect(executed.map((c) => c.name)).toEqual(['record_home_event']);
+    expect(JSON.parse(executed[0].arguments)).toMatchObject({
+      event_type: 'issue_reported',
+      system_kind: 'dishwasher',
+    });
+    expect(result.content).toMatch(/home record/);
+  });
+
+  it('answers without tools when no fixture matches', async () => {
+    const { result, executed } = await runFlow('What does a home inspection cover?');
+
+    expect(executed).toHaveLength(0);
+    expect(result.toolCall).toBeNull();
+    expect(result.content).toBeTruthy();
+  });
+
+  it('is deterministic for identical input', async () => {
+    const first = await runFlow('We replaced the water heater in 2019');
+    const second = await runFlow('We replaced the water heater in 2019');
+    expect(second.result).toEqual(first.result);
+  });
+});
+
+describe('resolveLlmProvider', () => {
+  it('selects the mock without any API key', () => {
+    expect(resolveLlmProvider({ provider: 'mock' }, ASSISTANT_MOCK_FIXTURES).name).toBe('mock');
+  });
+
+  it('defaults to the Lovable gateway and requires its key', () => {
+    expect(() => resolveLlmProvider({})).toThrow('LOVABLE_API_KEY not configured');
+    expect(resolveLlmProvider({ lovableApiKey: 'key' }).name).toBe('lovable');
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => resolveLlmProvider({ provider: 'carrier-pigeon' })).toThrow('Unknown LLM_PROVIDER');
+  });
+});
+
+describe('toAnthropicRequest', () => {
+  it('lifts system messages and maps tool calls to content blocks', () => {
+    const { system, messages } = toAnthropicRequest({
+      messages: [
+        { role: 'system', content: 'Base prompt' },
+        { role: 'user', content: 'Leak under sink' },
+        {
+          role: 'assistant',
+          content: null,
+          toolCalls: [{ id: 'call_1', name: 'record_home_event', arguments: '{"title":"Leak"}' }],
+        },
+        { role: 'tool', toolCallId: 'call_1', content: '{"success":true}' },
+        { role: 'system', content: 'Respond naturally.' },
+      ],
+    });
+
+    expect(system).toBe('Base prompt\n\nRespond naturally.');
+    expect(messages).toEqual([
+      { role: 'user', content: 'Leak under sink' },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'record_home_event', input: { title: 'Leak' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: '{"success":true}' }] },
+    ]);
+  });
+});
+
+describe('provider requests across a tool turn', () => {
+  const realFetch = globalThis.fetch;
+  interface SentBody {
+    tool_choice?: unknown;
+    tools?: { name?: string }[];
+    messages: unknown[];
+  }
+  let bodies: SentBody[] = [];
+
+  // Answers the first request with `toolReply`, later ones with `textReply`
+  function stubFetch(toolReply: unknown, textReply: unknown) {
+    bodies = [];
+    globalThis.fetch = (async (_url: string, init: RequestInit) => {
+      bodies.push(JSON.parse(init.body as string));
+      return new Response(JSON.stringify(bodies.length === 1 ? toolReply : textReply), { status: 200 });
+    }) as typeof fetch;
+  }
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  const turnOptions = {
+    tools: ASSISTANT_TOOLS,
+    executeTool: async () => JSON.stringify({ success: true }),
+    followUpInstruction: 'Respond naturally.',
+  };
+
+  it('Anthropic follow-up declares the tools with tool_choice none', async () => {
+    stubFetch(
+      {
+        content: [
+          { type: 'tool_use', id: 'toolu_1', name: 'record_home_event', input: { title: 'Leak' } },
+          { type: 'tool_use', id: 'toolu_2', name: 'schedule_maintenance', input: {} },
+        ],
+      },
+      { content: [{ type: 'text', text: 'Logged it.' }] }
+    );
+
+    const result = await runToolTurn(
+      createAnthropicProvider({ apiKey: 'key' }),
+      conversation('My dishwasher is leaking'),
+      turnOptions
+    );
+
+    expect(result.content).toBe('Logged it.');
+    expect(bodies).toHaveLength(2);
+    expect(bodies[0].tool_choice).toEqual({ type: 'auto' });
+    expect(bodies[1].tool_choice).toEqual({ type: 'none' });
+    expect(bodies[1].tools?.map((t) => t.name)).toEqual(ASSISTANT_TOOLS.map((t) => t.name));
+    // Only the executed call is replayed, so every tool_use has its tool_result
+    expect(bodies[1].messages.slice(-2)).toEqual([
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'record_home_event', input: { title: 'Leak' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: '{"success":true}' }] },
+    ]);
+  });
+
+  it('OpenAI-compatible follow-up declares the tools with tool_choice none', async () => {
+    stubFetch(
+      {
+        choices: [{
+          message: {
+            content: null,
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'record_home_event', arguments: '{}' } }],
+          },
+        }],
+      },
+      { choices: [{ message: { content: 'Logged it.' } }] }
+    );
+
+    const result = await runToolTurn(
+      createOpenAICompatibleProvider({ apiKey: 'key' }),
+      conversation('My dishwasher is leaking'),
+      turnOptions
+    );
+
+    expect(result.content).toBe('Logged it.');
+    expect(bodies[0].tool_choice).toBe('auto');
+    expect(bodies[1].tool_choice).toBe('none');
+    expect(bodies[1].tools).toHaveLength(ASSISTANT_TOOLS.length);
+  });
+});
+
+describe('streaming tool turn (mock provider)', () => {
+  it('reports tool progress before the follow-up streams, and matches the JSON path', async () => {
+    const events: string[] = [];
+    let streamed = '';
+    const streaming = await runToolTurn(
+      createMockProvider(ASSISTANT_MOCK_FIXTURES),
+      conversation('My dishwasher is leaking onto the floor'),
+      {
+        tools: ASSISTANT_TOOLS,
+        executeTool: async () => JSON.stringify({ success: true }),
+        followUpInstruction: 'Respond naturally.',
+        onToken: (text) => {
+          if (events[events.length - 1] !== 'token') events.push('token');
+          streamed += text;
+        },
+        onToolCall: (call) => events.push(`tool_call:${call.name}`),
+        onToolResult: (call) => events.push(`tool_result:${call.name}`),
+      }
+    );
+    const { result } = await runFlow('My dishwasher is leaking onto the floor');
+
+    expect(events).toEqual(['tool_call:record_home_event', 'tool_result:record_home_event', 'token']);
+    expect(streamed).toBe(streaming.content);
+    expect(streaming.content).toBe(result.content);
+  });
+});
+
+describe('SSE parser', () => {
+  it('reassembles events split across arbitrary chunk boundaries', () => {
+    const wire = formatSseEvent('token', { text: 'Hello' }) + ': keep-alive\r\n\r\n' + formatSseEvent('done', 'line one\nline two');
+    const parser = createSseParser();
+    const events = [];
+    for (let i = 0; i < wire.length; i += 3) {
+      events.push(...parser.push(wire.slice(i, i + 3)));
+    }
+    events.push(...parser.end());
+
+    expect(events).toEqual([
+      { event: 'token', data: '{"text":"Hello"}' },
+      { event: 'done', data: 'line one\nline two' },
+    ]);
+  });
+});
+
+describe('prepareStreamingContent', () => {
+  it('holds back unfinished structured blocks until they close', () => {
+    expect(prepareStreamingContent('Found these:\n{"type":"contractor_recommendations","contractors":[{"name":"A')).toBe('Found these:\n');
+    expect(prepareStreamingContent('Noted. <cost_range low="200"')).toBe('Noted. ');
+    expect(prepareStreamingContent('See <local_context>Miami')).toBe('See ');
+  });
+
+  it('leaves complete content and ordinary prose alone', () => {
+    const complete = '{"type":"home_event_recorded","success":true}\n\nLogged it.';
+    expect(prepareStreamingContent(complete)).toBe(complete);
+    expect(prepareStreamingContent('Budget < $500 for the repair')).toBe('Budget < $500 for the repair');
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Climate Zone Regression Tests
+ *
+ * One address corpus, resolved through every entry point that turns a home
+ * into a climate zone: resolveHomeClimate (seed-maintenance-plan),
+ * classifyClimate (capital-timeline, property-enrichment) and the
+ * browser's deriveClimateZone (dashboard
+ * labels, Maintenance page). Each case pins the zone and how precisely it
+ * was matched; all entry points must agree.
+ *
+ * A change to climateData.ts or the thresholds in climateResolver.ts that
+ * moves a case here is a product change: update the row deliberately.
+ */
+
+import {
+  CLIMATE_ZONES,
+  isClimateZoneType,
+  resolveClimateProfile,
+  resolveHomeClimate,
+  type ClimateResolution,
+  type ClimateZoneType,
+  type HomeClimateFields,
+} from '../../supabase/functions/_shared/climateResolver.ts';
+import { classifyClimate } from '../../supabase/functions/_shared/systemInference.ts';
+import { deriveClimateZone, deriveHomeClimateZone } from '@/lib/climateZone';
+
+interface ClimateCase {
+  label: string;
+  city?: string;
+  home: HomeClimateFields;
+  zone: ClimateZoneType;
+  resolution: ClimateResolution;
+}
+
+const CORPUS: ClimateCase[] = [
+  // Florida
+  { label: 'Miami by county FIPS', city: 'Miami', home: { state: 'FL', zip_code: '33101', fips_code: '12086' }, zone: 'coastal', resolution: 'county' },
+  { label: 'Miami by ZIP', city: 'Miami', home: { state: 'FL', zip_code: '33101' }, zone: 'coastal', resolution: 'zip' },
+  { label: 'Orlando (inland)', city: 'Orlando', home: { state: 'FL', zip_code: '32801' }, zone: 'high_heat', resolution: 'zip' },
+  { label: 'Tampa', city: 'Tampa', home: { state: 'FL', zip_code: '33602' }, zone: 'coastal', resolution: 'zip' },
+  { label: 'Jacksonville (15 km edge)', city: 'Jacksonville', home: { state: 'FL', zip_code: '32202' }, zone: 'coastal', resolution: 'zip' },
+  { label: 'Gainesville (state default)', city: 'Gainesville', home: { state: 'FL', zip_code: '32601' }, zone: 'high_heat', resolution: 'state' },
+  // Southwest & Texas
+  { label: 'Phoenix', city: 'Phoenix', home: { state: 'AZ', zip_code: '85004' }, zone: 'high_heat', resolution: 'zip' },
+  { label: 'Las Vegas (cooling degree days)', city: 'Las Vegas', home: { state: 'NV', zip_code: '89101' }, zone: 'high_heat', resolution: 'zip' },
+  { label: 'Houston', city: 'Houston', home: { state: 'TX', zip_code: '77002' }, zone: 'coastal', resolution: 'zip' },
+  { label: 'Dallas', city: 'Dallas', home: { state: 'TX', zip_code: '75201' }, zone: 'high_heat', resolution: 'zip' },
+  // California
+  { label: 'Los Angeles', city: 'Los Angeles', home: { state: 'CA', zip_code: '90012' }, zone: 'coastal', resolution: 'zip' },
+  { label: 'Riverside', city: 'Riverside', home: { state: 'CA', zip_code: '92501' }, zone: 'high_heat', resolution: 'zip' },
+  { label: 'San Francisco', city: 'San Francisco', home: { state: 'CA', zip_code: '94102' }, zone: 'coastal', resolution: 'zip' },
+  // Southeast
+  { label: 'Charleston', city: 'Charleston', home: { state: 'SC', zip_code: '29401' }, zone: 'coastal', resolution: 'zip' },
+  { label: 'Atlanta', city: 'Atlanta', home: { state: 'GA', zip_code: '30303' }, zone: 'moderate', resolution: 'zip' },
+  { label: 'Nashville (state default)', city: 'Nashville', home: { state: 'TN', zip_code: '37201' }, zone: 'moderate', resolution: 'state' },
+  // Northeast & Midwest
+  { label: 'New York', city: 'New York', home: { state: 'NY', zip_code: '10001' }, zone: 'moderate', resolution: 'zip' },
+  { label: 'Boston', city: 'Boston', home: { state: 'MA', zip_code: '02108' }, zone: 'freeze_thaw', resolution: 'zip' },
+  { label: 'Chicago', city: 'Chicago', home: { state: 'IL', zip_code: '60601' }, zone: 'freeze_thaw', resolution: 'zip' },
+  { label: 'Minneapolis', city: 'Minneapolis', home: { state: 'MN', zip_code: '55401' }, zone: 'freeze_thaw', resolution: 'zip' },
+  // Mountain & Pacific Northwest (where the old per-function state lists disagreed)
+  { label: 'Denver', city: 'Denver', home: { state: 'CO', zip_code: '80202' }, zone: 'freeze_thaw', resolution: 'zip' },
+  { label: 'Seattle', city: 'Seattle', home: { state: 'WA', zip_code: '98101' }, zone: 'moderate', resolution: 'zip' },
+  { label: 'Portland', city: 'Portland', home: { state: 'OR', zip_code: '97201' }, zone: 'moderate', resolution: 'zip' },
+  { label: 'Spokane (state default)', city: 'Spokane', home: { state: 'WA', zip_code: '99201' }, zone: 'moderate', resolution: 'state' },
+  { label: 'Boise (state default)', city: 'Boise', home: { state: 'ID', zip_code: '83702' }, zone: 'freeze_thaw', resolution: 'state' },
+  { label: 'Spelled-out state, no ZIP', home: { state: 'Colorado' }, zone: 'freeze_thaw', resolution: 'state' },
+  // Non-contiguous
+  { label: 'Anchorage', city: 'Anchorage', home: { state: 'AK', zip_code: '99501' }, zone: 'freeze_thaw', resolution: 'state' },
+  { label: 'Honolulu', city: 'Honolulu', home: { state: 'HI', zip_code: '96813' }, zone: 'coastal', resolution: 'state' },
+  // Precedence and fallbacks
+  { label: 'FIPS wins over a conflicting ZIP', home: { state: 'FL', zip_code: '33101', fips_code: '12095' }, zone: 'high_heat', resolution: 'county' },
+  { label: 'Block-level FIPS truncates to county', home: { state: 'FL', fips_code: '120860001001' }, zone: 'coastal', resolution: 'county' },
+  { label: 'Unknown FIPS falls through to ZIP', home: { state: 'IL', zip_code: '60601', fips_code: '99999' }, zone: 'freeze_thaw', resolution: 'zip' },
+  { label: 'Latitude only (south)', home: { latitude: 25.8 }, zone: 'high_heat', resolution: 'latitude' },
+  { label: 'Latitude only (north)', home: { latitude: 45.0 }, zone: 'freeze_thaw', resolution: 'latitude' },
+  { label: 'State outranks latitude', home: { state: 'WA', latitude: 47.6 }, zone: 'moderate', resolution: 'state' },
+  { label: 'No location at all', home: {}, zone: 'moderate', resolution: 'default' },
+];
+
+describe('climate zone corpus', () => {
+  for (const c of CORPUS) {
+    it(`${c.label} → ${c.zone} (${c.resolution})`, () => {
+      const profile = resolveHomeClimate(c.home);
+      expect(profile.zone).toBe(c.zone);
+      expect(profile.resolution).toBe(c.resolution);
+    });
+  }
+});
+
+describe('entry points agree', () => {
+  for (const c of CORPUS) {
+    it(`${c.label}: server, plan and dashboard resolve the same zone`, () => {
+      const { state, zip_code, fips_code, latitude } = c.home;
+
+      // capital-timeline / property-enrichment
+      const server = classifyClimate(state ?? '', c.city, fips_code ?? undefined, zip_code ?? undefined, latitude).profile;
+      // Dashboard labels and the Maintenance page
+      const dashboard = deriveClimateZone(state ?? undefined, c.city, latitude, zip_code, fips_code);
+      const maintenancePage = deriveHomeClimateZone(c.home);
+
+      expect(server.zone).toBe(c.zone);
+      expect(dashboard.zone).toBe(c.zone);
+      expect(maintenancePage.zone).toBe(c.zone);
+      expect(dashboard.profile.resolution).toBe(server.resolution);
+    });
+  }
+});
+
+describe('location keys only', () => {
+  it('ignores the city name', () => {
+    // The old inline classifier matched "beach" and "coast" in city names
+    const chicago = { state: 'IL', zip_code: '60601' };
+    expect(deriveClimateZone(chicago.state, 'Miami Beach', null, chicago.zip_code).zone).toBe('freeze_thaw');
+    expect(deriveClimateZone(chicago.state, 'Gold Coast', 25.8, chicago.zip_code).zone).toBe('freeze_thaw');
+  });
+
+  it('is deterministic for the same home', () => {
+    const home = { state: 'TX', zip_code: '77002', fips_code: '48201', latitude: 29.76 };
+    expect(resolveHomeClimate(home)).toEqual(resolveHomeClimate({ ...home }));
+  });
+});
+
+describe('isClimateZoneType', () => {
+  it('accepts every zone and nothing else', () => {
+    for (const zone of CLIMATE_ZONES) {
+      expect(isClimateZoneType(zone)).toBe(true);
+    }
+    expect(isClimateZoneType('tropical')).toBe(false);
+    expect(isClimateZoneType(undefined)).toBe(false);
+  });
+});
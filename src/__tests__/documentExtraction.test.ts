@@ -0,0 +1,83 @@
+/**
+ * Document Extraction Tests
+ *
+ * Brand, date and warranty parsing on OCR text, including address lines
+ * and secondary dates that used to be read as the wrong fact.
+ */
+
+import {
+  extractDocumentFields,
+  extractWarrantyTerms,
+  parseDocumentDate,
+} from '../../supabase/functions/_shared/documentExtraction.ts';
+
+const INVOICE = [
+  'Cool Breeze Heating & Air',
+  '120 Main St, Brooklyn, New York 11201',
+  'INVOICE',
+  'Due date: 04/15/2024',
+  'Invoice date: 03/01/2024',
+  'Installed new Goodman AC condenser',
+  'Model: GSX140361',
+  'Total due: $6,450.00',
+].join('\n');
+
+describe('brand detection', () => {
+  it('does not read a New York address as the York brand', () => {
+    expect(extractDocumentFields(INVOICE).brand).toBe('Goodman');
+  });
+
+  it('ignores York, PA and York, NY address lines', () => {
+    const text = 'Service Co\n55 Market St, York, PA 17401\nInvoice date: 03/01/2024\nAC tune-up';
+    expect(extractDocumentFields(text).brand).toBeUndefined();
+  });
+
+  it('still finds York equipment', () => {
+    const text = 'Invoice date: 03/01/2024\nInstalled York heat pump\nModel: YZF036';
+    expect(extractDocumentFields(text).brand).toBe('York');
+    expect(extractDocumentFields('York International furnace').brand).toBe('York');
+  });
+});
+
+describe('document date', () => {
+  it('skips the due date in favor of the invoice date', () => {
+    const result = extractDocumentFields(INVOICE);
+    expect(result.documentDate).toBe('2024-03-01');
+    expect(result.installDate).toBe('2024-03-01');
+  });
+
+  it('skips a due date before an unlabeled receipt date', () => {
+    const text = 'RECEIPT\nPayment due: 05/01/2024\n03/10/2024\nWater heater install\nTotal $1,200.00';
+    expect(extractDocumentFields(text).documentDate).toBe('2024-03-10');
+  });
+
+  it('accepts a plain "Date:" label', () => {
+    expect(extractDocumentFields('RECEIPT\nDate: 06/02/2023\nTotal $80.00').documentDate).toBe('2023-06-02');
+  });
+});
+
+describe('parseDocumentDate', () => {
+  it('parses US, ISO and written formats', () => {
+    expect(parseDocumentDate('3/1/24')).toBe('2024-03-01');
+    expect(parseDocumentDate('2024-03-01')).toBe('2024-03-01');
+    expect(parseDocumentDate('March 1, 2024')).toBe('2024-03-01');
+  });
+
+  it('rejects days the month does not have', () => {
+    expect(parseDocumentDate('2/30/2024')).toBeUndefined();
+    expect(parseDocumentDate('4/31/2024')).toBeUndefined();
+    expect(parseDocumentDate('2/29/2023')).toBeUndefined();
+    expect(parseDocumentDate('2/29/2024')).toBe('2024-02-29');
+  });
+});
+
+describe('warranty terms', () => {
+  it('lands a leap-day start on Feb 28 in a non-leap expiry year', () => {
+    const terms = extractWarrantyTerms('10-year parts warranty', '2024-02-29');
+    expect(terms?.expiresOn).toBe('2034-02-28');
+  });
+
+  it('keeps the calendar day otherwise', () => {
+    expect(extractWarrantyTerms('5-year labor warranty', '2024-03-01')?.expiresOn).toBe('2029-03-01');
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Maintenance Adherence Tests
+ *
+ * Scoring a system's service record, and the replacement-window shift
+ * systemInference derives from it — in particular that a record which
+ * starts recently never moves the window earlier than no record at all.
+ */
+
+import {
+  scoreMaintenanceAdherence,
+  type MaintenancePerformer,
+  type MaintenanceRecord,
+} from '../../supabase/functions/_shared/maintenanceAdherence.ts';
+import {
+  getMaintenanceEffect,
+  maintenanceShiftYears,
+} from '../../supabase/functions/_shared/systemInference.ts';
+import type { SystemType } from '../../supabase/functions/_shared/systemConfigs.ts';
+
+const NOW = new Date('2026-06-01T00:00:00Z');
+
+/** A service `monthsAgo` months before NOW */
+function service(
+  monthsAgo: number,
+  performedBy: MaintenancePerformer = 'professional',
+  systemType: SystemType = 'hvac',
+  source: MaintenanceRecord['source'] = 'task'
+): MaintenanceRecord {
+  const d = new Date(NOW);
+  d.setUTCMonth(d.getUTCMonth() - monthsAgo);
+  return { systemType, performedOn: d.toISOString().slice(0, 10), performedBy, source };
+}
+
+function hvacShift(records: MaintenanceRecord[]): number {
+  return maintenanceShiftYears(getMaintenanceEffect('hvac'), scoreMaintenanceAdherence('hvac', records, { now: NOW }));
+}
+
+describe('scoreMaintenanceAdherence', () => {
+  it('scores no records as none, not lapsed (R3)', () => {
+    const adherence = scoreMaintenanceAdherence('hvac', [], { now: NOW });
+    expect(adherence.level).toBe('none');
+    expect(adherence.index).toBe(0);
+    expect(adherence.expectedServices).toBe(6);
+  });
+
+  it('rates twice-yearly professional HVAC service as strong', () => {
+    const records = [1, 7, 13, 19, 25, 31].map(m => service(m));
+    const adherence = scoreMaintenanceAdherence('hvac', records, { now: NOW });
+    expect(adherence.level).toBe('strong');
+    expect(adherence.index).toBe(1);
+    expect(adherence.serviceCount).toBe(6);
+    expect(adherence.lookbackMonths).toBe(31);
+  });
+
+  it('starts the lookback at the first recorded service (R3)', () => {
+    const adherence = scoreMaintenanceAdherence('hvac', [service(2, 'diy')], { now: NOW });
+    expect(adherence.lookbackMonths).toBe(6);
+    expect(adherence.expectedServices).toBe(1);
+    expect(adherence.components.regularity).toBe(1);
+    expect(adherence.level).not.toBe('lapsed');
+  });
+
+  it('still counts missed service after the first record', () => {
+    const adherence = scoreMaintenanceAdherence('hvac', [service(30, 'diy')], { now: NOW });
+    expect(adherence.lookbackMonths).toBe(30);
+    expect(adherence.expectedServices).toBe(5);
+    expect(adherence.components.recency).toBe(0);
+    expect(adherence.level).toBe('lapsed');
+  });
+
+  it('limits the lookback to the install year', () => {
+    // The older record belongs to the system this one replaced
+    const records = [service(1), service(13)];
+    expect(scoreMaintenanceAdherence('hvac', records, { now: NOW }).expectedServices).toBe(2);
+
+    const adherence = scoreMaintenanceAdherence('hvac', records, { now: NOW, installYear: 2026 });
+    expect(adherence.lookbackMonths).toBe(6);
+    expect(adherence.expectedServices).toBe(1);
+  });
+
+  it('merges a task and its logged event into one service (R2)', () => {
+    const records = [
+      service(3, 'diy', 'hvac', 'task'),
+      { ...service(3, 'professional', 'hvac', 'event'), performedOn: service(3).performedOn.replace(/-\d\d$/, '-10') },
+    ];
+    const adherence = scoreMaintenanceAdherence('hvac', records, { now: NOW });
+    expect(adherence.serviceCount).toBe(1);
+    expect(adherence.professionalCount).toBe(1);
+  });
+
+  it('ignores records for other systems', () => {
+    const adherence = scoreMaintenanceAdherence('roof', [service(1)], { now: NOW });
+    expect(adherence.level).toBe('none');
+  });
+});
+
+describe('maintenanceShiftYears', () => {
+  it('does not shift without a record', () => {
+    expect(hvacShift([])).toBe(0);
+    expect(maintenanceShiftYears(getMaintenanceEffect('hvac'), null)).toBe(0);
+  });
+
+  it('never shifts earlier for a record that starts recently', () => {
+    for (const monthsAgo of [0, 1, 2, 3, 4, 5, 6]) {
+      expect(hvacShift([service(monthsAgo, 'diy')])).toBeGreaterThanOrEqual(hvacShift([]));
+    }
+    expect(hvacShift([service(5, 'diy'), service(1, 'diy')])).toBeGreaterThanOrEqual(0);
+  });
+
+  it('extends the window by up to expectedDelayYears for a strong record', () => {
+    const records = [1, 7, 13, 19, 25, 31].map(m => service(m));
+    expect(hvacShift(records)).toBe(getMaintenanceEffect('hvac').expectedDelayYears);
+  });
+
+  it('shortens the window for service that lapsed after the first record', () => {
+    expect(hvacShift([service(30, 'diy')])).toBeLessThan(0);
+  });
+
+  it('leaves systems whose maintenance does not move the timeline alone', () => {
+    const effect = getMaintenanceEffect('water_heater');
+    const adherence = scoreMaintenanceAdherence('water_heater', [service(30, 'diy', 'water_heater')], { now: NOW });
+    expect(effect.shiftsTimeline).toBe(false);
+    expect(maintenanceShiftYears(effect, adherence)).toBe(0);
+  });
+});
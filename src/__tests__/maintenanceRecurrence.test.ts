@@ -0,0 +1,95 @@
+/**
+ * Maintenance Recurrence Tests
+ *
+ * Next-due dates maintenance-task-action and seed-maintenance-plan write
+ * when a recurring task is completed or skipped.
+ */
+
+import {
+  addMonthsToDate,
+  nextDueDate,
+  recurrenceRuleForTask,
+  type RecurrenceRule,
+} from '../../supabase/functions/_shared/maintenanceRecurrence.ts';
+
+const SPRING_AND_FALL: RecurrenceRule = { kind: 'seasonal', months: [3, 9] };
+
+describe('addMonthsToDate', () => {
+  it('clamps to the end of a shorter month', () => {
+    expect(addMonthsToDate('2025-01-31', 1)).toBe('2025-02-28');
+    expect(addMonthsToDate('2024-01-31', 1)).toBe('2024-02-29');
+    expect(addMonthsToDate('2025-03-31', 6)).toBe('2025-09-30');
+  });
+
+  it('keeps the day when the target month has it', () => {
+    expect(addMonthsToDate('2025-01-15', 1)).toBe('2025-02-15');
+  });
+
+  it('rolls into the next year', () => {
+    expect(addMonthsToDate('2025-11-30', 3)).toBe('2026-02-28');
+  });
+});
+
+describe('nextDueDate', () => {
+  it('counts interval rules from the completion date (R1)', () => {
+    expect(nextDueDate({ kind: 'interval', months: 3 }, '2025-04-14', '2025-04-01')).toBe('2025-07-14');
+  });
+
+  it('counts usage rules in days from the completion date (R1)', () => {
+    expect(nextDueDate({ kind: 'usage', days: 90 }, '2025-01-15')).toBe('2025-04-15');
+  });
+
+  it('skips a seasonal anchor within MIN_SEASONAL_GAP_DAYS of completion (R2)', () => {
+    // March tune-up done in late February: March 15 is under 30 days away
+    expect(nextDueDate(SPRING_AND_FALL, '2025-02-25', '2025-03-15')).toBe('2025-09-15');
+  });
+
+  it('keeps a seasonal anchor once the gap is met (R2)', () => {
+    expect(nextDueDate(SPRING_AND_FALL, '2025-01-10', '2024-09-15')).toBe('2025-03-15');
+  });
+
+  it('never schedules a seasonal occurrence on or before the previous due date (R2)', () => {
+    expect(nextDueDate(SPRING_AND_FALL, '2025-01-01', '2025-03-15')).toBe('2025-09-15');
+  });
+
+  it('counts a skip from the skipped due date, not the day it was skipped (R3)', () => {
+    // maintenance-task-action passes the skipped occurrence's due date as `from`
+    const skippedDue = '2025-03-01';
+    expect(nextDueDate({ kind: 'interval', months: 6 }, skippedDue, skippedDue)).toBe('2025-09-01');
+  });
+});
+
+describe('recurrenceRuleForTask', () => {
+  it('maps legacy recurrence_interval values to interval rules', () => {
+    expect(recurrenceRuleForTask({ recurring: true, recurrence_interval: 'monthly' }))
+      .toEqual({ kind: 'interval', months: 1 });
+    expect(recurrenceRuleForTask({ recurring: true, recurrence_interval: 'Quarterly' }))
+      .toEqual({ kind: 'interval', months: 3 });
+    expect(recurrenceRuleForTask({ recurring: true, recurrence_interval: 'biannually' }))
+      .toEqual({ kind: 'interval', months: 6 });
+    expect(recurrenceRuleForTask({ recurring: true, recurrence_interval: 'annually' }))
+      .toEqual({ kind: 'interval', months: 12 });
+  });
+
+  it('prefers a valid recurrence_rule over the legacy interval', () => {
+    expect(recurrenceRuleForTask({
+      recurring: true,
+      recurrence_interval: 'annually',
+      recurrence_rule: { kind: 'usage', days: 90 },
+    })).toEqual({ kind: 'usage', days: 90 });
+  });
+
+  it('falls back to the legacy interval when the rule is malformed', () => {
+    expect(recurrenceRuleForTask({
+      recurring: true,
+      recurrence_interval: 'annually',
+      recurrence_rule: { kind: 'interval', months: 0 },
+    })).toEqual({ kind: 'interval', months: 12 });
+  });
+
+  it('returns null for one-off tasks and unknown intervals', () => {
+    expect(recurrenceRuleForTask({ recurring: false, recurrence_interval: 'monthly' })).toBeNull();
+    expect(recurrenceRuleForTask({ recurring: true, recurrence_interval: 'fortnightly' })).toBeNull();
+    expect(recurrenceRuleForTask({ recurring: true, recurrence_interval: null })).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Permit Adapter Tests
+ *
+ * Jurisdiction field mapping onto NormalizedPermit, focused on the dates
+ * the permit dedup hash depends on.
+ */
+
+import {
+  normalizeMappedPermit,
+  parsePermitCsv,
+  type PermitJurisdiction,
+} from '../../supabase/functions/_shared/permitAdapters.ts';
+import { parsePermitDate } from '../../supabase/functions/_shared/permitNormalizers.ts';
+
+const ARCGIS_JURISDICTION: PermitJurisdiction = {
+  id: 'miami_dade',
+  name: 'Miami-Dade County',
+  adapter: 'arcgis_feature_server',
+  endpoint: 'https://example.test/FeatureServer/0/query',
+  match: { fipsCodes: ['12086'] },
+  lookup: { parcelField: 'FOLIO' },
+  fieldMap: {
+    permit_number: ['PROCNUM'],
+    permit_type: ['TYPE'],
+    date_issued: ['ISSUDATE'],
+    date_finaled: ['LSTINSDT', 'CCDATE'],
+  },
+  typeMap: { MECH: 'Mechanical' },
+};
+
+describe('normalizeMappedPermit dates', () => {
+  it('keeps a pre-2001 ArcGIS epoch date (12-digit milliseconds) (R5)', () => {
+    const permit = normalizeMappedPermit(
+      { PROCNUM: '1999-0042', TYPE: 'MECH', ISSUDATE: 915148800000, LSTINSDT: null, CCDATE: 917827200000 },
+      ARCGIS_JURISDICTION
+    );
+    expect(permit.date_issued).toBe('1999-01-01');
+    expect(permit.date_finaled).toBe('1999-02-01');
+    expect(permit.permit_type).toBe('Mechanical');
+  });
+
+  it('keeps a pre-1970 ArcGIS epoch date (negative milliseconds)', () => {
+    const permit = normalizeMappedPermit({ PROCNUM: '1965-0001', ISSUDATE: -157766400000 }, ARCGIS_JURISDICTION);
+    expect(permit.date_issued).toBe('1965-01-01');
+  });
+
+  it('still reads post-2001 epochs and text dates', () => {
+    const permit = normalizeMappedPermit(
+      { PROCNUM: '2021-0100', ISSUDATE: 1609459200000, CCDATE: '2021-03-15' },
+      ARCGIS_JURISDICTION
+    );
+    expect(permit.date_issued).toBe('2021-01-01');
+    expect(permit.date_finaled).toBe('2021-03-15');
+  });
+
+  it('parses epoch text from a CSV export the same way', () => {
+    const [permit] = parsePermitCsv('PROCNUM,ISSUDATE\n1999-0042,915148800000\n', ARCGIS_JURISDICTION);
+    expect(permit.date_issued).toBe('1999-01-01');
+  });
+});
+
+describe('parsePermitDate', () => {
+  it('reads epoch milliseconds of any length as text', () => {
+    expect(parsePermitDate('915148800000')).toBe('1999-01-01');
+    expect(parsePermitDate('-157766400000')).toBe('1965-01-01');
+    expect(parsePermitDate('1609459200000')).toBe('2021-01-01');
+  });
+
+  it('reads YYYYMMDD rather than treating it as an epoch', () => {
+    expect(parsePermitDate('19990101')).toBe('1999-01-01');
+  });
+
+  it('returns null for empty or unparseable values', () => {
+    expect(parsePermitDate(null)).toBeNull();
+    expect(parsePermitDate('')).toBeNull();
+    expect(parsePermitDate('not a date')).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Permit Classifier Tests
+ *
+ * Labeled corpus of permit descriptions as they arrive from Miami-Dade
+ * ArcGIS (uppercase, abbreviated), Shovels and city CSV exports. Each case
+ * pins the primary category and work type; add a row whenever a real
+ * permit is misclassified.
+ */
+
+import {
+  classifyPermit,
+  isEnergyRelatedPermit,
+  isSystemPermit,
+  type PermitCategory,
+  type PermitText,
+  type PermitWorkType,
+} from '../../supabase/functions/_shared/permitClassifier.ts';
+import { deriveSystemPermitSignal } from '../../supabase/functions/_shared/permitSignal.ts';
+
+interface LabeledPermit {
+  permit: PermitText;
+  systemType: PermitCategory | null;
+  workType: PermitWorkType;
+}
+
+const CORPUS: LabeledPermit[] = [
+  // ---- HVAC ----
+  { permit: { description: 'AC CHANGE OUT 3 TON SAME LOCATION', permit_type: 'Mechanical' }, systemType: 'hvac', workType: 'replacement' },
+  { permit: { description: 'A/C CHANGEOUT 4 TON 16 SEER CONDENSER & AIR HANDLER', permit_type: 'Mechanical' }, systemType: 'hvac', workType: 'replacement' },
+  { permit: { description: 'Replace existing 3.5 ton split system heat pump like for like', permit_type: 'Mechanical' }, systemType: 'hvac', workType: 'replacement' },
+  { permit: { description: 'INSTALL NEW 2.5 TON CENTRAL AIR SYSTEM WITH DUCTS', permit_type: 'Mechanical' }, systemType: 'hvac', workType: 'install' },
+  { permit: { description: 'Replace compressor on existing condensing unit', permit_type: 'Mechanical' }, systemType: 'hvac', workType: 'repair' },
+  { permit: { description: 'REPAIR REFRIGERANT LEAK AND RECHARGE A/C', permit_type: 'Mechanical' }, systemType: 'hvac', workType: 'repair' },
+  { permit: { description: 'Furnace replacement 80,000 BTU 96% AFUE' }, systemType: 'hvac', workType: 'replacement' },
+  { permit: { description: 'RELOCATE AIR HANDLER TO ATTIC', permit_type: 'Mechanical' }, systemType: 'hvac', workType: 'modification' },
+  { permit: { description: 'HVAC', permit_type: 'Mechanical' }, systemType: 'hvac', workType: 'unknown' },
+
+  // ---- Mini-split ----
+  { permit: { description: 'INSTALL DUCTLESS MINI SPLIT 12K BTU BEDROOM', permit_type: 'Mechanical' }, systemType: 'mini_split', workType: 'install' },
+  { permit: { description: 'Mini-split change out garage unit', permit_type: 'Mechanical' }, systemType: 'mini_split', workType: 'replacement' },
+
+  // ---- Roof ----
+  { permit: { description: 'REROOF SHINGLE 25 SQ TEAR OFF TO DECK', permit_type: 'Roofing' }, systemType: 'roof', workType: 'replacement' },
+  { permit: { description: 'Re-roof flat roof modified bitumen', permit_type: 'Building' }, systemType: 'roof', workType: 'replacement' },
+  { permit: { description: 'ROOF REPAIR 3 SQ TILE AFTER LEAK', permit_type: 'Roofing' }, systemType: 'roof', workType: 'repair' },
+  { permit: { description: 'Replace roof damaged by hurricane, new underlayment', permit_type: 'Building' }, systemType: 'roof', workType: 'replacement' },
+  { permit: { description: 'New metal roof over addition', permit_type: 'Building' }, systemType: 'roof', workType: 'install' },
+  { permit: { description: 'New roof - remove existing shingles', permit_type: 'Roofing' }, systemType: 'roof', workType: 'replacement' },
+
+  // ---- Water heater ----
+  { permit: { description: 'REPLACE 50 GAL ELECTRIC WATER HEATER SAME LOCATION', permit_type: 'Plumbing' }, systemType: 'water_heater', workType: 'replacement' },
+  { permit: { description: 'Install tankless gas water heater', permit_type: 'Plumbing' }, systemType: 'water_heater', workType: 'replacement' },
+  { permit: { description: 'Heat pump water heater 65 gal', permit_type: 'Plumbing' }, systemType: 'water_heater', workType: 'unknown' },
+  { permit: { description: 'WATER HEATER LEAK REPAIR T&P VALVE', permit_type: 'Plumbing' }, systemType: 'water_heater', workType: 'repair' },
+
+  // ---- Electrical panel / electrical ----
+  { permit: { description: 'SERVICE CHANGE 100A TO 200 AMP', permit_type: 'Electrical' }, systemType: 'electrical_panel', workType: 'replacement' },
+  { permit: { description: 'Main panel upgrade and new meter can', permit_type: 'Electrical' }, systemType: 'electrical_panel', workType: 'replacement' },
+  { permit: { description: 'ADD 4 OUTLETS AND 1 CIRCUIT KITCHEN', permit_type: 'Electrical' }, systemType: 'electrical', workType: 'modification' },
+  { permit: { description: 'Rewire whole house knob and tube', permit_type: 'Electrical' }, systemType: 'electrical', workType: 'unknown' },
+
+  // ---- Plumbing ----
+  { permit: { description: 'WHOLE HOUSE REPIPE PEX', permit_type: 'Plumbing' }, systemType: 'plumbing', workType: 'replacement' },
+  { permit: { description: 'Replace sewer lateral to main', permit_type: 'Plumbing' }, systemType: 'plumbing', workType: 'replacement' },
+  { permit: { description: 'Relocate kitchen sink', permit_type: 'Plumbing' }, systemType: 'plumbing', workType: 'modification' },
+
+  // ---- Pool ----
+  { permit: { description: 'NEW POOL AND SPA 15X30 GUNITE', permit_type: 'Building' }, systemType: 'pool', workType: 'install' },
+  { permit: { description: 'POOL HEAT PUMP CHANGE OUT', permit_type: 'Mechanical' }, systemType: 'pool', workType: 'replacement' },
+  { permit: { description: 'Resurface pool marcite', permit_type: 'Building' }, systemType: 'pool', workType: 'replacement' },
+  { permit: { description: 'Whirlpool tub replacement master bath', permit_type: 'Plumbing' }, systemType: 'plumbing', workType: 'replacement' },
+
+  // ---- Solar ----
+  { permit: { description: 'INSTALL 8.4 KW ROOF MOUNTED PV SYSTEM 21 MODULES', permit_type: 'Electrical' }, systemType: 'solar', workType: 'install' },
+  { permit: { description: 'Solar panel reinstall after reroof', permit_type: 'Electrical' }, systemType: 'solar', workType: 'replacement' },
+
+  // ---- Envelope and site ----
+  { permit: { description: 'REPLACE 12 WINDOWS WITH IMPACT WINDOWS', permit_type: 'Building' }, systemType: 'windows', workType: 'replacement' },
+  { permit: { description: 'Install accordion shutters 2nd floor', permit_type: 'Building' }, systemType: 'hurricane_shutters', workType: 'install' },
+  { permit: { description: 'ATTIC INSULATION R-38 BLOWN IN', permit_type: 'Building' }, systemType: 'insulation', workType: 'unknown' },
+  { permit: { description: 'New paver driveway', permit_type: 'Building' }, systemType: 'driveway', workType: 'install' },
+
+  // ---- Nothing to classify ----
+  { permit: { description: 'FENCE 6 FT WOOD REAR YARD', permit_type: 'Building' }, systemType: null, workType: 'unknown' },
+  { permit: { description: 'Kitchen remodel cabinets and counters', permit_type: 'Building' }, systemType: null, workType: 'modification' },
+];
+
+describe('classifyPermit corpus', () => {
+  for (const labeled of CORPUS) {
+    it(`${labeled.permit.description}`, () => {
+      const result = classifyPermit(labeled.permit);
+      expect(result.systemType).toBe(labeled.systemType);
+      expect(result.workType).toBe(labeled.workType);
+    });
+  }
+});
+
+describe('classifyPermit', () => {
+  it('matches short keywords as whole words only', () => {
+    expect(classifyPermit({ description: 'Replace vacuum breaker' }).systemType).toBeNull();
+    expect(isSystemPermit('pool', { description: 'Whirlpool tub' })).toBe(false);
+  });
+
+  it('lists every matched category with the primary first', () => {
+    const result = classifyPermit({ description: 'Reroof and reinstall solar panels' });
+    expect(result.systemType).toBe('solar');
+    expect(result.categories).toContain('roof');
+  });
+
+  it('scores weak and ambiguous matches lower', () => {
+    const strong = classifyPermit({ description: 'AC change out 3 ton' });
+    const weak = classifyPermit({ description: 'Change out', permit_type: 'Mechanical' });
+    const none = classifyPermit({ description: 'Fence' });
+    expect(weak.systemType).toBe('hvac');
+    expect(weak.confidence).toBeLessThan(strong.confidence);
+    expect(none.confidence).toBe(0);
+  });
+
+  it('accepts the Shovels `type` field', () => {
+    expect(classifyPermit({ description: 'change out', type: 'HVAC' }).systemType).toBe('hvac');
+  });
+});
+
+describe('isEnergyRelatedPermit', () => {
+  it('flags HVAC, solar and envelope work', () => {
+    expect(isEnergyRelatedPermit({ description: 'AC change out' })).toBe(true);
+    expect(isEnergyRelatedPermit({ description: 'Battery storage 13.5 kWh' })).toBe(true);
+    expect(isEnergyRelatedPermit({ description: 'Fence 6 ft' })).toBe(false);
+  });
+});
+
+describe('deriveSystemPermitSignal', () => {
+  it('maps work type to install source and boost', () => {
+    const replacement = deriveSystemPermitSignal('hvac', [
+      { description: 'AC CHANGE OUT 3 TON', permit_type: 'Mechanical', date_issued: '2019-06-01' },
+    ]);
+    expect(replacement.installSource).toBe('permit_replacement');
+    expect(replacement.confidenceBoost).toBe(0.25);
+    expect(replacement.installYear).toBe(2019);
+
+    const repair = deriveSystemPermitSignal('hvac', [
+      { description: 'Replace compressor', permit_type: 'Mechanical', date_issued: '2021-06-01' },
+    ]);
+    expect(repair.installSource).toBeNull();
+    expect(repair.confidenceBoost).toBe(0.15);
+  });
+
+  it('does not credit a water heater swap to plumbing', () => {
+    const signal = deriveSystemPermitSignal('plumbing', [
+      { description: 'Replace 50 gal water heater', permit_type: 'Plumbing', date_issued: '2020-01-10' },
+    ]);
+    expect(signal.verified).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Permit Upload Tests
+ *
+ * The access check shovels-permits runs before writing an uploaded CSV
+ * to a home's permits.
+ */
+
+import { checkPermitUploadAccess } from '../../supabase/functions/_shared/permitUpload.ts';
+
+const HOME_ID = 'home-1';
+const USER_ID = 'user-1';
+
+describe('checkPermitUploadAccess', () => {
+  it('rejects uploads without a signed-in user (R1)', async () => {
+    let checked = false;
+    const denial = await checkPermitUploadAccess(undefined, HOME_ID, async () => {
+      checked = true;
+      return true;
+    });
+    expect(denial).toEqual({ status: 401, error: 'Sign in to upload permits' });
+    expect(checked).toBe(false);
+  });
+
+  it('rejects uploads without a home (R2)', async () => {
+    const denial = await checkPermitUploadAccess(USER_ID, null, async () => true);
+    expect(denial?.status).toBe(400);
+  });
+
+  it('rejects users who cannot edit the home (R2)', async () => {
+    const denial = await checkPermitUploadAccess(USER_ID, HOME_ID, async () => false);
+    expect(denial).toEqual({ status: 403, error: 'Not allowed to edit this home' });
+  });
+
+  it('checks access for the uploading user and target home', async () => {
+    const calls: Array<[string, string]> = [];
+    const denial = await checkPermitUploadAccess(USER_ID, HOME_ID, async (homeId, userId) => {
+      calls.push([homeId, userId]);
+      return true;
+    });
+    expect(denial).toBeNull();
+    expect(calls).toEqual([[HOME_ID, USER_ID]]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Serial Decoding Tests
+ *
+ * One known serial per manufacturer family and format, decoded as of a
+ * fixed date, plus the never-guess rules.
+ */
+
+import {
+  decodeSerialDate,
+  serialFamilyForBrand,
+  SERIAL_DECODER_VERSION,
+} from '../../supabase/functions/_shared/serialDecoding.ts';
+
+const AS_OF = new Date('2026-06-01T00:00:00Z');
+
+interface SerialCase {
+  brand: string;
+  serial: string;
+  family: string;
+  format: string;
+  year: number;
+  month: number | null;
+}
+
+const CASES: SerialCase[] = [
+  { brand: 'Carrier', serial: '2403E12345', family: 'carrier', format: 'WWYY', year: 2003, month: 6 },
+  { brand: 'Bryant', serial: '1517A54321', family: 'carrier', format: 'WWYY', year: 2017, month: 4 },
+  { brand: 'Trane', serial: '132512345L', family: 'trane', format: 'YYWW', year: 2013, month: 6 },
+  { brand: 'American Standard', serial: '508123456L', family: 'trane', format: 'YWW', year: 2005, month: 2 },
+  { brand: 'Lennox', serial: '5809K12345', family: 'lennox', format: 'PPYYM', year: 2009, month: 10 },
+  { brand: 'Goodman', serial: '1304123456', family: 'goodman', format: 'YYMM', year: 2013, month: 4 },
+  { brand: 'Amana', serial: '2011654321', family: 'goodman', format: 'YYMM', year: 2020, month: 11 },
+  { brand: 'Rheem', serial: 'W051012345', family: 'rheem', format: 'MMYY', year: 2010, month: 5 },
+  { brand: 'Ruud', serial: 'Q0518123456', family: 'rheem', format: 'MMYY', year: 2018, month: 5 },
+  { brand: 'York', serial: 'W1D9123456', family: 'york', format: 'PYMY', year: 2019, month: 4 },
+  { brand: 'Coleman', serial: 'W0L6795846', family: 'york', format: 'PYMY', year: 2006, month: 11 },
+  { brand: 'Luxaire', serial: 'N2A1004521', family: 'york', format: 'PYMY', year: 2021, month: 1 },
+  { brand: 'A.O. Smith', serial: '1012A012345', family: 'ao_smith', format: 'YYWW', year: 2010, month: 3 },
+  { brand: 'Bradford White', serial: 'NC1234567', family: 'bradford_white', format: 'YM', year: 2016, month: 3 },
+];
+
+describe('decodeSerialDate', () => {
+  for (const c of CASES) {
+    it(`${c.brand} ${c.serial} → ${c.year}-${c.month} (${c.format})`, () => {
+      const decoded = decodeSerialDate(c.brand, c.serial, AS_OF);
+      expect(decoded).toMatchObject({
+        family: c.family,
+        format: c.format,
+        year: c.year,
+        month: c.month,
+        decoderVersion: SERIAL_DECODER_VERSION,
+      });
+      expect(decoded!.confidence).toBeGreaterThan(0);
+      expect(decoded!.confidence).toBeLessThanOrEqual(1);
+    });
+  }
+
+  it('ignores separators and case in the serial', () => {
+    expect(decodeSerialDate('York', 'w1d9-123456', AS_OF)?.year).toBe(2019);
+  });
+
+  it('returns null for a serial that fits no format of its brand (R1)', () => {
+    expect(decodeSerialDate('Carrier', 'ABCDEFGHIJ', AS_OF)).toBeNull();
+    // A Goodman-shaped serial is not read as a York date
+    expect(decodeSerialDate('York', '1304123456', AS_OF)).toBeNull();
+  });
+
+  it('returns null for unknown brands', () => {
+    expect(decodeSerialDate('Acme', '1304123456', AS_OF)).toBeNull();
+    expect(decodeSerialDate(null, '1304123456', AS_OF)).toBeNull();
+  });
+
+  it('rejects dates in the future (R2)', () => {
+    expect(decodeSerialDate('Goodman', '2612123456', AS_OF)).toBeNull();
+    expect(decodeSerialDate('York', 'W2M6123456', AS_OF)).toBeNull();
+  });
+
+  it('does not decode York codes from before the 2004 format', () => {
+    expect(decodeSerialDate('York', 'W9C9123456', AS_OF)).toBeNull();
+  });
+
+  it('resolves decade-less years to the most recent match (R3)', () => {
+    const early = new Date('2015-06-01T00:00:00Z');
+    expect(decodeSerialDate('Bradford White', 'NC1234567', early)?.year).toBe(1996);
+  });
+});
+
+describe('serialFamilyForBrand', () => {
+  it('groups brands that share a manufacturer', () => {
+    expect(serialFamilyForBrand('Payne')).toBe('carrier');
+    expect(serialFamilyForBrand('Janitrol')).toBe('goodman');
+    expect(serialFamilyForBrand('Coleman')).toBe('york');
+    expect(serialFamilyForBrand('Luxaire')).toBe('york');
+    expect(serialFamilyForBrand('Ducane')).toBe('lennox');
+    expect(serialFamilyForBrand('State Water Heaters')).toBe('ao_smith');
+    expect(serialFamilyForBrand('State Select')).toBe('ao_smith');
+  });
+
+  it('does not claim unrelated brands that start with "state"', () => {
+    expect(serialFamilyForBrand('Statewide Heating')).toBeNull();
+    expect(serialFamilyForBrand('Stateline Mechanical')).toBeNull();
+  });
+});
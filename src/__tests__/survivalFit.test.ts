@@ -0,0 +1,147 @@
+/**
+ * Survival Fit Tests
+ *
+ * The Weibull fit behind calibrate-failure-curves, and the frontend's use
+ * of the same module through the active calibration.
+ */
+
+import {
+  bandCoverage,
+  calibrateCurve,
+  conditionalFailureProbability12mo,
+  fitWeibull,
+  weibullQuantile,
+  MIN_FAILURE_EVENTS,
+  type LifetimeObservation,
+  type WeibullParams,
+} from '../../supabase/functions/_shared/survivalFit.ts';
+import {
+  getCalibratedCurve,
+  setActiveFailureCalibration,
+  weibullFailureProbability12mo,
+} from '@/services/failureCalibration';
+
+const TRUE_CURVE: WeibullParams = { shape: 3, scale: 15 };
+
+/** Lifetimes at evenly spaced quantiles: a noise-free sample of the curve */
+function sampleLifetimes(params: WeibullParams, n: number): number[] {
+  return Array.from({ length: n }, (_, i) => weibullQuantile((i + 0.5) / n, params));
+}
+
+function failures(ages: number[], weight = 1): LifetimeObservation[] {
+  return ages.map(ageYears => ({ ageYears, observed: true, weight }));
+}
+
+describe('fitWeibull', () => {
+  it('recovers the curve from observed failures', () => {
+    const fit = fitWeibull(failures(sampleLifetimes(TRUE_CURVE, 200)))!;
+    expect(fit.shape).toBeCloseTo(TRUE_CURVE.shape, 0);
+    expect(Math.abs(fit.scale - TRUE_CURVE.scale)).toBeLessThan(0.5);
+  });
+
+  it('returns null without any observed failure', () => {
+    expect(fitWeibull([{ ageYears: 10, observed: false, weight: 1 }])).toBeNull();
+  });
+
+  it('treats censored units as "still running", not as failures (R1)', () => {
+    const lifetimes = sampleLifetimes(TRUE_CURVE, 100);
+    // Every unit that outlived 12 years is still in service at 12
+    const censored = lifetimes.map(t => (t > 12
+      ? { ageYears: 12, observed: false, weight: 1 }
+      : { ageYears: t, observed: true, weight: 1 }));
+    const asFailures = censored.map(o => ({ ...o, observed: true }));
+
+    const honest = weibullQuantile(0.5, fitWeibull(censored)!);
+    const biased = weibullQuantile(0.5, fitWeibull(asFailures)!);
+    const trueMedian = weibullQuantile(0.5, TRUE_CURVE);
+
+    expect(Math.abs(honest - trueMedian)).toBeLessThan(1);
+    expect(biased).toBeLessThan(honest - 1);
+  });
+
+  it('ignores zero-weight and zero-age observations', () => {
+    const base = failures(sampleLifetimes(TRUE_CURVE, 50));
+    const noisy = [...base, { ageYears: 0, observed: true, weight: 1 }, { ageYears: 2, observed: true, weight: 0 }];
+    expect(fitWeibull(noisy)).toEqual(fitWeibull(base));
+  });
+});
+
+describe('calibrateCurve', () => {
+  const prior = { medianYears: 20, sigmaYears: 4 };
+
+  it('emits nothing below MIN_FAILURE_EVENTS (R3)', () => {
+    const sparse = failures(sampleLifetimes(TRUE_CURVE, MIN_FAILURE_EVENTS - 1));
+    expect(calibrateCurve(sparse, prior)).toBeNull();
+  });
+
+  it('shrinks small samples toward the prior (R2)', () => {
+    const trueMedian = weibullQuantile(0.5, TRUE_CURVE);
+    const small = calibrateCurve(failures(sampleLifetimes(TRUE_CURVE, 10)), prior)!;
+    const large = calibrateCurve(failures(sampleLifetimes(TRUE_CURVE, 400)), prior)!;
+
+    expect(small.medianYears).toBeGreaterThan(trueMedian + 2);
+    expect(small.medianYears).toBeLessThan(prior.medianYears);
+    expect(Math.abs(large.medianYears - trueMedian)).toBeLessThan(0.5);
+  });
+
+  it('counts weighted failures and every observation', () => {
+    const observations = [
+      ...failures(sampleLifetimes(TRUE_CURVE, 20), 0.5),
+      { ageYears: 5, observed: false, weight: 1 },
+    ];
+    const curve = calibrateCurve(observations, prior)!;
+    expect(curve.failureEvents).toBe(10);
+    expect(curve.sampleSize).toBe(21);
+  });
+});
+
+describe('bandCoverage', () => {
+  it('puts about 80% of failures inside the p10-p90 band of a well-fitted curve', () => {
+    const observations = failures(sampleLifetimes(TRUE_CURVE, 100));
+    expect(bandCoverage(observations, TRUE_CURVE)).toBeCloseTo(0.8, 1);
+  });
+
+  it('is null without observed failures', () => {
+    expect(bandCoverage([{ ageYears: 10, observed: false, weight: 1 }], TRUE_CURVE)).toBeNull();
+  });
+});
+
+describe('conditionalFailureProbability12mo', () => {
+  it('rises with age for wear-out curves', () => {
+    const young = conditionalFailureProbability12mo(3, TRUE_CURVE);
+    const old = conditionalFailureProbability12mo(18, TRUE_CURVE);
+    expect(young).toBeGreaterThan(0);
+    expect(old).toBeGreaterThan(young);
+    expect(old).toBeLessThan(1);
+  });
+});
+
+describe('frontend calibration', () => {
+  afterEach(() => setActiveFailureCalibration(null));
+
+  const cell = (medianYears: number) => ({
+    shape: 3, scale: 15, medianYears, sigmaYears: 4, failureEvents: 20, sampleSize: 40,
+  });
+
+  it('prefers the climate-zone cell over the system-wide one', () => {
+    setActiveFailureCalibration({
+      version: 'v-test',
+      config: {
+        params: { hvac: { all: cell(14), high_heat: cell(11) } },
+        sourceCounts: {},
+        fittedAt: '2026-01-01T00:00:00Z',
+      },
+    });
+    expect(getCalibratedCurve('hvac', 'high_heat')?.medianYears).toBe(11);
+    expect(getCalibratedCurve('hvac', 'moderate')?.medianYears).toBe(14);
+    expect(getCalibratedCurve('roof')).toBeNull();
+  });
+
+  it('falls back to built-in constants with no active calibration', () => {
+    expect(getCalibratedCurve('hvac')).toBeNull();
+  });
+
+  it('uses the same failure probability as the fitting job', () => {
+    expect(weibullFailureProbability12mo(10, TRUE_CURVE)).toBe(conditionalFailureProbability12mo(10, TRUE_CURVE));
+  });
+});
@@ -11,14 +11,15 @@ interface CapitalOutlookCardProps {
  * CapitalOutlookCard - Summarizes expected capital exposure
  * 
  * "This is where conversion happens"
- * Shows 3yr / 5yr / 10yr roll-ups with weighted methodology
+ * Shows 3yr / 5yr / 10yr roll-ups with weighted methodology, plus the
+ * simulated 80th-percentile spend when the outlook carries a simulation
  */
 export function CapitalOutlookCard({ outlook }: CapitalOutlookCardProps) {
   const formatAmount = (amount: number) => {
     if (amount >= 1000) {
       return `$${(amount / 1000).toFixed(0)}k`;
     }
-    return `$${amount}`;
+    return `$${Math.round(amount)}`;
   };
 
   // Determine if there's significant near-term exposure
@@ -62,6 +63,32 @@ export function CapitalOutlookCard({ outlook }: CapitalOutlookCardProps) {
           ))}
         </div>
         
+        {outlook.simulation && (
+          <div className="mt-4 space-y-1">
+            {outlook.simulation.horizons.map(h => {
+              const period = h.yearsAhead === 1 ? 'year' : `${h.yearsAhead} years`;
+              return (
+                <p key={h.yearsAhead} className="text-sm text-muted-foreground">
+                  {h.p80 > 0 ? (
+                    <>
+                      80% chance you spend less than{' '}
+                      <span className="font-semibold text-foreground">{formatAmount(h.p80)}</span>
+                      {' '}in the next {period}
+                    </>
+                  ) : (
+                    <>
+                      <span className="font-semibold text-foreground">
+                        {Math.round((1 - h.anySpendProbability) * 100)}%
+                      </span>
+                      {' '}chance of no replacements in the next {period}
+                    </>
+                  )}
+                </p>
+              );
+            })}
+          </div>
+        )}
+        
         {hasNearTermExposure && (
           <div className="mt-4 p-3 bg-amber-50 dark:bg-amber-950/30 rounded-lg">
             <p className="text-sm text-amber-800 dark:text-amber-200">
@@ -73,6 +100,7 @@ export function CapitalOutlookCard({ outlook }: CapitalOutlookCardProps) {
         
         <p className="text-xs text-muted-foreground text-center mt-4 italic">
           {outlook.methodologyNote}
+          {outlook.simulation && `. ${outlook.simulation.methodologyNote}.`}
         </p>
       </CardContent>
     </Card>
@@ -4,6 +4,7 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { PropertyHistory } from '@/lib/propertyAPI';
 import { Permit } from '@/lib/permitAPI';
+import { isEnergyRelatedPermit, isSystemPermit } from '../../supabase/functions/_shared/permitClassifier.ts';
 import { 
   Zap, 
   Thermometer, 
@@ -33,35 +34,20 @@ const EnergyEfficiencyCard: React.FC<EnergyEfficiencyCardProps> = ({
     else if (age < 5) score += 15; // New construction bonus
     
     // Energy-related improvements
-    const energyPermits = permits.filter(p => {
-      const desc = (p.description || '').toLowerCase();
-      const type = (p.permit_type || '').toLowerCase();
-      return desc.includes('hvac') || 
-             desc.includes('insulation') || 
-             desc.includes('windows') ||
-             desc.includes('solar') ||
-             desc.includes('heat pump') ||
-             type.includes('mechanical') ||
-             type.includes('energy');
-    }).filter(p => 
+    const energyPermits = permits.filter(isEnergyRelatedPermit).filter(p => 
       p.date_issued && new Date(p.date_issued).getFullYear() >= new Date().getFullYear() - 10
     );
     
     score += energyPermits.length * 8;
     
     // Solar installations
-    const solarPermits = permits.filter(p => 
-      (p.description || '').toLowerCase().includes('solar') ||
-      (p.permit_type || '').toLowerCase().includes('solar')
-    );
+    const solarPermits = permits.filter(p => isSystemPermit('solar', p));
     
     if (solarPermits.length > 0) score += 25;
     
     // HVAC updates
     const hvacPermits = permits.filter(p => 
-      (p.description || '').toLowerCase().includes('hvac') ||
-      (p.description || '').toLowerCase().includes('heat pump') ||
-      (p.permit_type || '').toLowerCase().includes('mechanical')
+      isSystemPermit('hvac', p) || isSystemPermit('mini_split', p)
     ).filter(p => 
       p.date_issued && new Date(p.date_issued).getFullYear() >= new Date().getFullYear() - 8
     );
@@ -69,9 +55,7 @@ const EnergyEfficiencyCard: React.FC<EnergyEfficiencyCardProps> = ({
     if (hvacPermits.length > 0) score += 15;
     
     // Window replacements
-    const windowPermits = permits.filter(p => 
-      (p.description || '').toLowerCase().includes('window')
-    ).filter(p => 
+    const windowPermits = permits.filter(p => isSystemPermit('windows', p)).filter(p => 
       p.date_issued && new Date(p.date_issued).getFullYear() >= new Date().getFullYear() - 15
     );
     
@@ -101,9 +85,7 @@ const EnergyEfficiencyCard: React.FC<EnergyEfficiencyCardProps> = ({
     const currentYear = new Date().getFullYear();
     
     // Recent energy improvements
-    const solarPermits = permits.filter(p => 
-      (p.description || '').toLowerCase().includes('solar')
-    );
+    const solarPermits = permits.filter(p => isSystemPermit('solar', p));
     if (solarPermits.length > 0 && solarPermits[0].date_issued) {
       improvements.push({
         type: 'Solar Installation',
@@ -114,8 +96,7 @@ const EnergyEfficiencyCard: React.FC<EnergyEfficiencyCardProps> = ({
     }
     
     const hvacPermits = permits.filter(p => 
-      (p.description || '').toLowerCase().includes('hvac') ||
-      (p.description || '').toLowerCase().includes('heat pump')
+      isSystemPermit('hvac', p) || isSystemPermit('mini_split', p)
     ).filter(p => 
       p.date_issued && new Date(p.date_issued).getFullYear() >= currentYear - 10
     );
@@ -128,9 +109,7 @@ const EnergyEfficiencyCard: React.FC<EnergyEfficiencyCardProps> = ({
       });
     }
     
-    const windowPermits = permits.filter(p => 
-      (p.description || '').toLowerCase().includes('window')
-    ).filter(p => 
+    const windowPermits = permits.filter(p => isSystemPermit('windows', p)).filter(p => 
       p.date_issued && new Date(p.date_issued).getFullYear() >= currentYear - 15
     );
     if (windowPermits.length > 0 && windowPermits[0].date_issued) {
@@ -11,6 +11,8 @@ interface ActivityItem {
   category: string;
   notes?: string;
   contractor?: string;
+  /** Household member who logged it, when it wasn't the viewer */
+  recordedBy?: string;
 }
 
 const categoryIcons: Record<string, React.ComponentType<any>> = {
@@ -79,6 +81,11 @@ export const HomeActivityLog: React.FC<HomeActivityLogProps> = ({
                         Completed by {item.contractor}
                       </p>
                     )}
+                    {item.recordedBy && (
+                      <p className="text-sm text-muted-foreground">
+                        Recorded by {item.recordedBy}
+                      </p>
+                    )}
                     <p className="text-sm text-muted-foreground">
                       {format(new Date(item.date), 'MMMM dd, yyyy')}
                     </p>
@@ -53,6 +53,8 @@ interface HomeStructureProps {
   lotSize?: string;
   city?: string;
   state?: string;
+  zipCode?: string;
+  fipsCode?: string | null;
   lat?: number | null;
 }
 
@@ -75,6 +77,8 @@ export const HomeStructure: React.FC<HomeStructureProps> = ({
   lotSize,
   city,
   state,
+  zipCode,
+  fipsCode,
   lat,
 }) => {
   // Use Attom data when available
@@ -97,7 +101,7 @@ export const HomeStructure: React.FC<HomeStructureProps> = ({
   };
   
   // Get climate zone
-  const climateZone: ClimateZone = deriveClimateZone(state, city, lat);
+  const climateZone: ClimateZone = deriveClimateZone(state, city, lat, zipCode, fipsCode);
   
   // Check for multi-story insight
   const storiesInsight = resolvedStories >= 2 ? STRUCTURE_INSIGHTS['multi'] : null;
@@ -194,6 +198,14 @@ export const HomeStructure: React.FC<HomeStructureProps> = ({
                 <p className="text-meta text-muted-foreground italic pl-2">
                   {climateZone.impact}
                 </p>
+                {climateZone.profile.resolution !== 'default' && (
+                  <div className="flex justify-between items-baseline py-2 border-b border-border">
+                    <span className="text-muted-foreground">IECC zone</span>
+                    <span className="font-medium">
+                      {climateZone.profile.ieccZone} · {climateZone.profile.cdd65.toLocaleString()} cooling / {climateZone.profile.hdd65.toLocaleString()} heating degree days
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
           </div>
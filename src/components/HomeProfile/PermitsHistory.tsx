@@ -1,23 +1,28 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { FileText, Calendar, DollarSign, Building2, Loader2, Download } from 'lucide-react';
-import { getPermits, syncPermitsData, Permit } from '@/lib/permitAPI';
+import { FileText, Calendar, DollarSign, Building2, Loader2, Download, Upload } from 'lucide-react';
+import { getPermits, syncPermitsData, uploadPermitsCsv, Permit } from '@/lib/permitAPI';
 import { useToast } from '@/hooks/use-toast';
 
 interface PermitsHistoryProps {
   homeId: string;
   address: string;
+  /** Members who can edit the home may import a permit CSV */
+  canEdit?: boolean;
 }
 
 export const PermitsHistory: React.FC<PermitsHistoryProps> = ({
   homeId,
-  address
+  address,
+  canEdit = false
 }) => {
   const [permits, setPermits] = useState<Permit[]>([]);
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -60,6 +65,33 @@ export const PermitsHistory: React.FC<PermitsHistoryProps> = ({
     }
   };
 
+  const handleCsvSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setUploading(true);
+      const result = await uploadPermitsCsv(await file.text(), homeId);
+
+      toast({
+        title: "Permits Imported",
+        description: result.message,
+        variant: "default",
+      });
+
+      await loadPermits();
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Could not import the permit CSV",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'N/A';
     return new Date(dateString).toLocaleDateString();
@@ -106,19 +138,45 @@ export const PermitsHistory: React.FC<PermitsHistoryProps> = ({
               Permit history helps Habitta infer system age, quality, and risk patterns.
             </p>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={handleSyncPermits}
-            disabled={syncing}
-          >
-            {syncing ? (
-              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-            ) : (
-              <Download className="h-4 w-4 mr-2" />
+          <div className="flex items-center gap-2">
+            {canEdit && (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={handleCsvSelected}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={uploading}
+                >
+                  {uploading ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Upload className="h-4 w-4 mr-2" />
+                  )}
+                  {uploading ? 'Importing...' : 'Import CSV'}
+                </Button>
+              </>
             )}
-            {syncing ? 'Syncing...' : 'Sync from Shovels'}
-          </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSyncPermits}
+              disabled={syncing}
+            >
+              {syncing ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4 mr-2" />
+              )}
+              {syncing ? 'Syncing...' : 'Sync from Shovels'}
+            </Button>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
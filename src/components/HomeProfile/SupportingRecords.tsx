@@ -1,72 +1,183 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { FileText, Upload, MoreVertical } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { FileText, Upload, MoreVertical, Loader2 } from 'lucide-react';
+import { getSystemLabel } from '@/lib/systemMeta';
+import type { HomeDocument } from '@/hooks/useHomeDocuments';
+import type { DocumentType } from '@/lib/documentIngestion';
 
-interface Document {
-  id: string;
-  name: string;
-  size: string;
-  uploadDate: string;
-  type: 'deed' | 'permit' | 'warranty' | 'manual' | 'other';
-}
+const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  receipt: 'Receipt',
+  invoice: 'Invoice',
+  warranty: 'Warranty',
+  inspection_report: 'Inspection report',
+  permit: 'Permit',
+  insurance: 'Insurance',
+  manual: 'Manual',
+  other: 'Record',
+};
+
+const ACCEPTED_FILE_TYPES = '.pdf,.jpg,.jpeg,.png,.webp,.txt';
 
 interface SupportingRecordsProps {
-  documents?: Document[];
-  onUploadRecord?: () => void;
+  documents?: HomeDocument[];
+  isUploading?: boolean;
+  onUploadFile?: (file: File) => void;
+  onViewDocument?: (document: HomeDocument) => void;
+  onRetryExtraction?: (document: HomeDocument) => void;
+}
+
+function formatFileSize(bytes: number | null): string | null {
+  if (!bytes) return null;
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatDate(iso: string): string {
+  // Date-only strings are calendar dates; don't let the timezone shift them
+  const date = iso.length === 10 ? new Date(`${iso}T00:00:00`) : new Date(iso);
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+/**
+ * One line of what the record told us, e.g.
+ * "HVAC · Carrier · Installed Jun 12, 2021 · $9,450 · Warranty through Jun 12, 2031"
+ */
+function describeExtraction(doc: HomeDocument): string | null {
+  const extraction = doc.extraction;
+  if (!extraction) return null;
+
+  const parts: string[] = [];
+  if (extraction.systemKey) parts.push(getSystemLabel(extraction.systemKey));
+  if (extraction.brand) parts.push(extraction.brand);
+  if (extraction.installDate) parts.push(`Installed ${formatDate(extraction.installDate)}`);
+  if (extraction.totalCost) parts.push(`$${Math.round(extraction.totalCost).toLocaleString()}`);
+  if (extraction.warranty?.expiresOn) parts.push(`Warranty through ${formatDate(extraction.warranty.expiresOn)}`);
+
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+function StatusBadge({ doc }: { doc: HomeDocument }) {
+  switch (doc.status) {
+    case 'pending':
+    case 'processing':
+      return <Badge variant="secondary">Reading…</Badge>;
+    case 'failed':
+      return <Badge variant="destructive">Couldn't read</Badge>;
+    default:
+      return doc.appliedAt
+        ? <Badge variant="outline">Applied to home record</Badge>
+        : null;
+  }
 }
 
 /**
  * SupportingRecords - Evidence documents that improve forecast accuracy
- * 
+ *
  * Renamed from "HomeDocuments" to reframe uploads as intelligence input.
- * Shows empty state when no real documents exist (no fake mock data).
+ * Uploads are read (OCR + extraction) and what they prove flows into the
+ * system record. Shows empty state when no real documents exist (no fake mock data).
  */
-export const SupportingRecords: React.FC<SupportingRecordsProps> = ({ 
+export const SupportingRecords: React.FC<SupportingRecordsProps> = ({
   documents = [],
-  onUploadRecord,
+  isUploading = false,
+  onUploadFile,
+  onViewDocument,
+  onRetryExtraction,
 }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const hasDocuments = documents.length > 0;
 
+  const openFilePicker = () => fileInputRef.current?.click();
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onUploadFile?.(file);
+    event.target.value = '';
+  };
+
+  const uploadIcon = isUploading
+    ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+    : <Upload className="h-4 w-4 mr-2" />;
+
   return (
     <Card>
       <CardHeader>
         <div className="space-y-1">
           <CardTitle className="heading-h3">Supporting records</CardTitle>
           <p className="text-meta text-muted-foreground">
-            Uploading records improves forecast accuracy and long-term clarity.
+            Receipts, invoices, warranties and inspection reports improve forecast accuracy and long-term clarity.
           </p>
         </div>
       </CardHeader>
       <CardContent>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_FILE_TYPES}
+          className="hidden"
+          onChange={handleFileChange}
+        />
         {hasDocuments ? (
           <div className="space-y-4">
-            {documents.map((doc) => (
-              <div 
-                key={doc.id} 
-                className="flex items-center justify-between p-3 border border-border rounded-lg"
-              >
-                <div className="flex items-center space-x-3">
-                  <div className="flex-shrink-0">
-                    <FileText className="h-8 w-8 text-red-500" />
-                  </div>
-                  <div>
-                    <h4 className="font-medium">{doc.name}</h4>
-                    <p className="text-sm text-muted-foreground">
-                      {doc.size} • Uploaded {doc.uploadDate}
-                    </p>
+            {documents.map((doc) => {
+              const summary = describeExtraction(doc);
+              const size = formatFileSize(doc.fileSize);
+              return (
+                <div
+                  key={doc.id}
+                  className="flex items-center justify-between p-3 border border-border rounded-lg"
+                >
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <div className="flex-shrink-0">
+                      <FileText className="h-8 w-8 text-muted-foreground" />
+                    </div>
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium truncate">{doc.name}</h4>
+                        <StatusBadge doc={doc} />
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {DOCUMENT_TYPE_LABELS[doc.type] ?? 'Record'}
+                        {size && ` • ${size}`} • Uploaded {formatDate(doc.uploadedAt)}
+                      </p>
+                      {summary && (
+                        <p className="text-meta text-muted-foreground truncate">{summary}</p>
+                      )}
+                    </div>
                   </div>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm">
+                        <MoreVertical className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => onViewDocument?.(doc)}>
+                        View file
+                      </DropdownMenuItem>
+                      {doc.status === 'failed' && (
+                        <DropdownMenuItem onClick={() => onRetryExtraction?.(doc)}>
+                          Try reading again
+                        </DropdownMenuItem>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 </div>
-                <Button variant="ghost" size="sm">
-                  <MoreVertical className="h-4 w-4" />
-                </Button>
-              </div>
-            ))}
-            
+              );
+            })}
+
             <div className="pt-4 border-t border-border">
-              <Button variant="outline" className="w-full" onClick={onUploadRecord}>
-                <Upload className="h-4 w-4 mr-2" />
-                Upload document
+              <Button variant="outline" className="w-full" onClick={openFilePicker} disabled={isUploading}>
+                {uploadIcon}
+                {isUploading ? 'Reading document…' : 'Upload document'}
               </Button>
             </div>
           </div>
@@ -75,9 +186,9 @@ export const SupportingRecords: React.FC<SupportingRecordsProps> = ({
           <div className="text-center py-8 text-muted-foreground">
             <FileText className="h-8 w-8 mx-auto mb-2 opacity-50" />
             <p>No records uploaded yet</p>
-            <Button variant="outline" size="sm" className="mt-4" onClick={onUploadRecord}>
-              <Upload className="h-4 w-4 mr-2" />
-              Add your first record
+            <Button variant="outline" size="sm" className="mt-4" onClick={openFilePicker} disabled={isUploading}>
+              {uploadIcon}
+              {isUploading ? 'Reading document…' : 'Add your first record'}
             </Button>
           </div>
         )}
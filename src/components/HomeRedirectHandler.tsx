@@ -20,10 +20,10 @@ const HomeRedirectHandler = () => {
       }
       
       try {
+        // RLS scopes this to homes the user owns or is a member of
         const { data: homes, error } = await supabase
           .from('homes')
-          .select('id')
-          .eq('user_id', user.id);
+          .select('id');
 
         if (error) throw error;
 
@@ -0,0 +1,243 @@
+/**
+ * HouseholdMembersCard — who shares the selected home, and invitations
+ *
+ * Owners and co-owners can invite by email, change roles and remove
+ * members (within canAssignRole / canManageMember). Everyone else sees
+ * the member list and can leave the home.
+ */
+
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useUserHome, type UserHome } from "@/contexts/UserHomeContext";
+import { useHomeMembers } from "@/hooks/useHomeMembers";
+import {
+  HOME_MEMBER_ROLES,
+  HOME_ROLE_DESCRIPTIONS,
+  HOME_ROLE_LABELS,
+  canAssignRole,
+  canManageMember,
+  isHomeMemberRole,
+  isValidEmail,
+  memberDisplayName,
+  type HomeMemberRole,
+} from "@/lib/homeMembership";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Mail, Users, X } from "lucide-react";
+
+interface HouseholdMembersCardProps {
+  home: UserHome;
+}
+
+export function HouseholdMembersCard({ home }: HouseholdMembersCardProps) {
+  const { user } = useAuth();
+  const { refreshHome } = useUserHome();
+  const { toast } = useToast();
+  const { role, members, invitations, loading, error, invite, revoke, changeRole, remove } =
+    useHomeMembers(home.id);
+
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<HomeMemberRole>("viewer");
+
+  const myRole = role ?? home.role;
+  const assignableRoles = HOME_MEMBER_ROLES.filter((r) => canAssignRole(myRole, r));
+
+  const reportError = (title: string) => (err: Error) =>
+    toast({ title, description: err.message, variant: "destructive" });
+
+  const handleInvite = () => {
+    invite.mutate(
+      { email: email.trim(), role: inviteRole },
+      {
+        onSuccess: async ({ inviteUrl, emailSent }) => {
+          setEmail("");
+          if (emailSent) {
+            toast({ title: "Invitation sent", description: `We emailed an invitation to ${email.trim()}.` });
+            return;
+          }
+          // No email provider configured: hand the link over instead
+          await navigator.clipboard?.writeText(inviteUrl).catch(() => undefined);
+          toast({
+            title: "Invitation created",
+            description: "We couldn't send the email, so the invitation link was copied to your clipboard.",
+          });
+        },
+        onError: reportError("Couldn't send invitation"),
+      }
+    );
+  };
+
+  const handleRemove = (memberId: string, isSelf: boolean) => {
+    remove.mutate(memberId, {
+      onSuccess: async () => {
+        if (isSelf) {
+          toast({ title: "You left this home" });
+          await refreshHome();
+        }
+      },
+      onError: reportError(isSelf ? "Couldn't leave home" : "Couldn't remove member"),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Household
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && <p className="text-sm text-muted-foreground">Loading household...</p>}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="space-y-3">
+          {members.map((member) => {
+            const isSelf = member.userId === user?.id;
+            const manageable = canManageMember(myRole, member.role, isSelf);
+            const reassignable = !isSelf && manageable && assignableRoles.length > 0;
+
+            return (
+              <div key={member.id} className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {memberDisplayName(member)}
+                    {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                  </p>
+                  {member.fullName && member.email && (
+                    <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {reassignable ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) => {
+                        if (!isHomeMemberRole(value)) return;
+                        changeRole.mutate(
+                          { memberId: member.id, role: value },
+                          { onError: reportError("Couldn't change role") }
+                        );
+                      }}
+                    >
+                      <SelectTrigger className="w-36 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {assignableRoles.map((r) => (
+                          <SelectItem key={r} value={r}>
+                            {HOME_ROLE_LABELS[r]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="secondary">{HOME_ROLE_LABELS[member.role]}</Badge>
+                  )}
+                  {manageable && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(member.id, isSelf)}
+                      disabled={remove.isPending}
+                    >
+                      {isSelf ? "Leave" : "Remove"}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {invitations.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Pending invitations</p>
+              {invitations.map((inv) => (
+                <div key={inv.id} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="truncate">
+                    {inv.email} · {HOME_ROLE_LABELS[inv.role]}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revoke.mutate(inv.id, { onError: reportError("Couldn't cancel invitation") })}
+                    disabled={revoke.isPending}
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Cancel
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {assignableRoles.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <div className="grid w-full items-center gap-1.5">
+                <Label htmlFor="invite-email">Invite someone</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="name@example.com"
+                />
+              </div>
+              <div className="grid w-full items-center gap-1.5">
+                <Label htmlFor="invite-role">Role</Label>
+                <Select
+                  value={inviteRole}
+                  onValueChange={(value) => isHomeMemberRole(value) && setInviteRole(value)}
+                >
+                  <SelectTrigger id="invite-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assignableRoles.map((r) => (
+                      <SelectItem key={r} value={r}>
+                        {HOME_ROLE_LABELS[r]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{HOME_ROLE_DESCRIPTIONS[inviteRole]}</p>
+              </div>
+              <Button
+                onClick={handleInvite}
+                disabled={invite.isPending || !isValidEmail(email)}
+                className="w-full sm:w-auto"
+              >
+                {invite.isPending ? (
+                  "Sending..."
+                ) : (
+                  <>
+                    <Mail className="w-4 h-4 mr-2" />
+                    Send Invitation
+                  </>
+                )}
+              </Button>
+            </div>
+          </>
+        )}
+
+        {assignableRoles.length === 0 && !loading && (
+          <p className="text-sm text-muted-foreground">
+            You're a {HOME_ROLE_LABELS[myRole].toLowerCase()} on this home. {HOME_ROLE_DESCRIPTIONS[myRole]}.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,14 +5,16 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Upload, FileImage, X, CheckCircle } from 'lucide-react';
-import { validateFileUpload } from '@/lib/validation';
+import { validateDocumentUpload } from '@/lib/validation';
+import { ingestDocument } from '@/lib/documentIngestion';
 import { useToast } from '@/hooks/use-toast';
 
 interface MaintenanceUploadProps {
-  onUploadComplete: (data: { applianceType: string; fileName: string }) => void;
+  homeId: string;
+  onUploadComplete: (data: { applianceType: string; fileName: string; documentId: string }) => void;
 }
 
-const MaintenanceUpload: React.FC<MaintenanceUploadProps> = ({ onUploadComplete }) => {
+const MaintenanceUpload: React.FC<MaintenanceUploadProps> = ({ homeId, onUploadComplete }) => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [applianceType, setApplianceType] = useState('');
   const [isUploading, setIsUploading] = useState(false);
@@ -24,7 +26,7 @@ const MaintenanceUpload: React.FC<MaintenanceUploadProps> = ({ onUploadComplete
     const file = event.target.files?.[0];
     if (!file) return;
 
-    const validation = validateFileUpload(file);
+    const validation = validateDocumentUpload(file);
     if (!validation.isValid) {
       toast({
         title: "File Error",
@@ -46,7 +48,7 @@ const MaintenanceUpload: React.FC<MaintenanceUploadProps> = ({ onUploadComplete
     event.preventDefault();
     const file = event.dataTransfer.files[0];
     if (file) {
-      const validation = validateFileUpload(file);
+      const validation = validateDocumentUpload(file);
       if (!validation.isValid) {
         toast({
           title: "File Error",
@@ -73,23 +75,19 @@ const MaintenanceUpload: React.FC<MaintenanceUploadProps> = ({ onUploadComplete
     setIsUploading(true);
 
     try {
-      // Simulate API call - in a real app, this would upload to your backend
-      const formData = new FormData();
-      formData.append('file', selectedFile);
-      formData.append('applianceType', applianceType);
-
-      // Mock successful upload
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      // Stores the file, reads it, and applies what it proves to the system record
+      const result = await ingestDocument({ file: selectedFile, homeId });
 
       setUploadSuccess(true);
       onUploadComplete({
         applianceType,
-        fileName: selectedFile.name
+        fileName: selectedFile.name,
+        documentId: result.documentId,
       });
 
       toast({
         title: "Upload Successful",
-        description: `${selectedFile.name} uploaded for ${applianceType}`,
+        description: result.systemUpdate?.chat_summary ?? `${selectedFile.name} uploaded for ${applianceType}`,
       });
 
       // Reset form
@@ -102,7 +100,7 @@ const MaintenanceUpload: React.FC<MaintenanceUploadProps> = ({ onUploadComplete
     } catch (error) {
       toast({
         title: "Upload Failed",
-        description: "Failed to upload maintenance photo",
+        description: "Failed to upload maintenance record",
         variant: "destructive",
       });
     } finally {
@@ -157,7 +155,7 @@ const MaintenanceUpload: React.FC<MaintenanceUploadProps> = ({ onUploadComplete
 
         {/* File Upload Area */}
         <div className="space-y-2">
-          <Label>Maintenance Photo</Label>
+          <Label>Receipt, Invoice or Photo</Label>
           <div
             className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-6 text-center cursor-pointer hover:border-primary/50 transition-colors"
             onDragOver={handleDragOver}
@@ -167,7 +165,7 @@ const MaintenanceUpload: React.FC<MaintenanceUploadProps> = ({ onUploadComplete
             <input
               ref={fileInputRef}
               type="file"
-              accept=".jpg,.jpeg,.png,.gif"
+              accept=".pdf,.jpg,.jpeg,.png,.webp"
               onChange={handleFileSelect}
               className="hidden"
             />
@@ -207,7 +205,7 @@ const MaintenanceUpload: React.FC<MaintenanceUploadProps> = ({ onUploadComplete
                   Click to select or drag and drop
                 </p>
                 <p className="text-xs text-muted-foreground">
-                  JPG, PNG, GIF up to 5MB
+                  PDF, JPG, PNG up to 10MB
                 </p>
               </div>
             )}
@@ -228,7 +226,7 @@ const MaintenanceUpload: React.FC<MaintenanceUploadProps> = ({ onUploadComplete
           ) : (
             <>
               <Upload className="w-4 h-4 mr-2" />
-              Upload Photo
+              Upload Record
             </>
           )}
         </Button>
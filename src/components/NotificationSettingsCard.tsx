@@ -0,0 +1,238 @@
+/**
+ * NotificationSettingsCard — how maintenance reminders reach the user
+ *
+ * Channels (email, this browser's push), which alerts to send, the weekly
+ * digest day and quiet hours. Changes save immediately; the test button
+ * sends through notification-dispatch on whichever channels are on.
+ */
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  NOTIFICATION_KIND_LABELS,
+  WEEKDAY_LABELS,
+  isPushSupported,
+  loadNotificationPreferences,
+  saveNotificationPreferences,
+  sendTestNotification,
+  subscribeToPush,
+  unsubscribeFromPush,
+  type NotificationPreferences,
+} from "@/lib/notifications";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Bell, Send } from "lucide-react";
+
+const ALERT_KINDS = ["task_overdue", "task_due_soon", "warranty"] as const;
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+function hourLabel(hour: number): string {
+  const suffix = hour < 12 ? "am" : "pm";
+  return `${hour % 12 === 0 ? 12 : hour % 12}${suffix}`;
+}
+
+export function NotificationSettingsCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [prefs, setPrefs] = useState<NotificationPreferences | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    loadNotificationPreferences(user.id)
+      .then(setPrefs)
+      .catch((err) => toast({ title: "Couldn't load notification settings", description: err.message, variant: "destructive" }));
+  }, [user, toast]);
+
+  if (!user || !prefs) return null;
+
+  const update = async (changes: Partial<NotificationPreferences>) => {
+    const previous = prefs;
+    const next = { ...prefs, ...changes };
+    setPrefs(next);
+    setSaving(true);
+    try {
+      await saveNotificationPreferences(user.id, next);
+    } catch (err) {
+      setPrefs(previous);
+      toast({ title: "Couldn't save notification settings", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePushToggle = async (enabled: boolean) => {
+    try {
+      if (enabled) {
+        await subscribeToPush(user.id);
+      } else {
+        await unsubscribeFromPush();
+      }
+      await update({ push_enabled: enabled });
+    } catch (err) {
+      toast({ title: "Couldn't change push notifications", description: (err as Error).message, variant: "destructive" });
+    }
+  };
+
+  const handleTest = async () => {
+    setTesting(true);
+    try {
+      const { results } = await sendTestNotification();
+      const sent = Object.entries(results).filter(([, r]) => r?.ok).map(([channel]) => channel);
+      toast(
+        sent.length > 0
+          ? { title: "Test sent", description: `Check your ${sent.join(" and ")}.` }
+          : { title: "Nothing sent", description: "Turn on a channel above, or check that push is allowed on this device." }
+      );
+    } catch (err) {
+      toast({ title: "Couldn't send test", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const quietOn = prefs.quiet_hours_start !== null && prefs.quiet_hours_end !== null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="w-5 h-5" />
+          Notifications
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor="notify-email">Email</Label>
+            <Switch
+              id="notify-email"
+              checked={prefs.email_enabled}
+              onCheckedChange={(checked) => update({ email_enabled: checked })}
+              disabled={saving}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <Label htmlFor="notify-push">Push on this device</Label>
+              {!isPushSupported() && (
+                <p className="text-xs text-muted-foreground">Not available in this browser.</p>
+              )}
+            </div>
+            <Switch
+              id="notify-push"
+              checked={prefs.push_enabled}
+              onCheckedChange={handlePushToggle}
+              disabled={saving || (!isPushSupported() && !prefs.push_enabled)}
+            />
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <p className="text-sm font-medium">Send me</p>
+          {ALERT_KINDS.map((kind) => (
+            <div key={kind} className="flex items-center justify-between gap-3">
+              <Label htmlFor={`notify-${kind}`}>{NOTIFICATION_KIND_LABELS[kind]}</Label>
+              <Switch
+                id={`notify-${kind}`}
+                checked={prefs[kind]}
+                onCheckedChange={(checked) => update({ [kind]: checked })}
+                disabled={saving}
+              />
+            </div>
+          ))}
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor="notify-digest">{NOTIFICATION_KIND_LABELS.weekly_digest} (email)</Label>
+            <Switch
+              id="notify-digest"
+              checked={prefs.weekly_digest}
+              onCheckedChange={(checked) => update({ weekly_digest: checked })}
+              disabled={saving}
+            />
+          </div>
+          {prefs.weekly_digest && (
+            <div className="grid w-full items-center gap-1.5">
+              <Label htmlFor="notify-digest-day">Digest day</Label>
+              <Select
+                value={String(prefs.digest_day)}
+                onValueChange={(value) => update({ digest_day: Number(value) })}
+              >
+                <SelectTrigger id="notify-digest-day">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <SelectItem key={label} value={String(day)}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor="notify-quiet">Quiet hours</Label>
+            <Switch
+              id="notify-quiet"
+              checked={quietOn}
+              onCheckedChange={(checked) =>
+                update(checked ? { quiet_hours_start: 21, quiet_hours_end: 8 } : { quiet_hours_start: null, quiet_hours_end: null })
+              }
+              disabled={saving}
+            />
+          </div>
+          {quietOn && (
+            <div className="grid grid-cols-2 gap-3">
+              {(["quiet_hours_start", "quiet_hours_end"] as const).map((field) => (
+                <div key={field} className="grid items-center gap-1.5">
+                  <Label htmlFor={`notify-${field}`}>{field === "quiet_hours_start" ? "From" : "Until"}</Label>
+                  <Select
+                    value={String(prefs[field])}
+                    onValueChange={(value) => update({ [field]: Number(value) })}
+                  >
+                    <SelectTrigger id={`notify-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HOURS.map((hour) => (
+                        <SelectItem key={hour} value={String(hour)}>
+                          {hourLabel(hour)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Times are in {prefs.timezone.replace(/_/g, " ")}. Alerts held during quiet hours go out afterwards.
+          </p>
+        </div>
+
+        <Button
+          variant="outline"
+          onClick={handleTest}
+          disabled={testing || (!prefs.email_enabled && !prefs.push_enabled)}
+          className="w-full sm:w-auto"
+        >
+          <Send className="w-4 h-4 mr-2" />
+          {testing ? "Sending..." : "Send test notification"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
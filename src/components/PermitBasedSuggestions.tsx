@@ -26,9 +26,12 @@ const SYSTEM_ICONS = {
   pool: Droplets,
   hurricane_shutters: Shield,
   hvac: Wind,
+  mini_split: Wind,
   electrical: Zap,
-  roofing: Shield,
+  electrical_panel: Zap,
+  roof: Shield,
   plumbing: Droplets,
+  water_heater: Droplets,
   driveway: TrendingUp,
   solar: Zap
 };
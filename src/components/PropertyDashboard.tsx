@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { PropertyHistory } from '@/lib/propertyAPI';
 import { getPermits, getCodeViolations, syncPermitsData, Permit, CodeViolation } from '@/lib/permitAPI';
+import { classifyPermitWork, isSystemPermit } from '../../supabase/functions/_shared/permitClassifier.ts';
 import { getWeatherHistory, computeWearIndex } from '@/lib/weatherAPI';
 import { useToast } from '@/hooks/use-toast';
 import { 
@@ -114,8 +115,7 @@ const PropertyDashboard: React.FC<PropertyDashboardProps> = ({ propertyData }) =
   const calculateRoofScore = async (permits: Permit[]): Promise<RoofScore> => {
     // Find most recent roof replacement
     const roofPermits = permits.filter(p => 
-      (p.permit_type || '').toLowerCase().includes('roof') && 
-      (p.description || '').toLowerCase().includes('replacement')
+      isSystemPermit('roof', p) && classifyPermitWork('roof', p) === 'replacement'
     );
 
     const yearReplaced = roofPermits.length > 0 && roofPermits[0].date_issued
@@ -4,6 +4,7 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { PropertyHistory } from '@/lib/propertyAPI';
 import { Permit, CodeViolation } from '@/lib/permitAPI';
+import { isSystemPermit } from '../../supabase/functions/_shared/permitClassifier.ts';
 import { 
   Shield, 
   AlertTriangle, 
@@ -95,7 +96,7 @@ const PropertyRiskAssessment: React.FC<PropertyRiskAssessmentProps> = ({
     
     // Check for electrical permits (good) vs violations (bad)
     const electricalPermits = permits.filter(p => 
-      (p.permit_type || '').toLowerCase().includes('electrical')
+      isSystemPermit('electrical', p) || isSystemPermit('electrical_panel', p)
     ).filter(p => 
       p.date_issued && new Date(p.date_issued).getFullYear() >= new Date().getFullYear() - 10
     );
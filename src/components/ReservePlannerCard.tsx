@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { useToast } from "@/hooks/use-toast";
+import { useReservePlan } from "@/hooks/useReservePlan";
+import { cn } from "@/lib/utils";
+import {
+  DEFAULT_RESERVE_INPUTS,
+  SHORTFALL_TARGET,
+  simulateReservePlan,
+  type ReservePlanInputs,
+} from "@/services/reservePlanner";
+import type { SystemTimelineEntry } from "@/types/capitalTimeline";
+import { Info, PiggyBank, Save } from "lucide-react";
+
+interface ReservePlannerCardProps {
+  homeId: string;
+  systems: SystemTimelineEntry[];
+  /** Viewers and service pros see the saved plan but can't change it */
+  canEdit?: boolean;
+}
+
+const formatAmount = (amount: number) => {
+  const sign = amount < 0 ? "−" : "";
+  const abs = Math.abs(amount);
+  return abs >= 1000 ? `${sign}$${(abs / 1000).toFixed(0)}k` : `${sign}$${Math.round(abs)}`;
+};
+
+const formatPercent = (p: number) => `${Math.round(p * 100)}%`;
+
+function parseAmount(value: string): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+/**
+ * ReservePlannerCard - Capital reserve (sinking fund) against the timeline
+ *
+ * Savings, monthly contribution and cost escalation in; shortfall
+ * probability by year out. Recomputes as the owner types; Save stores the
+ * inputs so the plan appears in the exported home report.
+ */
+export function ReservePlannerCard({ homeId, systems, canEdit = true }: ReservePlannerCardProps) {
+  const { toast } = useToast();
+  const { plan, savePlan, isSaving } = useReservePlan(homeId);
+  const [inputs, setInputs] = useState<ReservePlanInputs>(DEFAULT_RESERVE_INPUTS);
+
+  useEffect(() => {
+    setInputs(plan ?? DEFAULT_RESERVE_INPUTS);
+  }, [plan]);
+
+  const result = useMemo(() => simulateReservePlan(systems, inputs), [systems, inputs]);
+  const isDirty =
+    !plan ||
+    plan.currentSavings !== inputs.currentSavings ||
+    plan.monthlyContribution !== inputs.monthlyContribution ||
+    plan.escalationRate !== inputs.escalationRate;
+
+  const handleSave = async () => {
+    try {
+      await savePlan(inputs);
+      toast({ title: "Reserve plan saved", description: "It will be included in your home report." });
+    } catch (err) {
+      toast({
+        title: "Couldn't save reserve plan",
+        description: err instanceof Error ? err.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="rounded-2xl">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <PiggyBank className="h-4 w-4 text-primary" />
+            <CardTitle className="text-lg">Reserve Plan</CardTitle>
+          </div>
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Info className="h-4 w-4 text-muted-foreground cursor-help" />
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs">
+                <p className="text-sm">
+                  We simulate {result.runs.toLocaleString()} possible futures, drawing each system's replacement
+                  year from its window and cost from its range, and count how often your reserve runs short.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-3">
+          <div className="grid gap-1.5">
+            <Label htmlFor="reserve-savings" className="text-xs">Saved today</Label>
+            <Input
+              id="reserve-savings"
+              type="number"
+              min={0}
+              step={100}
+              value={inputs.currentSavings || ""}
+              placeholder="$0"
+              disabled={!canEdit}
+              onChange={(e) => setInputs((prev) => ({ ...prev, currentSavings: parseAmount(e.target.value) }))}
+            />
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="reserve-monthly" className="text-xs">Monthly</Label>
+            <Input
+              id="reserve-monthly"
+              type="number"
+              min={0}
+              step={25}
+              value={inputs.monthlyContribution || ""}
+              placeholder="$0"
+              disabled={!canEdit}
+              onChange={(e) => setInputs((prev) => ({ ...prev, monthlyContribution: parseAmount(e.target.value) }))}
+            />
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="reserve-escalation" className="text-xs">Cost rise %/yr</Label>
+            <Input
+              id="reserve-escalation"
+              type="number"
+              min={0}
+              max={25}
+              step={0.5}
+              value={Math.round(inputs.escalationRate * 1000) / 10}
+              disabled={!canEdit}
+              onChange={(e) =>
+                setInputs((prev) => ({
+                  ...prev,
+                  escalationRate: Math.min(0.25, parseAmount(e.target.value) / 100),
+                }))
+              }
+            />
+          </div>
+        </div>
+
+        {/* Shortfall probability by year */}
+        <div className="space-y-1">
+          {result.years.map((year) => (
+            <div key={year.year} className="flex items-center gap-3 text-xs">
+              <span className="w-10 text-muted-foreground tabular-nums">{year.year}</span>
+              <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+                <div
+                  className={cn(
+                    "h-full rounded-full",
+                    year.shortfallProbability > SHORTFALL_TARGET ? "bg-amber-500" : "bg-emerald-500"
+                  )}
+                  style={{ width: `${Math.max(2, year.shortfallProbability * 100)}%` }}
+                />
+              </div>
+              <span className="w-10 text-right tabular-nums">{formatPercent(year.shortfallProbability)}</span>
+              <span className="w-14 text-right text-muted-foreground tabular-nums">{formatAmount(year.medianBalance)}</span>
+            </div>
+          ))}
+          <p className="text-[11px] text-muted-foreground pt-1">
+            Chance of a shortfall each year, and the typical balance at year end.
+          </p>
+        </div>
+
+        <div
+          className={cn(
+            "p-3 rounded-lg text-sm",
+            result.firstAtRiskYear
+              ? "bg-amber-50 text-amber-800 dark:bg-amber-950/30 dark:text-amber-200"
+              : "bg-emerald-50 text-emerald-800 dark:bg-emerald-950/30 dark:text-emerald-200"
+          )}
+        >
+          {result.firstAtRiskYear
+            ? `Your reserve could run short by ${result.firstAtRiskYear}. Saving about $${result.recommendedMonthlyContribution.toLocaleString()} a month keeps the risk under ${formatPercent(SHORTFALL_TARGET)} every year.`
+            : `Your reserve covers expected replacements with at least a ${formatPercent(1 - SHORTFALL_TARGET)} chance every year.`}
+        </div>
+
+        {canEdit && (
+          <Button size="sm" onClick={handleSave} disabled={isSaving || !isDirty}>
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? "Saving..." : "Save plan"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,6 +12,8 @@ import { SystemOptimizationSection } from "@/components/SystemOptimizationSectio
 import { CONFIDENCE_HELPER_TEXT } from "@/lib/optimizationCopy";
 import { SYSTEM_META, isValidSystemKey } from "@/lib/systemMeta";
 import { SystemUpdateModal } from "@/components/system/SystemUpdateModal";
+import { WarrantyCard } from "@/components/system/WarrantyCard";
+import { MaintenanceAdherenceSummary } from "@/components/system/MaintenanceAdherenceSummary";
 import { 
   formatReplacementWindow, 
   formatMostLikelyYear, 
@@ -230,6 +232,33 @@ export function SystemDetailView({
         </Card>
       )}
 
+      {/* Maintenance record */}
+      {prediction.maintenanceEffect?.adherence && (
+        <Card className="rounded-xl">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base font-semibold flex items-center gap-2">
+              <Wrench className="h-4 w-4 text-muted-foreground" />
+              Maintenance Record
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <MaintenanceAdherenceSummary
+              effect={prediction.maintenanceEffect}
+              adherence={prediction.maintenanceEffect.adherence}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Warranty */}
+      <WarrantyCard
+        homeId={homeId}
+        kind={prediction.systemKey}
+        label={prediction.header.name}
+        installDate={prediction.lifespan?.install_date}
+        className="rounded-xl"
+      />
+
       {/* System Optimization Section */}
       {prediction.optimization && (
         <SystemOptimizationSection
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { captureRiskDelta } from '@/services/riskDeltaService';
+import { completeMaintenanceTask, reopenMaintenanceTask } from '@/lib/maintenancePlanner';
 
 // Category to system type mapping (fixes missing system mapping)
 const CATEGORY_TO_SYSTEM: Record<string, string> = {
@@ -47,16 +48,8 @@ export function useTaskCompletion() {
     // Simple uncomplete flow
     if (!isCompleted) {
       try {
-        const { error } = await supabase
-          .from('maintenance_tasks')
-          .update({
-            status: 'pending',
-            completed_date: null,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', taskId);
-
-        if (error) throw error;
+        // Also withdraws the next occurrence completing it had scheduled
+        await reopenMaintenanceTask(taskId);
 
         toast({
           title: 'Task marked as pending',
@@ -122,17 +115,9 @@ export function useTaskCompletion() {
         }
       }
       
-      // Step 3: Mark task completed (critical operation - don't fail here)
-      const { error: updateError } = await supabase
-        .from('maintenance_tasks')
-        .update({
-          status: 'completed',
-          completed_date: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', taskId);
-
-      if (updateError) throw updateError;
+      // Step 3: Mark task completed (critical operation - don't fail here);
+      // schedules the next occurrence of a recurring task
+      const { next } = await completeMaintenanceTask(taskId);
       
       // Step 4: Log event with before snapshot (non-blocking)
       if (systemType && homeId && beforeSnapshot) {
@@ -158,7 +143,9 @@ export function useTaskCompletion() {
         title: 'Maintenance logged',
         description: systemType === 'hvac' 
           ? 'Your HVAC outlook has improved.' 
-          : 'Task status has been updated successfully.',
+          : next?.due_date
+            ? `Next due ${new Date(`${next.due_date}T00:00:00`).toLocaleDateString()}.`
+            : 'Task status has been updated successfully.',
       });
 
     } catch (error: any) {
@@ -0,0 +1,180 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { FUNNEL_STEPS } from "@/lib/analytics/funnelEvents";
+import { Loader2, RefreshCw } from "lucide-react";
+
+interface FunnelRow {
+  step_order: number;
+  step: string;
+  surface: string;
+  users: number;
+}
+
+interface RetentionRow {
+  surface: string;
+  week_offset: number;
+  cohort_users: number;
+  retained_users: number;
+}
+
+const WINDOW_DAYS = 30;
+const RETENTION_WEEKS = 8;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * AnalyticsFunnelPanel - Internal activation funnel + surface retention
+ *
+ * Reads aggregates from rpc_analytics_funnel and rpc_analytics_surface_retention
+ * (admin-only, security definer). Raw events never leave the database.
+ */
+export function AnalyticsFunnelPanel() {
+  const [funnel, setFunnel] = useState<FunnelRow[]>([]);
+  const [retention, setRetention] = useState<RetentionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, []);
+
+  const loadAnalytics = async () => {
+    setLoading(true);
+    try {
+      const [funnelRes, retentionRes] = await Promise.all([
+        supabase.rpc('rpc_analytics_funnel', { p_days: WINDOW_DAYS }),
+        supabase.rpc('rpc_analytics_surface_retention', { p_weeks: RETENTION_WEEKS }),
+      ]);
+
+      if (funnelRes.error) throw funnelRes.error;
+      if (retentionRes.error) throw retentionRes.error;
+
+      setFunnel(funnelRes.data || []);
+      setRetention(retentionRes.data || []);
+    } catch (error) {
+      console.error('Error loading analytics:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Totals per step (each user is attributed to exactly one surface per step)
+  const stepTotals = FUNNEL_STEPS.map((step, index) => {
+    const rows = funnel.filter(r => r.step === step.event);
+    const users = rows.reduce((sum, r) => sum + Number(r.users), 0);
+    return { ...step, order: index + 1, users, rows };
+  });
+  const topOfFunnel = stepTotals[0]?.users ?? 0;
+
+  // Retention grid: surface → week offset → rate
+  const surfaces = Array.from(new Set(retention.map(r => r.surface))).sort();
+  const weekOffsets = Array.from({ length: RETENTION_WEEKS + 1 }, (_, i) => i);
+  const retentionCell = (surface: string, weekOffset: number) => {
+    const row = retention.find(r => r.surface === surface && r.week_offset === weekOffset);
+    if (!row || Number(row.cohort_users) === 0) return null;
+    return Number(row.retained_users) / Number(row.cohort_users);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Activation Funnel</CardTitle>
+            <CardDescription>
+              Users who completed onboarding in the last {WINDOW_DAYS} days
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="icon" onClick={loadAnalytics}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {topOfFunnel === 0 ? (
+            <p className="text-muted-foreground">No onboarding completions in this window yet.</p>
+          ) : (
+            stepTotals.map((step, index) => {
+              const previous = index > 0 ? stepTotals[index - 1].users : step.users;
+              const fromTop = step.users / topOfFunnel;
+              return (
+                <div key={step.event} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">
+                      {step.order}. {step.label}
+                    </span>
+                    <span className="text-sm text-muted-foreground">
+                      {step.users} users · {formatPercent(fromTop)} of onboarded
+                      {index > 0 && previous > 0 && ` · ${formatPercent(step.users / previous)} step conversion`}
+                    </span>
+                  </div>
+                  <div className="h-2 rounded-full bg-muted overflow-hidden">
+                    <div className="h-full bg-primary" style={{ width: `${fromTop * 100}%` }} />
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {step.rows.map(row => (
+                      <Badge key={row.surface} variant="outline">
+                        {row.surface}: {Number(row.users)}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Retention by Surface</CardTitle>
+          <CardDescription>
+            Weekly return rate after a user's first visit to each surface (last {RETENTION_WEEKS} weeks)
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {surfaces.length === 0 ? (
+            <p className="text-muted-foreground">No events recorded in this window yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-muted-foreground">
+                    <th className="text-left font-medium py-2 pr-4">Surface</th>
+                    {weekOffsets.map(week => (
+                      <th key={week} className="text-right font-medium py-2 px-2">W{week}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {surfaces.map(surface => (
+                    <tr key={surface} className="border-t border-border">
+                      <td className="py-2 pr-4 font-medium">{surface}</td>
+                      {weekOffsets.map(week => {
+                        const rate = retentionCell(surface, week);
+                        return (
+                          <td key={week} className="text-right py-2 px-2 tabular-nums">
+                            {rate === null ? '—' : formatPercent(rate)}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -11,18 +11,22 @@
  */
 
 import ReactMarkdown from 'react-markdown';
-import { extractAndSanitize } from '@/lib/chatFormatting';
+import { extractAndSanitize, prepareStreamingContent } from '@/lib/chatFormatting';
 import { ContractorRecommendations } from './ContractorRecommendations';
 import { HomeEventConfirmation } from './HomeEventConfirmation';
 import { useFocusState } from '@/contexts/FocusStateContext';
 
 interface ChatMessageContentProps {
   content: string;
+  /** Content is still arriving: hold back unfinished structured blocks */
+  isStreaming?: boolean;
 }
 
-export function ChatMessageContent({ content }: ChatMessageContentProps) {
+export function ChatMessageContent({ content, isStreaming = false }: ChatMessageContentProps) {
   // 1. Extract structured data and sanitize
-  const { cleanText, structuredData } = extractAndSanitize(content);
+  const { cleanText, structuredData } = extractAndSanitize(
+    isStreaming ? prepareStreamingContent(content) : content
+  );
   const { focus } = useFocusState();
   
   // Desktop-awareness: skip inline contractor cards when focus state is active
@@ -3,12 +3,18 @@
  * 
  * Rivian-inspired minimalist CapEx visualization.
  * Pin heights scale logarithmically based on cost magnitude.
+ * "What if" opens the scenario simulator for the selected home.
  */
 
-import { Info } from "lucide-react";
+import { Info, SlidersHorizontal } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { useUserHome } from "@/contexts/UserHomeContext";
+import { HOME_ROLE_CAPABILITIES } from "@/lib/homeMembership";
 import type { HomeCapitalTimeline, SystemTimelineEntry } from "@/types/capitalTimeline";
+import { ScenarioSimulator } from "./ScenarioSimulator";
 
 interface CapExBudgetRoadmapProps {
   timeline: HomeCapitalTimeline;
@@ -46,6 +52,7 @@ function classifySystem(system: SystemTimelineEntry, currentYear: number, horizo
 }
 
 export function CapExBudgetRoadmap({ timeline, onSystemClick }: CapExBudgetRoadmapProps) {
+  const { userHome } = useUserHome();
   const currentYear = new Date().getFullYear();
   const horizonYears = timeline.horizonYears;
 
@@ -103,19 +110,44 @@ export function CapExBudgetRoadmap({ timeline, onSystemClick }: CapExBudgetRoadm
         <h2 className="text-base sm:text-lg font-bold text-stone-900 tracking-tightest">
           Budget Roadmap
         </h2>
-        <TooltipProvider>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Info className="w-4 h-4 text-stone-400 cursor-help hover:text-stone-600 transition-colors" />
-            </TooltipTrigger>
-            <TooltipContent className="max-w-xs">
-              <p className="text-sm">
-                A 10-year financial horizon showing when major capital expenditures may occur.
-                Pin height indicates relative cost magnitude. Shaded blocks show replacement windows.
-              </p>
-            </TooltipContent>
-          </Tooltip>
-        </TooltipProvider>
+        <div className="flex items-center gap-2">
+          {userHome && timeline.systems.length > 0 && (
+            <Sheet>
+              <SheetTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-stone-600">
+                  <SlidersHorizontal className="w-3.5 h-3.5 mr-1.5" />
+                  What if
+                </Button>
+              </SheetTrigger>
+              <SheetContent side="right" className="w-full sm:max-w-md overflow-y-auto">
+                <SheetHeader className="mb-6">
+                  <SheetTitle>Replacement scenarios</SheetTitle>
+                  <SheetDescription>
+                    Move planned replacement years to see how your capital outlook and emergency risk change.
+                  </SheetDescription>
+                </SheetHeader>
+                <ScenarioSimulator
+                  timeline={timeline}
+                  homeId={userHome.id}
+                  canSave={HOME_ROLE_CAPABILITIES[userHome.role].editHome}
+                />
+              </SheetContent>
+            </Sheet>
+          )}
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Info className="w-4 h-4 text-stone-400 cursor-help hover:text-stone-600 transition-colors" />
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs">
+                <p className="text-sm">
+                  A 10-year financial horizon showing when major capital expenditures may occur.
+                  Pin height indicates relative cost magnitude. Shaded blocks show replacement windows.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        </div>
       </div>
 
       {/* Timeline visualization */}
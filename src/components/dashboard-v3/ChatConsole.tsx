@@ -308,6 +308,8 @@ export function ChatConsole({
     setHasShownOpening(false);
   }, [focusContext?.systemKey, openingMessage]);
 
+  const streamingReply = messages.find((m) => m.isStreaming);
+
   // Scroll to bottom when messages change
   useEffect(() => {
     if (messagesEndRef.current) {
@@ -491,6 +493,7 @@ export function ChatConsole({
           visual_certainty: analysis.visual_certainty ?? 0.5,
           source_reliability: 0.7,
         },
+        serial_date: analysis.serial_date,
         image_url: photoUrl,
       });
 
@@ -572,7 +575,7 @@ export function ChatConsole({
                       )}
                     >
                       {message.role === "assistant" ? (
-                        <ChatMessageContent content={message.content} />
+                        <ChatMessageContent content={message.content} isStreaming={message.isStreaming} />
                       ) : (
                         <span className="whitespace-pre-wrap">{message.content}</span>
                       )}
@@ -608,8 +611,8 @@ export function ChatConsole({
               </div>
             ))}
             
-            {/* Loading indicator */}
-            {loading && (
+            {/* Loading indicator (until the streamed reply has text) */}
+            {loading && !streamingReply?.content && (
               <div className="flex justify-start">
                 <div className="bg-muted/40 rounded-lg px-4 py-2.5">
                   <div className="flex gap-1">
@@ -5,6 +5,7 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { useAIHomeAssistant } from "@/hooks/useAIHomeAssistant";
+import { ChatMessageContent } from "@/components/chat";
 import type { AdvisorState, RiskLevel, AdvisorOpeningMessage } from "@/types/advisorState";
 import type { TodaysFocus } from "@/lib/todaysFocusCopy";
 import type { ChatMode } from "@/types/chatMode";
@@ -136,6 +137,8 @@ export function ChatDock({
     setHasShownOpening(false);
   }, [focusContext?.systemKey]);
 
+  const streamingReply = messages.find((m) => m.isStreaming);
+
   // Scroll to bottom when messages change
   useEffect(() => {
     if (isExpanded && messagesEndRef.current) {
@@ -227,6 +230,7 @@ export function ChatDock({
           visual_certainty: analysis.visual_certainty ?? 0.5,
           source_reliability: 0.7,
         },
+        serial_date: analysis.serial_date,
         image_url: photoUrl,
       });
 
@@ -344,19 +348,23 @@ export function ChatDock({
             {/* V1: No avatar needed for Habitta (Habitta IS the space) */}
             <div
               className={cn(
-                "rounded-lg px-4 py-2.5 max-w-[80%] text-sm leading-relaxed whitespace-pre-wrap",
+                "rounded-lg px-4 py-2.5 max-w-[80%] text-sm leading-relaxed",
                 message.role === "user"
-                  ? "bg-primary text-primary-foreground"
+                  ? "bg-primary text-primary-foreground whitespace-pre-wrap"
                   : "bg-muted/50 text-foreground"
               )}
             >
-              {message.content}
+              {message.role === "assistant" ? (
+                <ChatMessageContent content={message.content} isStreaming={message.isStreaming} />
+              ) : (
+                message.content
+              )}
             </div>
           </div>
         ))}
         
-        {/* Loading indicator - V1: Simple, no avatar */}
-        {loading && (
+        {/* Loading indicator - V1: Simple, no avatar (until the streamed reply has text) */}
+        {loading && !streamingReply?.content && (
           <div className="flex justify-start">
             <div className="bg-muted/50 rounded-lg px-4 py-2.5">
               <div className="flex gap-1">
@@ -7,6 +7,7 @@
  * Features:
  * - Hover tooltips on task dots
  * - Flip animation to toggle calendar/list view
+ * - Per-task .ics download from the list view
  */
 
 import { useState } from "react";
@@ -18,7 +19,8 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { ChevronLeft, ChevronRight, Calendar, List, CheckCircle2 } from "lucide-react";
+import { ChevronLeft, ChevronRight, Calendar, CalendarPlus, List, CheckCircle2 } from "lucide-react";
+import { downloadTaskIcs } from "@/lib/calendarExport";
 import { 
   format, 
   startOfMonth, 
@@ -334,6 +336,17 @@ export function MaintenanceCalendarWidget({ tasks, loading }: MaintenanceCalenda
                             {isOverdue ? 'Overdue · ' : ''}{format(taskDate, 'MMM d')}
                           </p>
                         </div>
+                        {task.status !== 'completed' && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-5 w-5 shrink-0"
+                            onClick={() => downloadTaskIcs(task)}
+                            title="Add to calendar (.ics)"
+                          >
+                            <CalendarPlus className="h-3 w-3" />
+                          </Button>
+                        )}
                       </div>
                     );
                   })
@@ -238,7 +238,7 @@ export function MiddleColumn({
     // This is EVIDENCE ONLY, not authority source
     if (homeSystems && homeSystems.length > 0) {
       // Filter to only structural systems (not appliances)
-      // SUPPORTED_SYSTEMS = ['hvac', 'roof', 'water_heater']
+      // SUPPORTED_SYSTEMS = every capital system in systemMeta
       const structuralSystems = homeSystems.filter(sys => 
         SUPPORTED_SYSTEMS.some(supported => 
           sys.system_key === supported || 
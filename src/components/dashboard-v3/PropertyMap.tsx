@@ -24,6 +24,8 @@ interface PropertyMapProps {
   address?: string;
   city?: string;
   state?: string;
+  zipCode?: string;
+  fipsCode?: string | null;
   className?: string;
   environmentalSignals?: EnvironmentalSignals;
   /** Intelligence overlay data for map badges */
@@ -47,6 +49,8 @@ export function PropertyMap({
   address,
   city,
   state,
+  zipCode,
+  fipsCode,
   className,
   environmentalSignals,
   intelligenceOverlay,
@@ -56,7 +60,7 @@ export function PropertyMap({
   const [imageError, setImageError] = useState(false);
 
   const hasCoordinates = lat != null && lng != null;
-  const climate = deriveClimateZone(state, city, lat);
+  const climate = deriveClimateZone(state, city, lat, zipCode, fipsCode);
   const ClimateIcon = climate.icon;
 
   // Build Google Static Map URL via edge function - memoized for stability
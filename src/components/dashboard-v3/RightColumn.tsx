@@ -47,6 +47,8 @@ interface RightColumnProps {
   address?: string;
   city?: string;
   state?: string;
+  zipCode?: string;
+  fipsCode?: string | null;
   // Intelligence overlay data (Selective Intelligence Upgrade)
   intelligenceOverlay?: IntelligenceOverlay;
   // Handler for map click - opens context drawer
@@ -63,12 +65,14 @@ export function RightColumn({
   address,
   city,
   state,
+  zipCode,
+  fipsCode,
   intelligenceOverlay,
   onMapClick,
   maintenanceTasks = [],
   maintenanceLoading = false,
 }: RightColumnProps) {
-  const climate = deriveClimateZone(state, city, latitude);
+  const climate = deriveClimateZone(state, city, latitude, zipCode, fipsCode);
   
   if (loading) {
     return (
@@ -94,6 +98,8 @@ export function RightColumn({
         address={address}
         city={city}
         state={state}
+        zipCode={zipCode}
+        fipsCode={fipsCode}
         className="rounded-xl"
         intelligenceOverlay={intelligenceOverlay}
         onMapClick={onMapClick}
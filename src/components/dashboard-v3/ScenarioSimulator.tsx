@@ -0,0 +1,263 @@
+/**
+ * ScenarioSimulator - What-if replacement timing on the capital timeline
+ *
+ * The owner drags a planned replacement year per system; capital outlook,
+ * expected emergency exposure and yearly cash flow recompute against the
+ * inferred plan (every system replaced at its likely year).
+ * Named scenarios are saved against the home.
+ */
+
+import { useMemo, useState } from "react";
+import { RotateCcw, Save, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useReplacementScenarios } from "@/hooks/useReplacementScenarios";
+import {
+  normalizePlannedYears,
+  plannableYearRange,
+  simulateReplacementScenario,
+  type PlannedYears,
+} from "@/services/replacementScenario";
+import type { HomeCapitalTimeline } from "@/types/capitalTimeline";
+
+interface ScenarioSimulatorProps {
+  timeline: HomeCapitalTimeline;
+  homeId: string;
+  /** Viewers and service pros can explore but not save */
+  canSave?: boolean;
+}
+
+const INFERRED_PLAN = "__inferred__";
+
+function formatCost(value: number): string {
+  if (Math.abs(value) >= 1000) return `$${(value / 1000).toFixed(value >= 10000 ? 0 : 1)}k`;
+  return `$${Math.round(value)}`;
+}
+
+function formatDelta(value: number): string {
+  if (Math.round(value) === 0) return "no change";
+  return `${value > 0 ? "+" : "−"}${formatCost(Math.abs(value))}`;
+}
+
+export function ScenarioSimulator({ timeline, homeId, canSave = true }: ScenarioSimulatorProps) {
+  const currentYear = new Date().getFullYear();
+  const { toast } = useToast();
+  const { scenarios, saveScenario, deleteScenario, isSaving } = useReplacementScenarios(homeId);
+
+  const [plannedYears, setPlannedYears] = useState<PlannedYears>({});
+  const [selectedScenarioId, setSelectedScenarioId] = useState<string>(INFERRED_PLAN);
+  const [scenarioName, setScenarioName] = useState("");
+
+  const baseline = useMemo(
+    () => simulateReplacementScenario(timeline, {}, currentYear),
+    [timeline, currentYear]
+  );
+  const scenario = useMemo(
+    () => simulateReplacementScenario(timeline, plannedYears, currentYear),
+    [timeline, plannedYears, currentYear]
+  );
+
+  const hasChanges = Object.keys(normalizePlannedYears(timeline, plannedYears, currentYear)).length > 0;
+  const maxYearSpend = Math.max(
+    1,
+    ...scenario.cashFlow.map((y) => y.plannedHigh + y.expectedEmergency),
+    ...baseline.cashFlow.map((y) => y.plannedHigh + y.expectedEmergency)
+  );
+
+  const loadScenario = (scenarioId: string) => {
+    setSelectedScenarioId(scenarioId);
+    const saved = scenarios.find((s) => s.id === scenarioId);
+    setPlannedYears(saved?.plannedYears ?? {});
+    setScenarioName(saved?.name ?? "");
+  };
+
+  const handleSave = async () => {
+    try {
+      const id = await saveScenario({
+        name: scenarioName,
+        plannedYears: normalizePlannedYears(timeline, plannedYears, currentYear),
+      });
+      setSelectedScenarioId(id);
+      toast({ title: "Scenario saved", description: `"${scenarioName.trim()}" is saved for this home.` });
+    } catch (err) {
+      toast({
+        title: "Couldn't save scenario",
+        description: err instanceof Error ? err.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (selectedScenarioId === INFERRED_PLAN) return;
+    try {
+      await deleteScenario(selectedScenarioId);
+      loadScenario(INFERRED_PLAN);
+    } catch (err) {
+      toast({
+        title: "Couldn't delete scenario",
+        description: err instanceof Error ? err.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Saved scenarios */}
+      <div className="flex items-center gap-2">
+        <Select value={selectedScenarioId} onValueChange={loadScenario}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={INFERRED_PLAN}>Inferred plan</SelectItem>
+            {scenarios.map((s) => (
+              <SelectItem key={s.id} value={s.id}>
+                {s.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {canSave && selectedScenarioId !== INFERRED_PLAN && (
+          <Button variant="ghost" size="icon" onClick={handleDelete} aria-label="Delete scenario">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {/* Planned year per system */}
+      <div className="space-y-5">
+        {timeline.systems.map((system) => {
+          const { min, max } = plannableYearRange(system, currentYear, timeline.horizonYears);
+          const result = scenario.systems.find((s) => s.systemId === system.systemId)!;
+
+          return (
+            <div key={system.systemId} className="space-y-2">
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="text-sm font-medium text-stone-900">{system.systemLabel}</span>
+                <span className={cn("text-sm tabular-nums", result.isOverride ? "text-teal-700 font-semibold" : "text-stone-500")}>
+                  {result.plannedYear}
+                </span>
+              </div>
+              <Slider
+                min={min}
+                max={max}
+                step={1}
+                value={[result.plannedYear]}
+                onValueChange={([year]) => setPlannedYears((prev) => ({ ...prev, [system.systemId]: year }))}
+                aria-label={`${system.systemLabel} replacement year`}
+              />
+              <div className="flex justify-between text-[11px] text-stone-500">
+                <span>
+                  Likely {system.replacementWindow.likelyYear} · window {system.replacementWindow.earlyYear}–{system.replacementWindow.lateYear}
+                </span>
+                <span>{Math.round(result.failureBeforePlanned * 100)}% chance it fails first</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {hasChanges && (
+        <Button variant="ghost" size="sm" onClick={() => setPlannedYears({})}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset to inferred plan
+        </Button>
+      )}
+
+      {/* Capital outlook vs inferred plan */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-stone-900">Capital outlook</h3>
+        <div className="grid grid-cols-3 gap-2">
+          {scenario.capitalOutlook.horizons.map((horizon, i) => {
+            const base = baseline.capitalOutlook.horizons[i];
+            return (
+              <div key={horizon.yearsAhead} className="rounded-lg border border-stone-100 p-3">
+                <p className="text-[11px] text-stone-500">{horizon.yearsAhead} years</p>
+                <p className="text-sm font-semibold tabular-nums">
+                  {formatCost(horizon.lowEstimate)}–{formatCost(horizon.highEstimate)}
+                </p>
+                <p className="text-[11px] text-stone-500">{formatDelta(horizon.highEstimate - base.highEstimate)}</p>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Emergency exposure */}
+      <div className="rounded-lg border border-stone-100 p-3 space-y-1">
+        <div className="flex items-baseline justify-between">
+          <h3 className="text-sm font-semibold text-stone-900">Expected emergency exposure</h3>
+          <span className="text-sm font-semibold tabular-nums">{formatCost(scenario.emergencyExposure)}</span>
+        </div>
+        <p className="text-[11px] text-stone-500">
+          Chance of failing before the planned year × emergency replacement cost.{" "}
+          {formatDelta(scenario.emergencyExposure - baseline.emergencyExposure)} vs. the inferred plan.
+        </p>
+      </div>
+
+      {/* Cash flow by year */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-stone-900">Expected cash flow</h3>
+        <div className="flex items-end gap-1 h-28">
+          {scenario.cashFlow.map((year) => {
+            const total = year.plannedHigh + year.expectedEmergency;
+            return (
+              <div
+                key={year.year}
+                className="flex-1 flex flex-col justify-end h-full"
+                title={`${year.year}: planned ${formatCost(year.plannedLow)}–${formatCost(year.plannedHigh)}, emergency ${formatCost(year.expectedEmergency)}`}
+              >
+                <div
+                  className="bg-red-400/70 rounded-t-sm"
+                  style={{ height: `${(year.expectedEmergency / maxYearSpend) * 100}%` }}
+                />
+                <div
+                  className={cn("bg-teal-500/70", year.expectedEmergency === 0 && "rounded-t-sm")}
+                  style={{ height: `${(year.plannedHigh / maxYearSpend) * 100}%` }}
+                />
+                {total === 0 && <div className="h-px bg-stone-200" />}
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex gap-1">
+          {scenario.cashFlow.map((year) => (
+            <span key={year.year} className="flex-1 text-center text-[9px] text-stone-400">
+              '{year.year.toString().slice(-2)}
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-4 text-[11px] text-stone-500">
+          <span className="flex items-center gap-1.5">
+            <span className="w-2 h-2 rounded-sm bg-teal-500/70" /> Planned
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-2 h-2 rounded-sm bg-red-400/70" /> Expected emergency
+          </span>
+        </div>
+      </div>
+
+      {/* Save */}
+      {canSave && (
+        <div className="flex items-center gap-2 border-t border-stone-100 pt-4">
+          <Input
+            value={scenarioName}
+            onChange={(e) => setScenarioName(e.target.value)}
+            placeholder="Scenario name"
+            maxLength={80}
+          />
+          <Button onClick={handleSave} disabled={isSaving || !scenarioName.trim()}>
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
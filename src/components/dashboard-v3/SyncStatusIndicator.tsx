@@ -0,0 +1,40 @@
+import { CloudOff, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useServiceWorker } from "@/hooks/useServiceWorker";
+
+/**
+ * SyncStatusIndicator - Offline / pending-sync pill for the header
+ *
+ * Renders nothing when online with an empty queue. Offline, it explains that
+ * changes are being saved on the device; back online, it shows replay progress.
+ */
+export function SyncStatusIndicator() {
+  const { syncStatus, syncNow } = useServiceWorker();
+  const { isOnline, pendingCount, isSyncing } = syncStatus;
+
+  if (isOnline && pendingCount === 0 && !isSyncing) return null;
+
+  const changes = `${pendingCount} change${pendingCount === 1 ? "" : "s"}`;
+
+  if (!isOnline) {
+    return (
+      <div className="flex items-center gap-1.5 rounded-full bg-muted px-2.5 py-1 text-xs text-muted-foreground">
+        <CloudOff className="h-3.5 w-3.5" />
+        <span>{pendingCount > 0 ? `Offline · ${changes} saved on this device` : "Offline"}</span>
+      </div>
+    );
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-7 gap-1.5 rounded-full px-2.5 text-xs text-muted-foreground"
+      onClick={syncNow}
+      disabled={isSyncing}
+    >
+      {isSyncing ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RefreshCw className="h-3.5 w-3.5" />}
+      {isSyncing ? `Syncing ${changes}…` : `${changes} waiting to sync`}
+    </Button>
+  );
+}
@@ -1,4 +1,4 @@
-import { Bell, ChevronDown, Settings, LogOut, Menu } from "lucide-react";
+import { Bell, Check, ChevronDown, Settings, LogOut, Menu, Plus, LayoutGrid, Home } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -11,8 +11,10 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useAuth } from "@/contexts/AuthContext";
+import { useUserHome } from "@/contexts/UserHomeContext";
 import { useNavigate } from "react-router-dom";
 import type { AlertItem } from "@/hooks/useMaintenanceAlerts";
+import { SyncStatusIndicator } from "./SyncStatusIndicator";
 
 interface TopHeaderProps {
   address: string;
@@ -37,7 +39,9 @@ interface TopHeaderProps {
 /**
  * TopHeader - Property selector + health status + notifications + profile
  *
- * Displays the current property with a health badge.
+ * Displays the current property with a health badge. The property selector
+ * switches between the user's homes; every home-scoped view follows the
+ * selection through UserHomeContext.
  * Includes full auth controls since Dashboard V3 is a standalone layout.
  */
 export function TopHeader({
@@ -52,6 +56,7 @@ export function TopHeader({
   filterActive = false,
 }: TopHeaderProps) {
   const { user, signOut } = useAuth();
+  const { homes, selectedHomeId, selectHome } = useUserHome();
   const navigate = useNavigate();
 
   const handleSignOut = async () => {
@@ -133,25 +138,65 @@ export function TopHeader({
           Habitta
         </span>
 
-        <button
-          onClick={onAddressClick}
-          className="flex items-center gap-2 hover:bg-muted/50 rounded-lg px-2 py-1.5 transition-colors"
-        >
-          <div className={`rounded bg-primary flex items-center justify-center shrink-0 ${
-            condensed ? 'h-7 w-7' : 'h-8 w-8'
-          }`}>
-            <span className={`text-primary-foreground font-bold ${condensed ? 'text-xs' : 'text-sm'}`}>🏠</span>
-          </div>
-          <div className="text-left">
-            <div className="flex items-center gap-2">
-              <span className={`font-medium text-sm truncate ${condensed ? 'max-w-[120px]' : 'max-w-[200px]'}`}>
-                {address.split(',')[0]}
-              </span>
-              {!condensed && getStatusBadge()}
-              <ChevronDown className={`text-muted-foreground ${condensed ? 'h-3 w-3' : 'h-4 w-4'}`} />
-            </div>
-          </div>
-        </button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              className="flex items-center gap-2 hover:bg-muted/50 rounded-lg px-2 py-1.5 transition-colors"
+            >
+              <div className={`rounded bg-primary flex items-center justify-center shrink-0 ${
+                condensed ? 'h-7 w-7' : 'h-8 w-8'
+              }`}>
+                <span className={`text-primary-foreground font-bold ${condensed ? 'text-xs' : 'text-sm'}`}>🏠</span>
+              </div>
+              <div className="text-left">
+                <div className="flex items-center gap-2">
+                  <span className={`font-medium text-sm truncate ${condensed ? 'max-w-[120px]' : 'max-w-[200px]'}`}>
+                    {address.split(',')[0]}
+                  </span>
+                  {!condensed && getStatusBadge()}
+                  <ChevronDown className={`text-muted-foreground ${condensed ? 'h-3 w-3' : 'h-4 w-4'}`} />
+                </div>
+              </div>
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-72">
+            {homes.length > 1 && (
+              <>
+                <DropdownMenuLabel>Your homes</DropdownMenuLabel>
+                {homes.map(home => (
+                  <DropdownMenuItem key={home.id} onClick={() => selectHome(home.id)}>
+                    <Check
+                      className={`mr-2 h-4 w-4 ${home.id === selectedHomeId ? 'opacity-100' : 'opacity-0'}`}
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm truncate">{home.address}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {home.city}, {home.state}
+                      </p>
+                    </div>
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+              </>
+            )}
+            {onAddressClick && (
+              <DropdownMenuItem onClick={onAddressClick}>
+                <Home className="mr-2 h-4 w-4" />
+                Home profile
+              </DropdownMenuItem>
+            )}
+            {homes.length > 1 && (
+              <DropdownMenuItem onClick={() => navigate("/portfolio")}>
+                <LayoutGrid className="mr-2 h-4 w-4" />
+                All homes
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem onClick={() => navigate("/home/new")}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add a home
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
       {/* Center: Date (hidden on mobile/condensed) */}
@@ -161,8 +206,10 @@ export function TopHeader({
         </div>
       )}
 
-      {/* Right: Notifications + Profile */}
+      {/* Right: Sync status + Notifications + Profile */}
       <div className="flex items-center gap-2">
+        <SyncStatusIndicator />
+
         {/* Notifications */}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
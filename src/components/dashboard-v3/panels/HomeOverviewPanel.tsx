@@ -21,6 +21,9 @@ export interface HomeOverviewPanelProps {
   loading: boolean;
   city?: string;
   state?: string;
+  zipCode?: string;
+  fipsCode?: string | null;
+  latitude?: number | null;
   maintenanceTasks?: MaintenanceTask[];
   maintenanceLoading?: boolean;
 }
@@ -29,10 +32,13 @@ export function HomeOverviewPanel({
   loading,
   city,
   state,
+  zipCode,
+  fipsCode,
+  latitude,
   maintenanceTasks = [],
   maintenanceLoading = false,
 }: HomeOverviewPanelProps) {
-  const climate = deriveClimateZone(state, city);
+  const climate = deriveClimateZone(state, city, latitude, zipCode, fipsCode);
 
   if (loading) {
     return (
@@ -23,6 +23,7 @@ import { cn } from "@/lib/utils";
 import { deriveZone, getBarColor, getBadgeClasses } from "@/lib/dashboardUtils";
 import { useChatContext } from "@/contexts/ChatContext";
 import type { SystemTimelineEntry } from "@/types/capitalTimeline";
+import { RoofSegmentBreakdown } from "@/components/system/RoofSegmentBreakdown";
 
 interface SystemFocusDetailProps {
   system: SystemTimelineEntry;
@@ -46,7 +47,11 @@ export function SystemFocusDetail({ system, onBack, currentYear, onVerifyPhoto,
 
   const laborLow = system.capitalCost.typicalLow ?? system.capitalCost.low * 0.4;
   const laborHigh = system.capitalCost.typicalHigh ?? system.capitalCost.high * 0.4;
-  const delayYears = system.maintenanceEffect?.expectedDelayYears ?? 0;
+  // Measured shift when the home has a record, else what good upkeep typically buys
+  const hasMaintenanceRecord = !!system.maintenanceEffect?.adherence && system.maintenanceEffect.adherence.level !== 'none';
+  const delayYears = hasMaintenanceRecord
+    ? system.maintenanceEffect?.appliedShiftYears ?? 0
+    : system.maintenanceEffect?.expectedDelayYears ?? 0;
 
   const handleGetQuotes = () => {
     openChat({
@@ -182,13 +187,25 @@ export function SystemFocusDetail({ system, onBack, currentYear, onVerifyPhoto,
             <Clock className="w-3.5 h-3.5" />
             <span className="text-[9px] font-bold uppercase tracking-wider">Maintenance ROI</span>
           </div>
-          <p className="text-base font-bold text-emerald-600">+{delayYears} Years</p>
+          <p className={`text-base font-bold ${delayYears < 0 ? 'text-amber-600' : 'text-emerald-600'}`}>
+            {delayYears < 0 ? delayYears : `+${delayYears}`} Years
+          </p>
           <p className="text-[9px] text-stone-500 mt-1 line-clamp-2">
             {system.maintenanceEffect?.explanation || "Regular service extends unit reliability."}
           </p>
         </div>
       </div>
 
+      {/* 3b. Roof Measurements (measured roofs only) */}
+      {system.roofGeometry && (
+        <div className="bg-white p-6 rounded-xl border border-stone-100 shadow-sm">
+          <h3 className="text-[10px] font-bold text-stone-400 uppercase tracking-widest mb-4">
+            Roof Measurements
+          </h3>
+          <RoofSegmentBreakdown geometry={system.roofGeometry} />
+        </div>
+      )}
+
       {/* 4. Replacement Rationale Card */}
       <div className="bg-white p-6 rounded-xl border border-stone-100 shadow-sm">
         <h3 className="text-[10px] font-bold text-stone-400 uppercase tracking-widest mb-4">
@@ -35,14 +35,15 @@ function deriveTimelineEvents(system?: SystemTimelineEntry): TimelineEvent[] {
     });
   }
 
-  // Last event
+  // Last maintenance service
   if (system.lastEventAt) {
     const eventYear = new Date(system.lastEventAt).getFullYear();
+    const shift = system.eventShiftYears ?? 0;
     events.push({
       year: eventYear,
-      label: 'Last recorded event',
-      description: system.eventShiftYears
-        ? `Timeline shifted by ${system.eventShiftYears} years`
+      label: 'Last serviced',
+      description: shift
+        ? `Maintenance record moved the window ${Math.abs(shift)} year${Math.abs(shift) === 1 ? '' : 's'} ${shift > 0 ? 'later' : 'earlier'}`
         : undefined,
       isFuture: false,
     });
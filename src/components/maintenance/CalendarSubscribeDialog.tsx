@@ -0,0 +1,134 @@
+/**
+ * CalendarSubscribeDialog — the home's maintenance plan in Google / Apple calendars
+ *
+ * The feed URL is personal (it works without signing in), so it is only
+ * fetched when the dialog opens, and can be reset or turned off here.
+ */
+
+import { useEffect, useState } from "react";
+import {
+  googleCalendarSubscribeUrl,
+  loadCalendarFeed,
+  revokeCalendarFeed,
+  rotateCalendarFeed,
+  type CalendarFeed,
+} from "@/lib/calendarExport";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, ExternalLink, RefreshCw } from "lucide-react";
+
+interface CalendarSubscribeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  homeId: string;
+}
+
+export function CalendarSubscribeDialog({ open, onOpenChange, homeId }: CalendarSubscribeDialogProps) {
+  const { toast } = useToast();
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open || !homeId) return;
+    setBusy(true);
+    loadCalendarFeed(homeId)
+      .then(setFeed)
+      .catch((err) => toast({ title: "Couldn't load calendar link", description: err.message, variant: "destructive" }))
+      .finally(() => setBusy(false));
+  }, [open, homeId, toast]);
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    await navigator.clipboard?.writeText(feed.url).catch(() => undefined);
+    toast({ title: "Calendar link copied" });
+  };
+
+  const handleRotate = async () => {
+    setBusy(true);
+    try {
+      setFeed(await rotateCalendarFeed(homeId));
+      toast({ title: "New calendar link created", description: "The old link no longer works. Re-subscribe with the new one." });
+    } catch (err) {
+      toast({ title: "Couldn't reset calendar link", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setBusy(true);
+    try {
+      await revokeCalendarFeed(homeId);
+      setFeed(null);
+      onOpenChange(false);
+      toast({ title: "Calendar link turned off" });
+    } catch (err) {
+      toast({ title: "Couldn't turn off calendar link", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Subscribe in your calendar</DialogTitle>
+          <DialogDescription>
+            Maintenance tasks, planned replacement reviews and warranty deadlines for this home,
+            kept up to date in Google, Apple or Outlook calendars.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid w-full items-center gap-1.5">
+            <Label htmlFor="calendar-feed-url">Calendar link</Label>
+            <div className="flex gap-2">
+              <Input id="calendar-feed-url" value={feed?.url ?? ""} placeholder={busy ? "Loading..." : ""} readOnly />
+              <Button variant="outline" size="icon" onClick={handleCopy} disabled={!feed} title="Copy link">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Anyone with this link can see the plan. Reset it if you shared it by mistake.
+            </p>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button asChild variant="outline" disabled={!feed} className="flex-1">
+              <a href={feed ? googleCalendarSubscribeUrl(feed) : undefined} target="_blank" rel="noreferrer">
+                <ExternalLink className="w-4 h-4 mr-2" />
+                Google Calendar
+              </a>
+            </Button>
+            <Button asChild variant="outline" disabled={!feed} className="flex-1">
+              <a href={feed?.webcalUrl}>
+                <ExternalLink className="w-4 h-4 mr-2" />
+                Apple / Outlook
+              </a>
+            </Button>
+          </div>
+
+          <div className="flex justify-between gap-2 border-t pt-4">
+            <Button variant="ghost" size="sm" onClick={handleRotate} disabled={busy || !feed}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Reset link
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleRevoke} disabled={busy || !feed}>
+              Turn off
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,8 @@ import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { ChevronLeft, ChevronRight, Calendar, CheckCircle, PlayCircle } from "lucide-react";
+import { ChevronLeft, ChevronRight, Calendar, CalendarPlus, CheckCircle, PlayCircle } from "lucide-react";
+import { downloadTaskIcs } from "@/lib/calendarExport";
 import { 
   format, 
   startOfMonth, 
@@ -257,6 +258,17 @@ export function MaintenanceCalendarView({ tasks, loading, onTaskUpdate }: Mainte
                               <CheckCircle className="h-3 w-3" />
                             </Button>
                           )}
+                          {task.status !== "completed" && task.status !== "skipped" && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => downloadTaskIcs(task)}
+                              className="h-7 px-2"
+                              title="Add to calendar (.ics)"
+                            >
+                              <CalendarPlus className="h-3 w-3" />
+                            </Button>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -1,7 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Calendar, Clock, DollarSign, CheckCircle, PlayCircle, Pause } from "lucide-react";
+import { Calendar, Clock, DollarSign, CheckCircle, PlayCircle, Pause, SkipForward, AlarmClock } from "lucide-react";
 import { format, isAfter, isBefore, startOfDay } from "date-fns";
 import { useRiskDeltaMap } from "@/hooks/useRiskDeltas";
 import { RiskDeltaDisplay } from "@/components/RiskDeltaDisplay";
@@ -22,30 +22,41 @@ interface MaintenanceTask {
   created_at: string;
   updated_at: string;
   completed_date?: string;
+  performed_by?: string | null;
 }
 
 interface MaintenanceTimelineViewProps {
   tasks: MaintenanceTask[];
   loading: boolean;
   onTaskUpdate: (taskId: string, updates: Partial<MaintenanceTask>) => void;
+  /** Push the due date back without closing the task */
+  onTaskSnooze?: (taskId: string) => void;
   homeId?: string;
 }
 
-export function MaintenanceTimelineView({ tasks, loading, onTaskUpdate, homeId }: MaintenanceTimelineViewProps) {
+const CLOSED_STATUSES = ["completed", "skipped"];
+
+// Professional service counts for more in the system's maintenance record
+const PERFORMERS = [
+  { value: "diy", label: "Me" },
+  { value: "professional", label: "A pro" },
+];
+
+export function MaintenanceTimelineView({ tasks, loading, onTaskUpdate, onTaskSnooze, homeId }: MaintenanceTimelineViewProps) {
   const today = startOfDay(new Date());
   const { deltaMap, isLoading: deltasLoading } = useRiskDeltaMap(homeId);
   const getTasksByTimeframe = () => {
     const overdue = tasks.filter(task => 
-      task.status !== "completed" && 
+      !CLOSED_STATUSES.includes(task.status) && 
       isBefore(new Date(task.due_date), today)
     );
     
     const upcoming = tasks.filter(task => 
-      task.status !== "completed" && 
+      !CLOSED_STATUSES.includes(task.status) && 
       isAfter(new Date(task.due_date), today)
     );
     
-    const completed = tasks.filter(task => task.status === "completed");
+    const completed = tasks.filter(task => CLOSED_STATUSES.includes(task.status));
 
     return { overdue, upcoming, completed };
   };
@@ -77,7 +88,7 @@ export function MaintenanceTimelineView({ tasks, loading, onTaskUpdate, homeId }
   };
 
   const TaskCard = ({ task }: { task: MaintenanceTask }) => {
-    const isOverdue = task.status !== "completed" && isBefore(new Date(task.due_date), today);
+    const isOverdue = !CLOSED_STATUSES.includes(task.status) && isBefore(new Date(task.due_date), today);
     
     // Risk delta integration for completed tasks
     const impact = deltaMap.get(task.id);
@@ -127,14 +138,34 @@ export function MaintenanceTimelineView({ tasks, loading, onTaskUpdate, homeId }
             
             <div className="flex items-center gap-2 ml-4">
               {task.status === "pending" && (
-                <Button
-                  size="sm"
-                  onClick={() => handleStatusChange(task.id, "in_progress")}
-                  variant="outline"
-                >
-                  <PlayCircle className="h-4 w-4 mr-1" />
-                  Start
-                </Button>
+                <>
+                  <Button
+                    size="sm"
+                    onClick={() => handleStatusChange(task.id, "in_progress")}
+                    variant="outline"
+                  >
+                    <PlayCircle className="h-4 w-4 mr-1" />
+                    Start
+                  </Button>
+                  {onTaskSnooze && (
+                    <Button
+                      size="sm"
+                      onClick={() => onTaskSnooze(task.id)}
+                      variant="ghost"
+                    >
+                      <AlarmClock className="h-4 w-4 mr-1" />
+                      Snooze
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    onClick={() => handleStatusChange(task.id, "skipped")}
+                    variant="ghost"
+                  >
+                    <SkipForward className="h-4 w-4 mr-1" />
+                    Skip
+                  </Button>
+                </>
               )}
               {task.status === "in_progress" && (
                 <>
@@ -156,7 +187,7 @@ export function MaintenanceTimelineView({ tasks, loading, onTaskUpdate, homeId }
                   </Button>
                 </>
               )}
-              {task.status === "completed" && (
+              {CLOSED_STATUSES.includes(task.status) && (
                 <Button
                   size="sm"
                   onClick={() => handleStatusChange(task.id, "pending")}
@@ -171,6 +202,20 @@ export function MaintenanceTimelineView({ tasks, loading, onTaskUpdate, homeId }
           {/* Risk Delta Display for completed tasks */}
           {task.status === "completed" && (
             <div className="mt-4 pt-4 border-t">
+              <div className="flex items-center gap-2 mb-3 text-sm text-muted-foreground">
+                <span>Done by</span>
+                {PERFORMERS.map(({ value, label }) => (
+                  <Button
+                    key={value}
+                    size="sm"
+                    variant={task.performed_by === value ? "secondary" : "ghost"}
+                    className="h-7 px-2"
+                    onClick={() => onTaskUpdate(task.id, { performed_by: value })}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
               {isCalculating && (
                 <ImpactCalculatingState startedAt={task.completed_date} />
               )}
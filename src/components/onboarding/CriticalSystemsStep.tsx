@@ -29,6 +29,7 @@ interface CriticalSystemsStepProps {
   yearBuilt?: number;
   city?: string;  // NEW: for climate-based system order
   state?: string; // NEW: for climate-based system order
+  zipCode?: string; // Sharpens climate lookup beyond state level
   onComplete: (systems: {
     roof?: SystemAnswer;
     water_heater?: SystemAnswer;
@@ -51,6 +52,7 @@ export function CriticalSystemsStep({
   yearBuilt,
   city,
   state,
+  zipCode,
   onComplete,
   onSkip,
   isSubmitting = false,
@@ -67,9 +69,9 @@ export function CriticalSystemsStep({
 
   // Derive climate zone and get climate-based system order (Risk 4 Fix)
   const systems = useMemo((): SystemConfig[] => {
-    const climateZone = deriveClimateZone(state, city);
+    const climateZone = deriveClimateZone(state, city, null, zipCode);
     return getSystemPriorityByClimate(climateZone.zone);
-  }, [city, state]);
+  }, [city, state, zipCode]);
 
   const handleChoice = (system: SystemKey, choice: ReplacementChoice) => {
     if (choice === 'replaced') {
@@ -0,0 +1,47 @@
+import type { ReportWarranty } from '@/hooks/useHomeReport';
+import { format, parseISO } from 'date-fns';
+
+interface WarrantiesSectionProps {
+  warranties: ReportWarranty[];
+}
+
+export function WarrantiesSection({ warranties }: WarrantiesSectionProps) {
+  const fmt = (iso: string | null) => (iso ? format(parseISO(iso), 'MMM yyyy') : 'Unknown');
+
+  return (
+    <section className="space-y-3">
+      <h2 className="heading-h3 text-foreground">Warranties</h2>
+
+      {warranties.length === 0 ? (
+        <div className="bg-card rounded-lg border border-border p-4">
+          <p className="text-sm text-muted-foreground">
+            No warranties on record.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-card rounded-lg border border-border p-4 space-y-3">
+          {warranties.map((w) => (
+            <div
+              key={w.assetId}
+              className="border-b border-border last:border-0 pb-3 last:pb-0"
+            >
+              <p className="text-sm font-medium text-foreground system-name">
+                {w.assetKind}
+                {w.manufacturer && (
+                  <span className="text-muted-foreground font-normal"> · {w.manufacturer}</span>
+                )}
+              </p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground mt-1">
+                <span>Parts: {w.partsYears} yr · {fmt(w.partsExpiresOn)}</span>
+                <span>Labor: {w.laborYears} yr · {fmt(w.laborExpiresOn)}</span>
+                <span>{w.transferable ? 'Transferable' : 'Not transferable'}</span>
+                {w.registered && <span>Registered</span>}
+                <span>{w.confirmed ? 'Confirmed by owner' : 'Estimated'}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -22,6 +22,7 @@ import {
   APPLIANCE_ICONS
 } from "@/lib/applianceTiers";
 import { Json } from "@/integrations/supabase/types";
+import { WarrantyCard } from "@/components/system/WarrantyCard";
 
 interface SystemCatalogData {
   key: string;
@@ -311,6 +312,15 @@ export function ApplianceDetailView({
         </CardContent>
       </Card>
 
+      {/* Warranty */}
+      <WarrantyCard
+        homeId={appliance.home_id}
+        kind={appliance.system_key}
+        label={identity.title}
+        manufacturer={appliance.brand}
+        installDate={appliance.install_date}
+      />
+
       {/* Confidence & Help CTA (only if not high confidence) */}
       {identity.showHelpCTA && (
         <Card className="mb-6 border-dashed">
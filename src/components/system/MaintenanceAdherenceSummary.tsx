@@ -0,0 +1,102 @@
+import { cn } from "@/lib/utils";
+import type { MaintenanceAdherence, MaintenanceEffect } from "@/types/capitalTimeline";
+
+interface MaintenanceAdherenceSummaryProps {
+  effect: MaintenanceEffect;
+  adherence: MaintenanceAdherence;
+  className?: string;
+}
+
+const LEVEL_LABELS: Record<MaintenanceAdherence['level'], string> = {
+  strong: 'Well kept',
+  fair: 'Partly kept',
+  lapsed: 'Lapsed',
+  none: 'No record yet',
+};
+
+const COMPONENT_LABELS: Array<[keyof MaintenanceAdherence['components'], string]> = [
+  ['regularity', 'On schedule'],
+  ['recency', 'Recent service'],
+  ['professional', 'Done by a pro'],
+];
+
+function formatServicedOn(date: string | null): string {
+  if (!date) return '—';
+  const parsed = new Date(`${date}T00:00:00Z`);
+  if (Number.isNaN(parsed.getTime())) return '—';
+  return parsed.toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+function formatShift(years: number | undefined): string {
+  if (!years) return 'No change';
+  const abs = Math.abs(years);
+  return `${abs} yr${abs === 1 ? '' : 's'} ${years > 0 ? 'later' : 'earlier'}`;
+}
+
+/**
+ * MaintenanceAdherenceSummary - The home's measured maintenance record
+ *
+ * Index and level, the three parts of the index, services against what
+ * the interval calls for, and how far the record moved the replacement
+ * window. Renders inside the caller's card.
+ */
+export function MaintenanceAdherenceSummary({ effect, adherence, className }: MaintenanceAdherenceSummaryProps) {
+  const hasRecord = adherence.level !== 'none';
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div>
+          <p className="text-base font-semibold text-foreground">
+            {hasRecord ? Math.round(adherence.index * 100) : '—'}
+          </p>
+          <p className="text-[10px] text-muted-foreground uppercase tracking-wide">{LEVEL_LABELS[adherence.level]}</p>
+        </div>
+        <div>
+          <p className="text-base font-semibold text-foreground">
+            {adherence.serviceCount}/{adherence.expectedServices}
+          </p>
+          <p className="text-[10px] text-muted-foreground uppercase tracking-wide">Services</p>
+        </div>
+        <div>
+          <p className="text-base font-semibold text-foreground">{formatServicedOn(adherence.lastServicedOn)}</p>
+          <p className="text-[10px] text-muted-foreground uppercase tracking-wide">Last serviced</p>
+        </div>
+      </div>
+
+      {hasRecord && (
+        <div className="space-y-1.5">
+          {COMPONENT_LABELS.map(([key, label]) => (
+            <div key={key} className="flex items-center gap-3 text-xs">
+              <span className="w-24 text-muted-foreground">{label}</span>
+              <div className="flex-1 h-1.5 rounded-full bg-muted overflow-hidden">
+                <div
+                  className="h-full rounded-full bg-primary/60"
+                  style={{ width: `${Math.max(4, adherence.components[key] * 100)}%` }}
+                />
+              </div>
+              <span className="w-10 text-right tabular-nums text-foreground">
+                {Math.round(adherence.components[key] * 100)}%
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {effect.shiftsTimeline && hasRecord && (
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">Replacement window</span>
+          <span className={cn(
+            "font-medium",
+            (effect.appliedShiftYears ?? 0) > 0 && "text-green-700",
+            (effect.appliedShiftYears ?? 0) < 0 && "text-amber-700",
+          )}>
+            {formatShift(effect.appliedShiftYears)}
+          </span>
+        </div>
+      )}
+
+      <p className="text-[11px] text-muted-foreground">{effect.explanation}</p>
+    </div>
+  );
+}
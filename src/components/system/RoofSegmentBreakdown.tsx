@@ -0,0 +1,79 @@
+import { cn } from "@/lib/utils";
+import type { RoofGeometry } from "@/types/capitalTimeline";
+
+interface RoofSegmentBreakdownProps {
+  geometry: RoofGeometry;
+  className?: string;
+}
+
+const PITCH_LABELS: Record<RoofGeometry['pitchClass'], string> = {
+  low_slope: 'Low slope',
+  conventional: 'Standard pitch',
+  steep: 'Steep pitch',
+};
+
+const COMPLEXITY_LABELS: Record<RoofGeometry['complexity'], string> = {
+  simple: 'Simple roofline',
+  moderate: 'Moderate roofline',
+  complex: 'Complex roofline',
+};
+
+function formatMeasuredAt(measuredAt: string | null): string | null {
+  if (!measuredAt) return null;
+  const date = new Date(measuredAt);
+  if (Number.isNaN(date.getTime())) return null;
+  return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * RoofSegmentBreakdown - Measured roof planes behind the roof estimate
+ *
+ * Summary (squares, pitch, planes), one row per plane largest first,
+ * and the measurement source. Renders inside the caller's card.
+ */
+export function RoofSegmentBreakdown({ geometry, className }: RoofSegmentBreakdownProps) {
+  const largest = geometry.segments[0]?.areaSqft || 1;
+  const measuredAt = formatMeasuredAt(geometry.measuredAt);
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div>
+          <p className="text-base font-semibold text-foreground">{geometry.squares}</p>
+          <p className="text-[10px] text-muted-foreground uppercase tracking-wide">Squares</p>
+        </div>
+        <div>
+          <p className="text-base font-semibold text-foreground">{geometry.pitchRise}/12</p>
+          <p className="text-[10px] text-muted-foreground uppercase tracking-wide">{PITCH_LABELS[geometry.pitchClass]}</p>
+        </div>
+        <div>
+          <p className="text-base font-semibold text-foreground">{geometry.segmentCount}</p>
+          <p className="text-[10px] text-muted-foreground uppercase tracking-wide">{COMPLEXITY_LABELS[geometry.complexity]}</p>
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        {geometry.segments.map((segment, idx) => (
+          <div key={idx} className="flex items-center gap-3 text-xs">
+            <span className="w-8 text-muted-foreground">{segment.facing}</span>
+            <div className="flex-1 h-1.5 rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full rounded-full bg-primary/60"
+                style={{ width: `${Math.max(4, (segment.areaSqft / largest) * 100)}%` }}
+              />
+            </div>
+            <span className="w-12 text-right tabular-nums text-muted-foreground">{segment.pitchRise}/12</span>
+            <span className="w-20 text-right tabular-nums text-foreground">
+              {segment.areaSqft.toLocaleString()} sq ft
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-[11px] text-muted-foreground">
+        Measured from Google Solar aerial imagery{measuredAt ? ` (${measuredAt})` : ''}.
+        Total {geometry.areaSqft.toLocaleString()} sq ft of roof surface.
+      </p>
+    </div>
+  );
+}
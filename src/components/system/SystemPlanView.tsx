@@ -4,6 +4,8 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { DockedChatInput } from "@/components/mobile/DockedChatInput";
 import { HabittaIntelCard } from "@/components/system/HabittaIntelCard";
+import { RoofSegmentBreakdown } from "@/components/system/RoofSegmentBreakdown";
+import { MaintenanceAdherenceSummary } from "@/components/system/MaintenanceAdherenceSummary";
 import { getSystemNarrative } from "@/lib/systemNarratives";
 import type { SystemTimelineEntry, CapitalSystemType } from "@/types/capitalTimeline";
 import { 
@@ -45,6 +47,11 @@ const EMERGENCY_MULTIPLIERS: Record<CapitalSystemType, number> = {
   hvac: 1.50,
   roof: 1.40,
   water_heater: 1.25,
+  electrical_panel: 1.30,
+  plumbing: 1.50,
+  pool: 1.25,
+  solar: 1.20,
+  mini_split: 1.20,
 };
 
 // ============== Helper Functions ==============
@@ -353,6 +360,37 @@ export function SystemPlanView({
           </CardContent>
         </Card>
         
+        {/* Section B2: Roof Measurements (measured roofs only) */}
+        {system.roofGeometry && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
+                Roof Measurements
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <RoofSegmentBreakdown geometry={system.roofGeometry} />
+            </CardContent>
+          </Card>
+        )}
+        
+        {/* Section B3: Maintenance Record (when one was measured) */}
+        {system.maintenanceEffect.adherence && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
+                Maintenance Record
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <MaintenanceAdherenceSummary
+                effect={system.maintenanceEffect}
+                adherence={system.maintenanceEffect.adherence}
+              />
+            </CardContent>
+          </Card>
+        )}
+        
         {/* Section C: Timing Outlook */}
         <Card>
           <CardHeader className="pb-2">
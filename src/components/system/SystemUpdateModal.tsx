@@ -17,6 +17,7 @@ import { ChevronDown, Check, HelpCircle, X } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { getSystemDisplayName } from '@/lib/systemCopy';
+import { trackWithContext, FUNNEL_EVENTS } from '@/lib/analytics';
 
 type ReplacementStatus = 'original' | 'replaced' | 'unknown';
 type Installer = 'diy' | 'licensed_pro' | 'builder';
@@ -147,6 +148,16 @@ export function SystemUpdateModal({
 
       if (error) throw error;
 
+      if (replacementStatus !== 'unknown') {
+        trackWithContext(
+          FUNNEL_EVENTS.SYSTEM_CONFIRMED,
+          undefined,
+          homeId,
+          { system_key: systemKey, replacement_status: replacementStatus },
+          { surface: 'system_detail', system_slug: systemKey }
+        );
+      }
+
       toast({
         title: 'Updated',
         description: data.message,
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { ShieldCheck, AlertTriangle, Loader2, Pencil } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useAssetWarranty, type WarrantyConfirmation } from "@/hooks/useAssetWarranty";
+import { getWarrantyAlerts, type AssetWarranty } from "@/lib/assetWarranty";
+
+interface WarrantyCardProps {
+  homeId?: string;
+  /** home_assets id, when known */
+  assetId?: string;
+  /** Asset kind / system key (e.g. 'hvac', 'dishwasher') */
+  kind: string;
+  /** Display name used in alert copy */
+  label: string;
+  manufacturer?: string | null;
+  installDate?: string | null;
+  plannedReplacementDate?: string | null;
+  className?: string;
+}
+
+function formatDate(iso: string | null): string {
+  if (!iso) return 'Unknown';
+  return new Date(`${iso.substring(0, 10)}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+function toConfirmation(warranty: AssetWarranty): WarrantyConfirmation {
+  return {
+    partsYears: warranty.partsYears,
+    laborYears: warranty.laborYears,
+    transferable: warranty.transferable,
+    registered: warranty.registered,
+    coverageStart: warranty.coverageStart,
+  };
+}
+
+/**
+ * WarrantyCard - Parts/labor coverage for one asset
+ *
+ * Starts from typical brand terms and stays labelled as an estimate until
+ * the owner confirms what their paperwork says.
+ */
+export function WarrantyCard({
+  homeId,
+  assetId,
+  kind,
+  label,
+  manufacturer,
+  installDate,
+  plannedReplacementDate,
+  className = "mb-6",
+}: WarrantyCardProps) {
+  const { warranty, loading, confirmWarranty, isConfirming } = useAssetWarranty({
+    homeId,
+    assetId,
+    kind,
+    manufacturer,
+    installDate,
+  });
+  const [draft, setDraft] = useState<WarrantyConfirmation | null>(null);
+
+  if (!homeId || loading || !warranty) return null;
+
+  const today = new Date().toISOString().substring(0, 10);
+  const alerts = getWarrantyAlerts(warranty, label.toLowerCase(), { today, plannedReplacementDate });
+  const hasEnded = (date: string | null) => !!date && date < today;
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      await confirmWarranty(draft);
+      setDraft(null);
+      toast.success('Warranty saved');
+    } catch (error) {
+      console.error('Failed to save warranty:', error);
+      toast.error('Could not save warranty');
+    }
+  };
+
+  const setRegistered = (registered: boolean) => {
+    if (!draft) return;
+    // Registering usually extends parts coverage — suggest the registered term
+    const partsYears = registered && warranty.registeredPartsYears
+      ? Math.max(draft.partsYears, warranty.registeredPartsYears)
+      : draft.partsYears;
+    setDraft({ ...draft, registered, partsYears });
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+            Warranty
+          </CardTitle>
+          <Badge variant="outline">
+            {warranty.confirmed ? 'Confirmed' : 'Estimated from typical terms'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {draft ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="warranty-parts">Parts (years)</Label>
+                <Input
+                  id="warranty-parts"
+                  type="number"
+                  min={0}
+                  max={50}
+                  value={draft.partsYears}
+                  onChange={(e) => setDraft({ ...draft, partsYears: Number(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="warranty-labor">Labor (years)</Label>
+                <Input
+                  id="warranty-labor"
+                  type="number"
+                  min={0}
+                  max={50}
+                  value={draft.laborYears}
+                  onChange={(e) => setDraft({ ...draft, laborYears: Number(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="warranty-start">Coverage started</Label>
+              <Input
+                id="warranty-start"
+                type="date"
+                value={draft.coverageStart ?? ''}
+                onChange={(e) => setDraft({ ...draft, coverageStart: e.target.value || null })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="warranty-transferable">Transfers to a new owner</Label>
+              <Switch
+                id="warranty-transferable"
+                checked={draft.transferable}
+                onCheckedChange={(transferable) => setDraft({ ...draft, transferable })}
+              />
+            </div>
+            {warranty.registeredPartsYears && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="warranty-registered">Registered with manufacturer</Label>
+                <Switch
+                  id="warranty-registered"
+                  checked={draft.registered}
+                  onCheckedChange={setRegistered}
+                />
+              </div>
+            )}
+            <div className="flex gap-2 pt-1">
+              <Button size="sm" onClick={handleSave} disabled={isConfirming}>
+                {isConfirming && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setDraft(null)} disabled={isConfirming}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Parts</span>
+              <span className="text-sm font-medium">
+                {warranty.partsYears} yr{warranty.partsExpiresOn && ` · ${hasEnded(warranty.partsExpiresOn) ? 'ended' : 'through'} ${formatDate(warranty.partsExpiresOn)}`}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Labor</span>
+              <span className="text-sm font-medium">
+                {warranty.laborYears} yr{warranty.laborExpiresOn && ` · ${hasEnded(warranty.laborExpiresOn) ? 'ended' : 'through'} ${formatDate(warranty.laborExpiresOn)}`}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Transferable</span>
+              <span className="text-sm font-medium">{warranty.transferable ? 'Yes' : 'No'}</span>
+            </div>
+            {warranty.registeredPartsYears && (
+              <div className="flex justify-between">
+                <span className="text-sm text-muted-foreground">Registration</span>
+                <span className="text-sm font-medium">
+                  {warranty.registered
+                    ? 'Registered'
+                    : warranty.registrationDeadline
+                      ? `Register by ${formatDate(warranty.registrationDeadline)} for ${warranty.registeredPartsYears} yr parts`
+                      : `Registering extends parts to ${warranty.registeredPartsYears} yr`}
+                </span>
+              </div>
+            )}
+            {!warranty.coverageStart && (
+              <p className="text-sm text-muted-foreground">
+                Add an install date to see when coverage ends.
+              </p>
+            )}
+
+            {alerts.map((alert) => (
+              <div key={alert.kind} className="flex gap-2 text-sm rounded-md bg-amber-50 p-2 text-amber-800">
+                <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                <span>{alert.message}</span>
+              </div>
+            ))}
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={() => setDraft(toConfirmation(warranty))}
+            >
+              <Pencil className="h-4 w-4 mr-2" />
+              {warranty.confirmed ? 'Edit warranty' : 'Confirm warranty terms'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './AuthContext';
+import type { HomeMemberRole } from '@/lib/homeMembership';
 
 export interface UserHome {
   id: string;
@@ -19,11 +20,20 @@ export interface UserHome {
   confidence?: number;
   latitude?: number;
   longitude?: number;
+  /** County FIPS from parcel data; the most precise climate key */
+  fips_code?: string | null;
   created_at?: string;
+  /** The signed-in user's role in this home (owner unless shared with them) */
+  role: HomeMemberRole;
 }
 
 interface UserHomeContextType {
+  /** The currently selected home (falls back to the oldest home) */
   userHome: UserHome | null;
+  /** Every home the user owns or has been invited to, oldest first */
+  homes: UserHome[];
+  selectedHomeId: string | null;
+  selectHome: (homeId: string) => void;
   loading: boolean;
   error: string | null;
   refreshHome: () => Promise<void>;
@@ -39,6 +49,9 @@ export const useUserHome = () => {
     // Safe fallback to avoid crashes if provider is not mounted (e.g., demo routes)
     return {
       userHome: null,
+      homes: [],
+      selectedHomeId: null,
+      selectHome: (_homeId: string) => {},
       loading: false,
       error: null,
       refreshHome: async () => {},
@@ -49,15 +62,36 @@ export const useUserHome = () => {
   return context;
 };
 
+/** Persisted per user so the switcher survives reloads */
+const selectedHomeStorageKey = (userId: string) => `habitta:selectedHomeId:${userId}`;
+
+function readStoredHomeId(userId: string): string | null {
+  try {
+    return localStorage.getItem(selectedHomeStorageKey(userId));
+  } catch {
+    return null;
+  }
+}
+
+function writeStoredHomeId(userId: string, homeId: string) {
+  try {
+    localStorage.setItem(selectedHomeStorageKey(userId), homeId);
+  } catch {
+    // Storage unavailable (private mode) — selection stays in memory only
+  }
+}
+
 export const UserHomeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [userHome, setUserHome] = useState<UserHome | null>(null);
+  const [homes, setHomes] = useState<UserHome[]>([]);
+  const [selectedHomeId, setSelectedHomeId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
 
-  const fetchUserHome = async () => {
+  const fetchUserHomes = async () => {
     if (!user) {
-      setUserHome(null);
+      setHomes([]);
+      setSelectedHomeId(null);
       setLoading(false);
       return;
     }
@@ -68,20 +102,27 @@ export const UserHomeProvider: React.FC<{ children: React.ReactNode }> = ({ chil
 
       const { data, error: homeError } = await supabase
         .from('homes')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: true })
-        .limit(1)
-        .maybeSingle();
+        .select('*, home_members!inner(role)')
+        .eq('home_members.user_id', user.id)
+        .order('created_at', { ascending: true });
 
       if (homeError) {
-        console.error('Error fetching user home:', homeError);
+        console.error('Error fetching user homes:', homeError);
         setError('Failed to load home data');
       } else {
-        setUserHome(data ?? null);
+        const rows = (data ?? []).map(({ home_members, ...home }) => ({
+          ...home,
+          role: home_members[0]?.role ?? 'owner',
+        })) as UserHome[];
+        setHomes(rows);
+        setSelectedHomeId(prev => {
+          const preferred = prev ?? readStoredHomeId(user.id);
+          if (preferred && rows.some(h => h.id === preferred)) return preferred;
+          return rows[0]?.id ?? null;
+        });
       }
     } catch (err) {
-      console.error('Unexpected error fetching user home:', err);
+      console.error('Unexpected error fetching user homes:', err);
       setError('Failed to load home data');
     } finally {
       setLoading(false);
@@ -89,24 +130,42 @@ export const UserHomeProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   };
 
   const refreshHome = async () => {
-    await fetchUserHome();
+    await fetchUserHomes();
   };
 
-  /** Optimistically merge partial updates into the local context state. */
+  /**
+   * Select a home by id. Ids not yet in the list (a just-created home) are
+   * kept and resolved on the next refresh.
+   */
+  const selectHome = (homeId: string) => {
+    setSelectedHomeId(homeId);
+    if (user) writeStoredHomeId(user.id, homeId);
+  };
+
+  /** Optimistically merge partial updates into the selected home. */
   const updateHome = (updates: Partial<UserHome>) => {
-    setUserHome(prev => prev ? { ...prev, ...updates } : prev);
+    setHomes(prev => prev.map(h => (h.id === selectedHomeId ? { ...h, ...updates } : h)));
   };
 
   useEffect(() => {
-    fetchUserHome();
+    setSelectedHomeId(null);
+    fetchUserHomes();
   }, [user]);
 
+  const userHome = useMemo(
+    () => homes.find(h => h.id === selectedHomeId) ?? homes[0] ?? null,
+    [homes, selectedHomeId]
+  );
+
   const fullAddress = userHome
     ? `${userHome.address}, ${userHome.city}, ${userHome.state} ${userHome.zip_code}`
     : null;
 
   const value: UserHomeContextType = {
     userHome,
+    homes,
+    selectedHomeId: userHome?.id ?? null,
+    selectHome,
     loading,
     error,
     refreshHome,
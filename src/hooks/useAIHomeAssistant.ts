@@ -4,6 +4,11 @@
  * ARTIFACT BEHAVIORAL CONTRACT:
  * Messages may have attached artifacts (only if chat earned it).
  * Artifacts are coupled to specific messages via anchorMessageId.
+ *
+ * STREAMING:
+ * Replies arrive as server-sent events and render incrementally. Domain
+ * artifacts from a tool result are placed ahead of the streamed answer
+ * (Validation First); the `done` event's message is authoritative.
  */
 
 import { useState, useCallback, useEffect, useRef } from 'react';
@@ -12,6 +17,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import type { AdvisorState, RiskLevel } from '@/types/advisorState';
 import type { ChatMode, BaselineSource, VisibleBaselineSystem } from '@/types/chatMode';
 import type { ChatArtifact } from '@/types/chatArtifact';
+import { readSseStream } from '../../supabase/functions/_shared/sse.ts';
 
 const MAX_PERSISTED_MESSAGES = 200;
 const PERSIST_DEBOUNCE_MS = 500;
@@ -27,6 +33,8 @@ export interface ChatMessage {
   suggestions?: string[];
   /** Attached artifact (only if chat earned it) */
   attachedArtifact?: ChatArtifact;
+  /** Reply is still streaming; content is partial */
+  isStreaming?: boolean;
 }
 
 export interface AssistantResponse {
@@ -58,6 +66,64 @@ interface UseAIHomeAssistantOptions {
   lastTouchAt?: Date | null;
 }
 
+interface AssistantStreamHandlers {
+  onToken: (text: string) => void;
+  onToolCall: (name: string) => void;
+  onToolResult: (name: string, result: string) => void;
+}
+
+/**
+ * Consume the ai-home-assistant event stream; resolves with the `done` payload
+ * (same shape as the JSON response).
+ */
+async function readAssistantStream(
+  body: ReadableStream<Uint8Array>,
+  handlers: AssistantStreamHandlers
+): Promise<AssistantResponse> {
+  let final: AssistantResponse | null = null;
+
+  await readSseStream(body, ({ event, data }) => {
+    const payload = JSON.parse(data);
+    switch (event) {
+      case 'token':
+        handlers.onToken(payload.text);
+        break;
+      case 'tool_call':
+        handlers.onToolCall(payload.name);
+        break;
+      case 'tool_result':
+        handlers.onToolResult(payload.name, payload.result);
+        break;
+      case 'done':
+        final = payload;
+        break;
+      case 'error':
+        throw new Error(payload.error);
+    }
+  });
+
+  if (!final) throw new Error('AI response stream ended unexpectedly');
+  return final;
+}
+
+/**
+ * Prefix domain artifact JSON so extractContractorData() / extractHomeEventData()
+ * can render ContractorCard and HomeEventConfirmation above the prose.
+ */
+function withDomainArtifact(message: string, functionResult?: string | null): string {
+  if (!functionResult || typeof functionResult !== 'string') return message;
+  try {
+    const parsed = JSON.parse(functionResult);
+    if (
+      (parsed.type === 'contractor_recommendations' && Array.isArray(parsed.contractors)) ||
+      parsed.type === 'home_event_recorded'
+    ) {
+      return functionResult + '\n\n' + message;
+    }
+  } catch { /* not JSON, skip */ }
+  return message;
+}
+
 export const useAIHomeAssistant = (propertyId?: string, options: UseAIHomeAssistantOptions = {}) => {
   const { 
     advisorState = 'ENGAGED', 
@@ -140,6 +206,9 @@ export const useAIHomeAssistant = (propertyId?: string, options: UseAIHomeAssist
   useEffect(() => {
     if (!propertyId || !user || isRestoring) return;
     
+    // Persist finished replies only (a streaming reply already counts toward length)
+    if (messages.some(m => m.isStreaming)) return;
+    
     // Only write if message count actually changed
     if (messages.length === lastPersistedCountRef.current) return;
     
@@ -210,8 +279,32 @@ export const useAIHomeAssistant = (propertyId?: string, options: UseAIHomeAssist
         content: msg.content
       }));
 
+      // Assistant reply renders as it streams; replaced by the final message on `done`
+      const assistantId = `assistant-${Date.now()}`;
+      let streamedText = '';
+      let toolArtifact: string | null = null;
+
+      const renderPartial = () => {
+        const content = withDomainArtifact(streamedText, toolArtifact);
+        if (!content) {
+          // Nothing to show yet (e.g. narration discarded for a tool call)
+          setMessages(prev => prev.filter(m => m.id !== assistantId));
+          return;
+        }
+        const partial: ChatMessage = {
+          id: assistantId,
+          role: 'assistant',
+          content,
+          timestamp: new Date().toISOString(),
+          isStreaming: true,
+        };
+        setMessages(prev => prev.some(m => m.id === assistantId)
+          ? prev.map(m => m.id === assistantId ? partial : m)
+          : [...prev, partial]);
+      };
+
       // Get AI response with advisor state context, chat mode, and baseline context
-      const { data, error: assistantError } = await supabase.functions.invoke(
+      const { data: invokeData, error: assistantError } = await supabase.functions.invoke(
         'ai-home-assistant',
         {
           body: {
@@ -233,6 +326,7 @@ export const useAIHomeAssistant = (propertyId?: string, options: UseAIHomeAssist
             nextGain,
             // Onboarding contract gate: pass lastTouchAt so edge function can distinguish new vs returning users
             lastTouchAt: lastTouchAt ? lastTouchAt.toISOString() : null,
+            stream: true,
           }
         }
       );
@@ -241,32 +335,37 @@ export const useAIHomeAssistant = (propertyId?: string, options: UseAIHomeAssist
         throw new Error(assistantError.message);
       }
 
-      // Inject domain artifact JSON so extractContractorData() can render ContractorCard
-      let messageContent = data.message;
-      if (data.functionResult && typeof data.functionResult === 'string') {
-        try {
-          const parsed = JSON.parse(data.functionResult);
-          if (
-            (parsed.type === 'contractor_recommendations' && Array.isArray(parsed.contractors)) ||
-            parsed.type === 'home_event_recorded'
-          ) {
-            messageContent = data.functionResult + '\n\n' + data.message;
-          }
-        } catch { /* not JSON, skip */ }
-      }
+      // Event streams come back as the raw Response; anything else is the JSON body
+      const data = invokeData instanceof Response && invokeData.body
+        ? await readAssistantStream(invokeData.body, {
+            onToken: (text) => {
+              streamedText += text;
+              renderPartial();
+            },
+            onToolCall: () => {
+              // Pre-tool narration is discarded, as in the JSON response
+              streamedText = '';
+              renderPartial();
+            },
+            onToolResult: (_name, result) => {
+              toolArtifact = result;
+              renderPartial();
+            },
+          })
+        : invokeData;
 
-      // Add assistant response to chat
+      // Add assistant response to chat (replaces the streamed partial)
       const assistantMessage: ChatMessage = {
-        id: `assistant-${Date.now()}`,
+        id: assistantId,
         role: 'assistant',
-        content: messageContent,
+        content: withDomainArtifact(data.message, data.functionResult),
         timestamp: new Date().toISOString(),
         functionCall: data.functionCall,
         functionResult: data.functionResult, // Include for UI refresh detection
         suggestions: data.suggestions
       };
 
-      setMessages(prev => [...prev, assistantMessage]);
+      setMessages(prev => [...prev.filter(m => m.id !== assistantId), assistantMessage]);
       
       // Return response with focus metadata if present
       const response: AssistantResponse = {
@@ -287,7 +386,7 @@ export const useAIHomeAssistant = (propertyId?: string, options: UseAIHomeAssist
       console.error('Error sending message to AI assistant:', err);
       setError(err instanceof Error ? err.message : 'Failed to get AI response');
       
-      // Add error message to chat
+      // Add error message to chat (in place of any partial reply)
       const errorMessage: ChatMessage = {
         id: `error-${Date.now()}`,
         role: 'assistant',
@@ -295,7 +394,7 @@ export const useAIHomeAssistant = (propertyId?: string, options: UseAIHomeAssist
         timestamp: new Date().toISOString()
       };
 
-      setMessages(prev => [...prev, errorMessage]);
+      setMessages(prev => [...prev.filter(m => !m.isStreaming), errorMessage]);
       return undefined;
     } finally {
       setLoading(false);
@@ -0,0 +1,102 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  buildDefaultWarranty,
+  createAssetForWarranty,
+  findActiveAsset,
+  getOrSeedWarranty,
+  saveWarranty,
+  withExpiries,
+  type AssetWarranty,
+} from '@/lib/assetWarranty';
+
+export interface UseAssetWarrantyInput {
+  homeId?: string;
+  /** home_assets id when the caller already has it */
+  assetId?: string;
+  kind: string;
+  manufacturer?: string | null;
+  installDate?: string | null;
+}
+
+export interface WarrantyConfirmation {
+  partsYears: number;
+  laborYears: number;
+  transferable: boolean;
+  registered: boolean;
+  coverageStart: string | null;
+}
+
+/**
+ * useAssetWarranty - Warranty for one asset, seeded from brand defaults
+ *
+ * When no home_assets row exists yet the warranty is an unsaved estimate;
+ * confirming it creates the asset and stores the owner's terms.
+ */
+export function useAssetWarranty(input: UseAssetWarrantyInput) {
+  const { homeId, assetId, kind, manufacturer, installDate } = input;
+  const queryClient = useQueryClient();
+  const queryKey = ['asset-warranty', homeId, assetId ?? kind];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const asset = assetId
+        ? { id: assetId, kind, manufacturer: manufacturer ?? null, install_date: installDate ?? null }
+        : await findActiveAsset(homeId!, kind);
+
+      if (!asset) {
+        return {
+          assetId: null,
+          warranty: buildDefaultWarranty({ kind, manufacturer, installDate }),
+        };
+      }
+
+      return {
+        assetId: asset.id,
+        warranty: await getOrSeedWarranty(homeId!, {
+          ...asset,
+          manufacturer: asset.manufacturer ?? manufacturer ?? null,
+          install_date: asset.install_date ?? installDate ?? null,
+        }),
+      };
+    },
+    enabled: !!homeId,
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (terms: WarrantyConfirmation): Promise<AssetWarranty> => {
+      const current = data?.warranty ?? buildDefaultWarranty({ kind, manufacturer, installDate });
+      const resolvedAssetId = data?.assetId
+        ?? (await createAssetForWarranty(homeId!, { kind, manufacturer, installDate })).id;
+
+      // Owner-entered parts term already reflects registration, so it is taken as-is
+      const confirmed = withExpiries({
+        ...current,
+        partsYears: terms.partsYears,
+        laborYears: terms.laborYears,
+        transferable: terms.transferable,
+        coverageStart: terms.coverageStart,
+        registered: terms.registered,
+        source: 'owner',
+        confirmed: true,
+        // Re-editing confirmed terms keeps the original confirmation time
+        confirmedAt: current.confirmedAt ?? new Date().toISOString(),
+      });
+
+      await saveWarranty(homeId!, resolvedAssetId, confirmed);
+      return confirmed;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['asset-warranty', homeId] });
+      queryClient.invalidateQueries({ queryKey: ['home-report-warranties', homeId] });
+    },
+  });
+
+  return {
+    warranty: data?.warranty ?? null,
+    isPersisted: !!data?.assetId,
+    loading: isLoading,
+    confirmWarranty: confirmMutation.mutateAsync,
+    isConfirming: confirmMutation.isPending,
+  };
+}
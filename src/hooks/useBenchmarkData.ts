@@ -103,6 +103,8 @@ export function useCostModel() {
         const { data, error } = await supabase
           .from('cost_models')
           .select('*')
+          .eq('model_name', 'delay_impact')
+          .limit(1)
           .maybeSingle();
 
         if (error) throw error;
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import type { HomeCapitalTimeline } from "@/types/capitalTimeline";
 
@@ -52,11 +52,14 @@ async function fetchWithRetry<T>(
  * HomeCapitalTimeline with all systems and capital outlook.
  * 
  * Includes retry logic for transient network failures.
+ * Keyed to homeId: switching homes clears the previous home's timeline
+ * and drops responses that arrive for a home no longer selected.
  */
 export function useCapitalTimeline({ homeId, enabled = true }: UseCapitalTimelineOptions): UseCapitalTimelineResult {
   const [timeline, setTimeline] = useState<HomeCapitalTimeline | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const currentHomeId = useRef(homeId);
 
   const fetchTimeline = useCallback(async () => {
     if (!homeId || !enabled) return;
@@ -74,17 +77,26 @@ export function useCapitalTimeline({ homeId, enabled = true }: UseCapitalTimelin
         return data;
       });
 
+      if (homeId !== currentHomeId.current) return;
       if (data) {
         setTimeline(data as HomeCapitalTimeline);
       }
     } catch (err: any) {
+      if (homeId !== currentHomeId.current) return;
       console.error('[useCapitalTimeline] Error:', err);
       setError(err.message || 'Failed to load timeline');
     } finally {
-      setLoading(false);
+      if (homeId === currentHomeId.current) setLoading(false);
     }
   }, [homeId, enabled]);
 
+  // Never show one home's timeline under another home
+  useEffect(() => {
+    currentHomeId.current = homeId;
+    setTimeline(null);
+    setError(null);
+  }, [homeId]);
+
   useEffect(() => {
     fetchTimeline();
   }, [fetchTimeline]);
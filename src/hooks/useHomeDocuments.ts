@@ -0,0 +1,94 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ingestDocument,
+  processDocument,
+  type DocumentExtraction,
+  type DocumentExtractionStatus,
+  type DocumentType,
+  type IngestDocumentResult,
+} from '@/lib/documentIngestion';
+
+export interface HomeDocument {
+  id: string;
+  name: string;
+  type: DocumentType;
+  storagePath: string;
+  fileSize: number | null;
+  uploadedAt: string;
+  expiryDate: string | null;
+  status: DocumentExtractionStatus;
+  extraction: DocumentExtraction | null;
+  systemKey: string | null;
+  appliedAt: string | null;
+  error: string | null;
+}
+
+/**
+ * useHomeDocuments - Supporting records for a home plus the upload pipeline
+ *
+ * Uploading runs the full ingestion (storage → OCR → applySystemUpdate), so
+ * system queries are invalidated alongside the document list.
+ */
+export function useHomeDocuments(homeId?: string) {
+  const queryClient = useQueryClient();
+  const queryKey = ['home-documents', homeId];
+
+  const { data: documents = [], isLoading, error } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<HomeDocument[]> => {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id, name, type, file_url, file_size, created_at, expiry_date, extraction_status, extracted_fields, system_key, applied_at, extraction_error')
+        .eq('home_id', homeId!)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+
+      return (data || []).map((row) => ({
+        id: row.id,
+        name: row.name,
+        type: row.type as DocumentType,
+        storagePath: row.file_url,
+        fileSize: row.file_size,
+        uploadedAt: row.created_at,
+        expiryDate: row.expiry_date,
+        status: row.extraction_status as DocumentExtractionStatus,
+        extraction: row.extracted_fields as unknown as DocumentExtraction | null,
+        systemKey: row.system_key,
+        appliedAt: row.applied_at,
+        error: row.extraction_error,
+      }));
+    },
+    enabled: !!homeId,
+  });
+
+  const invalidateSystems = (result: { systemUpdate: IngestDocumentResult['systemUpdate'] }) => {
+    if (!result.systemUpdate?.update_applied) return;
+    queryClient.invalidateQueries({ queryKey: ['home-systems'] });
+    queryClient.invalidateQueries({ queryKey: ['home-report-systems', homeId] });
+    queryClient.invalidateQueries({ queryKey: ['home-report-assets', homeId] });
+    queryClient.invalidateQueries({ queryKey: ['capital-timeline'] });
+  };
+
+  const uploadMutation = useMutation<IngestDocumentResult, Error, { file: File; declaredType?: DocumentType }>({
+    mutationFn: (input) => ingestDocument({ ...input, homeId: homeId! }),
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+    onSuccess: invalidateSystems,
+  });
+
+  const retryMutation = useMutation<Omit<IngestDocumentResult, 'documentId'>, Error, string>({
+    mutationFn: (documentId) => processDocument(documentId, homeId!),
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+    onSuccess: invalidateSystems,
+  });
+
+  return {
+    documents,
+    loading: isLoading,
+    error: error as Error | null,
+    uploadDocument: uploadMutation.mutateAsync,
+    isUploading: uploadMutation.isPending,
+    retryExtraction: retryMutation.mutateAsync,
+    isRetrying: retryMutation.isPending,
+  };
+}
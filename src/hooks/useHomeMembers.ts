@@ -0,0 +1,68 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  inviteHomeMember,
+  loadHousehold,
+  removeHomeMember,
+  revokeInvitation,
+  updateMemberRole,
+  HOME_ROLE_CAPABILITIES,
+  type HomeMemberRole,
+} from '@/lib/homeMembership';
+
+/**
+ * useHomeMembers - Who shares a home, open invitations, and membership actions
+ *
+ * Also the lookup for home_events.recorded_by attribution (memberByUserId).
+ */
+export function useHomeMembers(homeId?: string) {
+  const queryClient = useQueryClient();
+  const queryKey = ['home-members', homeId];
+
+  const { data, isLoading, error } = useQuery({
+    queryKey,
+    queryFn: () => loadHousehold(homeId!),
+    enabled: !!homeId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['home-members', homeId] });
+
+  const invite = useMutation({
+    mutationFn: ({ email, role }: { email: string; role: HomeMemberRole }) =>
+      inviteHomeMember(homeId!, email, role),
+    onSuccess: invalidate,
+  });
+
+  const revoke = useMutation({
+    mutationFn: (invitationId: string) => revokeInvitation(invitationId),
+    onSuccess: invalidate,
+  });
+
+  const changeRole = useMutation({
+    mutationFn: ({ memberId, role }: { memberId: string; role: HomeMemberRole }) =>
+      updateMemberRole(memberId, role),
+    onSuccess: invalidate,
+  });
+
+  const remove = useMutation({
+    mutationFn: (memberId: string) => removeHomeMember(memberId),
+    onSuccess: invalidate,
+  });
+
+  const members = data?.members ?? [];
+  const role = data?.role ?? null;
+
+  return {
+    role,
+    capabilities: role ? HOME_ROLE_CAPABILITIES[role] : null,
+    members,
+    invitations: data?.invitations ?? [],
+    memberByUserId: new Map(members.map((m) => [m.userId, m])),
+    loading: isLoading,
+    error: error instanceof Error ? error.message : null,
+    invite,
+    revoke,
+    changeRole,
+    remove,
+  };
+}
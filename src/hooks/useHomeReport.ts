@@ -1,15 +1,19 @@
+import { useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useUserHome } from '@/hooks/useUserHome';
 import { useCapitalTimeline } from '@/hooks/useCapitalTimeline';
-import type { SystemTimelineEntry } from '@/types/capitalTimeline';
+import type { HomeCapitalTimeline, SystemTimelineEntry } from '@/types/capitalTimeline';
+import { useReservePlan } from '@/hooks/useReservePlan';
+import { simulateReservePlan, type ReservePlanInputs, type ReservePlanResult } from '@/services/reservePlanner';
 import { getInstallSourceLabel, deriveStatusLevel } from '@/lib/mobileCopy';
+import { buildDefaultWarranty, loadHomeWarranties } from '@/lib/assetWarranty';
 
 /**
  * useHomeReport — Read-only, authoritative snapshot of the home record.
  * This hook does not perform writes or side effects.
- * It composes data from home_assets, home_events, home_systems,
- * capital-timeline, and ATTOM into a single report-safe shape.
+ * It composes data from home_assets, asset_warranties, home_events,
+ * home_systems, capital-timeline, and ATTOM into a single report-safe shape.
  */
 
 // ─── Types ──────────────────────────────────────────────────────────────────
@@ -41,6 +45,20 @@ export interface ReportAsset {
   isSupplemental: boolean;
 }
 
+export interface ReportWarranty {
+  assetId: string;
+  assetKind: string;
+  manufacturer: string | null;
+  partsYears: number;
+  laborYears: number;
+  partsExpiresOn: string | null;
+  laborExpiresOn: string | null;
+  transferable: boolean;
+  registered: boolean;
+  /** False when terms are estimated from typical brand defaults */
+  confirmed: boolean;
+}
+
 export interface ReportEvent {
   id: string;
   eventType: string;
@@ -213,6 +231,11 @@ function normalizeTimelineForReport(systems: SystemTimelineEntry[]): ReportCapit
 
 // ─── Report Data Interface ──────────────────────────────────────────────────
 
+export interface ReportReservePlan {
+  inputs: ReservePlanInputs;
+  result: ReservePlanResult;
+}
+
 export interface ReportSaleRecord {
   date: string;
   price: number;
@@ -230,12 +253,17 @@ export interface HomeReportData {
   replacements: ReportEvent[];
   deferredRecommendations: ReportEvent[];
   capitalOutlook: ReportCapitalSystem[];
+  /** Raw capital timeline (roll-up and systems) for planning tools */
+  capitalTimeline: HomeCapitalTimeline | null;
+  /** Saved reserve plan simulated against the timeline (null until saved) */
+  reservePlan: ReportReservePlan | null;
+  warranties: ReportWarranty[];
   saleHistory: ReportSaleRecord[];
   coverage: ReportCoverage;
   /** Raw ATTOM enrichment data (non-fatal, may be null) */
   attomData: any | null;
   /** The raw home record from UserHomeContext */
-  home: { id: string; address: string; city: string; state: string; zip_code: string; property_type?: string; year_built?: number; square_feet?: number; bedrooms?: number; bathrooms?: number; lat?: number; lng?: number } | null;
+  home: { id: string; address: string; city: string; state: string; zip_code: string; fips_code?: string | null; property_type?: string; year_built?: number; square_feet?: number; bedrooms?: number; bathrooms?: number; lat?: number; lng?: number } | null;
   /** Home ID shortcut */
   homeId: string | null;
   /** Full formatted address */
@@ -294,6 +322,9 @@ export function useHomeReport(): HomeReportData {
     enabled: !!homeId,
   });
 
+  // Query 5b: Saved reserve plan inputs (non-fatal)
+  const { plan: reserveInputs } = useReservePlan(homeId);
+
   // Query 6: Sale history from ATTOM (non-fatal)
   const attomAddress = fullAddress || '';
   const {
@@ -396,6 +427,16 @@ export function useHomeReport(): HomeReportData {
     enabled: !!homeId,
   });
 
+  // Query 5: Warranties (stored terms; unstored assets fall back to estimates)
+  const {
+    data: storedWarranties = [],
+    isLoading: warrantiesLoading,
+  } = useQuery({
+    queryKey: ['home-report-warranties', homeId],
+    queryFn: () => (homeId ? loadHomeWarranties(homeId) : []),
+    enabled: !!homeId,
+  });
+
   // ─── Transform assets ──────────────────────────────────────────────────────
 
   const assets: ReportAsset[] = rawAssets.map((a) => ({
@@ -435,6 +476,27 @@ export function useHomeReport(): HomeReportData {
   const coreSystems = allAssets.filter((a) => a.category === 'system');
   const appliances = allAssets.filter((a) => a.category === 'appliance');
 
+  // ─── Warranties ───────────────────────────────────────────────────────────
+  // Only home_assets rows carry warranties; supplemental systems have no asset yet.
+
+  const warrantyByAsset = new Map(storedWarranties.map((w) => [w.assetId, w.warranty]));
+  const warranties: ReportWarranty[] = assets.map((a) => {
+    const warranty = warrantyByAsset.get(a.id)
+      ?? buildDefaultWarranty({ kind: a.kind, manufacturer: a.manufacturer, installDate: a.installDate });
+    return {
+      assetId: a.id,
+      assetKind: a.kind,
+      manufacturer: a.manufacturer,
+      partsYears: warranty.partsYears,
+      laborYears: warranty.laborYears,
+      partsExpiresOn: warranty.partsExpiresOn,
+      laborExpiresOn: warranty.laborExpiresOn,
+      transferable: warranty.transferable,
+      registered: warranty.registered,
+      confirmed: warranty.confirmed,
+    };
+  });
+
   // ─── Transform events ─────────────────────────────────────────────────────
 
   const events: ReportEvent[] = rawEvents.map((e: any) => ({
@@ -581,6 +643,14 @@ export function useHomeReport(): HomeReportData {
 
   const capitalOutlook = normalizeTimelineForReport(timeline?.systems ?? []);
 
+  const reservePlan = useMemo<ReportReservePlan | null>(
+    () =>
+      reserveInputs && timeline
+        ? { inputs: reserveInputs, result: simulateReservePlan(timeline.systems, reserveInputs) }
+        : null,
+    [reserveInputs, timeline]
+  );
+
   // ─── Sale History (non-fatal, from ATTOM) ─────────────────────────────────
 
   const saleHistory: ReportSaleRecord[] = (attomData?.saleHistory ?? [])
@@ -593,7 +663,7 @@ export function useHomeReport(): HomeReportData {
 
   // ─── Loading / Error ──────────────────────────────────────────────────────
 
-  const loading = assetsLoading || eventsLoading || systemsLoading || timelineLoading;
+  const loading = assetsLoading || eventsLoading || systemsLoading || timelineLoading || warrantiesLoading;
   const errorMsg = assetsError?.message || eventsError?.message || systemsError?.message || null;
 
   // ─── Last sale (from ATTOM normalized profile) ───────────────────────────
@@ -607,6 +677,9 @@ export function useHomeReport(): HomeReportData {
     replacements,
     deferredRecommendations,
     capitalOutlook,
+    capitalTimeline: timeline ?? null,
+    reservePlan,
+    warranties,
     saleHistory,
     coverage,
     attomData: attomData ?? null,
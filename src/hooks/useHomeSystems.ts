@@ -312,6 +312,8 @@ export function useHomeSystems(homeId?: string) {
   };
 
   useEffect(() => {
+    // Clear the previous home's systems so a home switch never shows stale rows
+    setSystems([]);
     fetchSystems();
   }, [homeId]);
 
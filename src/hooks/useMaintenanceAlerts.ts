@@ -9,14 +9,33 @@ export interface AlertItem {
   system_type: string | null;
 }
 
+interface WarrantyAlertData {
+  assetId: string;
+  assetKind: string;
+  kind: string;
+  dueDate: string;
+  message: string;
+}
+
 interface MaintenanceAlertsData {
   overdue: number;
   upcoming: number;
   highPriority: number;
   tasks: AlertItem[];
+  warrantyAlerts?: WarrantyAlertData[];
   chatMessage?: string;
 }
 
+function toAlertItem(alert: WarrantyAlertData): AlertItem {
+  return {
+    id: `warranty-${alert.assetId}-${alert.kind}`,
+    title: alert.message,
+    due_date: alert.dueDate,
+    priority: alert.kind === 'registration_deadline' ? 'high' : 'medium',
+    system_type: alert.assetKind,
+  };
+}
+
 interface UseMaintenanceAlertsReturn {
   alerts: AlertItem[];
   totalCount: number;
@@ -45,8 +64,9 @@ export function useMaintenanceAlerts(homeId: string | undefined): UseMaintenance
 
         const result = data as MaintenanceAlertsData;
         if (result) {
-          setAlerts(result.tasks || []);
-          setTotalCount((result.overdue || 0) + (result.upcoming || 0));
+          const warrantyItems = (result.warrantyAlerts || []).map(toAlertItem);
+          setAlerts([...(result.tasks || []), ...warrantyItems]);
+          setTotalCount((result.overdue || 0) + (result.upcoming || 0) + warrantyItems.length);
         }
       } catch (err) {
         console.error('[useMaintenanceAlerts] Unexpected error:', err);
@@ -0,0 +1,126 @@
+import { useQueries } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useUserHome } from '@/hooks/useUserHome';
+import type { UserHome } from '@/contexts/UserHomeContext';
+import type { HomeCapitalTimeline } from '@/types/capitalTimeline';
+import {
+  computeHomeConfidence,
+  type HomeAssetRecord,
+  type HomeEventRecord,
+} from '@/services/homeConfidence';
+import {
+  computePortfolioRollup,
+  type PortfolioHomeSnapshot,
+  type PortfolioRollup,
+} from '@/services/portfolioRollup';
+
+/**
+ * usePortfolio — Read-only rollup across every home the user owns.
+ * Fetches each home's capital timeline and confidence inputs in parallel,
+ * then aggregates them with computePortfolioRollup.
+ * A single home failing to load never blocks the others.
+ */
+
+interface UsePortfolioResult {
+  homes: PortfolioHomeSnapshot[];
+  rollup: PortfolioRollup;
+  loading: boolean;
+}
+
+interface HomePortfolioData {
+  timeline: HomeCapitalTimeline | null;
+  assets: HomeAssetRecord[];
+  events: HomeEventRecord[];
+}
+
+async function fetchHomePortfolioData(homeId: string): Promise<HomePortfolioData> {
+  const [timelineRes, assetsRes, eventsRes] = await Promise.all([
+    supabase.functions.invoke('capital-timeline', {
+      body: { action: 'timeline', homeId },
+    }),
+    supabase
+      .from('home_assets')
+      .select('id, kind, serial, metadata, status, updated_at')
+      .eq('home_id', homeId)
+      .eq('status', 'active'),
+    supabase
+      .from('home_events')
+      .select('id, event_type, title, description, source, status, severity, metadata, asset_id, home_id, created_at')
+      .eq('home_id', homeId)
+      .order('created_at', { ascending: false })
+      .limit(100),
+  ]);
+
+  if (timelineRes.error) {
+    console.warn('[usePortfolio] Timeline fetch failed (non-fatal):', homeId, timelineRes.error.message);
+  }
+
+  return {
+    timeline: timelineRes.error ? null : ((timelineRes.data as HomeCapitalTimeline) ?? null),
+    assets: (assetsRes.data || []).map(a => ({
+      id: a.id,
+      kind: a.kind,
+      serial: a.serial,
+      metadata: (a.metadata as Record<string, unknown>) || {},
+      status: a.status,
+      updated_at: a.updated_at,
+    })),
+    events: (eventsRes.data || []).map(e => ({
+      id: e.id,
+      event_type: e.event_type,
+      title: e.title,
+      description: e.description,
+      source: e.source,
+      status: e.status,
+      severity: e.severity,
+      metadata: (e.metadata as Record<string, unknown>) || {},
+      asset_id: e.asset_id,
+      home_id: e.home_id,
+      created_at: e.created_at,
+    })),
+  };
+}
+
+function lastTouchFrom(data: HomePortfolioData): Date | null {
+  const timestamps: number[] = [];
+  for (const e of data.events) timestamps.push(new Date(e.created_at).getTime());
+  for (const a of data.assets) timestamps.push(new Date(a.updated_at).getTime());
+  return timestamps.length > 0 ? new Date(Math.max(...timestamps)) : null;
+}
+
+function toSnapshot(home: UserHome, data: HomePortfolioData | undefined): PortfolioHomeSnapshot {
+  const timeline = data?.timeline ?? null;
+  return {
+    homeId: home.id,
+    address: home.address,
+    city: home.city,
+    state: home.state,
+    timeline,
+    confidence: data && timeline
+      ? computeHomeConfidence(timeline.systems, data.assets, data.events, lastTouchFrom(data), home.year_built)
+      : null,
+  };
+}
+
+export function usePortfolio(): UsePortfolioResult {
+  const { homes, loading: homesLoading } = useUserHome();
+
+  const results = useQueries({
+    queries: homes.map(home => ({
+      // Shares the 'capital-timeline' prefix so existing invalidations refresh the portfolio too
+      queryKey: ['capital-timeline', 'portfolio', home.id],
+      queryFn: () => fetchHomePortfolioData(home.id),
+      staleTime: 1000 * 60 * 5,
+    })),
+  });
+
+  // Pure and cheap for a handful of homes — recomputed each render
+  const snapshots = homes.map((home, i) => toSnapshot(home, results[i]?.data));
+  const rollup = computePortfolioRollup(snapshots);
+
+  return {
+    homes: snapshots,
+    rollup,
+    loading: homesLoading || results.some(r => r.isLoading),
+  };
+}
@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { CapitalSystemType } from '@/types/capitalTimeline';
+import type { PlannedYears } from '@/services/replacementScenario';
+
+export interface SavedReplacementScenario {
+  id: string;
+  name: string;
+  plannedYears: PlannedYears;
+  updatedAt: string;
+}
+
+function toPlannedYears(value: unknown): PlannedYears {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const planned: PlannedYears = {};
+  for (const [systemId, year] of Object.entries(value)) {
+    if (typeof year === 'number' && Number.isFinite(year)) {
+      planned[systemId as CapitalSystemType] = year;
+    }
+  }
+  return planned;
+}
+
+/**
+ * useReplacementScenarios - Named what-if replacement plans saved against a home
+ *
+ * Saving under an existing name overwrites that scenario.
+ */
+export function useReplacementScenarios(homeId?: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['replacement-scenarios', homeId];
+
+  const { data: scenarios = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<SavedReplacementScenario[]> => {
+      const { data, error } = await supabase
+        .from('replacement_scenarios')
+        .select('id, name, planned_years, updated_at')
+        .eq('home_id', homeId!)
+        .order('updated_at', { ascending: false });
+      if (error) throw error;
+      return (data ?? []).map((row) => ({
+        id: row.id,
+        name: row.name,
+        plannedYears: toPlannedYears(row.planned_years),
+        updatedAt: row.updated_at,
+      }));
+    },
+    enabled: !!homeId,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ name, plannedYears }: { name: string; plannedYears: PlannedYears }) => {
+      const { data, error } = await supabase
+        .from('replacement_scenarios')
+        .upsert(
+          { home_id: homeId!, user_id: user!.id, name: name.trim(), planned_years: plannedYears },
+          { onConflict: 'home_id,name' }
+        )
+        .select('id')
+        .single();
+      if (error) throw error;
+      return data.id;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (scenarioId: string) => {
+      const { error } = await supabase.from('replacement_scenarios').delete().eq('id', scenarioId);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  return {
+    scenarios,
+    loading: isLoading,
+    saveScenario: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+    deleteScenario: deleteMutation.mutateAsync,
+  };
+}
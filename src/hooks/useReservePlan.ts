@@ -0,0 +1,59 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { ReservePlanInputs } from '@/services/reservePlanner';
+
+/**
+ * useReservePlan - Saved reserve (sinking fund) inputs for a home
+ *
+ * Returns null until the owner saves a plan; the simulation is computed
+ * by callers with simulateReservePlan.
+ */
+export function useReservePlan(homeId?: string | null) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['reserve-plan', homeId];
+
+  const { data: plan = null, isLoading } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<ReservePlanInputs | null> => {
+      const { data, error } = await supabase
+        .from('reserve_plans')
+        .select('current_savings, monthly_contribution, escalation_rate')
+        .eq('home_id', homeId!)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return null;
+      return {
+        currentSavings: Number(data.current_savings),
+        monthlyContribution: Number(data.monthly_contribution),
+        escalationRate: Number(data.escalation_rate),
+      };
+    },
+    enabled: !!homeId,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (inputs: ReservePlanInputs) => {
+      const { error } = await supabase.from('reserve_plans').upsert(
+        {
+          home_id: homeId!,
+          user_id: user!.id,
+          current_savings: inputs.currentSavings,
+          monthly_contribution: inputs.monthlyContribution,
+          escalation_rate: inputs.escalationRate,
+        },
+        { onConflict: 'home_id' }
+      );
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  return {
+    plan,
+    loading: isLoading,
+    savePlan: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+  };
+}
@@ -1,16 +1,65 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+
+export type QueuedWriteKind = "task_completion" | "task_skip" | "home_event" | "photo_upload";
+
+export interface SyncStatus {
+  isOnline: boolean;
+  /** Writes waiting in the service worker's offline queue */
+  pendingCount: number;
+  /** Queued writes held back until their user signs in again */
+  parkedCount: number;
+  pendingByKind: Partial<Record<QueuedWriteKind, number>>;
+  isSyncing: boolean;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  /** Queued writes the server rejected on replay */
+  droppedCount: number;
+}
+
+interface SyncStatusMessage extends Omit<SyncStatus, "isOnline"> {
+  type: "SYNC_STATUS";
+}
+
+const INITIAL_SYNC_STATUS: SyncStatus = {
+  isOnline: typeof navigator === "undefined" ? true : navigator.onLine,
+  pendingCount: 0,
+  parkedCount: 0,
+  pendingByKind: {},
+  isSyncing: false,
+  lastSyncedAt: null,
+  lastError: null,
+  droppedCount: 0,
+};
+
+// Several components use this hook; register once per page load
+let registrationPromise: Promise<ServiceWorkerRegistration | null> | null = null;
+
+function postToWorker(message: Record<string, unknown>) {
+  navigator.serviceWorker?.controller?.postMessage(message);
+}
+
+/**
+ * Ask the worker to replay queued writes with the current session token,
+ * so writes queued before a token refresh still authenticate.
+ */
+async function requestReplay() {
+  const { data: { session } } = await supabase.auth.getSession();
+  postToWorker({ type: "REPLAY_QUEUE", accessToken: session?.access_token ?? null });
+}
 
 export const useServiceWorker = () => {
   const [isSupported, setIsSupported] = useState(false);
   const [isInstalled, setIsInstalled] = useState(false);
   const [updateAvailable, setUpdateAvailable] = useState(false);
   const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(INITIAL_SYNC_STATUS);
   const { toast } = useToast();
 
   useEffect(() => {
-    // Check if service workers are supported
-    if ("serviceWorker" in navigator) {
+    // Check if service workers are supported (dev builds unregister them in main.tsx)
+    if ("serviceWorker" in navigator && import.meta.env.PROD) {
       setIsSupported(true);
       registerServiceWorker();
     }
@@ -40,10 +89,53 @@ export const useServiceWorker = () => {
     };
   }, [toast]);
 
+  // Offline queue status from the worker, replay on reconnect
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      const data = event.data as SyncStatusMessage | undefined;
+      if (data?.type !== "SYNC_STATUS") return;
+      const { type: _type, ...status } = data;
+      setSyncStatus((prev) => ({ ...prev, ...status }));
+    };
+
+    const handleOnline = () => {
+      setSyncStatus((prev) => ({ ...prev, isOnline: true }));
+      void requestReplay();
+    };
+    const handleOffline = () => setSyncStatus((prev) => ({ ...prev, isOnline: false }));
+
+    navigator.serviceWorker.addEventListener("message", handleMessage);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+
+    navigator.serviceWorker.ready.then(() => {
+      postToWorker({ type: "GET_SYNC_STATUS" });
+      if (navigator.onLine) void requestReplay();
+    });
+
+    // Cached reads and queued writes belong to whoever was signed in;
+    // signing back in releases that user's parked writes
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === "SIGNED_OUT") postToWorker({ type: "CLEAR_USER_DATA" });
+      if (event === "SIGNED_IN" || event === "TOKEN_REFRESHED") void requestReplay();
+    });
+
+    return () => {
+      navigator.serviceWorker.removeEventListener("message", handleMessage);
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      subscription.unsubscribe();
+    };
+  }, []);
+
   const registerServiceWorker = async () => {
     try {
-      const registration = await navigator.serviceWorker.register("/sw.js");
-      
+      registrationPromise ??= navigator.serviceWorker.register("/sw.js", { updateViaCache: "none" });
+      const registration = await registrationPromise;
+      if (!registration) return;
+
       // Check if there's a waiting service worker
       if (registration.waiting) {
         setUpdateAvailable(true);
@@ -63,6 +155,7 @@ export const useServiceWorker = () => {
 
       console.log("Service Worker registered:", registration);
     } catch (error) {
+      registrationPromise = null;
       console.error("Service Worker registration failed:", error);
     }
   };
@@ -73,7 +166,7 @@ export const useServiceWorker = () => {
     try {
       deferredPrompt.prompt();
       const { outcome } = await deferredPrompt.userChoice;
-      
+
       if (outcome === "accepted") {
         setDeferredPrompt(null);
         return true;
@@ -92,6 +185,10 @@ export const useServiceWorker = () => {
     window.location.reload();
   };
 
+  const syncNow = useCallback(() => {
+    void requestReplay();
+  }, []);
+
   const isInstallable = !!deferredPrompt;
   const isStandalone = window.matchMedia("(display-mode: standalone)").matches;
 
@@ -102,5 +199,7 @@ export const useServiceWorker = () => {
     updateAvailable,
     installApp,
     updateApp,
+    syncStatus,
+    syncNow,
   };
-};
\ No newline at end of file
+};
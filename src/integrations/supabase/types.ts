@@ -106,6 +106,53 @@ export type Database = {
         }
         Relationships: []
       }
+      analytics_events: {
+        Row: {
+          created_at: string
+          event_name: string
+          home_id: string | null
+          id: string
+          occurred_at: string
+          properties: Json
+          session_id: string
+          surface: string
+          system_slug: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          event_name: string
+          home_id?: string | null
+          id: string
+          occurred_at: string
+          properties?: Json
+          session_id: string
+          surface: string
+          system_slug?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          event_name?: string
+          home_id?: string | null
+          id?: string
+          occurred_at?: string
+          properties?: Json
+          session_id?: string
+          surface?: string
+          system_slug?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analytics_events_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       appliances: {
         Row: {
           age: number | null
@@ -147,6 +194,101 @@ export type Database = {
           },
         ]
       }
+      asset_warranties: {
+        Row: {
+          asset_id: string
+          confirmed_at: string | null
+          coverage_start: string | null
+          created_at: string
+          document_id: string | null
+          home_id: string
+          id: string
+          labor_expires_on: string | null
+          labor_years: number
+          notes: string | null
+          parts_expires_on: string | null
+          parts_years: number
+          registered: boolean
+          registered_parts_years: number | null
+          registration_deadline: string | null
+          source: string
+          transferable: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          asset_id: string
+          confirmed_at?: string | null
+          coverage_start?: string | null
+          created_at?: string
+          document_id?: string | null
+          home_id: string
+          id?: string
+          labor_expires_on?: string | null
+          labor_years: number
+          notes?: string | null
+          parts_expires_on?: string | null
+          parts_years: number
+          registered?: boolean
+          registered_parts_years?: number | null
+          registration_deadline?: string | null
+          source?: string
+          transferable?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          asset_id?: string
+          confirmed_at?: string | null
+          coverage_start?: string | null
+          created_at?: string
+          document_id?: string | null
+          home_id?: string
+          id?: string
+          labor_expires_on?: string | null
+          labor_years?: number
+          notes?: string | null
+          parts_expires_on?: string | null
+          parts_years?: number
+          registered?: boolean
+          registered_parts_years?: number | null
+          registration_deadline?: string | null
+          source?: string
+          transferable?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "asset_warranties_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: true
+            referencedRelation: "home_assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "asset_warranties_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "asset_warranties_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "asset_warranties_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "v_property_profile"
+            referencedColumns: ["property_id"]
+          },
+        ]
+      }
       batch_jobs: {
         Row: {
           completed_at: string | null
@@ -201,6 +343,51 @@ export type Database = {
         }
         Relationships: []
       }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          home_id: string
+          id: string
+          last_accessed_at: string | null
+          revoked_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          home_id: string
+          id?: string
+          last_accessed_at?: string | null
+          revoked_at?: string | null
+          token: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          home_id?: string
+          id?: string
+          last_accessed_at?: string | null
+          revoked_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendar_feeds_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "v_property_profile"
+            referencedColumns: ["property_id"]
+          },
+        ]
+      }
       chat_sessions: {
         Row: {
           created_at: string
@@ -400,28 +587,46 @@ export type Database = {
       }
       cost_models: {
         Row: {
+          actual_adjustments: Json | null
           baseline_monthly_cost: number | null
           category_multipliers: Json | null
           created_at: string
           delay_scenarios: Json | null
+          fitted_at: string | null
           global_multiplier: number | null
           id: string
+          is_active: boolean
+          labor_indices: Json | null
+          model_name: string
+          version: string | null
         }
         Insert: {
+          actual_adjustments?: Json | null
           baseline_monthly_cost?: number | null
           category_multipliers?: Json | null
           created_at?: string
           delay_scenarios?: Json | null
+          fitted_at?: string | null
           global_multiplier?: number | null
           id?: string
+          is_active?: boolean
+          labor_indices?: Json | null
+          model_name?: string
+          version?: string | null
         }
         Update: {
+          actual_adjustments?: Json | null
           baseline_monthly_cost?: number | null
           category_multipliers?: Json | null
           created_at?: string
           delay_scenarios?: Json | null
+          fitted_at?: string | null
           global_multiplier?: number | null
           id?: string
+          is_active?: boolean
+          labor_indices?: Json | null
+          model_name?: string
+          version?: string | null
         }
         Relationships: []
       }
@@ -429,52 +634,85 @@ export type Database = {
         Row: {
           confidence_level: number | null
           cost_breakdown: Json | null
+          cost_model_id: string | null
           created_at: string | null
           data_sources: string[] | null
           estimated_cost_max: number | null
           estimated_cost_min: number | null
+          home_id: string | null
           id: string
           market_factors: Json | null
           prediction_type: string
           property_id: string | null
           roi_score: number | null
           system_lifecycle_id: string | null
+          system_type: string | null
+          updated_at: string | null
           urgency_score: number | null
           valid_until: string | null
         }
         Insert: {
           confidence_level?: number | null
           cost_breakdown?: Json | null
+          cost_model_id?: string | null
           created_at?: string | null
           data_sources?: string[] | null
           estimated_cost_max?: number | null
           estimated_cost_min?: number | null
+          home_id?: string | null
           id?: string
           market_factors?: Json | null
           prediction_type: string
           property_id?: string | null
           roi_score?: number | null
           system_lifecycle_id?: string | null
+          system_type?: string | null
+          updated_at?: string | null
           urgency_score?: number | null
           valid_until?: string | null
         }
         Update: {
           confidence_level?: number | null
           cost_breakdown?: Json | null
+          cost_model_id?: string | null
           created_at?: string | null
           data_sources?: string[] | null
           estimated_cost_max?: number | null
           estimated_cost_min?: number | null
+          home_id?: string | null
           id?: string
           market_factors?: Json | null
           prediction_type?: string
           property_id?: string | null
           roi_score?: number | null
           system_lifecycle_id?: string | null
+          system_type?: string | null
+          updated_at?: string | null
           urgency_score?: number | null
           valid_until?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "cost_predictions_cost_model_id_fkey"
+            columns: ["cost_model_id"]
+            isOneToOne: false
+            referencedRelation: "cost_models"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cost_predictions_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cost_predictions_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "v_property_profile"
+            referencedColumns: ["property_id"]
+          },
           {
             foreignKeyName: "cost_predictions_property_id_fkey"
             columns: ["property_id"]
@@ -687,38 +925,65 @@ export type Database = {
       }
       documents: {
         Row: {
+          applied_at: string | null
+          content_type: string | null
           created_at: string
           expiry_date: string | null
+          extracted_fields: Json | null
+          extracted_text: string | null
+          extraction_confidence: number | null
+          extraction_error: string | null
+          extraction_status: string
           file_size: number | null
           file_url: string
           home_id: string
           id: string
           name: string
           notes: string | null
+          processed_at: string | null
+          system_key: string | null
           type: string
           user_id: string
         }
         Insert: {
+          applied_at?: string | null
+          content_type?: string | null
           created_at?: string
           expiry_date?: string | null
+          extracted_fields?: Json | null
+          extracted_text?: string | null
+          extraction_confidence?: number | null
+          extraction_error?: string | null
+          extraction_status?: string
           file_size?: number | null
           file_url: string
           home_id: string
           id?: string
           name: string
           notes?: string | null
+          processed_at?: string | null
+          system_key?: string | null
           type: string
           user_id: string
         }
         Update: {
+          applied_at?: string | null
+          content_type?: string | null
           created_at?: string
           expiry_date?: string | null
+          extracted_fields?: Json | null
+          extracted_text?: string | null
+          extraction_confidence?: number | null
+          extraction_error?: string | null
+          extraction_status?: string
           file_size?: number | null
           file_url?: string
           home_id?: string
           id?: string
           name?: string
           notes?: string | null
+          processed_at?: string | null
+          system_key?: string | null
           type?: string
           user_id?: string
         }
@@ -1652,6 +1917,7 @@ export type Database = {
           home_id: string
           id: string
           metadata: Json
+          recorded_by: string | null
           related_event_id: string | null
           severity: string
           source: string
@@ -1670,6 +1936,7 @@ export type Database = {
           home_id: string
           id?: string
           metadata?: Json
+          recorded_by?: string | null
           related_event_id?: string | null
           severity?: string
           source: string
@@ -1688,6 +1955,7 @@ export type Database = {
           home_id?: string
           id?: string
           metadata?: Json
+          recorded_by?: string | null
           related_event_id?: string | null
           severity?: string
           source?: string
@@ -1844,6 +2112,108 @@ export type Database = {
           },
         ]
       }
+      home_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          home_id: string
+          id: string
+          invited_by: string
+          role: Database["public"]["Enums"]["home_member_role"]
+          status: string
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at: string
+          home_id: string
+          id?: string
+          invited_by: string
+          role: Database["public"]["Enums"]["home_member_role"]
+          status?: string
+          token: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          home_id?: string
+          id?: string
+          invited_by?: string
+          role?: Database["public"]["Enums"]["home_member_role"]
+          status?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "home_invitations_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "home_invitations_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "v_property_profile"
+            referencedColumns: ["property_id"]
+          },
+        ]
+      }
+      home_members: {
+        Row: {
+          created_at: string
+          home_id: string
+          id: string
+          invited_by: string | null
+          role: Database["public"]["Enums"]["home_member_role"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          home_id: string
+          id?: string
+          invited_by?: string | null
+          role: Database["public"]["Enums"]["home_member_role"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          home_id?: string
+          id?: string
+          invited_by?: string | null
+          role?: Database["public"]["Enums"]["home_member_role"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "home_members_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "home_members_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "v_property_profile"
+            referencedColumns: ["property_id"]
+          },
+        ]
+      }
       home_review_state: {
         Row: {
           confidence_score: number | null
@@ -1969,10 +2339,15 @@ export type Database = {
           baseline_strength: number | null
           brand: string | null
           capacity_rating: string | null
+          capacity_unit: string | null
+          capacity_value: number | null
           confidence_score: number | null
           confidence_scores: Json | null
           created_at: string | null
           data_sources: string[] | null
+          efficiency_metric: string | null
+          efficiency_rating: number | null
+          equipment_kind: string | null
           estimated_impact_cost: Json | null
           expected_lifespan_years: number | null
           field_provenance: Json | null
@@ -1994,6 +2369,7 @@ export type Database = {
           manufacture_date: string | null
           manufacture_year: number | null
           model: string | null
+          model_spec_version: string | null
           notes: string | null
           purchase_date: string | null
           risk_outlook_12mo: number | null
@@ -2007,10 +2383,15 @@ export type Database = {
           baseline_strength?: number | null
           brand?: string | null
           capacity_rating?: string | null
+          capacity_unit?: string | null
+          capacity_value?: number | null
           confidence_score?: number | null
           confidence_scores?: Json | null
           created_at?: string | null
           data_sources?: string[] | null
+          efficiency_metric?: string | null
+          efficiency_rating?: number | null
+          equipment_kind?: string | null
           estimated_impact_cost?: Json | null
           expected_lifespan_years?: number | null
           field_provenance?: Json | null
@@ -2032,6 +2413,7 @@ export type Database = {
           manufacture_date?: string | null
           manufacture_year?: number | null
           model?: string | null
+          model_spec_version?: string | null
           notes?: string | null
           purchase_date?: string | null
           risk_outlook_12mo?: number | null
@@ -2045,10 +2427,15 @@ export type Database = {
           baseline_strength?: number | null
           brand?: string | null
           capacity_rating?: string | null
+          capacity_unit?: string | null
+          capacity_value?: number | null
           confidence_score?: number | null
           confidence_scores?: Json | null
           created_at?: string | null
           data_sources?: string[] | null
+          efficiency_metric?: string | null
+          efficiency_rating?: number | null
+          equipment_kind?: string | null
           estimated_impact_cost?: Json | null
           expected_lifespan_years?: number | null
           field_provenance?: Json | null
@@ -2070,6 +2457,7 @@ export type Database = {
           manufacture_date?: string | null
           manufacture_year?: number | null
           model?: string | null
+          model_spec_version?: string | null
           notes?: string | null
           purchase_date?: string | null
           risk_outlook_12mo?: number | null
@@ -2736,9 +3124,15 @@ export type Database = {
           due_date: string | null
           home_id: string
           id: string
+          original_due_date: string | null
+          performed_by: string | null
+          previous_task_id: string | null
           priority: string | null
           recurrence_interval: string | null
+          recurrence_rule: Json | null
           recurring: boolean | null
+          series_id: string | null
+          snooze_count: number
           status: string | null
           system_type: string | null
           title: string
@@ -2754,9 +3148,15 @@ export type Database = {
           due_date?: string | null
           home_id: string
           id?: string
+          original_due_date?: string | null
+          performed_by?: string | null
+          previous_task_id?: string | null
           priority?: string | null
           recurrence_interval?: string | null
+          recurrence_rule?: Json | null
           recurring?: boolean | null
+          series_id?: string | null
+          snooze_count?: number
           status?: string | null
           system_type?: string | null
           title: string
@@ -2772,9 +3172,15 @@ export type Database = {
           due_date?: string | null
           home_id?: string
           id?: string
+          original_due_date?: string | null
+          performed_by?: string | null
+          previous_task_id?: string | null
           priority?: string | null
           recurrence_interval?: string | null
+          recurrence_rule?: Json | null
           recurring?: boolean | null
+          series_id?: string | null
+          snooze_count?: number
           status?: string | null
           system_type?: string | null
           title?: string
@@ -2796,6 +3202,13 @@ export type Database = {
             referencedRelation: "v_property_profile"
             referencedColumns: ["property_id"]
           },
+          {
+            foreignKeyName: "maintenance_tasks_previous_task_id_fkey"
+            columns: ["previous_task_id"]
+            isOneToOne: false
+            referencedRelation: "maintenance_tasks"
+            referencedColumns: ["id"]
+          },
         ]
       }
       market_data: {
@@ -2962,6 +3375,111 @@ export type Database = {
         }
         Relationships: []
       }
+      notification_deliveries: {
+        Row: {
+          channel: string
+          created_at: string
+          dedup_key: string
+          error: string | null
+          home_id: string | null
+          id: string
+          kind: string
+          status: string
+          subject_id: string | null
+          transport: string | null
+          user_id: string
+        }
+        Insert: {
+          channel: string
+          created_at?: string
+          dedup_key: string
+          error?: string | null
+          home_id?: string | null
+          id?: string
+          kind: string
+          status: string
+          subject_id?: string | null
+          transport?: string | null
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          created_at?: string
+          dedup_key?: string
+          error?: string | null
+          home_id?: string | null
+          id?: string
+          kind?: string
+          status?: string
+          subject_id?: string | null
+          transport?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "v_property_profile"
+            referencedColumns: ["property_id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          created_at: string
+          digest_day: number
+          email_enabled: boolean
+          push_enabled: boolean
+          quiet_hours_end: number | null
+          quiet_hours_start: number | null
+          task_due_soon: boolean
+          task_overdue: boolean
+          timezone: string
+          updated_at: string
+          user_id: string
+          warranty: boolean
+          weekly_digest: boolean
+        }
+        Insert: {
+          created_at?: string
+          digest_day?: number
+          email_enabled?: boolean
+          push_enabled?: boolean
+          quiet_hours_end?: number | null
+          quiet_hours_start?: number | null
+          task_due_soon?: boolean
+          task_overdue?: boolean
+          timezone?: string
+          updated_at?: string
+          user_id: string
+          warranty?: boolean
+          weekly_digest?: boolean
+        }
+        Update: {
+          created_at?: string
+          digest_day?: number
+          email_enabled?: boolean
+          push_enabled?: boolean
+          quiet_hours_end?: number | null
+          quiet_hours_start?: number | null
+          task_due_soon?: boolean
+          task_overdue?: boolean
+          timezone?: string
+          updated_at?: string
+          user_id?: string
+          warranty?: boolean
+          weekly_digest?: boolean
+        }
+        Relationships: []
+      }
       partner_offers: {
         Row: {
           created_at: string
@@ -3007,6 +3525,48 @@ export type Database = {
         }
         Relationships: []
       }
+      permit_jurisdictions: {
+        Row: {
+          adapter: string
+          created_at: string
+          endpoint: string | null
+          field_map: Json
+          id: string
+          is_active: boolean
+          lookup: Json
+          match: Json
+          name: string
+          type_map: Json
+          updated_at: string
+        }
+        Insert: {
+          adapter: string
+          created_at?: string
+          endpoint?: string | null
+          field_map?: Json
+          id: string
+          is_active?: boolean
+          lookup?: Json
+          match?: Json
+          name: string
+          type_map?: Json
+          updated_at?: string
+        }
+        Update: {
+          adapter?: string
+          created_at?: string
+          endpoint?: string | null
+          field_map?: Json
+          id?: string
+          is_active?: boolean
+          lookup?: Json
+          match?: Json
+          name?: string
+          type_map?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
       permits: {
         Row: {
           contractor_license: string | null
@@ -3666,46 +4226,83 @@ export type Database = {
         Row: {
           average_humidity: number | null
           climate_zone: string | null
+          coast_distance_km: number | null
+          cooling_degree_days: number | null
+          county_fips: string | null
+          data_source: string | null
+          dataset_version: string | null
           flood_zone: string | null
+          heating_degree_days: number | null
           historical_weather_events: Json | null
+          home_id: string | null
           hurricane_risk_level: string | null
           id: string
+          iecc_zone: string | null
           microclimate_factors: Json | null
           prevailing_wind_direction: string | null
           property_id: string | null
+          resolution: string | null
           salt_air_exposure: boolean | null
           soil_type: string | null
           updated_at: string | null
+          zip_code: string | null
         }
         Insert: {
           average_humidity?: number | null
           climate_zone?: string | null
+          coast_distance_km?: number | null
+          cooling_degree_days?: number | null
+          county_fips?: string | null
+          data_source?: string | null
+          dataset_version?: string | null
           flood_zone?: string | null
+          heating_degree_days?: number | null
           historical_weather_events?: Json | null
+          home_id?: string | null
           hurricane_risk_level?: string | null
           id?: string
+          iecc_zone?: string | null
           microclimate_factors?: Json | null
           prevailing_wind_direction?: string | null
           property_id?: string | null
+          resolution?: string | null
           salt_air_exposure?: boolean | null
           soil_type?: string | null
           updated_at?: string | null
+          zip_code?: string | null
         }
         Update: {
           average_humidity?: number | null
           climate_zone?: string | null
+          coast_distance_km?: number | null
+          cooling_degree_days?: number | null
+          county_fips?: string | null
+          data_source?: string | null
+          dataset_version?: string | null
           flood_zone?: string | null
+          heating_degree_days?: number | null
           historical_weather_events?: Json | null
+          home_id?: string | null
           hurricane_risk_level?: string | null
           id?: string
+          iecc_zone?: string | null
           microclimate_factors?: Json | null
           prevailing_wind_direction?: string | null
           property_id?: string | null
+          resolution?: string | null
           salt_air_exposure?: boolean | null
           soil_type?: string | null
           updated_at?: string | null
+          zip_code?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "property_climate_data_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: true
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "property_climate_data_property_id_fkey"
             columns: ["property_id"]
@@ -3801,6 +4398,39 @@ export type Database = {
           },
         ]
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_used_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       renovation_items: {
         Row: {
           created_at: string
@@ -3851,6 +4481,99 @@ export type Database = {
           },
         ]
       }
+      replacement_scenarios: {
+        Row: {
+          created_at: string
+          home_id: string
+          id: string
+          name: string
+          planned_years: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          home_id: string
+          id?: string
+          name: string
+          planned_years?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          home_id?: string
+          id?: string
+          name?: string
+          planned_years?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "replacement_scenarios_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "replacement_scenarios_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "v_property_profile"
+            referencedColumns: ["property_id"]
+          },
+        ]
+      }
+      reserve_plans: {
+        Row: {
+          created_at: string
+          current_savings: number
+          escalation_rate: number
+          home_id: string
+          id: string
+          monthly_contribution: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          current_savings?: number
+          escalation_rate?: number
+          home_id: string
+          id?: string
+          monthly_contribution?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          current_savings?: number
+          escalation_rate?: number
+          home_id?: string
+          id?: string
+          monthly_contribution?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reserve_plans_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: true
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reserve_plans_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: true
+            referencedRelation: "v_property_profile"
+            referencedColumns: ["property_id"]
+          },
+        ]
+      }
       risk_contexts: {
         Row: {
           climate_zone: string
@@ -5099,6 +5822,14 @@ export type Database = {
       habitta_parse_date: { Args: { p_text: string }; Returns: string }
       habitta_recompute_system_metrics: { Args: never; Returns: undefined }
       habitta_update_system_priorities: { Args: never; Returns: undefined }
+      has_home_role: {
+        Args: {
+          _home_id: string
+          _roles: Database["public"]["Enums"]["home_member_role"][]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -5106,6 +5837,10 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_home_member: {
+        Args: { _home_id: string; _user_id: string }
+        Returns: boolean
+      }
       link_home_to_property: { Args: { p_home_id: string }; Returns: Json }
       normalize_address: { Args: { address: string }; Returns: string }
       process_permit_to_system_event: {
@@ -5131,6 +5866,24 @@ export type Database = {
           field: string
         }[]
       }
+      rpc_analytics_funnel: {
+        Args: { p_days?: number }
+        Returns: {
+          step: string
+          step_order: number
+          surface: string
+          users: number
+        }[]
+      }
+      rpc_analytics_surface_retention: {
+        Args: { p_weeks?: number }
+        Returns: {
+          cohort_users: number
+          retained_users: number
+          surface: string
+          week_offset: number
+        }[]
+      }
       rpc_confidence_calibration: {
         Args: never
         Returns: {
@@ -5178,6 +5931,7 @@ export type Database = {
         | "user_added"
         | "user_verified"
         | "permit_verified"
+      home_member_role: "owner" | "co_owner" | "viewer" | "service_pro"
       priority_level: "low" | "medium" | "high" | "critical"
       system_category:
         | "hvac"
@@ -5365,6 +6119,7 @@ export const Constants = {
         "user_verified",
         "permit_verified",
       ],
+      home_member_role: ["owner", "co_owner", "viewer", "service_pro"],
       priority_level: ["low", "medium", "high", "critical"],
       system_category: [
         "hvac",
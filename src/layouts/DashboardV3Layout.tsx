@@ -1,7 +1,6 @@
-import { ReactNode, useState, useEffect } from "react";
+import { ReactNode } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
-import { useAuth } from "@/contexts/AuthContext";
+import { useUserHome } from "@/contexts/UserHomeContext";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { TopHeader, LeftColumn } from "@/components/dashboard-v3";
 import BottomNavigation from "@/components/BottomNavigation";
@@ -18,20 +17,6 @@ interface DashboardV3LayoutProps {
   children: ReactNode;
 }
 
-interface UserHome {
-  id: string;
-  address: string;
-  city: string;
-  state: string;
-  zip_code: string;
-  year_built: number | null;
-  square_feet: number | null;
-  latitude: number | null;
-  longitude: number | null;
-  confidence: number | null;
-  status: string | null;
-}
-
 /**
  * DashboardV3Layout - Shared layout wrapper for V3-style pages
  * 
@@ -47,71 +32,14 @@ export function DashboardV3Layout({ children }: DashboardV3LayoutProps) {
 }
 
 function DashboardV3LayoutInner({ children }: DashboardV3LayoutProps) {
-  const { user } = useAuth();
   const navigate = useNavigate();
   const isMobile = useIsMobile();
   const { chatContext, isOpen, closeChat } = useChatContext();
   
-  const [userHome, setUserHome] = useState<UserHome>({
-    id: '',
-    address: '',
-    city: '',
-    state: '',
-    zip_code: '',
-    year_built: null,
-    square_feet: null,
-    latitude: null,
-    longitude: null,
-    confidence: null,
-    status: null,
-  });
-  const [loading, setLoading] = useState(true);
-
-  // Fetch user's home data
-  useEffect(() => {
-    if (!user) return;
-    
-    const fetchUserHome = async () => {
-      setLoading(true);
-      try {
-        const { data, error } = await supabase
-          .from('homes')
-          .select('*')
-          .eq('user_id', user.id)
-          .order('created_at', { ascending: true })
-          .limit(1);
-        
-        if (error) throw error;
-        
-        if (data && data.length > 0) {
-          const home = data[0];
-          setUserHome({
-            id: home.id,
-            address: home.address || '',
-            city: home.city || '',
-            state: home.state || '',
-            zip_code: home.zip_code || '',
-            year_built: home.year_built,
-            square_feet: home.square_feet,
-            latitude: home.latitude,
-            longitude: home.longitude,
-            confidence: home.confidence,
-            status: home.status,
-          });
-        }
-      } catch (error) {
-        console.error('Error fetching user home:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    fetchUserHome();
-  }, [user]);
-
-  const fullAddress = userHome.address 
-    ? `${userHome.address}, ${userHome.city}, ${userHome.state} ${userHome.zip_code}`
-    : '';
+  // Selected home from shared context — follows the header home switcher
+  const { userHome, loading, fullAddress: selectedAddress } = useUserHome();
+  const fullAddress = selectedAddress ?? '';
+  const homeId = userHome?.id;
 
   const handleAddressClick = () => {
     navigate('/home-profile');
@@ -119,18 +47,18 @@ function DashboardV3LayoutInner({ children }: DashboardV3LayoutProps) {
 
   // Derive health status for header (simplified version)
   const getHealthStatus = (): 'healthy' | 'attention' | 'critical' => {
-    const confidence = userHome.confidence ?? 50;
+    const confidence = userHome?.confidence ?? 50;
     if (confidence >= 70) return 'healthy';
     if (confidence >= 40) return 'attention';
     return 'critical';
   };
 
   // Capital timeline + confidence for RecordBar in chat panel
-  const { timeline: capitalTimeline } = useCapitalTimeline({ homeId: userHome.id || undefined, enabled: !!userHome.id });
+  const { timeline: capitalTimeline } = useCapitalTimeline({ homeId, enabled: !!homeId });
   const { confidence: homeConfidence } = useHomeConfidence(
-    userHome.id || undefined,
+    homeId,
     capitalTimeline?.systems || [],
-    userHome.year_built
+    userHome?.year_built
   );
   const strengthScore = homeConfidence?.score;
   const strengthLevel = strengthScore != null ? getStrengthLevel(strengthScore) : undefined;
@@ -162,10 +90,10 @@ function DashboardV3LayoutInner({ children }: DashboardV3LayoutProps) {
           <MobileChatSheet
             open={isOpen}
             onClose={closeChat}
-            propertyId={userHome.id}
+            propertyId={homeId ?? ''}
             baselineSystems={[]}
             confidenceLevel="Moderate"
-            yearBuilt={userHome.year_built ?? undefined}
+            yearBuilt={userHome?.year_built ?? undefined}
             focusContext={chatContext.systemKey ? { systemKey: chatContext.systemKey, trigger: chatContext.trigger || '' } : undefined}
             initialAssistantMessage={getContextualAssistantMessage(chatContext)}
             autoSendMessage={chatContext.autoSendMessage}
@@ -200,8 +128,8 @@ function DashboardV3LayoutInner({ children }: DashboardV3LayoutProps) {
         
         {/* Desktop contextual chat panel - inline sibling */}
         <ContextualChatPanel 
-          propertyId={userHome.id}
-          yearBuilt={userHome.year_built ?? undefined}
+          propertyId={homeId ?? ''}
+          yearBuilt={userHome?.year_built ?? undefined}
           strengthScore={strengthScore ?? 0}
           strengthLevel={strengthLevel ?? 'limited'}
           nextGain={homeConfidence?.nextGain}
@@ -11,8 +11,10 @@
 import type { NarrativePriority } from './narrativePriority';
 import type { AdvisorState } from '@/types/advisorState';
 
+import { track } from './analytics/index';
+
 // Re-export new analytics module
-export { track, trackWithContext, getSessionId } from './analytics/index';
+export { track, trackWithContext, getSessionId, FUNNEL_EVENTS } from './analytics/index';
 export type { HabittaEvent, EventContext, AnalyticsSurface } from './analytics/types';
 
 export type AnalyticsEvent =
@@ -31,21 +33,12 @@ export type AnalyticsEvent =
 /**
  * Track an analytics event
  * 
- * V1: Console logging for development visibility
- * Future: Fire-and-forget to Supabase analytics_events table
+ * Routed through the core dispatcher, so legacy events land in
+ * analytics_events alongside HabittaEvents.
  */
 export function trackEvent(event: AnalyticsEvent): void {
-  // V1: Console logging (dev visibility)
-  if (import.meta.env.DEV) {
-    console.log('[Habitta Analytics]', event.type, event);
-  }
-  
-  // V2: Fire-and-forget to Supabase (future implementation)
-  // supabase.from('analytics_events').insert({
-  //   event_type: event.type,
-  //   payload: event,
-  //   created_at: new Date().toISOString()
-  // });
+  const { type, ...properties } = event;
+  track(type, properties);
 }
 
 /**
@@ -0,0 +1,23 @@
+/**
+ * Activation Funnel Events
+ * 
+ * Onboarding → first system confirmed → first planning session.
+ * Names are matched by rpc_analytics_funnel — rename both together.
+ */
+
+export const FUNNEL_EVENTS = {
+  ONBOARDING_COMPLETED: 'onboarding_completed',
+  SYSTEM_CONFIRMED: 'system_confirmed',
+  PLANNING_SESSION_STARTED: 'planning_session_started',
+} as const;
+
+export type FunnelEventName = typeof FUNNEL_EVENTS[keyof typeof FUNNEL_EVENTS];
+
+/**
+ * Display order and labels for the admin funnel
+ */
+export const FUNNEL_STEPS: Array<{ event: FunnelEventName; label: string }> = [
+  { event: FUNNEL_EVENTS.ONBOARDING_COMPLETED, label: 'Onboarding completed' },
+  { event: FUNNEL_EVENTS.SYSTEM_CONFIRMED, label: 'First system confirmed' },
+  { event: FUNNEL_EVENTS.PLANNING_SESSION_STARTED, label: 'First planning session' },
+];
@@ -11,11 +11,14 @@
  */
 
 import { getSessionId } from './session';
+import { persistEvent } from './persist';
 import type { HabittaEvent, EventContext, AnalyticsSurface } from './types';
 
 // Re-export types
 export type { HabittaEvent, EventContext, AnalyticsSurface } from './types';
 export { getSessionId, clearSession } from './session';
+export { flushEvents } from './persist';
+export { FUNNEL_EVENTS } from './funnelEvents';
 
 /**
  * Track an analytics event
@@ -45,8 +48,8 @@ export function track(
     console.debug('[Habitta Event]', event);
   }
 
-  // Phase 2+: Supabase persistence (disabled)
-  // persistEvent(event);
+  // Phase 2: Batched Supabase persistence (fire-and-forget)
+  persistEvent(event);
 }
 
 /**
@@ -79,6 +82,6 @@ export function trackWithContext(
     console.debug('[Habitta Event]', event);
   }
 
-  // Phase 2+: Supabase persistence (disabled)
-  // persistEvent(event);
+  // Phase 2: Batched Supabase persistence (fire-and-forget)
+  persistEvent(event);
 }
@@ -5,6 +5,9 @@
  * Success ≠ clicks. Success = reduced confusion + increased planning confidence.
  */
 
+import { track } from './index';
+import type { AnalyticsSurface } from './types';
+
 export const MOBILE_EVENTS = {
   // Core funnel
   PRIMARY_FOCUS_IMPRESSION: 'mobile_primary_focus_impression',
@@ -29,6 +32,20 @@ export const MOBILE_EVENTS = {
 
 export type MobileEventName = typeof MOBILE_EVENTS[keyof typeof MOBILE_EVENTS];
 
+/**
+ * Surface each mobile event fires from (defaults to dashboard)
+ */
+const MOBILE_EVENT_SURFACES: Partial<Record<MobileEventName, AnalyticsSurface>> = {
+  [MOBILE_EVENTS.COST_SECTION_SCROLL]: 'system_detail',
+  [MOBILE_EVENTS.WHAT_IF_WAIT_CLICK]: 'system_detail',
+  [MOBILE_EVENTS.PLAN_EXIT_NO_ACTION]: 'system_detail',
+  [MOBILE_EVENTS.START_PLANNING_CLICKED]: 'system_detail',
+  [MOBILE_EVENTS.MAINTENANCE_RECORD_ADDED]: 'system_detail',
+  [MOBILE_EVENTS.INTEL_CARD_VIEWED]: 'system_detail',
+  [MOBILE_EVENTS.CHAT_PROMPT_TAPPED]: 'system_detail',
+  [MOBILE_EVENTS.CHAT_QUICK_REPLY_USED]: 'chat',
+};
+
 /**
  * Session storage key for tracking primary focus changes
  */
@@ -52,19 +69,15 @@ export function checkPrimaryFocusChanged(currentSystemKey: string): boolean {
 }
 
 /**
- * Simple analytics tracking function
- * Can be replaced with actual analytics provider
+ * Track a mobile event through the core dispatcher (persisted like any HabittaEvent)
  */
 export function trackMobileEvent(
   event: MobileEventName,
-  properties?: Record<string, unknown>
+  properties: Record<string, unknown> = {}
 ): void {
-  // Log in development
-  if (process.env.NODE_ENV === 'development') {
-    console.log('[Mobile Analytics]', event, properties);
-  }
-  
-  // TODO: Connect to analytics provider (Amplitude, Mixpanel, etc.)
-  // Example:
-  // analytics.track(event, properties);
+  const systemSlug = typeof properties.systemKey === 'string' ? properties.systemKey : undefined;
+  track(event, properties, {
+    surface: MOBILE_EVENT_SURFACES[event] ?? 'dashboard',
+    system_slug: systemSlug,
+  });
 }
@@ -1,25 +1,266 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import type { HabittaEvent } from './types';
 
 /**
- * Event Persistence Stub
- * 
- * Intentionally disabled in Phase 1.
- * This prevents "just wiring it in early."
- * 
- * V2: Fire-and-forget to Supabase
+ * Event Persistence — Batched, offline-tolerant writes to analytics_events
+ *
+ * Rules:
+ * - Fire-and-forget: callers never await the network
+ * - Queue is mirrored to localStorage, so offline or closed tabs lose nothing
+ * - Rows carry a client-generated id; retried batches are idempotent
+ * - The user is captured when an event is queued, so a sign-out or account
+ *   switch before the flush never re-attributes it; events queued before
+ *   the session is known are marked and wait for it, across reloads too
+ * - A batch only carries the signed-in user's events (and anonymous ones):
+ *   RLS refuses anyone else's, so another user's events stay queued until
+ *   that user signs in again
+ * - Transient failures back off exponentially; rejected batches are dropped
+ * - On page hide, the queue is flushed with a keepalive request
  */
-export async function persistEvent(_event: HabittaEvent): Promise<void> {
-  // Disabled in Phase 1
-  // 
-  // V2 Implementation:
-  // import { supabase } from '@/integrations/supabase/client';
-  // 
-  // supabase.from('analytics_events').insert({
-  //   event_name: event.event_name,
-  //   user_id: event.user_id,
-  //   home_id: event.home_id,
-  //   context: event.context,
-  //   properties: event.properties,
-  //   created_at: event.timestamp
-  // }).then(() => {}).catch(() => {});
+
+interface QueuedEvent {
+  id: string;
+  event: HabittaEvent;
+  /** Signed-in user when the event was queued */
+  userId?: string | null;
+  /** Queued before the initial session resolved; stamped with its user then */
+  awaitingUser?: boolean;
+}
+
+const QUEUE_STORAGE_KEY = 'habitta_analytics_queue';
+const BATCH_SIZE = 25;
+const MAX_QUEUE_SIZE = 500;
+const FLUSH_DELAY_MS = 5_000;
+const BASE_RETRY_MS = 2_000;
+const MAX_RETRY_MS = 5 * 60_000;
+
+let queue: QueuedEvent[] | null = null;
+let flushTimer: number | null = null;
+let inFlight = false;
+let retryAttempt = 0;
+let installed = false;
+
+// Cached from auth state so page-hide flushes can run synchronously
+let accessToken: string | null = null;
+let currentUserId: string | null = null;
+// Until the initial session resolves, queued events wait for their user
+let authResolved = false;
+
+// ============== Queue Storage ==============
+
+function loadQueue(): QueuedEvent[] {
+  if (queue) return queue;
+  try {
+    const raw = localStorage.getItem(QUEUE_STORAGE_KEY);
+    queue = raw ? JSON.parse(raw) : [];
+  } catch {
+    queue = [];
+  }
+  return queue!;
+}
+
+function saveQueue(): void {
+  try {
+    localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue ?? []));
+  } catch {
+    // Storage full or unavailable — queue stays in memory only
+  }
+}
+
+function rowUserId({ event, userId }: QueuedEvent): string | null {
+  return event.user_id ?? userId ?? null;
+}
+
+/** Events the current session may write: its own and anonymous ones */
+function sendableEvents(pending: QueuedEvent[]): QueuedEvent[] {
+  return pending.filter(queued => {
+    if (queued.awaitingUser) return false;
+    const userId = rowUserId(queued);
+    return userId === null || userId === currentUserId;
+  });
+}
+
+function toRow(queued: QueuedEvent) {
+  const { id, event } = queued;
+  return {
+    id,
+    event_name: event.event_name,
+    user_id: rowUserId(queued),
+    home_id: event.home_id ?? null,
+    session_id: event.context.session_id,
+    surface: event.context.surface,
+    system_slug: event.context.system_slug ?? null,
+    properties: event.properties as Json,
+    occurred_at: event.timestamp,
+  };
+}
+
+// ============== Scheduling ==============
+
+function scheduleFlush(delayMs: number): void {
+  if (flushTimer !== null) return;
+  flushTimer = window.setTimeout(() => {
+    flushTimer = null;
+    void flushEvents();
+  }, delayMs);
+}
+
+function retryDelay(): number {
+  return Math.min(MAX_RETRY_MS, BASE_RETRY_MS * Math.pow(2, retryAttempt));
+}
+
+/**
+ * 4xx other than an expired token / timeout / rate limit means the batch
+ * will never succeed. Batches only hold the session's own events, so a 401
+ * is the token, not the rows
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 0 || status === 401 || status === 408 || status === 429 || status >= 500;
+}
+
+// ============== Flush ==============
+
+/**
+ * Send the oldest batch of the current user's events. Reschedules itself
+ * while such events remain.
+ */
+export async function flushEvents(): Promise<void> {
+  // resolveAwaitingUser reschedules once events have their user
+  if (inFlight || !authResolved) return;
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+  const batch = sendableEvents(loadQueue()).slice(0, BATCH_SIZE);
+  if (batch.length === 0) return;
+  inFlight = true;
+
+  try {
+    const { error, status } = await supabase
+      .from('analytics_events')
+      .upsert(batch.map(toRow), { onConflict: 'id', ignoreDuplicates: true });
+
+    if (error && isRetryableStatus(status)) {
+      retryAttempt += 1;
+      scheduleFlush(retryDelay());
+      return;
+    }
+
+    if (error && import.meta.env.DEV) {
+      console.warn('[Habitta Analytics] Dropping rejected batch:', error.message);
+    }
+
+    const sent = new Set(batch.map(b => b.id));
+    queue = loadQueue().filter(q => !sent.has(q.id));
+    saveQueue();
+    retryAttempt = 0;
+
+    if (sendableEvents(queue).length > 0) scheduleFlush(0);
+  } catch {
+    // Network failure — keep the batch and back off
+    retryAttempt += 1;
+    scheduleFlush(retryDelay());
+  } finally {
+    inFlight = false;
+  }
+}
+
+/**
+ * Last-chance flush while the page is going away.
+ * keepalive lets the request outlive the page; rows stay queued until a
+ * confirmed flush, and the id conflict target absorbs any duplicate.
+ */
+function flushOnPageHide(): void {
+  saveQueue();
+  const batch = sendableEvents(loadQueue()).slice(0, BATCH_SIZE);
+  if (batch.length === 0) return;
+
+  const url = import.meta.env.VITE_SUPABASE_URL;
+  const apiKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+  if (!url || !apiKey) return;
+
+  try {
+    void fetch(`${url}/rest/v1/analytics_events?on_conflict=id`, {
+      method: 'POST',
+      keepalive: true,
+      headers: {
+        'Content-Type': 'application/json',
+        apikey: apiKey,
+        Authorization: `Bearer ${accessToken ?? apiKey}`,
+        Prefer: 'resolution=ignore-duplicates,return=minimal',
+      },
+      body: JSON.stringify(batch.map(toRow)),
+    }).catch(() => {});
+  } catch {
+    // Best effort only
+  }
+}
+
+// ============== Attribution ==============
+
+/**
+ * Stamp events queued before the initial session was known, including
+ * ones a previous page load never got to stamp
+ */
+function resolveAwaitingUser(): void {
+  authResolved = true;
+  const pending = loadQueue();
+  const awaiting = pending.filter(queued => queued.awaitingUser);
+  for (const queued of awaiting) {
+    queued.userId = currentUserId;
+    delete queued.awaitingUser;
+  }
+  if (awaiting.length > 0) saveQueue();
+  if (sendableEvents(pending).length > 0) scheduleFlush(FLUSH_DELAY_MS);
+}
+
+// ============== Install ==============
+
+function install(): void {
+  if (installed || typeof window === 'undefined') return;
+  installed = true;
+
+  // Leftovers from a previous page load drain once the session resolves
+  supabase.auth.getSession().then(({ data }) => {
+    accessToken = data.session?.access_token ?? null;
+    currentUserId = data.session?.user.id ?? null;
+    resolveAwaitingUser();
+  });
+  supabase.auth.onAuthStateChange((_event, session) => {
+    const previousUserId = currentUserId;
+    accessToken = session?.access_token ?? null;
+    currentUserId = session?.user.id ?? null;
+    if (!authResolved) {
+      resolveAwaitingUser();
+    } else if (currentUserId !== previousUserId && sendableEvents(loadQueue()).length > 0) {
+      // A returning user's events were waiting for their session
+      scheduleFlush(FLUSH_DELAY_MS);
+    }
+  });
+
+  window.addEventListener('online', () => void flushEvents());
+  window.addEventListener('pagehide', flushOnPageHide);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushOnPageHide();
+  });
+}
+
+/**
+ * Queue an event for persistence. Never throws, never awaits the network.
+ */
+export function persistEvent(event: HabittaEvent): void {
+  install();
+
+  const pending = loadQueue();
+  const id = crypto.randomUUID();
+  pending.push(authResolved ? { id, event, userId: currentUserId } : { id, event, awaitingUser: true });
+  if (pending.length > MAX_QUEUE_SIZE) {
+    pending.splice(0, pending.length - MAX_QUEUE_SIZE);
+  }
+  saveQueue();
+
+  if (pending.length >= BATCH_SIZE) {
+    void flushEvents();
+  } else {
+    scheduleFlush(FLUSH_DELAY_MS);
+  }
 }
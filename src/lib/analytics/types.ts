@@ -17,6 +17,7 @@ export interface HabittaEvent {
 export interface EventContext {
   surface:
     | 'dashboard'
+    | 'onboarding'
     | 'systems'
     | 'system_detail'
     | 'chat'
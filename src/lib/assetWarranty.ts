@@ -0,0 +1,173 @@
+/**
+ * Asset Warranty
+ *
+ * Browser access to the shared warranty model (same module maintenance-alerts
+ * uses) plus the asset_warranties reads/writes the UI needs.
+ *
+ * Rules:
+ * - One warranty per home_assets row; missing rows are seeded from brand
+ *   defaults the first time the asset is looked at, and unconfirmed
+ *   estimates are re-derived when the asset's install date or brand changes
+ * - Rows stay owned by the asset's owner, whoever in the home saves them
+ * - Owner confirmation flips source to 'owner' and stamps confirmed_at
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { CANONICAL_SYSTEMS } from '@/lib/systemUpdates';
+import {
+  buildDefaultWarranty,
+  rederiveDefaultWarranty,
+  warrantyFromRow,
+  warrantyToRow,
+  type AssetWarranty,
+  type AssetWarrantyRow,
+} from '../../supabase/functions/_shared/assetWarranty.ts';
+
+export {
+  applyRegistration,
+  buildDefaultWarranty,
+  getWarrantyAlerts,
+  isWarrantyActive,
+  withExpiries,
+} from '../../supabase/functions/_shared/assetWarranty.ts';
+export type {
+  AssetWarranty,
+  WarrantyAlert,
+  WarrantyAlertKind,
+  WarrantySource,
+} from '../../supabase/functions/_shared/assetWarranty.ts';
+
+const WARRANTY_COLUMNS =
+  'asset_id, parts_years, labor_years, coverage_start, parts_expires_on, labor_expires_on, transferable, registered_parts_years, registration_deadline, registered, source, confirmed_at';
+
+export interface WarrantyAsset {
+  id: string;
+  kind: string;
+  manufacturer: string | null;
+  install_date: string | null;
+}
+
+export interface HomeWarranty {
+  assetId: string;
+  kind: string;
+  manufacturer: string | null;
+  warranty: AssetWarranty;
+}
+
+/**
+ * Most recent active asset of a kind for a home
+ */
+export async function findActiveAsset(homeId: string, kind: string): Promise<WarrantyAsset | null> {
+  const { data } = await supabase
+    .from('home_assets')
+    .select('id, kind, manufacturer, install_date')
+    .eq('home_id', homeId)
+    .eq('kind', kind)
+    .eq('status', 'active')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data ?? null;
+}
+
+/**
+ * Create the asset a warranty hangs off when the owner confirms terms for
+ * a system Habitta only knew about from the timeline
+ */
+export async function createAssetForWarranty(
+  homeId: string,
+  ref: { kind: string; manufacturer?: string | null; installDate?: string | null }
+): Promise<WarrantyAsset> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data, error } = await supabase
+    .from('home_assets')
+    .insert({
+      home_id: homeId,
+      user_id: user.id,
+      category: (CANONICAL_SYSTEMS as readonly string[]).includes(ref.kind) ? 'system' : 'appliance',
+      kind: ref.kind,
+      manufacturer: ref.manufacturer ?? null,
+      install_date: ref.installDate ?? null,
+      source: 'manual',
+    })
+    .select('id, kind, manufacturer, install_date')
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Stored warranty for an asset, seeding it from brand defaults when missing
+ * and re-deriving an unconfirmed estimate whose inputs changed
+ */
+export async function getOrSeedWarranty(
+  homeId: string,
+  asset: WarrantyAsset
+): Promise<AssetWarranty> {
+  const { data: existing } = await supabase
+    .from('asset_warranties')
+    .select(WARRANTY_COLUMNS)
+    .eq('asset_id', asset.id)
+    .maybeSingle();
+
+  const ref = { kind: asset.kind, manufacturer: asset.manufacturer, installDate: asset.install_date };
+  if (existing) {
+    const stored = warrantyFromRow(existing as AssetWarrantyRow);
+    const refreshed = rederiveDefaultWarranty(stored, ref);
+    if (!refreshed) return stored;
+    await saveWarranty(homeId, asset.id, refreshed);
+    return refreshed;
+  }
+
+  const seeded = buildDefaultWarranty(ref);
+  await saveWarranty(homeId, asset.id, seeded);
+  return seeded;
+}
+
+export async function saveWarranty(homeId: string, assetId: string, warranty: AssetWarranty): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  // A co-owner saving keeps the row with the asset's owner
+  const { data: asset } = await supabase
+    .from('home_assets')
+    .select('user_id')
+    .eq('id', assetId)
+    .maybeSingle();
+
+  const { error } = await supabase
+    .from('asset_warranties')
+    .upsert({
+      asset_id: assetId,
+      home_id: homeId,
+      user_id: asset?.user_id ?? user.id,
+      ...warrantyToRow(warranty),
+    }, { onConflict: 'asset_id' });
+  if (error) throw error;
+}
+
+/**
+ * All stored warranties for a home (home report)
+ */
+export async function loadHomeWarranties(homeId: string): Promise<HomeWarranty[]> {
+  const { data, error } = await supabase
+    .from('asset_warranties')
+    .select(`${WARRANTY_COLUMNS}, home_assets!inner(kind, manufacturer, install_date, status)`)
+    .eq('home_id', homeId)
+    .eq('home_assets.status', 'active');
+  if (error) throw error;
+
+  return (data ?? []).map((row) => {
+    const stored = warrantyFromRow(row as AssetWarrantyRow);
+    const { kind, manufacturer, install_date: installDate } = row.home_assets;
+    return {
+      assetId: row.asset_id,
+      kind,
+      manufacturer,
+      // Read-only here; the asset's own warranty view writes the refresh
+      warranty: rederiveDefaultWarranty(stored, { kind, manufacturer, installDate }) ?? stored,
+    };
+  });
+}
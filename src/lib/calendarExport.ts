@@ -0,0 +1,74 @@
+/**
+ * Calendar Export - .ics downloads and the home's calendar subscription
+ *
+ * Events come from the shared iCalendar module, so a downloaded task and
+ * the same task in the subscribed feed share a UID and calendars treat
+ * them as one entry. Feed tokens are issued by the calendar-feed function.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  buildCalendar,
+  icsFilename,
+  taskEvent,
+  type CalendarTaskRow,
+} from '../../supabase/functions/_shared/icalendar.ts';
+
+export type { CalendarEvent, CalendarTaskRow } from '../../supabase/functions/_shared/icalendar.ts';
+
+export interface CalendarFeed {
+  /** https URL for Google Calendar's "From URL" */
+  url: string;
+  /** webcal URL that opens the subscribe prompt in Apple Calendar / Outlook */
+  webcalUrl: string;
+  createdAt: string;
+}
+
+/**
+ * Save one task as an .ics file; returns false for closed tasks, which
+ * have nothing to schedule
+ */
+export function downloadTaskIcs(task: CalendarTaskRow): boolean {
+  const event = taskEvent(task, window.location.origin);
+  if (!event) return false;
+
+  const ics = buildCalendar([event], { name: 'Habitta' });
+  const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = icsFilename(task.title);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+  return true;
+}
+
+async function invokeCalendarFeed<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('calendar-feed', { body });
+  if (error) {
+    const context = (error as { context?: Response }).context;
+    const detail = context ? await context.json().catch(() => null) : null;
+    throw new Error(detail?.error ?? error.message);
+  }
+  return data as T;
+}
+
+export function loadCalendarFeed(homeId: string): Promise<CalendarFeed> {
+  return invokeCalendarFeed({ action: 'get', homeId });
+}
+
+export function rotateCalendarFeed(homeId: string): Promise<CalendarFeed> {
+  return invokeCalendarFeed({ action: 'rotate', homeId });
+}
+
+export function revokeCalendarFeed(homeId: string): Promise<{ success: boolean }> {
+  return invokeCalendarFeed({ action: 'revoke', homeId });
+}
+
+/**
+ * Google Calendar's add-by-URL page, pre-filled with the feed
+ */
+export function googleCalendarSubscribeUrl(feed: CalendarFeed): string {
+  return `https://calendar.google.com/calendar/render?cid=${encodeURIComponent(feed.webcalUrl)}`;
+}
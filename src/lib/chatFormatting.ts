@@ -1178,6 +1178,73 @@ export function extractAndSanitize(content: string): NormalizedContent {
   return { cleanText, structuredData };
 }
 
+// ============================================
+// Streaming (partial content)
+// ============================================
+
+/**
+ * Index where an unterminated JSON object starts, or -1.
+ * String-aware so braces inside quoted values don't count.
+ */
+function findUnclosedJsonStart(text: string): number {
+  const openIndexes: number[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"' && openIndexes.length > 0) {
+      inString = true;
+    } else if (ch === '{') {
+      openIndexes.push(i);
+    } else if (ch === '}') {
+      openIndexes.pop();
+    }
+  }
+
+  return openIndexes.length > 0 ? openIndexes[0] : -1;
+}
+
+/**
+ * Prepare partially streamed content for extractAndSanitize().
+ *
+ * The firewall and extractors only recognize COMPLETE blocks, so a half-streamed
+ * JSON object, code fence or artifact tag would flash as raw text. Everything
+ * from the start of an unfinished block is held back until it closes; the
+ * final message is always normalized from the full content.
+ */
+export function prepareStreamingContent(partial: string): string {
+  const cuts: number[] = [];
+
+  const jsonStart = findUnclosedJsonStart(partial);
+  if (jsonStart !== -1) cuts.push(jsonStart);
+
+  const fences = [...partial.matchAll(/```/g)];
+  if (fences.length % 2 === 1) cuts.push(fences[fences.length - 1].index!);
+
+  // Tag still being written: "<contractor_recomm"
+  const partialTag = partial.match(/<\/?(?:[a-z_]+(?:\s[^<>\n]*)?)?$/i);
+  if (partialTag) cuts.push(partialTag.index!);
+
+  // Opened pseudo-XML block whose closing tag hasn't arrived
+  for (const open of partial.matchAll(/<([a-z_]+)[^>]*(?<!\/)>/gi)) {
+    if (!partial.includes(`</${open[1]}>`, open.index! + open[0].length)) {
+      cuts.push(open.index!);
+      break;
+    }
+  }
+
+  // Bracket-style call still being written: "[cost_range(low=..."
+  const partialBracket = partial.match(/\[[a-z_]+(?:\([^\]]*)?$/i);
+  if (partialBracket) cuts.push(partialBracket.index!);
+
+  return cuts.length > 0 ? partial.slice(0, Math.min(...cuts)) : partial;
+}
+
 // ============================================
 // Text Normalization
 // ============================================
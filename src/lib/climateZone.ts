@@ -2,12 +2,20 @@
  * Climate Zone Derivation Utility
  * 
  * Extracted from PropertyMap for reuse across Home Profile and other surfaces.
- * V1: Heuristic-based (will be replaced with proper climate data API).
+ * Zone comes from the shared climate resolver (ZIP/FIPS dataset), the same
+ * lookup capital-timeline uses, so dashboard labels and lifecycle math agree.
  */
 
 import { Thermometer, Droplet, Snowflake, Sun } from 'lucide-react';
+import {
+  resolveClimateProfile,
+  resolveHomeClimate,
+  type ClimateProfile,
+  type ClimateZoneType,
+  type HomeClimateFields,
+} from '../../supabase/functions/_shared/climateResolver.ts';
 
-export type ClimateZoneType = 'high_heat' | 'coastal' | 'freeze_thaw' | 'moderate';
+export type { ClimateZoneType, ClimateProfile, HomeClimateFields };
 
 export interface ClimateZone {
   zone: ClimateZoneType;
@@ -15,98 +23,67 @@ export interface ClimateZone {
   impact: string;
   icon: React.ElementType;
   gradient: string;
+  /** Measured climate behind the zone */
+  profile: ClimateProfile;
 }
 
+const ZONE_DISPLAY: Record<ClimateZoneType, Omit<ClimateZone, 'zone' | 'profile'>> = {
+  high_heat: {
+    label: 'High heat & humidity zone',
+    impact: 'Impacts HVAC, roof, and water heater lifespan',
+    icon: Thermometer,
+    gradient: 'from-orange-100/60 to-amber-100/40',
+  },
+  coastal: {
+    label: 'Salt air exposure zone',
+    impact: 'Accelerates exterior and HVAC wear',
+    icon: Droplet,
+    gradient: 'from-cyan-100/60 to-blue-100/40',
+  },
+  freeze_thaw: {
+    label: 'Freeze-thaw zone',
+    impact: 'Impacts plumbing, foundation, and exterior',
+    icon: Snowflake,
+    gradient: 'from-blue-100/60 to-slate-100/40',
+  },
+  moderate: {
+    label: 'Moderate climate zone',
+    impact: 'Standard wear patterns expected',
+    icon: Sun,
+    gradient: 'from-green-100/40 to-emerald-100/30',
+  },
+};
+
 /**
  * Derive climate zone based on location
  * 
- * Uses city/state name heuristics and latitude.
+ * Resolves FIPS → ZIP → state, falling back to latitude.
+ * City is accepted for existing call sites but no longer consulted.
  * Returns zone with label, impact description, and styling.
  */
 export function deriveClimateZone(
   state?: string,
   city?: string,
-  lat?: number | null
+  lat?: number | null,
+  zipCode?: string | null,
+  fipsCode?: string | null
 ): ClimateZone {
-  const location = `${city || ''} ${state || ''}`.toLowerCase();
-
-  // South Florida / low latitude - high heat & humidity
-  if (
-    location.includes('miami') ||
-    location.includes('fort lauderdale') ||
-    location.includes('west palm') ||
-    location.includes('tampa') ||
-    location.includes('orlando') ||
-    location.includes('phoenix') ||
-    location.includes('tucson') ||
-    location.includes('las vegas') ||
-    location.includes('houston') ||
-    location.includes('san antonio') ||
-    state?.toLowerCase() === 'florida' ||
-    state?.toLowerCase() === 'az' ||
-    state?.toLowerCase() === 'arizona' ||
-    (lat && lat < 28)
-  ) {
-    return {
-      zone: 'high_heat',
-      label: 'High heat & humidity zone',
-      impact: 'Impacts HVAC, roof, and water heater lifespan',
-      icon: Thermometer,
-      gradient: 'from-orange-100/60 to-amber-100/40',
-    };
-  }
-
-  // Coastal areas
-  if (
-    location.includes('beach') ||
-    location.includes('coast') ||
-    location.includes('key ') ||
-    location.includes('island') ||
-    location.includes('santa monica') ||
-    location.includes('san diego') ||
-    location.includes('malibu')
-  ) {
-    return {
-      zone: 'coastal',
-      label: 'Salt air exposure zone',
-      impact: 'Accelerates exterior and HVAC wear',
-      icon: Droplet,
-      gradient: 'from-cyan-100/60 to-blue-100/40',
-    };
-  }
+  return toClimateZone(resolveClimateProfile({ state, zipCode, fipsCode, latitude: lat }));
+}
 
-  // Northern / freeze-thaw areas
-  if (
-    location.includes('boston') ||
-    location.includes('chicago') ||
-    location.includes('minneapolis') ||
-    location.includes('denver') ||
-    location.includes('detroit') ||
-    location.includes('milwaukee') ||
-    location.includes('buffalo') ||
-    location.includes('cleveland') ||
-    location.includes('pittsburgh') ||
-    ['mn', 'wi', 'mi', 'nd', 'sd', 'mt', 'wy', 'vt', 'nh', 'me', 'minnesota', 'wisconsin', 'michigan'].includes(
-      state?.toLowerCase() || ''
-    ) ||
-    (lat && lat > 42)
-  ) {
-    return {
-      zone: 'freeze_thaw',
-      label: 'Freeze-thaw zone',
-      impact: 'Impacts plumbing, foundation, and exterior',
-      icon: Snowflake,
-      gradient: 'from-blue-100/60 to-slate-100/40',
-    };
-  }
+/**
+ * Climate zone for a homes row — the same resolution seed-maintenance-plan
+ * and capital-timeline run server-side. Prefer this when the row is at hand.
+ */
+export function deriveHomeClimateZone(home: HomeClimateFields): ClimateZone {
+  return toClimateZone(resolveHomeClimate(home));
+}
 
-  // Default: moderate
+function toClimateZone(profile: ClimateProfile): ClimateZone {
   return {
-    zone: 'moderate',
-    label: 'Moderate climate zone',
-    impact: 'Standard wear patterns expected',
-    icon: Sun,
-    gradient: 'from-green-100/40 to-emerald-100/30',
+    zone: profile.zone,
+    ...ZONE_DISPLAY[profile.zone],
+    profile,
   };
 }
 
@@ -0,0 +1,192 @@
+/**
+ * Document Ingestion
+ *
+ * End-to-end pipeline for supporting records (receipts, invoices,
+ * warranties, inspection reports):
+ *
+ * 1. Upload the file to the private 'documents' bucket ({userId}/{homeId}/...)
+ * 2. Insert the `documents` row (status 'pending')
+ * 3. process-document edge function: OCR → classify → extract fields
+ * 4. Feed equipment facts through applySystemUpdate() as 'document_extraction'
+ *
+ * Rules:
+ * - Only single-system paperwork (receipt, invoice, warranty) updates systems.
+ *   Inspection reports and manuals are stored and extracted, never applied
+ * - Extraction failure is not an upload failure: the record is kept and the
+ *   caller can retry with processDocument()
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { applySystemUpdate, type ApplySystemUpdateInput, type SystemUpdateResult } from '@/lib/systemUpdates';
+import type {
+  DocumentExtraction,
+  DocumentType,
+  ExtractedField,
+} from '../../supabase/functions/_shared/documentExtraction.ts';
+
+export type { DocumentExtraction, DocumentType, WarrantyTerms } from '../../supabase/functions/_shared/documentExtraction.ts';
+
+export const DOCUMENTS_BUCKET = 'documents';
+
+export type DocumentExtractionStatus = 'pending' | 'processing' | 'extracted' | 'failed';
+
+/** Document types whose facts describe one installed system */
+const SYSTEM_EVIDENCE_TYPES: DocumentType[] = ['receipt', 'invoice', 'warranty'];
+
+/** Extraction fields that count toward the update's reliability */
+const EQUIPMENT_FIELDS: ExtractedField[] = ['brand', 'model', 'serial', 'installDate'];
+
+export interface IngestDocumentInput {
+  file: File;
+  homeId: string;
+  /** Owner-declared type; 'other' lets extraction decide */
+  declaredType?: DocumentType;
+}
+
+export interface IngestDocumentResult {
+  documentId: string;
+  documentType: DocumentType;
+  extraction: DocumentExtraction | null;
+  systemUpdate: SystemUpdateResult | null;
+  error?: string;
+}
+
+/**
+ * Map an extraction to a system update, or null when the document
+ * doesn't identify a single system with any equipment facts.
+ */
+export function buildDocumentSystemUpdate(
+  homeId: string,
+  extraction: DocumentExtraction
+): ApplySystemUpdateInput | null {
+  if (!extraction.systemKey) return null;
+  if (!SYSTEM_EVIDENCE_TYPES.includes(extraction.documentType)) return null;
+
+  const presentFields = EQUIPMENT_FIELDS.filter((field) => extraction.fieldConfidence[field] !== undefined);
+  if (presentFields.length === 0) return null;
+
+  const meanFieldConfidence =
+    presentFields.reduce((sum, field) => sum + (extraction.fieldConfidence[field] ?? 0), 0) / presentFields.length;
+
+  return {
+    home_id: homeId,
+    system_key: extraction.systemKey,
+    source: 'document_extraction',
+    extracted_data: {
+      brand: extraction.brand,
+      model: extraction.model,
+      serial: extraction.serial,
+      system_type: extraction.systemKey,
+    },
+    confidence_signal: {
+      source_reliability: Math.round(extraction.typeConfidence * meanFieldConfidence * 100) / 100,
+    },
+    serial_date: extraction.serialDate,
+    install_date: extraction.installDate,
+  };
+}
+
+/**
+ * Run extraction for an uploaded document and apply its facts.
+ */
+export async function processDocument(
+  documentId: string,
+  homeId: string
+): Promise<Omit<IngestDocumentResult, 'documentId'>> {
+  const { data, error } = await supabase.functions.invoke('process-document', {
+    body: { documentId },
+  });
+
+  if (error || !data?.extraction) {
+    const message = error?.message || data?.error || 'Document extraction failed';
+    console.error('[documentIngestion] Extraction failed:', message);
+    return { documentType: 'other', extraction: null, systemUpdate: null, error: message };
+  }
+
+  const extraction = data.extraction as DocumentExtraction;
+  const documentType = data.documentType as DocumentType;
+
+  const updateInput = buildDocumentSystemUpdate(homeId, extraction);
+  if (!updateInput) {
+    return { documentType, extraction, systemUpdate: null };
+  }
+
+  const systemUpdate = await applySystemUpdate(updateInput);
+
+  if (systemUpdate.update_applied) {
+    await supabase
+      .from('documents')
+      .update({ applied_at: new Date().toISOString() })
+      .eq('id', documentId);
+  }
+
+  console.log('[documentIngestion] applySystemUpdate result:', {
+    applied: systemUpdate.update_applied,
+    fieldsUpdated: systemUpdate.fields_updated,
+    fieldsHeld: systemUpdate.fields_held,
+  });
+
+  return { documentType, extraction, systemUpdate };
+}
+
+/**
+ * Upload a document, extract it, and apply what it proves.
+ * Throws only when the file itself could not be stored.
+ */
+export async function ingestDocument(input: IngestDocumentInput): Promise<IngestDocumentResult> {
+  const { file, homeId, declaredType = 'other' } = input;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('Not authenticated');
+  }
+
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+  const storagePath = `${user.id}/${homeId}/${Date.now()}-${safeName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .upload(storagePath, file, { contentType: file.type });
+
+  if (uploadError) throw uploadError;
+
+  const { data: document, error: insertError } = await supabase
+    .from('documents')
+    .insert({
+      home_id: homeId,
+      user_id: user.id,
+      name: file.name,
+      type: declaredType,
+      file_url: storagePath,
+      file_size: file.size,
+      content_type: file.type,
+    })
+    .select('id')
+    .single();
+
+  if (insertError || !document) {
+    await supabase.storage.from(DOCUMENTS_BUCKET).remove([storagePath]);
+    throw insertError ?? new Error('Failed to save document');
+  }
+
+  const result = await processDocument(document.id, homeId);
+  return {
+    documentId: document.id,
+    ...result,
+    documentType: result.extraction ? result.documentType : declaredType,
+  };
+}
+
+/**
+ * Short-lived link for viewing a stored document
+ */
+export async function getDocumentUrl(storagePath: string): Promise<string | null> {
+  const { data, error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .createSignedUrl(storagePath, 60 * 10);
+  if (error) {
+    console.error('[documentIngestion] Failed to sign document URL:', error);
+    return null;
+  }
+  return data.signedUrl;
+}
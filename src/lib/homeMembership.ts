@@ -0,0 +1,111 @@
+/**
+ * Home Membership - client side of shared home access
+ *
+ * Role rules come from the shared module so the UI and the home-members
+ * edge function agree on who may do what. All membership writes go through
+ * the edge function; reads of a member's own role come with the home list.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { HomeMemberRole } from '../../supabase/functions/_shared/homeMembership.ts';
+
+export {
+  HOME_MEMBER_ROLES,
+  HOME_ROLE_LABELS,
+  HOME_ROLE_DESCRIPTIONS,
+  HOME_ROLE_CAPABILITIES,
+  canAssignRole,
+  canManageMember,
+  invitationStatus,
+  isHomeMemberRole,
+  isValidEmail,
+} from '../../supabase/functions/_shared/homeMembership.ts';
+export type {
+  HomeMemberRole,
+  HomeRoleCapabilities,
+  InvitationStatus,
+} from '../../supabase/functions/_shared/homeMembership.ts';
+
+export interface HomeMember {
+  id: string;
+  userId: string;
+  role: HomeMemberRole;
+  joinedAt: string;
+  email: string | null;
+  fullName: string | null;
+}
+
+export interface HomeInvitation {
+  id: string;
+  email: string;
+  role: HomeMemberRole;
+  status: string;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface HouseholdSnapshot {
+  /** The signed-in user's role in this home */
+  role: HomeMemberRole;
+  members: HomeMember[];
+  /** Open invitations (only returned to owners and co-owners) */
+  invitations: HomeInvitation[];
+}
+
+export interface InvitationPreview {
+  email: string;
+  role: HomeMemberRole;
+  status: string;
+  expiresAt: string;
+  home: { address: string; city: string; state: string } | null;
+}
+
+async function invokeHomeMembers<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('home-members', { body });
+  if (error) {
+    // Surface the function's own message (403/409 explain what went wrong)
+    const context = (error as { context?: Response }).context;
+    const detail = context ? await context.json().catch(() => null) : null;
+    throw new Error(detail?.error ?? error.message);
+  }
+  return data as T;
+}
+
+export function loadHousehold(homeId: string): Promise<HouseholdSnapshot> {
+  return invokeHomeMembers({ action: 'list', homeId });
+}
+
+export function inviteHomeMember(
+  homeId: string,
+  email: string,
+  role: HomeMemberRole
+): Promise<{ invitation: HomeInvitation; inviteUrl: string; emailSent: boolean }> {
+  return invokeHomeMembers({ action: 'invite', homeId, email, role });
+}
+
+export function revokeInvitation(invitationId: string): Promise<{ success: boolean }> {
+  return invokeHomeMembers({ action: 'revoke', invitationId });
+}
+
+export function updateMemberRole(memberId: string, role: HomeMemberRole): Promise<{ success: boolean }> {
+  return invokeHomeMembers({ action: 'update_role', memberId, role });
+}
+
+export function removeHomeMember(memberId: string): Promise<{ success: boolean }> {
+  return invokeHomeMembers({ action: 'remove', memberId });
+}
+
+export function previewInvitation(token: string): Promise<InvitationPreview> {
+  return invokeHomeMembers({ action: 'preview', token });
+}
+
+export function acceptInvitation(token: string): Promise<{ homeId: string; role: HomeMemberRole }> {
+  return invokeHomeMembers({ action: 'accept', token });
+}
+
+/**
+ * Display name for a member: full name, then email, then a generic label
+ */
+export function memberDisplayName(member: Pick<HomeMember, 'fullName' | 'email'> | undefined): string {
+  return member?.fullName || member?.email || 'A household member';
+}
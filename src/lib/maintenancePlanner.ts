@@ -1,4 +1,5 @@
 import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
 
 export async function generateSeasonalPlan(homeId: string, months = 12, force = false) {
   const { data, error } = await supabase.functions.invoke("seed-maintenance-plan", { 
@@ -7,4 +8,74 @@ export async function generateSeasonalPlan(homeId: string, months = 12, force =
   
   if (error) throw error;
   return data as { ok: boolean; inserted: number; considered: number };
-}
\ No newline at end of file
+}
+export {
+  DEFAULT_SNOOZE_DAYS,
+  describeRecurrence,
+  recurrenceRuleForTask,
+} from "../../supabase/functions/_shared/maintenanceRecurrence.ts";
+export type { RecurrenceRule } from "../../supabase/functions/_shared/maintenanceRecurrence.ts";
+
+type MaintenanceTaskRow = Database['public']['Tables']['maintenance_tasks']['Row'];
+
+/** Who did the work; counts toward the system's maintenance adherence score */
+export type MaintenancePerformer = "diy" | "professional";
+
+export interface MaintenanceTaskActionResult {
+  /** Null when the service worker queued the action offline */
+  task: MaintenanceTaskRow | null;
+  /** Next occurrence of a recurring task, when completing or skipping created one */
+  next: MaintenanceTaskRow | null;
+}
+
+// Completing, skipping and snoozing go through maintenance-task-action so the
+// next occurrence of a recurring task is created from the actual completion date
+async function invokeTaskAction(body: Record<string, unknown>): Promise<MaintenanceTaskActionResult> {
+  const { data, error } = await supabase.functions.invoke("maintenance-task-action", { body });
+  if (error) {
+    const context = (error as { context?: Response }).context;
+    const detail = context ? await context.json().catch(() => null) : null;
+    throw new Error(detail?.error ?? error.message);
+  }
+  return data as MaintenanceTaskActionResult;
+}
+
+/**
+ * Completes a task as of `completedDate`, today (UTC, like the edge function)
+ * by default. The date is sent explicitly so a completion queued offline
+ * keeps the day it was done when the service worker replays it.
+ */
+export function completeMaintenanceTask(taskId: string, completedDate?: string, performedBy?: MaintenancePerformer) {
+  return invokeTaskAction({
+    action: "complete",
+    taskId,
+    completedDate: completedDate ?? new Date().toISOString().slice(0, 10),
+    performedBy,
+  });
+}
+
+export function skipMaintenanceTask(taskId: string) {
+  return invokeTaskAction({ action: "skip", taskId });
+}
+
+export function snoozeMaintenanceTask(taskId: string, snoozeDays?: number) {
+  return invokeTaskAction({ action: "snooze", taskId, snoozeDays });
+}
+
+export function reopenMaintenanceTask(taskId: string) {
+  return invokeTaskAction({ action: "reopen", taskId });
+}
+
+/**
+ * Sends a status change that closes or reopens an occurrence through
+ * maintenance-task-action. Returns null for changes the caller writes itself
+ * (start, pause).
+ */
+export function applyTaskStatusChange(taskId: string, fromStatus: string | undefined, toStatus: string | undefined) {
+  if (toStatus === "completed") return completeMaintenanceTask(taskId);
+  if (toStatus === "skipped") return skipMaintenanceTask(taskId);
+  if (toStatus === "pending" && (fromStatus === "completed" || fromStatus === "skipped")) {
+    return reopenMaintenanceTask(taskId);
+  }
+  return null;
+}
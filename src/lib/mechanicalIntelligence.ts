@@ -1,5 +1,7 @@
 // Mechanical Intelligence - Heuristic Enrichment & Risk Scoring Engine
 
+import { classifyPermitWork } from '../../supabase/functions/_shared/permitClassifier.ts';
+
 export type PermitSegment = 
   | 'replacement_wave'   // AC CHANGE OUTs from 2016-2018 (8-10 years old, EOL approaching)
   | 'repair_loop'        // Multiple permits on same folio within 3 years
@@ -68,10 +70,6 @@ const BRAND_KEYWORDS = [
   'fujitsu', 'lg', 'samsung', 'bosch', 'maytag', 'frigidaire'
 ];
 
-// High-risk keywords indicating repair vs replacement
-const REPAIR_KEYWORDS = ['repair', 'coil', 'compressor', 'leak', 'motor', 'capacitor', 'contactor', 'refrigerant', 'freon'];
-const REPLACEMENT_KEYWORDS = ['change out', 'changeout', 'replace', 'new install', 'installation', 'new unit', 'upgrade'];
-
 /**
  * Identify brand from contractor name and work description
  */
@@ -125,23 +123,7 @@ export function calculateSystemAge(issueDate: string): number {
  * Check if work description indicates repair vs replacement
  */
 export function isRepairWork(workDescription: string): boolean {
-  const descLower = workDescription.toLowerCase();
-  
-  // Check for replacement keywords first (negates repair)
-  for (const keyword of REPLACEMENT_KEYWORDS) {
-    if (descLower.includes(keyword)) {
-      return false;
-    }
-  }
-  
-  // Check for repair keywords
-  for (const keyword of REPAIR_KEYWORDS) {
-    if (descLower.includes(keyword)) {
-      return true;
-    }
-  }
-  
-  return false;
+  return classifyPermitWork('hvac', { description: workDescription }) === 'repair';
 }
 
 /**
@@ -153,7 +135,6 @@ export function classifyPermitSegment(
   systemAge: number
 ): PermitSegment {
   const year = new Date(issueDate).getFullYear();
-  const descLower = workDescription.toLowerCase();
   
   // "New Homeowner" - Permits from late 2024 or 2025
   // These users need preventative wellness plans
@@ -163,10 +144,8 @@ export function classifyPermitSegment(
   
   // "Replacement Wave" - AC CHANGE OUTs from 2016-2018
   // In Miami's humidity, these units are 8-10 years old and approaching EOL
-  const isChangeOut = descLower.includes('change out') || 
-                      descLower.includes('changeout') ||
-                      descLower.includes('replace') ||
-                      descLower.includes('new install');
+  const workType = classifyPermitWork('hvac', { description: workDescription });
+  const isChangeOut = workType === 'replacement' || workType === 'install';
   
   if (isChangeOut && year >= 2016 && year <= 2018) {
     return 'replacement_wave';
@@ -0,0 +1,128 @@
+/**
+ * Notifications - client side of email / push delivery preferences
+ *
+ * Defaults, labels and quiet-hours rules come from the shared module so
+ * Settings shows exactly what notification-dispatch will act on. Preferences
+ * and push subscriptions are the user's own rows (RLS); sending happens
+ * server-side only.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  resolvePreferences,
+  type NotificationPreferences,
+} from '../../supabase/functions/_shared/notificationRules.ts';
+
+export {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_KIND_LABELS,
+  WEEKDAY_LABELS,
+} from '../../supabase/functions/_shared/notificationRules.ts';
+export type {
+  NotificationChannel,
+  NotificationKind,
+  NotificationPreferences,
+} from '../../supabase/functions/_shared/notificationRules.ts';
+
+const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+/**
+ * Browser timezone, used for new users so quiet hours mean their night
+ */
+export function browserTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_NOTIFICATION_PREFERENCES.timezone;
+  } catch {
+    return DEFAULT_NOTIFICATION_PREFERENCES.timezone;
+  }
+}
+
+export async function loadNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+
+  return data ? resolvePreferences(data) : { ...DEFAULT_NOTIFICATION_PREFERENCES, timezone: browserTimezone() };
+}
+
+export async function saveNotificationPreferences(
+  userId: string,
+  prefs: NotificationPreferences
+): Promise<void> {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId, ...prefs }, { onConflict: 'user_id' });
+  if (error) throw error;
+}
+
+// ============== Web Push ==============
+
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window &&
+    !!VAPID_PUBLIC_KEY
+  );
+}
+
+/**
+ * Ask for permission and register this browser for Web Push through the
+ * app's service worker. Throws when the user declines.
+ */
+export async function subscribeToPush(userId: string): Promise<void> {
+  if (!isPushSupported()) throw new Error('Push notifications are not supported in this browser');
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') throw new Error('Notifications are blocked for this site');
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToBytes(VAPID_PUBLIC_KEY!),
+    }));
+
+  const json = subscription.toJSON();
+  const { error } = await supabase.from('push_subscriptions').upsert(
+    {
+      user_id: userId,
+      endpoint: subscription.endpoint,
+      p256dh: json.keys?.p256dh ?? '',
+      auth: json.keys?.auth ?? '',
+      user_agent: navigator.userAgent,
+    },
+    { onConflict: 'endpoint' }
+  );
+  if (error) throw error;
+}
+
+/**
+ * Drop this browser's subscription; other devices keep receiving pushes
+ */
+export async function unsubscribeFromPush(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.getRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+  await subscription.unsubscribe();
+}
+
+export async function sendTestNotification(): Promise<{ results: Record<string, { ok: boolean; error?: string } | null> }> {
+  const { data, error } = await supabase.functions.invoke('notification-dispatch', { body: { mode: 'test' } });
+  if (error) throw error;
+  return data;
+}
+
+function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
@@ -86,4 +86,29 @@ export const syncPermitsData = async (address: string, homeId: string): Promise<
     console.error('Error syncing permits data:', error);
     throw new Error('Failed to sync permits data');
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Import permits from a CSV export. `jurisdiction` names a registered column
+ * layout (permit_jurisdictions); omit it for the generic layout.
+ */
+export const uploadPermitsCsv = async (
+  csv: string,
+  homeId: string,
+  jurisdiction?: string
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    const response = await supabase.functions.invoke('shovels-permits', {
+      body: { csv, homeId, jurisdiction }
+    });
+
+    if (response.error) {
+      throw new Error(response.error.message);
+    }
+
+    return response.data;
+  } catch (error) {
+    console.error('Error uploading permits CSV:', error);
+    throw new Error('Failed to upload permits CSV');
+  }
+};
@@ -1,4 +1,5 @@
 import { Permit } from './permitAPI';
+import { classifyPermit } from '../../supabase/functions/_shared/permitClassifier.ts';
 
 export interface PermitInsight {
   id: string;
@@ -38,19 +39,6 @@ export interface FinancialInsight {
   deadline?: string;
 }
 
-const SYSTEM_KEYWORDS = {
-  pool: ['pool', 'swimming', 'spa', 'chlorine', 'filtration', 'pump'],
-  hvac: ['hvac', 'air condition', 'heating', 'cooling', 'heat pump', 'ac unit', 'furnace'],
-  hurricane_shutters: ['hurricane', 'shutter', 'storm', 'protection', 'wind'],
-  roofing: ['roof', 'shingle', 'tile', 'gutter', 'flashing'],
-  electrical: ['electrical', 'electric', 'panel', 'wiring', 'outlet'],
-  plumbing: ['plumb', 'water', 'pipe', 'sewer', 'drain'],
-  windows: ['window', 'glass', 'pane'],
-  driveway: ['driveway', 'pave', 'concrete', 'asphalt'],
-  flooring: ['floor', 'tile', 'wood', 'carpet', 'laminate'],
-  solar: ['solar', 'photovoltaic', 'pv', 'inverter']
-};
-
 const MAINTENANCE_SCHEDULES = {
   pool: [
     {
@@ -252,15 +240,7 @@ export const analyzePermits = (permits: Permit[]): PermitInsight[] => {
 };
 
 const identifySystemType = (permit: Permit): string | null => {
-  const searchText = `${permit.permit_type || ''} ${permit.description || ''} ${permit.work_class || ''}`.toLowerCase();
-  
-  for (const [systemType, keywords] of Object.entries(SYSTEM_KEYWORDS)) {
-    if (keywords.some(keyword => searchText.includes(keyword))) {
-      return systemType;
-    }
-  }
-  
-  return null;
+  return classifyPermit(permit).systemType;
 };
 
 const createPermitInsight = (permit: Permit, systemType: string): PermitInsight => {
@@ -1,4 +1,4 @@
-import type { HomeReportData, ReportCapitalSystem } from '@/hooks/useHomeReport';
+import type { HomeReportData, ReportCapitalSystem, ReportReservePlan } from '@/hooks/useHomeReport';
 import { getConfidenceLabel } from '@/hooks/useHomeReport';
 import { format, parseISO } from 'date-fns';
 
@@ -10,7 +10,7 @@ import { format, parseISO } from 'date-fns';
  * The output is a printable, styled HTML file with no UI chrome.
  */
 export function generateHomeReportHtml(report: HomeReportData): string {
-  const { property, assets, openIssues, resolvedHistory, replacements, deferredRecommendations, capitalOutlook, coverage } = report;
+  const { property, assets, openIssues, resolvedHistory, replacements, warranties, deferredRecommendations, capitalOutlook, reservePlan, coverage } = report;
 
   const fullAddress = property
     ? `${property.address}, ${property.city}, ${property.state} ${property.zipCode}`
@@ -81,6 +81,7 @@ export function generateHomeReportHtml(report: HomeReportData): string {
   // ─── Capital Outlook section ──────────────────────────────────────────────
 
   const capitalOutlookSection = buildCapitalOutlookHtml(capitalOutlook);
+  const reservePlanSection = reservePlan ? buildReservePlanHtml(reservePlan) : '';
 
   const issuesSection =
     openIssues.length > 0
@@ -158,6 +159,30 @@ export function generateHomeReportHtml(report: HomeReportData): string {
       }
     </div>`;
 
+  const warrantiesSection = `
+    <div class="section">
+      <div class="section-title">Warranties</div>
+      ${
+        warranties.length === 0
+          ? '<p class="empty">No warranties on record.</p>'
+          : `<table class="data-table">
+              <thead><tr><th>Asset</th><th>Parts</th><th>Labor</th><th>Transferable</th><th>Terms</th></tr></thead>
+              <tbody>${warranties
+                .map(
+                  (w) => `
+                <tr>
+                  <td><strong>${w.assetKind}</strong>${w.manufacturer ? ` · ${w.manufacturer}` : ''}</td>
+                  <td>${w.partsYears} yr${w.partsExpiresOn ? ` · ${fmt(w.partsExpiresOn)}` : ''}</td>
+                  <td>${w.laborYears} yr${w.laborExpiresOn ? ` · ${fmt(w.laborExpiresOn)}` : ''}</td>
+                  <td>${w.transferable ? 'Yes' : 'No'}</td>
+                  <td class="badge">${w.confirmed ? 'Confirmed' : 'Estimated'}</td>
+                </tr>`
+                )
+                .join('')}</tbody>
+            </table>`
+      }
+    </div>`;
+
   const deferredSection = `
     <div class="section">
       <div class="section-title">Deferred Recommendations</div>
@@ -246,9 +271,11 @@ export function generateHomeReportHtml(report: HomeReportData): string {
   ${propertySection}
   ${assetSection}
   ${capitalOutlookSection}
+  ${reservePlanSection}
   ${issuesSection}
   ${resolvedSection}
   ${replacementsSection}
+  ${warrantiesSection}
   ${deferredSection}
   ${coverageSection}
 
@@ -260,6 +287,50 @@ export function generateHomeReportHtml(report: HomeReportData): string {
 </html>`;
 }
 
+// ─── Reserve Plan HTML builder ──────────────────────────────────────────────
+
+function buildReservePlanHtml({ inputs, result }: ReportReservePlan): string {
+  const money = (n: number) => `${n < 0 ? '−' : ''}$${Math.abs(Math.round(n)).toLocaleString()}`;
+  const pct = (p: number) => `${Math.round(p * 100)}%`;
+
+  const rows = result.years
+    .map(
+      (y) => `
+          <tr>
+            <td>${y.year}</td>
+            <td>${money(y.expectedSpend)}</td>
+            <td>${money(y.medianBalance)}</td>
+            <td>${pct(y.shortfallProbability)}</td>
+          </tr>`
+    )
+    .join('');
+
+  const summary = result.firstAtRiskYear
+    ? `The reserve could run short by ${result.firstAtRiskYear}. About ${money(result.recommendedMonthlyContribution)} a month keeps the chance of a shortfall at or under 10% in every year.`
+    : 'The reserve covers expected replacements with at least a 90% chance in every year.';
+
+  return `
+    <div class="section">
+      <div class="section-title">Reserve Plan</div>
+      <p class="meta" style="margin-bottom:8px;">
+        ${money(inputs.currentSavings)} saved · ${money(inputs.monthlyContribution)}/month · costs rising ${(inputs.escalationRate * 100).toFixed(1)}%/yr.
+        Simulated across ${result.runs.toLocaleString()} possible replacement timelines.
+      </p>
+      <p style="font-size:13px;margin-bottom:12px;">${summary}</p>
+      <table class="data-table">
+        <thead>
+          <tr>
+            <th>Year</th>
+            <th>Expected Spend</th>
+            <th>Typical Balance</th>
+            <th>Shortfall Chance</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>`;
+}
+
 // ─── Capital Outlook HTML builder ───────────────────────────────────────────
 
 function buildCapitalOutlookHtml(systems: ReportCapitalSystem[]): string {
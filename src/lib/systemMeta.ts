@@ -8,9 +8,10 @@
  * - Categories
  */
 
-import { Wind, Home, Droplet, LucideIcon } from 'lucide-react';
+import { Wind, Home, Droplet, Zap, Wrench, Waves, Sun, AirVent, LucideIcon } from 'lucide-react';
+import type { CapitalSystemType } from '@/types/capitalTimeline';
 
-export type SystemKey = 'hvac' | 'roof' | 'water_heater';
+export type SystemKey = CapitalSystemType;
 
 export interface SystemMeta {
   label: string;
@@ -40,9 +41,47 @@ export const SYSTEM_META: Record<SystemKey, SystemMeta> = {
     category: 'utility',
     chatdiyTopicPrefix: 'water-heater',
   },
+  electrical_panel: {
+    label: 'Electrical Panel',
+    icon: Zap,
+    category: 'utility',
+    chatdiyTopicPrefix: 'electrical',
+  },
+  plumbing: {
+    label: 'Plumbing',
+    icon: Wrench,
+    category: 'utility',
+    chatdiyTopicPrefix: 'plumbing',
+  },
+  pool: {
+    label: 'Pool Equipment',
+    icon: Waves,
+    category: 'mechanical',
+    chatdiyTopicPrefix: 'pool',
+  },
+  solar: {
+    label: 'Solar',
+    icon: Sun,
+    category: 'utility',
+    chatdiyTopicPrefix: 'solar',
+  },
+  mini_split: {
+    label: 'Mini-Split',
+    icon: AirVent,
+    category: 'mechanical',
+    chatdiyTopicPrefix: 'mini-split',
+  },
 };
 
-export const SUPPORTED_SYSTEMS: SystemKey[] = ['hvac', 'roof', 'water_heater'];
+export const SUPPORTED_SYSTEMS: SystemKey[] = [
+  'hvac', 'roof', 'water_heater', 'electrical_panel', 'plumbing', 'pool', 'solar', 'mini_split',
+];
+
+/**
+ * Systems with a dedicated intelligence-engine prediction.
+ * Others render from the capital timeline plan view.
+ */
+export const PREDICTION_SYSTEMS: SystemKey[] = ['hvac', 'roof', 'water_heater'];
 
 /**
  * Check if a system key is valid
@@ -51,6 +90,13 @@ export function isValidSystemKey(key: string): key is SystemKey {
   return SUPPORTED_SYSTEMS.includes(key as SystemKey);
 }
 
+/**
+ * Check if a system has a dedicated prediction (vs timeline-only)
+ */
+export function hasSystemPrediction(key: string): boolean {
+  return PREDICTION_SYSTEMS.includes(key as SystemKey);
+}
+
 /**
  * Get system label with fallback
  */
@@ -43,6 +43,51 @@ const NARRATIVES: Record<CapitalSystemType, SystemNarrative> = {
     confidenceTip:
       "Upload a photo of the unit label so I can identify the exact model and maintenance needs.",
   },
+  electrical_panel: {
+    subtitle: "The Nervous System",
+    proTip:
+      "A breaker that trips repeatedly is telling you something. Note which circuit and when — it helps an electrician find the cause quickly.",
+    forecastTip:
+      "Panel upgrades often pair well with solar, EV chargers, or a heat pump. Planning them together can save a second service call.",
+    confidenceTip:
+      "Upload a photo of the panel door label so I can identify the manufacturer and amperage.",
+  },
+  plumbing: {
+    subtitle: "The Circulatory System",
+    proTip:
+      "Knowing where your main water shutoff is — and that it turns freely — can turn a burst pipe from a disaster into a mop-up.",
+    forecastTip:
+      "Low water pressure or discolored water at several fixtures can signal aging supply lines.",
+    confidenceTip:
+      "Tell me your pipe material (copper, PEX, galvanized, or polybutylene) so I can sharpen this forecast.",
+  },
+  pool: {
+    subtitle: "Your Backyard Retreat",
+    proTip:
+      "Cleaning the pump basket and backwashing on schedule keeps the motor from overworking and overheating.",
+    forecastTip:
+      "Pool equipment is best replaced in the off-season, when installers have more availability.",
+    confidenceTip:
+      "Upload a photo of the pump and heater labels so I can identify their age.",
+  },
+  solar: {
+    subtitle: "Your Power Plant",
+    proTip:
+      "Check your inverter's monitoring app monthly. A sudden production drop usually means an inverter issue, not the panels.",
+    forecastTip:
+      "Inverters typically need replacement once before the panels do — plan for that cost separately.",
+    confidenceTip:
+      "Upload a photo of the inverter label so I can pinpoint its age and warranty.",
+  },
+  mini_split: {
+    subtitle: "Zone by Zone Comfort",
+    proTip:
+      "Rinsing the indoor unit's washable filters every month keeps airflow strong and the coil clean.",
+    forecastTip:
+      "Mini-split zones can be replaced one at a time, spreading the cost across several years.",
+    confidenceTip:
+      "Upload a photo of the outdoor unit label so I can identify the model and install year.",
+  },
 };
 
 /**
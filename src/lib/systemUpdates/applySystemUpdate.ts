@@ -1,10 +1,15 @@
 import { supabase } from '@/integrations/supabase/client';
-import { resolveFieldUpdates } from './resolveFieldUpdates';
+import { resolveFieldUpdates, type FieldEvidence } from './resolveFieldUpdates';
 import { buildChatSummary } from './chatSummaryBuilder';
 import { isMeaningfulDelta } from './confidenceCalculator';
-import { syncToCanonicalSystems, isCanonicalSystem, normalizeSystemKey } from './syncToCanonicalSystems';
+import { syncToCanonicalSystems, isCanonicalSystem, normalizeSystemKey, type CanonicalSystemKind } from './syncToCanonicalSystems';
 import type { SystemUpdateSource, FieldProvenance } from './authority';
 import type { Json } from '@/integrations/supabase/types';
+import type { SerialDate } from '../../../supabase/functions/_shared/serialDecoding.ts';
+import { decodeModelSpec, type ModelSpec } from '../../../supabase/functions/_shared/modelDecoding.ts';
+
+/** Serial decodes below this leave manufacture_year to the update's own source */
+const MIN_SERIAL_DATE_CONFIDENCE = 0.7;
 
 export interface ApplySystemUpdateInput {
   home_id: string;
@@ -23,7 +28,11 @@ export interface ApplySystemUpdateInput {
     visual_certainty?: number;
     source_reliability: number;
   };
+  /** Manufacture date decoded server-side from brand + serial */
+  serial_date?: SerialDate;
   image_url?: string;
+  /** ISO date the system was installed, when the source documents it (receipts, invoices) */
+  install_date?: string;
 }
 
 export interface SystemUpdateResult {
@@ -49,6 +58,36 @@ function generateUniqueSystemKey(systemType: string, brand?: string): string {
     : `${systemType}_${timestamp}`;
 }
 
+/**
+ * A confident serial decode becomes manufacture_year evidence that outranks
+ * photo and document reads of the same label.
+ */
+function serialDateEvidence(serialDate?: SerialDate): Record<string, FieldEvidence> | undefined {
+  if (!serialDate || serialDate.confidence < MIN_SERIAL_DATE_CONFIDENCE) return undefined;
+  return {
+    manufacture_year: {
+      value: serialDate.year,
+      source: 'serial_decode',
+      confidence: serialDate.confidence,
+    },
+  };
+}
+
+/**
+ * Structured home_systems columns for a decoded model number; all null
+ * when the model does not decode.
+ */
+function modelSpecColumns(spec: ModelSpec | null) {
+  return {
+    equipment_kind: spec?.kind ?? null,
+    capacity_value: spec?.capacity?.value ?? null,
+    capacity_unit: spec?.capacity?.unit ?? null,
+    efficiency_rating: spec?.efficiency?.value ?? null,
+    efficiency_metric: spec?.efficiency?.metric ?? null,
+    model_spec_version: spec?.decoderVersion ?? null,
+  };
+}
+
 /**
  * Core System Update Gate
  * 
@@ -65,7 +104,8 @@ function generateUniqueSystemKey(systemType: string, brand?: string): string {
 export async function applySystemUpdate(
   input: ApplySystemUpdateInput
 ): Promise<SystemUpdateResult> {
-  const { home_id, system_key, source, extracted_data, confidence_signal, image_url } = input;
+  const { home_id, system_key, source, extracted_data, confidence_signal, serial_date, image_url, install_date } = input;
+  const fieldEvidence = serialDateEvidence(serial_date);
 
   // 1. Find existing system of same type
   const { data: existingSystems } = await supabase
@@ -90,13 +130,21 @@ export async function applySystemUpdate(
     fuel_type: existing?.fuel_type,
   };
 
+  // Model numbers encode capacity, efficiency and fuel; the decoded fuel
+  // beats a keyword read of the label
+  const modelSpec = decodeModelSpec(extracted_data.brand ?? existing?.brand, extracted_data.model);
+
   // 2. Resolve field updates with authority rules
   const resolved = resolveFieldUpdates({
     existingFields,
     existingProvenance,
-    extractedData: extracted_data,
+    extractedData: {
+      ...extracted_data,
+      fuel_type: modelSpec?.fuelType ?? extracted_data.fuel_type,
+    },
     source,
     confidenceSignal: confidence_signal,
+    fieldEvidence,
   });
 
   // 3. Build chat summary (includes wasOverwrite for accurate messaging)
@@ -127,6 +175,13 @@ export async function applySystemUpdate(
   // 5. Persist to database
   let systemId = existing?.id;
 
+  // The structured spec follows the model it was decoded from: a new model
+  // that doesn't decode clears the old model's spec, and a re-read of the
+  // same model backfills rows saved before it was decoded
+  const modelChanged = resolved.fieldsUpdated.includes('model');
+  const specBackfill = !!modelSpec && existing?.model === extracted_data.model && !existing?.model_spec_version;
+  const specColumns = modelChanged || specBackfill ? modelSpecColumns(modelSpec) : {};
+
   if (existing) {
     // Merge into existing record
     const existingImages = Array.isArray(existing.images) ? existing.images as string[] : [];
@@ -147,6 +202,8 @@ export async function applySystemUpdate(
       .from('home_systems')
       .update({
         ...resolved.updatedFields,
+        ...specColumns,
+        ...(install_date && !existing.install_date ? { install_date } : {}),
         images: newImages,
         data_sources: [...new Set([...existingDataSources, source])],
         confidence_scores: { 
@@ -160,6 +217,7 @@ export async function applySystemUpdate(
           ...existingSource,
           last_update_source: source,
           last_update_at: new Date().toISOString(),
+          ...(fieldEvidence ? { serial_date: serial_date as unknown as Json } : {}),
         } as Json,
       })
       .eq('id', existing.id);
@@ -171,6 +229,8 @@ export async function applySystemUpdate(
         home_id,
         system_key: generateUniqueSystemKey(system_key, extracted_data.brand),
         ...resolved.updatedFields,
+        ...specColumns,
+        install_date: install_date ?? null,
         images: image_url ? [image_url] : [],
         data_sources: [source],
         confidence_scores: { overall: resolved.newConfidence } as Json,
@@ -180,6 +240,7 @@ export async function applySystemUpdate(
           original_type: system_key,
           last_update_source: source,
           last_update_at: new Date().toISOString(),
+          ...(fieldEvidence ? { serial_date: serial_date as unknown as Json } : {}),
         } as Json,
       }])
       .select()
@@ -196,8 +257,10 @@ export async function applySystemUpdate(
     
     const syncResult = await syncToCanonicalSystems({
       home_id,
-      kind: normalizedKey as 'hvac' | 'roof' | 'water_heater',
-      manufactureYear: extracted_data.manufacture_year,
+      kind: normalizedKey as CanonicalSystemKind,
+      manufactureYear: fieldEvidence && serial_date ? serial_date.year : extracted_data.manufacture_year,
+      serialDecoded: !!fieldEvidence,
+      installYear: install_date ? Number(install_date.substring(0, 4)) : undefined,
       confidence: resolved.newConfidence,
       source,
       photoUrl: image_url,
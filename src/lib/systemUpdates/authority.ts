@@ -8,13 +8,17 @@
 export type SystemUpdateSource =
   | 'professional_override'  // Pro verification (future)
   | 'user_confirmed'         // User explicitly confirmed/corrected
+  | 'serial_decode'          // Manufacture date decoded from a known serial format
+  | 'document_extraction'    // Receipt, invoice, warranty or report OCR
   | 'photo_analysis'         // AI vision extraction
   | 'permit_record'          // Public permit data
   | 'inferred';              // Heuristic/age-based estimation
 
 export const AUTHORITY_RANK: Record<SystemUpdateSource, number> = {
-  professional_override: 5,
-  user_confirmed: 4,
+  professional_override: 7,
+  user_confirmed: 6,
+  serial_decode: 5,
+  document_extraction: 4,
   photo_analysis: 3,
   permit_record: 2,
   inferred: 1,
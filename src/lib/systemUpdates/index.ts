@@ -8,6 +8,7 @@
  * 
  * Inputs that must use this gate:
  * - Photo analysis
+ * - Document extraction (receipts, invoices, warranties)
  * - Manual user confirmations
  * - Permit ingestion
  * - Professional verification (future)
@@ -16,9 +17,11 @@
  * Authority Hierarchy (highest to lowest):
  * 1. professional_override
  * 2. user_confirmed
- * 3. photo_analysis
- * 4. permit_record
- * 5. inferred
+ * 3. serial_decode (field evidence for manufacture_year, never a whole update)
+ * 4. document_extraction
+ * 5. photo_analysis
+ * 6. permit_record
+ * 7. inferred
  * 
  * CANONICAL CONSISTENCY CONTRACT (IMMUTABLE):
  * 
@@ -44,7 +47,7 @@ export { AUTHORITY_RANK } from './authority';
 export { calculateSystemConfidence, isMeaningfulDelta, MINIMUM_MEANINGFUL_DELTA, FIELD_WEIGHTS } from './confidenceCalculator';
 export { buildChatSummary, buildAnalysisFailedSummary, buildNoSystemDetectedSummary } from './chatSummaryBuilder';
 export { resolveFieldUpdates } from './resolveFieldUpdates';
-export type { ResolveInput, ResolveResult } from './resolveFieldUpdates';
+export type { ResolveInput, ResolveResult, FieldEvidence } from './resolveFieldUpdates';
 export { 
   syncToCanonicalSystems, 
   isCanonicalSystem, 
@@ -1,6 +1,16 @@
 import { AUTHORITY_RANK, type SystemUpdateSource, type FieldProvenance } from './authority';
 import { FIELD_WEIGHTS, calculateSystemConfidence } from './confidenceCalculator';
 
+/**
+ * A single field value backed by its own evidence, e.g. a manufacture year
+ * decoded from the serial number rather than read by the update's source.
+ */
+export interface FieldEvidence {
+  value: unknown;
+  source: SystemUpdateSource;
+  confidence: number;
+}
+
 export interface ResolveInput {
   existingFields: Record<string, any>;
   existingProvenance: Record<string, FieldProvenance>;
@@ -10,8 +20,12 @@ export interface ResolveInput {
     visual_certainty?: number;
     source_reliability: number;
   };
+  /** Per-field evidence that competes at its own authority */
+  fieldEvidence?: Record<string, FieldEvidence>;
 }
 
+type Candidate = [field: string, value: unknown, source: SystemUpdateSource, confidence: number];
+
 export interface ResolveResult {
   updateApplied: boolean;
   wasOverwrite: boolean;  // Critical #3: Explicitly tracked
@@ -32,11 +46,13 @@ export interface ResolveResult {
  * 2. If incoming authority > existing authority → Overwrite
  * 3. If incoming authority < existing authority → Ignore (preserve existing)
  * 4. If same authority but different value → Hold for confirmation
+ * 5. Field evidence replaces extractedData for its field and is ranked by
+ *    its own source and confidence (rules 1-4 apply to it unchanged)
  * 
  * Critical #3 Fix: Explicitly tracks wasOverwrite for accurate authority_applied reporting.
  */
 export function resolveFieldUpdates(input: ResolveInput): ResolveResult {
-  const { existingFields, existingProvenance, extractedData, source, confidenceSignal } = input;
+  const { existingFields, existingProvenance, extractedData, source, confidenceSignal, fieldEvidence = {} } = input;
   
   const updatedFields: Record<string, any> = {};
   const updatedProvenance: Record<string, FieldProvenance> = { ...existingProvenance };
@@ -47,17 +63,26 @@ export function resolveFieldUpdates(input: ResolveInput): ResolveResult {
   let wasOverwrite = false;  // Critical #3: Track if we're overwriting existing data
   let held = false;
 
-  const incomingRank = AUTHORITY_RANK[source];
-  const incomingConfidence = confidenceSignal.visual_certainty ?? confidenceSignal.source_reliability;
+  const sourceConfidence = confidenceSignal.visual_certainty ?? confidenceSignal.source_reliability;
 
   // Only process fields that have weights (system-grade fields)
   const relevantFields = Object.keys(FIELD_WEIGHTS);
-  
-  Object.entries(extractedData).forEach(([field, value]) => {
+
+  // Rule 5: evidence supersedes the update's own value for its field
+  const candidates: Candidate[] = [
+    ...Object.entries(extractedData)
+      .filter(([field]) => !(field in fieldEvidence))
+      .map(([field, value]): Candidate => [field, value, source, sourceConfidence]),
+    ...Object.entries(fieldEvidence)
+      .map(([field, evidence]): Candidate => [field, evidence.value, evidence.source, evidence.confidence]),
+  ];
+
+  candidates.forEach(([field, value, incomingSource, incomingConfidence]) => {
     // Skip undefined, null, or non-system-grade fields
     if (value === undefined || value === null) return;
     if (!relevantFields.includes(field) && field !== 'system_type') return;
 
+    const incomingRank = AUTHORITY_RANK[incomingSource];
     const current = existingProvenance[field];
     const currentRank = current ? AUTHORITY_RANK[current.source] : 0;
     const existingValue = existingFields[field];
@@ -66,7 +91,7 @@ export function resolveFieldUpdates(input: ResolveInput): ResolveResult {
       // Accept: new field or higher authority
       updatedFields[field] = value;
       updatedProvenance[field] = {
-        source,
+        source: incomingSource,
         confidence: incomingConfidence,
         updated_at: new Date().toISOString(),
       };
@@ -19,13 +19,19 @@ import type { SystemUpdateSource } from './authority';
 import type { Json } from '@/integrations/supabase/types';
 
 // Core systems that should sync to canonical table
-export const CANONICAL_SYSTEMS = ['hvac', 'roof', 'water_heater'] as const;
-type CanonicalSystemKind = typeof CANONICAL_SYSTEMS[number];
+export const CANONICAL_SYSTEMS = [
+  'hvac', 'roof', 'water_heater', 'electrical_panel', 'plumbing', 'pool', 'solar', 'mini_split',
+] as const;
+export type CanonicalSystemKind = typeof CANONICAL_SYSTEMS[number];
 
 export interface SyncToCanonicalInput {
   home_id: string;
   kind: CanonicalSystemKind;
   manufactureYear?: number;
+  /** manufactureYear was decoded from the serial number, not read off a label */
+  serialDecoded?: boolean;
+  /** Documented install year (receipt/invoice) — wins over manufacture-year inference */
+  installYear?: number;
   confidence: number;
   source: SystemUpdateSource;
   photoUrl?: string;
@@ -60,6 +66,10 @@ function mapToInstallSource(source: SystemUpdateSource): string {
       return 'user'; // Photos are user-provided evidence
     case 'user_confirmed':
       return 'user';
+    case 'document_extraction':
+      return 'user'; // Owner-supplied paperwork
+    case 'serial_decode':
+      return 'user'; // Decoded from the owner's photo or paperwork
     case 'permit_record':
       return 'permit';
     case 'professional_override':
@@ -89,16 +99,25 @@ function canOverwrite(existing: string | null, incoming: string): boolean {
 interface InferInstallYearResult {
   year: number | null;
   isEstimated: boolean;
-  basis: 'serial_decode' | 'manufacture_year' | 'unknown';
+  basis: 'document' | 'serial_decode' | 'manufacture_year' | 'unknown';
 }
 
-function inferInstallYear(manufactureYear?: number, confidence?: number): InferInstallYearResult {
+function inferInstallYear(
+  manufactureYear?: number,
+  confidence?: number,
+  installYear?: number,
+  serialDecoded?: boolean
+): InferInstallYearResult {
+  if (installYear) {
+    return { year: installYear, isEstimated: false, basis: 'document' };
+  }
+
   if (!manufactureYear) {
     return { year: null, isEstimated: true, basis: 'unknown' };
   }
   
-  // If high confidence (serial decode worked), trust manufacture year exactly
-  if (confidence && confidence >= 0.7) {
+  // Serial decode worked (or high confidence), trust manufacture year exactly
+  if (serialDecoded || (confidence && confidence >= 0.7)) {
     return { year: manufactureYear, isEstimated: false, basis: 'serial_decode' };
   }
   
@@ -129,7 +148,7 @@ function generatePhotoHash(photoUrl: string, systemKind: string): string {
 export async function syncToCanonicalSystems(
   input: SyncToCanonicalInput
 ): Promise<SyncToCanonicalResult> {
-  const { home_id, kind, manufactureYear, confidence, source, photoUrl } = input;
+  const { home_id, kind, manufactureYear, serialDecoded, installYear, confidence, source, photoUrl } = input;
   
   // Map to canonical install_source
   const installSource = mapToInstallSource(source);
@@ -171,7 +190,7 @@ export async function syncToCanonicalSystems(
   }
   
   // 4. Infer install year with guardrails
-  const inferredYear = inferInstallYear(manufactureYear, confidence);
+  const inferredYear = inferInstallYear(manufactureYear, confidence, installYear, serialDecoded);
   
   // 5. Prepare photo hash for idempotency tracking
   const newPhotoHash = photoUrl ? generatePhotoHash(photoUrl, kind) : null;
@@ -291,6 +310,10 @@ export function isCanonicalSystem(systemKey: string): boolean {
 export function normalizeSystemKey(systemKey: string): string {
   const lower = systemKey.toLowerCase();
   
+  // Checked before HVAC so "hvac_mini_split" stays a mini-split
+  if (lower.includes('mini_split') || lower.includes('minisplit') || lower.includes('ductless')) {
+    return 'mini_split';
+  }
   if (lower.includes('hvac') || lower.includes('furnace') || lower.includes('air_condition')) {
     return 'hvac';
   }
@@ -300,6 +323,15 @@ export function normalizeSystemKey(systemKey: string): string {
   if (lower.includes('water_heater') || lower.includes('waterheater')) {
     return 'water_heater';
   }
+  if (lower.includes('electrical') || lower.includes('breaker_panel')) {
+    return 'electrical_panel';
+  }
+  if (lower.startsWith('pool')) {
+    return 'pool';
+  }
+  if (lower.startsWith('solar')) {
+    return 'solar';
+  }
   
   // Return first segment as fallback
   return lower.split('_')[0];
@@ -48,6 +48,27 @@ export const validateFileUpload = (file: File): { isValid: boolean; error?: stri
   return { isValid: true };
 };
 
+export const validateDocumentUpload = (file: File): { isValid: boolean; error?: string } => {
+  const allowedTypes = ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'text/plain'];
+  const maxSize = 10 * 1024 * 1024; // 10MB
+
+  if (!allowedTypes.includes(file.type)) {
+    return {
+      isValid: false,
+      error: 'File type not allowed. Upload a PDF, JPG, PNG, WebP, or plain text file.'
+    };
+  }
+
+  if (file.size > maxSize) {
+    return {
+      isValid: false,
+      error: 'File size too large. Maximum size is 10MB.'
+    };
+  }
+
+  return { isValid: true };
+};
+
 // Simple in-memory rate limiting
 const requestCounts = new Map<string, { count: number; resetTime: number }>();
 
@@ -3,9 +3,9 @@ import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
 
-// Service Worker disabled to avoid stale-cache during development and previews
-if ('serviceWorker' in navigator) {
-  // Unregister any existing service workers to prevent serving stale bundles
+// Dev builds must never serve stale bundles: drop any service
+// worker left behind. Production registers /sw.js through useServiceWorker.
+if (import.meta.env.DEV && 'serviceWorker' in navigator) {
   navigator.serviceWorker.getRegistrations?.().then((registrations) => {
     registrations.forEach((registration) => registration.unregister());
   });
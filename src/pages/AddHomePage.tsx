@@ -5,8 +5,8 @@ const AddHomePage = () => {
   const navigate = useNavigate();
 
   useEffect(() => {
-    // Redirect to new onboarding flow
-    navigate('/onboarding');
+    // Redirect to new onboarding flow in add mode so existing homes don't bounce it
+    navigate('/onboarding?mode=add');
   }, [navigate]);
 
   return (
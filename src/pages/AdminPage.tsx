@@ -8,7 +8,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { Shield, Users, Home, UserPlus, Loader2 } from 'lucide-react';
+import { Shield, Users, Home, UserPlus, Loader2, BarChart3 } from 'lucide-react';
+import { AnalyticsFunnelPanel } from '@/components/admin/AnalyticsFunnelPanel';
 
 interface UserRole {
   id: string;
@@ -136,7 +137,7 @@ const AdminPage = () => {
 
       <main className="container mx-auto px-4 py-8">
         <Tabs defaultValue="users" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="users" className="flex items-center">
               <Users className="h-4 w-4 mr-2" />
               Users
@@ -149,8 +150,16 @@ const AdminPage = () => {
               <UserPlus className="h-4 w-4 mr-2" />
               Create User
             </TabsTrigger>
+            <TabsTrigger value="analytics" className="flex items-center">
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Analytics
+            </TabsTrigger>
           </TabsList>
 
+          <TabsContent value="analytics">
+            <AnalyticsFunnelPanel />
+          </TabsContent>
+
           <TabsContent value="users">
             <Card>
               <CardHeader>
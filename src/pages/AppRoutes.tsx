@@ -16,6 +16,7 @@ import NotFound from "./NotFound";
 import OnboardingFlow from "./OnboardingFlow";
 import HomeSnapshotPage from "./HomeSnapshotPage";
 import HomeProfilePage from "./HomeProfilePage";
+import PortfolioPage from "./PortfolioPage";
 import MaintenancePlanner from "./MaintenancePlanner";
 import PropertyIntelligence from "./PropertyIntelligence";
 import ProjectDashboard from "@/components/ProjectDashboard";
@@ -33,6 +34,7 @@ import MobilePhotoCaptureRoute from "./MobilePhotoCaptureRoute";
 // HomeReportPage removed — merged into HomeProfilePage
 import MaintenancePage from "./MaintenancePage";
 import MobileChatPage from "./MobileChatPage";
+import InviteAcceptPage from "./InviteAcceptPage";
 
 export function AppRoutes() {
   return (
@@ -58,6 +60,13 @@ export function AppRoutes() {
             </ProtectedRoute>
           } />
           
+          {/* Household invitation: emailed link to join a shared home */}
+          <Route path="/invite/:token" element={
+            <ProtectedRoute>
+              <InviteAcceptPage />
+            </ProtectedRoute>
+          } />
+          
           {/* Mobile Chat: Full-page route */}
           <Route path="/chat" element={
             <ProtectedRoute>
@@ -93,6 +102,13 @@ export function AppRoutes() {
             </ProtectedRoute>
           } />
           
+          {/* Portfolio: Rollup across all of the user's homes */}
+          <Route path="/portfolio" element={
+            <ProtectedRoute>
+              <PortfolioPage />
+            </ProtectedRoute>
+          } />
+          
           {/* Home Profile: Uses V3 layout */}
           <Route path="/home-profile" element={
             <ProtectedRoute>
@@ -26,16 +26,26 @@ const AuthPage = () => {
   const { user } = useAuth();
   const { toast } = useToast();
 
+  // Invitation links send people here first; bring them back after sign-in
+  const fromPath = (location.state as { from?: { pathname?: string } } | null)?.from?.pathname;
+  const invitePath = fromPath?.startsWith('/invite/') ? fromPath : null;
+  const postAuthPath = invitePath ?? '/dashboard';
+
   // Redirect if already authenticated
   React.useEffect(() => {
     if (!user) return;
+
+    if (invitePath) {
+      navigate(invitePath, { replace: true });
+      return;
+    }
     
     const checkHomesAndRedirect = async () => {
       try {
+        // RLS scopes this to homes the user owns or is a member of
         const { count } = await supabase
           .from('homes')
-          .select('*', { count: 'exact', head: true })
-          .eq('user_id', user.id);
+          .select('*', { count: 'exact', head: true });
         
         if (count === 0) {
           navigate('/onboarding', { replace: true });
@@ -48,7 +58,7 @@ const AuthPage = () => {
     };
     
     checkHomesAndRedirect();
-  }, [user, navigate]);
+  }, [user, navigate, invitePath]);
 
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -71,7 +81,7 @@ const AuthPage = () => {
           email: formData.email,
           password: formData.password,
           options: {
-            emailRedirectTo: `${window.location.origin}/dashboard`,
+            emailRedirectTo: `${window.location.origin}${postAuthPath}`,
             data: {
               full_name: formData.fullName,
               phone: formData.phone,
@@ -119,7 +129,7 @@ const AuthPage = () => {
       const { error } = await supabase.auth.signInWithOAuth({
         provider: 'google',
         options: {
-          redirectTo: `${window.location.origin}/dashboard`
+          redirectTo: `${window.location.origin}${postAuthPath}`
         }
       });
 
@@ -29,6 +29,7 @@ import type { RiskLevel } from "@/types/advisorState";
 import type { Recommendation } from "@/services/recommendationEngine";
 import { RECOMMENDATION_CHAT_OPENERS } from "@/lib/mobileCopy";
 import { getSystemDisplayName } from "@/lib/mobileCopy";
+import { completeMaintenanceTask } from "@/lib/maintenancePlanner";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
 import BottomNavigation from "@/components/BottomNavigation";
 
@@ -400,16 +401,9 @@ export default function DashboardV3() {
     if (!userHome?.id) return;
 
     try {
-      // Update task status in canonical maintenance_tasks table
-      const { error } = await supabase
-        .from('maintenance_tasks')
-        .update({
-          status: 'completed',
-          completed_date: new Date().toISOString().slice(0, 10),
-        })
-        .eq('id', taskId);
-      
-      if (error) throw error;
+      // Complete in canonical maintenance_tasks table (schedules the next
+      // occurrence of a recurring task)
+      await completeMaintenanceTask(taskId);
       
       // Show success toast
       toast.success("Task completed", {
@@ -757,6 +751,9 @@ function DesktopLayout({
                   loading={forecastLoading || hvacLoading || timelineLoading}
                   city={userHome.city}
                   state={userHome.state}
+                  zipCode={userHome.zip_code}
+                  fipsCode={userHome.fips_code}
+                  latitude={userHome.latitude}
                   homeId={userHome.id}
                   yearBuilt={userHome.year_built}
                   maintenanceTasks={maintenanceTasks?.map((t: any) => ({
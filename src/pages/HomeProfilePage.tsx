@@ -1,19 +1,29 @@
 import { Loader2, ChevronDown } from 'lucide-react';
 import { DashboardV3Layout } from '@/layouts/DashboardV3Layout';
 import { useChatContext } from '@/contexts/ChatContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { useHomeReport } from '@/hooks/useHomeReport';
 import { useSystemsData } from '@/hooks/useSystemsData';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useHomeDocuments, type HomeDocument } from '@/hooks/useHomeDocuments';
+import { useHomeMembers } from '@/hooks/useHomeMembers';
+import { HOME_ROLE_CAPABILITIES, memberDisplayName } from '@/lib/homeMembership';
+import { useUserHome } from '@/hooks/useUserHome';
+import { getDocumentUrl } from '@/lib/documentIngestion';
+import { validateDocumentUpload } from '@/lib/validation';
 
 // Report sections
 import { ReportHeader } from '@/components/report/ReportHeader';
 import { PropertyOverviewSection } from '@/components/report/PropertyOverviewSection';
 import { AssetInventorySection } from '@/components/report/AssetInventorySection';
 import { CapitalOutlookSection } from '@/components/report/CapitalOutlookSection';
+import { CapitalOutlookCard } from '@/components/CapitalOutlookCard';
+import { ReservePlannerCard } from '@/components/ReservePlannerCard';
 import { OpenIssuesSection } from '@/components/report/OpenIssuesSection';
 import { ResolvedHistorySection } from '@/components/report/ResolvedHistorySection';
 import { ReplacementsSection } from '@/components/report/ReplacementsSection';
+import { WarrantiesSection } from '@/components/report/WarrantiesSection';
 import { SaleHistorySection } from '@/components/report/SaleHistorySection';
 import { DeferredRecommendationsSection } from '@/components/report/DeferredRecommendationsSection';
 import { CoverageSummarySection } from '@/components/report/CoverageSummarySection';
@@ -34,25 +44,68 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/component
 // ─── Chat CTA Wrappers ─────────────────────────────────────────────────────
 // These must render inside DashboardV3Layout to access ChatContext.
 
-function SupportingRecordsWithChat() {
-  const { openChat } = useChatContext();
+function SupportingRecordsWithData({ homeId }: { homeId: string }) {
+  const { documents, uploadDocument, isUploading, retryExtraction } = useHomeDocuments(homeId);
+
+  const handleUpload = async (file: File) => {
+    const validation = validateDocumentUpload(file);
+    if (!validation.isValid) {
+      toast.error(validation.error);
+      return;
+    }
+    try {
+      const result = await uploadDocument({ file });
+      if (result.error) {
+        toast.warning('Record saved, but we couldn\'t read it yet');
+      } else if (result.systemUpdate) {
+        toast.success(result.systemUpdate.chat_summary);
+      } else {
+        toast.success('Record saved');
+      }
+    } catch (err) {
+      console.error('Error uploading document:', err);
+      toast.error('Failed to upload record');
+    }
+  };
+
+  const handleView = async (doc: HomeDocument) => {
+    const url = await getDocumentUrl(doc.storagePath);
+    if (url) {
+      window.open(url, '_blank', 'noopener');
+    } else {
+      toast.error('Could not open record');
+    }
+  };
+
+  const handleRetry = async (doc: HomeDocument) => {
+    const result = await retryExtraction(doc.id);
+    if (result.error) {
+      toast.error('Still couldn\'t read this record');
+    }
+  };
+
   return (
     <SupportingRecords
-      documents={[]}
-      onUploadRecord={() => openChat({ type: 'supporting_record', trigger: 'upload' })}
+      documents={documents}
+      isUploading={isUploading}
+      onUploadFile={handleUpload}
+      onViewDocument={handleView}
+      onRetryExtraction={handleRetry}
     />
   );
 }
 
 function HomeActivityLogWithData({ homeId }: { homeId: string }) {
   const { openChat } = useChatContext();
+  const { user } = useAuth();
+  const { memberByUserId } = useHomeMembers(homeId);
 
   const { data: homeEvents } = useQuery({
     queryKey: ['home-activity-events', homeId],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('home_events')
-        .select('id, event_type, title, description, metadata, created_at')
+        .select('id, event_type, title, description, metadata, created_at, recorded_by')
         .eq('home_id', homeId)
         .in('event_type', [
           'system_discovered', 'issue_reported', 'repair_completed',
@@ -75,6 +128,10 @@ function HomeActivityLogWithData({ homeId }: { homeId: string }) {
       category: meta.system_type || meta.kind || meta.category || 'Home',
       notes: event.description || undefined,
       contractor: meta.contractor || undefined,
+      recordedBy:
+        event.recorded_by && event.recorded_by !== user?.id
+          ? memberDisplayName(memberByUserId.get(event.recorded_by))
+          : undefined,
     };
   });
 
@@ -90,7 +147,9 @@ function HomeActivityLogWithData({ homeId }: { homeId: string }) {
 
 function HomeRecordContent() {
   const report = useHomeReport();
+  const { userHome } = useUserHome();
   const { systems: systemsData } = useSystemsData(report.homeId || '');
+  const canEditHome = !!userHome && HOME_ROLE_CAPABILITIES[userHome.role].editHome;
 
   const handleDownloadPdf = () => {
     try {
@@ -185,6 +244,8 @@ function HomeRecordContent() {
           propertyType={report.home.property_type}
           city={report.home.city}
           state={report.home.state}
+          zipCode={report.home.zip_code}
+          fipsCode={report.home.fips_code}
           lat={report.home.lat}
         />
       )}
@@ -198,6 +259,18 @@ function HomeRecordContent() {
       {/* 6. Capital Outlook */}
       <CapitalOutlookSection systems={report.capitalOutlook} />
 
+      {/* 6b. Capital roll-up and reserve plan */}
+      {report.homeId && report.home && report.capitalTimeline && report.capitalTimeline.systems.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-2">
+          <CapitalOutlookCard outlook={report.capitalTimeline.capitalOutlook} />
+          <ReservePlannerCard
+            homeId={report.homeId}
+            systems={report.capitalTimeline.systems}
+            canEdit={canEditHome}
+          />
+        </div>
+      )}
+
       {/* 7. Open Issues */}
       <OpenIssuesSection issues={report.openIssues} />
 
@@ -210,15 +283,16 @@ function HomeRecordContent() {
         lastSale={report.lastSale}
       />
 
-      {/* 10. Replacements */}
+      {/* 10. Replacements & warranties */}
       <ReplacementsSection items={report.replacements} />
+      <WarrantiesSection warranties={report.warranties} />
 
       {/* 11. Deferred Recommendations */}
       <DeferredRecommendationsSection items={report.deferredRecommendations} />
 
       {/* 12. Permits & Construction History (visible by default) */}
       {report.homeId && report.fullAddress && (
-        <PermitsHistory homeId={report.homeId} address={report.fullAddress} />
+        <PermitsHistory homeId={report.homeId} address={report.fullAddress} canEdit={canEditHome} />
       )}
 
       {/* 13-14. Supporting records & activity log (collapsed by default) */}
@@ -230,7 +304,7 @@ function HomeRecordContent() {
           </CollapsibleTrigger>
           <CollapsibleContent className="space-y-8 pt-4">
             {/* 13. Supporting Records */}
-            <SupportingRecordsWithChat />
+            <SupportingRecordsWithData homeId={report.homeId} />
 
             {/* 14. Home Activity Log */}
             <HomeActivityLogWithData homeId={report.homeId} />
@@ -8,6 +8,7 @@ import { CapitalOutlookSection } from '@/components/report/CapitalOutlookSection
 import { OpenIssuesSection } from '@/components/report/OpenIssuesSection';
 import { ResolvedHistorySection } from '@/components/report/ResolvedHistorySection';
 import { ReplacementsSection } from '@/components/report/ReplacementsSection';
+import { WarrantiesSection } from '@/components/report/WarrantiesSection';
 import { SaleHistorySection } from '@/components/report/SaleHistorySection';
 import { DeferredRecommendationsSection } from '@/components/report/DeferredRecommendationsSection';
 import { CoverageSummarySection } from '@/components/report/CoverageSummarySection';
@@ -127,6 +128,8 @@ export default function HomeReportPage() {
 
             <ReplacementsSection items={report.replacements} />
 
+            <WarrantiesSection warranties={report.warranties} />
+
             <DeferredRecommendationsSection
               items={report.deferredRecommendations}
             />
@@ -0,0 +1,120 @@
+/**
+ * InviteAcceptPage — Join a home from an emailed invitation
+ *
+ * Route: /invite/:token (protected; AuthPage returns here after sign-in)
+ * Shows which home and role the invitation is for, then adds the signed-in
+ * user as a member and switches to that home.
+ */
+
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserHome } from '@/hooks/useUserHome';
+import {
+  acceptInvitation,
+  invitationStatus,
+  previewInvitation,
+  HOME_ROLE_DESCRIPTIONS,
+  HOME_ROLE_LABELS,
+} from '@/lib/homeMembership';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, Users } from 'lucide-react';
+
+export default function InviteAcceptPage() {
+  const { token = '' } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { refreshHome, selectHome } = useUserHome();
+  const [accepting, setAccepting] = useState(false);
+  const [acceptError, setAcceptError] = useState<string | null>(null);
+
+  const { data: preview, isLoading, error } = useQuery({
+    queryKey: ['home-invitation', token],
+    queryFn: () => previewInvitation(token),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const handleAccept = async () => {
+    setAccepting(true);
+    setAcceptError(null);
+    try {
+      const { homeId } = await acceptInvitation(token);
+      await refreshHome();
+      selectHome(homeId);
+      navigate('/dashboard', { replace: true });
+    } catch (err) {
+      setAcceptError(err instanceof Error ? err.message : 'Failed to accept invitation');
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const status = preview ? invitationStatus({ status: preview.status, expires_at: preview.expiresAt }) : null;
+  const unavailable =
+    error instanceof Error
+      ? error.message
+      : status === 'accepted'
+        ? 'This invitation has already been used.'
+        : status === 'revoked'
+          ? 'This invitation was cancelled.'
+          : status === 'expired'
+            ? 'This invitation has expired. Ask for a new one.'
+            : null;
+  const wrongAccount =
+    preview && user?.email && user.email.toLowerCase() !== preview.email.toLowerCase();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="flex items-center justify-center gap-2">
+            <Users className="w-5 h-5" />
+            Join a home on Habitta
+          </CardTitle>
+          {preview?.home && (
+            <CardDescription>
+              {preview.home.address}, {preview.home.city}, {preview.home.state}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {unavailable ? (
+            <p className="text-sm text-muted-foreground text-center">{unavailable}</p>
+          ) : preview ? (
+            <>
+              <div className="text-center space-y-1">
+                <p className="text-sm">
+                  You've been invited as a <strong>{HOME_ROLE_LABELS[preview.role].toLowerCase()}</strong>.
+                </p>
+                <p className="text-xs text-muted-foreground">{HOME_ROLE_DESCRIPTIONS[preview.role]}.</p>
+              </div>
+              {wrongAccount && (
+                <p className="text-sm text-destructive text-center">
+                  This invitation was sent to {preview.email}. You're signed in as {user?.email}.
+                </p>
+              )}
+              {acceptError && <p className="text-sm text-destructive text-center">{acceptError}</p>}
+              <Button className="w-full" onClick={handleAccept} disabled={accepting || !!wrongAccount}>
+                {accepting ? 'Joining...' : 'Accept Invitation'}
+              </Button>
+            </>
+          ) : null}
+          <Button variant="ghost" className="w-full" onClick={() => navigate('/dashboard')}>
+            Go to dashboard
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
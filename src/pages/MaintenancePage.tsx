@@ -1,20 +1,23 @@
 import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
 import { useUserHome } from "@/contexts/UserHomeContext";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Calendar, List, Plus, Filter, Wrench, AlertTriangle, MessageCircle } from "lucide-react";
+import { Calendar, CalendarPlus, List, Plus, Filter, Wrench, AlertTriangle, MessageCircle } from "lucide-react";
 import { MaintenanceTimelineView } from "@/components/maintenance/MaintenanceTimelineView";
 import { MaintenanceCalendarView } from "@/components/maintenance/MaintenanceCalendarView";
 import { MobileMaintenanceView } from "@/components/maintenance/MobileMaintenanceView";
 import { SystemFilterChips } from "@/components/maintenance/SystemFilterChips";
 import { AddTaskDialog } from "@/components/maintenance/AddTaskDialog";
+import { CalendarSubscribeDialog } from "@/components/maintenance/CalendarSubscribeDialog";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
-import { deriveClimateZone } from "@/lib/climateZone";
+import { deriveHomeClimateZone } from "@/lib/climateZone";
+import { applyTaskStatusChange, snoozeMaintenanceTask } from "@/lib/maintenancePlanner";
 import { DashboardV3Layout } from "@/layouts/DashboardV3Layout";
 import { useChatContext } from "@/contexts/ChatContext";
 
@@ -32,6 +35,7 @@ interface MaintenanceTask {
   created_at: string;
   updated_at: string;
   completed_date?: string;
+  performed_by?: string | null;
 }
 
 export default function MaintenancePage() {
@@ -54,6 +58,7 @@ function MaintenancePageContent() {
   const [generateTimeout, setGenerateTimeout] = useState(false);
   const [activeView, setActiveView] = useState<"timeline" | "calendar">("timeline");
   const [showAddTask, setShowAddTask] = useState(false);
+  const [showCalendarFeed, setShowCalendarFeed] = useState(false);
   const [filterStatus, setFilterStatus] = useState("all");
   const [filterPriority, setFilterPriority] = useState("all");
   const [filterSystem, setFilterSystem] = useState("all");
@@ -101,6 +106,19 @@ function MaintenancePageContent() {
 
   const handleTaskUpdate = async (taskId: string, updates: Partial<MaintenanceTask>) => {
     try {
+      const current = tasks.find(t => t.id === taskId);
+      const action = applyTaskStatusChange(taskId, current?.status, updates.status);
+      if (action) {
+        const { next } = await action;
+        toast({
+          title: "Task updated",
+          description: next?.due_date
+            ? `Status changed to ${updates.status}. Next due ${format(new Date(`${next.due_date}T00:00:00`), "MMM d, yyyy")}.`
+            : `Status changed to ${updates.status}.`,
+        });
+        return;
+      }
+
       const { error } = await supabase
         .from("maintenance_tasks")
         .update({ ...updates, updated_at: new Date().toISOString() })
@@ -109,7 +127,10 @@ function MaintenancePageContent() {
       if (error) {
         toast({ title: "Error updating task", description: error.message, variant: "destructive" });
       } else {
-        toast({ title: "Task updated", description: `Status changed to ${updates.status || "updated"}.` });
+        toast({
+          title: "Task updated",
+          description: updates.status ? `Status changed to ${updates.status}.` : "Your maintenance record has been updated.",
+        });
       }
     } catch (error: any) {
       console.error("Task update failed:", error);
@@ -117,6 +138,16 @@ function MaintenancePageContent() {
     }
   };
 
+  const handleTaskSnooze = async (taskId: string) => {
+    try {
+      const { task } = await snoozeMaintenanceTask(taskId);
+      toast({ title: "Task snoozed", description: `Now due ${format(new Date(`${task.due_date}T00:00:00`), "MMM d, yyyy")}.` });
+    } catch (error) {
+      console.error("Task snooze failed:", error);
+      toast({ title: "Error snoozing task", description: (error as Error)?.message || "Please try again.", variant: "destructive" });
+    }
+  };
+
   const generateSeasonalPlan = async () => {
     if (!userHome?.id) return;
     setGenerating(true);
@@ -126,9 +157,9 @@ function MaintenancePageContent() {
     const timeoutId = setTimeout(() => setGenerateTimeout(true), 10000);
     
     try {
-      const climateZone = deriveClimateZone(userHome.state, userHome.city, userHome.latitude);
+      // The function resolves the zone from the home row, same as deriveHomeClimateZone below
       const { data, error } = await supabase.functions.invoke("seed-maintenance-plan", {
-        body: { homeId: userHome.id, months: 12, force: false, climateZone: climateZone.zone },
+        body: { homeId: userHome.id, months: 12, force: false },
       });
       if (error) throw error;
       toast({
@@ -152,7 +183,7 @@ function MaintenancePageContent() {
     completed: tasks.filter(t => t.status === "completed").length,
   };
 
-  const climateZone = userHome ? deriveClimateZone(userHome.state, userHome.city, userHome.latitude) : null;
+  const climateZone = userHome ? deriveHomeClimateZone(userHome) : null;
 
   // ── Mobile Layout ──
   if (isMobile) {
@@ -338,22 +369,31 @@ function MaintenancePageContent() {
 
       {/* View tabs */}
       <Tabs value={activeView} onValueChange={(v) => setActiveView(v as "timeline" | "calendar")}>
-        <TabsList>
-          <TabsTrigger value="timeline">
-            <List className="h-4 w-4 mr-2" />
-            Timeline
-          </TabsTrigger>
-          <TabsTrigger value="calendar">
-            <Calendar className="h-4 w-4 mr-2" />
-            Calendar
-          </TabsTrigger>
-        </TabsList>
+        <div className="flex items-center justify-between gap-4">
+          <TabsList>
+            <TabsTrigger value="timeline">
+              <List className="h-4 w-4 mr-2" />
+              Timeline
+            </TabsTrigger>
+            <TabsTrigger value="calendar">
+              <Calendar className="h-4 w-4 mr-2" />
+              Calendar
+            </TabsTrigger>
+          </TabsList>
+          {userHome?.id && (
+            <Button variant="outline" size="sm" onClick={() => setShowCalendarFeed(true)}>
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              Subscribe in calendar
+            </Button>
+          )}
+        </div>
 
         <TabsContent value="timeline">
           <MaintenanceTimelineView
             tasks={tasks}
             loading={loading}
             onTaskUpdate={handleTaskUpdate}
+            onTaskSnooze={handleTaskSnooze}
             homeId={userHome?.id}
           />
         </TabsContent>
@@ -373,6 +413,12 @@ function MaintenancePageContent() {
         homeId={userHome?.id || ""}
         onTaskAdded={fetchTasks}
       />
+
+      <CalendarSubscribeDialog
+        open={showCalendarFeed}
+        onOpenChange={setShowCalendarFeed}
+        homeId={userHome?.id || ""}
+      />
     </div>
   );
 }
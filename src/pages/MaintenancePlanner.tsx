@@ -11,6 +11,7 @@ import { MaintenanceCalendarView } from "@/components/maintenance/MaintenanceCal
 import { AddTaskDialog } from "@/components/maintenance/AddTaskDialog";
 import { useToast } from "@/hooks/use-toast";
 import { useHomeIntelligence } from "@/hooks/useHomeIntelligence";
+import { applyTaskStatusChange, snoozeMaintenanceTask } from "@/lib/maintenancePlanner";
 
 interface MaintenanceTask {
   id: string;
@@ -25,6 +26,7 @@ interface MaintenanceTask {
   created_at: string;
   updated_at: string;
   completed_date?: string;
+  performed_by?: string | null;
 }
 
 export default function MaintenancePlanner() {
@@ -146,6 +148,19 @@ export default function MaintenancePlanner() {
     console.log('Updating task:', taskId, updates);
     
     try {
+      const current = tasks.find(t => t.id === taskId);
+      const action = applyTaskStatusChange(taskId, current?.status, updates.status);
+      if (action) {
+        const { next } = await action;
+        toast({
+          title: "Task Updated",
+          description: next?.due_date
+            ? `Task status changed to ${updates.status}. Next due ${new Date(`${next.due_date}T00:00:00`).toLocaleDateString()}.`
+            : `Task status changed to ${updates.status}.`,
+        });
+        return;
+      }
+
       const { data, error } = await supabase
         .from("maintenance_tasks")
         .update({
@@ -169,7 +184,7 @@ export default function MaintenancePlanner() {
       
       toast({
         title: "Task Updated",
-        description: `Task status changed to ${updates.status || 'updated'}.`,
+        description: updates.status ? `Task status changed to ${updates.status}.` : "Your maintenance record has been updated.",
       });
     } catch (err: any) {
       console.error('Task update exception:', err);
@@ -181,6 +196,23 @@ export default function MaintenancePlanner() {
     }
   };
 
+  const handleTaskSnooze = async (taskId: string) => {
+    try {
+      const { task } = await snoozeMaintenanceTask(taskId);
+      toast({
+        title: "Task Snoozed",
+        description: `Now due ${new Date(`${task.due_date}T00:00:00`).toLocaleDateString()}.`,
+      });
+    } catch (err) {
+      console.error('Task snooze exception:', err);
+      toast({
+        title: "Error Snoozing Task",
+        description: (err as Error).message || "Failed to snooze task.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const generateSeasonalPlan = async () => {
     if (!selectedHome) return;
 
@@ -444,6 +476,7 @@ export default function MaintenancePlanner() {
             tasks={tasks} 
             loading={loading}
             onTaskUpdate={handleTaskUpdate}
+            onTaskSnooze={handleTaskSnooze}
             homeId={selectedHome}
           />
         </TabsContent>
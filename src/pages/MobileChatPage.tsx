@@ -1,8 +1,7 @@
 import { useMemo, useCallback } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
-import { useAuth } from "@/contexts/AuthContext";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
+import { useUserHome } from "@/contexts/UserHomeContext";
+import { useQueryClient } from "@tanstack/react-query";
 import { useCapitalTimeline } from "@/hooks/useCapitalTimeline";
 import { useHomeConfidence } from "@/hooks/useHomeConfidence";
 import { useChatMode } from "@/hooks/useChatMode";
@@ -27,26 +26,12 @@ interface MobileChatIntent {
 export default function MobileChatPage() {
   const navigate = useNavigate();
   const location = useLocation();
-  const { user } = useAuth();
 
   // Read intent from navigation state
   const intent: MobileChatIntent | null = (location.state as any)?.intent ?? null;
 
-  // Fetch user home
-  const { data: userHome, isLoading: homeLoading } = useQuery({
-    queryKey: ['user-home', user?.id],
-    queryFn: async () => {
-      if (!user) return null;
-      const { data, error } = await supabase
-        .from('homes')
-        .select('id, year_built')
-        .eq('user_id', user.id)
-        .maybeSingle();
-      if (error) throw error;
-      return data;
-    },
-    enabled: !!user,
-  });
+  // Selected home from shared context (follows the home switcher)
+  const { userHome, loading: homeLoading } = useUserHome();
 
   // Capital timeline for baseline systems
   const { timeline, loading: timelineLoading } = useCapitalTimeline({
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { GooglePlacesAutocomplete } from "@/components/onboarding/GooglePlacesAutocomplete";
@@ -11,6 +11,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { Loader2, ArrowRight, ChevronLeft } from "lucide-react";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
+import { useUserHome } from "@/contexts/UserHomeContext";
+import { trackWithContext, FUNNEL_EVENTS } from "@/lib/analytics";
 
 interface PlaceDetails {
   place_id: string;
@@ -96,6 +98,10 @@ function clearOnboardingProgress() {
 
 export default function OnboardingFlow() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Adding a second (or later) home — skip the "already has a home" redirect
+  const isAddingHome = searchParams.get('mode') === 'add';
+  const { selectHome, refreshHome } = useUserHome();
   const { user } = useAuth();
   const [step, setStep] = useState<Step>('address');
   const [isLoading, setIsLoading] = useState(false);
@@ -169,13 +175,13 @@ export default function OnboardingFlow() {
       setIsFirstHome((count || 0) === 0);
 
       // Redirect ONLY if already has a home AND we're not in an active onboarding session
-      if (homes && homes.length > 0 && step === 'address') {
+      if (homes && homes.length > 0 && step === 'address' && !isAddingHome) {
         navigate('/dashboard', { replace: true });
       }
     };
 
     checkExistingHome();
-  }, [user, navigate, hasRestoredProgress, step]);
+  }, [user, navigate, hasRestoredProgress, step, isAddingHome]);
 
   // Subscribe to real-time updates for confidence changes during enrichment
   useEffect(() => {
@@ -324,9 +330,20 @@ export default function OnboardingFlow() {
           payload.installMetadata = { user_acknowledged_unknown: true };
         }
         
-        return supabase.functions.invoke('update-system-install', {
+        const result = await supabase.functions.invoke('update-system-install', {
           body: payload,
         });
+
+        if (!result.error && answer.choice !== 'unknown') {
+          trackWithContext(
+            FUNNEL_EVENTS.SYSTEM_CONFIRMED,
+            user?.id,
+            state.home_id ?? undefined,
+            { system_key: key, replacement_status: answer.choice },
+            { surface: 'onboarding', system_slug: key }
+          );
+        }
+        return result;
       });
       
       await Promise.all(updatePromises);
@@ -347,6 +364,18 @@ export default function OnboardingFlow() {
   // Handle final navigation to dashboard
   const handleContinueToDashboard = () => {
     clearOnboardingProgress(); // Clear saved progress on successful completion
+    trackWithContext(
+      FUNNEL_EVENTS.ONBOARDING_COMPLETED,
+      user?.id,
+      state.home_id ?? undefined,
+      { is_first_home: isFirstHome },
+      { surface: 'onboarding' }
+    );
+    if (state.home_id) {
+      // Land on the home just created, not whichever home was selected before
+      selectHome(state.home_id);
+      refreshHome();
+    }
     navigate('/dashboard', { replace: true });
   };
 
@@ -441,6 +470,7 @@ export default function OnboardingFlow() {
               yearBuilt={state.snapshot?.year_built ?? undefined}
               city={state.snapshot?.city}
               state={state.snapshot?.state}
+              zipCode={state.selectedAddress?.postal_code}
               onComplete={handleSystemsComplete}
               onSkip={handleSkip}
               isSubmitting={isLoading}
@@ -0,0 +1,126 @@
+import { useNavigate } from 'react-router-dom';
+import { Loader2, Plus, ChevronRight } from 'lucide-react';
+import { DashboardV3Layout } from '@/layouts/DashboardV3Layout';
+import { useUserHome } from '@/hooks/useUserHome';
+import { usePortfolio } from '@/hooks/usePortfolio';
+import { CapitalOutlookCard } from '@/components/CapitalOutlookCard';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { PortfolioHomeSnapshot } from '@/services/portfolioRollup';
+
+const formatAmount = (amount: number) =>
+  amount >= 1000 ? `$${(amount / 1000).toFixed(0)}k` : `$${amount}`;
+
+function tenYearRange(home: PortfolioHomeSnapshot): string | null {
+  const horizon = home.timeline?.capitalOutlook.horizons.find(h => h.yearsAhead === 10);
+  if (!horizon) return null;
+  return `${formatAmount(horizon.lowEstimate)}–${formatAmount(horizon.highEstimate)}`;
+}
+
+// ─── Main Page ──────────────────────────────────────────────────────────────
+
+function PortfolioContent() {
+  const navigate = useNavigate();
+  const { selectHome, selectedHomeId } = useUserHome();
+  const { homes, rollup, loading } = usePortfolio();
+
+  const openHome = (homeId: string) => {
+    selectHome(homeId);
+    navigate('/dashboard');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-6 space-y-6 pb-24 md:pb-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold tracking-tight">Your homes</h1>
+          <p className="text-sm text-muted-foreground">
+            {rollup.homeCount === 1 ? '1 home' : `${rollup.homeCount} homes`} in your portfolio
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => navigate('/home/new')}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add a home
+        </Button>
+      </div>
+
+      {/* Combined capital exposure */}
+      <CapitalOutlookCard outlook={rollup.capitalOutlook} />
+      {rollup.homesMissingTimeline > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {rollup.homesMissingTimeline === 1
+            ? "1 home's outlook isn't available yet and is not included."
+            : `${rollup.homesMissingTimeline} homes' outlooks aren't available yet and are not included.`}
+        </p>
+      )}
+
+      {/* Combined Home Confidence */}
+      {rollup.confidence && (
+        <Card className="rounded-2xl">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Portfolio Confidence</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            <div className="flex items-baseline gap-2">
+              <span className="text-2xl font-bold capitalize">{rollup.confidence.state}</span>
+              <span className="text-sm text-muted-foreground">{rollup.confidence.score}/100 average</span>
+            </div>
+            <p className="text-sm text-muted-foreground">{rollup.confidence.stateMeaning}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Per-home rows */}
+      <div className="space-y-3">
+        {homes.map(home => {
+          const range = tenYearRange(home);
+          const isWeakest = rollup.homeCount > 1 && rollup.confidence?.weakestHomeId === home.homeId;
+          return (
+            <button
+              key={home.homeId}
+              onClick={() => openHome(home.homeId)}
+              className="w-full text-left bg-card rounded-lg border border-border p-4 flex items-center justify-between gap-4 hover:bg-muted/50 transition-colors"
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium truncate">{home.address}</p>
+                  {home.homeId === selectedHomeId && (
+                    <Badge variant="outline">Current</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {home.city}, {home.state}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {range ? `${range} over 10 years` : 'Outlook not yet available'}
+                  {home.confidence && ` · Confidence ${home.confidence.score}`}
+                  {isWeakest && ' · Least documented'}
+                </p>
+              </div>
+              <ChevronRight className="h-4 w-4 text-muted-foreground shrink-0" />
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+const PortfolioPage = () => {
+  return (
+    <DashboardV3Layout>
+      <PortfolioContent />
+    </DashboardV3Layout>
+  );
+};
+
+export default PortfolioPage;
@@ -1,33 +1,28 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
+import { useUserHome } from "@/contexts/UserHomeContext";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
 import { MapPin, Save, User, LogOut, FileText } from "lucide-react";
-
-interface UserHome {
-  id: string;
-  address: string;
-  city: string;
-  state: string;
-  zip_code: string;
-  property_id?: string;
-  latitude?: number;
-  longitude?: number;
-}
+import { HouseholdMembersCard } from "@/components/HouseholdMembersCard";
+import { NotificationSettingsCard } from "@/components/NotificationSettingsCard";
+import { HOME_ROLE_CAPABILITIES } from "@/lib/homeMembership";
 
 export default function SettingsPage() {
   const { user, signOut } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
-  const [userHome, setUserHome] = useState<UserHome | null>(null);
-  const [loading, setLoading] = useState(true);
+  // Edits apply to the home selected in the header switcher
+  const { userHome, homes, selectHome, loading, updateHome, refreshHome } = useUserHome();
   const [saving, setSaving] = useState(false);
+  const canEditHome = !userHome || HOME_ROLE_CAPABILITIES[userHome.role].editHome;
   
   // Form state
   const [address, setAddress] = useState("");
@@ -35,50 +30,29 @@ export default function SettingsPage() {
   const [state, setState] = useState("");
   const [zipCode, setZipCode] = useState("");
 
+  // Reset the form whenever a different home is selected or its saved address
+  // changes; keyed on the values so a refetch of the same home keeps edits
+  const savedHomeId = userHome?.id;
+  const savedAddress = userHome?.address;
+  const savedCity = userHome?.city;
+  const savedState = userHome?.state;
+  const savedZipCode = userHome?.zip_code;
   useEffect(() => {
-    if (!user) return;
-
-    const fetchUserHome = async () => {
-      try {
-        const { data, error } = await supabase
-          .from('homes')
-          .select('*')
-          .eq('user_id', user.id)
-          .order('created_at', { ascending: true })
-          .limit(1)
-          .maybeSingle();
-
-        if (error) throw error;
-        
-        if (data) {
-          setUserHome(data);
-          setAddress(data.address);
-          setCity(data.city);
-          setState(data.state);
-          setZipCode(data.zip_code);
-        }
-      } catch (error) {
-        console.error('Error fetching user home:', error);
-        toast({
-          title: "Error",
-          description: "Failed to load your address information.",
-          variant: "destructive",
-        });
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchUserHome();
-  }, [user, toast]);
+    if (!savedHomeId) return;
+    setAddress(savedAddress ?? "");
+    setCity(savedCity ?? "");
+    setState(savedState ?? "");
+    setZipCode(savedZipCode ?? "");
+  }, [savedHomeId, savedAddress, savedCity, savedState, savedZipCode]);
 
   const handleSaveAddress = async () => {
     if (!user) return;
 
     setSaving(true);
     try {
+      // user_id is only set on create; co-owners editing a shared home
+      // must not take over ownership
       const addressData = {
-        user_id: user.id,
         address: address.trim(),
         city: city.trim(),
         state: state.trim(),
@@ -93,16 +67,18 @@ export default function SettingsPage() {
           .eq('id', userHome.id);
 
         if (error) throw error;
+        updateHome(addressData);
       } else {
         // Create new home
         const { data, error } = await supabase
           .from('homes')
-          .insert([addressData])
+          .insert([{ ...addressData, user_id: user.id }])
           .select()
           .single();
 
         if (error) throw error;
-        setUserHome(data);
+        selectHome(data.id);
+        await refreshHome();
       }
 
       toast({
@@ -189,6 +165,24 @@ export default function SettingsPage() {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          {homes.length > 1 && (
+            <div className="grid w-full items-center gap-1.5">
+              <Label htmlFor="home-select">Home</Label>
+              <Select value={userHome?.id} onValueChange={selectHome}>
+                <SelectTrigger id="home-select">
+                  <SelectValue placeholder="Select a home" />
+                </SelectTrigger>
+                <SelectContent>
+                  {homes.map(home => (
+                    <SelectItem key={home.id} value={home.id}>
+                      {home.address}, {home.city}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="grid w-full items-center gap-1.5">
             <Label htmlFor="address">Street Address</Label>
             <Input
@@ -234,15 +228,26 @@ export default function SettingsPage() {
 
           <Button 
             onClick={handleSaveAddress}
-            disabled={saving || !address.trim() || !city.trim() || !state.trim() || !zipCode.trim()}
+            disabled={saving || !canEditHome || !address.trim() || !city.trim() || !state.trim() || !zipCode.trim()}
             className="w-full sm:w-auto"
           >
             <Save className="w-4 h-4 mr-2" />
             {saving ? "Saving..." : "Save Address"}
           </Button>
+          {!canEditHome && (
+            <p className="text-sm text-muted-foreground">
+              Only the owner and co-owners can change this home's address.
+            </p>
+          )}
         </CardContent>
       </Card>
 
+      {/* Household: who shares this home */}
+      {userHome && <HouseholdMembersCard home={userHome} />}
+
+      {/* Notifications: email / push, quiet hours, weekly digest */}
+      <NotificationSettingsCard />
+
       {/* Home Profile Record */}
       <Card>
         <CardHeader>
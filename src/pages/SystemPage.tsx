@@ -9,7 +9,7 @@ import { ApplianceDetailView } from "@/components/system/ApplianceDetailView";
 import { AssetDetailView } from "@/components/system/AssetDetailView";
 import type { SystemPrediction } from "@/types/systemPrediction";
 import { useToast } from "@/hooks/use-toast";
-import { isValidSystemKey } from "@/lib/systemMeta";
+import { isValidSystemKey, hasSystemPrediction } from "@/lib/systemMeta";
 import { DashboardV3Layout } from "@/layouts/DashboardV3Layout";
 
 /**
@@ -20,6 +20,7 @@ import { DashboardV3Layout } from "@/layouts/DashboardV3Layout";
  * 
  * Supports: 
  * - Structural systems: hvac, roof, water_heater (by key)
+ * - Timeline-only systems: redirected to the plan view
  * - Appliances: by UUID (detected by length and format)
  * 
  * All structural systems follow HVAC canonical template.
@@ -107,6 +108,12 @@ export default function SystemPage() {
           return;
         }
 
+        // No dedicated prediction — the capital timeline plan view covers it
+        if (!hasSystemPrediction(systemKey)) {
+          navigate(`/systems/${systemKey}/plan`, { replace: true });
+          return;
+        }
+
         // Use unified system-prediction action
         const { data, error } = await supabase.functions.invoke('intelligence-engine', {
           body: { 
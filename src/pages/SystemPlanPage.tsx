@@ -1,8 +1,7 @@
 import { useState, useMemo } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
-import { useAuth } from "@/contexts/AuthContext";
+import { useUserHome } from "@/contexts/UserHomeContext";
+import { trackWithContext, FUNNEL_EVENTS } from "@/lib/analytics";
 import { useCapitalTimeline } from "@/hooks/useCapitalTimeline";
 import { SystemPlanView } from "@/components/system/SystemPlanView";
 // MobileChatSheet replaced by /chat route navigation
@@ -33,7 +32,6 @@ import { CHAT_PRIMING, CHAT_FIRST_TURN, getSystemDisplayName } from "@/lib/mobil
 export default function SystemPlanPage() {
   const { systemKey } = useParams<{ systemKey: string }>();
   const navigate = useNavigate();
-  const { user } = useAuth();
   
   // Check if this is a valid system type
   const isValidSystem = systemKey ? isValidSystemKey(systemKey) : false;
@@ -43,22 +41,8 @@ export default function SystemPlanPage() {
   
   // Chat state removed — navigates to /chat route instead
   
-  // Fetch user's home
-  const { data: home, isLoading: homeLoading } = useQuery({
-    queryKey: ['user-home', user?.id],
-    queryFn: async () => {
-      if (!user) return null;
-      const { data, error } = await supabase
-        .from('homes')
-        .select('id')
-        .eq('user_id', user.id)
-        .maybeSingle();
-      
-      if (error) throw error;
-      return data;
-    },
-    enabled: !!user,
-  });
+  // Selected home from shared context (follows the home switcher)
+  const { userHome: home, loading: homeLoading } = useUserHome();
   
   // IMPORTANT: Use capitalTimeline as the canonical source of truth
   // Do NOT query home_systems directly - it misses permit-derived systems
@@ -113,6 +97,13 @@ export default function SystemPlanPage() {
   
   const handleStartPlanning = () => {
     const name = system?.systemLabel || getSystemDisplayName(systemKey || '');
+    trackWithContext(
+      FUNNEL_EVENTS.PLANNING_SESSION_STARTED,
+      undefined,
+      home?.id,
+      { system_key: systemKey },
+      { surface: 'system_detail', system_slug: systemKey }
+    );
     navigate('/chat', { state: { intent: {
       systemKey,
       systemLabel: name,
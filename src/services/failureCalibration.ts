@@ -0,0 +1,57 @@
+/**
+ * Failure Curve Calibration
+ *
+ * Holds the active fitted failure curves (written to ml_models by the
+ * calibrate-failure-curves job) and exposes them synchronously to the
+ * pure scoring services.
+ *
+ * Rules:
+ * - Pure: no network here; failureCalibrationLoader.ts fills the cache
+ * - No calibration (not loaded, none active, cell too sparse) → null,
+ *   and callers keep their built-in constants
+ * - Curve resolution and the Weibull math are the edge functions' own
+ *   (_shared/failureCalibration.ts, _shared/survivalFit.ts)
+ */
+
+import type { CapitalSystemType } from '@/types/capitalTimeline';
+import type { ClimateZoneType } from '@/lib/climateZone';
+import {
+  getCalibratedCurve as resolveCalibratedCurve,
+  type CalibratedCurveParams,
+  type FailureCalibration,
+} from '../../supabase/functions/_shared/failureCalibration.ts';
+
+export {
+  FAILURE_CALIBRATION_MODEL_NAME,
+  type CalibratedCurveParams,
+  type CalibrationZoneKey,
+  type FailureCalibration,
+  type FailureCalibrationConfig,
+} from '../../supabase/functions/_shared/failureCalibration.ts';
+export { conditionalFailureProbability12mo as weibullFailureProbability12mo } from '../../supabase/functions/_shared/survivalFit.ts';
+
+let activeCalibration: FailureCalibration | null = null;
+
+/**
+ * Install the calibration used by scoring (see failureCalibrationLoader.ts)
+ */
+export function setActiveFailureCalibration(calibration: FailureCalibration | null): void {
+  activeCalibration = calibration;
+}
+
+/**
+ * Active calibration version, or null when running on built-in constants
+ */
+export function getFailureCalibrationVersion(): string | null {
+  return activeCalibration?.version ?? null;
+}
+
+/**
+ * Fitted curve for a system, preferring the climate-zone cell
+ */
+export function getCalibratedCurve(
+  systemType: CapitalSystemType,
+  climateZone?: ClimateZoneType
+): CalibratedCurveParams | null {
+  return resolveCalibratedCurve(activeCalibration, systemType, climateZone);
+}
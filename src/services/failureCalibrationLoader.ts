@@ -0,0 +1,48 @@
+/**
+ * Failure Calibration Loader
+ *
+ * Fetches the active failure-curve calibration from ml_models once per
+ * session and installs it for the scoring services. Until it resolves,
+ * or when none is active, scoring runs on built-in constants.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  FAILURE_CALIBRATION_MODEL_NAME,
+  setActiveFailureCalibration,
+  type FailureCalibration,
+  type FailureCalibrationConfig,
+} from './failureCalibration';
+
+let loadPromise: Promise<FailureCalibration | null> | null = null;
+
+/**
+ * Safe to call repeatedly; only the first call hits the network
+ */
+export function loadActiveFailureCalibration(): Promise<FailureCalibration | null> {
+  if (loadPromise) return loadPromise;
+
+  loadPromise = (async () => {
+    try {
+      const { data, error } = await supabase
+        .from('ml_models')
+        .select('version, model_config')
+        .eq('model_name', FAILURE_CALIBRATION_MODEL_NAME)
+        .eq('is_active', true)
+        .order('training_date', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const config = data?.model_config as unknown as FailureCalibrationConfig | null;
+      if (error || !data || !config?.params) return null;
+
+      const calibration: FailureCalibration = { version: data.version, config };
+      setActiveFailureCalibration(calibration);
+      return calibration;
+    } catch {
+      return null;
+    }
+  })();
+
+  return loadPromise;
+}
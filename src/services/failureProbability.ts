@@ -9,9 +9,15 @@
  * - At 0 remaining years: ~0.8 probability (80% chance of failure in next year)
  * - At 5 remaining years: ~0.15 probability
  * - At 10+ remaining years: ~0.05 probability (baseline maintenance failures)
+ * 
+ * When a fitted calibration is active (see failureCalibration.ts), the
+ * system's Weibull curve replaces the exponential model. The constants
+ * below remain the fallback and still bound the result.
  */
 
 import type { CapitalSystemType } from '@/types/capitalTimeline';
+import type { ClimateZoneType } from '@/lib/climateZone';
+import { getCalibratedCurve, weibullFailureProbability12mo } from './failureCalibration';
 
 /**
  * System-specific calibration factors
@@ -41,6 +47,31 @@ const SYSTEM_CALIBRATION: Record<CapitalSystemType, {
     minProbability: 0.03,   // 3% baseline
     maxProbability: 0.90,   // 90% max - very predictable failure at EOL
   },
+  electrical_panel: {
+    decayRate: 0.20,        // Gradual - panels degrade slowly, rarely fail outright
+    minProbability: 0.01,   // 1% baseline
+    maxProbability: 0.50,   // 50% max - old panels often keep working
+  },
+  plumbing: {
+    decayRate: 0.20,        // Gradual - leaks increase over years
+    minProbability: 0.02,   // 2% baseline
+    maxProbability: 0.60,   // 60% max - failures are usually partial
+  },
+  pool: {
+    decayRate: 0.35,        // Pumps and heaters fail like HVAC components
+    minProbability: 0.04,   // 4% baseline - motors fail young
+    maxProbability: 0.85,   // 85% max
+  },
+  solar: {
+    decayRate: 0.20,        // Panels degrade gradually
+    minProbability: 0.02,   // 2% baseline - mostly inverter failures
+    maxProbability: 0.55,   // 55% max - panels keep producing past estimates
+  },
+  mini_split: {
+    decayRate: 0.35,        // Compressor-driven, similar to HVAC
+    minProbability: 0.03,   // 3% baseline
+    maxProbability: 0.85,   // 85% max
+  },
 };
 
 /**
@@ -48,15 +79,25 @@ const SYSTEM_CALIBRATION: Record<CapitalSystemType, {
  * 
  * @param remainingYears - Years until expected replacement (can be negative if past EOL)
  * @param systemType - System type for calibration
+ * @param climateZone - Selects a zone-specific fitted curve when one exists
  * @returns Probability [0, 1] of failure within next 12 months
  */
 export function computeFailureProbability12mo(
   remainingYears: number,
-  systemType: CapitalSystemType
+  systemType: CapitalSystemType,
+  climateZone?: ClimateZoneType
 ): number {
   const calibration = SYSTEM_CALIBRATION[systemType] ?? SYSTEM_CALIBRATION.hvac;
   const { decayRate, minProbability, maxProbability } = calibration;
   
+  // Fitted curve: place the unit on it by distance from the fitted median
+  const curve = getCalibratedCurve(systemType, climateZone);
+  if (curve) {
+    const ageYears = curve.medianYears - remainingYears;
+    const probability = weibullFailureProbability12mo(ageYears, curve);
+    return Math.max(minProbability, Math.min(maxProbability, probability));
+  }
+  
   // Past expected lifespan: high probability
   if (remainingYears <= 0) {
     // Scale up based on how far past EOL
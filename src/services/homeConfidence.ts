@@ -112,7 +112,7 @@ const STATE_MAP: Array<{ min: number; state: ConfidenceState; meaning: string }>
   { min: 0, state: 'limited', meaning: 'Core system documentation is still being established' },
 ];
 
-function getState(score: number): { state: ConfidenceState; meaning: string } {
+export function getState(score: number): { state: ConfidenceState; meaning: string } {
   for (const entry of STATE_MAP) {
     if (score >= entry.min) return { state: entry.state, meaning: entry.meaning };
   }
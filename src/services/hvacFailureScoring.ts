@@ -4,6 +4,9 @@
  * Pure, deterministic scoring function for HVAC failure window prediction.
  * All indices are normalized to [0,1] before multiplier calculation.
  * 
+ * Baseline lifespan comes from the active fitted calibration when one is
+ * loaded, otherwise from HVAC_FAILURE_CONSTANTS.
+ * 
  * @version hvac_failure_v1
  */
 
@@ -13,6 +16,7 @@ import type {
   HVACFailureConstants,
   HVACFailureProvenance 
 } from '@/types/hvacFailure';
+import { getCalibratedCurve, getFailureCalibrationVersion } from './failureCalibration';
 
 /**
  * Model constants - versioned for reproducibility
@@ -133,8 +137,11 @@ export function scoreHVACFailure(
   );
 
   // ========== Lifespan calculations ==========
-  const L50_base = HVAC_FAILURE_CONSTANTS.baseline.median_lifespan_years;
-  const sigma_base = HVAC_FAILURE_CONSTANTS.baseline.sigma_years;
+  // System-wide fitted cell only: climate is applied via M_climate above
+  const calibratedCurve = getCalibratedCurve('hvac');
+  const calibrationVersion = calibratedCurve ? getFailureCalibrationVersion() : null;
+  const L50_base = calibratedCurve?.medianYears ?? HVAC_FAILURE_CONSTANTS.baseline.median_lifespan_years;
+  const sigma_base = calibratedCurve?.sigmaYears ?? HVAC_FAILURE_CONSTANTS.baseline.sigma_years;
 
   const L50_effective = L50_base * M_total;
 
@@ -182,7 +189,9 @@ export function scoreHVACFailure(
 
   // ========== Build provenance ==========
   const provenance: HVACFailureProvenance = {
-    model_version: HVAC_FAILURE_CONSTANTS.model_version,
+    model_version: calibrationVersion
+      ? `${HVAC_FAILURE_CONSTANTS.model_version}+${calibrationVersion}`
+      : HVAC_FAILURE_CONSTANTS.model_version,
     multipliers: {
       M_climate,
       M_maintenance,
@@ -9,6 +9,7 @@
  */
 
 import type { HVACSurvivalCore, SystemPrediction, Permit } from '@/types/systemPrediction';
+import { classifyPermitWork, isSystemPermit } from '../../supabase/functions/_shared/permitClassifier.ts';
 
 // ============== Configuration Constants ==============
 // Miami-Dade specific survival parameters
@@ -39,14 +40,8 @@ function determineSystemAge(
   }
   
   // Priority 2: HVAC replacement permit (includes "change out", "upgrade")
-  const replacementKeywords = ['replace', 'change out', 'upgrade', 'new unit', 'changeout'];
-  const hvacReplacementPermit = permits.find(p => 
-    (p.system_tags?.includes('hvac') || 
-     p.description?.toLowerCase().includes('hvac') ||
-     p.description?.toLowerCase().includes('air condition') ||
-     p.description?.toLowerCase().includes('a/c')) && 
-    replacementKeywords.some(kw => p.description?.toLowerCase().includes(kw))
-  );
+  const hvacPermits = permits.filter(p => p.system_tags?.includes('hvac') || isSystemPermit('hvac', p));
+  const hvacReplacementPermit = hvacPermits.find(p => classifyPermitWork('hvac', p) === 'replacement');
   
   if (hvacReplacementPermit?.date_issued) {
     return { 
@@ -56,14 +51,7 @@ function determineSystemAge(
   }
   
   // Priority 3: HVAC install permit
-  const hvacInstallPermit = permits.find(p =>
-    (p.system_tags?.includes('hvac') || 
-     p.description?.toLowerCase().includes('hvac') ||
-     p.description?.toLowerCase().includes('air condition') ||
-     p.description?.toLowerCase().includes('a/c')) &&
-    (p.description?.toLowerCase().includes('install') || 
-     p.description?.toLowerCase().includes('new'))
-  );
+  const hvacInstallPermit = hvacPermits.find(p => classifyPermitWork('hvac', p) === 'install');
   
   if (hvacInstallPermit?.date_issued) {
     return { 
@@ -0,0 +1,108 @@
+/**
+ * Portfolio Rollup — Multi-home aggregation
+ * 
+ * Pure functions. No side effects. No UI coupling.
+ * 
+ * Rolls up per-home capital outlooks and Home Confidence into a single
+ * portfolio view for owners with more than one home (primary, rental,
+ * second home).
+ * 
+ * Rules:
+ * - Capital horizons are summed per horizon (3 / 5 / 10 years)
+ * - Homes whose timeline failed to load are excluded from the sum and counted
+ * - Portfolio confidence is the mean of per-home scores; state uses the
+ *   same thresholds as a single home
+ * - The weakest home is surfaced so the owner knows where to document next
+ */
+
+import type { CapitalOutlook, HomeCapitalTimeline } from '@/types/capitalTimeline';
+import { getState, type ConfidenceState, type HomeConfidenceResult } from '@/services/homeConfidence';
+
+// ============== Types ==============
+
+export interface PortfolioHomeSnapshot {
+  homeId: string;
+  address: string;
+  city: string;
+  state: string;
+  timeline: HomeCapitalTimeline | null;
+  confidence: HomeConfidenceResult | null;
+}
+
+export interface PortfolioConfidence {
+  score: number;
+  state: ConfidenceState;
+  stateMeaning: string;
+  /** Home with the lowest confidence score */
+  weakestHomeId: string;
+}
+
+export interface PortfolioRollup {
+  homeCount: number;
+  /** Summed exposure across homes with a loaded timeline */
+  capitalOutlook: CapitalOutlook;
+  /** Homes whose timeline is missing (excluded from capitalOutlook) */
+  homesMissingTimeline: number;
+  confidence: PortfolioConfidence | null;
+}
+
+// ============== Constants ==============
+
+const HORIZONS: Array<3 | 5 | 10> = [3, 5, 10];
+
+const PORTFOLIO_METHODOLOGY_NOTE =
+  'Sum of each home\'s probability-weighted replacement costs. Ranges reflect uncertainty in timing and costs.';
+
+// ============== Capital Outlook ==============
+
+/**
+ * Sum capital outlook horizons across homes.
+ * Every horizon is always present, even if no home reports it.
+ */
+export function sumCapitalOutlooks(outlooks: CapitalOutlook[]): CapitalOutlook {
+  const horizons = HORIZONS.map(yearsAhead => {
+    let lowEstimate = 0;
+    let highEstimate = 0;
+    for (const outlook of outlooks) {
+      const horizon = outlook.horizons.find(h => h.yearsAhead === yearsAhead);
+      if (!horizon) continue;
+      lowEstimate += horizon.lowEstimate;
+      highEstimate += horizon.highEstimate;
+    }
+    return { yearsAhead, lowEstimate, highEstimate, methodology: 'weighted' as const };
+  });
+
+  return { horizons, methodologyNote: PORTFOLIO_METHODOLOGY_NOTE };
+}
+
+// ============== Confidence ==============
+
+export function aggregateConfidence(homes: PortfolioHomeSnapshot[]): PortfolioConfidence | null {
+  const scored = homes.filter(
+    (h): h is PortfolioHomeSnapshot & { confidence: HomeConfidenceResult } => h.confidence !== null
+  );
+  if (scored.length === 0) return null;
+
+  const total = scored.reduce((sum, h) => sum + h.confidence.score, 0);
+  const score = Math.round(total / scored.length);
+  const { state, meaning } = getState(score);
+
+  const weakest = scored.reduce((min, h) => (h.confidence.score < min.confidence.score ? h : min));
+
+  return { score, state, stateMeaning: meaning, weakestHomeId: weakest.homeId };
+}
+
+// ============== Main Computation ==============
+
+export function computePortfolioRollup(homes: PortfolioHomeSnapshot[]): PortfolioRollup {
+  const outlooks = homes
+    .map(h => h.timeline?.capitalOutlook)
+    .filter((o): o is CapitalOutlook => !!o);
+
+  return {
+    homeCount: homes.length,
+    capitalOutlook: sumCapitalOutlooks(outlooks),
+    homesMissingTimeline: homes.length - outlooks.length,
+    confidence: aggregateConfidence(homes),
+  };
+}
@@ -48,6 +48,8 @@ export interface ScoredSystem {
  * 
  * HVAC: +25% during peak seasons (summer/winter)
  * Roof: +35% in hurricane zones (weather risk)
+ * Plumbing: +15% in freeze zones (burst pipe risk)
+ * Pool, Mini-split: +15% during peak use seasons
  * Others: 1.0 baseline
  */
 const URGENCY_MULTIPLIERS: Record<CapitalSystemType, {
@@ -72,6 +74,31 @@ const URGENCY_MULTIPLIERS: Record<CapitalSystemType, {
   water_heater: {
     // No seasonal/climate multipliers - always urgent when failing
   },
+  electrical_panel: {},
+  plumbing: {
+    climate: {
+      freeze_zone: 1.15,
+      hurricane_zone: 1.0,
+      temperate: 1.0,
+    },
+  },
+  pool: {
+    seasonal: {
+      summer: 1.15,
+      spring: 1.0,
+      fall: 1.0,
+      winter: 1.0,
+    },
+  },
+  solar: {},
+  mini_split: {
+    seasonal: {
+      summer: 1.15,
+      winter: 1.15,
+      spring: 1.0,
+      fall: 1.0,
+    },
+  },
 };
 
 /**
@@ -82,6 +109,11 @@ const REPLACEMENT_COST_MIDPOINTS: Record<CapitalSystemType, number> = {
   hvac: 9000,           // (6000 + 12000) / 2
   roof: 16500,          // (8000 + 25000) / 2
   water_heater: 2350,   // (1200 + 3500) / 2
+  electrical_panel: 2750, // (1500 + 4000) / 2
+  plumbing: 8500,       // (2000 + 15000) / 2
+  pool: 5500,           // (3000 + 8000) / 2
+  solar: 25000,         // (15000 + 35000) / 2
+  mini_split: 3250,     // (1500 + 5000) / 2
 };
 
 // ============== Core Functions ==============
@@ -152,6 +184,11 @@ function generateExplanation(
     hvac: 'HVAC',
     roof: 'roof',
     water_heater: 'water heater',
+    electrical_panel: 'electrical panel',
+    plumbing: 'plumbing',
+    pool: 'pool equipment',
+    solar: 'solar system',
+    mini_split: 'mini-split',
   };
   
   const systemName = systemNames[systemKey];
@@ -163,7 +200,7 @@ function generateExplanation(
   
   // Moderate probability with seasonal urgency
   if (failureProbability >= 0.2 && urgencyMultiplier > 1.0) {
-    const seasonNote = systemKey === 'hvac' 
+    const seasonNote = URGENCY_MULTIPLIERS[systemKey]?.seasonal
       ? `${season} is a high-demand season` 
       : 'weather conditions increase urgency';
     return `Your ${systemName} is approaching replacement age, and ${seasonNote}.`;
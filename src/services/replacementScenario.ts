@@ -0,0 +1,203 @@
+/**
+ * Replacement Scenario Simulator
+ *
+ * "What if I replace the HVAC in 2027 and the roof in 2030?"
+ *
+ * Takes the inferred capital timeline plus a planned replacement year per
+ * system and recomputes:
+ * - capitalOutlook (same weighted roll-up as the capital-timeline function)
+ * - expected emergency exposure: the chance each system fails before its
+ *   planned year, priced at the emergency premium (interventionScoring)
+ * - expected cash flow by year
+ *
+ * Model:
+ * - Systems without a planned year are planned at their likely year
+ * - Each year before the planned year, the system fails with its 12-month
+ *   failure probability (failureProbability.ts) given the inferred window
+ * - A failure is paid at emergency cost and replaces the planned spend;
+ *   otherwise the planned cost lands in the planned year
+ *
+ * Pure and synchronous so the UI can recompute on every slider move.
+ */
+
+import type {
+  CapitalOutlook,
+  CapitalSystemType,
+  HomeCapitalTimeline,
+  SystemTimelineEntry,
+} from '@/types/capitalTimeline';
+import { calculateCapitalOutlook } from '../../supabase/functions/_shared/capitalOutlook.ts';
+import { getEmergencyPremium } from '../../supabase/functions/_shared/systemConfigs.ts';
+import { computeFailureProbability12mo } from './failureProbability';
+import { calculateInterventionScore } from './interventionScoring';
+
+/** Planned replacement year per system; missing systems follow the inferred window */
+export type PlannedYears = Partial<Record<CapitalSystemType, number>>;
+
+export interface ScenarioSystemResult {
+  systemId: CapitalSystemType;
+  systemLabel: string;
+  plannedYear: number;
+  /** True when the owner moved this system off its likely year */
+  isOverride: boolean;
+  plannedCost: { low: number; high: number };
+  /** Midpoint cost including the system's emergency premium */
+  emergencyCost: number;
+  /** Probability the system fails before its planned replacement (0–1) */
+  failureBeforePlanned: number;
+  /** failureBeforePlanned × emergencyCost (interventionScoring formula) */
+  expectedEmergencyExposure: number;
+}
+
+export interface ScenarioCashFlowYear {
+  year: number;
+  /** Planned spend landing this year, weighted by the chance it's still needed */
+  plannedLow: number;
+  plannedHigh: number;
+  /** Expected emergency spend this year */
+  expectedEmergency: number;
+}
+
+export interface ReplacementScenarioResult {
+  systems: ScenarioSystemResult[];
+  capitalOutlook: CapitalOutlook;
+  /** Sum of expectedEmergencyExposure across systems */
+  emergencyExposure: number;
+  cashFlow: ScenarioCashFlowYear[];
+}
+
+/**
+ * Earliest and latest year the simulator lets a system be planned for
+ */
+export function plannableYearRange(
+  system: SystemTimelineEntry,
+  currentYear: number,
+  horizonYears: number
+): { min: number; max: number } {
+  return {
+    min: currentYear,
+    max: Math.max(currentYear + horizonYears, system.replacementWindow.lateYear),
+  };
+}
+
+/**
+ * Drop planned years that match the inferred likely year (they add nothing)
+ * and clamp the rest into the plannable range
+ */
+export function normalizePlannedYears(
+  timeline: HomeCapitalTimeline,
+  plannedYears: PlannedYears,
+  currentYear: number = new Date().getFullYear()
+): PlannedYears {
+  const normalized: PlannedYears = {};
+  for (const system of timeline.systems) {
+    const year = plannedYears[system.systemId];
+    if (year === undefined || !Number.isFinite(year)) continue;
+    const { min, max } = plannableYearRange(system, currentYear, timeline.horizonYears);
+    const clamped = Math.min(max, Math.max(min, Math.round(year)));
+    if (clamped !== defaultPlannedYear(system, currentYear)) {
+      normalized[system.systemId] = clamped;
+    }
+  }
+  return normalized;
+}
+
+function defaultPlannedYear(system: SystemTimelineEntry, currentYear: number): number {
+  return Math.max(currentYear, system.replacementWindow.likelyYear);
+}
+
+function simulateSystem(
+  system: SystemTimelineEntry,
+  plannedYear: number,
+  isOverride: boolean,
+  currentYear: number,
+  cashFlow: Map<number, ScenarioCashFlowYear>
+): ScenarioSystemResult {
+  const { low, high } = system.capitalCost;
+  const midpoint = (low + high) / 2;
+  const emergencyCost = Math.round(midpoint * (1 + getEmergencyPremium(system.systemId)));
+
+  // Walk the years before the planned replacement, tracking survival
+  let survival = 1;
+  for (let year = currentYear; year < plannedYear; year++) {
+    const remainingYears = system.replacementWindow.likelyYear - year;
+    const hazard = computeFailureProbability12mo(remainingYears, system.systemId);
+    const failureThisYear = survival * hazard;
+    const entry = cashFlow.get(year);
+    if (entry) entry.expectedEmergency += failureThisYear * emergencyCost;
+    survival -= failureThisYear;
+  }
+
+  const planned = cashFlow.get(plannedYear);
+  if (planned) {
+    planned.plannedLow += survival * low;
+    planned.plannedHigh += survival * high;
+  }
+
+  const failureBeforePlanned = 1 - survival;
+  // The frozen formula is per 12 months; here the probability spans the
+  // whole wait until the planned year
+  const { score } = calculateInterventionScore({
+    failureProbability12mo: failureBeforePlanned,
+    proactiveCost: midpoint,
+    emergencyCost,
+    potentialDamage: 0,
+    urgencyPremium: 0,
+  });
+
+  return {
+    systemId: system.systemId,
+    systemLabel: system.systemLabel,
+    plannedYear,
+    isOverride,
+    plannedCost: { low, high },
+    emergencyCost,
+    failureBeforePlanned: Math.round(failureBeforePlanned * 1000) / 1000,
+    expectedEmergencyExposure: Math.round(score),
+  };
+}
+
+/**
+ * Simulate a replacement plan against the inferred timeline
+ */
+export function simulateReplacementScenario(
+  timeline: HomeCapitalTimeline,
+  plannedYears: PlannedYears = {},
+  currentYear: number = new Date().getFullYear()
+): ReplacementScenarioResult {
+  const overrides = normalizePlannedYears(timeline, plannedYears, currentYear);
+
+  const cashFlow = new Map<number, ScenarioCashFlowYear>();
+  for (let i = 0; i < timeline.horizonYears; i++) {
+    const year = currentYear + i;
+    cashFlow.set(year, { year, plannedLow: 0, plannedHigh: 0, expectedEmergency: 0 });
+  }
+
+  const systems = timeline.systems.map((system) => {
+    const override = overrides[system.systemId];
+    const plannedYear = override ?? defaultPlannedYear(system, currentYear);
+    return simulateSystem(system, plannedYear, override !== undefined, currentYear, cashFlow);
+  });
+
+  // A planned year pins the window; unplanned systems keep their spread
+  const outlookSystems = timeline.systems.map((system) => {
+    const override = overrides[system.systemId];
+    if (override === undefined) return system;
+    return {
+      ...system,
+      replacementWindow: { ...system.replacementWindow, earlyYear: override, likelyYear: override },
+    };
+  });
+
+  return {
+    systems,
+    capitalOutlook: calculateCapitalOutlook(outlookSystems, currentYear),
+    emergencyExposure: systems.reduce((sum, s) => sum + s.expectedEmergencyExposure, 0),
+    cashFlow: [...cashFlow.values()].map((entry) => ({
+      year: entry.year,
+      plannedLow: Math.round(entry.plannedLow),
+      plannedHigh: Math.round(entry.plannedHigh),
+      expectedEmergency: Math.round(entry.expectedEmergency),
+    })),
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * Capital Reserve Planner (sinking fund)
+ *
+ * Turns the capital timeline into a savings plan: given current savings,
+ * a monthly contribution and a cost-escalation rate, simulate the reserve
+ * balance year by year against sampled replacement years and costs.
+ *
+ * Model:
+ * - Each run draws every system's replacement year from its p10/p50/p90
+ *   window and its cost from the capital cost band (replacementSampling)
+ * - Costs escalate by the annual rate from today to the replacement year
+ * - Replacements due before today land in the current year
+ * - One replacement per system within the horizon
+ * - Contributions arrive through the year; spend is paid from the balance
+ *
+ * A year is short when the balance ends the year below zero.
+ */
+
+import type { SystemTimelineEntry } from '@/types/capitalTimeline';
+import {
+  createRng,
+  percentile,
+  sampleCost,
+  sampleWindowYear,
+} from '../../supabase/functions/_shared/replacementSampling.ts';
+
+export interface ReservePlanInputs {
+  currentSavings: number;
+  monthlyContribution: number;
+  /** Annual cost escalation as a fraction (0.03 = 3%/yr) */
+  escalationRate: number;
+}
+
+export interface ReserveYearProjection {
+  year: number;
+  /** Mean spend this year across runs (escalated dollars) */
+  expectedSpend: number;
+  /** Median end-of-year balance */
+  medianBalance: number;
+  /** End-of-year balance in a bad year (10th percentile) */
+  p10Balance: number;
+  /** Share of runs where the balance ends the year below zero */
+  shortfallProbability: number;
+}
+
+export interface ReservePlanResult {
+  years: ReserveYearProjection[];
+  /** Highest shortfall probability across the horizon */
+  peakShortfallProbability: number;
+  /** First year whose shortfall probability exceeds SHORTFALL_TARGET, if any */
+  firstAtRiskYear: number | null;
+  /** Smallest monthly contribution keeping every year at or under SHORTFALL_TARGET */
+  recommendedMonthlyContribution: number;
+  runs: number;
+}
+
+export const DEFAULT_RESERVE_INPUTS: ReservePlanInputs = {
+  currentSavings: 0,
+  monthlyContribution: 0,
+  escalationRate: 0.03,
+};
+
+/** Acceptable chance of being short in any year */
+export const SHORTFALL_TARGET = 0.1;
+
+const DEFAULT_RUNS = 1000;
+const DEFAULT_HORIZON_YEARS = 10;
+
+interface SimulationOptions {
+  horizonYears?: number;
+  currentYear?: number;
+  runs?: number;
+  seed?: number;
+}
+
+/**
+ * Sample escalated spend per year for every run: spend[run][yearIndex]
+ */
+function sampleSpend(
+  systems: SystemTimelineEntry[],
+  escalationRate: number,
+  horizonYears: number,
+  currentYear: number,
+  runs: number,
+  seed?: number
+): number[][] {
+  const rng = createRng(seed);
+  const spend: number[][] = [];
+
+  for (let run = 0; run < runs; run++) {
+    const yearly = new Array<number>(horizonYears).fill(0);
+    for (const system of systems) {
+      const year = Math.max(currentYear, sampleWindowYear(system.replacementWindow, rng));
+      const cost = sampleCost(system.capitalCost.low, system.capitalCost.high, rng);
+      const index = year - currentYear;
+      if (index < horizonYears) {
+        yearly[index] += cost * Math.pow(1 + escalationRate, index);
+      }
+    }
+    spend.push(yearly);
+  }
+
+  return spend;
+}
+
+/**
+ * End-of-year balances for every run at a given contribution: balances[yearIndex][run]
+ */
+function projectBalances(spend: number[][], currentSavings: number, monthlyContribution: number): number[][] {
+  const horizonYears = spend[0]?.length ?? 0;
+  const balances: number[][] = Array.from({ length: horizonYears }, () => []);
+
+  for (const yearly of spend) {
+    let balance = currentSavings;
+    for (let i = 0; i < horizonYears; i++) {
+      balance += monthlyContribution * 12 - yearly[i];
+      balances[i].push(balance);
+    }
+  }
+
+  return balances;
+}
+
+function shortfallByYear(balances: number[][]): number[] {
+  return balances.map((runs) => runs.filter((b) => b < 0).length / Math.max(1, runs.length));
+}
+
+/**
+ * Smallest whole-dollar monthly contribution with every year's shortfall
+ * probability at or under the target (binary search on the same draws)
+ */
+function findRecommendedContribution(spend: number[][], currentSavings: number): number {
+  const totalWorstCase = Math.max(0, ...spend.map((yearly) => yearly.reduce((a, b) => a + b, 0)));
+  const meetsTarget = (monthly: number) =>
+    shortfallByYear(projectBalances(spend, currentSavings, monthly)).every((p) => p <= SHORTFALL_TARGET);
+
+  if (meetsTarget(0)) return 0;
+
+  // Contributing the worst-case total in the first year always suffices
+  let low = 0;
+  let high = Math.ceil(totalWorstCase / 12);
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (meetsTarget(mid)) high = mid;
+    else low = mid;
+  }
+  return high;
+}
+
+/**
+ * Simulate the reserve fund against the capital timeline
+ */
+export function simulateReservePlan(
+  systems: SystemTimelineEntry[],
+  inputs: ReservePlanInputs,
+  options: SimulationOptions = {}
+): ReservePlanResult {
+  const horizonYears = options.horizonYears ?? DEFAULT_HORIZON_YEARS;
+  const currentYear = options.currentYear ?? new Date().getFullYear();
+  const runs = options.runs ?? DEFAULT_RUNS;
+
+  const spend = sampleSpend(systems, inputs.escalationRate, horizonYears, currentYear, runs, options.seed);
+  const balances = projectBalances(spend, inputs.currentSavings, inputs.monthlyContribution);
+  const shortfall = shortfallByYear(balances);
+
+  const years: ReserveYearProjection[] = balances.map((yearBalances, i) => {
+    const sorted = [...yearBalances].sort((a, b) => a - b);
+    const meanSpend = spend.reduce((sum, yearly) => sum + yearly[i], 0) / Math.max(1, runs);
+    return {
+      year: currentYear + i,
+      expectedSpend: Math.round(meanSpend),
+      medianBalance: Math.round(percentile(sorted, 50)),
+      p10Balance: Math.round(percentile(sorted, 10)),
+      shortfallProbability: Math.round(shortfall[i] * 1000) / 1000,
+    };
+  });
+
+  const firstAtRisk = years.find((y) => y.shortfallProbability > SHORTFALL_TARGET);
+
+  return {
+    years,
+    peakShortfallProbability: Math.max(0, ...years.map((y) => y.shortfallProbability)),
+    firstAtRiskYear: firstAtRisk?.year ?? null,
+    recommendedMonthlyContribution: findRecommendedContribution(spend, inputs.currentSavings),
+    runs,
+  };
+}
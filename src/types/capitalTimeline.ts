@@ -13,7 +13,16 @@
  * @version v1
  */
 
-export type CapitalSystemType = 'hvac' | 'roof' | 'water_heater';
+/** Mirrors SystemType in supabase/functions/_shared/systemConfigs.ts */
+export type CapitalSystemType =
+  | 'hvac'
+  | 'roof'
+  | 'water_heater'
+  | 'electrical_panel'
+  | 'plumbing'
+  | 'pool'
+  | 'solar'
+  | 'mini_split';
 export type SystemCategory = 'mechanical' | 'structural' | 'utility';
 export type InstallSource = 'permit' | 'inferred' | 'unknown';
 export type DataQuality = 'high' | 'medium' | 'low';
@@ -70,8 +79,8 @@ export interface SystemTimelineEntry {
   disclosureNote: string;
   
   // Event acknowledgment hooks
-  lastEventAt?: string;  // ISO timestamp of last user-confirmed event
-  eventShiftYears?: number;  // How much the window shifted after last event
+  lastEventAt?: string;  // Date of the last recorded maintenance service
+  eventShiftYears?: number;  // Years the maintenance record moved the window
 
   // Earned confidence fields (v3)
   materialType?: string;
@@ -81,6 +90,33 @@ export interface SystemTimelineEntry {
   costConfidence?: string;
   costAttributionLine?: string;
   costDisclaimer?: string;
+
+  /** Roof only: measured area, pitch and planes, when available */
+  roofGeometry?: RoofGeometry;
+}
+
+/**
+ * RoofGeometry - Measured roof from a cached Google Solar analysis
+ * 
+ * Mirrors supabase/functions/_shared/roofGeometry.ts.
+ * Pitch is rise per 12" of run; pitchClass is area-weighted.
+ */
+export interface RoofGeometry {
+  source: 'google_solar';
+  measuredAt: string | null;
+  areaSqft: number;
+  squares: number;
+  segmentCount: number;
+  pitchRise: number;
+  pitchClass: 'low_slope' | 'conventional' | 'steep';
+  complexity: 'simple' | 'moderate' | 'complex';
+  segments: Array<{
+    pitchDegrees: number;
+    pitchRise: number;
+    azimuthDegrees: number;
+    facing: string;
+    areaSqft: number;
+  }>;
 }
 
 /**
@@ -142,6 +178,33 @@ export interface MaintenanceEffect {
   uncertaintyReduction?: 'low' | 'medium' | 'high';
   /** Explanation shown to users */
   explanation: string;
+  /** The home's measured record; absent when none was loaded */
+  adherence?: MaintenanceAdherence;
+  /** Years the window actually moved for that record (negative when lapsed) */
+  appliedShiftYears?: number;
+}
+
+/**
+ * MaintenanceAdherence - How well a system has actually been maintained
+ *
+ * Mirrors supabase/functions/_shared/maintenanceAdherence.ts. Index blends
+ * regularity, recency and professional share over the lookback window.
+ */
+export interface MaintenanceAdherence {
+  systemType: CapitalSystemType;
+  /** 0-1; 0 when level is 'none' */
+  index: number;
+  level: 'strong' | 'fair' | 'lapsed' | 'none';
+  components: {
+    regularity: number;
+    recency: number;
+    professional: number;
+  };
+  serviceCount: number;
+  professionalCount: number;
+  expectedServices: number;
+  lastServicedOn: string | null;
+  lookbackMonths: number;
 }
 
 /**
@@ -159,6 +222,30 @@ export interface CapitalOutlook {
     methodology: 'weighted';
   }>;
   methodologyNote: string;
+  /** Monte Carlo spend bands (absent on roll-ups, which can't sum percentiles) */
+  simulation?: CapitalExposureSimulation;
+}
+
+/**
+ * CapitalExposureSimulation - Sampled spend across possible failure timelines
+ * 
+ * Mirrors supabase/functions/_shared/capitalExposureSimulation.ts.
+ * Percentiles are of total spend within each horizon:
+ * "80% chance you spend less than p80 in 5 years".
+ */
+export interface CapitalExposureSimulation {
+  runs: number;
+  horizons: Array<{
+    yearsAhead: 1 | 3 | 5 | 10;
+    mean: number;
+    p10: number;
+    p50: number;
+    p80: number;
+    p90: number;
+    /** Share of runs with any replacement in the horizon */
+    anySpendProbability: number;
+  }>;
+  methodologyNote: string;
 }
 
 /**
@@ -2,6 +2,7 @@
 // Multi-system support: HVAC, Roof, Water Heater
 
 import type { HVACFailureProvenance } from './hvacFailure';
+import type { MaintenanceEffect } from './capitalTimeline';
 
 /**
  * SystemKey - Supported system types
@@ -247,6 +248,11 @@ export interface SystemPrediction {
     contributesToOutlook: boolean;
     estimatedCost: { low: number; high: number };
   };
+
+  /**
+   * Typical maintenance effect, restated for the home's measured record
+   */
+  maintenanceEffect?: MaintenanceEffect;
 }
 
 /**
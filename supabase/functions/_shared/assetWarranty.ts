@@ -0,0 +1,340 @@
+/**
+ * AssetWarranty - Warranty model per home_assets row
+ *
+ * ARCHITECTURE:
+ * - Pure and runtime-agnostic: used by maintenance-alerts (Deno) and the
+ *   browser (src/lib/assetWarranty.ts)
+ * - Defaults come from typical manufacturer terms per kind, refined by brand.
+ *   They are estimates until the owner confirms them (source 'owner')
+ * - Stored in asset_warranties; warrantyToRow/warrantyFromRow are the only
+ *   mapping between the model and the table
+ *
+ * RULES:
+ * R1: Dates are ISO yyyy-mm-dd strings; coverage starts at install date
+ * R2: No install date → no expiry dates (never guess a start)
+ * R3: Registration only matters when it extends parts coverage
+ * R4: confirmed_at records the first confirmation; later saves keep it
+ * R5: Unconfirmed brand_default rows follow their asset: when the install
+ *     date or manufacturer changes they are re-derived, never left stale.
+ *     Owner and document terms are not touched
+ * R6: Expiries and the registration deadline move with the coverage start
+ *
+ * @version v2 - re-derive stale estimates; deadline follows coverage start
+ */
+
+// ============== Types ==============
+
+export type WarrantySource = 'brand_default' | 'document' | 'owner';
+
+export interface AssetWarranty {
+  /** Manufacturer parts coverage in effect */
+  partsYears: number;
+  /** Installer labor coverage */
+  laborYears: number;
+  coverageStart: string | null;
+  partsExpiresOn: string | null;
+  laborExpiresOn: string | null;
+  transferable: boolean;
+  /** Parts term if the product is registered in time (null when registration doesn't extend it) */
+  registeredPartsYears: number | null;
+  /** Days after coverage start to register (not stored; implied by the deadline) */
+  registrationWindowDays: number | null;
+  registrationDeadline: string | null;
+  registered: boolean;
+  source: WarrantySource;
+  confirmed: boolean;
+  /** When the owner first confirmed the terms; kept across later edits */
+  confirmedAt: string | null;
+}
+
+export interface WarrantyAssetRef {
+  kind: string;
+  manufacturer?: string | null;
+  installDate?: string | null;
+}
+
+export type WarrantyAlertKind =
+  | 'registration_deadline'
+  | 'parts_expiring'
+  | 'labor_expiring'
+  | 'covered_before_replacement';
+
+export interface WarrantyAlert {
+  kind: WarrantyAlertKind;
+  dueDate: string;
+  message: string;
+}
+
+/** asset_warranties row shape (snake_case, as stored) */
+export interface AssetWarrantyRow {
+  parts_years: number;
+  labor_years: number;
+  coverage_start: string | null;
+  parts_expires_on: string | null;
+  labor_expires_on: string | null;
+  transferable: boolean;
+  registered_parts_years: number | null;
+  registration_deadline: string | null;
+  registered: boolean;
+  source: string;
+  confirmed_at: string | null;
+}
+
+// ============== Defaults ==============
+
+interface WarrantyDefault {
+  partsYears: number;
+  registeredPartsYears?: number;
+  registrationWindowDays?: number;
+  laborYears: number;
+  transferable: boolean;
+}
+
+const APPLIANCE_DEFAULT: WarrantyDefault = { partsYears: 1, laborYears: 1, transferable: true };
+
+/**
+ * Typical manufacturer terms by kind. HVAC-type equipment ships with a base
+ * term that extends when registered within the window.
+ */
+const KIND_DEFAULTS: Record<string, WarrantyDefault> = {
+  hvac: { partsYears: 5, registeredPartsYears: 10, registrationWindowDays: 60, laborYears: 1, transferable: false },
+  mini_split: { partsYears: 5, registeredPartsYears: 12, registrationWindowDays: 60, laborYears: 1, transferable: false },
+  water_heater: { partsYears: 6, laborYears: 1, transferable: false },
+  roof: { partsYears: 25, laborYears: 2, transferable: true },
+  electrical_panel: { partsYears: 10, laborYears: 1, transferable: true },
+  plumbing: { partsYears: 10, laborYears: 1, transferable: true },
+  pool: { partsYears: 2, laborYears: 1, transferable: false },
+  solar: { partsYears: 25, laborYears: 10, transferable: true },
+};
+
+/** Brand refinements on top of KIND_DEFAULTS, keyed by normalized brand */
+const BRAND_OVERRIDES: Record<string, Record<string, Partial<WarrantyDefault>>> = {
+  carrier: { hvac: { registrationWindowDays: 90 } },
+  bryant: { hvac: { registrationWindowDays: 90 } },
+  daikin: { hvac: { registeredPartsYears: 12 }, mini_split: { registeredPartsYears: 12 } },
+  mitsubishi: { mini_split: { registeredPartsYears: 12, registrationWindowDays: 90 } },
+  rinnai: { water_heater: { partsYears: 5 } },
+  navien: { water_heater: { partsYears: 5 } },
+};
+
+function normalizeBrand(brand?: string | null): string {
+  return (brand ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function normalizeKind(kind: string): string {
+  const lower = kind.toLowerCase();
+  if (lower.includes('mini_split') || lower.includes('ductless')) return 'mini_split';
+  if (lower.includes('water_heater')) return 'water_heater';
+  if (lower.includes('hvac') || lower.includes('furnace') || lower.includes('air_condition')) return 'hvac';
+  if (lower.includes('electrical')) return 'electrical_panel';
+  if (lower.startsWith('pool')) return 'pool';
+  return lower;
+}
+
+function resolveDefault(kind: string, manufacturer?: string | null): WarrantyDefault {
+  const normalizedKind = normalizeKind(kind);
+  const base = KIND_DEFAULTS[normalizedKind] ?? APPLIANCE_DEFAULT;
+  const override = BRAND_OVERRIDES[normalizeBrand(manufacturer)]?.[normalizedKind] ?? {};
+  return { ...base, ...override };
+}
+
+// ============== Date Helpers ==============
+
+/**
+ * Same calendar day N years on; Feb 29 lands on Feb 28 in non-leap years
+ */
+export function addYearsIso(isoDate: string, years: number): string {
+  const [y, m, d] = isoDate.substring(0, 10).split('-').map(Number);
+  const date = new Date(Date.UTC(y + years, m - 1, d));
+  if (date.getUTCMonth() !== m - 1) date.setUTCDate(0);
+  return date.toISOString().substring(0, 10);
+}
+
+export function addDaysIso(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate.substring(0, 10)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().substring(0, 10);
+}
+
+function daysBetweenIso(from: string, to: string): number {
+  const start = Date.parse(`${from.substring(0, 10)}T00:00:00Z`);
+  const end = Date.parse(`${to.substring(0, 10)}T00:00:00Z`);
+  return Math.round((end - start) / 86_400_000);
+}
+
+// ============== Model ==============
+
+/**
+ * Recompute expiry dates and the registration deadline from terms and
+ * coverage start (R2, R6)
+ */
+export function withExpiries(warranty: AssetWarranty): AssetWarranty {
+  const start = warranty.coverageStart;
+  const registrationWindow = warranty.registrationWindowDays;
+  return {
+    ...warranty,
+    partsExpiresOn: start ? addYearsIso(start, warranty.partsYears) : null,
+    laborExpiresOn: start ? addYearsIso(start, warranty.laborYears) : null,
+    registrationDeadline: start && registrationWindow !== null ? addDaysIso(start, registrationWindow) : null,
+  };
+}
+
+/**
+ * Estimated warranty for an asset from kind + brand defaults
+ */
+export function buildDefaultWarranty(asset: WarrantyAssetRef, registered = false): AssetWarranty {
+  const terms = resolveDefault(asset.kind, asset.manufacturer);
+  const extendsOnRegistration =
+    terms.registeredPartsYears !== undefined && terms.registeredPartsYears > terms.partsYears;
+  const coverageStart = asset.installDate ? asset.installDate.substring(0, 10) : null;
+
+  return withExpiries({
+    partsYears: extendsOnRegistration && registered ? terms.registeredPartsYears! : terms.partsYears,
+    laborYears: terms.laborYears,
+    coverageStart,
+    partsExpiresOn: null,
+    laborExpiresOn: null,
+    transferable: terms.transferable,
+    registeredPartsYears: extendsOnRegistration ? terms.registeredPartsYears! : null,
+    registrationWindowDays: extendsOnRegistration ? terms.registrationWindowDays ?? null : null,
+    registrationDeadline: null,
+    registered,
+    source: 'brand_default',
+    confirmed: false,
+    confirmedAt: null,
+  });
+}
+
+/**
+ * The estimate rebuilt from the asset as it is now, or null when the stored
+ * row is owner/document terms or still matches (R5)
+ */
+export function rederiveDefaultWarranty(stored: AssetWarranty, asset: WarrantyAssetRef): AssetWarranty | null {
+  if (stored.source !== 'brand_default' || stored.confirmed) return null;
+  const fresh = buildDefaultWarranty(asset, stored.registered);
+  const unchanged = JSON.stringify(warrantyToRow(fresh)) === JSON.stringify(warrantyToRow(stored));
+  return unchanged ? null : fresh;
+}
+
+/**
+ * Mark the product registered: parts coverage extends to the registered term
+ */
+export function applyRegistration(warranty: AssetWarranty): AssetWarranty {
+  return withExpiries({
+    ...warranty,
+    registered: true,
+    partsYears: warranty.registeredPartsYears ?? warranty.partsYears,
+  });
+}
+
+export function isWarrantyActive(warranty: AssetWarranty, today: string): boolean {
+  return [warranty.partsExpiresOn, warranty.laborExpiresOn].some((date) => !!date && date >= today);
+}
+
+// ============== Alerts ==============
+
+export interface WarrantyAlertOptions {
+  /** ISO date for "today" */
+  today: string;
+  /** How far ahead expiries and deadlines are surfaced */
+  horizonDays?: number;
+  /** Planned replacement date for this asset, if any */
+  plannedReplacementDate?: string | null;
+  /** How far ahead a planned replacement triggers a coverage check */
+  replacementLookaheadDays?: number;
+}
+
+const DEFAULT_HORIZON_DAYS = 60;
+const DEFAULT_REPLACEMENT_LOOKAHEAD_DAYS = 180;
+
+export function getWarrantyAlerts(
+  warranty: AssetWarranty,
+  label: string,
+  options: WarrantyAlertOptions
+): WarrantyAlert[] {
+  const { today, plannedReplacementDate } = options;
+  const horizonEnd = addDaysIso(today, options.horizonDays ?? DEFAULT_HORIZON_DAYS);
+  const inHorizon = (date: string | null): date is string => !!date && date >= today && date <= horizonEnd;
+  const alerts: WarrantyAlert[] = [];
+
+  if (!warranty.registered && warranty.registeredPartsYears && inHorizon(warranty.registrationDeadline)) {
+    alerts.push({
+      kind: 'registration_deadline',
+      dueDate: warranty.registrationDeadline,
+      message: `Register your ${label} by ${warranty.registrationDeadline} to extend parts coverage to ${warranty.registeredPartsYears} years.`,
+    });
+  }
+
+  if (inHorizon(warranty.partsExpiresOn)) {
+    alerts.push({
+      kind: 'parts_expiring',
+      dueDate: warranty.partsExpiresOn,
+      message: `Your ${label} parts warranty ends ${warranty.partsExpiresOn}. Worth a check-up while repairs are still covered.`,
+    });
+  }
+
+  // Labor usually ends with parts on short appliance terms — one alert is enough
+  if (inHorizon(warranty.laborExpiresOn) && warranty.laborExpiresOn !== warranty.partsExpiresOn) {
+    alerts.push({
+      kind: 'labor_expiring',
+      dueDate: warranty.laborExpiresOn,
+      message: `Installer labor coverage on your ${label} ends ${warranty.laborExpiresOn}.`,
+    });
+  }
+
+  const lookaheadEnd = addDaysIso(today, options.replacementLookaheadDays ?? DEFAULT_REPLACEMENT_LOOKAHEAD_DAYS);
+  if (
+    plannedReplacementDate &&
+    plannedReplacementDate <= lookaheadEnd &&
+    warranty.partsExpiresOn &&
+    warranty.partsExpiresOn >= today
+  ) {
+    // Act before whichever comes first: the replacement or the end of coverage
+    const actBy = plannedReplacementDate < warranty.partsExpiresOn ? plannedReplacementDate : warranty.partsExpiresOn;
+    alerts.push({
+      kind: 'covered_before_replacement',
+      dueDate: actBy < today ? today : actBy,
+      message: `Your ${label} is still under parts warranty until ${warranty.partsExpiresOn}. Check whether a covered repair makes sense before paying for a replacement.`,
+    });
+  }
+
+  return alerts;
+}
+
+// ============== Row Mapping ==============
+
+export function warrantyToRow(warranty: AssetWarranty): AssetWarrantyRow {
+  return {
+    parts_years: warranty.partsYears,
+    labor_years: warranty.laborYears,
+    coverage_start: warranty.coverageStart,
+    parts_expires_on: warranty.partsExpiresOn,
+    labor_expires_on: warranty.laborExpiresOn,
+    transferable: warranty.transferable,
+    registered_parts_years: warranty.registeredPartsYears,
+    registration_deadline: warranty.registrationDeadline,
+    registered: warranty.registered,
+    source: warranty.source,
+    confirmed_at: warranty.confirmed ? warranty.confirmedAt ?? new Date().toISOString() : null,
+  };
+}
+
+export function warrantyFromRow(row: AssetWarrantyRow): AssetWarranty {
+  return {
+    partsYears: row.parts_years,
+    laborYears: row.labor_years,
+    coverageStart: row.coverage_start,
+    partsExpiresOn: row.parts_expires_on,
+    laborExpiresOn: row.labor_expires_on,
+    transferable: row.transferable,
+    registeredPartsYears: row.registered_parts_years,
+    registrationWindowDays: row.registration_deadline && row.coverage_start
+      ? daysBetweenIso(row.coverage_start, row.registration_deadline)
+      : null,
+    registrationDeadline: row.registration_deadline,
+    registered: row.registered,
+    source: row.source as WarrantySource,
+    confirmed: !!row.confirmed_at,
+    confirmedAt: row.confirmed_at,
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * Assistant Tools - Tool schemas for ai-home-assistant and the mock fixtures
+ * that exercise them
+ *
+ * ARCHITECTURE:
+ * - ASSISTANT_TOOLS is the single definition of what the model may call;
+ *   ai-home-assistant executes them in handleFunctionCall()
+ * - ASSISTANT_MOCK_FIXTURES script the mock provider (LLM_PROVIDER=mock) so
+ *   the tool-calling flows run without network access
+ *
+ * @version v1
+ */
+
+import type { LlmFixture, ToolDefinition } from './llmProvider.ts';
+
+export const ASSISTANT_TOOLS: ToolDefinition[] = [
+  {
+    name: 'schedule_maintenance',
+    description: 'Schedule a maintenance task for the user',
+    parameters: {
+      type: 'object',
+      properties: {
+        system: { type: 'string', description: 'System that needs maintenance' },
+        task: { type: 'string', description: 'Maintenance task description' },
+        urgency: { type: 'string', enum: ['low', 'medium', 'high'] },
+        estimated_cost: { type: 'number', description: 'Estimated cost in USD' }
+      },
+      required: ['system', 'task', 'urgency'],
+      additionalProperties: false
+    }
+  },
+  {
+    name: 'get_contractor_recommendations',
+    description: 'Get local contractor recommendations for a specific service',
+    parameters: {
+      type: 'object',
+      properties: {
+        service_type: { type: 'string', description: 'Type of service needed' },
+        urgency: { type: 'string', enum: ['low', 'medium', 'high'] }
+      },
+      required: ['service_type'],
+      additionalProperties: false
+    }
+  },
+  {
+    name: 'calculate_cost_impact',
+    description: 'Calculate cost information for repairs, replacements, or NEW installations. Works for EXISTING systems (provides replacement timing + emergency vs planned costs) and PROPOSED additions (provides typical installation cost ranges).',
+    parameters: {
+      type: 'object',
+      properties: {
+        repair_type: { type: 'string', description: 'Type of repair, system, or addition (e.g., "hvac", "mini_split", "water_heater")' },
+        delay_months: { type: 'number', description: 'Months to delay the work (for existing systems only)' },
+        quantity: { type: 'number', description: 'Number of units or zones (for proposed additions, defaults to 1)' }
+      },
+      required: ['repair_type'],
+      additionalProperties: false
+    }
+  },
+  {
+    name: 'update_system_info',
+    description: 'Update system installation information based on what the user tells you. Use this ONLY when the user provides SPECIFIC information about when a system was installed, replaced, or is original to the home. Do NOT use if the user is vague or uncertain.',
+    parameters: {
+      type: 'object',
+      properties: {
+        system_type: { 
+          type: 'string', 
+          enum: ['hvac', 'roof', 'water_heater'],
+          description: 'The type of system being updated' 
+        },
+        install_year: { 
+          type: 'number', 
+          description: 'The SPECIFIC year the system was installed (e.g., 2008). Do NOT guess or infer — only provide if user stated explicitly.' 
+        },
+        replacement_status: { 
+          type: 'string', 
+          enum: ['original', 'replaced', 'unknown'],
+          description: 'Whether this is the original system from when the home was built, a replacement, or unknown' 
+        },
+        knowledge_source: {
+          type: 'string',
+          enum: ['memory', 'receipt', 'permit', 'inspection'],
+          description: 'How the user knows this information'
+        }
+      },
+      required: ['system_type', 'replacement_status'],
+      additionalProperties: false
+    }
+  },
+  {
+    name: 'record_home_event',
+    description: 'Record a home event to the permanent home record (Carfax for the Home). Use for: discovering new appliances/systems mentioned in conversation, recording issues, diagnoses, recommendations, repairs, user decisions, and status changes. Events are immutable — status changes create new linked events.',
+    parameters: {
+      type: 'object',
+      properties: {
+        event_type: {
+          type: 'string',
+          enum: ['system_discovered', 'issue_reported', 'diagnosis', 'recommendation', 'repair_completed', 'maintenance_performed', 'replacement', 'user_decision', 'contractor_referred', 'status_change'],
+          description: 'The type of event to record'
+        },
+        system_kind: {
+          type: 'string',
+          description: 'The kind of system or appliance (e.g., washing_machine, dryer, refrigerator, hvac, roof, dishwasher, hot_tub, garbage_disposal)'
+        },
+        title: {
+          type: 'string',
+          description: 'Short human-readable summary of the event'
+        },
+        description: {
+          type: 'string',
+          description: 'Detailed description of the event'
+        },
+        severity: {
+          type: 'string',
+          enum: ['info', 'minor', 'moderate', 'major'],
+          description: 'Severity level (default: info)'
+        },
+        cost_estimate_low: {
+          type: 'number',
+          description: 'Low end of estimated cost range'
+        },
+        cost_estimate_high: {
+          type: 'number',
+          description: 'High end of estimated cost range'
+        },
+        cost_actual: {
+          type: 'number',
+          description: 'Amount actually paid, when the user states it (for replacement and repair_completed events)'
+        },
+        manufacturer: {
+          type: 'string',
+          description: 'Brand/manufacturer (for system_discovered events)'
+        },
+        model: {
+          type: 'string',
+          description: 'Model number (for system_discovered events)'
+        },
+        age_estimate_years: {
+          type: 'number',
+          description: 'Approximate age in years (for system_discovered events)'
+        },
+        resolution: {
+          type: 'string',
+          description: 'Resolution description (for repair_completed, user_decision events)'
+        },
+        related_event_id: {
+          type: 'string',
+          description: 'UUID of a prior event to link to (for follow-ups, status changes)'
+        },
+        metadata: {
+          type: 'object',
+          description: 'Additional structured data (symptom, probable_cause, decision, etc.)'
+        }
+      },
+      required: ['event_type', 'system_kind', 'title'],
+      additionalProperties: false
+    }
+  },
+];
+
+/**
+ * Fixtures for the write tools. Matching is on the user's message, so keep
+ * patterns specific enough not to shadow each other.
+ */
+export const ASSISTANT_MOCK_FIXTURES: LlmFixture[] = [
+  {
+    name: 'schedule_maintenance',
+    match: '\\b(schedule|remind me)\\b.*\\b(filter|flush|service|tune-?up|clean)',
+    toolCall: {
+      name: 'schedule_maintenance',
+      arguments: {
+        system: 'hvac',
+        task: 'Replace HVAC air filter',
+        urgency: 'medium',
+        estimated_cost: 40,
+      },
+    },
+    followUp: "I've added an HVAC filter change to your maintenance list. Swapping it every few months keeps airflow up and strain on the system down.",
+  },
+  {
+    name: 'update_system_info',
+    match: '\\b(replaced|installed|put in)\\b.*\\b(hvac|ac|air conditioner|furnace|roof|water heater)\\b.*\\b(19|20)\\d{2}\\b',
+    toolCall: {
+      name: 'update_system_info',
+      arguments: {
+        system_type: 'water_heater',
+        install_year: 2019,
+        replacement_status: 'replaced',
+        knowledge_source: 'memory',
+      },
+    },
+    followUp: "Got it — I've updated your water heater to a 2019 install. That shifts its replacement window later, which is good news for your planning.",
+  },
+  {
+    name: 'record_home_event',
+    match: '\\b(leak|leaking|broke|broken|not working|stopped working)\\b',
+    toolCall: {
+      name: 'record_home_event',
+      arguments: {
+        event_type: 'issue_reported',
+        system_kind: 'dishwasher',
+        title: 'Dishwasher leaking',
+        description: 'Owner reported water pooling under the dishwasher after cycles.',
+        severity: 'moderate',
+      },
+    },
+    followUp: "I've noted the dishwasher leak in your home record. A worn door gasket or a loose drain hose connection is the usual cause — both are inexpensive fixes.",
+  },
+];
@@ -0,0 +1,183 @@
+/**
+ * Capital Exposure Simulation - Monte Carlo spend bands for the capital outlook
+ *
+ * ARCHITECTURE:
+ * - Pure math, no I/O. capital-timeline attaches the result to
+ *   CapitalOutlook.simulation next to the weighted roll-up
+ * - Each system gets a Weibull lifetime curve: median from its replacement
+ *   window (likely year − install year), shape from the active failure
+ *   calibration when one exists, otherwise from the window's p10/p90 spread
+ * - Each run samples failure years conditional on the system having
+ *   survived to today, then the replacement unit's own lifetime, until the
+ *   longest horizon is passed
+ * - Each failure costs a draw from the cost band plus the system's
+ *   emergency premium (a failure is by definition unplanned)
+ *
+ * RULES:
+ * R1: Seeded, so the same timeline always yields the same bands
+ * R2: A missing install year is inferred as likely year − baseline lifespan
+ * R3: Percentiles are of total spend within each horizon, per run
+ *     ("80% chance you spend less than p80")
+ *
+ * @version v1
+ */
+
+import { getEmergencyPremium, SYSTEM_CONFIGS, type SystemType } from './systemConfigs.ts';
+import { createRng, percentile, sampleCost, type Rng } from './replacementSampling.ts';
+import type { WeibullParams } from './survivalFit.ts';
+
+// ============== Types ==============
+
+export interface SimulationSystem {
+  systemId: SystemType;
+  installYear: number | null;
+  replacementWindow: { earlyYear: number; likelyYear: number; lateYear: number };
+  capitalCost: { low: number; high: number };
+}
+
+export const SIMULATION_HORIZONS = [1, 3, 5, 10] as const;
+
+export interface SimulatedHorizon {
+  yearsAhead: (typeof SIMULATION_HORIZONS)[number];
+  /** Mean total spend across runs */
+  mean: number;
+  p10: number;
+  p50: number;
+  /** 80% of runs spend less than this */
+  p80: number;
+  p90: number;
+  /** Share of runs with any replacement in the horizon */
+  anySpendProbability: number;
+}
+
+export interface CapitalExposureSimulation {
+  runs: number;
+  horizons: SimulatedHorizon[];
+  methodologyNote: string;
+}
+
+export interface SimulationOptions {
+  currentYear: number;
+  runs?: number;
+  seed?: number;
+  /** Weibull shape per system from the active calibration, when available */
+  calibratedShape?: (systemId: SystemType) => number | null;
+}
+
+// ============== Constants ==============
+
+export const DEFAULT_SIMULATION_RUNS = 2000;
+
+/** ln(ln 0.1 / ln 0.9): turns a p90/p10 lifetime ratio into a Weibull shape */
+const SHAPE_FROM_P10_P90 = Math.log(Math.log(0.1) / Math.log(0.9));
+const SHAPE_MIN = 0.8;
+const SHAPE_MAX = 12;
+
+/** Cap on replacements of one system per run (water heaters can renew in 10 years) */
+const MAX_RENEWALS = 5;
+
+// ============== Curves ==============
+
+function inferInstallYear(system: SimulationSystem): number {
+  if (system.installYear !== null) return system.installYear;
+  // R2
+  const lifespan = SYSTEM_CONFIGS[system.systemId]?.baselineLifespan ?? 15;
+  return system.replacementWindow.likelyYear - lifespan;
+}
+
+/**
+ * Weibull lifetime curve for a system, anchored on its replacement window
+ */
+export function lifetimeCurve(
+  system: SimulationSystem,
+  calibratedShape?: number | null
+): WeibullParams {
+  const installYear = inferInstallYear(system);
+  const { earlyYear, likelyYear, lateYear } = system.replacementWindow;
+  const median = Math.max(1, likelyYear - installYear);
+
+  let shape = calibratedShape ?? null;
+  if (!shape) {
+    const t10 = Math.max(0.5, earlyYear - installYear);
+    const t90 = Math.max(t10 + 0.5, lateYear - installYear);
+    shape = SHAPE_FROM_P10_P90 / Math.log(t90 / t10);
+  }
+  shape = Math.min(SHAPE_MAX, Math.max(SHAPE_MIN, shape));
+
+  return { shape, scale: median / Math.pow(Math.LN2, 1 / shape) };
+}
+
+/**
+ * Lifetime drawn from the curve given survival to `ageYears` (inverse CDF
+ * of the conditional Weibull)
+ */
+export function sampleConditionalLifetime(ageYears: number, curve: WeibullParams, rng: Rng): number {
+  const age = Math.max(0, ageYears);
+  const u = Math.max(Number.EPSILON, 1 - rng());
+  return curve.scale * Math.pow(Math.pow(age / curve.scale, curve.shape) - Math.log(u), 1 / curve.shape);
+}
+
+// ============== Simulation ==============
+
+/**
+ * Run the Monte Carlo and return spend percentiles per horizon (R3)
+ */
+export function simulateCapitalExposure(
+  systems: SimulationSystem[],
+  options: SimulationOptions
+): CapitalExposureSimulation {
+  const { currentYear } = options;
+  const runs = options.runs ?? DEFAULT_SIMULATION_RUNS;
+  const rng = createRng(options.seed);
+  const maxHorizon = SIMULATION_HORIZONS[SIMULATION_HORIZONS.length - 1];
+
+  const prepared = systems.map((system) => {
+    const installYear = inferInstallYear(system);
+    return {
+      system,
+      installYear,
+      curve: lifetimeCurve(system, options.calibratedShape?.(system.systemId)),
+      emergencyMultiplier: 1 + getEmergencyPremium(system.systemId),
+    };
+  });
+
+  // totals[h][run] = spend within horizon h for that run
+  const totals: number[][] = SIMULATION_HORIZONS.map(() => new Array<number>(runs).fill(0));
+
+  for (let run = 0; run < runs; run++) {
+    for (const { system, installYear, curve, emergencyMultiplier } of prepared) {
+      // Years from now until failure; negative ages mean not yet installed
+      let yearsFromNow = sampleConditionalLifetime(currentYear - installYear, curve, rng) - (currentYear - installYear);
+
+      for (let renewal = 0; renewal < MAX_RENEWALS && yearsFromNow < maxHorizon; renewal++) {
+        const cost = sampleCost(system.capitalCost.low, system.capitalCost.high, rng) * emergencyMultiplier;
+        SIMULATION_HORIZONS.forEach((horizon, h) => {
+          if (yearsFromNow < horizon) totals[h][run] += cost;
+        });
+        // The replacement starts a fresh lifetime
+        yearsFromNow += sampleConditionalLifetime(0, curve, rng);
+      }
+    }
+  }
+
+  const horizons: SimulatedHorizon[] = SIMULATION_HORIZONS.map((yearsAhead, h) => {
+    const sorted = [...totals[h]].sort((a, b) => a - b);
+    const mean = sorted.reduce((sum, v) => sum + v, 0) / Math.max(1, runs);
+    return {
+      yearsAhead,
+      mean: Math.round(mean),
+      p10: Math.round(percentile(sorted, 10)),
+      p50: Math.round(percentile(sorted, 50)),
+      p80: Math.round(percentile(sorted, 80)),
+      p90: Math.round(percentile(sorted, 90)),
+      anySpendProbability: Math.round((sorted.filter((v) => v > 0).length / Math.max(1, runs)) * 1000) / 1000,
+    };
+  });
+
+  return {
+    runs,
+    horizons,
+    methodologyNote:
+      'Simulated across possible failure timelines; replacements priced as unplanned, including emergency premiums',
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Capital Outlook - Weighted capital exposure across 3/5/10-year horizons
+ *
+ * ARCHITECTURE:
+ * - Pure calculator shared by the capital-timeline edge function and the
+ *   client-side scenario simulator, so a what-if plan and the inferred
+ *   timeline are rolled up the same way
+ * - Works on any system shape with a replacement window and cost range
+ * - The Monte Carlo spend bands (capitalExposureSimulation.ts) ride along
+ *   as an optional `simulation`; the weighted horizons stay for roll-ups
+ *   and the scenario simulator, which sum or compare them directly
+ *
+ * RULES:
+ * R1: Likely year inside the horizon counts the full cost range
+ * R2: Only the early year inside the horizon counts 30% (low) / 50% (high)
+ * R3: Early year beyond the horizon counts nothing
+ *
+ * @version v2
+ */
+
+import type { CapitalExposureSimulation } from './capitalExposureSimulation.ts';
+
+export interface OutlookSystem {
+  replacementWindow: { earlyYear: number; likelyYear: number };
+  capitalCost: { low: number; high: number };
+}
+
+export interface CapitalOutlook {
+  horizons: Array<{
+    yearsAhead: 3 | 5 | 10;
+    lowEstimate: number;
+    highEstimate: number;
+    methodology: 'weighted';
+  }>;
+  methodologyNote: string;
+  /** Percentile bands of 1/3/5/10-year spend, when simulated */
+  simulation?: CapitalExposureSimulation;
+}
+
+export const CAPITAL_OUTLOOK_HORIZONS = [3, 5, 10] as const;
+
+export function calculateWeightedExposure(
+  system: OutlookSystem,
+  horizonCutoff: number
+): { low: number; high: number } {
+  const { earlyYear, likelyYear } = system.replacementWindow;
+
+  // R3
+  if (earlyYear > horizonCutoff) {
+    return { low: 0, high: 0 };
+  }
+
+  // R1
+  if (likelyYear <= horizonCutoff) {
+    return {
+      low: system.capitalCost.low,
+      high: system.capitalCost.high,
+    };
+  }
+
+  // R2
+  return {
+    low: Math.round(system.capitalCost.low * 0.3),
+    high: Math.round(system.capitalCost.high * 0.5),
+  };
+}
+
+export function calculateCapitalOutlook(
+  systems: OutlookSystem[],
+  currentYear: number
+): CapitalOutlook {
+  const horizons: CapitalOutlook['horizons'] = [];
+
+  for (const years of CAPITAL_OUTLOOK_HORIZONS) {
+    const cutoff = currentYear + years;
+    let low = 0;
+    let high = 0;
+
+    for (const sys of systems) {
+      const exposure = calculateWeightedExposure(sys, cutoff);
+      low += exposure.low;
+      high += exposure.high;
+    }
+
+    horizons.push({
+      yearsAhead: years,
+      lowEstimate: low,
+      highEstimate: high,
+      methodology: 'weighted',
+    });
+  }
+
+  return {
+    horizons,
+    methodologyNote: 'Estimates weighted by replacement probability within each horizon',
+  };
+}
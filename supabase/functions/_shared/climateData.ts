@@ -0,0 +1,254 @@
+/**
+ * ClimateData - Bundled climate dataset for the climate resolver
+ *
+ * ARCHITECTURE:
+ * - Static data only. No logic beyond the record shape.
+ * - Consumed by climateResolver.ts (browser AND Deno — no runtime imports here)
+ *
+ * Sources (rounded; 1991–2020 NOAA normals, 2021 IECC county assignments):
+ * - cdd65 / hdd65: annual cooling / heating degree days, base 65°F
+ * - humidityPct: mean annual relative humidity
+ * - coastDistanceKm: distance from the populated core to salt water
+ *
+ * Granularity, most to least precise:
+ * 1. COUNTY_CLIMATE — county FIPS for major metros and known coastal counties
+ * 2. ZIP3_TO_COUNTY — ZIP prefix → representative county for those metros
+ * 3. STATE_CLIMATE — population-weighted state default
+ *
+ * RULES:
+ * R1: Bump CLIMATE_DATASET_VERSION whenever any value changes, so stored
+ *     property_climate_data rows are re-resolved
+ * R2: Counties listed here must be more specific than their state default;
+ *     don't add a county that only repeats it
+ *
+ * @version climate_v1
+ */
+
+export const CLIMATE_DATASET_VERSION = 'climate_v1';
+
+export interface ClimateRecord {
+  /** IECC climate zone, e.g. '2A', '5B', '4C' */
+  ieccZone: string;
+  cdd65: number;
+  hdd65: number;
+  humidityPct: number;
+  coastDistanceKm: number;
+}
+
+const r = (
+  ieccZone: string,
+  cdd65: number,
+  hdd65: number,
+  humidityPct: number,
+  coastDistanceKm: number
+): ClimateRecord => ({ ieccZone, cdd65, hdd65, humidityPct, coastDistanceKm });
+
+// ============== County (FIPS) ==============
+
+export const COUNTY_CLIMATE: Record<string, ClimateRecord> = {
+  // Florida
+  '12086': r('1A', 4500, 130, 73, 3),    // Miami-Dade
+  '12011': r('1A', 4300, 170, 73, 3),    // Broward
+  '12087': r('1A', 4900, 50, 75, 0),     // Monroe (Keys)
+  '12099': r('2A', 4000, 250, 73, 3),    // Palm Beach
+  '12103': r('2A', 3800, 450, 73, 2),    // Pinellas
+  '12057': r('2A', 3600, 550, 74, 10),   // Hillsborough
+  '12071': r('2A', 3900, 350, 74, 8),    // Lee
+  '12021': r('2A', 3900, 300, 75, 8),    // Collier
+  '12115': r('2A', 3700, 450, 74, 5),    // Sarasota
+  '12081': r('2A', 3700, 500, 74, 8),    // Manatee
+  '12009': r('2A', 3500, 500, 75, 5),    // Brevard
+  '12127': r('2A', 3200, 750, 75, 8),    // Volusia
+  '12031': r('2A', 2800, 1300, 74, 15),  // Duval
+  '12095': r('2A', 3400, 600, 74, 70),   // Orange (Orlando)
+  // Texas
+  '48167': r('2A', 3200, 1100, 78, 3),   // Galveston
+  '48355': r('2A', 3700, 900, 76, 5),    // Nueces (Corpus Christi)
+  '48201': r('2A', 3000, 1400, 75, 15),  // Harris (Houston)
+  '48029': r('2A', 3100, 1500, 66, 200), // Bexar (San Antonio)
+  '48453': r('2A', 3100, 1600, 66, 250), // Travis (Austin)
+  '48113': r('3A', 2800, 2200, 64, 400), // Dallas
+  // Southwest
+  '04013': r('2B', 4700, 900, 36, 400),  // Maricopa (Phoenix)
+  '04019': r('2B', 4000, 1200, 38, 350), // Pima (Tucson)
+  '32003': r('3B', 3500, 2100, 30, 350), // Clark (Las Vegas)
+  // California
+  '06037': r('3B', 1300, 1300, 65, 12),  // Los Angeles
+  '06059': r('3B', 1000, 1400, 67, 10),  // Orange
+  '06073': r('3B', 900, 1300, 70, 10),   // San Diego
+  '06065': r('3B', 2500, 1500, 45, 80),  // Riverside
+  '06075': r('3C', 150, 2700, 74, 3),    // San Francisco
+  '06081': r('3C', 250, 2500, 72, 8),    // San Mateo
+  '06085': r('3C', 600, 2300, 67, 15),   // Santa Clara
+  '06001': r('3C', 400, 2600, 70, 10),   // Alameda
+  // Gulf & Southeast coast
+  '22071': r('2A', 2900, 1300, 76, 15),  // Orleans
+  '45019': r('3A', 2300, 1900, 73, 5),   // Charleston
+  '37129': r('3A', 2000, 2400, 73, 5),   // New Hanover
+  '13051': r('2A', 2500, 1800, 72, 10),  // Chatham (Savannah)
+  '13121': r('3A', 1800, 2800, 67, 400), // Fulton (Atlanta)
+  '37119': r('3A', 1600, 3200, 68, 300), // Mecklenburg (Charlotte)
+  '47157': r('3A', 2200, 3000, 69, 600), // Shelby (Memphis)
+  // Mid-Atlantic & Northeast
+  '34025': r('4A', 1000, 4800, 70, 5),   // Monmouth
+  '34029': r('4A', 1000, 4900, 70, 5),   // Ocean
+  '36061': r('4A', 1300, 4600, 63, 5),   // New York
+  '42101': r('4A', 1400, 4500, 66, 90),  // Philadelphia
+  '11001': r('4A', 1500, 4200, 64, 150), // District of Columbia
+  '42003': r('5A', 900, 5800, 68, 450),  // Allegheny (Pittsburgh)
+  '25025': r('5A', 800, 5600, 67, 3),    // Suffolk (Boston)
+  '36029': r('5A', 600, 6700, 72, 600),  // Erie (Buffalo)
+  // Midwest & Mountain
+  '17031': r('5A', 1000, 6300, 70, 1000), // Cook (Chicago)
+  '26163': r('5A', 800, 6200, 71, 1000),  // Wayne (Detroit)
+  '39035': r('5A', 800, 6100, 71, 700),   // Cuyahoga (Cleveland)
+  '55079': r('5A', 700, 6800, 72, 1100),  // Milwaukee
+  '27053': r('6A', 900, 7600, 68, 1500),  // Hennepin (Minneapolis)
+  '08031': r('5B', 900, 5900, 51, 1500),  // Denver
+  // Pacific Northwest
+  '53033': r('4C', 200, 4800, 73, 5),    // King (Seattle)
+  '41051': r('4C', 400, 4400, 73, 100),  // Multnomah (Portland)
+};
+
+// ============== ZIP3 → County ==============
+
+export const ZIP3_TO_COUNTY: Record<string, string> = {
+  // Florida
+  '330': '12086', '331': '12086', '332': '12086',
+  '333': '12011',
+  '334': '12099',
+  '335': '12057', '336': '12057',
+  '337': '12103',
+  '339': '12071',
+  '341': '12021',
+  '342': '12115',
+  '320': '12031', '322': '12031',
+  '321': '12127',
+  '327': '12095', '328': '12095',
+  '329': '12009',
+  // Texas
+  '770': '48201', '771': '48201', '772': '48201',
+  '775': '48167',
+  '783': '48355', '784': '48355',
+  '782': '48029',
+  '786': '48453', '787': '48453',
+  '750': '48113', '751': '48113', '752': '48113', '753': '48113',
+  // Southwest
+  '850': '04013', '852': '04013', '853': '04013',
+  '856': '04019', '857': '04019',
+  '889': '32003', '890': '32003', '891': '32003',
+  // California
+  '900': '06037', '901': '06037', '902': '06037', '903': '06037', '904': '06037',
+  '905': '06037', '906': '06037', '907': '06037', '908': '06037',
+  '910': '06037', '911': '06037', '912': '06037', '913': '06037', '914': '06037',
+  '915': '06037', '916': '06037', '917': '06037', '918': '06037',
+  '919': '06073', '920': '06073', '921': '06073',
+  '926': '06059', '927': '06059', '928': '06059',
+  '922': '06065', '925': '06065',
+  '941': '06075',
+  '940': '06081', '944': '06081',
+  '945': '06001', '946': '06001',
+  '950': '06085', '951': '06085',
+  // Gulf & Southeast
+  '700': '22071', '701': '22071',
+  '294': '45019',
+  '284': '37129',
+  '314': '13051',
+  '303': '13121',
+  '282': '37119',
+  '380': '47157', '381': '47157',
+  // Mid-Atlantic & Northeast
+  '077': '34025',
+  '087': '34029',
+  '100': '36061', '101': '36061', '102': '36061',
+  '190': '42101', '191': '42101',
+  '200': '11001', '202': '11001', '203': '11001', '204': '11001', '205': '11001',
+  '150': '42003', '151': '42003', '152': '42003',
+  '021': '25025', '022': '25025',
+  '142': '36029',
+  // Midwest & Mountain
+  '606': '17031', '607': '17031', '608': '17031',
+  '481': '26163', '482': '26163',
+  '440': '39035', '441': '39035',
+  '532': '55079',
+  '553': '27053', '554': '27053',
+  '800': '08031', '801': '08031', '802': '08031',
+  // Pacific Northwest
+  '980': '53033', '981': '53033',
+  '970': '41051', '971': '41051', '972': '41051',
+};
+
+// ============== State Defaults ==============
+
+export const STATE_CLIMATE: Record<string, ClimateRecord> = {
+  AL: r('3A', 2100, 2600, 71, 250),
+  AK: r('7', 0, 10500, 73, 5),
+  AZ: r('2B', 4600, 900, 37, 400),
+  AR: r('3A', 2100, 3100, 70, 600),
+  CA: r('3B', 1100, 1800, 65, 25),
+  CO: r('5B', 800, 6000, 52, 1500),
+  CT: r('5A', 800, 5800, 70, 40),
+  DE: r('4A', 1200, 4600, 70, 40),
+  DC: r('4A', 1500, 4200, 64, 150),
+  FL: r('2A', 3400, 600, 74, 40),
+  GA: r('3A', 1800, 2800, 68, 350),
+  HI: r('1A', 4500, 0, 70, 2),
+  ID: r('5B', 800, 5700, 55, 600),
+  IL: r('5A', 1000, 6300, 70, 900),
+  IN: r('5A', 1100, 5600, 72, 900),
+  IA: r('5A', 1100, 6700, 72, 1300),
+  KS: r('4A', 1600, 4800, 67, 1200),
+  KY: r('4A', 1400, 4300, 70, 800),
+  LA: r('2A', 2800, 1600, 76, 80),
+  ME: r('6A', 400, 7300, 73, 20),
+  MD: r('4A', 1300, 4600, 66, 80),
+  MA: r('5A', 700, 5600, 68, 10),
+  MI: r('5A', 800, 6300, 72, 1000),
+  MN: r('6A', 800, 7600, 69, 1500),
+  MS: r('3A', 2300, 2400, 73, 250),
+  MO: r('4A', 1600, 4700, 69, 1000),
+  MT: r('6B', 400, 7700, 57, 1000),
+  NE: r('5A', 1200, 6200, 68, 1500),
+  NV: r('3B', 3400, 2200, 30, 350),
+  NH: r('5A', 600, 6800, 70, 60),
+  NJ: r('4A', 1200, 4800, 68, 20),
+  NM: r('4B', 1300, 4300, 45, 900),
+  NY: r('4A', 1200, 4700, 63, 10),
+  NC: r('3A', 1600, 3200, 70, 250),
+  ND: r('6A', 500, 8800, 70, 1500),
+  OH: r('5A', 1000, 5600, 71, 800),
+  OK: r('3A', 2100, 3400, 65, 700),
+  OR: r('4C', 400, 4400, 73, 100),
+  PA: r('5A', 900, 5600, 68, 150),
+  PR: r('1A', 5000, 0, 77, 5),
+  RI: r('5A', 700, 5700, 70, 10),
+  SC: r('3A', 2100, 2500, 70, 150),
+  SD: r('6A', 700, 7600, 68, 1500),
+  TN: r('4A', 1800, 3600, 70, 600),
+  TX: r('2A', 2900, 1700, 68, 250),
+  UT: r('5B', 1100, 5600, 50, 1000),
+  VT: r('6A', 400, 7700, 71, 250),
+  VA: r('4A', 1400, 4000, 68, 100),
+  WA: r('4C', 200, 4800, 73, 30),
+  WV: r('5A', 900, 5000, 72, 400),
+  WI: r('6A', 700, 7300, 72, 1200),
+  WY: r('6B', 400, 7500, 55, 1500),
+};
+
+/**
+ * Full state names → USPS codes, for homes stored with spelled-out states
+ */
+export const STATE_NAME_TO_CODE: Record<string, string> = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA',
+  colorado: 'CO', connecticut: 'CT', delaware: 'DE', 'district of columbia': 'DC',
+  florida: 'FL', georgia: 'GA', hawaii: 'HI', idaho: 'ID', illinois: 'IL',
+  indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY', louisiana: 'LA',
+  maine: 'ME', maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN',
+  mississippi: 'MS', missouri: 'MO', montana: 'MT', nebraska: 'NE', nevada: 'NV',
+  'new hampshire': 'NH', 'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY',
+  'north carolina': 'NC', 'north dakota': 'ND', ohio: 'OH', oklahoma: 'OK',
+  oregon: 'OR', pennsylvania: 'PA', 'puerto rico': 'PR', 'rhode island': 'RI',
+  'south carolina': 'SC', 'south dakota': 'SD', tennessee: 'TN', texas: 'TX',
+  utah: 'UT', vermont: 'VT', virginia: 'VA', washington: 'WA',
+  'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY',
+};
@@ -0,0 +1,215 @@
+/**
+ * ClimateResolver - One climate lookup for the dashboard and the lifecycle math
+ *
+ * ARCHITECTURE:
+ * - Pure and runtime-agnostic: imported by Deno edge functions (classifyClimate
+ *   in systemInference.ts, seed-maintenance-plan) AND by the browser
+ *   (src/lib/climateZone.ts)
+ * - Resolves a location to measured climate data (IECC zone, degree days,
+ *   humidity, coast distance), then classifies that data into a zone
+ * - The data source is pluggable; the bundled dataset is the default
+ *
+ * Resolution order (first hit wins):
+ * 1. County FIPS (from ATTOM / parcel data)
+ * 2. ZIP code → representative county
+ * 3. State default
+ * 4. Latitude band (coarse)
+ * 5. National default
+ *
+ * RULES:
+ * R1: No city-name matching. Location keys only (FIPS, ZIP, state, latitude)
+ * R2: No imports with runtime side effects — this file ships to the browser
+ * R3: Zone thresholds live here and only here
+ * R4: A home is resolved from its homes row via resolveHomeClimate, so plans,
+ *     timelines and dashboard labels read the same four keys and agree
+ *     (pinned by src/__tests__/climateZone.test.ts)
+ *
+ * @version v2
+ */
+
+import {
+  CLIMATE_DATASET_VERSION,
+  COUNTY_CLIMATE,
+  STATE_CLIMATE,
+  STATE_NAME_TO_CODE,
+  ZIP3_TO_COUNTY,
+  type ClimateRecord,
+} from './climateData.ts';
+
+export type { ClimateRecord } from './climateData.ts';
+
+// ============== Types ==============
+
+export type ClimateZoneType = 'high_heat' | 'coastal' | 'freeze_thaw' | 'moderate';
+
+export const CLIMATE_ZONES: ClimateZoneType[] = ['high_heat', 'coastal', 'freeze_thaw', 'moderate'];
+
+export type ClimateResolution = 'county' | 'zip' | 'state' | 'latitude' | 'default';
+
+export interface ClimateLocation {
+  fipsCode?: string | null;
+  zipCode?: string | null;
+  state?: string | null;
+  latitude?: number | null;
+}
+
+/** Location columns as stored on a homes row */
+export interface HomeClimateFields {
+  state?: string | null;
+  zip_code?: string | null;
+  fips_code?: string | null;
+  latitude?: number | null;
+}
+
+export interface ClimateProfile extends ClimateRecord {
+  zone: ClimateZoneType;
+  /** How precisely the location was matched */
+  resolution: ClimateResolution;
+  /** County the record came from, when resolved at county or ZIP level */
+  countyFips: string | null;
+  sourceId: string;
+  datasetVersion: string;
+}
+
+/**
+ * Pluggable lookup. Implement this to back the resolver with a different
+ * dataset (e.g. a NOAA import) without touching any consumer.
+ */
+export interface ClimateDataSource {
+  id: string;
+  version: string;
+  byCounty(countyFips: string): ClimateRecord | null;
+  countyForZip(zipCode: string): string | null;
+  byState(stateCode: string): ClimateRecord | null;
+}
+
+// ============== Bundled Source ==============
+
+export const BUNDLED_CLIMATE_SOURCE: ClimateDataSource = {
+  id: 'bundled',
+  version: CLIMATE_DATASET_VERSION,
+  byCounty: (countyFips) => COUNTY_CLIMATE[countyFips] ?? null,
+  countyForZip: (zipCode) => ZIP3_TO_COUNTY[zipCode.substring(0, 3)] ?? null,
+  byState: (stateCode) => STATE_CLIMATE[stateCode] ?? null,
+};
+
+// ============== Thresholds ==============
+
+/** Salt-air exposure: populated core within this distance of salt water */
+const COASTAL_MAX_DISTANCE_KM = 15;
+/** Coastal wear is modeled for warm coasts only; colder coasts classify by temperature */
+const COASTAL_MAX_IECC = 3;
+const HIGH_HEAT_MAX_IECC = 2;
+const HIGH_HEAT_MIN_CDD = 2500;
+const FREEZE_THAW_MIN_IECC = 5;
+
+const LATITUDE_FALLBACK: Record<'hot' | 'cold' | 'mixed', ClimateRecord> = {
+  hot: { ieccZone: '2A', cdd65: 3500, hdd65: 500, humidityPct: 70, coastDistanceKm: 100 },
+  cold: { ieccZone: '6A', cdd65: 500, hdd65: 7500, humidityPct: 70, coastDistanceKm: 100 },
+  mixed: { ieccZone: '4A', cdd65: 1300, hdd65: 4500, humidityPct: 67, coastDistanceKm: 100 },
+};
+
+// ============== Helpers ==============
+
+export function normalizeStateCode(state?: string | null): string | null {
+  if (!state) return null;
+  const trimmed = state.trim();
+  if (trimmed.length === 2) return trimmed.toUpperCase();
+  return STATE_NAME_TO_CODE[trimmed.toLowerCase()] ?? null;
+}
+
+export function isClimateZoneType(value: unknown): value is ClimateZoneType {
+  return typeof value === 'string' && (CLIMATE_ZONES as string[]).includes(value);
+}
+
+/** Numeric part of an IECC zone ('2A' → 2, '7' → 7) */
+export function ieccZoneNumber(ieccZone: string): number {
+  return parseInt(ieccZone, 10);
+}
+
+/**
+ * Classify measured climate into the zone the lifecycle math understands
+ */
+export function classifyClimateRecord(record: ClimateRecord): ClimateZoneType {
+  const iecc = ieccZoneNumber(record.ieccZone);
+
+  if (record.coastDistanceKm <= COASTAL_MAX_DISTANCE_KM && iecc <= COASTAL_MAX_IECC) {
+    return 'coastal';
+  }
+  if (iecc <= HIGH_HEAT_MAX_IECC || record.cdd65 >= HIGH_HEAT_MIN_CDD) {
+    return 'high_heat';
+  }
+  if (iecc >= FREEZE_THAW_MIN_IECC) {
+    return 'freeze_thaw';
+  }
+  return 'moderate';
+}
+
+// ============== Resolver ==============
+
+export function resolveClimateProfile(
+  location: ClimateLocation,
+  source: ClimateDataSource = BUNDLED_CLIMATE_SOURCE
+): ClimateProfile {
+  const build = (
+    record: ClimateRecord,
+    resolution: ClimateResolution,
+    countyFips: string | null = null
+  ): ClimateProfile => ({
+    ...record,
+    zone: classifyClimateRecord(record),
+    resolution,
+    countyFips,
+    sourceId: source.id,
+    datasetVersion: source.version,
+  });
+
+  // 1. County FIPS (state+county is the first 5 digits of any longer FIPS)
+  const countyFips = location.fipsCode ? location.fipsCode.trim().substring(0, 5) : null;
+  if (countyFips) {
+    const record = source.byCounty(countyFips);
+    if (record) return build(record, 'county', countyFips);
+  }
+
+  // 2. ZIP → county
+  const zip = location.zipCode?.trim();
+  if (zip && /^\d{5}/.test(zip)) {
+    const zipCounty = source.countyForZip(zip);
+    const record = zipCounty ? source.byCounty(zipCounty) : null;
+    if (record) return build(record, 'zip', zipCounty);
+  }
+
+  // 3. State default
+  const stateCode = normalizeStateCode(location.state);
+  if (stateCode) {
+    const record = source.byState(stateCode);
+    if (record) return build(record, 'state');
+  }
+
+  // 4. Latitude band
+  if (typeof location.latitude === 'number') {
+    const band = location.latitude < 28 ? 'hot' : location.latitude > 42 ? 'cold' : 'mixed';
+    return build(LATITUDE_FALLBACK[band], 'latitude');
+  }
+
+  // 5. National default
+  return build(LATITUDE_FALLBACK.mixed, 'default');
+}
+
+/**
+ * Resolve a home from its stored location (R4)
+ */
+export function resolveHomeClimate(
+  home: HomeClimateFields,
+  source: ClimateDataSource = BUNDLED_CLIMATE_SOURCE
+): ClimateProfile {
+  return resolveClimateProfile(
+    {
+      state: home.state,
+      zipCode: home.zip_code,
+      fipsCode: home.fips_code,
+      latitude: home.latitude,
+    },
+    source
+  );
+}
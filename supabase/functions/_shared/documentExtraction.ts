@@ -0,0 +1,455 @@
+/**
+ * DocumentExtraction - Turns OCR text from a home document into structured facts
+ *
+ * ARCHITECTURE:
+ * - Pure and runtime-agnostic: used by the process-document edge function and
+ *   importable by the browser for previews/tests
+ * - OCR happens upstream (Google Vision); this module only reads text
+ * - Deterministic keyword/regex parsing, same approach as analyze-device-photo
+ *
+ * Pipeline:
+ * 1. classifyDocument — receipt, invoice, warranty, inspection report, ...
+ * 2. detectSystemKey — which home system the document is about
+ * 3. extractDocumentFields — dates, costs, brand/model/serial, warranty terms
+ * 4. decodeSerialDate (serialDecoding.ts) — manufacture date from brand + serial
+ *
+ * RULES:
+ * R1: Never guess. A field is only set when the text supports it
+ * R2: Every extracted field carries its own confidence (0-1)
+ * R3: Dates are returned as ISO yyyy-mm-dd strings
+ * R4: Inspection reports cover the whole house, so they never name a single
+ *     system — equipment identity from them is not attributed anywhere
+ *
+ * @version v3 - Stricter brand and date matching; calendar-valid dates only
+ */
+
+import { decodeSerialDate, type SerialDate } from './serialDecoding.ts';
+
+// ============== Types ==============
+
+export type DocumentType =
+  | 'receipt'
+  | 'invoice'
+  | 'warranty'
+  | 'inspection_report'
+  | 'permit'
+  | 'insurance'
+  | 'manual'
+  | 'other';
+
+export interface WarrantyTerms {
+  termYears?: number;
+  /** 'parts', 'labor', 'parts_and_labor', 'compressor', 'limited', ... */
+  coverage?: string;
+  startsOn?: string;
+  expiresOn?: string;
+  provider?: string;
+}
+
+export interface DocumentExtraction {
+  documentType: DocumentType;
+  typeConfidence: number;
+  systemKey?: string;
+  brand?: string;
+  model?: string;
+  serial?: string;
+  /** Manufacture date decoded from the serial; carries its own confidence */
+  serialDate?: SerialDate;
+  /** Date the work was done / equipment installed */
+  installDate?: string;
+  /** Date printed on the document (invoice date, report date) */
+  documentDate?: string;
+  totalCost?: number;
+  vendor?: string;
+  warranty?: WarrantyTerms;
+  fieldConfidence: Partial<Record<ExtractedField, number>>;
+  extractorVersion: string;
+}
+
+export type ExtractedField =
+  | 'systemKey'
+  | 'brand'
+  | 'model'
+  | 'serial'
+  | 'installDate'
+  | 'documentDate'
+  | 'totalCost'
+  | 'vendor'
+  | 'warranty';
+
+export const DOCUMENT_EXTRACTOR_VERSION = 'doc_extract_v3';
+
+// ============== Classification ==============
+
+/**
+ * Keyword weights per document type. Strong phrases score 3, supporting words 1.
+ */
+const TYPE_SIGNALS: Record<Exclude<DocumentType, 'other'>, Array<[RegExp, number]>> = {
+  warranty: [
+    [/\b(limited|manufacturer'?s?|extended|home) warranty\b/i, 3],
+    [/\bwarranty (certificate|registration|coverage|period|terms)\b/i, 3],
+    [/\bwarrant(y|ies|s)\b/i, 1],
+    [/\bcoverage\b/i, 1],
+  ],
+  inspection_report: [
+    [/\b(home|property|general|roof|wind mitigation|4[- ]point) inspection\b/i, 3],
+    [/\binspection report\b/i, 3],
+    [/\binspector\b/i, 2],
+    [/\b(deficien(cy|cies)|recommend(ed)? (repair|evaluation)|serviceable)\b/i, 1],
+  ],
+  invoice: [
+    [/\binvoice\s*(#|no\.?|number)/i, 3],
+    [/\binvoice\b/i, 2],
+    [/\b(amount|balance) due\b/i, 2],
+    [/\b(due date|net 30|bill to)\b/i, 1],
+  ],
+  receipt: [
+    [/\b(sales )?receipt\b/i, 3],
+    [/\b(paid in full|payment received|change due)\b/i, 2],
+    [/\b(visa|mastercard|amex|cash|check)\s*(#|\*{2,}|x{2,}|ending)/i, 1],
+    [/\bsubtotal\b/i, 1],
+  ],
+  permit: [
+    [/\b(building|mechanical|electrical|plumbing|roofing) permit\b/i, 3],
+    [/\bpermit\s*(#|no\.?|number)/i, 3],
+    [/\bcertificate of (occupancy|completion)\b/i, 2],
+  ],
+  insurance: [
+    [/\b(declarations? page|policy (number|period))\b/i, 3],
+    [/\b(homeowners?|hazard) (insurance|policy)\b/i, 3],
+    [/\b(premium|deductible|insured)\b/i, 1],
+  ],
+  manual: [
+    [/\b(owner'?s|installation|operating|user) (manual|guide|instructions)\b/i, 3],
+    [/\btroubleshooting\b/i, 1],
+    [/\b(read|save) these instructions\b/i, 2],
+  ],
+};
+
+/** Score needed before we commit to a type instead of 'other' */
+const MIN_TYPE_SCORE = 2;
+
+export function classifyDocument(text: string): { type: DocumentType; confidence: number } {
+  let best: DocumentType = 'other';
+  let bestScore = 0;
+  let totalScore = 0;
+
+  for (const [type, signals] of Object.entries(TYPE_SIGNALS)) {
+    const score = signals.reduce((sum, [pattern, weight]) => sum + (pattern.test(text) ? weight : 0), 0);
+    totalScore += score;
+    if (score > bestScore) {
+      best = type as DocumentType;
+      bestScore = score;
+    }
+  }
+
+  if (bestScore < MIN_TYPE_SCORE) {
+    return { type: 'other', confidence: 0.3 };
+  }
+
+  // Share of the signal owned by the winner, scaled into 0.5-0.95
+  const dominance = bestScore / totalScore;
+  return { type: best, confidence: Math.round((0.5 + 0.45 * dominance) * 100) / 100 };
+}
+
+// ============== System Detection ==============
+
+/**
+ * Ordered: mini-split before HVAC, so "ductless mini split heat pump" is not HVAC
+ */
+const SYSTEM_SIGNALS: Array<[string, RegExp]> = [
+  ['mini_split', /\b(mini[- ]?split|ductless)\b/i],
+  ['water_heater', /\b(water heater|tankless|hot water (tank|heater))\b/i],
+  ['hvac', /\b(hvac|air condition(er|ing)|a\/c|condenser|heat pump|furnace|air handler|seer2?)\b/i],
+  ['roof', /\b(roof(ing)?|shingles?|underlayment|re-?roof)\b/i],
+  ['electrical_panel', /\b(electrical panel|breaker (box|panel)|service panel|load center|main breaker)\b/i],
+  ['solar', /\b(solar (panel|pv|array|system)|photovoltaic|inverter)\b/i],
+  ['pool', /\b(pool (pump|heater|filter|equipment)|spa heater)\b/i],
+  ['plumbing', /\b(repipe|re-?piping|sewer line|main water line|plumbing)\b/i],
+];
+
+export function detectSystemKey(text: string): string | undefined {
+  // Count mentions so a roof invoice that mentions "vent" once doesn't read as HVAC
+  let best: string | undefined;
+  let bestCount = 0;
+  for (const [key, pattern] of SYSTEM_SIGNALS) {
+    const count = (text.match(new RegExp(pattern.source, 'gi')) || []).length;
+    if (count > bestCount) {
+      best = key;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// ============== Field Patterns ==============
+
+const BRAND_PATTERNS: Record<string, RegExp> = {
+  'Carrier': /\bcarrier\b/i,
+  'Trane': /\btrane\b/i,
+  'Lennox': /\blennox\b/i,
+  'Goodman': /\bgoodman\b/i,
+  'Rheem': /\brheem\b/i,
+  'Ruud': /\bruud\b/i,
+  // Not the city: "New York", or a York, PA / NY address line
+  'York': /(?<!\bnew\s+)\byork\b(?!,?\s+(?:ny|pa)\b)/i,
+  'Daikin': /\bdaikin\b/i,
+  'Mitsubishi': /\bmitsubishi\b/i,
+  'Bryant': /\bbryant\b/i,
+  'American Standard': /\bamerican standard\b/i,
+  'A.O. Smith': /\ba\.?\s?o\.? smith\b/i,
+  'Bradford White': /\bbradford white\b/i,
+  'Rinnai': /\brinnai\b/i,
+  'Navien': /\bnavien\b/i,
+  'GAF': /\bgaf\b/i,
+  'Owens Corning': /\bowens corning\b/i,
+  'CertainTeed': /\bcertainteed\b/i,
+  'Square D': /\bsquare d\b/i,
+  'Eaton': /\beaton\b/i,
+  'Siemens': /\bsiemens\b/i,
+  'Enphase': /\benphase\b/i,
+  'SolarEdge': /\bsolaredge\b/i,
+  'Hayward': /\bhayward\b/i,
+  'Pentair': /\bpentair\b/i,
+  'Jandy': /\bjandy\b/i,
+};
+
+const MODEL_PATTERNS = [
+  /\bmodel\s*(?:#|no\.?|number)?[:\s]\s*([A-Z0-9][A-Z0-9\-./]{3,})/i,
+  /\bm\/n[:\s]\s*([A-Z0-9][A-Z0-9\-./]{3,})/i,
+];
+
+const SERIAL_PATTERNS = [
+  /\bserial\s*(?:#|no\.?|number)?[:\s]\s*([A-Z0-9][A-Z0-9-]{4,})/i,
+  /\bs\/n[:\s]\s*([A-Z0-9][A-Z0-9-]{4,})/i,
+];
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const DATE_TOKEN =
+  '(\\d{1,2}[/-]\\d{1,2}[/-]\\d{2,4}|\\d{4}-\\d{2}-\\d{2}|(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?\\s+\\d{1,2},?\\s+\\d{4})';
+
+const INSTALL_DATE_PATTERNS = [
+  new RegExp(`\\b(?:install(?:ation|ed)?|completion|completed|service|work) date[:\\s]*${DATE_TOKEN}`, 'i'),
+  new RegExp(`\\b(?:installed|completed) (?:on )?${DATE_TOKEN}`, 'i'),
+];
+
+/** Dates on a document that are not when it was written */
+const OTHER_DATE_LABEL = '(?:due|payment|expiry|expiration|expires|valid until|valid through|ship|delivery|start|end)';
+
+const DOCUMENT_DATE_PATTERN = new RegExp(
+  `(?<!\\b${OTHER_DATE_LABEL}\\s+)\\b(?:(?:invoice|receipt|report|inspection|issue|purchase|order)\\s+)?date[:\\s]*${DATE_TOKEN}`,
+  'i'
+);
+
+/** Receipts often print the date unlabeled */
+const BARE_DATE_PATTERN = new RegExp(
+  `(?<!\\b${OTHER_DATE_LABEL}(?:\\s+date)?[:\\s]*)(?<![\\d/-])${DATE_TOKEN}`,
+  'i'
+);
+
+const TOTAL_PATTERNS = [
+  /\b(?:grand total|total due|amount due|balance due|total amount|amount paid|total)[:\s]*\$?\s*([\d,]+\.\d{2})/i,
+];
+
+const WARRANTY_TERM_PATTERN =
+  /\b(\d{1,2}|one|two|three|five|ten)[- ]year\s+((?:limited|parts(?: and | & )labor|parts|labor|compressor|heat exchanger|tank|workmanship|system)\s+)?warranty/i;
+
+const WARRANTY_EXPIRY_PATTERN =
+  new RegExp(`\\bwarranty\\s+(?:expires|expiration(?: date)?|valid (?:through|until)|ends)[:\\s]*(?:on\\s+)?${DATE_TOKEN}`, 'i');
+
+const WARRANTY_PROVIDER_PATTERN =
+  /\b(?:warrant(?:y|or)|coverage)\s+(?:provided|issued|backed)\s+by[:\s]+([A-Z][\w&.,' ]{2,40})/i;
+
+const WORD_NUMBERS: Record<string, number> = { one: 1, two: 2, three: 3, five: 5, ten: 10 };
+
+// ============== Helpers ==============
+
+/**
+ * Parse a matched date token into ISO yyyy-mm-dd. US month-first order.
+ */
+export function parseDocumentDate(token: string): string | undefined {
+  const raw = token.trim().toLowerCase();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  let m = raw.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (m) {
+    [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  } else if ((m = raw.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})$/))) {
+    [month, day, year] = [Number(m[1]), Number(m[2]), Number(m[3])];
+    if (year < 100) year += 2000;
+  } else if ((m = raw.match(/^([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})$/))) {
+    month = MONTHS[m[1]];
+    [day, year] = [Number(m[2]), Number(m[3])];
+  } else {
+    return undefined;
+  }
+
+  if (!month || month > 12 || day < 1 || day > 31 || year < 1950 || year > 2100) {
+    return undefined;
+  }
+  // Reject days the month doesn't have (2/30, 4/31, 2/29 outside leap years)
+  if (new Date(Date.UTC(year, month - 1, day)).getUTCDate() !== day) {
+    return undefined;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function firstMatch(text: string, patterns: RegExp[]): string | undefined {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match?.[1]) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Same calendar day N years on; Feb 29 lands on Feb 28 in non-leap years
+ */
+function addYears(isoDate: string, years: number): string {
+  const [y, m, d] = isoDate.split('-').map(Number);
+  const date = new Date(Date.UTC(y + years, m - 1, d));
+  if (date.getUTCMonth() !== m - 1) date.setUTCDate(0);
+  return date.toISOString().slice(0, 10);
+}
+
+function parseMoney(value: string): number | undefined {
+  const amount = Number(value.replace(/,/g, ''));
+  return Number.isFinite(amount) && amount > 0 ? amount : undefined;
+}
+
+/**
+ * Vendor is taken from the letterhead: the first short line that isn't a
+ * document label, date, or number.
+ */
+function detectVendor(text: string): string | undefined {
+  const lines = text.split('\n').map((l) => l.trim()).filter(Boolean).slice(0, 5);
+  for (const line of lines) {
+    if (line.length < 3 || line.length > 60) continue;
+    if (/\d{3,}|invoice|receipt|report|warranty|model|serial|date|page|bill to|^#/i.test(line)) continue;
+    return line;
+  }
+  return undefined;
+}
+
+// ============== Extraction ==============
+
+export function extractDocumentFields(text: string): DocumentExtraction {
+  const { type, confidence } = classifyDocument(text);
+  const fieldConfidence: DocumentExtraction['fieldConfidence'] = {};
+  const result: DocumentExtraction = {
+    documentType: type,
+    typeConfidence: confidence,
+    fieldConfidence,
+    extractorVersion: DOCUMENT_EXTRACTOR_VERSION,
+  };
+
+  const systemKey = type === 'inspection_report' ? undefined : detectSystemKey(text);
+  if (systemKey) {
+    result.systemKey = systemKey;
+    fieldConfidence.systemKey = 0.7;
+  }
+
+  for (const [brand, pattern] of Object.entries(BRAND_PATTERNS)) {
+    if (pattern.test(text)) {
+      result.brand = brand;
+      fieldConfidence.brand = 0.8;
+      break;
+    }
+  }
+
+  const model = firstMatch(text, MODEL_PATTERNS);
+  if (model) {
+    result.model = model.toUpperCase();
+    fieldConfidence.model = 0.85;
+  }
+
+  const serial = firstMatch(text, SERIAL_PATTERNS);
+  if (serial) {
+    result.serial = serial.toUpperCase();
+    fieldConfidence.serial = 0.85;
+
+    const serialDate = decodeSerialDate(result.brand, result.serial);
+    if (serialDate) result.serialDate = serialDate;
+  }
+
+  const installToken = firstMatch(text, INSTALL_DATE_PATTERNS);
+  const installDate = installToken ? parseDocumentDate(installToken) : undefined;
+  if (installDate) {
+    result.installDate = installDate;
+    fieldConfidence.installDate = 0.9;
+  }
+
+  const isTransaction = type === 'receipt' || type === 'invoice';
+  const documentToken = firstMatch(
+    text,
+    isTransaction ? [DOCUMENT_DATE_PATTERN, BARE_DATE_PATTERN] : [DOCUMENT_DATE_PATTERN]
+  );
+  const documentDate = documentToken ? parseDocumentDate(documentToken) : undefined;
+  if (documentDate) {
+    result.documentDate = documentDate;
+    fieldConfidence.documentDate = 0.7;
+
+    // A receipt or invoice for installed equipment dates the install itself
+    if (!result.installDate && systemKey && isTransaction) {
+      result.installDate = documentDate;
+      fieldConfidence.installDate = 0.6;
+    }
+  }
+
+  const totalToken = firstMatch(text, TOTAL_PATTERNS);
+  const totalCost = totalToken ? parseMoney(totalToken) : undefined;
+  if (totalCost !== undefined) {
+    result.totalCost = totalCost;
+    fieldConfidence.totalCost = 0.85;
+  }
+
+  const vendor = detectVendor(text);
+  if (vendor) {
+    result.vendor = vendor;
+    fieldConfidence.vendor = 0.5;
+  }
+
+  const warranty = extractWarrantyTerms(text, result.installDate ?? result.documentDate);
+  if (warranty) {
+    result.warranty = warranty;
+    fieldConfidence.warranty = warranty.expiresOn ? 0.8 : 0.6;
+  }
+
+  return result;
+}
+
+export function extractWarrantyTerms(text: string, startsOn?: string): WarrantyTerms | undefined {
+  const terms: WarrantyTerms = {};
+
+  const termMatch = text.match(WARRANTY_TERM_PATTERN);
+  if (termMatch) {
+    const rawYears = termMatch[1].toLowerCase();
+    terms.termYears = WORD_NUMBERS[rawYears] ?? Number(rawYears);
+    const coverage = termMatch[2]?.trim().toLowerCase();
+    if (coverage) {
+      terms.coverage = coverage.replace(/\s*(and|&)\s*/, '_and_').replace(/\s+/g, '_');
+    }
+  }
+
+  const expiryToken = text.match(WARRANTY_EXPIRY_PATTERN)?.[1];
+  const expiresOn = expiryToken ? parseDocumentDate(expiryToken) : undefined;
+  if (expiresOn) {
+    terms.expiresOn = expiresOn;
+  } else if (terms.termYears && startsOn) {
+    terms.startsOn = startsOn;
+    terms.expiresOn = addYears(startsOn, terms.termYears);
+  }
+
+  const provider = text.match(WARRANTY_PROVIDER_PATTERN)?.[1];
+  if (provider) {
+    terms.provider = provider.trim().replace(/[.,]$/, '');
+  }
+
+  return Object.keys(terms).length > 0 ? terms : undefined;
+}
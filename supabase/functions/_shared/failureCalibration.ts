@@ -0,0 +1,62 @@
+/**
+ * FailureCalibration - Active failure-curve calibration from ml_models
+ *
+ * ARCHITECTURE:
+ * - calibrate-failure-curves WRITES versioned rows to ml_models
+ * - Everything else READS the single active row: edge functions through
+ *   failureCalibrationLoader.ts, the frontend through
+ *   src/services/failureCalibrationLoader.ts
+ * - Pure (no I/O, no remote imports) so the frontend imports it as-is
+ *
+ * RULES:
+ * R1: A missing or malformed calibration is never an error — callers
+ *     keep their built-in constants
+ * R2: Zone-specific cells win over the 'all' cell for the same system
+ *
+ * @version v2 - Loader moved to failureCalibrationLoader.ts; shared with the frontend
+ */
+
+import type { ClimateZoneType } from './climateResolver.ts';
+import type { SystemType } from './systemConfigs.ts';
+
+// ============== Types ==============
+
+export const FAILURE_CALIBRATION_MODEL_NAME = 'failure_curve_calibration';
+export const FAILURE_CALIBRATION_MODEL_TYPE = 'weibull_survival';
+
+export type CalibrationZoneKey = ClimateZoneType | 'all';
+
+export interface CalibratedCurveParams {
+  shape: number;
+  scale: number;
+  medianYears: number;
+  sigmaYears: number;
+  failureEvents: number;
+  sampleSize: number;
+}
+
+export interface FailureCalibrationConfig {
+  params: Partial<Record<SystemType, Partial<Record<CalibrationZoneKey, CalibratedCurveParams>>>>;
+  sourceCounts: Record<string, number>;
+  fittedAt: string;
+}
+
+export interface FailureCalibration {
+  version: string;
+  config: FailureCalibrationConfig;
+}
+
+// ============== Resolution ==============
+
+/**
+ * Resolve the curve for a system, preferring the climate-zone cell
+ */
+export function getCalibratedCurve(
+  calibration: FailureCalibration | null,
+  systemType: SystemType,
+  climateZone?: ClimateZoneType
+): CalibratedCurveParams | null {
+  const bySystem = calibration?.config.params[systemType];
+  if (!bySystem) return null;
+  return (climateZone && bySystem[climateZone]) || bySystem.all || null;
+}
@@ -0,0 +1,41 @@
+/**
+ * FailureCalibrationLoader - Reads the active calibration row for edge functions
+ *
+ * ARCHITECTURE:
+ * - The only I/O half of failureCalibration.ts; kept apart so that module
+ *   stays importable from the frontend
+ *
+ * RULES:
+ * R1: A missing, malformed or unreadable row returns null (see
+ *     failureCalibration.ts R1)
+ *
+ * @version v1
+ */
+
+import type { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  FAILURE_CALIBRATION_MODEL_NAME,
+  type FailureCalibration,
+  type FailureCalibrationConfig,
+} from './failureCalibration.ts';
+
+export async function loadActiveFailureCalibration(
+  supabase: ReturnType<typeof createClient>
+): Promise<FailureCalibration | null> {
+  try {
+    const { data, error } = await supabase
+      .from('ml_models')
+      .select('version, model_config')
+      .eq('model_name', FAILURE_CALIBRATION_MODEL_NAME)
+      .eq('is_active', true)
+      .order('training_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error || !data?.model_config?.params) return null;
+    return { version: data.version, config: data.model_config as FailureCalibrationConfig };
+  } catch (err) {
+    console.warn('[failureCalibration] Failed to load active calibration:', err);
+    return null;
+  }
+}
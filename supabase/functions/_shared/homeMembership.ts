@@ -0,0 +1,134 @@
+/**
+ * Home Membership - Roles and what each role may do in a shared home
+ *
+ * ARCHITECTURE:
+ * - A home has exactly one owner (homes.user_id) plus any number of
+ *   co-owners, viewers and service pros (home_members)
+ * - New members join through emailed invitations (home_invitations)
+ * - RLS policies in the home_members migration enforce the same matrix
+ *   as HOME_ROLE_CAPABILITIES; keep the two in step
+ *
+ * RULES:
+ * R1: Ownership is never granted by invitation or role change
+ * R2: Co-owners manage viewers and service pros only; the owner manages everyone
+ * R3: Any member except the owner may leave a home
+ * R4: An invitation is usable once, by the invited address, before it expires
+ *
+ * @version v1
+ */
+
+// ============== Roles ==============
+
+export type HomeMemberRole = 'owner' | 'co_owner' | 'viewer' | 'service_pro';
+
+export const HOME_MEMBER_ROLES: HomeMemberRole[] = ['owner', 'co_owner', 'viewer', 'service_pro'];
+
+export const HOME_ROLE_LABELS: Record<HomeMemberRole, string> = {
+  owner: 'Owner',
+  co_owner: 'Co-owner',
+  viewer: 'Viewer',
+  service_pro: 'Service pro',
+};
+
+export const HOME_ROLE_DESCRIPTIONS: Record<HomeMemberRole, string> = {
+  owner: 'Full access, including who else can see this home',
+  co_owner: 'Full access to the home record; can invite viewers and service pros',
+  viewer: 'Can see the home record',
+  service_pro: 'Can see the home record and log work they performed',
+};
+
+export interface HomeRoleCapabilities {
+  /** Add events to the home record (home_events) */
+  recordEvents: boolean;
+  /** Change home details, systems, assets and plans */
+  editHome: boolean;
+  /** Invite, re-role and remove members (see canAssignRole for limits) */
+  manageMembers: boolean;
+}
+
+export const HOME_ROLE_CAPABILITIES: Record<HomeMemberRole, HomeRoleCapabilities> = {
+  owner: { recordEvents: true, editHome: true, manageMembers: true },
+  co_owner: { recordEvents: true, editHome: true, manageMembers: true },
+  viewer: { recordEvents: false, editHome: false, manageMembers: false },
+  service_pro: { recordEvents: true, editHome: false, manageMembers: false },
+};
+
+export function isHomeMemberRole(value: unknown): value is HomeMemberRole {
+  return typeof value === 'string' && (HOME_MEMBER_ROLES as string[]).includes(value);
+}
+
+// ============== Permission checks ==============
+
+/**
+ * Whether `actor` may invite someone as, or change someone to, `role` (R1, R2)
+ */
+export function canAssignRole(actor: HomeMemberRole, role: HomeMemberRole): boolean {
+  if (role === 'owner') return false;
+  if (actor === 'owner') return true;
+  if (actor === 'co_owner') return role === 'viewer' || role === 'service_pro';
+  return false;
+}
+
+/**
+ * Whether `actor` may remove (or re-role) a member who currently holds `target` (R2, R3)
+ */
+export function canManageMember(
+  actor: HomeMemberRole,
+  target: HomeMemberRole,
+  isSelf: boolean
+): boolean {
+  if (target === 'owner') return false;
+  if (isSelf) return true;
+  if (actor === 'owner') return true;
+  if (actor === 'co_owner') return target === 'viewer' || target === 'service_pro';
+  return false;
+}
+
+// ============== Invitations ==============
+
+export const INVITATION_TTL_DAYS = 14;
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+}
+
+export function invitationExpiry(from: Date = new Date()): string {
+  return new Date(from.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Effective status: stored pending invitations past expires_at are expired
+ */
+export function invitationStatus(
+  invitation: { status: string; expires_at: string },
+  now: Date = new Date()
+): InvitationStatus {
+  if (invitation.status === 'accepted' || invitation.status === 'revoked') {
+    return invitation.status;
+  }
+  return new Date(invitation.expires_at).getTime() <= now.getTime() ? 'expired' : 'pending';
+}
+
+/**
+ * Why an invitation can't be accepted by `email`, or null if it can (R4)
+ */
+export function invitationAcceptError(
+  invitation: { status: string; expires_at: string; email: string },
+  email: string | null | undefined,
+  now: Date = new Date()
+): string | null {
+  const status = invitationStatus(invitation, now);
+  if (status === 'accepted') return 'This invitation has already been used';
+  if (status === 'revoked') return 'This invitation was cancelled';
+  if (status === 'expired') return 'This invitation has expired';
+  if (!email || normalizeEmail(email) !== normalizeEmail(invitation.email)) {
+    return `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`;
+  }
+  return null;
+}
@@ -0,0 +1,257 @@
+/**
+ * iCalendar - Maintenance, deferral and warranty dates as RFC 5545 events
+ *
+ * ARCHITECTURE:
+ * - Pure and runtime-agnostic: used by calendar-feed (Deno) for the
+ *   subscription URL and by the browser (src/lib/calendarExport.ts) for
+ *   one-off .ics downloads, so both produce identical events
+ * - Source rows are mapped to CalendarEvents by the *Event helpers below;
+ *   buildCalendar only serialises
+ *
+ * RULES:
+ * R1: UIDs are stable per source row (task id, decision id, asset + alert
+ *     kind), so a re-fetched feed or a re-downloaded task updates the
+ *     existing calendar entry instead of duplicating it
+ * R2: Everything is an all-day event (DTSTART;VALUE=DATE, DTEND the next
+ *     day); dates are YYYY-MM-DD with no timezone
+ * R3: Text is escaped and lines are folded at 75 octets with CRLF endings
+ * R4: Closed tasks (completed, skipped) are not events; the feed drops them
+ *     and subscribed calendars remove them on the next refresh
+ *
+ * @version v1
+ */
+
+// ============== Types ==============
+
+export interface CalendarEvent {
+  uid: string;
+  /** YYYY-MM-DD (R2) */
+  date: string;
+  title: string;
+  description?: string | null;
+  /** Absolute link back into Habitta */
+  url?: string | null;
+  categories?: string[];
+  /** Reminder this many days before, at 9am local (omit for none) */
+  alarmDaysBefore?: number;
+}
+
+export interface CalendarOptions {
+  name: string;
+  description?: string;
+  /** Suggested refresh interval for subscribed calendars */
+  refreshHours?: number;
+  /** DTSTAMP for every event; defaults to now */
+  now?: Date;
+}
+
+/** maintenance_tasks fields the feed reads */
+export interface CalendarTaskRow {
+  id: string;
+  title: string;
+  description?: string | null;
+  due_date: string;
+  status: string;
+  priority?: string | null;
+  category?: string | null;
+  cost?: number | null;
+}
+
+/** A dated deferral from decision_events */
+export interface CalendarDeferralRow {
+  id: string;
+  defer_until: string;
+  system_key: string;
+  user_notes?: string | null;
+}
+
+/** A warranty alert (see assetWarranty.getWarrantyAlerts) tied to its asset */
+export interface CalendarWarrantyAlert {
+  assetId: string;
+  assetKind: string;
+  kind: string;
+  dueDate: string;
+  message: string;
+}
+
+// ============== Constants ==============
+
+const UID_DOMAIN = 'habitta.app';
+const PRODID = '-//Habitta//Home Maintenance//EN';
+const MAX_LINE_OCTETS = 75;
+const CLOSED_TASK_STATUSES = ['completed', 'skipped'];
+
+const WARRANTY_TITLES: Record<string, string> = {
+  registration_deadline: 'Register warranty',
+  parts_expiring: 'Parts warranty ends',
+  labor_expiring: 'Labor warranty ends',
+  covered_before_replacement: 'Check warranty before replacing',
+};
+
+// ============== Source Mapping ==============
+
+/**
+ * A maintenance task as an event, or null when it is closed (R4)
+ */
+export function taskEvent(task: CalendarTaskRow, appUrl: string): CalendarEvent | null {
+  if (CLOSED_TASK_STATUSES.includes(task.status) || !task.due_date) return null;
+
+  const details = [
+    task.description,
+    task.priority ? `Priority: ${task.priority}` : null,
+    task.cost ? `Estimated cost: $${Math.round(task.cost).toLocaleString('en-US')}` : null,
+  ].filter(Boolean);
+
+  return {
+    uid: `task-${task.id}@${UID_DOMAIN}`,
+    date: task.due_date.slice(0, 10),
+    title: task.title,
+    description: details.join('\n') || null,
+    url: `${appUrl}/maintenance`,
+    categories: ['Maintenance', ...(task.category ? [task.category] : [])],
+    alarmDaysBefore: task.priority === 'high' ? 3 : 1,
+  };
+}
+
+export function deferralEvent(deferral: CalendarDeferralRow, appUrl: string): CalendarEvent {
+  return {
+    uid: `decision-${deferral.id}@${UID_DOMAIN}`,
+    date: deferral.defer_until.slice(0, 10),
+    title: `Revisit ${deferral.system_key.replace(/_/g, ' ')} replacement`,
+    description: [
+      `You deferred this decision until today.`,
+      deferral.user_notes ? `Notes: ${deferral.user_notes}` : null,
+    ].filter(Boolean).join('\n'),
+    url: `${appUrl}/systems/${deferral.system_key}`,
+    categories: ['Replacement plan'],
+    alarmDaysBefore: 7,
+  };
+}
+
+export function warrantyEvent(alert: CalendarWarrantyAlert, appUrl: string): CalendarEvent {
+  const label = alert.assetKind.replace(/_/g, ' ');
+  return {
+    uid: `warranty-${alert.assetId}-${alert.kind}@${UID_DOMAIN}`,
+    date: alert.dueDate,
+    title: `${WARRANTY_TITLES[alert.kind] ?? 'Warranty deadline'}: ${label}`,
+    description: alert.message,
+    url: `${appUrl}/maintenance`,
+    categories: ['Warranty'],
+    alarmDaysBefore: alert.kind === 'registration_deadline' ? 7 : 14,
+  };
+}
+
+// ============== Serialisation ==============
+
+export function buildCalendar(events: CalendarEvent[], options: CalendarOptions): string {
+  const stamp = formatTimestamp(options.now ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...(options.description ? [`X-WR-CALDESC:${escapeText(options.description)}`] : []),
+    ...(options.refreshHours
+      ? [
+          `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshHours}H`,
+          `X-PUBLISHED-TTL:PT${options.refreshHours}H`,
+        ]
+      : []),
+  ];
+
+  for (const event of [...events].sort((a, b) => a.date.localeCompare(b.date) || a.uid.localeCompare(b.uid))) {
+    lines.push(...eventLines(event, stamp));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * File name for a downloaded .ics: lower-case, dashes, no punctuation
+ */
+export function icsFilename(title: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${slug || 'habitta-event'}.ics`;
+}
+
+function eventLines(event: CalendarEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+    `DTEND;VALUE=DATE:${formatDate(nextDay(event.date))}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    'TRANSP:TRANSPARENT',
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+
+  if (event.alarmDaysBefore !== undefined) {
+    // Relative to the all-day start (local midnight): N days before, at 9am
+    const hours = event.alarmDaysBefore * 24 - 9;
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.title)}`,
+      hours > 0 ? `TRIGGER:-PT${hours}H` : `TRIGGER:PT${-hours}H`,
+      'END:VALARM',
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold at 75 octets (R3), never splitting a multi-byte character
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  // Continuation lines start with a space, which counts toward their 75
+  let limit = MAX_LINE_OCTETS;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDate(date: string): string {
+  return date.slice(0, 10).replace(/-/g, '');
+}
+
+function nextDay(date: string): string {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+function formatTimestamp(now: Date): string {
+  return now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
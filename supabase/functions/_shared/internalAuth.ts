@@ -3,10 +3,16 @@
  * 
  * Provides hybrid auth validation:
  * - Internal calls: x-internal-secret header
- * - User calls: JWT in Authorization header with ownership validation
+ * - User calls: JWT in Authorization header with home membership validation
  */
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  HOME_ROLE_CAPABILITIES,
+  isHomeMemberRole,
+  type HomeMemberRole,
+  type HomeRoleCapabilities,
+} from './homeMembership.ts';
 
 export interface AuthResult {
   authorized: boolean;
@@ -67,30 +73,54 @@ export async function validateRequest(req: Request): Promise<AuthResult> {
 }
 
 /**
- * Validate that a home belongs to a user (for non-internal calls)
+ * The user's role in a home (home_members), or null if they aren't a member
  */
-export async function validateHomeOwnership(
+export async function getHomeRole(
   homeId: string,
   userId: string
-): Promise<boolean> {
+): Promise<HomeMemberRole | null> {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
     
-    const { data: home, error } = await supabase
-      .from('homes')
-      .select('id')
-      .eq('id', homeId)
+    const { data: member, error } = await supabase
+      .from('home_members')
+      .select('role')
+      .eq('home_id', homeId)
       .eq('user_id', userId)
-      .single();
+      .maybeSingle();
     
-    return !error && !!home;
+    if (error || !member || !isHomeMemberRole(member.role)) return null;
+    return member.role;
   } catch {
-    return false;
+    return null;
   }
 }
 
+/**
+ * Validate that a user shares a home, optionally with a given capability
+ */
+export async function validateHomeAccess(
+  homeId: string,
+  userId: string,
+  capability?: keyof HomeRoleCapabilities
+): Promise<boolean> {
+  const role = await getHomeRole(homeId, userId);
+  if (!role) return false;
+  return capability ? HOME_ROLE_CAPABILITIES[role][capability] : true;
+}
+
+/**
+ * Validate that a user is the home's owner (not just a member)
+ */
+export async function validateHomeOwnership(
+  homeId: string,
+  userId: string
+): Promise<boolean> {
+  return (await getHomeRole(homeId, userId)) === 'owner';
+}
+
 /**
  * Get internal secret header for chaining calls
  */
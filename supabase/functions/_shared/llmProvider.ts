@@ -0,0 +1,614 @@
+/**
+ * LLM Provider - Chat completion with tool calling behind one interface
+ *
+ * ARCHITECTURE:
+ * - Callers speak a normalized message/tool shape (OpenAI-style roles with
+ *   camelCase tool fields); each provider translates to its wire format
+ * - Providers: Lovable AI gateway (default), any OpenAI-compatible endpoint,
+ *   Anthropic Messages API, and a deterministic mock that replays fixtures
+ * - Selected by config (LLM_PROVIDER) via resolveLlmProvider(); no provider
+ *   is hard-wired into a function
+ * - Every provider can also stream: text deltas go to a callback as they
+ *   arrive, and the same CompletionResult is returned at the end
+ *
+ * RULES:
+ * R1: Provider HTTP failures throw `API error <status>: <body>` so callers
+ *     can map 429/402 without knowing which provider ran
+ * R2: Tool call arguments are always a JSON string, whatever the provider
+ * R3: The mock never touches the network and answers identically for
+ *     identical input
+ * R4: stream() and complete() return the same result for the same input;
+ *     streaming only changes when the text becomes visible
+ * R5: A request whose messages carry tool calls or results must still send
+ *     the tools that produced them; toolChoice 'none' stops further calls
+ *     (Anthropic rejects tool_use blocks without a matching tool definition)
+ *
+ * @version v3
+ */
+
+import { readSseStream } from './sse.ts';
+
+// ============== Types ==============
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** JSON-encoded arguments (R2) */
+  arguments: string;
+}
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string | null;
+  /** Assistant turns that requested tools */
+  toolCalls?: ToolCall[];
+  /** Tool results: the call being answered */
+  toolCallId?: string;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema for the arguments */
+  parameters: Record<string, unknown>;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  /** 'none' keeps the tools declared but forbids calling them (R5); default 'auto' */
+  toolChoice?: 'auto' | 'none';
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface CompletionResult {
+  content: string | null;
+  toolCalls: ToolCall[];
+}
+
+/** Receives each text delta as the model produces it */
+export type TextDeltaHandler = (delta: string) => void;
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  /** Like complete(), but reports text deltas while the response is generated (R4) */
+  stream(request: CompletionRequest, onDelta: TextDeltaHandler): Promise<CompletionResult>;
+}
+
+export type LlmProviderName = 'lovable' | 'openai' | 'anthropic' | 'mock';
+
+// ============== OpenAI-compatible (incl. Lovable gateway) ==============
+
+const LOVABLE_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1';
+const LOVABLE_DEFAULT_MODEL = 'google/gemini-3-flash-preview';
+const OPENAI_DEFAULT_URL = 'https://api.openai.com/v1';
+const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+
+interface OpenAIToolCall {
+  id?: string;
+  type?: string;
+  function: { name: string; arguments: string };
+}
+
+function toOpenAIMessage(message: ChatMessage): Record<string, unknown> {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content ?? '' };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+interface OpenAIToolCallDelta {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+async function assertOk(response: Response): Promise<void> {
+  if (!response.ok) {
+    throw new Error(`API error ${response.status}: ${await response.text()}`);
+  }
+}
+
+export function createOpenAICompatibleProvider(options: {
+  apiKey: string;
+  baseUrl?: string;
+  model?: string;
+  name?: LlmProviderName;
+}): LlmProvider {
+  const baseUrl = (options.baseUrl ?? OPENAI_DEFAULT_URL).replace(/\/$/, '');
+  const model = options.model ?? OPENAI_DEFAULT_MODEL;
+
+  const post = (request: CompletionRequest, stream: boolean) =>
+    fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${options.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages: request.messages.map(toOpenAIMessage),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(stream ? { stream: true } : {}),
+        ...(request.tools?.length
+          ? {
+              tools: request.tools.map((tool) => ({ type: 'function', function: tool })),
+              tool_choice: request.toolChoice ?? 'auto',
+            }
+          : {}),
+      }),
+    });
+
+  return {
+    name: options.name ?? 'openai',
+    model,
+    async complete(request) {
+      const response = await post(request, false);
+      await assertOk(response);
+
+      const data = await response.json();
+      const message = data.choices?.[0]?.message;
+      if (!message) throw new Error('No response from AI');
+
+      return {
+        content: message.content ?? null,
+        toolCalls: ((message.tool_calls ?? []) as OpenAIToolCall[]).map((call, index) => ({
+          id: call.id ?? `call_${index}`,
+          name: call.function.name,
+          arguments: call.function.arguments || '{}',
+        })),
+      };
+    },
+    async stream(request, onDelta) {
+      const response = await post(request, true);
+      await assertOk(response);
+      if (!response.body) throw new Error('No response from AI');
+
+      let content = '';
+      // Tool calls arrive in fragments keyed by index; arguments are concatenated
+      const calls: { id?: string; name: string; arguments: string }[] = [];
+
+      await readSseStream(response.body, ({ data }) => {
+        if (data === '[DONE]') return;
+        const chunk = JSON.parse(data);
+        if (chunk.error) throw new Error(`API error 500: ${JSON.stringify(chunk.error)}`);
+
+        const delta = chunk.choices?.[0]?.delta;
+        if (!delta) return;
+        if (delta.content) {
+          content += delta.content;
+          onDelta(delta.content);
+        }
+        for (const fragment of (delta.tool_calls ?? []) as OpenAIToolCallDelta[]) {
+          const call = (calls[fragment.index] ??= { name: '', arguments: '' });
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.name += fragment.function.name;
+          if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+        }
+      });
+
+      return {
+        content: content || null,
+        toolCalls: calls
+          .filter((call) => call?.name)
+          .map((call, index) => ({
+            id: call.id ?? `call_${index}`,
+            name: call.name,
+            arguments: call.arguments || '{}',
+          })),
+      };
+    },
+  };
+}
+
+export function createLovableGatewayProvider(options: { apiKey: string; model?: string }): LlmProvider {
+  return createOpenAICompatibleProvider({
+    apiKey: options.apiKey,
+    baseUrl: LOVABLE_GATEWAY_URL,
+    model: options.model ?? LOVABLE_DEFAULT_MODEL,
+    name: 'lovable',
+  });
+}
+
+// ============== Anthropic ==============
+
+const ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_DEFAULT_MODEL = 'claude-sonnet-4-5';
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 1024;
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicBlock[];
+}
+
+function parseArguments(args: string): unknown {
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * System messages become the top-level system prompt (Anthropic has no
+ * system role mid-conversation); tool results ride on user turns.
+ */
+export function toAnthropicRequest(request: CompletionRequest): {
+  system: string;
+  messages: AnthropicMessage[];
+} {
+  const system = request.messages
+    .filter((m) => m.role === 'system' && m.content)
+    .map((m) => m.content)
+    .join('\n\n');
+
+  const messages: AnthropicMessage[] = [];
+  for (const message of request.messages) {
+    if (message.role === 'system') continue;
+
+    if (message.role === 'tool') {
+      messages.push({
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: message.toolCallId ?? '', content: message.content ?? '' }],
+      });
+    } else if (message.role === 'assistant' && message.toolCalls?.length) {
+      const blocks: AnthropicBlock[] = message.content ? [{ type: 'text', text: message.content }] : [];
+      for (const call of message.toolCalls) {
+        blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: parseArguments(call.arguments) });
+      }
+      messages.push({ role: 'assistant', content: blocks });
+    } else {
+      messages.push({ role: message.role as 'user' | 'assistant', content: message.content ?? '' });
+    }
+  }
+
+  return { system, messages };
+}
+
+type AnthropicStreamBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; json: string };
+
+export function createAnthropicProvider(options: { apiKey: string; model?: string }): LlmProvider {
+  const model = options.model ?? ANTHROPIC_DEFAULT_MODEL;
+
+  const post = (request: CompletionRequest, stream: boolean) => {
+    const { system, messages } = toAnthropicRequest(request);
+
+    return fetch(ANTHROPIC_URL, {
+      method: 'POST',
+      headers: {
+        'x-api-key': options.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        system: system || undefined,
+        messages,
+        max_tokens: request.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        ...(stream ? { stream: true } : {}),
+        ...(request.tools?.length
+          ? {
+              tools: request.tools.map((tool) => ({
+                name: tool.name,
+                description: tool.description,
+                input_schema: tool.parameters,
+              })),
+              tool_choice: { type: request.toolChoice ?? 'auto' },
+            }
+          : {}),
+      }),
+    });
+  };
+
+  return {
+    name: 'anthropic',
+    model,
+    async complete(request) {
+      const response = await post(request, false);
+      await assertOk(response);
+
+      const data = await response.json();
+      const blocks = (data.content ?? []) as AnthropicBlock[];
+      const text = blocks
+        .filter((b): b is { type: 'text'; text: string } => b.type === 'text')
+        .map((b) => b.text)
+        .join('');
+
+      return {
+        content: text || null,
+        toolCalls: blocks
+          .filter((b): b is { type: 'tool_use'; id: string; name: string; input: unknown } => b.type === 'tool_use')
+          .map((b) => ({ id: b.id, name: b.name, arguments: JSON.stringify(b.input ?? {}) })),
+      };
+    },
+    async stream(request, onDelta) {
+      const response = await post(request, true);
+      await assertOk(response);
+      if (!response.body) throw new Error('No response from AI');
+
+      const blocks: AnthropicStreamBlock[] = [];
+
+      await readSseStream(response.body, ({ event, data }) => {
+        if (event === 'error') {
+          throw new Error(`API error 500: ${data}`);
+        }
+        if (event === 'content_block_start') {
+          const { index, content_block: block } = JSON.parse(data);
+          blocks[index] = block.type === 'tool_use'
+            ? { type: 'tool_use', id: block.id, name: block.name, json: '' }
+            : { type: 'text', text: '' };
+        } else if (event === 'content_block_delta') {
+          const { index, delta } = JSON.parse(data);
+          const block = blocks[index];
+          if (delta.type === 'text_delta' && block?.type === 'text') {
+            block.text += delta.text;
+            onDelta(delta.text);
+          } else if (delta.type === 'input_json_delta' && block?.type === 'tool_use') {
+            block.json += delta.partial_json;
+          }
+        }
+      });
+
+      const text = blocks
+        .filter((b): b is { type: 'text'; text: string } => b?.type === 'text')
+        .map((b) => b.text)
+        .join('');
+
+      return {
+        content: text || null,
+        toolCalls: blocks
+          .filter((b): b is { type: 'tool_use'; id: string; name: string; json: string } => b?.type === 'tool_use')
+          .map((b) => ({ id: b.id, name: b.name, arguments: b.json || '{}' })),
+      };
+    },
+  };
+}
+
+// ============== Mock ==============
+
+/**
+ * One scripted exchange. The first fixture whose `match` pattern matches the
+ * latest user message answers it; `toolCall` is requested on the first pass
+ * and `followUp` answers once the tool result is in the conversation.
+ */
+export interface LlmFixture {
+  name: string;
+  /** Case-insensitive regex source tested against the latest user message */
+  match: string;
+  content?: string;
+  toolCall?: { name: string; arguments: Record<string, unknown> };
+  followUp?: string;
+}
+
+const MOCK_FALLBACK_CONTENT = 'I can help you with your home maintenance questions.';
+
+export function createMockProvider(fixtures: LlmFixture[]): LlmProvider {
+  const respond = (request: CompletionRequest): CompletionResult => {
+    const lastUser = [...request.messages].reverse().find((m) => m.role === 'user');
+    const fixture = fixtures.find((f) => new RegExp(f.match, 'i').test(lastUser?.content ?? ''));
+    const hasToolResult = request.messages.some((m) => m.role === 'tool');
+
+    if (!fixture) {
+      return { content: MOCK_FALLBACK_CONTENT, toolCalls: [] };
+    }
+
+    if (fixture.toolCall && !hasToolResult && request.toolChoice !== 'none' && request.tools?.some((t) => t.name === fixture.toolCall!.name)) {
+      return {
+        content: fixture.content ?? null,
+        toolCalls: [{
+          id: `mock_${fixture.name}`,
+          name: fixture.toolCall.name,
+          arguments: JSON.stringify(fixture.toolCall.arguments),
+        }],
+      };
+    }
+
+    return {
+      content: (hasToolResult ? fixture.followUp : fixture.content) ?? MOCK_FALLBACK_CONTENT,
+      toolCalls: [],
+    };
+  };
+
+  return {
+    name: 'mock',
+    model: 'mock-fixtures',
+    async complete(request) {
+      return respond(request);
+    },
+    async stream(request, onDelta) {
+      const result = respond(request);
+      // Word-sized chunks, so consumers exercise partial rendering
+      for (const chunk of result.content?.match(/\S+\s*|\s+/g) ?? []) {
+        onDelta(chunk);
+      }
+      return result;
+    },
+  };
+}
+
+// ============== Tool-Calling Turn ==============
+
+export interface ToolTurnOptions {
+  tools: ToolDefinition[];
+  /** Runs a requested tool; the string result is fed back to the model */
+  executeTool: (call: ToolCall) => Promise<string>;
+  /** Appended after the tool result to steer the follow-up answer */
+  followUpInstruction?: string;
+  maxTokens?: number;
+  followUpMaxTokens?: number;
+  temperature?: number;
+  /** When set, both calls stream and text deltas are reported here */
+  onToken?: TextDeltaHandler;
+  /** A tool was requested; text streamed before this point is pre-tool narration */
+  onToolCall?: (call: ToolCall) => void;
+  /** The tool finished; the follow-up answer streams next */
+  onToolResult?: (call: ToolCall, result: string) => void;
+}
+
+export interface ToolTurnResult {
+  content: string | null;
+  toolCall: ToolCall | null;
+  toolResult: string | null;
+  /** True when a tool ran but the follow-up call failed or was empty */
+  followUpFailed: boolean;
+}
+
+/**
+ * One assistant turn with at most two model calls: the first may request a
+ * tool; if so, the first requested tool runs and a second call (same tools,
+ * toolChoice 'none', so it can't chain) composes the answer (R5).
+ */
+export async function runToolTurn(
+  provider: LlmProvider,
+  messages: ChatMessage[],
+  options: ToolTurnOptions
+): Promise<ToolTurnResult> {
+  const call = (request: CompletionRequest) =>
+    options.onToken ? provider.stream(request, options.onToken) : provider.complete(request);
+
+  const first = await call({
+    messages,
+    tools: options.tools,
+    maxTokens: options.maxTokens,
+    temperature: options.temperature,
+  });
+
+  const toolCall = first.toolCalls[0];
+  if (!toolCall) {
+    return { content: first.content, toolCall: null, toolResult: null, followUpFailed: false };
+  }
+
+  options.onToolCall?.(toolCall);
+  const toolResult = await options.executeTool(toolCall);
+  options.onToolResult?.(toolCall, toolResult);
+
+  const followUpMessages: ChatMessage[] = [
+    ...messages,
+    // Only the call that ran: every tool_use needs a matching tool_result
+    { role: 'assistant', content: first.content, toolCalls: [toolCall] },
+    { role: 'tool', toolCallId: toolCall.id, content: toolResult },
+    ...(options.followUpInstruction
+      ? [{ role: 'system' as const, content: options.followUpInstruction }]
+      : []),
+  ];
+
+  try {
+    const followUp = await call({
+      messages: followUpMessages,
+      tools: options.tools,
+      toolChoice: 'none',
+      maxTokens: options.followUpMaxTokens ?? options.maxTokens,
+      temperature: options.temperature,
+    });
+    if (followUp.content) {
+      return { content: followUp.content, toolCall, toolResult, followUpFailed: false };
+    }
+  } catch (error) {
+    console.error(`[llmProvider] Follow-up call failed (${provider.name}):`, error);
+  }
+
+  return { content: null, toolCall, toolResult, followUpFailed: true };
+}
+
+// ============== Config ==============
+
+export interface LlmProviderConfig {
+  /** LLM_PROVIDER: 'lovable' (default) | 'openai' | 'anthropic' | 'mock' */
+  provider?: string;
+  /** LLM_MODEL: overrides the provider's default model */
+  model?: string;
+  /** LLM_BASE_URL: OpenAI-compatible endpoint (openai provider only) */
+  baseUrl?: string;
+  /** LLM_MAX_TOKENS: overrides the caller's own response budgets */
+  maxTokens?: number;
+  lovableApiKey?: string;
+  openaiApiKey?: string;
+  anthropicApiKey?: string;
+  /** LLM_MOCK_FIXTURES: JSON array of LlmFixture (mock provider only) */
+  mockFixtures?: LlmFixture[];
+}
+
+/**
+ * Build the configured provider. Throws when the selected provider has no key.
+ */
+export function resolveLlmProvider(config: LlmProviderConfig, defaultFixtures: LlmFixture[] = []): LlmProvider {
+  const provider = (config.provider ?? 'lovable').toLowerCase();
+
+  switch (provider) {
+    case 'mock':
+      return createMockProvider(config.mockFixtures ?? defaultFixtures);
+    case 'openai':
+      if (!config.openaiApiKey) throw new Error('OPENAI_API_KEY not configured');
+      return createOpenAICompatibleProvider({
+        apiKey: config.openaiApiKey,
+        baseUrl: config.baseUrl,
+        model: config.model,
+      });
+    case 'anthropic':
+      if (!config.anthropicApiKey) throw new Error('ANTHROPIC_API_KEY not configured');
+      return createAnthropicProvider({ apiKey: config.anthropicApiKey, model: config.model });
+    case 'lovable':
+      if (!config.lovableApiKey) throw new Error('LOVABLE_API_KEY not configured');
+      return createLovableGatewayProvider({ apiKey: config.lovableApiKey, model: config.model });
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+}
+
+/**
+ * Read provider config from an env getter (Deno.env.get in edge functions)
+ */
+export function llmConfigFromEnv(get: (key: string) => string | undefined): LlmProviderConfig {
+  const rawFixtures = get('LLM_MOCK_FIXTURES');
+  let mockFixtures: LlmFixture[] | undefined;
+  if (rawFixtures) {
+    try {
+      mockFixtures = JSON.parse(rawFixtures) as LlmFixture[];
+    } catch {
+      throw new Error('LLM_MOCK_FIXTURES is not valid JSON');
+    }
+  }
+
+  const rawMaxTokens = get('LLM_MAX_TOKENS');
+  const maxTokens = rawMaxTokens ? Number(rawMaxTokens) : undefined;
+  if (maxTokens !== undefined && !(Number.isInteger(maxTokens) && maxTokens > 0)) {
+    throw new Error('LLM_MAX_TOKENS must be a positive integer');
+  }
+
+  return {
+    provider: get('LLM_PROVIDER'),
+    model: get('LLM_MODEL'),
+    baseUrl: get('LLM_BASE_URL'),
+    maxTokens,
+    lovableApiKey: get('LOVABLE_API_KEY'),
+    openaiApiKey: get('OPENAI_API_KEY'),
+    anthropicApiKey: get('ANTHROPIC_API_KEY'),
+    mockFixtures,
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * Maintenance Adherence - How well each system has actually been maintained
+ *
+ * ARCHITECTURE:
+ * - loadMaintenanceRecords (maintenanceAdherenceLoader.ts) reads completed
+ *   maintenance_tasks and maintenance_performed home_events for a home;
+ *   scoreMaintenanceAdherence is pure and turns one system's records into
+ *   an adherence index
+ * - Consumers: capital-timeline and intelligence-engine, which hand the
+ *   result to systemInference.applyMaintenanceAdherence — that is where the
+ *   index becomes a shift of the replacement window
+ *
+ * RULES:
+ * R1: The index (0-1) blends regularity (services in the last
+ *     LOOKBACK_MONTHS against the system's service interval), recency
+ *     (months since the last service) and the share done by a professional
+ * R2: Records for the same system within MERGE_DAYS of each other (a
+ *     completed task and the event logged for it) are one service; it
+ *     counts as professional if either says so
+ * R3: No records means level 'none', never 'lapsed', and the lookback
+ *     starts no earlier than the first record — missing history is not
+ *     evidence of neglect, so a record that starts recently never scores
+ *     below having none
+ * R4: Records map to a SystemType by system_type / asset kind only; tasks
+ *     for things the timeline doesn't model (gutters, smoke detectors) are
+ *     ignored
+ *
+ * @version v2 - lookback starts at the first recorded service
+ */
+
+import { isSystemType, type SystemType } from './systemConfigs.ts';
+import { normalizeSystemType } from './maintenanceSystems.ts';
+
+// ============== Types ==============
+
+export type MaintenancePerformer = 'professional' | 'diy' | 'unknown';
+export type AdherenceLevel = 'strong' | 'fair' | 'lapsed' | 'none';
+
+export interface MaintenanceRecord {
+  systemType: SystemType;
+  /** YYYY-MM-DD */
+  performedOn: string;
+  performedBy: MaintenancePerformer;
+  source: 'task' | 'event';
+}
+
+export interface MaintenanceAdherence {
+  systemType: SystemType;
+  /** 0-1 (R1); 0 when level is 'none' */
+  index: number;
+  level: AdherenceLevel;
+  components: {
+    regularity: number;
+    recency: number;
+    professional: number;
+  };
+  /** Distinct services inside the lookback window (R2) */
+  serviceCount: number;
+  professionalCount: number;
+  /** Services the interval calls for over the same window */
+  expectedServices: number;
+  lastServicedOn: string | null;
+  lookbackMonths: number;
+}
+
+export interface AdherenceOptions {
+  now?: Date;
+  /** Services can't be expected before the system existed */
+  installYear?: number | null;
+}
+
+// ============== Constants ==============
+
+export const LOOKBACK_MONTHS = 36;
+const MERGE_DAYS = 14;
+
+/** How often each system should see service, in months */
+const SERVICE_INTERVAL_MONTHS: Record<SystemType, number> = {
+  hvac: 6,
+  mini_split: 6,
+  pool: 3,
+  water_heater: 12,
+  roof: 12,
+  plumbing: 12,
+  solar: 12,
+  electrical_panel: 36,
+};
+
+const COMPONENT_WEIGHTS = { regularity: 0.5, recency: 0.3, professional: 0.2 };
+
+/** Recency falls to zero at this many service intervals since the last one */
+const RECENCY_ZERO_INTERVALS = 3;
+
+const LEVEL_THRESHOLDS = { strong: 0.7, fair: 0.4 };
+
+/** system_type / asset kinds that name a timeline system differently (R4) */
+const TIMELINE_ALIASES: Record<string, SystemType> = {
+  electrical: 'electrical_panel',
+  panel: 'electrical_panel',
+  ductless: 'mini_split',
+};
+
+/** home_events sources that mean a professional did the work */
+export const PROFESSIONAL_SOURCES = new Set(['pro', 'contractor']);
+
+// ============== Mapping ==============
+
+export function maintenanceSystemType(kind?: string | null): SystemType | null {
+  const normalized = normalizeSystemType(kind);
+  if (!normalized) return null;
+  if (isSystemType(normalized)) return normalized;
+  return TIMELINE_ALIASES[normalized] ?? null;
+}
+
+/** performed_by as stored; anything else is 'unknown' */
+export function toPerformer(value: unknown): MaintenancePerformer {
+  return value === 'professional' || value === 'diy' ? value : 'unknown';
+}
+
+// ============== Scoring ==============
+
+/**
+ * Adherence for one system from the home's records (R1-R3)
+ */
+export function scoreMaintenanceAdherence(
+  systemType: SystemType,
+  records: MaintenanceRecord[],
+  options: AdherenceOptions = {}
+): MaintenanceAdherence {
+  const now = options.now ?? new Date();
+  const interval = SERVICE_INTERVAL_MONTHS[systemType];
+  const services = mergeServices(records.filter(r => r.systemType === systemType));
+  const lastServicedOn = services.length > 0 ? services[services.length - 1].performedOn : null;
+
+  // A system installed last year can't have missed three years of service,
+  // and a record kept since last year says nothing about the years before (R3)
+  const monthsInstalled = options.installYear
+    ? (now.getUTCFullYear() - options.installYear) * 12 + now.getUTCMonth()
+    : Infinity;
+  const monthsRecorded = services.length > 0 ? Math.ceil(monthsBetween(services[0].performedOn, now)) : Infinity;
+  const lookbackMonths = Math.max(interval, Math.min(LOOKBACK_MONTHS, monthsInstalled, monthsRecorded));
+  // From the first service itself when that bounds the lookback, so month
+  // rounding can't drop it
+  const windowStart = lookbackMonths === monthsRecorded
+    ? services[0].performedOn
+    : addMonths(now, -lookbackMonths).toISOString().slice(0, 10);
+  const inWindow = services.filter(s => s.performedOn >= windowStart);
+  const expectedServices = Math.max(1, Math.floor(lookbackMonths / interval));
+  const professionalCount = inWindow.filter(s => s.performedBy === 'professional').length;
+
+  if (!lastServicedOn) {
+    return {
+      systemType,
+      index: 0,
+      level: 'none',
+      components: { regularity: 0, recency: 0, professional: 0 },
+      serviceCount: 0,
+      professionalCount: 0,
+      expectedServices,
+      lastServicedOn: null,
+      lookbackMonths,
+    };
+  }
+
+  const monthsSince = monthsBetween(lastServicedOn, now);
+  const components = {
+    regularity: round2(Math.min(1, inWindow.length / expectedServices)),
+    recency: round2(
+      monthsSince <= interval
+        ? 1
+        : Math.max(0, 1 - (monthsSince - interval) / (interval * (RECENCY_ZERO_INTERVALS - 1)))
+    ),
+    professional: inWindow.length > 0 ? round2(professionalCount / inWindow.length) : 0,
+  };
+  const index = round2(
+    components.regularity * COMPONENT_WEIGHTS.regularity +
+    components.recency * COMPONENT_WEIGHTS.recency +
+    components.professional * COMPONENT_WEIGHTS.professional
+  );
+
+  return {
+    systemType,
+    index,
+    level: index >= LEVEL_THRESHOLDS.strong ? 'strong' : index >= LEVEL_THRESHOLDS.fair ? 'fair' : 'lapsed',
+    components,
+    serviceCount: inWindow.length,
+    professionalCount,
+    expectedServices,
+    lastServicedOn,
+    lookbackMonths,
+  };
+}
+
+/**
+ * Collapse records of the same service (R2), oldest first
+ */
+function mergeServices(records: MaintenanceRecord[]): MaintenanceRecord[] {
+  const sorted = [...records].sort((a, b) => a.performedOn.localeCompare(b.performedOn));
+  const merged: MaintenanceRecord[] = [];
+  for (const record of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && daysBetween(last.performedOn, record.performedOn) <= MERGE_DAYS) {
+      if (record.performedBy === 'professional' || last.performedBy === 'unknown') {
+        last.performedBy = record.performedBy;
+      }
+      last.performedOn = record.performedOn;
+      continue;
+    }
+    merged.push({ ...record });
+  }
+  return merged;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const d = new Date(date);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d;
+}
+
+function monthsBetween(fromDate: string, to: Date): number {
+  return Math.max(0, daysBetween(fromDate, to.toISOString().slice(0, 10)) / 30.44);
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`)) / 86_400_000;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,74 @@
+/**
+ * MaintenanceAdherenceLoader - Reads a home's maintenance records for edge functions
+ *
+ * ARCHITECTURE:
+ * - The only I/O half of maintenanceAdherence.ts; kept apart so that module
+ *   stays importable from the frontend
+ *
+ * RULES:
+ * R1: Failures log and return what was read, like a home with no history
+ *
+ * @version v1
+ */
+
+import type { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  maintenanceSystemType,
+  toPerformer,
+  PROFESSIONAL_SOURCES,
+  type MaintenanceRecord,
+} from './maintenanceAdherence.ts';
+
+/**
+ * Every completed maintenance record for a home that maps to a timeline
+ * system (R4). Failures log and return what was read, like a home with no
+ * history.
+ */
+export async function loadMaintenanceRecords(
+  supabase: ReturnType<typeof createClient>,
+  homeId: string
+): Promise<MaintenanceRecord[]> {
+  const records: MaintenanceRecord[] = [];
+
+  const { data: tasks, error: tasksError } = await supabase
+    .from('maintenance_tasks')
+    .select('system_type, category, completed_date, performed_by')
+    .eq('home_id', homeId)
+    .eq('status', 'completed')
+    .not('completed_date', 'is', null);
+  if (tasksError) {
+    console.warn('[maintenanceAdherence] Failed to load tasks:', tasksError.message);
+  }
+  for (const t of tasks || []) {
+    const systemType = maintenanceSystemType(t.system_type ?? t.category);
+    if (!systemType) continue;
+    records.push({
+      systemType,
+      performedOn: String(t.completed_date).slice(0, 10),
+      performedBy: toPerformer(t.performed_by),
+      source: 'task',
+    });
+  }
+
+  const { data: events, error: eventsError } = await supabase
+    .from('home_events')
+    .select('created_at, source, metadata, home_assets(kind)')
+    .eq('home_id', homeId)
+    .eq('event_type', 'maintenance_performed');
+  if (eventsError) {
+    console.warn('[maintenanceAdherence] Failed to load events:', eventsError.message);
+  }
+  for (const e of events || []) {
+    const systemType = maintenanceSystemType(e.home_assets?.kind ?? e.metadata?.system_kind);
+    if (!systemType) continue;
+    const performedBy = PROFESSIONAL_SOURCES.has(e.source) ? 'professional' : toPerformer(e.metadata?.performed_by);
+    records.push({
+      systemType,
+      performedOn: String(e.created_at).slice(0, 10),
+      performedBy,
+      source: 'event',
+    });
+  }
+
+  return records;
+}
@@ -0,0 +1,192 @@
+/**
+ * Maintenance Recurrence - Next-due dates for recurring maintenance tasks
+ *
+ * ARCHITECTURE:
+ * - Pure and runtime-agnostic: used by seed-maintenance-plan (first
+ *   occurrence of each series) and maintenance-task-action (every occurrence
+ *   after that), and by the browser to describe a task's schedule
+ * - A task carries its rule in maintenance_tasks.recurrence_rule; rows
+ *   written before rules existed carry only recurrence_interval, which
+ *   recurrenceRuleForTask maps onto an interval rule
+ * - Only one open occurrence per series exists at a time: the next one is
+ *   created when the current one is completed or skipped
+ *
+ * RULES:
+ * R1: Interval and usage rules count from when the work was actually done,
+ *     not from when it was due — a filter changed two weeks late is next
+ *     due 90 days after the change
+ * R2: Seasonal rules stay on their calendar anchors and never land within
+ *     MIN_SEASONAL_GAP_DAYS of the completion, so finishing the March
+ *     tune-up in late February doesn't schedule another for March
+ * R3: Skipping counts from the skipped occurrence's due date; snoozing
+ *     moves the due date and creates nothing
+ * R4: Dates are calendar dates (YYYY-MM-DD) computed in UTC
+ *
+ * @version v1
+ */
+
+// ============== Types ==============
+
+export type RecurrenceRule =
+  /** Every N months from completion, e.g. annual water heater flush */
+  | { kind: 'interval'; months: number }
+  /** Calendar anchors, e.g. [3, 9] for spring and fall tune-ups */
+  | { kind: 'seasonal'; months: number[]; day?: number }
+  /** Every N days of use from completion, e.g. filter every 90 days */
+  | { kind: 'usage'; days: number };
+
+export type SeasonalRule = Extract<RecurrenceRule, { kind: 'seasonal' }>;
+
+export type MaintenanceTaskAction = 'complete' | 'skip' | 'snooze' | 'reopen';
+
+export interface RecurringTaskFields {
+  recurring?: boolean | null;
+  recurrence_interval?: string | null;
+  recurrence_rule?: unknown;
+}
+
+// ============== Constants ==============
+
+/** Values the task dialog has always written to recurrence_interval */
+export const LEGACY_INTERVAL_MONTHS: Record<string, number> = {
+  monthly: 1,
+  quarterly: 3,
+  biannually: 6,
+  annually: 12,
+};
+
+const DEFAULT_SEASONAL_DAY = 15;
+const MIN_SEASONAL_GAP_DAYS = 30;
+export const DEFAULT_SNOOZE_DAYS = 7;
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// ============== Date Helpers (R4) ==============
+
+function parseDate(value: string): Date {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDaysToDate(value: string, days: number): string {
+  const date = parseDate(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatDate(date);
+}
+
+/** Clamps to month end: Jan 31 + 1 month → Feb 28 */
+export function addMonthsToDate(value: string, months: number): string {
+  const date = parseDate(value);
+  const day = date.getUTCDate();
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const monthEnd = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, monthEnd));
+  return formatDate(target);
+}
+
+// ============== Rules ==============
+
+export function isRecurrenceRule(value: unknown): value is RecurrenceRule {
+  if (!value || typeof value !== 'object') return false;
+  const rule = value as Record<string, unknown>;
+  switch (rule.kind) {
+    case 'interval':
+      return Number.isInteger(rule.months) && (rule.months as number) > 0;
+    case 'usage':
+      return Number.isInteger(rule.days) && (rule.days as number) > 0;
+    case 'seasonal':
+      return Array.isArray(rule.months) && rule.months.length > 0 &&
+        rule.months.every(m => Number.isInteger(m) && m >= 1 && m <= 12) &&
+        (rule.day === undefined || (Number.isInteger(rule.day) && (rule.day as number) >= 1 && (rule.day as number) <= 28));
+    default:
+      return false;
+  }
+}
+
+/**
+ * The task's rule, falling back to its legacy recurrence_interval.
+ * Null for one-off tasks.
+ */
+export function recurrenceRuleForTask(task: RecurringTaskFields): RecurrenceRule | null {
+  if (isRecurrenceRule(task.recurrence_rule)) return task.recurrence_rule;
+  if (!task.recurring || !task.recurrence_interval) return null;
+  const months = LEGACY_INTERVAL_MONTHS[task.recurrence_interval.toLowerCase()];
+  return months ? { kind: 'interval', months } : null;
+}
+
+/**
+ * Due date of the occurrence after one done (or skipped) on `from` (R1, R2)
+ *
+ * @param from - Completion date, or the skipped occurrence's due date (R3)
+ * @param previousDue - Due date of the occurrence just closed; seasonal
+ *   rules never schedule on or before it
+ */
+export function nextDueDate(rule: RecurrenceRule, from: string, previousDue?: string | null): string {
+  switch (rule.kind) {
+    case 'interval':
+      return addMonthsToDate(from, rule.months);
+    case 'usage':
+      return addDaysToDate(from, rule.days);
+    case 'seasonal': {
+      const earliest = addDaysToDate(from, MIN_SEASONAL_GAP_DAYS);
+      return seasonalAnchorAfter(rule, previousDue && previousDue > earliest ? previousDue : earliest);
+    }
+  }
+}
+
+/**
+ * First anchor on or after `from` — where a new seasonal series starts
+ */
+export function firstSeasonalDate(rule: SeasonalRule, from: string): string {
+  return seasonalAnchorAfter(rule, addDaysToDate(from, -1));
+}
+
+function seasonalAnchorAfter(rule: SeasonalRule, floor: string): string {
+  const floorYear = parseDate(floor).getUTCFullYear();
+  const day = rule.day ?? DEFAULT_SEASONAL_DAY;
+  const months = [...rule.months].sort((a, b) => a - b);
+
+  for (let year = floorYear; year <= floorYear + 1; year++) {
+    for (const month of months) {
+      const candidate = formatDate(new Date(Date.UTC(year, month - 1, day)));
+      if (candidate > floor) return candidate;
+    }
+  }
+  // Unreachable for a valid rule: some anchor always falls in the next year
+  return formatDate(new Date(Date.UTC(floorYear + 1, months[0] - 1, day)));
+}
+
+/**
+ * Snoozed due date: the later of the current due date and today, plus `days` (R3)
+ */
+export function snoozedDueDate(due: string | null, today: string, days: number = DEFAULT_SNOOZE_DAYS): string {
+  const base = due && due > today ? due : today;
+  return addDaysToDate(base, days);
+}
+
+/**
+ * Short schedule label, e.g. "Every 90 days" or "Each March and September"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  switch (rule.kind) {
+    case 'interval':
+      if (rule.months === 12) return 'Every year';
+      return rule.months === 1 ? 'Every month' : `Every ${rule.months} months`;
+    case 'usage':
+      return `Every ${rule.days} days`;
+    case 'seasonal': {
+      const names = [...rule.months].sort((a, b) => a - b).map(m => MONTH_NAMES[m - 1]);
+      const list = names.length > 1
+        ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+        : names[0];
+      return `Each ${list}`;
+    }
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Maintenance Systems - Which systems a home has, for task filtering
+ *
+ * ARCHITECTURE:
+ * - Shared by seed-maintenance-plan (seeding a plan) and
+ *   maintenance-task-action (generating the next occurrence of a series)
+ * - Known systems come from the home's systems rows and its permits only;
+ *   nothing is inferred from property-wide data. buildKnownSystems, which
+ *   reads them, is in maintenanceSystemsLoader.ts
+ *
+ * RULES:
+ * R1: Only OPTIONAL_SYSTEMS can be absent — every home is assumed to have
+ *     HVAC, plumbing, electrical and a roof
+ * R2: A task is dropped when its system_type, or a keyword in its title or
+ *     description, points at an optional system the home doesn't have
+ *
+ * @version v1
+ */
+
+// ============== Normalization ==============
+
+const SYSTEM_ALIASES: Record<string, string> = {
+  swimming_pool: "pool", inground_pool: "pool", above_ground_pool: "pool",
+  spa_pool: "spa", hot_tub: "spa", jacuzzi: "spa",
+  irrigation: "sprinkler", sprinkler_system: "sprinkler",
+  ac: "hvac", furnace: "hvac", heat_pump: "hvac", air_conditioning: "hvac",
+  water_heater: "water_heater", tankless: "water_heater", boiler: "water_heater",
+  ev_charger: "ev_charger", backup_generator: "generator",
+};
+
+export function normalizeSystemType(type?: string | null): string | null {
+  if (!type) return null;
+  const t = type.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return SYSTEM_ALIASES[t] || t;
+}
+
+export const OPTIONAL_SYSTEMS = new Set([
+  "pool", "solar", "sprinkler", "spa", "generator", "septic", "well", "ev_charger",
+]);
+
+export const KEYWORD_SYSTEM_MAP: Record<string, string> = {
+  pool: "pool", spa: "spa", irrigation: "sprinkler",
+  sprinkler: "sprinkler", solar: "solar", generator: "generator",
+};
+
+// ============== Filtering ==============
+
+export interface SystemScopedTask {
+  title?: string | null;
+  description?: string | null;
+  system_type?: string | null;
+}
+
+export function taskRequiresAbsentSystem(task: SystemScopedTask, knownSystems: Set<string>): boolean {
+  // Check system_type field
+  const sysType = normalizeSystemType(task.system_type);
+  if (sysType && OPTIONAL_SYSTEMS.has(sysType) && !knownSystems.has(sysType)) return true;
+
+  // Secondary keyword check on title + description
+  const text = `${task.title || ''} ${task.description || ''}`.toLowerCase();
+  for (const [keyword, system] of Object.entries(KEYWORD_SYSTEM_MAP)) {
+    if (text.includes(keyword) && !knownSystems.has(system)) return true;
+  }
+  return false;
+}
@@ -0,0 +1,52 @@
+/**
+ * MaintenanceSystemsLoader - Reads which systems a home has, for edge functions
+ *
+ * ARCHITECTURE:
+ * - The only I/O half of maintenanceSystems.ts; kept apart so that module
+ *   (and maintenanceAdherence.ts, which normalizes through it) stays
+ *   importable from the frontend
+ *
+ * RULES:
+ * R1: Sources are the home's systems rows and its permits (see
+ *     maintenanceSystems.ts)
+ *
+ * @version v1
+ */
+
+import type { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { KEYWORD_SYSTEM_MAP, normalizeSystemType } from './maintenanceSystems.ts';
+
+export async function buildKnownSystems(
+  admin: ReturnType<typeof createClient>,
+  homeId: string
+): Promise<Set<string>> {
+  const knownSystems = new Set<string>();
+
+  // Source 1: Canonical systems table (home_id anchored)
+  const { data: homeSys } = await admin
+    .from("systems")
+    .select("kind")
+    .eq("home_id", homeId);
+  for (const s of (homeSys || [])) {
+    const n = normalizeSystemType(s.kind);
+    if (n) knownSystems.add(n);
+  }
+
+  // Source 2: Permits table (home_id anchored) - check system_tags + description
+  const { data: homePermits } = await admin
+    .from("permits")
+    .select("system_tags, description, trade")
+    .eq("home_id", homeId);
+  for (const p of (homePermits || [])) {
+    for (const tag of (p.system_tags || [])) {
+      const n = normalizeSystemType(tag);
+      if (n) knownSystems.add(n);
+    }
+    const desc = `${p.description || ''} ${p.trade || ''}`.toLowerCase();
+    for (const [keyword, system] of Object.entries(KEYWORD_SYSTEM_MAP)) {
+      if (desc.includes(keyword)) knownSystems.add(system);
+    }
+  }
+
+  return knownSystems;
+}
@@ -0,0 +1,319 @@
+/**
+ * Model Decoding - Capacity, efficiency and fuel from HVAC and water heater model numbers
+ *
+ * ARCHITECTURE:
+ * - Pure and runtime-agnostic, like serialDecoding.ts, whose manufacturer
+ *   families it shares (Bryant → Carrier, Amana → Goodman, Ruud → Rheem, ...)
+ * - applySystemUpdate decodes the incoming model and writes the structured
+ *   columns on home_systems (capacity_value / capacity_unit,
+ *   efficiency_rating / efficiency_metric, fuel_type)
+ * - Consumers: capital-timeline (nameplate tonnage and tank size for
+ *   regionalCost sizing)
+ *
+ * RULES:
+ * R1: Never guess. A model that matches no known format for its brand
+ *     decodes to null
+ * R2: Cooling capacity codes are nominal thousands of BTU/h and only the
+ *     sizes equipment is sold in (1.5–5 tons) are accepted
+ * R3: Efficiency is only set when the model encodes it; series numbers that
+ *     track SEER loosely (Trane, Lennox) carry lower confidence
+ *
+ * @version v1
+ */
+
+import { serialFamilyForBrand, type SerialFamily } from './serialDecoding.ts';
+
+// ============== Types ==============
+
+export type EquipmentKind = 'air_conditioner' | 'heat_pump' | 'furnace' | 'water_heater';
+export type CapacityUnit = 'tons' | 'btuh' | 'gallons';
+export type EfficiencyMetric = 'SEER' | 'AFUE';
+export type ModelFuelType = 'gas' | 'electric' | 'heat_pump';
+
+export interface ModelSpec {
+  kind: EquipmentKind;
+  capacity: { value: number; unit: CapacityUnit } | null;
+  efficiency: { value: number; metric: EfficiencyMetric } | null;
+  fuelType: ModelFuelType | null;
+  family: SerialFamily;
+  /** Model series that matched, e.g. 'goodman_condenser' */
+  format: string;
+  /** Certainty the spec is right given the model was read correctly (0-1) */
+  confidence: number;
+  decoderVersion: string;
+}
+
+type DecodedFields = Pick<ModelSpec, 'kind' | 'capacity' | 'efficiency' | 'fuelType'>;
+
+interface ModelFormat {
+  format: string;
+  pattern: RegExp;
+  confidence: number;
+  decode: (match: RegExpMatchArray) => DecodedFields | null;
+}
+
+// ============== Constants ==============
+
+export const MODEL_DECODER_VERSION = 'model_spec_v1';
+
+/** Nominal cooling sizes, thousands of BTU/h (R2) */
+const COOLING_MBH = [18, 24, 30, 36, 42, 48, 60];
+
+/** Furnace input, thousands of BTU/h */
+const MIN_FURNACE_MBH = 40;
+const MAX_FURNACE_MBH = 140;
+
+const MIN_TANK_GALLONS = 20;
+const MAX_TANK_GALLONS = 100;
+
+// ============== Helpers ==============
+
+function normalizeModel(model: string): string {
+  return model.toUpperCase().replace(/\s+/g, '');
+}
+
+/** Nominal tons from a cooling capacity code ('36', '036'), or null (R2) */
+function coolingTons(code: string): ModelSpec['capacity'] {
+  const mbh = parseInt(code, 10);
+  return COOLING_MBH.includes(mbh) ? { value: mbh / 12, unit: 'tons' } : null;
+}
+
+function furnaceInput(code: string): ModelSpec['capacity'] {
+  const mbh = parseInt(code, 10);
+  return mbh >= MIN_FURNACE_MBH && mbh <= MAX_FURNACE_MBH ? { value: mbh * 1000, unit: 'btuh' } : null;
+}
+
+function tankGallons(code: string): ModelSpec['capacity'] {
+  const gallons = parseInt(code, 10);
+  return gallons >= MIN_TANK_GALLONS && gallons <= MAX_TANK_GALLONS ? { value: gallons, unit: 'gallons' } : null;
+}
+
+function seer(value: number): ModelSpec['efficiency'] {
+  return value >= 13 && value <= 26 ? { value, metric: 'SEER' } : null;
+}
+
+function afue(value: number): ModelSpec['efficiency'] {
+  return value >= 78 && value <= 99 ? { value, metric: 'AFUE' } : null;
+}
+
+function cooling(kind: 'air_conditioner' | 'heat_pump', tonsCode: string, efficiency: ModelSpec['efficiency']): DecodedFields | null {
+  const capacity = coolingTons(tonsCode);
+  if (!capacity) return null;
+  return { kind, capacity, efficiency, fuelType: kind === 'heat_pump' ? 'heat_pump' : null };
+}
+
+function furnace(inputCode: string, efficiency: ModelSpec['efficiency']): DecodedFields | null {
+  const capacity = furnaceInput(inputCode);
+  if (!capacity) return null;
+  return { kind: 'furnace', capacity, efficiency, fuelType: 'gas' };
+}
+
+function waterHeater(gallonsCode: string, fuelType: ModelFuelType): DecodedFields | null {
+  const capacity = tankGallons(gallonsCode);
+  if (!capacity) return null;
+  return { kind: 'water_heater', capacity, efficiency: null, fuelType };
+}
+
+// ============== Formats ==============
+
+const FURNACE_MBH = '(0[4-9][05]|1[0-4][05])';
+
+const MODEL_FORMATS: Record<SerialFamily, ModelFormat[]> = {
+  carrier: [
+    // 24ACC636A003 — 24 = split AC, 25 = split heat pump; 36 = 3 tons
+    {
+      format: 'carrier_split',
+      pattern: /^(2[45])[A-Z]{3}\d(\d{2})/,
+      confidence: 0.85,
+      decode: (m) => cooling(m[1] === '25' ? 'heat_pump' : 'air_conditioner', m[2], null),
+    },
+    // Bryant 113ANA036 — 1xx = AC, 2xx = heat pump
+    {
+      format: 'bryant_split',
+      pattern: /^([12])\d{2}[A-Z]{3}(0\d{2})/,
+      confidence: 0.8,
+      decode: (m) => cooling(m[1] === '2' ? 'heat_pump' : 'air_conditioner', m[2], null),
+    },
+    // 58STA090 — 58 = 80% furnace; 59TP6A080 — 59 = condensing (efficiency varies)
+    {
+      format: 'carrier_furnace',
+      pattern: new RegExp(`^(58|59)[A-Z0-9]{2,5}?${FURNACE_MBH}`),
+      confidence: 0.8,
+      decode: (m) => furnace(m[2], m[1] === '58' ? afue(80) : null),
+    },
+  ],
+
+  trane: [
+    // 4TTR4036L1000A — TT = AC, TW = heat pump; series 4 ≈ 14 SEER (R3)
+    {
+      format: 'trane_split',
+      pattern: /^[2-5]T([TW])[A-Z](\d)(0\d{2})/,
+      confidence: 0.75,
+      decode: (m) => cooling(m[1] === 'W' ? 'heat_pump' : 'air_conditioner', m[3], seer(10 + parseInt(m[2], 10))),
+    },
+    // American Standard 4A7A4036 — 7 = AC, 6 = heat pump
+    {
+      format: 'american_standard_split',
+      pattern: /^4A([67])[A-Z](\d)(0\d{2})/,
+      confidence: 0.75,
+      decode: (m) => cooling(m[1] === '6' ? 'heat_pump' : 'air_conditioner', m[3], seer(10 + parseInt(m[2], 10))),
+    },
+    // S9V2B060 — S8 = 80% furnace, S9 = condensing
+    {
+      format: 'trane_furnace',
+      pattern: new RegExp(`^S([89])[A-Z]\\d[A-Z]${FURNACE_MBH}`),
+      confidence: 0.8,
+      decode: (m) => furnace(m[2], m[1] === '8' ? afue(80) : null),
+    },
+  ],
+
+  lennox: [
+    // 16ACX-036-230, 14HPX-024 — leading SEER
+    {
+      format: 'lennox_acx',
+      pattern: /^(\d{2})(AC|HP)[A-Z]*-?(0\d{2})/,
+      confidence: 0.8,
+      decode: (m) => cooling(m[2] === 'HP' ? 'heat_pump' : 'air_conditioner', m[3], seer(parseInt(m[1], 10))),
+    },
+    // ML14XC1-036, EL16XP1-048, XC21-036 — series number ≈ SEER (R3)
+    {
+      format: 'lennox_series',
+      pattern: /^(?:[EMS]L(\d{2})X|X)([CP])(\d{2})?[A-Z0-9]*-(0\d{2})/,
+      confidence: 0.7,
+      decode: (m) => {
+        const series = m[1] ?? m[3];
+        return cooling(m[2] === 'P' ? 'heat_pump' : 'air_conditioner', m[4], series ? seer(parseInt(series, 10)) : null);
+      },
+    },
+    // EL296UH070XV36B — 96% AFUE, 70,000 BTU/h
+    {
+      format: 'lennox_furnace',
+      pattern: new RegExp(`^(?:EL|ML|SL)\\d(\\d{2})U[A-Z]{1,2}${FURNACE_MBH}`),
+      confidence: 0.85,
+      decode: (m) => furnace(m[2], afue(parseInt(m[1], 10))),
+    },
+  ],
+
+  goodman: [
+    // GSX140361 / GSZC160361 — X = AC, Z = heat pump; SEER 14; 036 = 3 tons
+    {
+      format: 'goodman_condenser',
+      pattern: /^[GAD]S([XZ])[A-Z]?(\d{2})(0\d{2})\d/,
+      confidence: 0.9,
+      decode: (m) => cooling(m[1] === 'Z' ? 'heat_pump' : 'air_conditioner', m[3], seer(parseInt(m[2], 10))),
+    },
+    // GMVC960803BN — 96% AFUE, 80,000 BTU/h; GMS80603 — single digit 8 = 80%
+    {
+      format: 'goodman_furnace',
+      pattern: new RegExp(`^[GA][MC][A-Z]{1,3}(9\\d|8)${FURNACE_MBH}\\d`),
+      confidence: 0.85,
+      decode: (m) => furnace(m[2], afue(m[1] === '8' ? 80 : parseInt(m[1], 10))),
+    },
+  ],
+
+  rheem: [
+    // RA1436AJ1NA — RA / UA = AC, RP / UP = heat pump; SEER 14; 36 = 3 tons
+    {
+      format: 'rheem_condenser',
+      pattern: /^[RU]([AP])(\d{2})(\d{2})[A-Z]/,
+      confidence: 0.85,
+      decode: (m) => cooling(m[1] === 'P' ? 'heat_pump' : 'air_conditioner', m[3], seer(parseInt(m[2], 10))),
+    },
+    // R96VA0702521 — 96% AFUE, 70,000 BTU/h; R801SA075 — 80%
+    {
+      format: 'rheem_furnace',
+      pattern: new RegExp(`^R(9\\d|80)[A-Z0-9]{1,3}?${FURNACE_MBH}`),
+      confidence: 0.8,
+      decode: (m) => furnace(m[2], afue(parseInt(m[1], 10))),
+    },
+    // XE50T10HD50U1 — electric 50 gal; XG50T06EC38U1 — gas; PROG50 / PROE50
+    {
+      format: 'rheem_water_heater',
+      pattern: /^(?:X|PRO)([EG])(\d{2})/,
+      confidence: 0.85,
+      decode: (m) => waterHeater(m[2], m[1] === 'G' ? 'gas' : 'electric'),
+    },
+    // PROPH50 — PH = heat pump water heater
+    {
+      format: 'rheem_heat_pump_water_heater',
+      pattern: /^(?:PRO)?PH(\d{2})/,
+      confidence: 0.8,
+      decode: (m) => waterHeater(m[1], 'heat_pump'),
+    },
+  ],
+
+  // Capacity is in the model, but series letters vary by plant and era
+  york: [
+    // YCE36B21S / YHE36B21S — C = AC, H = heat pump; 36 = 3 tons
+    {
+      format: 'york_condenser',
+      pattern: /^[YT]([CH])[A-Z]{1,2}(\d{2})[A-Z]\d{2}/,
+      confidence: 0.65,
+      decode: (m) => cooling(m[1] === 'H' ? 'heat_pump' : 'air_conditioner', m[2], null),
+    },
+  ],
+
+  ao_smith: [
+    // HPTU-50 — heat pump water heater
+    {
+      format: 'ao_smith_heat_pump',
+      pattern: /^HPT[A-Z]*-?(\d{2})/,
+      confidence: 0.85,
+      decode: (m) => waterHeater(m[1], 'heat_pump'),
+    },
+    // State GS650YBRT — G = gas, E = electric; 6-year; 50 gal
+    {
+      format: 'state_water_heater',
+      pattern: /^([GE])S\d(\d{2})[A-Z]/,
+      confidence: 0.8,
+      decode: (m) => waterHeater(m[2], m[1] === 'G' ? 'gas' : 'electric'),
+    },
+    // GCR-50, GPVH-50, ENS-40, EN6-50
+    {
+      format: 'ao_smith_water_heater',
+      pattern: /^([GE])[A-Z]{1,3}\d?-?(\d{2})/,
+      confidence: 0.8,
+      decode: (m) => waterHeater(m[2], m[1] === 'G' ? 'gas' : 'electric'),
+    },
+  ],
+
+  // RG250T6N — residential, gas, 50 gal; RE350S6 — electric
+  bradford_white: [{
+    format: 'bradford_white_water_heater',
+    pattern: /^R([GE])\d(\d{2})[A-Z]/,
+    confidence: 0.85,
+    decode: (m) => waterHeater(m[2], m[1] === 'G' ? 'gas' : 'electric'),
+  }],
+};
+
+// ============== Decoding ==============
+
+/**
+ * Decode capacity, efficiency and fuel from a model number (R1)
+ */
+export function decodeModelSpec(
+  brand: string | null | undefined,
+  model: string | null | undefined
+): ModelSpec | null {
+  const family = serialFamilyForBrand(brand);
+  if (!family || !model) return null;
+
+  const normalized = normalizeModel(model);
+  for (const format of MODEL_FORMATS[family]) {
+    const match = normalized.match(format.pattern);
+    if (!match) continue;
+
+    const decoded = format.decode(match);
+    if (!decoded) continue;
+
+    return {
+      ...decoded,
+      family,
+      format: format.format,
+      confidence: format.confidence,
+      decoderVersion: MODEL_DECODER_VERSION,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,336 @@
+/**
+ * Notification Rules - What to send a homeowner, when, and how it reads
+ *
+ * ARCHITECTURE:
+ * - Pure and runtime-agnostic: used by notification-dispatch (Deno) and the
+ *   Settings page (src/lib/notifications.ts) for defaults and labels
+ * - Input is the maintenance-alerts response for one user; this module turns
+ *   it into NotificationItems, each with a dedup key the delivery log is
+ *   checked against before anything is sent
+ * - Transports (email, Web Push) live in notificationTransports.ts
+ *
+ * RULES:
+ * R1: One dedup key per item per channel: an overdue task is sent once per
+ *     due date, so snoozing it and letting it lapse again re-notifies
+ * R2: Quiet hours and the digest day are in the user's own timezone; items
+ *     held back by quiet hours are not logged and go out on the next run
+ * R3: Several new items for a user are batched into one email and one push,
+ *     never one message per task
+ * R4: Every channel is opt-in: with no preferences saved, nothing is sent
+ *     outside the app
+ *
+ * @version v2 - email is opt-in
+ */
+
+// ============== Types ==============
+
+export type NotificationChannel = 'email' | 'push';
+
+export type NotificationKind = 'task_overdue' | 'task_due_soon' | 'warranty' | 'weekly_digest' | 'test';
+
+/** notification_preferences row shape (snake_case, as stored) */
+export interface NotificationPreferences {
+  email_enabled: boolean;
+  push_enabled: boolean;
+  task_overdue: boolean;
+  task_due_soon: boolean;
+  warranty: boolean;
+  weekly_digest: boolean;
+  /** 0 = Sunday … 6 = Saturday, in `timezone` */
+  digest_day: number;
+  /** Local hour quiet hours begin (0-23); null for none */
+  quiet_hours_start: number | null;
+  /** Local hour quiet hours end (0-23), exclusive */
+  quiet_hours_end: number | null;
+  /** IANA timezone, e.g. America/New_York */
+  timezone: string;
+}
+
+/** Kinds default on, channels off (R4) */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email_enabled: false,
+  push_enabled: false,
+  task_overdue: true,
+  task_due_soon: true,
+  warranty: true,
+  weekly_digest: true,
+  digest_day: 0,
+  quiet_hours_start: 21,
+  quiet_hours_end: 8,
+  timezone: 'America/New_York',
+};
+
+/** Subset of the maintenance-alerts response this module reads */
+export interface MaintenanceAlertsSummary {
+  overdue: number;
+  upcoming: number;
+  estimatedCost: number;
+  tasks: Array<{
+    id: string;
+    title: string;
+    due_date: string;
+    priority: string | null;
+    system_type: string | null;
+    home_id?: string | null;
+  }>;
+  warrantyAlerts: Array<{
+    assetId: string;
+    assetKind: string;
+    kind: string;
+    dueDate: string;
+    message: string;
+  }>;
+  chatMessage: string | null;
+}
+
+export interface NotificationItem {
+  kind: NotificationKind;
+  dedupKey: string;
+  /** Task or asset id the item is about */
+  subjectId: string | null;
+  homeId: string | null;
+  title: string;
+  body: string;
+  /** In-app path opened from the notification */
+  url: string;
+}
+
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  /** Replaces an earlier notification with the same tag on the device */
+  tag: string;
+}
+
+// ============== Constants ==============
+
+export const NOTIFICATION_KIND_LABELS: Record<Exclude<NotificationKind, 'test'>, string> = {
+  task_overdue: 'Overdue tasks',
+  task_due_soon: 'Tasks coming due',
+  warranty: 'Warranty deadlines',
+  weekly_digest: 'Weekly digest',
+};
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const WEEKDAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MAINTENANCE_PATH = '/maintenance';
+
+/** Local hour the weekly digest becomes due; notification_digest_candidates filters on it too */
+export const DIGEST_LOCAL_HOUR = 8;
+
+// ============== Preferences ==============
+
+/**
+ * Stored row merged over defaults; unknown or missing fields fall back
+ */
+export function resolvePreferences(row: Partial<NotificationPreferences> | null | undefined): NotificationPreferences {
+  const merged = { ...DEFAULT_NOTIFICATION_PREFERENCES };
+  if (!row) return merged;
+  for (const key of Object.keys(merged) as (keyof NotificationPreferences)[]) {
+    const value = row[key];
+    if (value !== undefined && (value !== null || key === 'quiet_hours_start' || key === 'quiet_hours_end')) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+export function kindEnabled(prefs: NotificationPreferences, kind: NotificationKind): boolean {
+  return kind === 'test' ? true : prefs[kind];
+}
+
+export function channelEnabled(prefs: NotificationPreferences, channel: NotificationChannel): boolean {
+  return channel === 'email' ? prefs.email_enabled : prefs.push_enabled;
+}
+
+// ============== Local Time (R2) ==============
+
+export interface LocalTime {
+  /** 0-23 */
+  hour: number;
+  /** 0 = Sunday */
+  weekday: number;
+  /** YYYY-MM-DD */
+  date: string;
+}
+
+export function localTime(now: Date, timeZone: string): LocalTime {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+      weekday: 'short',
+    }).formatToParts(now);
+  } catch {
+    // Unknown timezone: treat as UTC rather than fail the user's delivery
+    return localTime(now, 'UTC');
+  }
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  return {
+    hour: Number(part('hour')) % 24,
+    weekday: WEEKDAY_SHORT.indexOf(part('weekday')),
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+  };
+}
+
+/**
+ * Whether `now` falls in the user's quiet hours; a start after the end
+ * spans midnight (21 → 8)
+ */
+export function isQuietHours(prefs: NotificationPreferences, now: Date): boolean {
+  const { quiet_hours_start: start, quiet_hours_end: end } = prefs;
+  if (start === null || end === null || start === end) return false;
+  const { hour } = localTime(now, prefs.timezone);
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * The digest goes out on the first run at or after DIGEST_LOCAL_HOUR on the
+ * chosen day; its dedup key stops the rest of that day's runs
+ */
+export function isDigestDue(prefs: NotificationPreferences, now: Date): boolean {
+  const local = localTime(now, prefs.timezone);
+  return local.weekday === prefs.digest_day && local.hour >= DIGEST_LOCAL_HOUR;
+}
+
+// ============== Items (R1) ==============
+
+export function alertNotificationItems(summary: MaintenanceAlertsSummary, today: string): NotificationItem[] {
+  const items: NotificationItem[] = [];
+
+  for (const task of summary.tasks) {
+    const overdue = task.due_date < today;
+    items.push({
+      kind: overdue ? 'task_overdue' : 'task_due_soon',
+      dedupKey: `${overdue ? 'task_overdue' : 'task_due_soon'}:${task.id}:${task.due_date}`,
+      subjectId: task.id,
+      homeId: task.home_id ?? null,
+      title: overdue ? `Overdue: ${task.title}` : `Coming up: ${task.title}`,
+      body: overdue ? `Was due ${formatDay(task.due_date)}.` : `Due ${formatDay(task.due_date)}.`,
+      url: MAINTENANCE_PATH,
+    });
+  }
+
+  for (const alert of summary.warrantyAlerts) {
+    items.push({
+      kind: 'warranty',
+      dedupKey: `warranty:${alert.assetId}:${alert.kind}:${alert.dueDate}`,
+      subjectId: alert.assetId,
+      homeId: null,
+      title: 'Warranty reminder',
+      body: alert.message,
+      url: MAINTENANCE_PATH,
+    });
+  }
+
+  return items;
+}
+
+export function digestDedupKey(localDate: string): string {
+  return `weekly_digest:${localDate}`;
+}
+
+// ============== Content (R3) ==============
+
+export function composePushPayload(items: NotificationItem[]): PushPayload {
+  if (items.length === 1) {
+    const [item] = items;
+    return { title: item.title, body: item.body, url: item.url, tag: item.dedupKey };
+  }
+  const overdue = items.filter(i => i.kind === 'task_overdue').length;
+  return {
+    title: overdue > 0
+      ? `${overdue} overdue home task${overdue > 1 ? 's' : ''}`
+      : `${items.length} home reminders`,
+    body: items.slice(0, 3).map(i => i.title).join(' · ') + (items.length > 3 ? ` +${items.length - 3} more` : ''),
+    url: MAINTENANCE_PATH,
+    tag: 'habitta-alerts',
+  };
+}
+
+export function composeAlertEmail(items: NotificationItem[], appUrl: string): EmailContent {
+  const push = composePushPayload(items);
+  const rows = items.map(i => ({ title: i.title, body: i.body }));
+  return {
+    subject: push.title,
+    html: emailHtml(
+      push.title,
+      `<ul style="padding-left: 20px; color: #4a4a5a; font-size: 16px; line-height: 1.6;">${rows.map(r =>
+        `<li><strong>${escapeHtml(r.title)}</strong><br>${escapeHtml(r.body)}</li>`).join('')}</ul>`,
+      `${appUrl}${MAINTENANCE_PATH}`,
+      'View maintenance plan',
+    ),
+    text: `${push.title}\n\n${rows.map(r => `- ${r.title}: ${r.body}`).join('\n')}\n\n${appUrl}${MAINTENANCE_PATH}`,
+  };
+}
+
+export function composeDigestEmail(summary: MaintenanceAlertsSummary, today: string, appUrl: string): EmailContent {
+  const lines = summary.tasks.slice(0, 10).map(t =>
+    `${t.title} — ${t.due_date < today ? 'overdue since' : 'due'} ${formatDay(t.due_date)}`);
+  const warrantyLines = summary.warrantyAlerts.slice(0, 5).map(a => a.message);
+  const intro = summary.chatMessage ?? 'Nothing needs your attention this week.';
+  const cost = summary.estimatedCost > 0
+    ? `Estimated cost of the work ahead: $${Math.round(summary.estimatedCost).toLocaleString('en-US')}.`
+    : '';
+
+  const list = (entries: string[]) => entries.length === 0 ? '' :
+    `<ul style="padding-left: 20px; color: #4a4a5a; font-size: 16px; line-height: 1.6;">${entries.map(e => `<li>${escapeHtml(e)}</li>`).join('')}</ul>`;
+
+  return {
+    subject: 'Your week at home',
+    html: emailHtml(
+      'Your week at home',
+      `<p style="color: #4a4a5a; font-size: 16px; line-height: 1.6;">${escapeHtml(intro)}</p>` +
+        list(lines) + list(warrantyLines) +
+        (cost ? `<p style="color: #4a4a5a; font-size: 16px; line-height: 1.6;">${escapeHtml(cost)}</p>` : ''),
+      `${appUrl}${MAINTENANCE_PATH}`,
+      'Open Habitta',
+    ),
+    text: [intro, ...lines.map(l => `- ${l}`), ...warrantyLines.map(l => `- ${l}`), cost, `${appUrl}${MAINTENANCE_PATH}`]
+      .filter(Boolean).join('\n'),
+  };
+}
+
+// ============== Helpers ==============
+
+function formatDay(date: string): string {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', {
+    month: 'short', day: 'numeric', timeZone: 'UTC',
+  });
+}
+
+function emailHtml(heading: string, body: string, url: string, cta: string): string {
+  return `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 560px; margin: 0 auto; padding: 40px 20px;">
+      <h1 style="color: #1a1a2e; font-size: 24px; margin-bottom: 16px;">${escapeHtml(heading)}</h1>
+      ${body}
+      <p style="margin: 32px 0;">
+        <a href="${url}" style="background: #1a1a2e; color: #fff; padding: 12px 20px; border-radius: 8px; text-decoration: none; font-size: 16px;">${escapeHtml(cta)}</a>
+      </p>
+      <p style="color: #888; font-size: 14px;">Change what Habitta sends you in Settings → Notifications.</p>
+    </div>
+  `;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
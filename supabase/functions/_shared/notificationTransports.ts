@@ -0,0 +1,375 @@
+/**
+ * Notification Transports - Email and Web Push delivery
+ *
+ * ARCHITECTURE:
+ * - Deno-only: used by notification-dispatch. What to send is decided in
+ *   notificationRules.ts; this module only moves bytes
+ * - Email goes through an EmailTransport chosen by NOTIFY_EMAIL_TRANSPORT:
+ *   'resend' (default, production), 'smtp' (plain SMTP to a local catcher
+ *   such as Mailpit on localhost:1025) or 'log' (console only)
+ * - Web Push is implemented on WebCrypto: a VAPID JWT (RFC 8292) and an
+ *   aes128gcm-encrypted payload (RFC 8291), delivered to the subscription
+ *   the browser created through public/sw.js
+ *
+ * RULES:
+ * R1: Transports never throw for a failed delivery; they return
+ *     DeliveryResult so one bad address doesn't stop a batch
+ * R2: A push endpoint answering 404/410 is `expired` — the caller removes
+ *     the subscription
+ * R3: The SMTP transport is a development stand-in: no TLS, no AUTH
+ *
+ * @version v1
+ */
+
+// ============== Types ==============
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  error?: string;
+  /** Push subscription is gone (R2) */
+  expired?: boolean;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<DeliveryResult>;
+}
+
+export interface WebPushSubscription {
+  endpoint: string;
+  /** Browser's ECDH public key, base64url */
+  p256dh: string;
+  /** Browser's auth secret, base64url */
+  auth: string;
+}
+
+export interface VapidKeys {
+  /** Uncompressed P-256 public key, base64url (also VITE_VAPID_PUBLIC_KEY) */
+  publicKey: string;
+  /** P-256 private scalar, base64url */
+  privateKey: string;
+  /** mailto: or https: contact for push services */
+  subject: string;
+}
+
+const DEFAULT_FROM = 'Habitta <hello@habitta.app>';
+
+// ============== Email ==============
+
+export function resendTransport(apiKey: string, from: string = DEFAULT_FROM): EmailTransport {
+  return {
+    name: 'resend',
+    async send(message) {
+      try {
+        const res = await fetch('https://api.resend.com/emails', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            from,
+            to: [message.to],
+            subject: message.subject,
+            html: message.html,
+            text: message.text,
+          }),
+        });
+        if (!res.ok) return { ok: false, error: `Resend ${res.status}: ${await res.text()}` };
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, error: (error as Error).message };
+      }
+    },
+  };
+}
+
+/** Plain SMTP for local development (R3) */
+export function smtpTransport(options: { host: string; port: number; from?: string }): EmailTransport {
+  const from = options.from ?? DEFAULT_FROM;
+  return {
+    name: 'smtp',
+    async send(message) {
+      let conn: Deno.Conn | null = null;
+      try {
+        conn = await Deno.connect({ hostname: options.host, port: options.port });
+        const session = smtpSession(conn);
+        await session.expect(220);
+        await session.command('EHLO habitta.local', 250);
+        await session.command(`MAIL FROM:<${envelopeAddress(from)}>`, 250);
+        await session.command(`RCPT TO:<${envelopeAddress(message.to)}>`, 250);
+        await session.command('DATA', 354);
+        await session.command(`${dotStuff(mimeMessage(from, message))}\r\n.`, 250);
+        await session.command('QUIT', 221);
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, error: `SMTP: ${(error as Error).message}` };
+      } finally {
+        try { conn?.close(); } catch { /* already closed */ }
+      }
+    },
+  };
+}
+
+export function logTransport(): EmailTransport {
+  return {
+    name: 'log',
+    send(message) {
+      console.log(`[notifications] Email to ${message.to}: ${message.subject}\n${message.text}`);
+      return Promise.resolve({ ok: true });
+    },
+  };
+}
+
+/**
+ * Transport from NOTIFY_EMAIL_TRANSPORT; null when the chosen transport
+ * isn't configured
+ */
+export function emailTransportFromEnv(): EmailTransport | null {
+  const from = Deno.env.get('NOTIFY_EMAIL_FROM') ?? DEFAULT_FROM;
+  switch ((Deno.env.get('NOTIFY_EMAIL_TRANSPORT') ?? 'resend').toLowerCase()) {
+    case 'smtp':
+      return smtpTransport({
+        host: Deno.env.get('SMTP_HOST') ?? 'localhost',
+        port: Number(Deno.env.get('SMTP_PORT') ?? 1025),
+        from,
+      });
+    case 'log':
+      return logTransport();
+    default: {
+      const apiKey = Deno.env.get('RESEND_API_KEY');
+      if (!apiKey) {
+        console.error('[notifications] RESEND_API_KEY is not configured');
+        return null;
+      }
+      return resendTransport(apiKey, from);
+    }
+  }
+}
+
+function smtpSession(conn: Deno.Conn) {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffered = '';
+
+  // A reply is complete at a line with a space after the code ("250 OK")
+  async function readReply(): Promise<string> {
+    const chunk = new Uint8Array(4096);
+    while (!/(^|\r\n)\d{3} [^\r\n]*\r\n$/.test(buffered)) {
+      const n = await conn.read(chunk);
+      if (n === null) throw new Error('connection closed');
+      buffered += decoder.decode(chunk.subarray(0, n));
+    }
+    const reply = buffered;
+    buffered = '';
+    return reply;
+  }
+
+  async function expect(code: number): Promise<void> {
+    const reply = await readReply();
+    const lines = reply.trim().split('\r\n');
+    if (!lines[lines.length - 1].startsWith(String(code))) {
+      throw new Error(`expected ${code}, got "${lines[lines.length - 1]}"`);
+    }
+  }
+
+  async function command(line: string, code: number): Promise<void> {
+    const bytes = encoder.encode(`${line}\r\n`);
+    let written = 0;
+    while (written < bytes.length) {
+      written += await conn.write(bytes.subarray(written));
+    }
+    await expect(code);
+  }
+
+  return { expect, command };
+}
+
+function envelopeAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}?=`;
+}
+
+function mimeMessage(from: string, message: EmailMessage): string {
+  const boundary = `habitta-${crypto.randomUUID()}`;
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    message.text,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    message.html,
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+// Lines starting with "." would otherwise end DATA early
+function dotStuff(body: string): string {
+  return body.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+}
+
+// ============== Web Push ==============
+
+export function vapidKeysFromEnv(): VapidKeys | null {
+  const publicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+  const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+  if (!publicKey || !privateKey) return null;
+  return {
+    publicKey,
+    privateKey,
+    subject: Deno.env.get('VAPID_SUBJECT') ?? 'mailto:hello@habitta.app',
+  };
+}
+
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: string,
+  vapid: VapidKeys,
+  ttlSeconds = 24 * 60 * 60,
+): Promise<DeliveryResult> {
+  try {
+    const body = await encryptPayload(subscription, new TextEncoder().encode(payload));
+    const res = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': await vapidAuthorization(subscription.endpoint, vapid),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        'TTL': String(ttlSeconds),
+        'Urgency': 'normal',
+      },
+      body,
+    });
+    if (res.status === 404 || res.status === 410) {
+      return { ok: false, expired: true, error: `Push endpoint gone (${res.status})` };
+    }
+    if (!res.ok) return { ok: false, error: `Push ${res.status}: ${await res.text()}` };
+    return { ok: true };
+  } catch (error) {
+    return { ok: false, error: (error as Error).message };
+  }
+}
+
+/** RFC 8292 VAPID header, valid for 12 hours */
+async function vapidAuthorization(endpoint: string, vapid: VapidKeys): Promise<string> {
+  const header = base64UrlEncode(utf8(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = base64UrlEncode(utf8(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+    sub: vapid.subject,
+  })));
+
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: base64UrlEncode(publicKey.slice(1, 33)),
+      y: base64UrlEncode(publicKey.slice(33, 65)),
+      ext: true,
+    },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign'],
+  );
+  // WebCrypto returns the raw r||s signature JWS expects
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    utf8(`${header}.${claims}`),
+  );
+
+  return `vapid t=${header}.${claims}.${base64UrlEncode(new Uint8Array(signature))}, k=${vapid.publicKey}`;
+}
+
+/** RFC 8291 aes128gcm: a single record with an ephemeral sender key */
+async function encryptPayload(subscription: WebPushSubscription, plaintext: Uint8Array): Promise<Uint8Array> {
+  const uaPublic = base64UrlDecode(subscription.p256dh);
+  const authSecret = base64UrlDecode(subscription.auth);
+
+  const asKeys = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const asPublic = new Uint8Array(await crypto.subtle.exportKey('raw', asKeys.publicKey));
+  const uaKey = await crypto.subtle.importKey('raw', uaPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const ecdhSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'ECDH', public: uaKey }, asKeys.privateKey, 256),
+  );
+
+  const ikm = await hkdf(authSecret, ecdhSecret, concat(utf8('WebPush: info\0'), uaPublic, asPublic), 32);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const cek = await hkdf(salt, ikm, utf8('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, utf8('Content-Encoding: nonce\0'), 12);
+
+  const aesKey = await crypto.subtle.importKey('raw', cek, 'AES-GCM', false, ['encrypt']);
+  // 0x02 marks the last (and only) record
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, aesKey, concat(plaintext, new Uint8Array([2]))),
+  );
+
+  // Header: salt(16) | record size(4) | key id length(1) | sender public key
+  const header = new Uint8Array(21 + asPublic.length);
+  header.set(salt, 0);
+  new DataView(header.buffer).setUint32(16, 4096);
+  header[20] = asPublic.length;
+  header.set(asPublic, 21);
+
+  return concat(header, ciphertext);
+}
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8));
+}
+
+// ============== Bytes ==============
+
+function utf8(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
@@ -0,0 +1,517 @@
+/**
+ * Permit Adapters - Jurisdiction registry for municipal permit sources
+ *
+ * ARCHITECTURE:
+ * - Each county or city is a row in permit_jurisdictions: which adapter
+ *   speaks to it, where it lives, which homes it covers, and how its
+ *   columns map onto NormalizedPermit
+ * - Adapters: ArcGIS FeatureServer query, Socrata (SODA) resource, and CSV
+ *   (a published bulk file, or text uploaded by the user)
+ * - Every adapter produces NormalizedPermit through normalizeMappedPermit,
+ *   so shovels-permits hands them to toPermitDbRecord and the permit signal
+ *   exactly like Shovels results
+ * - loadPermitJurisdictions, which reads the registry, is in
+ *   permitJurisdictionsLoader.ts
+ *
+ * RULES:
+ * R1: Onboarding a jurisdiction is a row, not a deploy — no per-county code
+ * R2: Column lookups are case-insensitive; the first non-empty column wins,
+ *     except join fields, which concatenate every non-empty column
+ * R3: Lookup values are escaped before they reach a where clause
+ * R4: A failing jurisdiction never fails the sync — callers catch and move on
+ * R5: Numeric source values stay numbers until parsed, so ArcGIS epoch
+ *     dates of any magnitude (pre-2001, pre-1970) survive
+ *
+ * @version v2
+ */
+
+import { parsePermitDate, type NormalizedPermit } from './permitNormalizers.ts';
+
+// ============== Types ==============
+
+export type PermitAdapterKind = 'arcgis_feature_server' | 'socrata' | 'csv';
+
+export type MappedPermitField =
+  | 'permit_number'
+  | 'permit_type'
+  | 'work_class'
+  | 'description'
+  | 'status'
+  | 'date_issued'
+  | 'date_finaled'
+  | 'approval_date'
+  | 'valuation'
+  | 'contractor_name'
+  | 'contractor_license'
+  | 'jurisdiction'
+  | 'source_url'
+  | 'parcel_id';
+
+/** Source columns for a field, in priority order, or joined (R2) */
+export type PermitFieldMap = string[] | { columns: string[]; join: string };
+
+/** Which homes a jurisdiction covers; any listed criterion matching is enough */
+export interface JurisdictionMatch {
+  fipsCodes?: string[];
+  /** First three ZIP digits */
+  zip3?: string[];
+  /** Lowercased city names; require `state` to match when set */
+  cities?: string[];
+  state?: string;
+}
+
+export interface JurisdictionLookup {
+  /** Column holding the parcel id (folio, APN, PIN) */
+  parcelField?: string;
+  /** Strip dashes and spaces before querying the parcel column */
+  parcelDigitsOnly?: boolean;
+  /** Retry with LIKE '%-<last N digits>' when the exact parcel query is empty */
+  parcelSuffixFallback?: number;
+  addressField?: string;
+  /** 'abbreviated' rewrites "Northwest 64th Street" → "NW 64 ST" before matching */
+  addressStyle?: 'abbreviated' | 'as_entered';
+  /** Newest first */
+  orderBy?: string;
+}
+
+export interface PermitJurisdiction {
+  id: string;
+  name: string;
+  adapter: PermitAdapterKind;
+  /** Query or file URL; null for upload-only CSV layouts */
+  endpoint: string | null;
+  match: JurisdictionMatch;
+  lookup: JurisdictionLookup;
+  fieldMap: Partial<Record<MappedPermitField, PermitFieldMap>>;
+  /** Raw permit type code → readable type, e.g. MECH → Mechanical */
+  typeMap: Record<string, string>;
+}
+
+export interface JurisdictionHome {
+  fipsCode?: string | null;
+  zipCode?: string | null;
+  city?: string | null;
+  state?: string | null;
+}
+
+export interface JurisdictionQuery {
+  address?: string | null;
+  parcelId?: string | null;
+}
+
+type RawRecord = Record<string, unknown>;
+
+// ============== Constants ==============
+
+const RESULT_LIMIT = 100;
+
+const DATE_FIELDS: MappedPermitField[] = ['date_issued', 'date_finaled', 'approval_date'];
+
+const DIRECTION_ABBREVIATIONS: Record<string, string> = {
+  NORTHWEST: 'NW',
+  NORTHEAST: 'NE',
+  SOUTHWEST: 'SW',
+  SOUTHEAST: 'SE',
+  NORTH: 'N',
+  SOUTH: 'S',
+  EAST: 'E',
+  WEST: 'W',
+};
+
+const STREET_SUFFIX_ABBREVIATIONS: Record<string, string> = {
+  STREET: 'ST',
+  AVENUE: 'AVE',
+  COURT: 'CT',
+  DRIVE: 'DR',
+  BOULEVARD: 'BLVD',
+  LANE: 'LN',
+  PLACE: 'PL',
+  ROAD: 'RD',
+  TERRACE: 'TER',
+  WAY: 'WAY',
+  CIRCLE: 'CIR',
+};
+
+// ============== Registry ==============
+
+/**
+ * Jurisdictions covering a home. A jurisdiction with no match criteria
+ * (e.g. an upload-only layout) never matches automatically.
+ */
+export function matchJurisdictions(
+  jurisdictions: PermitJurisdiction[],
+  home: JurisdictionHome
+): PermitJurisdiction[] {
+  const fips = home.fipsCode?.trim();
+  const zip3 = home.zipCode?.trim().slice(0, 3);
+  const city = home.city?.trim().toLowerCase();
+  const state = home.state?.trim().toUpperCase();
+
+  return jurisdictions.filter(({ match }) => {
+    if (fips && match.fipsCodes?.includes(fips)) return true;
+    if (zip3 && zip3.length === 3 && match.zip3?.includes(zip3)) return true;
+    if (city && match.cities?.includes(city)) {
+      return !match.state || !state || match.state.toUpperCase() === state;
+    }
+    return false;
+  });
+}
+
+// ============== Normalization ==============
+
+function readRawColumn(raw: RawRecord, column: string): unknown {
+  let value = raw[column];
+  if (value == null) value = raw[column.toLowerCase()];
+  if (value == null) value = raw[column.toUpperCase()];
+  if (value == null) {
+    const key = Object.keys(raw).find(k => k.toLowerCase() === column.toLowerCase());
+    value = key ? raw[key] : null;
+  }
+  return value;
+}
+
+function readColumn(raw: RawRecord, column: string): string | null {
+  const value = readRawColumn(raw, column);
+  if (value == null) return null;
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+/**
+ * First mapped date value, kept numeric when the source sent a number (R5)
+ */
+function readMappedDate(raw: RawRecord, map: PermitFieldMap | undefined): string | number | null {
+  if (Array.isArray(map)) {
+    for (const column of map) {
+      const value = readRawColumn(raw, column);
+      if (typeof value === 'number' && Number.isFinite(value)) return value;
+      const text = readColumn(raw, column);
+      if (text !== null) return text;
+    }
+    return null;
+  }
+  return readMapped(raw, map);
+}
+
+function readMapped(raw: RawRecord, map: PermitFieldMap | undefined): string | null {
+  if (!map) return null;
+
+  if (Array.isArray(map)) {
+    for (const column of map) {
+      const value = readColumn(raw, column);
+      if (value !== null) return value;
+    }
+    return null;
+  }
+
+  const parts = map.columns.map(column => readColumn(raw, column)).filter((v): v is string => v !== null);
+  return parts.length > 0 ? parts.join(map.join).trim() : null;
+}
+
+function parseValuation(value: string | null): number | null {
+  if (value === null) return null;
+  const parsed = Number(value.replace(/[$,\s]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Map one source record onto the unified permit model (R2)
+ */
+export function normalizeMappedPermit(raw: RawRecord, jurisdiction: PermitJurisdiction): NormalizedPermit {
+  const field = (name: MappedPermitField) => readMapped(raw, jurisdiction.fieldMap[name]);
+  const dates = Object.fromEntries(
+    DATE_FIELDS.map(name => [name, parsePermitDate(readMappedDate(raw, jurisdiction.fieldMap[name]))])
+  ) as Record<'date_issued' | 'date_finaled' | 'approval_date', string | null>;
+
+  const rawType = field('permit_type');
+
+  return {
+    permit_number: field('permit_number'),
+    permit_type: rawType ? jurisdiction.typeMap[rawType] || rawType : null,
+    work_class: field('work_class'),
+    description: field('description'),
+    status: field('status'),
+    date_issued: dates.date_issued,
+    date_finaled: dates.date_finaled,
+    approval_date: dates.approval_date,
+    valuation: parseValuation(field('valuation')),
+    contractor_name: field('contractor_name'),
+    contractor_license: field('contractor_license'),
+    jurisdiction: field('jurisdiction') || jurisdiction.name,
+    source_url: field('source_url'),
+    source: jurisdiction.id,
+    parcel_id: field('parcel_id'),
+    raw,
+  };
+}
+
+// ============== Lookup Values ==============
+
+/**
+ * Abbreviate a street address the way most county records store it:
+ * "3082 Northwest 64th Street, Miami, FL" → "3082 NW 64 ST"
+ */
+export function abbreviateStreetAddress(address: string): string | null {
+  // Remove everything after comma (city, state, zip)
+  const streetPart = address.split(',')[0].trim().toUpperCase();
+
+  const match = streetPart.match(/^(\d+)\s+(NORTHWEST|NORTHEAST|SOUTHWEST|SOUTHEAST|NW|NE|SW|SE|N|S|E|W)?\s*(.+)$/);
+  if (!match) return null;
+
+  const direction = match[2] ? DIRECTION_ABBREVIATIONS[match[2]] || match[2] : '';
+  let streetName = match[3];
+
+  for (const [full, abbrev] of Object.entries(STREET_SUFFIX_ABBREVIATIONS)) {
+    streetName = streetName.replace(new RegExp(`\\b${full}\\b`, 'g'), abbrev);
+  }
+
+  // Remove ordinal suffixes: 64TH -> 64, 1ST -> 1, 2ND -> 2, 3RD -> 3
+  streetName = streetName.replace(/(\d+)(ST|ND|RD|TH)\b/g, '$1').replace(/\s+/g, ' ').trim();
+
+  return [match[1], direction, streetName].filter(Boolean).join(' ');
+}
+
+function addressPrefix(address: string, lookup: JurisdictionLookup): string | null {
+  if (lookup.addressStyle === 'abbreviated') {
+    // Fallback: just the street number for broader matching
+    return abbreviateStreetAddress(address) || address.match(/^(\d+)/)?.[1] || null;
+  }
+  const street = address.split(',')[0].trim().toUpperCase();
+  return street || null;
+}
+
+function parcelValue(parcelId: string, lookup: JurisdictionLookup): string {
+  return lookup.parcelDigitsOnly ? parcelId.replace(/[^0-9]/g, '') : parcelId.trim();
+}
+
+/** SQL-92 / SoQL string literal (R3) */
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+interface WhereClause {
+  strategy: 'parcel' | 'address';
+  where: string;
+}
+
+function buildWhereClauses(
+  jurisdiction: PermitJurisdiction,
+  query: JurisdictionQuery,
+  upper: (column: string) => string
+): WhereClause[] {
+  const { lookup } = jurisdiction;
+  const clauses: WhereClause[] = [];
+
+  if (query.parcelId && lookup.parcelField) {
+    const parcel = parcelValue(query.parcelId, lookup);
+    clauses.push({ strategy: 'parcel', where: `${lookup.parcelField}=${quote(parcel)}` });
+    if (lookup.parcelSuffixFallback && parcel.length > lookup.parcelSuffixFallback) {
+      const suffix = parcel.slice(-lookup.parcelSuffixFallback);
+      clauses.push({ strategy: 'parcel', where: `${lookup.parcelField} LIKE ${quote(`%-${suffix}`)}` });
+    }
+  } else if (query.address && lookup.addressField) {
+    const prefix = addressPrefix(query.address, lookup);
+    if (prefix) {
+      clauses.push({ strategy: 'address', where: `${upper(lookup.addressField)} LIKE ${quote(`${prefix}%`)}` });
+    }
+  }
+
+  return clauses;
+}
+
+// ============== Adapters ==============
+
+async function fetchArcGisPermits(
+  jurisdiction: PermitJurisdiction,
+  query: JurisdictionQuery
+): Promise<RawRecord[]> {
+  // Stored values are already uppercase in the FeatureServers we onboard
+  const clauses = buildWhereClauses(jurisdiction, query, column => column);
+
+  for (const clause of clauses) {
+    const params = new URLSearchParams({
+      where: clause.where,
+      outFields: '*',
+      outSR: '4326',
+      f: 'json',
+      resultRecordCount: String(RESULT_LIMIT),
+    });
+    if (jurisdiction.lookup.orderBy) params.set('orderByFields', `${jurisdiction.lookup.orderBy} DESC`);
+
+    const response = await fetch(`${jurisdiction.endpoint}?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error(`${jurisdiction.name} ArcGIS returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data.error) {
+      throw new Error(`${jurisdiction.name} ArcGIS error: ${data.error.message}`);
+    }
+
+    const features: Array<{ attributes?: RawRecord }> = data.features || [];
+    console.log(`[permitAdapters] ${jurisdiction.id} ${clause.strategy} query: ${clause.where}, results: ${features.length}`);
+    if (features.length > 0) return features.map(f => f.attributes || (f as RawRecord));
+  }
+
+  return [];
+}
+
+async function fetchSocrataPermits(
+  jurisdiction: PermitJurisdiction,
+  query: JurisdictionQuery,
+  appToken: string | null | undefined
+): Promise<RawRecord[]> {
+  const clauses = buildWhereClauses(jurisdiction, query, column => `upper(${column})`);
+
+  for (const clause of clauses) {
+    const params = new URLSearchParams({
+      $where: clause.where,
+      $limit: String(RESULT_LIMIT),
+    });
+    if (jurisdiction.lookup.orderBy) params.set('$order', `${jurisdiction.lookup.orderBy} DESC`);
+
+    const response = await fetch(`${jurisdiction.endpoint}?${params.toString()}`, {
+      headers: appToken ? { 'X-App-Token': appToken } : {},
+    });
+    if (!response.ok) {
+      throw new Error(`${jurisdiction.name} Socrata returned ${response.status}`);
+    }
+
+    const rows: RawRecord[] = await response.json();
+    console.log(`[permitAdapters] ${jurisdiction.id} ${clause.strategy} query: ${clause.where}, results: ${rows.length}`);
+    if (rows.length > 0) return rows;
+  }
+
+  return [];
+}
+
+async function fetchCsvPermits(
+  jurisdiction: PermitJurisdiction,
+  query: JurisdictionQuery
+): Promise<RawRecord[]> {
+  const response = await fetch(jurisdiction.endpoint!);
+  if (!response.ok) {
+    throw new Error(`${jurisdiction.name} CSV returned ${response.status}`);
+  }
+
+  const rows = parseCsvRecords(await response.text());
+  const { lookup } = jurisdiction;
+
+  if (query.parcelId && lookup.parcelField) {
+    const parcel = parcelValue(query.parcelId, lookup);
+    return rows.filter(row => {
+      const value = readColumn(row, lookup.parcelField!);
+      return value !== null && parcelValue(value, lookup) === parcel;
+    });
+  }
+
+  if (query.address && lookup.addressField) {
+    const prefix = addressPrefix(query.address, lookup);
+    if (!prefix) return [];
+    return rows.filter(row => readColumn(row, lookup.addressField!)?.toUpperCase().startsWith(prefix));
+  }
+
+  return [];
+}
+
+/**
+ * Fetch and normalize a home's permits from one jurisdiction. Throws on
+ * transport errors; callers catch per jurisdiction (R4).
+ */
+export async function fetchJurisdictionPermits(
+  jurisdiction: PermitJurisdiction,
+  query: JurisdictionQuery,
+  options: { socrataAppToken?: string | null } = {}
+): Promise<NormalizedPermit[]> {
+  if (!jurisdiction.endpoint) return [];
+
+  let rows: RawRecord[];
+  switch (jurisdiction.adapter) {
+    case 'arcgis_feature_server':
+      rows = await fetchArcGisPermits(jurisdiction, query);
+      break;
+    case 'socrata':
+      rows = await fetchSocrataPermits(jurisdiction, query, options.socrataAppToken);
+      break;
+    case 'csv':
+      rows = await fetchCsvPermits(jurisdiction, query);
+      break;
+    default:
+      throw new Error(`Unknown permit adapter: ${jurisdiction.adapter}`);
+  }
+
+  return rows.slice(0, RESULT_LIMIT).map(row => normalizeMappedPermit(row, jurisdiction));
+}
+
+// ============== CSV ==============
+
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+
+  return cells.map(cell => cell.trim());
+}
+
+/** Split on newlines outside quoted cells */
+function splitCsvLines(text: string): string[] {
+  const lines: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of text.replace(/^\uFEFF/, '')) {
+    if (char === '"') inQuotes = !inQuotes;
+    if ((char === '\n' || char === '\r') && !inQuotes) {
+      if (current.trim()) lines.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) lines.push(current);
+
+  return lines;
+}
+
+function parseCsvRecords(text: string): RawRecord[] {
+  const [headerLine, ...lines] = splitCsvLines(text);
+  if (!headerLine) return [];
+
+  const headers = parseCsvLine(headerLine);
+  return lines.map(line => {
+    const cells = parseCsvLine(line);
+    return Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? '']));
+  });
+}
+
+/**
+ * Normalize an uploaded permit export using a jurisdiction's column layout.
+ * Rows without a permit number or issue date carry no signal and are dropped.
+ */
+export function parsePermitCsv(text: string, jurisdiction: PermitJurisdiction): NormalizedPermit[] {
+  return parseCsvRecords(text)
+    .map(row => normalizeMappedPermit(row, jurisdiction))
+    .filter(permit => permit.permit_number || permit.date_issued);
+}
@@ -0,0 +1,311 @@
+/**
+ * Permit Classifier - The ONLY place permit text is matched to a system
+ * category or work type
+ *
+ * ARCHITECTURE:
+ * - Pure and runtime-agnostic: used by permitSignal, systemInference,
+ *   shovels-permits, intelligence-engine and predict-property server-side,
+ *   and by permitAnalyzer, hvacSurvival, mechanicalIntelligence and the
+ *   property dashboard cards in the browser
+ * - One rule per category in PERMIT_CATEGORY_RULES; the SystemType
+ *   categories feed lifespan and install-year logic, the rest only tag
+ *   permits for display and maintenance tips
+ * - Work type (install / replacement / repair / modification) is decided
+ *   once here; permitSignal maps it to installSource and confidence boosts
+ * - Callers still read details within a matched permit themselves (roof
+ *   material, HVAC subtype) and risk flags with no category here (flood,
+ *   foundation)
+ *
+ * RULES:
+ * R1: Keywords of 3 characters or fewer ('ac', 'pv', 'spa') match whole
+ *     words; longer keywords match at the start of a word, so 'replac'
+ *     covers replace / replacement / replacing and 'pool' never matches
+ *     'whirlpool'
+ * R2: An exclude keyword removes the category entirely (a plumbing permit
+ *     for a water heater swap is not a plumbing permit)
+ * R3: Work type precedence: system-specific replacement phrasing, then
+ *     repair components, then generic replacement, install, modification.
+ *     "Replace compressor" is a repair; "AC change out" is a replacement
+ * R4: The primary category is the first match in CATEGORY_ORDER, most
+ *     specific first (mini_split before hvac, water_heater before plumbing)
+ *
+ * Labeled corpus: src/__tests__/permitClassifier.test.ts
+ *
+ * @version v1
+ */
+
+import type { SystemType } from './systemConfigs.ts';
+
+// ============== Types ==============
+
+/** Categories beyond SystemType only tag permits; they carry no lifespan model */
+export type PermitCategory =
+  | SystemType
+  | 'electrical'
+  | 'windows'
+  | 'hurricane_shutters'
+  | 'insulation'
+  | 'driveway'
+  | 'flooring';
+
+export type PermitWorkType = 'install' | 'replacement' | 'repair' | 'modification' | 'unknown';
+
+/** The permit fields the classifier reads; every permit shape in the app has them */
+export interface PermitText {
+  description?: string | null;
+  permit_type?: string | null;
+  /** Shovels raw records name the type `type` */
+  type?: string | null;
+  work_class?: string | null;
+}
+
+export interface PermitClassification {
+  /** Primary category (R4), null when nothing matched */
+  systemType: PermitCategory | null;
+  /** Every matched category, primary first */
+  categories: PermitCategory[];
+  workType: PermitWorkType;
+  /** Certainty of the primary category and work type together (0-1) */
+  confidence: number;
+  classifierVersion: string;
+}
+
+interface CategoryRule {
+  /** Name the system outright */
+  keywords: string[];
+  /** Permit-type words that imply the system with less certainty ('mechanical' → hvac) */
+  weakKeywords?: string[];
+  exclude?: string[];
+  /** Replacement phrasing specific to this system, checked before repairs (R3) */
+  replacement?: string[];
+  /** Install phrasing specific to this system */
+  install?: string[];
+}
+
+// ============== Configuration ==============
+
+export const PERMIT_CLASSIFIER_VERSION = 'permit_classifier_v1';
+
+const WATER_HEATER_KEYWORDS = ['water heater', 'hot water', 'tankless', 'water heat', 'tank water'];
+const MINI_SPLIT_KEYWORDS = ['mini-split', 'mini split', 'minisplit', 'ductless'];
+
+export const PERMIT_CATEGORY_RULES: Record<PermitCategory, CategoryRule> = {
+  hvac: {
+    keywords: [
+      'hvac', 'ac', 'a/c', 'air condition', 'ac unit', 'central air', 'heat pump',
+      'condenser', 'air handler', 'furnace', 'cooling', 'heating', 'split system',
+    ],
+    weakKeywords: ['mech'],
+    exclude: [...MINI_SPLIT_KEYWORDS, 'pool heat pump', 'pool heater', 'heat pump water heater'],
+    replacement: [
+      'change out', 'changeout', 'change-out', 'new unit', 'new condenser', 'new air handler',
+      'replace ac', 'replace a/c', 'replace hvac', 'replace condenser', 'replace air handler',
+      'replace heat pump', 'replace furnace', 'replace unit', 'replace system',
+    ],
+    install: ['new system', 'conversion'],
+  },
+  mini_split: {
+    keywords: MINI_SPLIT_KEYWORDS,
+    replacement: ['change out', 'changeout'],
+  },
+  roof: {
+    keywords: [
+      'roof', 'reroof', 're-roof', 'shingle', 'tile roof', 'metal roof', 'tear off', 'tear-off',
+    ],
+    // Rooftop solar permits describe the mounting, not roof work
+    exclude: ['roof mount', 'roof-mount', 'rooftop solar', 'roof top solar'],
+    replacement: [
+      'reroof', 're-roof', 'tear off', 'tear-off', 'new roof', 'reshingle', 'roof replac', 'replace roof',
+    ],
+  },
+  water_heater: {
+    keywords: WATER_HEATER_KEYWORDS,
+    // Water heaters are almost never a first install in an existing home
+    replacement: ['new', 'install', 'conversion', 'upgrade'],
+  },
+  electrical_panel: {
+    keywords: [
+      'electrical panel', 'service panel', 'breaker panel', 'main panel', 'panel upgrade',
+      'panel change', 'service upgrade', 'service change', '200 amp', 'meter can', 'load center',
+    ],
+    replacement: ['upgrade', 'change out', 'changeout', 'service change', 'panel change'],
+    install: ['new service'],
+  },
+  plumbing: {
+    keywords: ['repipe', 're-pipe', 'water line', 'supply line', 'sewer', 'main line', 'drain line'],
+    weakKeywords: ['plumb'],
+    exclude: WATER_HEATER_KEYWORDS,
+    replacement: ['repipe', 're-pipe'],
+  },
+  pool: {
+    keywords: ['pool', 'swimming', 'spa', 'hot tub'],
+    replacement: ['resurface', 'new pump', 'new heater', 'equipment change'],
+    install: ['new pool', 'construct'],
+  },
+  solar: {
+    keywords: ['solar', 'photovoltaic', 'pv', 'pv system', 'pv module'],
+    replacement: ['reinstall', 're-install'],
+  },
+  electrical: {
+    keywords: ['electrical', 'electric', 'wiring', 'rewire', 'outlet', 'circuit'],
+    weakKeywords: ['elec'],
+    exclude: ['electric water heater'],
+  },
+  windows: {
+    keywords: ['window', 'sliding glass', 'impact glass', 'glazing'],
+  },
+  hurricane_shutters: {
+    keywords: ['shutter', 'storm panel', 'accordion', 'hurricane panel', 'hurricane protection'],
+  },
+  insulation: {
+    keywords: ['insulation', 'insulate', 'spray foam'],
+  },
+  driveway: {
+    keywords: ['driveway', 'paver', 'asphalt'],
+  },
+  flooring: {
+    keywords: ['flooring', 'carpet', 'laminate', 'hardwood'],
+  },
+};
+
+/** Most specific first (R4) */
+const CATEGORY_ORDER: PermitCategory[] = [
+  'mini_split',
+  'water_heater',
+  'solar',
+  'pool',
+  'electrical_panel',
+  'roof',
+  'hvac',
+  'plumbing',
+  'hurricane_shutters',
+  'windows',
+  'insulation',
+  'electrical',
+  'driveway',
+  'flooring',
+];
+
+/** Component work: a part was fixed or swapped, the system was not (R3) */
+const REPAIR_KEYWORDS = [
+  'repair', 'fix', 'leak', 'compressor', 'capacitor', 'contactor', 'motor', 'coil',
+  'refrigerant', 'freon', 'recharge', 'patch',
+];
+const REPLACEMENT_KEYWORDS = ['replac', 'change out', 'changeout', 'change-out', 'swap', 'like for like', 'upgrade'];
+const INSTALL_KEYWORDS = ['install', 'new', 'construct', 'conversion'];
+const MODIFICATION_KEYWORDS = [
+  'add', 'alter', 'modif', 'relocat', 'extend', 'extension', 'addition', 'remodel', 'renovat', 'reconfigur',
+];
+
+/** Categories that make a permit energy-related, plus words that do on their own */
+const ENERGY_CATEGORIES: PermitCategory[] = [
+  'hvac', 'mini_split', 'solar', 'insulation', 'windows', 'electrical', 'electrical_panel',
+];
+const ENERGY_KEYWORDS = ['energy', 'efficien', 'battery', 'door'];
+
+const STRONG_MATCH_CONFIDENCE = 0.9;
+const WEAK_MATCH_CONFIDENCE = 0.6;
+const UNKNOWN_WORK_FACTOR = 0.75;
+const AMBIGUOUS_CATEGORY_FACTOR = 0.85;
+
+// ============== Matching ==============
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const patternCache = new Map<string, RegExp>();
+
+/** Word-start match, whole word for short keywords (R1) */
+function keywordPattern(keyword: string): RegExp {
+  let pattern = patternCache.get(keyword);
+  if (!pattern) {
+    const tail = keyword.length <= 3 ? '(?![a-z0-9])' : '';
+    pattern = new RegExp(`(?:^|[^a-z0-9])${escapeRegExp(keyword)}${tail}`);
+    patternCache.set(keyword, pattern);
+  }
+  return pattern;
+}
+
+function hasKeyword(text: string, keywords: string[] | undefined): boolean {
+  return !!keywords?.some(kw => keywordPattern(kw).test(text));
+}
+
+export function permitText(permit: PermitText): string {
+  return `${permit.description || ''} ${permit.permit_type || permit.type || ''} ${permit.work_class || ''}`.toLowerCase();
+}
+
+/** 'strong' | 'weak' | null for one category (R2) */
+function categoryMatch(category: PermitCategory, text: string): 'strong' | 'weak' | null {
+  const rule = PERMIT_CATEGORY_RULES[category];
+  if (hasKeyword(text, rule.exclude)) return null;
+  if (hasKeyword(text, rule.keywords)) return 'strong';
+  if (hasKeyword(text, rule.weakKeywords)) return 'weak';
+  return null;
+}
+
+function classifyWork(category: PermitCategory | null, text: string): PermitWorkType {
+  const rule = category ? PERMIT_CATEGORY_RULES[category] : null;
+  if (hasKeyword(text, rule?.replacement)) return 'replacement';
+  if (hasKeyword(text, REPAIR_KEYWORDS)) return 'repair';
+  if (hasKeyword(text, REPLACEMENT_KEYWORDS)) return 'replacement';
+  if (hasKeyword(text, rule?.install) || hasKeyword(text, INSTALL_KEYWORDS)) return 'install';
+  if (hasKeyword(text, MODIFICATION_KEYWORDS)) return 'modification';
+  return 'unknown';
+}
+
+// ============== Public API ==============
+
+/**
+ * Classify a permit: primary category, all categories, work type (R3, R4)
+ */
+export function classifyPermit(permit: PermitText): PermitClassification {
+  const text = permitText(permit);
+  const matches = CATEGORY_ORDER
+    .map(category => ({ category, strength: categoryMatch(category, text) }))
+    .filter((m): m is { category: PermitCategory; strength: 'strong' | 'weak' } => m.strength !== null);
+
+  // A strong match outranks a weak one regardless of order
+  const primary = matches.find(m => m.strength === 'strong') ?? matches[0] ?? null;
+  const workType = classifyWork(primary?.category ?? null, text);
+
+  let confidence = 0;
+  if (primary) {
+    confidence = primary.strength === 'strong' ? STRONG_MATCH_CONFIDENCE : WEAK_MATCH_CONFIDENCE;
+    if (workType === 'unknown') confidence *= UNKNOWN_WORK_FACTOR;
+    if (matches.filter(m => m.strength === 'strong').length > 1) confidence *= AMBIGUOUS_CATEGORY_FACTOR;
+  }
+
+  return {
+    systemType: primary?.category ?? null,
+    categories: primary
+      ? [primary.category, ...matches.map(m => m.category).filter(c => c !== primary.category)]
+      : [],
+    workType,
+    confidence: Math.round(confidence * 100) / 100,
+    classifierVersion: PERMIT_CLASSIFIER_VERSION,
+  };
+}
+
+/**
+ * Whether a permit concerns a category, primary or not
+ */
+export function isSystemPermit(category: PermitCategory, permit: PermitText): boolean {
+  return categoryMatch(category, permitText(permit)) !== null;
+}
+
+/**
+ * Work type of a permit as it concerns one category
+ */
+export function classifyPermitWork(category: PermitCategory | null, permit: PermitText): PermitWorkType {
+  return classifyWork(category, permitText(permit));
+}
+
+/**
+ * Energy-related permits (HVAC, solar, envelope, electrical)
+ */
+export function isEnergyRelatedPermit(permit: PermitText): boolean {
+  const text = permitText(permit);
+  return ENERGY_CATEGORIES.some(category => categoryMatch(category, text) !== null) ||
+    hasKeyword(text, ENERGY_KEYWORDS);
+}
@@ -0,0 +1,60 @@
+/**
+ * PermitJurisdictionsLoader - Reads the permit jurisdiction registry for edge functions
+ *
+ * ARCHITECTURE:
+ * - The only I/O half of permitAdapters.ts; kept apart so that module stays
+ *   importable from the frontend
+ *
+ * RULES:
+ * R1: A failed read returns no jurisdictions (see permitAdapters.ts R4)
+ *
+ * @version v1
+ */
+
+import type { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type {
+  JurisdictionLookup,
+  JurisdictionMatch,
+  PermitAdapterKind,
+  PermitJurisdiction,
+} from './permitAdapters.ts';
+
+interface PermitJurisdictionRow {
+  id: string;
+  name: string;
+  adapter: PermitAdapterKind;
+  endpoint: string | null;
+  match: JurisdictionMatch | null;
+  lookup: JurisdictionLookup | null;
+  field_map: PermitJurisdiction['fieldMap'] | null;
+  type_map: Record<string, string> | null;
+}
+
+/**
+ * Active jurisdictions from the registry (R1). Empty on error so the sync
+ * still reaches Shovels.
+ */
+export async function loadPermitJurisdictions(
+  supabase: ReturnType<typeof createClient>
+): Promise<PermitJurisdiction[]> {
+  const { data, error } = await supabase
+    .from('permit_jurisdictions')
+    .select('id, name, adapter, endpoint, match, lookup, field_map, type_map')
+    .eq('is_active', true);
+
+  if (error) {
+    console.warn('[permitAdapters] Failed to load jurisdictions:', error);
+    return [];
+  }
+
+  return ((data || []) as PermitJurisdictionRow[]).map(row => ({
+    id: row.id,
+    name: row.name,
+    adapter: row.adapter,
+    endpoint: row.endpoint,
+    match: row.match || {},
+    lookup: row.lookup || {},
+    fieldMap: row.field_map || {},
+    typeMap: row.type_map || {},
+  }));
+}
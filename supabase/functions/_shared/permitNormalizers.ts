@@ -1,13 +1,17 @@
 /**
  * Permit Normalizers - Source-specific transformations to unified permit model
  * 
- * RULE: All normalization happens here. Downstream code (deriveHVACPermitSignal, scoring)
+ * RULE: All normalization happens here or in the jurisdiction field mappings
+ * (permitAdapters.ts). Downstream code (deriveSystemPermitSignal, scoring)
  * never knows which source the permit came from.
  * 
  * The `source` field is informational only - scoring MUST NOT branch on it.
  */
 
-export type PermitSource = 'shovels' | 'miami_dade' | 'manual';
+/** Registry id of a configured permit jurisdiction, e.g. 'miami_dade' */
+export type JurisdictionId = string;
+
+export type PermitSource = 'shovels' | 'manual' | JurisdictionId;
 
 export interface NormalizedPermit {
   permit_number: string | null;
@@ -24,20 +28,28 @@ export interface NormalizedPermit {
   jurisdiction: string | null;
   source_url: string | null;
   source: PermitSource;
-  parcel_id: string | null;        // FOLIO for Miami-Dade, geo_id for Shovels
+  parcel_id: string | null;        // Jurisdiction parcel (FOLIO for Miami-Dade), geo_id for Shovels
   raw: any;                        // Original record for debugging
 }
 
 /**
- * Parse Miami-Dade YYYYMMDD string format to ISO date
+ * Parse a permit date to ISO YYYY-MM-DD.
+ * Accepts epoch milliseconds (ArcGIS; numbers or digit strings, negative
+ * before 1970), YYYYMMDD, and anything Date parses.
  */
-function parseMiamiDadeDate(dateStr: string | number | null | undefined): string | null {
-  if (!dateStr) return null;
+export function parsePermitDate(dateStr: string | number | null | undefined): string | null {
+  if (dateStr == null || dateStr === '') return null;
+
+  // Handle epoch timestamps (milliseconds), before 1970 included
+  if (typeof dateStr === 'number') {
+    return Number.isFinite(dateStr) ? new Date(dateStr).toISOString().split('T')[0] : null;
+  }
   
-  const str = String(dateStr);
+  const str = dateStr.trim();
   
-  // Handle epoch timestamps (milliseconds)
-  if (/^\d{13}$/.test(str)) {
+  // Epoch milliseconds as text: 9+ digits can't be YYYYMMDD. Before
+  // 2001-09-09 they are 12 digits or fewer, before 1970 negative
+  if (/^-\d{1,13}$|^\d{9,13}$/.test(str)) {
     return new Date(parseInt(str)).toISOString().split('T')[0];
   }
   
@@ -62,65 +74,6 @@ function parseMiamiDadeDate(dateStr: string | number | null | undefined): string
   return null;
 }
 
-/**
- * Normalize Miami-Dade ArcGIS permit to unified model
- * 
- * Miami-Dade fields:
- * - PROCNUM: permit number
- * - TYPE: permit type (MECH, BLDG, ELEC, PLUM, etc.)
- * - DESC1-DESC10: description fields
- * - ISSUDATE: epoch timestamp (ms)
- * - LSTINSDT, BLDCMPDT: finalization dates (YYYYMMDD)
- * - LSTAPPRDT: approval date (YYYYMMDD)
- * - CONTRNAME: contractor name
- * - FOLIO: parcel identifier
- * - PROJVAL: project value
- * - STATUS, STATDESC: permit status
- */
-export function normalizeMiamiDadePermit(raw: any): NormalizedPermit {
-  // Concatenate description fields
-  const descFields = ['DESC1', 'DESC2', 'DESC3', 'DESC4', 'DESC5', 
-                      'DESC6', 'DESC7', 'DESC8', 'DESC9', 'DESC10'];
-  const description = descFields
-    .map(f => raw[f] || raw[f.toLowerCase()])
-    .filter(Boolean)
-    .join(' ')
-    .trim() || null;
-
-  // Map TYPE to readable permit type
-  const typeMap: Record<string, string> = {
-    'MECH': 'Mechanical',
-    'BLDG': 'Building',
-    'ELEC': 'Electrical',
-    'PLUM': 'Plumbing',
-    'ROOF': 'Roofing',
-    'DEMO': 'Demolition',
-    'FIRE': 'Fire',
-  };
-  const rawType = raw.TYPE || raw.type;
-  const permit_type = typeMap[rawType] || rawType || null;
-
-  return {
-    permit_number: raw.PROCNUM || raw.procnum || raw.ID || raw.id || null,
-    permit_type,
-    work_class: raw.WORKCLASS || raw.workclass || null,
-    description,
-    status: raw.STATDESC || raw.statdesc || raw.STATUS || raw.status || null,
-    date_issued: parseMiamiDadeDate(raw.ISSUDATE || raw.issudate),
-    date_finaled: parseMiamiDadeDate(raw.LSTINSDT || raw.lstinsdt || raw.BLDCMPDT || raw.bldcmpdt),
-    approval_date: parseMiamiDadeDate(raw.LSTAPPRDT || raw.lstapprdt),
-    valuation: raw.PROJVAL != null ? Number(raw.PROJVAL) : 
-               raw.projval != null ? Number(raw.projval) : null,
-    contractor_name: raw.CONTRNAME || raw.contrname || null,
-    contractor_license: raw.CONTRLICNO || raw.contrlicno || null,
-    jurisdiction: 'Miami-Dade County',
-    source_url: null, // ArcGIS doesn't provide direct URLs
-    source: 'miami_dade',
-    parcel_id: raw.FOLIO || raw.folio || null,
-    raw,
-  };
-}
-
 /**
  * Normalize Shovels V2 permit to unified model
  */
@@ -1,15 +1,19 @@
 /**
  * PermitSignal - The ONLY semantic interface for permit data
  * 
- * RULE: No keyword matching outside this file.
+ * RULE: No keyword matching here or anywhere else — permit text is
+ * classified once, in permitClassifier.ts.
  * 
  * IMPORTANT: verified === finalized permit exists (not necessarily full install)
  * This distinction matters because mechanical permits can include mods, not just installs.
  * 
- * @version v2 - Extended to support Roof and Water Heater
+ * @version v2 - Extended to support every system in SYSTEM_CONFIGS
  */
 
-export type PermitSystemType = 'hvac' | 'roof' | 'water_heater';
+import type { SystemType } from './systemConfigs.ts';
+import { classifyPermitWork, isSystemPermit as matchesCategory } from './permitClassifier.ts';
+
+export type PermitSystemType = SystemType;
 
 export interface SystemPermitSignal {
   systemType: PermitSystemType;
@@ -32,62 +36,13 @@ export interface SystemPermitSignal {
 // Legacy type alias for backward compatibility
 export type HVACPermitSignal = SystemPermitSignal;
 
-// ============== Keywords defined ONCE - single source of truth ==============
-
-const HVAC_KEYWORDS = [
-  'hvac', 'air condition', 'a/c', 'ac unit', 'heat pump',
-  'condenser', 'air handler', 'furnace', 'cooling', 'heating'
-];
-
-const HVAC_REPLACEMENT_KEYWORDS = [
-  'replace', 'change out', 'changeout', 'change-out', 'upgrade', 'new unit'
-];
-
-const HVAC_INSTALL_KEYWORDS = ['install', 'new system', 'conversion'];
-
-const ROOF_KEYWORDS = [
-  'roof', 're-roof', 'reroof', 'shingle', 'tile roof', 'metal roof',
-  'roofing', 'tear off', 'tear-off'
-];
-
-const ROOF_REPLACEMENT_KEYWORDS = [
-  're-roof', 'reroof', 'tear off', 'tear-off', 'replacement', 'new roof', 'replace'
-];
-
-const WATER_HEATER_KEYWORDS = [
-  'water heater', 'hot water', 'tankless', 'water heat', 'tank water'
-];
-
-const WATER_HEATER_REPLACEMENT_KEYWORDS = [
-  'replace', 'new', 'install', 'conversion', 'upgrade'
-];
-
-// Keyword map by system type
-const SYSTEM_KEYWORDS: Record<PermitSystemType, string[]> = {
-  hvac: HVAC_KEYWORDS,
-  roof: ROOF_KEYWORDS,
-  water_heater: WATER_HEATER_KEYWORDS,
-};
-
-const REPLACEMENT_KEYWORDS: Record<PermitSystemType, string[]> = {
-  hvac: HVAC_REPLACEMENT_KEYWORDS,
-  roof: ROOF_REPLACEMENT_KEYWORDS,
-  water_heater: WATER_HEATER_REPLACEMENT_KEYWORDS,
-};
-
-const INSTALL_KEYWORDS: Record<PermitSystemType, string[]> = {
-  hvac: HVAC_INSTALL_KEYWORDS,
-  roof: ['new roof', 'install'],
-  water_heater: ['install', 'new'],
-};
-
 // ============== Main export ==============
 
 /**
  * THE authoritative permit signal extractor (system-agnostic)
  * All downstream consumers use this - no raw permit inspection elsewhere
  * 
- * @param systemType - 'hvac' | 'roof' | 'water_heater'
+ * @param systemType - Any SYSTEM_CONFIGS key
  * @param permits - Array of permit records from any source (Shovels, database, etc.)
  * @returns SystemPermitSignal with normalized, bounded values
  */
@@ -106,15 +61,9 @@ export function deriveSystemPermitSignal(
 
   if (!permits?.length) return emptySignal;
 
-  const keywords = SYSTEM_KEYWORDS[systemType];
-  const replacementKws = REPLACEMENT_KEYWORDS[systemType];
-  const installKws = INSTALL_KEYWORDS[systemType];
-
   // Find matching permits with dates
   const matchingPermits = permits.filter(p => {
-    const text = `${p.description || ''} ${p.permit_type || ''} ${p.work_class || ''}`.toLowerCase();
-    const isMatch = keywords.some(kw => text.includes(kw)) || 
-      (systemType === 'hvac' && text.includes('mechanical'));
+    const isMatch = matchesCategory(systemType, p);
     const hasDate = p.date_finaled || p.final_date || p.approval_date || p.date_issued || p.issue_date;
     return isMatch && hasDate;
   });
@@ -129,15 +78,15 @@ export function deriveSystemPermitSignal(
   });
 
   const latest = matchingPermits[0];
-  const desc = (latest.description || '').toLowerCase();
   
   const permitDate = latest.date_finaled || latest.final_date || 
                      latest.approval_date || 
                      latest.date_issued || latest.issue_date;
 
-  // Classify: replacement vs new install
-  const isReplacement = replacementKws.some(kw => desc.includes(kw));
-  const isNewInstall = installKws.some(kw => desc.includes(kw)) && !isReplacement;
+  // Classify: replacement vs new install (repairs and modifications stay unclassified)
+  const workType = classifyPermitWork(systemType, latest);
+  const isReplacement = workType === 'replacement';
+  const isNewInstall = workType === 'install';
 
   const installSource: SystemPermitSignal['installSource'] = 
     isReplacement ? 'permit_replacement' 
@@ -177,10 +126,7 @@ export function deriveHVACPermitSignal(permits: any[]): SystemPermitSignal {
  * Check if permit matches a specific system type
  */
 export function isSystemPermit(systemType: PermitSystemType, permit: any): boolean {
-  const text = `${permit.description || ''} ${permit.permit_type || permit.type || ''} ${permit.work_class || ''}`.toLowerCase();
-  const keywords = SYSTEM_KEYWORDS[systemType];
-  return keywords.some(kw => text.includes(kw)) || 
-    (systemType === 'hvac' && text.includes('mechanical'));
+  return matchesCategory(systemType, permit);
 }
 
 /**
@@ -194,7 +140,5 @@ export function isHVACPermit(permit: any): boolean {
  * Check if permit indicates replacement vs new install
  */
 export function isReplacementPermit(systemType: PermitSystemType, permit: any): boolean {
-  const desc = (permit.description || '').toLowerCase();
-  const replacementKws = REPLACEMENT_KEYWORDS[systemType];
-  return replacementKws.some(kw => desc.includes(kw));
+  return classifyPermitWork(systemType, permit) === 'replacement';
 }
@@ -0,0 +1,42 @@
+/**
+ * Permit Upload - Who may import a permit CSV into a home
+ *
+ * ARCHITECTURE:
+ * - shovels-permits runs with the service role, so an uploaded CSV is
+ *   written to the permits table with no RLS in the way; this check is
+ *   the only gate
+ * - Home access is passed in (validateHomeAccess in the edge function),
+ *   keeping this module free of I/O
+ *
+ * RULES:
+ * R1: Uploads need a signed-in user; the internal secret is not enough,
+ *     because the CSV comes from a person, not from the enrichment pipeline
+ * R2: Uploads need a target home and editHome on it
+ *
+ * @version v1
+ */
+
+export interface PermitUploadDenial {
+  status: 400 | 401 | 403;
+  error: string;
+}
+
+/**
+ * Why a CSV upload is refused, or null when it may proceed (R1, R2)
+ */
+export async function checkPermitUploadAccess(
+  userId: string | null | undefined,
+  homeId: string | null | undefined,
+  canEditHome: (homeId: string, userId: string) => Promise<boolean>
+): Promise<PermitUploadDenial | null> {
+  if (!userId) {
+    return { status: 401, error: 'Sign in to upload permits' };
+  }
+  if (!homeId) {
+    return { status: 400, error: 'homeId is required to upload permits' };
+  }
+  if (!await canEditHome(homeId, userId)) {
+    return { status: 403, error: 'Not allowed to edit this home' };
+  }
+  return null;
+}
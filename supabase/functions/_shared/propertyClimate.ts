@@ -0,0 +1,70 @@
+/**
+ * PropertyClimate - Persists resolved climate profiles to property_climate_data
+ *
+ * ARCHITECTURE:
+ * - climateResolver.ts computes; this module stores
+ * - One row per home (home_id unique). Rewritten only when the dataset
+ *   version or resolved location changes, so repeat calls are a single read
+ *
+ * @version v1
+ */
+
+import type { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { ClimateProfile } from './climateResolver.ts';
+
+export interface ClimateHomeRef {
+  id: string;
+  property_id?: string | null;
+  zip_code?: string | null;
+}
+
+/**
+ * Upsert the home's climate row if it is missing or stale.
+ * Never throws — climate persistence must not fail the caller.
+ */
+export async function syncPropertyClimate(
+  supabase: ReturnType<typeof createClient>,
+  home: ClimateHomeRef,
+  profile: ClimateProfile
+): Promise<void> {
+  try {
+    const { data: existing } = await supabase
+      .from('property_climate_data')
+      .select('dataset_version, data_source, county_fips, zip_code')
+      .eq('home_id', home.id)
+      .maybeSingle();
+
+    const isCurrent = existing &&
+      existing.dataset_version === profile.datasetVersion &&
+      existing.data_source === profile.sourceId &&
+      existing.county_fips === profile.countyFips &&
+      existing.zip_code === (home.zip_code ?? null);
+    if (isCurrent) return;
+
+    const { error } = await supabase
+      .from('property_climate_data')
+      .upsert({
+        home_id: home.id,
+        property_id: home.property_id ?? null,
+        zip_code: home.zip_code ?? null,
+        county_fips: profile.countyFips,
+        climate_zone: profile.zone,
+        iecc_zone: profile.ieccZone,
+        cooling_degree_days: profile.cdd65,
+        heating_degree_days: profile.hdd65,
+        average_humidity: profile.humidityPct,
+        coast_distance_km: profile.coastDistanceKm,
+        salt_air_exposure: profile.zone === 'coastal',
+        resolution: profile.resolution,
+        data_source: profile.sourceId,
+        dataset_version: profile.datasetVersion,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'home_id' });
+
+    if (error) {
+      console.warn('[propertyClimate] Failed to store climate profile:', error.message);
+    }
+  } catch (err) {
+    console.warn('[propertyClimate] Climate sync failed:', err);
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * Regional Cost - Regionalized replacement cost bands
+ *
+ * ARCHITECTURE:
+ * - calibrate-cost-model WRITES versioned rows to cost_models
+ *   (model_name = 'regional_replacement_cost'); capital-timeline READS the
+ *   active row through loadActiveRegionalCostModel
+ * - regionalizeCost is pure: national band in, adjusted band + provenance out
+ * - Adjustments, in order:
+ *   1. Labor: the ZIP3 metro index, applied to the system's labor share only
+ *   2. Size: HVAC tonnage, roof area, whole-home square feet for plumbing,
+ *      tank gallons for water heaters; a measured roof (roofGeometry.ts) also
+ *      prices pitch and plane count, and nameplate tonnage / tank size come
+ *      from the decoded model number (modelDecoding.ts) when known
+ *   3. Actuals: owner-reported replacement costs (home_events.cost_actual),
+ *      already shrunk toward 1.0 by sample size when calibrated
+ * - Material is already in the band (ROOF_COSTS / WATER_HEATER_COSTS are
+ *   per material); it is only carried into provenance here
+ *
+ * RULES:
+ * R1: A missing or malformed model is never an error — national bands stand
+ * R2: ZIP3s not in the model use the national index (1.00)
+ * R3: Size ratios are clamped; a bad square footage can't triple a quote
+ * R4: Metro actuals cells win over the 'all' cell for the same system
+ * R5: The typical band is re-derived from the adjusted band at the same
+ *     cost confidence
+ *
+ * @version v3
+ */
+
+import type { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { SystemType } from './systemConfigs.ts';
+import { deriveTypicalBand, type ConfidenceLevel } from './systemInference.ts';
+import {
+  roofAreaCostFactor,
+  roofComplexityCostFactor,
+  type RoofComplexity,
+  type RoofGeometry,
+  type RoofPitchClass,
+} from './roofGeometry.ts';
+
+// ============== Types ==============
+
+export const REGIONAL_COST_MODEL_NAME = 'regional_replacement_cost';
+
+export interface LaborIndexEntry {
+  metro: string;
+  /** Construction labor cost relative to national (1.00) */
+  index: number;
+}
+
+export interface ActualsAdjustment {
+  /** Multiplier on the regionalized midpoint, shrunk toward 1.0 */
+  factor: number;
+  /** Replacements with a reported cost behind the factor */
+  count: number;
+}
+
+/** Keyed by metro name, or 'all' for the system-wide cell */
+export type ActualsAdjustments = Partial<Record<SystemType, Record<string, ActualsAdjustment>>>;
+
+export interface RegionalCostModel {
+  id: string;
+  version: string;
+  laborIndices: Record<string, LaborIndexEntry>;
+  actualAdjustments: ActualsAdjustments;
+}
+
+export interface CostContext {
+  zipCode?: string | null;
+  grossSqft?: number;
+  groundFloorSqft?: number;
+  /** Nameplate capacity, when known */
+  hvacTonnage?: number;
+  waterHeaterGallons?: number;
+  /** Measured roof (Google Solar), when known */
+  roofGeometry?: RoofGeometry;
+  material?: string | null;
+}
+
+export type SizeBasis = 'tonnage' | 'roof_area' | 'square_feet' | 'tank_gallons';
+
+export interface CostProvenance {
+  modelVersion: string | null;
+  zip3: string | null;
+  metro: string | null;
+  laborIndex: number;
+  laborFactor: number;
+  size: {
+    basis: SizeBasis;
+    value: number;
+    measured: boolean;
+    factor: number;
+  } | null;
+  /** Pitch and plane-count premium; measured roofs only */
+  roofComplexity: {
+    pitchClass: RoofPitchClass;
+    complexity: RoofComplexity;
+    segmentCount: number;
+    factor: number;
+  } | null;
+  material: string | null;
+  actuals: {
+    factor: number;
+    count: number;
+    scope: 'metro' | 'national';
+  } | null;
+}
+
+export interface RegionalCostEstimate {
+  low: number;
+  high: number;
+  typicalLow: number;
+  typicalHigh: number;
+  provenance: CostProvenance;
+}
+
+// ============== Constants ==============
+
+/**
+ * Share of a replacement quote that is labor (the rest is equipment and
+ * materials, priced nationally)
+ */
+const LABOR_SHARE: Record<SystemType, number> = {
+  hvac: 0.45,
+  roof: 0.55,
+  water_heater: 0.40,
+  electrical_panel: 0.55,
+  plumbing: 0.65,
+  pool: 0.35,
+  solar: 0.30,
+  mini_split: 0.45,
+};
+
+/**
+ * Cost multiplier against the size each national band assumes. Elasticity
+ * below 1.0 reflects fixed costs (permits, mobilization, line sets).
+ */
+const SIZE_FACTORS: Partial<Record<SystemType, { basis: SizeBasis; factor: (value: number) => number }>> = {
+  hvac: { basis: 'tonnage', factor: (tons) => scaledRatio(tons / 3, 0.6) },
+  roof: { basis: 'roof_area', factor: roofAreaCostFactor },
+  plumbing: { basis: 'square_feet', factor: (sqft) => scaledRatio(sqft / 2000, 0.7) },
+  water_heater: { basis: 'tank_gallons', factor: (gallons) => scaledRatio(gallons / 50, 0.5) },
+};
+
+/** Rule of thumb for sizing a central system when the nameplate is unknown */
+const SQFT_PER_TON = 550;
+
+/** Pitch and overhang allowance over the ground floor footprint */
+const ROOF_AREA_PER_FOOTPRINT = 1.15;
+
+const SIZE_RATIO_MIN = 0.5;
+const SIZE_RATIO_MAX = 2.5;
+
+function scaledRatio(ratio: number, elasticity: number): number {
+  return Math.pow(Math.min(SIZE_RATIO_MAX, Math.max(SIZE_RATIO_MIN, ratio)), elasticity);
+}
+
+const ROUND_TO = 50;
+
+// ============== Loader ==============
+
+export async function loadActiveRegionalCostModel(
+  supabase: ReturnType<typeof createClient>
+): Promise<RegionalCostModel | null> {
+  try {
+    const { data, error } = await supabase
+      .from('cost_models')
+      .select('id, version, labor_indices, actual_adjustments')
+      .eq('model_name', REGIONAL_COST_MODEL_NAME)
+      .eq('is_active', true)
+      .order('fitted_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    // R1
+    if (error || !data?.labor_indices) return null;
+    return {
+      id: data.id,
+      version: data.version ?? 'unversioned',
+      laborIndices: data.labor_indices as Record<string, LaborIndexEntry>,
+      actualAdjustments: (data.actual_adjustments ?? {}) as ActualsAdjustments,
+    };
+  } catch (err) {
+    console.warn('[regionalCost] Failed to load active cost model:', err);
+    return null;
+  }
+}
+
+// ============== Resolution ==============
+
+export function zip3(zipCode: string | null | undefined): string | null {
+  const digits = (zipCode ?? '').replace(/\D/g, '');
+  return digits.length >= 3 ? digits.slice(0, 3) : null;
+}
+
+/**
+ * Metro labor index for a ZIP code (R2)
+ */
+export function resolveLaborIndex(
+  model: RegionalCostModel | null,
+  zipCode: string | null | undefined
+): { zip3: string | null; metro: string | null; index: number } {
+  const prefix = zip3(zipCode);
+  const entry = prefix ? model?.laborIndices[prefix] : undefined;
+  if (!entry || !Number.isFinite(entry.index) || entry.index <= 0) {
+    return { zip3: prefix, metro: null, index: 1 };
+  }
+  return { zip3: prefix, metro: entry.metro, index: entry.index };
+}
+
+/**
+ * The home's size on the axis a system's cost follows, measured or estimated
+ */
+function resolveSize(
+  systemType: SystemType,
+  context: CostContext
+): { basis: SizeBasis; value: number; measured: boolean } | null {
+  const spec = SIZE_FACTORS[systemType];
+  if (!spec) return null;
+
+  switch (spec.basis) {
+    case 'tonnage':
+      if (context.hvacTonnage && context.hvacTonnage > 0) {
+        return { basis: 'tonnage', value: context.hvacTonnage, measured: true };
+      }
+      if (context.grossSqft && context.grossSqft > 0) {
+        // Nearest half ton, like equipment is sold
+        const tons = Math.round((context.grossSqft / SQFT_PER_TON) * 2) / 2;
+        return { basis: 'tonnage', value: Math.max(1.5, Math.min(5, tons)), measured: false };
+      }
+      return null;
+    case 'roof_area':
+      if (context.roofGeometry) {
+        return { basis: 'roof_area', value: context.roofGeometry.areaSqft, measured: true };
+      }
+      if (context.groundFloorSqft && context.groundFloorSqft > 0) {
+        return {
+          basis: 'roof_area',
+          value: Math.round(context.groundFloorSqft * ROOF_AREA_PER_FOOTPRINT),
+          measured: false,
+        };
+      }
+      return null;
+    case 'square_feet':
+      // Whole-home size stands in for pipe runs, so it is never a measurement
+      if (context.grossSqft && context.grossSqft > 0) {
+        return { basis: 'square_feet', value: Math.round(context.grossSqft), measured: false };
+      }
+      return null;
+    case 'tank_gallons':
+      // No footprint rule of thumb; the national band already assumes ~50 gallons
+      if (context.waterHeaterGallons && context.waterHeaterGallons > 0) {
+        return { basis: 'tank_gallons', value: context.waterHeaterGallons, measured: true };
+      }
+      return null;
+  }
+}
+
+/**
+ * Actuals cell for a system, preferring the metro (R4)
+ */
+export function resolveActualsAdjustment(
+  model: RegionalCostModel | null,
+  systemType: SystemType,
+  metro: string | null
+): CostProvenance['actuals'] {
+  const bySystem = model?.actualAdjustments[systemType];
+  if (!bySystem) return null;
+
+  const metroCell = metro ? bySystem[metro] : undefined;
+  if (metroCell && Number.isFinite(metroCell.factor) && metroCell.factor > 0) {
+    return { factor: metroCell.factor, count: metroCell.count, scope: 'metro' };
+  }
+  const allCell = bySystem.all;
+  if (allCell && Number.isFinite(allCell.factor) && allCell.factor > 0) {
+    return { factor: allCell.factor, count: allCell.count, scope: 'national' };
+  }
+  return null;
+}
+
+// ============== Regionalization ==============
+
+function roundCost(value: number): number {
+  return Math.round(value / ROUND_TO) * ROUND_TO;
+}
+
+/**
+ * Adjust a national replacement band for where and what the home is
+ */
+export function regionalizeCost(
+  systemType: SystemType,
+  band: { low: number; high: number },
+  confidence: ConfidenceLevel,
+  model: RegionalCostModel | null,
+  context: CostContext
+): RegionalCostEstimate {
+  // 1. Labor
+  const labor = resolveLaborIndex(model, context.zipCode);
+  const laborShare = LABOR_SHARE[systemType] ?? 0.5;
+  const laborFactor = 1 + laborShare * (labor.index - 1);
+
+  // 2. Size (R3), plus pitch and planes for a measured roof
+  let size: CostProvenance['size'] = null;
+  const spec = SIZE_FACTORS[systemType];
+  const resolvedSize = resolveSize(systemType, context);
+  if (spec && resolvedSize) {
+    size = { ...resolvedSize, factor: spec.factor(resolvedSize.value) };
+  }
+
+  let roofComplexity: CostProvenance['roofComplexity'] = null;
+  if (systemType === 'roof' && context.roofGeometry) {
+    const { pitchClass, complexity, segmentCount } = context.roofGeometry;
+    roofComplexity = { pitchClass, complexity, segmentCount, factor: roofComplexityCostFactor(context.roofGeometry) };
+  }
+
+  // 3. Actuals
+  const actuals = resolveActualsAdjustment(model, systemType, labor.metro);
+
+  const factor = laborFactor * (size?.factor ?? 1) * (roofComplexity?.factor ?? 1) * (actuals?.factor ?? 1);
+  const low = roundCost(band.low * factor);
+  const high = Math.max(low, roundCost(band.high * factor));
+
+  // R5
+  const { typicalLow, typicalHigh } = deriveTypicalBand(low, high, confidence);
+
+  return {
+    low,
+    high,
+    typicalLow,
+    typicalHigh,
+    provenance: {
+      modelVersion: model?.version ?? null,
+      zip3: labor.zip3,
+      metro: labor.metro,
+      laborIndex: labor.index,
+      laborFactor: Math.round(laborFactor * 1000) / 1000,
+      size: size ? { ...size, factor: Math.round(size.factor * 1000) / 1000 } : null,
+      roofComplexity: roofComplexity
+        ? { ...roofComplexity, factor: Math.round(roofComplexity.factor * 1000) / 1000 }
+        : null,
+      material: context.material && context.material !== 'unknown' ? context.material : null,
+      actuals,
+    },
+  };
+}
+
+// ============== Copy ==============
+
+function formatSize(size: NonNullable<CostProvenance['size']>): string {
+  const value = size.value.toLocaleString('en-US');
+  switch (size.basis) {
+    case 'tonnage':
+      return size.measured ? `a ${size.value}-ton system` : `an estimated ${size.value}-ton system`;
+    case 'roof_area':
+      return size.measured
+        ? `${Math.round(size.value / 10) / 10} squares of measured roof`
+        : `about ${value} sq ft of roof`;
+    case 'square_feet':
+      return `a ${value} sq ft home`;
+    case 'tank_gallons':
+      return `a ${value}-gallon tank`;
+  }
+}
+
+/**
+ * formatCostProvenance - One sentence on what the band was priced for
+ *
+ * Returns null when nothing regional applied (no metro, size, roof
+ * complexity or actuals),
+ * so the caller keeps its climate copy alone.
+ */
+export function formatCostProvenance(provenance: CostProvenance): string | null {
+  const parts: string[] = [];
+
+  if (provenance.metro) {
+    const pct = Math.round((provenance.laborIndex - 1) * 100);
+    const relative = pct === 0 ? 'at the national average'
+      : pct > 0 ? `${pct}% above national` : `${-pct}% below national`;
+    parts.push(`${provenance.metro} labor rates (${relative})`);
+  }
+  if (provenance.size) {
+    parts.push(formatSize(provenance.size));
+  }
+  if (provenance.roofComplexity && provenance.roofComplexity.factor > 1) {
+    const { pitchClass, segmentCount } = provenance.roofComplexity;
+    const pitch = pitchClass === 'steep' ? 'a steep pitch' : pitchClass === 'low_slope' ? 'a low slope' : 'a standard pitch';
+    parts.push(`${pitch} across ${segmentCount} roof planes`);
+  }
+  if (provenance.actuals && provenance.actuals.count > 0) {
+    const count = provenance.actuals.count;
+    const noun = count === 1 ? 'replacement cost' : 'replacement costs';
+    parts.push(provenance.actuals.scope === 'metro' && provenance.metro
+      ? `${count} reported ${provenance.metro} ${noun}`
+      : `${count} reported ${noun} nationally`);
+  }
+
+  if (parts.length === 0) return null;
+  const list = parts.length === 1 ? parts[0]
+    : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+  return `Priced for ${list}.`;
+}
@@ -0,0 +1,80 @@
+/**
+ * Replacement Sampling - Random draws for capital simulations
+ *
+ * ARCHITECTURE:
+ * - Seeded RNG so a simulation is reproducible (same inputs, same bands)
+ * - Replacement year drawn from the p10/p50/p90 replacement window
+ * - Cost drawn uniformly from the capital cost band
+ *
+ * RULES:
+ * R1: Same seed → same sequence; never Math.random in a simulation
+ * R2: The window's p10/p50/p90 are honoured exactly; tails extend a quarter
+ *     of the neighbouring span beyond early and late years
+ *
+ * @version v1
+ */
+
+export type Rng = () => number;
+
+export const DEFAULT_SIMULATION_SEED = 0x9e3779b9;
+
+/**
+ * Mulberry32 - small, fast, good enough for planning simulations
+ */
+export function createRng(seed: number = DEFAULT_SIMULATION_SEED): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export interface SamplingWindow {
+  earlyYear: number;
+  likelyYear: number;
+  lateYear: number;
+}
+
+/**
+ * Year at cumulative probability `p` of a piecewise-linear distribution
+ * through (early, 0.1), (likely, 0.5), (late, 0.9) (R2). Fractional.
+ */
+export function windowQuantile(window: SamplingWindow, p: number): number {
+  const { earlyYear, likelyYear, lateYear } = window;
+  const lowerSpan = Math.max(0.5, likelyYear - earlyYear);
+  const upperSpan = Math.max(0.5, lateYear - likelyYear);
+  const floor = earlyYear - lowerSpan / 4;
+  const ceiling = lateYear + upperSpan / 4;
+
+  const q = Math.max(0, Math.min(1, p));
+  if (q < 0.1) return floor + (q / 0.1) * (earlyYear - floor);
+  if (q < 0.5) return earlyYear + ((q - 0.1) / 0.4) * (likelyYear - earlyYear);
+  if (q < 0.9) return likelyYear + ((q - 0.5) / 0.4) * (lateYear - likelyYear);
+  return lateYear + ((q - 0.9) / 0.1) * (ceiling - lateYear);
+}
+
+/**
+ * Draw a whole replacement year from the window
+ */
+export function sampleWindowYear(window: SamplingWindow, rng: Rng): number {
+  return Math.floor(windowQuantile(window, rng()));
+}
+
+/**
+ * Draw a cost from the band [low, high]
+ */
+export function sampleCost(low: number, high: number, rng: Rng): number {
+  return low + (Math.max(low, high) - low) * rng();
+}
+
+/**
+ * Value at percentile `p` (0–100) of an ascending-sorted sample
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index];
+}
@@ -0,0 +1,207 @@
+/**
+ * Roof Geometry - Measured roof area, pitch and planes from Google Solar
+ *
+ * ARCHITECTURE:
+ * - google-solar-analysis caches buildingInsights per address in
+ *   solar_analysis; loadRoofGeometry (roofGeometryLoader.ts) reads the
+ *   newest row for an address
+ * - summarizeRoofGeometry is pure: roof segments in, squares / pitch class /
+ *   complexity out
+ * - Consumers: regionalCost (roof size + complexity factors),
+ *   systemInference (roof lifespan adjustments), capital-timeline (the
+ *   segment breakdown on the roof entry)
+ *
+ * RULES:
+ * R1: No cached analysis, or segments without area, means no geometry —
+ *     callers fall back to footprint estimates
+ * R2: Pitch class is area-weighted, so a small steep dormer doesn't make
+ *     the whole roof "steep"
+ * R3: Lifespan adjustments are small (±1–3 years); climate and material
+ *     stay the main drivers
+ *
+ * @version v1
+ */
+
+// ============== Types ==============
+
+export type RoofPitchClass = 'low_slope' | 'conventional' | 'steep';
+export type RoofComplexity = 'simple' | 'moderate' | 'complex';
+
+export interface RoofSegmentInput {
+  pitchDegrees: number;
+  azimuthDegrees: number;
+  areaMeters2: number;
+}
+
+export interface RoofSegment {
+  pitchDegrees: number;
+  /** Rise per 12" of run, as roofers quote pitch */
+  pitchRise: number;
+  azimuthDegrees: number;
+  facing: string;
+  areaSqft: number;
+}
+
+export interface RoofGeometry {
+  source: 'google_solar';
+  /** Imagery date when known, otherwise when the analysis was cached */
+  measuredAt: string | null;
+  areaSqft: number;
+  /** Roofing squares (100 sq ft) */
+  squares: number;
+  segmentCount: number;
+  /** Area-weighted pitch (R2) */
+  pitchRise: number;
+  pitchClass: RoofPitchClass;
+  complexity: RoofComplexity;
+  segments: RoofSegment[];
+}
+
+export interface RoofLifespanAdjustment {
+  factor: string;
+  years: number;
+  description: string;
+}
+
+// ============== Constants ==============
+
+const SQFT_PER_M2 = 10.7639;
+
+/** Below 3/12 shingles and tile need low-slope detailing; 8/12+ isn't walkable */
+const LOW_SLOPE_MAX_RISE = 3;
+const STEEP_MIN_RISE = 8;
+
+/** Planes: gable = 2, hip = 4; more means valleys, dormers, flashing */
+const SIMPLE_MAX_SEGMENTS = 4;
+const MODERATE_MAX_SEGMENTS = 9;
+
+/** Roof area the national cost bands assume (~20 squares) */
+export const ROOF_BASELINE_AREA_SQFT = 2000;
+const ROOF_AREA_ELASTICITY = 0.9;
+const ROOF_AREA_RATIO_MIN = 0.5;
+const ROOF_AREA_RATIO_MAX = 2.5;
+
+const PITCH_COST_FACTORS: Record<RoofPitchClass, number> = {
+  low_slope: 1.05,   // Membrane or low-slope underlayment
+  conventional: 1.0,
+  steep: 1.2,        // Staging, harnesses, slower tear-off
+};
+
+const COMPLEXITY_COST_FACTORS: Record<RoofComplexity, number> = {
+  simple: 1.0,
+  moderate: 1.07,
+  complex: 1.15,
+};
+
+const COMPASS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+// ============== Summary ==============
+
+export function pitchRiseFromDegrees(degrees: number): number {
+  return Math.round(12 * Math.tan((degrees * Math.PI) / 180) * 10) / 10;
+}
+
+function facingFromAzimuth(azimuth: number): string {
+  const normalized = ((azimuth % 360) + 360) % 360;
+  return COMPASS[Math.round(normalized / 45) % 8];
+}
+
+function classifyPitch(rise: number): RoofPitchClass {
+  if (rise < LOW_SLOPE_MAX_RISE) return 'low_slope';
+  if (rise >= STEEP_MIN_RISE) return 'steep';
+  return 'conventional';
+}
+
+function classifyComplexity(segmentCount: number): RoofComplexity {
+  if (segmentCount <= SIMPLE_MAX_SEGMENTS) return 'simple';
+  if (segmentCount <= MODERATE_MAX_SEGMENTS) return 'moderate';
+  return 'complex';
+}
+
+/**
+ * Summarize measured roof segments (R1, R2)
+ */
+export function summarizeRoofGeometry(
+  inputs: RoofSegmentInput[],
+  measuredAt: string | null = null
+): RoofGeometry | null {
+  const segments: RoofSegment[] = inputs
+    .filter(s => Number.isFinite(s.areaMeters2) && s.areaMeters2 > 0)
+    .map(s => ({
+      pitchDegrees: Math.round(s.pitchDegrees * 10) / 10,
+      pitchRise: pitchRiseFromDegrees(s.pitchDegrees),
+      azimuthDegrees: Math.round(s.azimuthDegrees),
+      facing: facingFromAzimuth(s.azimuthDegrees),
+      areaSqft: Math.round(s.areaMeters2 * SQFT_PER_M2),
+    }))
+    .sort((a, b) => b.areaSqft - a.areaSqft);
+
+  if (segments.length === 0) return null;
+
+  const areaSqft = segments.reduce((sum, s) => sum + s.areaSqft, 0);
+  const weightedDegrees = segments.reduce((sum, s) => sum + s.pitchDegrees * s.areaSqft, 0) / areaSqft;
+  const pitchRise = pitchRiseFromDegrees(weightedDegrees);
+
+  return {
+    source: 'google_solar',
+    measuredAt,
+    areaSqft,
+    squares: Math.round(areaSqft / 10) / 10,
+    segmentCount: segments.length,
+    pitchRise,
+    pitchClass: classifyPitch(pitchRise),
+    complexity: classifyComplexity(segments.length),
+    segments,
+  };
+}
+
+// ============== Cost & Lifespan ==============
+
+/**
+ * Cost multiplier for roof area against the national band's baseline
+ */
+export function roofAreaCostFactor(areaSqft: number): number {
+  const ratio = Math.min(ROOF_AREA_RATIO_MAX, Math.max(ROOF_AREA_RATIO_MIN, areaSqft / ROOF_BASELINE_AREA_SQFT));
+  return Math.pow(ratio, ROOF_AREA_ELASTICITY);
+}
+
+/**
+ * Cost multiplier for pitch and plane count (area handled separately)
+ */
+export function roofComplexityCostFactor(geometry: RoofGeometry): number {
+  return PITCH_COST_FACTORS[geometry.pitchClass] * COMPLEXITY_COST_FACTORS[geometry.complexity];
+}
+
+/**
+ * Lifespan adjustments from geometry (R3)
+ */
+export function roofLifespanAdjustments(
+  geometry: RoofGeometry,
+  material: string
+): RoofLifespanAdjustment[] {
+  const adjustments: RoofLifespanAdjustment[] = [];
+
+  if (geometry.pitchClass === 'low_slope' && material !== 'metal') {
+    adjustments.push({
+      factor: 'Low-slope roof',
+      years: -3,
+      description: `At ${geometry.pitchRise}/12, water drains slowly and ${material === 'unknown' ? 'shingles and tile' : material} wear faster`,
+    });
+  } else if (geometry.pitchClass === 'steep') {
+    adjustments.push({
+      factor: 'Steep pitch',
+      years: 1,
+      description: `At ${geometry.pitchRise}/12, the roof sheds water and debris quickly`,
+    });
+  }
+
+  if (geometry.complexity === 'complex') {
+    adjustments.push({
+      factor: 'Complex roofline',
+      years: -1,
+      description: `${geometry.segmentCount} roof planes mean more valleys and flashing, where leaks usually start`,
+    });
+  }
+
+  return adjustments;
+}
@@ -0,0 +1,61 @@
+/**
+ * RoofGeometryLoader - Reads cached Google Solar analysis for edge functions
+ *
+ * ARCHITECTURE:
+ * - The only I/O half of roofGeometry.ts; kept apart so that module stays
+ *   importable from the frontend
+ *
+ * RULES:
+ * R1: No cached analysis, or an unreadable one, returns null (see
+ *     roofGeometry.ts R1)
+ *
+ * @version v1
+ */
+
+import type { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { summarizeRoofGeometry, type RoofGeometry } from './roofGeometry.ts';
+
+interface CachedSolarAnalysis {
+  processed_data: {
+    roofSegments?: Array<{ pitch: number; azimuth: number; area: number }>;
+    imagery?: { imageryDate?: { year: number; month: number; day: number } };
+    lastUpdated?: string;
+  } | null;
+}
+
+/**
+ * Newest cached Google Solar analysis for an address, summarized (R1)
+ */
+export async function loadRoofGeometry(
+  supabase: ReturnType<typeof createClient>,
+  addressId: string | null | undefined
+): Promise<RoofGeometry | null> {
+  if (!addressId) return null;
+
+  try {
+    const { data, error } = await supabase
+      .from('solar_analysis')
+      .select('processed_data')
+      .eq('address_id', addressId)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error || !data) return null;
+    const processed = (data as CachedSolarAnalysis).processed_data;
+    if (!processed?.roofSegments?.length) return null;
+
+    const date = processed.imagery?.imageryDate;
+    const measuredAt = date
+      ? `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`
+      : processed.lastUpdated ?? null;
+
+    return summarizeRoofGeometry(
+      processed.roofSegments.map(s => ({ pitchDegrees: s.pitch, azimuthDegrees: s.azimuth, areaMeters2: s.area })),
+      measuredAt
+    );
+  } catch (err) {
+    console.warn('[roofGeometry] Failed to load solar analysis:', err);
+    return null;
+  }
+}
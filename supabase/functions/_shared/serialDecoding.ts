@@ -0,0 +1,263 @@
+/**
+ * Serial Decoding - Manufacture month/year from HVAC and water heater serials
+ *
+ * ARCHITECTURE:
+ * - Pure and runtime-agnostic: used by analyze-device-photo and
+ *   documentExtraction server-side, and imported by the browser for types
+ * - One table of serial formats per manufacturer family; brands that share
+ *   a factory or parent (Bryant/Payne → Carrier, Amana → Goodman, ...) share
+ *   a family
+ * - The result carries its own confidence, separate from OCR confidence;
+ *   applySystemUpdate feeds confident decodes to resolveFieldUpdates as
+ *   'serial_decode' evidence
+ *
+ * RULES:
+ * R1: Never guess. A serial that matches no known format for its brand
+ *     decodes to null — no generic "find a year anywhere" fallback
+ * R2: Decoded dates in the future or before MIN_YEAR are rejected
+ * R3: Formats that drop the decade (Trane 2002–2009, Bradford White's
+ *     20-year letter cycle) resolve to the most recent matching year and
+ *     carry lower confidence
+ * R4: York / Coleman / Luxaire decode the Johnson Controls format used since
+ *     2004; older plant-specific codes are not decoded
+ *
+ * @version v2 - York / Coleman / Luxaire date codes
+ */
+
+// ============== Types ==============
+
+export type SerialFamily =
+  | 'carrier'
+  | 'trane'
+  | 'lennox'
+  | 'goodman'
+  | 'rheem'
+  | 'york'
+  | 'ao_smith'
+  | 'bradford_white';
+
+export interface SerialDate {
+  year: number;
+  /** 1-12, null when the format only encodes the year */
+  month: number | null;
+  family: SerialFamily;
+  /** Encoding that matched, e.g. 'WWYY' for Carrier's week + year */
+  format: string;
+  /** Certainty the date is right given the serial was read correctly (0-1) */
+  confidence: number;
+  decoderVersion: string;
+}
+
+interface SerialFormat {
+  format: string;
+  pattern: RegExp;
+  confidence: number;
+  decode: (match: RegExpMatchArray, asOf: Date) => { year: number; month: number | null } | null;
+}
+
+// ============== Constants ==============
+
+export const SERIAL_DECODER_VERSION = 'serial_date_v2';
+
+/** Oldest plausible unit still in service */
+const MIN_YEAR = 1970;
+
+/** Brand → manufacturer family, matched against the lowercased, alphanumeric-only brand */
+const BRAND_FAMILIES: Array<[RegExp, SerialFamily]> = [
+  [/carrier|bryant|payne/, 'carrier'],
+  [/trane|americanstandard/, 'trane'],
+  [/lennox|armstrong|ducane/, 'lennox'],
+  [/goodman|amana|janitrol/, 'goodman'],
+  [/rheem|ruud|richmond/, 'rheem'],
+  [/york|coleman|luxaire/, 'york'],
+  [/aosmith|^state(water|industries|select|proline)/, 'ao_smith'],
+  [/bradfordwhite/, 'bradford_white'],
+];
+
+/** Month letters used by Lennox, York and Bradford White: A-M, skipping I */
+const MONTH_LETTERS = 'ABCDEFGHJKLM';
+
+/** Bradford White year letters: a 20-year cycle with A = 1984, 2004, 2024 */
+const BRADFORD_WHITE_YEAR_LETTERS = 'ABCDEFGHJKLMNPSTWXYZ';
+const BRADFORD_WHITE_CYCLE_START = 2004;
+
+// ============== Helpers ==============
+
+function normalizeSerial(serial: string): string {
+  return serial.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function twoDigitYear(yy: string, asOf: Date): number {
+  const year = 2000 + parseInt(yy, 10);
+  return year > asOf.getUTCFullYear() ? year - 100 : year;
+}
+
+/** Month containing the middle of a 1-based production week */
+function monthFromWeek(year: number, week: number): number {
+  return new Date(Date.UTC(year, 0, 1 + (week - 1) * 7 + 3)).getUTCMonth() + 1;
+}
+
+/** Most recent cycle year for a Bradford White year letter (R3) */
+function bradfordWhiteYear(letter: string, asOf: Date): number | null {
+  const offset = BRADFORD_WHITE_YEAR_LETTERS.indexOf(letter);
+  if (offset < 0) return null;
+  const cycleLength = BRADFORD_WHITE_YEAR_LETTERS.length;
+  let year = BRADFORD_WHITE_CYCLE_START + offset;
+  while (year + cycleLength <= asOf.getUTCFullYear()) year += cycleLength;
+  while (year > asOf.getUTCFullYear()) year -= cycleLength;
+  return year;
+}
+
+function isPlausible(year: number, month: number | null, asOf: Date): boolean {
+  if (year < MIN_YEAR || year > asOf.getUTCFullYear()) return false;
+  if (month !== null && year === asOf.getUTCFullYear() && month > asOf.getUTCMonth() + 1) return false;
+  return true;
+}
+
+// ============== Formats ==============
+
+const WEEK = '(0[1-9]|[1-4]\\d|5[0-3])';
+const MONTH = '(0[1-9]|1[0-2])';
+
+const SERIAL_FORMATS: Record<SerialFamily, SerialFormat[]> = {
+  // 1989+: 2403E12345 — week 24 of 2003, plant E
+  carrier: [{
+    format: 'WWYY',
+    pattern: new RegExp(`^${WEEK}(\\d{2})[A-Z]\\d{5}$`),
+    confidence: 0.9,
+    decode: (m, asOf) => {
+      const year = twoDigitYear(m[2], asOf);
+      return { year, month: monthFromWeek(year, parseInt(m[1], 10)) };
+    },
+  }],
+
+  trane: [
+    // 2010+: 1325xxxxxL — week 25 of 2013
+    {
+      format: 'YYWW',
+      pattern: new RegExp(`^(\\d{2})${WEEK}\\d{5}[A-Z]$`),
+      confidence: 0.9,
+      decode: (m, asOf) => {
+        const year = twoDigitYear(m[1], asOf);
+        return { year, month: monthFromWeek(year, parseInt(m[2], 10)) };
+      },
+    },
+    // 2002-2009: 508xxxxxxL — week 08 of 2005 (R3)
+    {
+      format: 'YWW',
+      pattern: new RegExp(`^([2-9])${WEEK}\\d{5,6}[A-Z]$`),
+      confidence: 0.7,
+      decode: (m) => {
+        const year = 2000 + parseInt(m[1], 10);
+        return { year, month: monthFromWeek(year, parseInt(m[2], 10)) };
+      },
+    },
+  ],
+
+  // 5809K12345 — plant 58, 2009, October
+  lennox: [{
+    format: 'PPYYM',
+    pattern: /^\d{2}(\d{2})([A-HJ-M])\d{5}$/,
+    confidence: 0.85,
+    decode: (m, asOf) => ({
+      year: twoDigitYear(m[1], asOf),
+      month: MONTH_LETTERS.indexOf(m[2]) + 1,
+    }),
+  }],
+
+  // 1304123456 — April 2013
+  goodman: [{
+    format: 'YYMM',
+    pattern: new RegExp(`^(\\d{2})${MONTH}\\d{6}$`),
+    confidence: 0.9,
+    decode: (m, asOf) => ({ year: twoDigitYear(m[1], asOf), month: parseInt(m[2], 10) }),
+  }],
+
+  // HVAC W051012345 / water heater Q0510123456 — May 2010, after a plant prefix
+  rheem: [{
+    format: 'MMYY',
+    pattern: new RegExp(`^[A-Z]{1,4}${MONTH}(\\d{2})\\d{4,}$`),
+    confidence: 0.8,
+    decode: (m, asOf) => ({ year: twoDigitYear(m[2], asOf), month: parseInt(m[1], 10) }),
+  }],
+
+  // 2004+: W1D9123456 — plant W, year from digits 2 and 4 (2019), month D (April) (R4)
+  york: [{
+    format: 'PYMY',
+    pattern: /^[A-Z](\d)([A-HJ-M])(\d)\d{6}$/,
+    confidence: 0.8,
+    decode: (m, asOf) => {
+      const year = twoDigitYear(`${m[1]}${m[3]}`, asOf);
+      return year < 2004 ? null : { year, month: MONTH_LETTERS.indexOf(m[2]) + 1 };
+    },
+  }],
+
+  // 2008+: 1012A012345 — week 12 of 2010
+  ao_smith: [{
+    format: 'YYWW',
+    pattern: new RegExp(`^(\\d{2})${WEEK}[A-Z]\\d{6}$`),
+    confidence: 0.85,
+    decode: (m, asOf) => {
+      const year = twoDigitYear(m[1], asOf);
+      return { year, month: monthFromWeek(year, parseInt(m[2], 10)) };
+    },
+  }],
+
+  // NC1234567 — year letter N, month letter C (March) (R3)
+  bradford_white: [{
+    format: 'YM',
+    pattern: /^([A-HJ-NPSTW-Z])([A-HJ-M])\d{6,8}$/,
+    confidence: 0.8,
+    decode: (m, asOf) => {
+      const year = bradfordWhiteYear(m[1], asOf);
+      return year === null ? null : { year, month: MONTH_LETTERS.indexOf(m[2]) + 1 };
+    },
+  }],
+};
+
+// ============== Decoding ==============
+
+/**
+ * Manufacturer family for a brand name, or null for brands without a
+ * date-bearing serial format
+ */
+export function serialFamilyForBrand(brand: string | null | undefined): SerialFamily | null {
+  if (!brand) return null;
+  const key = brand.toLowerCase().replace(/[^a-z0-9]/g, '');
+  for (const [pattern, family] of BRAND_FAMILIES) {
+    if (pattern.test(key)) return family;
+  }
+  return null;
+}
+
+/**
+ * Decode the manufacture date from a serial number (R1, R2)
+ */
+export function decodeSerialDate(
+  brand: string | null | undefined,
+  serial: string | null | undefined,
+  asOf: Date = new Date()
+): SerialDate | null {
+  const family = serialFamilyForBrand(brand);
+  if (!family || !serial) return null;
+
+  const normalized = normalizeSerial(serial);
+  for (const format of SERIAL_FORMATS[family]) {
+    const match = normalized.match(format.pattern);
+    if (!match) continue;
+
+    const decoded = format.decode(match, asOf);
+    if (!decoded || !isPlausible(decoded.year, decoded.month, asOf)) continue;
+
+    return {
+      year: decoded.year,
+      month: decoded.month,
+      family,
+      format: format.format,
+      confidence: format.confidence,
+      decoderVersion: SERIAL_DECODER_VERSION,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,120 @@
+/**
+ * Server-Sent Events - Framing and parsing shared by edge functions and the app
+ *
+ * ARCHITECTURE:
+ * - formatSseEvent() frames one event for a streaming Response body
+ * - createSseParser() turns arbitrary text chunks into complete events;
+ *   readSseStream() drives it from a fetch() body
+ * - Used both to consume upstream LLM streams and to emit the
+ *   ai-home-assistant stream to the browser
+ *
+ * RULES:
+ * R1: An event is dispatched only once its terminating blank line arrives;
+ *     a chunk boundary never splits an event
+ * R2: Multi-line `data:` fields are joined with "\n" (per the SSE spec)
+ * R3: Comment lines (":") and unknown fields are ignored
+ *
+ * @version v1
+ */
+
+export interface SseEvent {
+  /** `event:` field; "message" when absent */
+  event: string;
+  data: string;
+}
+
+/**
+ * Frame one event. Objects are JSON-encoded; a string is sent verbatim.
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data);
+  const lines = payload.split('\n').map((line) => `data: ${line}`).join('\n');
+  return `event: ${event}\n${lines}\n\n`;
+}
+
+export interface SseParser {
+  /** Feed decoded text; returns the events completed by this chunk */
+  push(chunk: string): SseEvent[];
+  /** Flush a trailing event that was never terminated by a blank line */
+  end(): SseEvent[];
+}
+
+export function createSseParser(): SseParser {
+  let buffer = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+
+  const dispatch = (events: SseEvent[]) => {
+    if (dataLines.length > 0) {
+      events.push({ event: eventName || 'message', data: dataLines.join('\n') });
+    }
+    eventName = '';
+    dataLines = [];
+  };
+
+  const processLine = (line: string, events: SseEvent[]) => {
+    if (line === '') {
+      dispatch(events);
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') eventName = value;
+    else if (field === 'data') dataLines.push(value);
+  };
+
+  return {
+    push(chunk) {
+      buffer += chunk;
+      const events: SseEvent[] = [];
+      let newline = buffer.search(/\r\n|\r|\n/);
+      while (newline !== -1) {
+        // A lone trailing "\r" may be the first half of "\r\n"; wait for more
+        if (buffer[newline] === '\r' && newline === buffer.length - 1) break;
+        const width = buffer.startsWith('\r\n', newline) ? 2 : 1;
+        processLine(buffer.slice(0, newline), events);
+        buffer = buffer.slice(newline + width);
+        newline = buffer.search(/\r\n|\r|\n/);
+      }
+      return events;
+    },
+    end() {
+      const events: SseEvent[] = [];
+      if (buffer) processLine(buffer, events);
+      buffer = '';
+      dispatch(events);
+      return events;
+    },
+  };
+}
+
+/**
+ * Read an SSE body to completion, calling onEvent for each event in order.
+ */
+export async function readSseStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SseEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = createSseParser();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      for (const event of parser.push(decoder.decode(value, { stream: true }))) {
+        onEvent(event);
+      }
+    }
+    for (const event of parser.push(decoder.decode())) onEvent(event);
+    for (const event of parser.end()) onEvent(event);
+  } finally {
+    reader.releaseLock();
+  }
+}
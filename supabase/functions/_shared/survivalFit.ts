@@ -0,0 +1,197 @@
+/**
+ * SurvivalFit - Weibull lifetime fitting for failure curve calibration
+ *
+ * ARCHITECTURE:
+ * - Pure math. No database access, no I/O.
+ * - Consumed by calibrate-failure-curves (fitting job) and by readers of
+ *   the active calibration (intelligence-engine, frontend services).
+ *
+ * RULES:
+ * R1: Right-censoring is honored — a system still running at age t only
+ *     says "lifetime > t", never "lifetime = t"
+ * R2: Small samples shrink toward the SYSTEM_CONFIGS prior, never replace it
+ * R3: Cells below MIN_FAILURE_EVENTS are not emitted; readers fall back
+ * R4: Output parameters are bounded to plausible ranges
+ *
+ * @version v1
+ */
+
+// ============== Types ==============
+
+export interface LifetimeObservation {
+  /** Age in years at failure (observed) or at last sighting (censored) */
+  ageYears: number;
+  /** true = replacement/failure observed, false = still in service */
+  observed: boolean;
+  /** Relative trust in this observation (labels < install events) */
+  weight: number;
+}
+
+export interface WeibullParams {
+  /** Shape (k). >1 means wear-out failures dominate */
+  shape: number;
+  /** Scale (λ) in years */
+  scale: number;
+}
+
+export interface CalibratedCurve extends WeibullParams {
+  /** Median lifespan in years (after prior shrinkage) */
+  medianYears: number;
+  /** Normal-approximation sigma in years, for L10/L90 style consumers */
+  sigmaYears: number;
+  /** Weighted count of observed failures */
+  failureEvents: number;
+  /** Total observations (observed + censored) */
+  sampleSize: number;
+}
+
+export interface CurvePrior {
+  medianYears: number;
+  sigmaYears: number;
+}
+
+// ============== Constants ==============
+
+export const MIN_FAILURE_EVENTS = 8;
+
+/** Pseudo-observations given to the prior when shrinking the median */
+const PRIOR_STRENGTH = 12;
+
+const SHAPE_MIN = 0.8;
+const SHAPE_MAX = 12;
+const Z_10 = 1.2816;
+
+// ============== Weibull Helpers ==============
+
+export function weibullSurvival(ageYears: number, params: WeibullParams): number {
+  if (ageYears <= 0) return 1;
+  return Math.exp(-Math.pow(ageYears / params.scale, params.shape));
+}
+
+export function weibullQuantile(p: number, params: WeibullParams): number {
+  return params.scale * Math.pow(-Math.log(1 - p), 1 / params.shape);
+}
+
+/**
+ * Probability of failure within the next 12 months, given survival to ageYears
+ */
+export function conditionalFailureProbability12mo(ageYears: number, params: WeibullParams): number {
+  const age = Math.max(0, ageYears);
+  const sNow = weibullSurvival(age, params);
+  if (sNow <= 0) return 1;
+  return 1 - weibullSurvival(age + 1, params) / sNow;
+}
+
+/**
+ * Scale that yields a given median for a fixed shape
+ */
+function scaleForMedian(medianYears: number, shape: number): number {
+  return medianYears / Math.pow(Math.LN2, 1 / shape);
+}
+
+// ============== Fitting ==============
+
+/**
+ * Weighted, right-censored Weibull MLE.
+ *
+ * For fixed shape k the scale has a closed form, so we solve the profile
+ * score equation for k by bisection (it is monotone in k):
+ *   Σw·t^k·ln t / Σw·t^k − 1/k − Σw·d·ln t / Σw·d = 0
+ */
+export function fitWeibull(observations: LifetimeObservation[]): WeibullParams | null {
+  const obs = observations.filter(o => o.ageYears > 0 && o.weight > 0);
+  const events = obs.reduce((sum, o) => sum + (o.observed ? o.weight : 0), 0);
+  if (events <= 0) return null;
+
+  const meanLogObserved = obs.reduce(
+    (sum, o) => sum + (o.observed ? o.weight * Math.log(o.ageYears) : 0),
+    0
+  ) / events;
+
+  const score = (k: number): number => {
+    let sumTk = 0;
+    let sumTkLog = 0;
+    for (const o of obs) {
+      const tk = o.weight * Math.pow(o.ageYears, k);
+      sumTk += tk;
+      sumTkLog += tk * Math.log(o.ageYears);
+    }
+    return sumTkLog / sumTk - 1 / k - meanLogObserved;
+  };
+
+  let lo = SHAPE_MIN;
+  let hi = SHAPE_MAX;
+  if (score(lo) > 0) {
+    hi = lo;
+  } else if (score(hi) < 0) {
+    lo = hi;
+  } else {
+    for (let i = 0; i < 60; i++) {
+      const mid = (lo + hi) / 2;
+      if (score(mid) < 0) lo = mid;
+      else hi = mid;
+    }
+  }
+  const shape = (lo + hi) / 2;
+
+  const sumTk = obs.reduce((sum, o) => sum + o.weight * Math.pow(o.ageYears, shape), 0);
+  const scale = Math.pow(sumTk / events, 1 / shape);
+
+  return { shape, scale };
+}
+
+/**
+ * Fit a curve and shrink its median toward the prior.
+ * Returns null when the cell has too few observed failures (R3).
+ */
+export function calibrateCurve(
+  observations: LifetimeObservation[],
+  prior: CurvePrior
+): CalibratedCurve | null {
+  const failureEvents = observations.reduce((sum, o) => sum + (o.observed ? o.weight : 0), 0);
+  if (failureEvents < MIN_FAILURE_EVENTS) return null;
+
+  const fit = fitWeibull(observations);
+  if (!fit) return null;
+
+  const fittedMedian = weibullQuantile(0.5, fit);
+  const medianYears =
+    (fittedMedian * failureEvents + prior.medianYears * PRIOR_STRENGTH) /
+    (failureEvents + PRIOR_STRENGTH);
+
+  // Keep the fitted shape, re-derive scale for the shrunk median
+  const shape = fit.shape;
+  const scale = scaleForMedian(medianYears, shape);
+  const params = { shape, scale };
+
+  const p10 = weibullQuantile(0.1, params);
+  const p90 = weibullQuantile(0.9, params);
+  const sigmaYears = (p90 - p10) / (2 * Z_10);
+
+  return {
+    shape: round(shape, 3),
+    scale: round(scale, 2),
+    medianYears: round(medianYears, 2),
+    sigmaYears: round(sigmaYears, 2),
+    failureEvents: round(failureEvents, 1),
+    sampleSize: observations.length,
+  };
+}
+
+/**
+ * Share of observed failures whose age falls inside the curve's p10–p90 band.
+ * Used as the model's accuracy_score (0.8 = perfectly calibrated band).
+ */
+export function bandCoverage(observations: LifetimeObservation[], params: WeibullParams): number | null {
+  const observed = observations.filter(o => o.observed);
+  if (observed.length === 0) return null;
+  const p10 = weibullQuantile(0.1, params);
+  const p90 = weibullQuantile(0.9, params);
+  const inside = observed.filter(o => o.ageYears >= p10 && o.ageYears <= p90).length;
+  return inside / observed.length;
+}
+
+function round(value: number, digits: number): number {
+  const f = Math.pow(10, digits);
+  return Math.round(value * f) / f;
+}
@@ -4,8 +4,8 @@
  * Centralized constants for lifespan, variance, and scoring parameters
  * across all home systems. Designed for extensibility as new systems are added.
  * 
- * NOTE: permitKeywords are currently duplicated in permitSignal.ts for HVAC.
- * Long-term: derivePermitSignal should accept SystemConfig to eliminate duplication.
+ * Permit keywords live in permitClassifier.ts (PERMIT_CATEGORY_RULES), keyed
+ * by the same SystemType.
  * 
  * @version v1
  */
@@ -17,8 +17,6 @@ export interface SystemConfig {
   baselineLifespan: number;
   /** Standard deviation for uncertainty (sigma) */
   sigma: number;
-  /** Keywords for permit matching */
-  permitKeywords: string[];
   /** M_install penalty for replacement vs new install (affects quality, not lifespan) */
   replacementPenalty: number;
   /** Maximum climate stress multiplier reduction */
@@ -44,7 +42,6 @@ export const SYSTEM_CONFIGS: Record<SystemType, SystemConfig> = {
   hvac: {
     baselineLifespan: 13,
     sigma: 2.5,
-    permitKeywords: ['hvac', 'air condition', 'a/c', 'ac unit', 'heat pump', 'condenser', 'air handler', 'furnace', 'cooling', 'heating'],
     replacementPenalty: 0.03,
     climateMultiplierMax: 0.18,
     displayName: 'HVAC System',
@@ -53,7 +50,6 @@ export const SYSTEM_CONFIGS: Record<SystemType, SystemConfig> = {
   roof: {
     baselineLifespan: 25,
     sigma: 4.0,
-    permitKeywords: ['roof', 're-roof', 'reroof', 'shingle', 'tile roof', 'metal roof'],
     replacementPenalty: 0.02,
     climateMultiplierMax: 0.15,
     displayName: 'Roof',
@@ -62,7 +58,6 @@ export const SYSTEM_CONFIGS: Record<SystemType, SystemConfig> = {
   water_heater: {
     baselineLifespan: 12,
     sigma: 2.0,
-    permitKeywords: ['water heater', 'hot water', 'tankless', 'boiler'],
     replacementPenalty: 0.02,
     climateMultiplierMax: 0.10,
     displayName: 'Water Heater',
@@ -71,7 +66,6 @@ export const SYSTEM_CONFIGS: Record<SystemType, SystemConfig> = {
   electrical_panel: {
     baselineLifespan: 40,
     sigma: 8.0,
-    permitKeywords: ['electrical panel', 'service panel', 'breaker panel', 'main panel', '200 amp', 'panel upgrade'],
     replacementPenalty: 0.01,
     climateMultiplierMax: 0.05,
     displayName: 'Electrical Panel',
@@ -80,7 +74,6 @@ export const SYSTEM_CONFIGS: Record<SystemType, SystemConfig> = {
   plumbing: {
     baselineLifespan: 50, // Pipes last long, but components vary
     sigma: 10.0,
-    permitKeywords: ['plumbing', 'repipe', 'water line', 'sewer', 'drain'],
     replacementPenalty: 0.01,
     climateMultiplierMax: 0.08,
     displayName: 'Plumbing',
@@ -89,7 +82,6 @@ export const SYSTEM_CONFIGS: Record<SystemType, SystemConfig> = {
   pool: {
     baselineLifespan: 15, // Equipment lifespan
     sigma: 3.0,
-    permitKeywords: ['pool', 'spa', 'hot tub', 'pool pump', 'pool heater'],
     replacementPenalty: 0.02,
     climateMultiplierMax: 0.12,
     displayName: 'Pool Equipment',
@@ -98,7 +90,6 @@ export const SYSTEM_CONFIGS: Record<SystemType, SystemConfig> = {
   solar: {
     baselineLifespan: 25,
     sigma: 5.0,
-    permitKeywords: ['solar', 'photovoltaic', 'pv system', 'solar panel'],
     replacementPenalty: 0.01,
     climateMultiplierMax: 0.10,
     displayName: 'Solar Panels',
@@ -107,7 +98,6 @@ export const SYSTEM_CONFIGS: Record<SystemType, SystemConfig> = {
   mini_split: {
     baselineLifespan: 20,
     sigma: 3.0,
-    permitKeywords: ['mini-split', 'ductless', 'mini split', 'ductless heat pump', 'ductless ac'],
     replacementPenalty: 0.01,
     climateMultiplierMax: 0.10,
     displayName: 'Mini-Split',
@@ -116,12 +106,21 @@ export const SYSTEM_CONFIGS: Record<SystemType, SystemConfig> = {
   },
 };
 
+/**
+ * Whether a value names a configured system. Own keys only, so prototype
+ * names like 'constructor' never pass (Object.hasOwn needs ES2022; the
+ * frontend type-checks these modules against ES2020)
+ */
+export function isSystemType(value: unknown): value is SystemType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SYSTEM_CONFIGS, value);
+}
+
 /**
  * Get system config with fallback for unknown types
  */
 export function getSystemConfig(systemType: string): SystemConfig {
   const normalized = systemType.toLowerCase().replace(/[^a-z_]/g, '');
-   return SYSTEM_CONFIGS[normalized as SystemType] || null as unknown as SystemConfig;
+   return isSystemType(normalized) ? SYSTEM_CONFIGS[normalized] : null as unknown as SystemConfig;
 }
 
 // ============================================================================
@@ -12,16 +12,28 @@
  * G2: Climate modifies, never replaces
  * G3: Confidence widens windows, never tightens
  * G4: Return honest disclosures
+ * G5: Maintenance moves a window only by the measured adherence index
+ *     (maintenanceAdherence.ts), never by more than the system's
+ *     expectedDelayYears
  * 
- * @version v3 - Earned Confidence: Material-aware, climate-gated, confidence-bounded
+ * @version v4 - Measured maintenance on top of v3 Earned Confidence
  */
 
 import { SYSTEM_CONFIGS, type SystemType } from './systemConfigs.ts';
+import { isSystemPermit } from './permitClassifier.ts';
+import { resolveClimateProfile, type ClimateProfile, type ClimateZoneType } from './climateResolver.ts';
+import {
+  roofAreaCostFactor,
+  roofComplexityCostFactor,
+  roofLifespanAdjustments,
+  type RoofGeometry,
+} from './roofGeometry.ts';
+import type { MaintenanceAdherence } from './maintenanceAdherence.ts';
 
 // ============== Core Types ==============
 
 export type ConfidenceLevel = 'high' | 'medium' | 'low';
-export type ClimateZoneType = 'high_heat' | 'coastal' | 'freeze_thaw' | 'moderate';
+export type { ClimateZoneType } from './climateResolver.ts';
 export type HvacDutyCycle = 'low' | 'moderate' | 'high' | 'extreme';
 
 /**
@@ -40,6 +52,8 @@ export interface ResolvedClimateContext {
     roof: number;          // years: -5 to 0
     water_heater: number;  // years: -2 to 0
   };
+  /** Measured climate behind the zone. Absent for legacy RegionContext shims */
+  profile?: ClimateProfile;
 }
 
 /**
@@ -60,6 +74,8 @@ export interface PropertyContext {
   grossSqft?: number;
   roomsTotal?: number;
   groundFloorSqft?: number;
+  /** Measured roof (Google Solar), when an analysis is cached for the address */
+  roofGeometry?: RoofGeometry;
 }
 
 /**
@@ -105,13 +121,18 @@ export interface LifespanDriver {
 
 export interface MaintenanceEffect {
   shiftsTimeline: boolean;
+  /** Most the window can move for well-kept equipment (G5) */
   expectedDelayYears?: number;
   uncertaintyReduction?: 'low' | 'medium' | 'high';
   explanation: string;
+  /** The home's measured record; absent when none was loaded */
+  adherence?: MaintenanceAdherence;
+  /** Years the window actually moved for that record */
+  appliedShiftYears?: number;
 }
 
 export interface InferredTimeline {
-  systemId: 'hvac' | 'roof' | 'water_heater';
+  systemId: SystemType;
   systemLabel: string;
   category: 'mechanical' | 'structural' | 'utility';
   install: InferredInstall;
@@ -127,7 +148,7 @@ export interface InferredTimeline {
  * Extended with material and confidence metadata
  */
 export interface LifecycleOutput {
-  systemId: 'hvac' | 'roof' | 'water_heater';
+  systemId: SystemType;
   systemLabel: string;
   category: 'mechanical' | 'structural' | 'utility';
   replacementWindow: ReplacementWindow;
@@ -184,156 +205,328 @@ const HVAC_COSTS: Record<string, { min: number; max: number }> = {
 
 const HVAC_LIFESPAN = { min: 12, max: 18 };
 
+// ============== Config-Driven System Profiles ==============
+
+/**
+ * Systems without a dedicated calculator.
+ * Lifespan and cost come from SYSTEM_CONFIGS; this only adds the
+ * presentation and maintenance facts the config does not carry.
+ */
+export type ConfigDrivenSystemType = Exclude<SystemType, 'hvac' | 'roof' | 'water_heater'>;
+
+interface ConfigDrivenProfile {
+  category: 'mechanical' | 'structural' | 'utility';
+  costDrivers: string[];
+  maintenanceEffect: MaintenanceEffect;
+  /** Lifespan driver copy when climate shortens the window */
+  climateDriver: { factor: string; description: string };
+  disclosure: { heuristic: string; known: string };
+}
+
+const CONFIG_DRIVEN_PROFILES: Record<ConfigDrivenSystemType, ConfigDrivenProfile> = {
+  electrical_panel: {
+    category: 'utility',
+    costDrivers: ['Panel amperage', 'Service upgrade requirements', 'Labor rates'],
+    maintenanceEffect: {
+      shiftsTimeline: false,
+      expectedDelayYears: 0,
+      uncertaintyReduction: 'low',
+      explanation: 'Periodic inspection catches loose connections but does not extend panel life',
+    },
+    climateDriver: {
+      factor: 'Humidity exposure',
+      description: 'Moisture and salt air can corrode bus bars and breaker contacts',
+    },
+    disclosure: {
+      heuristic: 'Panel age estimated from home construction date; upgrades are often unpermitted',
+      known: 'Based on typical service life for residential electrical panels',
+    },
+  },
+  plumbing: {
+    category: 'utility',
+    costDrivers: ['Pipe material', 'Home size', 'Wall and slab access'],
+    maintenanceEffect: {
+      shiftsTimeline: false,
+      expectedDelayYears: 0,
+      uncertaintyReduction: 'low',
+      explanation: 'Leak checks reduce water damage risk but do not change pipe lifespan',
+    },
+    climateDriver: {
+      factor: 'Soil and water conditions',
+      description: 'Aggressive water chemistry and freeze cycles shorten supply line life',
+    },
+    disclosure: {
+      heuristic: 'Plumbing age estimated from home construction date; partial repipes are common',
+      known: 'Based on typical service life for residential supply and drain lines',
+    },
+  },
+  pool: {
+    category: 'mechanical',
+    costDrivers: ['Pump and filter type', 'Heater type', 'Labor rates'],
+    maintenanceEffect: {
+      shiftsTimeline: true,
+      expectedDelayYears: 2,
+      uncertaintyReduction: 'medium',
+      explanation: 'Balanced water chemistry and clean filters meaningfully extend equipment life',
+    },
+    climateDriver: {
+      factor: 'Year-round operation',
+      description: 'Long swim seasons keep pumps and heaters running more hours per year',
+    },
+    disclosure: {
+      heuristic: 'Pool equipment age estimated; pumps and heaters are usually replaced separately',
+      known: 'Based on typical service life for pool pumps, filters, and heaters',
+    },
+  },
+  solar: {
+    category: 'utility',
+    costDrivers: ['System size', 'Inverter type', 'Roof access'],
+    maintenanceEffect: {
+      shiftsTimeline: false,
+      expectedDelayYears: 0,
+      uncertaintyReduction: 'low',
+      explanation: 'Cleaning preserves output but does not extend panel or inverter life',
+    },
+    climateDriver: {
+      factor: 'Heat and UV stress',
+      description: 'High heat accelerates panel degradation and inverter wear',
+    },
+    disclosure: {
+      heuristic: 'Solar install year estimated; inverters typically need replacement before panels',
+      known: 'Based on typical panel warranty periods and degradation rates',
+    },
+  },
+  mini_split: {
+    category: 'mechanical',
+    costDrivers: ['Number of zones', 'Efficiency rating', 'Line set length'],
+    maintenanceEffect: {
+      shiftsTimeline: true,
+      expectedDelayYears: 2,
+      uncertaintyReduction: 'medium',
+      explanation: 'Cleaning filters and coils typically extends mini-split lifespan',
+    },
+    climateDriver: {
+      factor: 'High cooling demand',
+      description: 'Year-round cooling duty accelerates compressor wear',
+    },
+    disclosure: {
+      heuristic: 'Mini-split install year estimated; costs shown per zone',
+      known: 'Based on typical ductless system service life; costs shown per zone',
+    },
+  },
+};
+
+/** Normal-distribution z-score for the p10/p90 window edges */
+const WINDOW_Z = 1.28;
+
+export function isConfigDrivenSystem(systemType: SystemType): systemType is ConfigDrivenSystemType {
+  return Object.prototype.hasOwnProperty.call(CONFIG_DRIVEN_PROFILES, systemType);
+}
+
+// ============== Maintenance Effects ==============
+
+/** Typical effect of maintenance for the systems with dedicated calculators */
+const DEDICATED_MAINTENANCE_EFFECTS: Record<Exclude<SystemType, ConfigDrivenSystemType>, MaintenanceEffect> = {
+  hvac: {
+    shiftsTimeline: true,
+    expectedDelayYears: 3,
+    uncertaintyReduction: 'medium',
+    explanation: 'Regular maintenance typically extends HVAC lifespan and narrows uncertainty'
+  },
+  water_heater: {
+    shiftsTimeline: false,
+    expectedDelayYears: 1,
+    uncertaintyReduction: 'low',
+    explanation: 'Routine maintenance reduces surprise failures but has minimal lifespan impact'
+  },
+  roof: {
+    shiftsTimeline: false,
+    expectedDelayYears: 0,
+    uncertaintyReduction: 'low',
+    explanation: 'Roof maintenance reduces leak risk but does not meaningfully extend lifespan'
+  },
+};
+
+/** Adherence index at which the record neither extends nor shortens life */
+const ADHERENCE_NEUTRAL_INDEX = 0.5;
+/** Lapsed service costs at most this share of what good service gains */
+const LAPSED_SHIFT_FRACTION = 0.5;
+
+export function getMaintenanceEffect(systemType: SystemType): MaintenanceEffect {
+  return isConfigDrivenSystem(systemType)
+    ? CONFIG_DRIVEN_PROFILES[systemType].maintenanceEffect
+    : DEDICATED_MAINTENANCE_EFFECTS[systemType];
+}
+
+/**
+ * Whole years the measured record moves the window (G5)
+ *
+ * Linear from 0 at the neutral index to expectedDelayYears at 1.0; below
+ * neutral it shortens by up to LAPSED_SHIFT_FRACTION of that. Systems whose
+ * maintenance doesn't shift the timeline, and homes with no records, get 0.
+ */
+export function maintenanceShiftYears(
+  effect: MaintenanceEffect,
+  adherence: MaintenanceAdherence | null | undefined
+): number {
+  if (!adherence || adherence.level === 'none' || !effect.shiftsTimeline) return 0;
+
+  const maxYears = effect.expectedDelayYears ?? 0;
+  const years = adherence.index >= ADHERENCE_NEUTRAL_INDEX
+    ? maxYears * (adherence.index - ADHERENCE_NEUTRAL_INDEX) / (1 - ADHERENCE_NEUTRAL_INDEX)
+    : -maxYears * LAPSED_SHIFT_FRACTION * (ADHERENCE_NEUTRAL_INDEX - adherence.index) / ADHERENCE_NEUTRAL_INDEX;
+  return Math.round(years) || 0;
+}
+
+/**
+ * The typical effect, restated for the home's own record
+ */
+export function measuredMaintenanceEffect(
+  effect: MaintenanceEffect,
+  adherence: MaintenanceAdherence | null | undefined
+): MaintenanceEffect {
+  if (!adherence) return effect;
+  const appliedShiftYears = maintenanceShiftYears(effect, adherence);
+  return {
+    ...effect,
+    adherence,
+    appliedShiftYears,
+    explanation: describeMaintenanceRecord(effect, adherence, appliedShiftYears),
+  };
+}
+
+/**
+ * Shift a calculated window by the home's maintenance record and say why
+ */
+export function applyMaintenanceAdherence<T extends LifecycleOutput | InferredTimeline>(
+  timeline: T,
+  adherence: MaintenanceAdherence | null | undefined
+): T {
+  if (!adherence) return timeline;
+
+  const maintenanceEffect = measuredMaintenanceEffect(timeline.maintenanceEffect, adherence);
+  const shift = maintenanceEffect.appliedShiftYears ?? 0;
+  if (shift === 0) return { ...timeline, maintenanceEffect };
+
+  const window = timeline.replacementWindow;
+  return {
+    ...timeline,
+    replacementWindow: {
+      ...window,
+      earlyYear: window.earlyYear + shift,
+      likelyYear: window.likelyYear + shift,
+      lateYear: window.lateYear + shift,
+    },
+    lifespanDrivers: [
+      ...timeline.lifespanDrivers,
+      {
+        factor: shift > 0 ? 'Maintenance record' : 'Lapsed maintenance',
+        impact: shift > 0 ? 'increase' : 'decrease',
+        severity: Math.abs(shift) >= 2 ? 'medium' : 'low',
+        description: maintenanceEffect.explanation,
+      },
+    ],
+    maintenanceEffect,
+  };
+}
+
+function describeMaintenanceRecord(
+  effect: MaintenanceEffect,
+  adherence: MaintenanceAdherence,
+  shiftYears: number
+): string {
+  if (adherence.level === 'none') {
+    return effect.shiftsTimeline
+      ? `No maintenance recorded yet. Logged service can move this window up to ${pluralYears(effect.expectedDelayYears ?? 0)} later`
+      : `No maintenance recorded yet. ${effect.explanation}`;
+  }
+
+  const period = adherence.lookbackMonths >= 24
+    ? `the last ${Math.round(adherence.lookbackMonths / 12)} years`
+    : `the last ${adherence.lookbackMonths} months`;
+  const pro = adherence.professionalCount > 0 ? `, ${adherence.professionalCount} by a pro` : '';
+  const last = adherence.lastServicedOn
+    ? new Date(`${adherence.lastServicedOn}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' })
+    : null;
+  const record = `${adherence.serviceCount} of ${adherence.expectedServices} expected services in ${period}${pro}` +
+    (last ? `; last serviced ${last}` : '');
+
+  const outcome = !effect.shiftsTimeline
+    ? effect.explanation
+    : shiftYears > 0
+      ? `This record moves the replacement window ${pluralYears(shiftYears)} later`
+      : shiftYears < 0
+        ? `Service has lapsed, moving the window ${pluralYears(-shiftYears)} earlier`
+        : 'Not yet enough to move the replacement window';
+
+  return `${record}. ${outcome}`;
+}
+
+function pluralYears(years: number): string {
+  return years === 1 ? '1 year' : `${years} years`;
+}
+
 // ============== Climate Classification ==============
 
 /**
- * Coastal cities that warrant high-confidence climate attribution.
- * Must be explicitly matched — no fuzzy inference.
+ * Zone effects on lifespan. The zone itself comes from climateResolver.ts,
+ * shared with the dashboard so both always agree.
  */
-const COASTAL_CITIES = [
-  'miami', 'miami beach', 'fort lauderdale', 'west palm beach',
-  'key west', 'key largo', 'key biscayne',
-  'tampa', 'clearwater', 'st petersburg', 'sarasota',
-  'naples', 'cape coral', 'fort myers',
-  'jacksonville beach', 'daytona beach', 'cocoa beach',
-  'santa monica', 'san diego', 'malibu',
-  'galveston', 'corpus christi',
-];
+const ZONE_EFFECTS: Record<ClimateZoneType, Pick<ResolvedClimateContext, 'climateMultiplier' | 'lifespanModifiers'>> = {
+  coastal: { climateMultiplier: 0.80, lifespanModifiers: { hvac: -3, roof: -5, water_heater: -2 } },
+  high_heat: { climateMultiplier: 0.82, lifespanModifiers: { hvac: -2, roof: -3, water_heater: -1 } },
+  freeze_thaw: { climateMultiplier: 0.85, lifespanModifiers: { hvac: -1, roof: -4, water_heater: 0 } },
+  moderate: { climateMultiplier: 1.0, lifespanModifiers: { hvac: 0, roof: 0, water_heater: 0 } },
+};
 
-const COASTAL_KEYWORDS = ['beach', 'coast', 'key ', 'island'];
+/**
+ * HVAC duty from degree days.
+ * QA FIX #4: Freeze-thaw = 'high' duty (heating-heavy winters destroy heat exchangers)
+ */
+function deriveHvacDuty(profile: ClimateProfile): HvacDutyCycle {
+  if (profile.cdd65 >= 4000) return 'extreme';
+  if (profile.cdd65 >= 2500 || profile.zone === 'freeze_thaw') return 'high';
+  if (profile.cdd65 < 1000 && profile.hdd65 < 5000) return 'low';
+  return 'moderate';
+}
 
-const FREEZE_STATES = ['MN', 'WI', 'MI', 'ND', 'SD', 'MT', 'WY', 'VT', 'NH', 'ME'];
-const HOT_STATES = ['FL', 'AZ', 'TX', 'NV'];
+/**
+ * Confidence follows lookup precision. Moderate stays 'low' —
+ * we don't know enough to make specific climate claims.
+ */
+function deriveClimateConfidence(profile: ClimateProfile): ConfidenceLevel {
+  if (profile.zone === 'moderate') return 'low';
+  if (profile.resolution === 'county' || profile.resolution === 'zip') return 'high';
+  if (profile.resolution === 'state') return 'medium';
+  return 'low';
+}
 
 /**
  * classifyClimate - Multi-zone classification with confidence gating
  * 
- * Aligned with frontend's deriveClimateZone() heuristics but adds:
+ * Zone comes from the shared resolver (FIPS → ZIP → state), then adds:
  * - climateConfidence (gates attribution copy tone)
  * - dutyCycle (models HVAC usage intensity)
  * - lifespanModifiers (zone-specific adjustments)
+ * 
+ * @param city - Unused since climate_v1 (no city-name matching); kept for call sites
+ * @param latitude - Last-resort fallback, as in resolveHomeClimate
  */
-// Known coastal county FIPS codes (first 5 digits) for confidence upgrade
-const COASTAL_FIPS_COUNTIES = new Set([
-  // Florida coastal
-  '12086', // Miami-Dade
-  '12011', // Broward
-  '12099', // Palm Beach
-  '12103', // Pinellas
-  '12057', // Hillsborough
-  '12071', // Lee
-  '12021', // Collier
-  '12115', // Sarasota
-  '12081', // Manatee
-  '12009', // Brevard
-  '12127', // Volusia
-  '12031', // Duval
-  // Texas coastal
-  '48167', // Galveston
-  '48355', // Nueces (Corpus Christi)
-  '48201', // Harris (Houston)
-  // California coastal
-  '06037', // Los Angeles
-  '06073', // San Diego
-  '06075', // San Francisco
-  '06081', // San Mateo
-  '06085', // Santa Clara
-  // Louisiana coastal
-  '22071', // Orleans
-  // South Carolina coastal
-  '45019', // Charleston
-  // North Carolina coastal
-  '37129', // New Hanover
-  // Georgia coastal
-  '13051', // Chatham (Savannah)
-  // New Jersey coastal
-  '34025', // Monmouth
-  '34029', // Ocean
-]);
-
 export function classifyClimate(
   state: string,
   city?: string,
-  fipsCode?: string
+  fipsCode?: string,
+  zipCode?: string,
+  latitude?: number | null
 ): ResolvedClimateContext {
-  const s = state.toUpperCase();
-  const c = (city || '').toLowerCase();
-
-  // Check explicit coastal city match (high confidence)
-  const isExplicitCoastal = COASTAL_CITIES.some(cc => c.includes(cc));
-  const isCoastalKeyword = COASTAL_KEYWORDS.some(kw => c.includes(kw));
-  
-  // FIPS-based coastal detection: if county FIPS is in the known coastal set
-  const fipsCounty = fipsCode ? fipsCode.substring(0, 5) : null;
-  const isFipsCoastal = fipsCounty ? COASTAL_FIPS_COUNTIES.has(fipsCounty) : false;
-  
-  const isCoastal = isExplicitCoastal || isCoastalKeyword || isFipsCoastal;
-
-  // Coastal FL/TX/CA = highest confidence climate signal
-  // FIPS confirmation upgrades confidence from medium to high
-  if (isCoastal && (s === 'FL' || s === 'TX' || s === 'CA')) {
-    const coastalConfidence: ConfidenceLevel = (isExplicitCoastal || isFipsCoastal) ? 'high' : 'medium';
-    return {
-      climateZone: 'coastal',
-      climateMultiplier: 0.80,
-      climateConfidence: coastalConfidence,
-      dutyCycle: { hvac: s === 'FL' ? 'extreme' : 'high' },
-      lifespanModifiers: { hvac: -3, roof: -5, water_heater: -2 },
-    };
-  }
-
-  // Hot states (non-coastal)
-  if (HOT_STATES.includes(s)) {
-    // FL gets extreme duty for coastal cities, high for rest
-    const hvacDuty: HvacDutyCycle = s === 'FL'
-      ? (isCoastal ? 'extreme' : 'high')
-      : 'high';
-
-    return {
-      climateZone: 'high_heat',
-      climateMultiplier: 0.82,
-      climateConfidence: 'medium',
-      dutyCycle: { hvac: hvacDuty },
-      lifespanModifiers: { hvac: -2, roof: -3, water_heater: -1 },
-    };
-  }
-
-  // Freeze-thaw states
-  // QA FIX #4: Gas furnace assumption = 'high' duty (heating-heavy winters)
-  if (FREEZE_STATES.includes(s)) {
-    return {
-      climateZone: 'freeze_thaw',
-      climateMultiplier: 0.85,
-      climateConfidence: 'medium',
-      dutyCycle: { hvac: 'high' }, // Heating-heavy winters destroy heat exchangers
-      lifespanModifiers: { hvac: -1, roof: -4, water_heater: 0 },
-    };
-  }
-
-  // Additional freeze cities in non-freeze states
-  const freezeCities = ['boston', 'chicago', 'minneapolis', 'denver', 'detroit',
-    'milwaukee', 'buffalo', 'cleveland', 'pittsburgh'];
-  if (freezeCities.some(fc => c.includes(fc))) {
-    return {
-      climateZone: 'freeze_thaw',
-      climateMultiplier: 0.85,
-      climateConfidence: 'medium',
-      dutyCycle: { hvac: 'high' },
-      lifespanModifiers: { hvac: -1, roof: -4, water_heater: 0 },
-    };
-  }
-
-  // Moderate climate (low confidence — we don't know enough to make specific claims)
-  // Low duty: CA non-desert, Pacific Northwest
-  const lowDutyStates = ['CA', 'OR', 'WA'];
-  const hvacDuty: HvacDutyCycle = lowDutyStates.includes(s) ? 'low' : 'moderate';
+  const profile = resolveClimateProfile({ state, fipsCode, zipCode, latitude });
 
   return {
-    climateZone: 'moderate',
-    climateMultiplier: 1.0,
-    climateConfidence: 'low',
-    dutyCycle: { hvac: hvacDuty },
-    lifespanModifiers: { hvac: 0, roof: 0, water_heater: 0 },
+    climateZone: profile.zone,
+    ...ZONE_EFFECTS[profile.zone],
+    climateConfidence: deriveClimateConfidence(profile),
+    dutyCycle: { hvac: deriveHvacDuty(profile) },
+    profile,
   };
 }
 
@@ -469,6 +662,7 @@ function mapInstallSourceToLegacy(source: ResolvedInstallInput['installSource'])
 interface PermitRecord {
   description?: string;
   permit_type?: string;
+  work_class?: string;
   date_finaled?: string;
   final_date?: string;
   approval_date?: string;
@@ -476,26 +670,19 @@ interface PermitRecord {
   issue_date?: string;
 }
 
-export function hasValidPermit(systemType: 'hvac' | 'roof' | 'water_heater', permits: PermitRecord[]): boolean {
+export function hasValidPermit(systemType: SystemType, permits: PermitRecord[]): boolean {
   if (!permits?.length) return false;
-  const config = SYSTEM_CONFIGS[systemType];
   
   return permits.some(p => {
-    const text = `${p.description || ''} ${p.permit_type || ''}`.toLowerCase();
-    const hasKeyword = config.permitKeywords.some(kw => text.includes(kw));
     const hasDate = p.date_finaled || p.final_date || p.approval_date || p.date_issued || p.issue_date;
-    return hasKeyword && hasDate;
+    return isSystemPermit(systemType, p) && hasDate;
   });
 }
 
-export function extractPermitYear(systemType: 'hvac' | 'roof' | 'water_heater', permits: PermitRecord[]): number | null {
+export function extractPermitYear(systemType: SystemType, permits: PermitRecord[]): number | null {
   if (!permits?.length) return null;
-  const config = SYSTEM_CONFIGS[systemType];
   
-  const matchingPermits = permits.filter(p => {
-    const text = `${p.description || ''} ${p.permit_type || ''}`.toLowerCase();
-    return config.permitKeywords.some(kw => text.includes(kw));
-  });
+  const matchingPermits = permits.filter(p => isSystemPermit(systemType, p));
   
   if (!matchingPermits.length) return null;
   
@@ -515,6 +702,32 @@ export function extractPermitYear(systemType: 'hvac' | 'roof' | 'water_heater',
   return dateStr ? new Date(dateStr).getFullYear() : null;
 }
 
+/**
+ * Heuristic install year for config-driven systems.
+ * Assumes one renewal per elapsed baseline lifespan since construction,
+ * so a 1970 home is not shown with 1970 pool equipment.
+ */
+export function inferRenewalInstallYear(
+  systemType: ConfigDrivenSystemType,
+  yearBuilt: number,
+  currentYear: number = new Date().getFullYear()
+): { installYear: number; rationale: string } {
+  const config = SYSTEM_CONFIGS[systemType];
+  const cycles = Math.floor(Math.max(0, currentYear - yearBuilt) / config.baselineLifespan);
+
+  if (cycles === 0) {
+    return {
+      installYear: yearBuilt,
+      rationale: `${config.displayName} assumed original with home construction`,
+    };
+  }
+
+  return {
+    installYear: Math.min(yearBuilt + cycles * config.baselineLifespan, currentYear - 3),
+    rationale: `${config.displayName} replacement inferred based on typical service life and home age`,
+  };
+}
+
 // ============== Build Quality Degradation ==============
 
 /**
@@ -631,12 +844,7 @@ export function calculateHVACLifecycle(
       costDrivers: ['System type', 'SEER rating', 'Labor rates']
     },
     lifespanDrivers,
-    maintenanceEffect: {
-      shiftsTimeline: true,
-      expectedDelayYears: 3,
-      uncertaintyReduction: 'medium',
-      explanation: 'Regular maintenance typically extends HVAC lifespan and narrows uncertainty'
-    },
+    maintenanceEffect: DEDICATED_MAINTENANCE_EFFECTS.hvac,
     disclosureNote: resolvedInstall.installSource === 'heuristic'
       ? 'Install year estimated from home construction date'
       : 'Based on typical HVAC replacement patterns for your region',
@@ -717,12 +925,7 @@ export function calculateWaterHeaterLifecycle(
       costDrivers: ['Tank type', 'Fuel type', 'Labor rates']
     },
     lifespanDrivers,
-    maintenanceEffect: {
-      shiftsTimeline: false,
-      expectedDelayYears: 1,
-      uncertaintyReduction: 'low',
-      explanation: 'Routine maintenance reduces surprise failures but has minimal lifespan impact'
-    },
+    maintenanceEffect: DEDICATED_MAINTENANCE_EFFECTS.water_heater,
     disclosureNote: resolvedInstall.installSource === 'heuristic'
       ? 'Install year estimated; water heaters are often replaced without permits'
       : 'Water heater timeline based on your provided install date',
@@ -733,6 +936,32 @@ export function calculateWaterHeaterLifecycle(
   };
 }
 
+/**
+ * Lifespan shift and drivers from measured roof geometry (pitch, planes)
+ */
+function roofGeometryLifespan(
+  geometry: RoofGeometry | undefined,
+  material: string
+): { years: number; drivers: LifespanDriver[] } {
+  if (!geometry) return { years: 0, drivers: [] };
+  const adjustments = roofLifespanAdjustments(geometry, material);
+  return {
+    years: adjustments.reduce((sum, a) => sum + a.years, 0),
+    drivers: adjustments.map(a => ({
+      factor: a.factor,
+      impact: a.years > 0 ? 'increase' : 'decrease',
+      severity: Math.abs(a.years) >= 3 ? 'medium' : 'low',
+      description: a.description,
+    })),
+  };
+}
+
+function roofCostDrivers(geometry: RoofGeometry | undefined): string[] {
+  return geometry
+    ? ['Material', `Measured roof area (${geometry.squares} squares)`, 'Roof pitch and planes', 'Insurance requirements']
+    : ['Material', 'Roof pitch', 'Insurance requirements'];
+}
+
 /**
  * Calculate Roof lifecycle from resolved input
  * 
@@ -770,6 +999,11 @@ export function calculateRoofLifecycle(
     adjustedMin = Math.round(adjustedMin * (1 - bqDegradation));
     adjustedMax = Math.round(adjustedMax * (1 - bqDegradation));
   }
+
+  // Measured geometry: pitch and roofline complexity
+  const geometryLifespan = roofGeometryLifespan(property.roofGeometry, material);
+  adjustedMin += geometryLifespan.years;
+  adjustedMax += geometryLifespan.years;
   
   const replacementWindow: ReplacementWindow = {
     earlyYear: baseInstall + adjustedMin,
@@ -834,6 +1068,7 @@ export function calculateRoofLifecycle(
       description: 'Lower construction quality correlates with earlier roof degradation'
     });
   }
+  lifespanDrivers.push(...geometryLifespan.drivers);
   
   return {
     systemId: 'roof',
@@ -845,15 +1080,10 @@ export function calculateRoofLifecycle(
       high: costs.max,
       typicalLow,
       typicalHigh,
-      costDrivers: ['Material', 'Roof pitch', 'Insurance requirements']
+      costDrivers: roofCostDrivers(property.roofGeometry)
     },
     lifespanDrivers,
-    maintenanceEffect: {
-      shiftsTimeline: false,
-      expectedDelayYears: 0,
-      uncertaintyReduction: 'low',
-      explanation: 'Roof maintenance reduces leak risk but does not meaningfully extend lifespan'
-    },
+    maintenanceEffect: DEDICATED_MAINTENANCE_EFFECTS.roof,
     disclosureNote: 'Roofs vary widely; this window reflects typical outcomes for similar homes.',
     materialType: material !== 'unknown' ? material : undefined,
     climateZone: climate.climateZone,
@@ -862,12 +1092,101 @@ export function calculateRoofLifecycle(
   };
 }
 
+/**
+ * Calculate lifecycle for systems without a dedicated calculator
+ *
+ * Window edges are p10/p90 of SYSTEM_CONFIGS baselineLifespan ± sigma.
+ * Climate stress shortens the median by up to climateMultiplierMax.
+ */
+export function calculateConfigDrivenLifecycle(
+  systemType: ConfigDrivenSystemType,
+  resolvedInstall: ResolvedInstallInput,
+  property: PropertyContext,
+  climate: ResolvedClimateContext
+): LifecycleOutput {
+  const config = SYSTEM_CONFIGS[systemType];
+  const profile = CONFIG_DRIVEN_PROFILES[systemType];
+
+  // climateMultiplier runs 0.80 (harshest) → 1.0; scale stress into the system's max reduction
+  const climateStress = Math.min(1, Math.max(0, (1 - climate.climateMultiplier) / 0.2));
+  const climateReduction = climateStress * config.climateMultiplierMax;
+  const median = config.baselineLifespan * (1 - climateReduction);
+
+  let adjustedMin = Math.max(
+    Math.round(median - WINDOW_Z * config.sigma),
+    Math.round(config.baselineLifespan * 0.6) // Floor: never reduce below 60%
+  );
+  let adjustedMax = Math.round(median + WINDOW_Z * config.sigma);
+
+  // Build quality degradation (Sprint 1)
+  const bqDegradation = getBuildQualityDegradation(property.buildQuality);
+  if (bqDegradation > 0) {
+    adjustedMin = Math.round(adjustedMin * (1 - bqDegradation));
+    adjustedMax = Math.round(adjustedMax * (1 - bqDegradation));
+  }
+
+  const baseInstall = resolvedInstall.installYear || property.yearBuilt;
+  const uncertainty = windowUncertaintyFromConfidence(resolvedInstall.confidenceScore);
+
+  const replacementWindow: ReplacementWindow = {
+    earlyYear: baseInstall + adjustedMin,
+    likelyYear: baseInstall + Math.round((adjustedMin + adjustedMax) / 2),
+    lateYear: baseInstall + adjustedMax,
+    windowUncertainty: uncertainty,
+    rationale: resolvedInstall.rationale
+  };
+
+  const costs = config.replacementCostRange;
+  const costConfidence = deriveCostConfidence(null, resolvedInstall.installSource, climate.climateConfidence);
+  const { typicalLow, typicalHigh } = deriveTypicalBand(costs.min, costs.max, costConfidence);
+
+  const lifespanDrivers: LifespanDriver[] = [];
+  if (climateReduction >= 0.03) {
+    lifespanDrivers.push({
+      factor: profile.climateDriver.factor,
+      impact: 'decrease',
+      severity: climateReduction >= 0.10 ? 'medium' : 'low',
+      description: profile.climateDriver.description
+    });
+  }
+  if (bqDegradation > 0) {
+    lifespanDrivers.push({
+      factor: 'Construction quality',
+      impact: 'decrease',
+      severity: bqDegradation >= 0.20 ? 'medium' : 'low',
+      description: 'Lower construction quality correlates with shorter system lifespan'
+    });
+  }
+
+  return {
+    systemId: systemType,
+    systemLabel: config.displayName,
+    category: profile.category,
+    replacementWindow,
+    capitalCost: {
+      low: costs.min,
+      high: costs.max,
+      typicalLow,
+      typicalHigh,
+      costDrivers: profile.costDrivers
+    },
+    lifespanDrivers,
+    maintenanceEffect: profile.maintenanceEffect,
+    disclosureNote: resolvedInstall.installSource === 'heuristic'
+      ? profile.disclosure.heuristic
+      : profile.disclosure.known,
+    climateZone: climate.climateZone,
+    climateConfidence: climate.climateConfidence,
+    costConfidence,
+  };
+}
+
 /**
  * Main pure calculator entry point
  * Accepts ResolvedClimateContext (new) or RegionContext (backward compat via shim)
  */
 export function calculateSystemLifecycle(
-  systemType: 'hvac' | 'roof' | 'water_heater',
+  systemType: SystemType,
   resolvedInstall: ResolvedInstallInput,
   property: PropertyContext,
   region: RegionContext | ResolvedClimateContext
@@ -885,6 +1204,9 @@ export function calculateSystemLifecycle(
     case 'roof':
       return calculateRoofLifecycle(resolvedInstall, property, climate);
     default:
+      if (isConfigDrivenSystem(systemType)) {
+        return calculateConfigDrivenLifecycle(systemType, resolvedInstall, property, climate);
+      }
       throw new Error(`Unknown system type: ${systemType}`);
   }
 }
@@ -981,12 +1303,7 @@ export function inferHVACTimeline(
       costDrivers: ['System type', 'SEER rating', 'Labor rates']
     },
     lifespanDrivers,
-    maintenanceEffect: {
-      shiftsTimeline: true,
-      expectedDelayYears: 3,
-      uncertaintyReduction: 'medium',
-      explanation: 'Regular maintenance typically extends HVAC lifespan and narrows uncertainty'
-    },
+    maintenanceEffect: DEDICATED_MAINTENANCE_EFFECTS.hvac,
     disclosureNote: 'Based on typical HVAC replacement patterns for your region'
   };
 }
@@ -1066,12 +1383,7 @@ export function inferWaterHeaterTimeline(
       costDrivers: ['Tank type', 'Fuel type', 'Labor rates']
     },
     lifespanDrivers: [],
-    maintenanceEffect: {
-      shiftsTimeline: false,
-      expectedDelayYears: 1,
-      uncertaintyReduction: 'low',
-      explanation: 'Routine maintenance reduces surprise failures but has minimal lifespan impact'
-    },
+    maintenanceEffect: DEDICATED_MAINTENANCE_EFFECTS.water_heater,
     disclosureNote: 'Water heaters are often replaced without permits; this estimate reflects typical patterns'
   };
 }
@@ -1129,14 +1441,23 @@ export function inferRoofTimeline(
   }
   
   const lifespan = ROOF_LIFESPANS[material] || ROOF_LIFESPANS.unknown;
-  const costs = ROOF_COSTS[material] || ROOF_COSTS.unknown;
+  const nationalCosts = ROOF_COSTS[material] || ROOF_COSTS.unknown;
   const baseInstall = install.installYear || yearBuilt;
   const climateAdjustment = region.isHotHumid ? -3 : 0;
+
+  // Measured geometry scales cost by area and complexity, and shifts lifespan
+  const geometry = property.roofGeometry;
+  const geometryLifespan = roofGeometryLifespan(geometry, material);
+  const costFactor = geometry ? roofAreaCostFactor(geometry.areaSqft) * roofComplexityCostFactor(geometry) : 1;
+  const costs = {
+    min: Math.round((nationalCosts.min * costFactor) / 100) * 100,
+    max: Math.round((nationalCosts.max * costFactor) / 100) * 100,
+  };
   
   const replacementWindow: ReplacementWindow = {
-    earlyYear: baseInstall + lifespan.min + climateAdjustment,
-    likelyYear: baseInstall + Math.round((lifespan.min + lifespan.max) / 2) + climateAdjustment,
-    lateYear: baseInstall + lifespan.max,
+    earlyYear: baseInstall + lifespan.min + climateAdjustment + geometryLifespan.years,
+    likelyYear: baseInstall + Math.round((lifespan.min + lifespan.max) / 2) + climateAdjustment + geometryLifespan.years,
+    lateYear: baseInstall + lifespan.max + geometryLifespan.years,
     windowUncertainty: windowWidth,
     rationale: install.rationale
   };
@@ -1158,6 +1479,7 @@ export function inferRoofTimeline(
       description: 'Florida weather can accelerate roof wear'
     });
   }
+  lifespanDrivers.push(...geometryLifespan.drivers);
   
   return {
     systemId: 'roof',
@@ -1168,15 +1490,10 @@ export function inferRoofTimeline(
     capitalCost: {
       low: costs.min,
       high: costs.max,
-      costDrivers: ['Material', 'Roof pitch', 'Insurance requirements']
+      costDrivers: roofCostDrivers(geometry)
     },
     lifespanDrivers,
-    maintenanceEffect: {
-      shiftsTimeline: false,
-      expectedDelayYears: 0,
-      uncertaintyReduction: 'low',
-      explanation: 'Roof maintenance reduces leak risk but does not meaningfully extend lifespan'
-    },
+    maintenanceEffect: DEDICATED_MAINTENANCE_EFFECTS.roof,
     disclosureNote: 'Roofs vary widely; this window reflects typical outcomes for similar homes.'
   };
 }
@@ -1184,22 +1501,87 @@ export function inferRoofTimeline(
 /**
  * @deprecated Use resolveInstallAuthority() + calculateSystemLifecycle() instead
  */
-export function inferSystemTimeline(
-  systemType: 'hvac' | 'roof' | 'water_heater',
+export function inferConfigDrivenTimeline(
+  systemType: ConfigDrivenSystemType,
   property: PropertyContext,
   region: RegionContext,
   permits: PermitRecord[]
 ): InferredTimeline {
+  const { yearBuilt } = property;
+  const label = SYSTEM_CONFIGS[systemType].displayName;
+
+  let resolved: ResolvedInstallInput;
+  if (hasValidPermit(systemType, permits)) {
+    resolved = {
+      installYear: extractPermitYear(systemType, permits),
+      installSource: 'permit_verified',
+      confidenceScore: 0.85,
+      replacementStatus: 'replaced',
+      rationale: `${label} replacement verified via building permit`
+    };
+  } else {
+    const inferred = inferRenewalInstallYear(systemType, yearBuilt);
+    resolved = {
+      installYear: inferred.installYear,
+      installSource: 'heuristic',
+      confidenceScore: 0.30,
+      replacementStatus: 'unknown',
+      rationale: inferred.rationale
+    };
+  }
+
+  const lifecycle = calculateConfigDrivenLifecycle(systemType, resolved, property, shimRegionToClimate(region));
+
+  return {
+    systemId: lifecycle.systemId,
+    systemLabel: lifecycle.systemLabel,
+    category: lifecycle.category,
+    install: {
+      installYear: resolved.installYear,
+      installSource: mapInstallSourceToLegacy(resolved.installSource),
+      dataQuality: dataQualityFromConfidence(resolved.confidenceScore),
+      rationale: resolved.rationale
+    },
+    replacementWindow: lifecycle.replacementWindow,
+    capitalCost: {
+      low: lifecycle.capitalCost.low,
+      high: lifecycle.capitalCost.high,
+      costDrivers: lifecycle.capitalCost.costDrivers
+    },
+    lifespanDrivers: lifecycle.lifespanDrivers,
+    maintenanceEffect: lifecycle.maintenanceEffect,
+    disclosureNote: lifecycle.disclosureNote
+  };
+}
+
+/**
+ * @deprecated Use resolveInstallAuthority() + calculateSystemLifecycle() instead
+ */
+export function inferSystemTimeline(
+  systemType: SystemType,
+  property: PropertyContext,
+  region: RegionContext,
+  permits: PermitRecord[],
+  maintenance?: MaintenanceAdherence | null
+): InferredTimeline {
+  let timeline: InferredTimeline;
   switch (systemType) {
     case 'hvac':
-      return inferHVACTimeline(property, region, permits);
+      timeline = inferHVACTimeline(property, region, permits);
+      break;
     case 'water_heater':
-      return inferWaterHeaterTimeline(property, region, permits);
+      timeline = inferWaterHeaterTimeline(property, region, permits);
+      break;
     case 'roof':
-      return inferRoofTimeline(property, region, permits);
+      timeline = inferRoofTimeline(property, region, permits);
+      break;
     default:
-      throw new Error(`Unknown system type: ${systemType}`);
+      if (!isConfigDrivenSystem(systemType)) {
+        throw new Error(`Unknown system type: ${systemType}`);
+      }
+      timeline = inferConfigDrivenTimeline(systemType, property, region, permits);
   }
+  return applyMaintenanceAdherence(timeline, maintenance);
 }
 
 /**
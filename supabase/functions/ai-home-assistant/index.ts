@@ -10,12 +10,42 @@ import {
   type LifecycleOutput,
   type RegionContext
 } from '../_shared/systemInference.ts';
+import {
+  resolveLlmProvider,
+  llmConfigFromEnv,
+  runToolTurn,
+  type ChatMessage,
+  type LlmProvider,
+} from '../_shared/llmProvider.ts';
+import { ASSISTANT_TOOLS, ASSISTANT_MOCK_FIXTURES } from '../_shared/assistantTools.ts';
+import { formatSseEvent } from '../_shared/sse.ts';
+import { validateHomeAccess } from '../_shared/internalAuth.ts';
+import { isSystemType } from '../_shared/systemConfigs.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Response budgets (first pass / answer after a tool call); LLM_MAX_TOKENS overrides both
+const DEFAULT_MAX_TOKENS = 500;
+const DEFAULT_FOLLOW_UP_MAX_TOKENS = 600;
+
+/**
+ * Map provider failures to the status and copy the client shows.
+ * Shared by the JSON response and the stream's `error` event.
+ */
+function describeAIError(error: unknown): { status: number; error: string } {
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.includes('429') || message.includes('rate limit')) {
+    return { status: 429, error: 'Rate limit exceeded. Please try again later.' };
+  }
+  if (message.includes('402') || message.includes('payment')) {
+    return { status: 402, error: 'AI credits exhausted. Please add credits to continue.' };
+  }
+  return { status: 500, error: message };
+}
+
 /**
  * Extract and validate user ID from JWT token
  * Returns userId if valid, undefined if auth is not provided
@@ -349,10 +379,11 @@ serve(async (req) => {
   }
 
   try {
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
-    if (!lovableApiKey) {
-      throw new Error('LOVABLE_API_KEY not configured');
-    }
+    // Provider selected by LLM_PROVIDER (lovable | openai | anthropic | mock)
+    const llmConfig = llmConfigFromEnv((key) => Deno.env.get(key));
+    const llmProvider = resolveLlmProvider(llmConfig, ASSISTANT_MOCK_FIXTURES);
+    const maxTokens = llmConfig.maxTokens ?? DEFAULT_MAX_TOKENS;
+    const followUpMaxTokens = llmConfig.maxTokens ?? DEFAULT_FOLLOW_UP_MAX_TOKENS;
 
     // Create authenticated Supabase client with user's JWT
     const authHeader = req.headers.get('Authorization');
@@ -397,6 +428,8 @@ serve(async (req) => {
       nextGain: reqNextGain,
       // Onboarding contract gate
       lastTouchAt: reqLastTouchAt,
+      // Server-sent events instead of a single JSON body
+      stream = false,
     } = await req.json();
     
     console.log('[ai-home-assistant] Request:', { 
@@ -409,6 +442,7 @@ serve(async (req) => {
       visibleBaselineCount: visibleBaseline?.length ?? 0,
       isPlanningSession,
       interventionId,
+      stream,
       userId: userId ? 'present' : 'missing',
     });
 
@@ -419,8 +453,8 @@ serve(async (req) => {
     const copyProfile = getAdvisorCopyProfile(advisorState as AdvisorState, confidence, risk as RiskLevel);
     
     // Generate AI response with governed style
-    const response = await generateAIResponse(
-      lovableApiKey, 
+    const respond = (events?: AssistantStreamEvents) => generateAIResponse(
+      { provider: llmProvider, maxTokens, followUpMaxTokens, events },
       message, 
       propertyContext, 
       conversationHistory,
@@ -435,6 +469,12 @@ serve(async (req) => {
       reqNextGain,
       reqLastTouchAt
     );
+
+    if (stream) {
+      return streamAIResponse(respond);
+    }
+
+    const response = await respond();
     
     return new Response(JSON.stringify(response), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -442,27 +482,76 @@ serve(async (req) => {
   } catch (error) {
     console.error('[ai-home-assistant] Error:', error);
     
-    if (error.message?.includes('429') || error.message?.includes('rate limit')) {
-      return new Response(JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }), {
-        status: 429,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-    
-    if (error.message?.includes('402') || error.message?.includes('payment')) {
-      return new Response(JSON.stringify({ error: 'AI credits exhausted. Please add credits to continue.' }), {
-        status: 402,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-    
-    return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
+    const { status, error: errorMessage } = describeAIError(error);
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
 });
 
+// ============================================================================
+// STREAMING RESPONSE (SSE)
+// ============================================================================
+
+/**
+ * Progress callbacks for a streamed turn. Absent on the JSON path.
+ */
+interface AssistantStreamEvents {
+  onToken: (text: string) => void;
+  onToolCall: (name: string) => void;
+  onToolResult: (name: string, result: string) => void;
+}
+
+/**
+ * Stream one assistant turn as server-sent events.
+ *
+ * EVENT CONTRACT:
+ * - `token`       { text }            answer text, in order
+ * - `tool_call`   { name }            a tool is running; discard streamed text so far
+ *                                     (pre-tool narration, same as the JSON path)
+ * - `tool_result` { name, result }    tool output, delivered BEFORE the answer streams
+ *                                     so domain artifacts render first (Validation First)
+ * - `done`        full JSON response  authoritative final message, suggestions, focus
+ * - `error`       { error, status }   terminal; mapped like the JSON path's 429/402/500
+ */
+function streamAIResponse(
+  respond: (events: AssistantStreamEvents) => Promise<unknown>
+): Response {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(formatSseEvent(event, data)));
+      };
+
+      try {
+        const response = await respond({
+          onToken: (text) => send('token', { text }),
+          onToolCall: (name) => send('tool_call', { name }),
+          onToolResult: (name, result) => send('tool_result', { name, result }),
+        });
+        send('done', response);
+      } catch (error) {
+        console.error('[ai-home-assistant] Stream error:', error);
+        send('error', describeAIError(error));
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
 // ============================================================================
 // ENRICHED SYSTEM CONTEXT (Canonical Truth + Runtime Lifecycle Calculation)
 // ============================================================================
@@ -495,9 +584,8 @@ function enrichSystemWithLifecycle(
 ): EnrichedSystemContext | null {
   const currentYear = new Date().getFullYear();
   
-  // Only process known system types
-  const validKinds = ['hvac', 'roof', 'water_heater'];
-  if (!validKinds.includes(system.kind)) {
+  // Only process known system types (every SYSTEM_CONFIGS entry has a lifecycle)
+  if (!isSystemType(system.kind)) {
     console.log(`[enrichSystemWithLifecycle] Skipping unknown kind: ${system.kind}`);
     return null;
   }
@@ -513,7 +601,7 @@ function enrichSystemWithLifecycle(
   
   // Calculate lifecycle using pure math
   const lifecycle = calculateSystemLifecycle(
-    system.kind as 'hvac' | 'roof' | 'water_heater',
+    system.kind,
     resolvedInstall,
     property,
     region
@@ -699,7 +787,7 @@ function resolveSystemFocus(args: {
 }
 
 async function generateAIResponse(
-  apiKey: string, 
+  llm: { provider: LlmProvider; maxTokens: number; followUpMaxTokens: number; events?: AssistantStreamEvents },
   message: string, 
   context: any, 
   history: any[] = [],
@@ -716,305 +804,60 @@ async function generateAIResponse(
 ) {
   const systemPrompt = createSystemPrompt(context, copyProfile, focusSystem, baselineSource, visibleBaseline, isPlanningSession, triggerReason, strengthScore, nextGain, lastTouchAt);
   
-  const messages = [
+  const messages: ChatMessage[] = [
     { role: 'system', content: systemPrompt },
     ...history.slice(-6),
     { role: 'user', content: message }
   ];
 
-  const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'google/gemini-3-flash-preview',
-      messages,
-      max_tokens: 500,
-      temperature: 0.7,
-      tools: [
-        {
-          type: 'function',
-          function: {
-            name: 'schedule_maintenance',
-            description: 'Schedule a maintenance task for the user',
-            parameters: {
-              type: 'object',
-              properties: {
-                system: { type: 'string', description: 'System that needs maintenance' },
-                task: { type: 'string', description: 'Maintenance task description' },
-                urgency: { type: 'string', enum: ['low', 'medium', 'high'] },
-                estimated_cost: { type: 'number', description: 'Estimated cost in USD' }
-              },
-              required: ['system', 'task', 'urgency'],
-              additionalProperties: false
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'get_contractor_recommendations',
-            description: 'Get local contractor recommendations for a specific service',
-            parameters: {
-              type: 'object',
-              properties: {
-                service_type: { type: 'string', description: 'Type of service needed' },
-                urgency: { type: 'string', enum: ['low', 'medium', 'high'] }
-              },
-              required: ['service_type'],
-              additionalProperties: false
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'calculate_cost_impact',
-            description: 'Calculate cost information for repairs, replacements, or NEW installations. Works for EXISTING systems (provides replacement timing + emergency vs planned costs) and PROPOSED additions (provides typical installation cost ranges).',
-            parameters: {
-              type: 'object',
-              properties: {
-                repair_type: { type: 'string', description: 'Type of repair, system, or addition (e.g., "hvac", "mini_split", "water_heater")' },
-                delay_months: { type: 'number', description: 'Months to delay the work (for existing systems only)' },
-                quantity: { type: 'number', description: 'Number of units or zones (for proposed additions, defaults to 1)' }
-              },
-              required: ['repair_type'],
-              additionalProperties: false
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'update_system_info',
-            description: 'Update system installation information based on what the user tells you. Use this ONLY when the user provides SPECIFIC information about when a system was installed, replaced, or is original to the home. Do NOT use if the user is vague or uncertain.',
-            parameters: {
-              type: 'object',
-              properties: {
-                system_type: { 
-                  type: 'string', 
-                  enum: ['hvac', 'roof', 'water_heater'],
-                  description: 'The type of system being updated' 
-                },
-                install_year: { 
-                  type: 'number', 
-                  description: 'The SPECIFIC year the system was installed (e.g., 2008). Do NOT guess or infer — only provide if user stated explicitly.' 
-                },
-                replacement_status: { 
-                  type: 'string', 
-                  enum: ['original', 'replaced', 'unknown'],
-                  description: 'Whether this is the original system from when the home was built, a replacement, or unknown' 
-                },
-                knowledge_source: {
-                  type: 'string',
-                  enum: ['memory', 'receipt', 'permit', 'inspection'],
-                  description: 'How the user knows this information'
-                }
-              },
-              required: ['system_type', 'replacement_status'],
-              additionalProperties: false
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'record_home_event',
-            description: 'Record a home event to the permanent home record (Carfax for the Home). Use for: discovering new appliances/systems mentioned in conversation, recording issues, diagnoses, recommendations, repairs, user decisions, and status changes. Events are immutable — status changes create new linked events.',
-            parameters: {
-              type: 'object',
-              properties: {
-                event_type: {
-                  type: 'string',
-                  enum: ['system_discovered', 'issue_reported', 'diagnosis', 'recommendation', 'repair_completed', 'maintenance_performed', 'replacement', 'user_decision', 'contractor_referred', 'status_change'],
-                  description: 'The type of event to record'
-                },
-                system_kind: {
-                  type: 'string',
-                  description: 'The kind of system or appliance (e.g., washing_machine, dryer, refrigerator, hvac, roof, dishwasher, hot_tub, garbage_disposal)'
-                },
-                title: {
-                  type: 'string',
-                  description: 'Short human-readable summary of the event'
-                },
-                description: {
-                  type: 'string',
-                  description: 'Detailed description of the event'
-                },
-                severity: {
-                  type: 'string',
-                  enum: ['info', 'minor', 'moderate', 'major'],
-                  description: 'Severity level (default: info)'
-                },
-                cost_estimate_low: {
-                  type: 'number',
-                  description: 'Low end of estimated cost range'
-                },
-                cost_estimate_high: {
-                  type: 'number',
-                  description: 'High end of estimated cost range'
-                },
-                manufacturer: {
-                  type: 'string',
-                  description: 'Brand/manufacturer (for system_discovered events)'
-                },
-                model: {
-                  type: 'string',
-                  description: 'Model number (for system_discovered events)'
-                },
-                age_estimate_years: {
-                  type: 'number',
-                  description: 'Approximate age in years (for system_discovered events)'
-                },
-                resolution: {
-                  type: 'string',
-                  description: 'Resolution description (for repair_completed, user_decision events)'
-                },
-                related_event_id: {
-                  type: 'string',
-                  description: 'UUID of a prior event to link to (for follow-ups, status changes)'
-                },
-                metadata: {
-                  type: 'object',
-                  description: 'Additional structured data (symptom, probable_cause, decision, etc.)'
-                }
-              },
-              required: ['event_type', 'system_kind', 'title'],
-              additionalProperties: false
-            }
-          }
+  const turn = await runToolTurn(llm.provider, messages, {
+    tools: ASSISTANT_TOOLS,
+    executeTool: (toolCall) => handleFunctionCall({
+      name: toolCall.name,
+      arguments: toolCall.arguments,
+    }, context),
+    // Two-pass pattern: execute tool, then let the LLM compose a real answer.
+    // The follow-up call carries no tools, which prevents infinite chaining (max 2 LLM calls)
+    followUpInstruction: 'The tool has already executed successfully. Respond naturally to the user: acknowledge what was recorded AND answer their original question. Do not reference tool names, IDs, or JSON. Speak as a knowledgeable home advisor.',
+    maxTokens: llm.maxTokens,
+    followUpMaxTokens: llm.followUpMaxTokens,
+    temperature: 0.7,
+    ...(llm.events
+      ? {
+          onToken: llm.events.onToken,
+          onToolCall: (call) => llm.events!.onToolCall(call.name),
+          onToolResult: (call, result) => llm.events!.onToolResult(call.name, result),
         }
-      ],
-      tool_choice: 'auto'
-    }),
+      : {}),
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('[ai-home-assistant] API error:', response.status, errorText);
-    throw new Error(`API error ${response.status}: ${errorText}`);
-  }
-
-  const data = await response.json();
-  const aiMessage = data.choices?.[0]?.message;
-  
-  if (!aiMessage) {
-    throw new Error('No response from AI');
-  }
-  
-  if (aiMessage.tool_calls && aiMessage.tool_calls.length > 0) {
-    const toolCall = aiMessage.tool_calls[0];
-    const functionResult = await handleFunctionCall({
-      name: toolCall.function.name,
-      arguments: toolCall.function.arguments
-    }, context);
-
-    // Guard: tool_call_id must exist for the follow-up LLM call.
-    // If missing, fall back to returning the raw tool result.
-    if (!toolCall.id) {
-      console.warn('[ai-home-assistant] tool_call_id missing, skipping follow-up call');
-      return {
-        message: typeof functionResult === 'string' ? functionResult : JSON.stringify(functionResult),
-        functionCall: toolCall.function,
-        functionResult,
-      };
+  if (turn.toolCall) {
+    const functionResult = turn.toolResult;
+    if (turn.followUpFailed) {
+      // Fallback: if the second call failed, return the tool result directly
+      console.error('[ai-home-assistant] Follow-up LLM call failed, returning tool result');
     }
 
-    // ── Two-pass pattern: execute tool, then let the LLM compose a real answer ──
-    const followUpMessages = [
-      ...messages, // original system prompt + history + user message
-      {
-        role: 'assistant',
-        tool_calls: aiMessage.tool_calls,
-        content: aiMessage.content || null,
-      },
-      {
-        role: 'tool',
-        tool_call_id: toolCall.id,
-        content: typeof functionResult === 'string' ? functionResult : JSON.stringify(functionResult),
-      },
-      {
-        role: 'system',
-        content: 'The tool has already executed successfully. Respond naturally to the user: acknowledge what was recorded AND answer their original question. Do not reference tool names, IDs, or JSON. Speak as a knowledgeable home advisor.',
-      },
-    ];
-
-    try {
-      const followUpResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'google/gemini-3-flash-preview',
-          messages: followUpMessages,
-          max_tokens: 600,
-          temperature: 0.7,
-          // Explicitly NO tools / tool_choice — prevents infinite chaining (max 2 LLM calls)
-        }),
-      });
-
-      if (followUpResponse.ok) {
-        const followUpData = await followUpResponse.json();
-        const followUpContent = followUpData.choices?.[0]?.message?.content;
-
-        if (followUpContent) {
-          const response: Record<string, any> = {
-            message: followUpContent,
-            functionCall: toolCall.function,
-            functionResult,
-            suggestions: generateFollowUpSuggestions(message, context),
-          };
-          
-          // If the tool result contains a system reference, inject focus metadata
-          if (typeof functionResult === 'string') {
-            try {
-              const parsed = JSON.parse(functionResult);
-              if (parsed.systemKey) {
-                response.focus = { type: 'system', systemId: parsed.systemKey };
-              } else if (parsed.type === 'contractor_recommendations' && parsed.service) {
-                response.focus = { type: 'contractor_list', query: parsed.service, systemId: parsed.systemId };
-              }
-            } catch {
-              // Not JSON, skip focus injection
-            }
-          }
-          
-          return response;
-        }
-      } else {
-        console.error('[ai-home-assistant] Follow-up LLM call failed:', followUpResponse.status);
-      }
-    } catch (followUpErr) {
-      console.error('[ai-home-assistant] Follow-up LLM call error:', followUpErr);
-    }
-
-    // Fallback: if the second call failed, return the tool result directly
-    const fallbackResponse: Record<string, any> = {
-      message: typeof functionResult === 'string' ? functionResult : JSON.stringify(functionResult),
-      functionCall: toolCall.function,
+    const toolResponse: Record<string, any> = {
+      message: turn.content ?? functionResult,
+      functionCall: { name: turn.toolCall.name, arguments: turn.toolCall.arguments },
       functionResult,
       suggestions: generateFollowUpSuggestions(message, context),
     };
-    
-    // Inject focus metadata if available
-    if (typeof functionResult === 'string') {
-      try {
-        const parsed = JSON.parse(functionResult);
-        if (parsed.systemKey) {
-          fallbackResponse.focus = { type: 'system', systemId: parsed.systemKey };
-        } else if (parsed.type === 'contractor_recommendations' && parsed.service) {
-          fallbackResponse.focus = { type: 'contractor_list', query: parsed.service, systemId: parsed.systemId };
-        }
-      } catch {
-        // Not JSON, skip focus injection
+
+    // If the tool result contains a system reference, inject focus metadata
+    try {
+      const parsed = JSON.parse(functionResult ?? '');
+      if (parsed.systemKey) {
+        toolResponse.focus = { type: 'system', systemId: parsed.systemKey };
+      } else if (parsed.type === 'contractor_recommendations' && parsed.service) {
+        toolResponse.focus = { type: 'contractor_list', query: parsed.service, systemId: parsed.systemId };
       }
+    } catch {
+      // Not JSON, skip focus injection
     }
-    
-    return fallbackResponse;
+
+    return toolResponse;
   }
 
   // Non-tool path: resolve system focus from active context or keyword detection
@@ -1025,7 +868,7 @@ async function generateAIResponse(
   });
 
   const nonToolResponse: any = {
-    message: aiMessage.content || 'I can help you with your home maintenance questions.',
+    message: turn.content || 'I can help you with your home maintenance questions.',
     suggestions: generateFollowUpSuggestions(message, context),
   };
 
@@ -1818,6 +1661,7 @@ async function handleFunctionCall(functionCall: any, context: any): Promise<stri
           .insert({
             home_id: homeId,
             user_id: userId,
+            recorded_by: userId,
             event_type: 'recommendation',
             title: task,
             description: `Scheduled maintenance: ${task}${costNote}`,
@@ -2508,6 +2352,16 @@ async function handleFunctionCall(functionCall: any, context: any): Promise<stri
             : 'I can\'t record this because you\'re not signed in.'
         });
       }
+
+      // Writes below use the service role, so RLS won't stop a viewer
+      if (!(await validateHomeAccess(homeId, userId, 'recordEvents'))) {
+        console.warn('[record_home_event] User lacks recordEvents on home:', homeId);
+        return JSON.stringify({
+          type: 'home_event_recorded',
+          success: false,
+          message: 'I can\'t record this because your access to this home is view-only.'
+        });
+      }
       
       try {
         const supabaseUrl = Deno.env.get('SUPABASE_URL');
@@ -2608,9 +2462,15 @@ async function handleFunctionCall(functionCall: any, context: any): Promise<stri
           ? { low: parsedArgs.cost_estimate_low, high: parsedArgs.cost_estimate_high }
           : null;
         
+        const costActual = typeof parsedArgs.cost_actual === 'number' && parsedArgs.cost_actual > 0
+          ? parsedArgs.cost_actual
+          : null;
+        
         // Build metadata with semantic sub-records
         const eventMetadata = parsedArgs.metadata || {};
         if (parsedArgs.resolution) eventMetadata.resolution = parsedArgs.resolution;
+        // Kept even when no single asset matched, so reported costs can still be attributed
+        if (systemKind) eventMetadata.system_kind = systemKind;
         
         // INSERT event (append-only — no updates ever)
         const { data: newEvent, error: eventError } = await serviceSupabase
@@ -2618,6 +2478,7 @@ async function handleFunctionCall(functionCall: any, context: any): Promise<stri
           .insert({
             home_id: homeId,
             user_id: userId,
+            recorded_by: userId,
             asset_id: assetId,
             event_type: eventType,
             title: parsedArgs.title,
@@ -2625,6 +2486,7 @@ async function handleFunctionCall(functionCall: any, context: any): Promise<stri
             severity: parsedArgs.severity || 'info',
             status: eventStatus,
             cost_estimated: costEstimated,
+            cost_actual: costActual,
             source,
             related_event_id: parsedArgs.related_event_id || null,
             metadata: eventMetadata,
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { decodeSerialDate, type SerialDate } from '../_shared/serialDecoding.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -23,11 +24,23 @@ const BRAND_PATTERNS = {
   'goodman': /goodman/i,
   'york': /york/i,
   'ruud': /ruud/i,
+  'bryant': /bryant/i,
+  'american_standard': /american standard/i,
+  'amana': /amana/i,
+  'ao_smith': /\ba\.?\s?o\.?\s?smith\b/i,
+  'bradford_white': /bradford white/i,
   'hayward': /hayward/i,
   'pentair': /pentair/i,
   'jandy': /jandy/i,
 };
 
+// Display names for brands that don't read right with a capitalized key
+const BRAND_DISPLAY_NAMES: Record<string, string> = {
+  american_standard: 'American Standard',
+  ao_smith: 'A.O. Smith',
+  bradford_white: 'Bradford White',
+};
+
 // Model number patterns
 const MODEL_PATTERNS = [
   /model[:\s]*([A-Z0-9\-\.]+)/i,
@@ -71,6 +84,9 @@ interface AnalysisResult {
   serial?: string;
   system_type?: string;
   manufacture_year?: number;
+  manufacture_month?: number;
+  /** Deterministic date decode of the serial, when the brand's format is known */
+  serial_date?: SerialDate;
   capacity_rating?: string;
   fuel_type?: string;
   confidence_scores: {
@@ -248,7 +264,7 @@ function analyzeDeviceText(text: string): AnalysisResult {
   // Extract brand
   for (const [brand, pattern] of Object.entries(BRAND_PATTERNS)) {
     if (pattern.test(text)) {
-      result.brand = brand.charAt(0).toUpperCase() + brand.slice(1);
+      result.brand = BRAND_DISPLAY_NAMES[brand] ?? brand.charAt(0).toUpperCase() + brand.slice(1);
       result.confidence_scores.brand = 0.85;
       break;
     }
@@ -326,12 +342,12 @@ function analyzeDeviceText(text: string): AnalysisResult {
     result.fuel_type = 'heat_pump';
   }
 
-  // Attempt to extract manufacture year from serial
-  if (result.serial && result.brand) {
-    const year = extractManufactureYear(result.serial, result.brand.toLowerCase());
-    if (year) {
-      result.manufacture_year = year;
-    }
+  // Decode manufacture date from serial
+  const serialDate = decodeSerialDate(result.brand, result.serial);
+  if (serialDate) {
+    result.serial_date = serialDate;
+    result.manufacture_year = serialDate.year;
+    result.manufacture_month = serialDate.month ?? undefined;
   }
 
   // =========================================================================
@@ -367,7 +383,11 @@ function analyzeDeviceText(text: string): AnalysisResult {
     result.habitta_message = `This looks like a ${systemName}.`;
     
     // Add detail if we have supporting info
-    if (result.manufacture_year) {
+    if (result.serial_date?.month) {
+      const built = new Date(Date.UTC(result.serial_date.year, result.serial_date.month - 1, 1))
+        .toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+      result.habitta_detail = `The serial number dates it to ${built}.`;
+    } else if (result.manufacture_year) {
       result.habitta_detail = `Likely installed around ${result.manufacture_year}.`;
     } else if (result.brand) {
       result.habitta_detail = `${result.brand} brand detected.`;
@@ -376,52 +396,3 @@ function analyzeDeviceText(text: string): AnalysisResult {
 
   return result;
 }
-
-function extractManufactureYear(serial: string, brand: string): number | undefined {
-  const currentYear = new Date().getFullYear();
-  
-  // Common patterns for different brands
-  switch (brand) {
-    case 'rheem':
-    case 'ruud':
-      // Rheem/Ruud format: First 4 digits are week/year (MMYY)
-      if (serial.length >= 4) {
-        const yearDigits = serial.substring(2, 4);
-        let year = 2000 + parseInt(yearDigits);
-        if (year > currentYear) year -= 100; // Handle 1900s
-        if (year >= 1970 && year <= currentYear) return year;
-      }
-      break;
-      
-    case 'carrier':
-    case 'trane':
-      // Carrier/Trane format: Position 4-5 are year
-      if (serial.length >= 5) {
-        const yearDigits = serial.substring(3, 5);
-        let year = 2000 + parseInt(yearDigits);
-        if (year > currentYear) year -= 100;
-        if (year >= 1970 && year <= currentYear) return year;
-      }
-      break;
-      
-    case 'goodman':
-      // Goodman format: Position 3-4 are year
-      if (serial.length >= 4) {
-        const yearDigits = serial.substring(2, 4);
-        let year = 2000 + parseInt(yearDigits);
-        if (year > currentYear) year -= 100;
-        if (year >= 1970 && year <= currentYear) return year;
-      }
-      break;
-      
-    default:
-      // Generic pattern: Look for 4-digit years
-      const yearMatch = serial.match(/20\d{2}|19\d{2}/);
-      if (yearMatch) {
-        const year = parseInt(yearMatch[0]);
-        if (year >= 1970 && year <= currentYear) return year;
-      }
-  }
-  
-  return undefined;
-}
\ No newline at end of file
@@ -0,0 +1,303 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { validateHomeAccess } from "../_shared/internalAuth.ts";
+import {
+  buildDefaultWarranty,
+  getWarrantyAlerts,
+  rederiveDefaultWarranty,
+  warrantyFromRow,
+  type AssetWarrantyRow,
+} from "../_shared/assetWarranty.ts";
+import {
+  buildCalendar,
+  deferralEvent,
+  taskEvent,
+  warrantyEvent,
+  type CalendarEvent,
+  type CalendarTaskRow,
+} from "../_shared/icalendar.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type AdminClient = ReturnType<typeof createClient>;
+
+/** Warranty deadlines this far out are included in the feed */
+const WARRANTY_HORIZON_DAYS = 730;
+/** Closed tasks drop out; open ones this far back still show (overdue) */
+const TASK_LOOKBACK_DAYS = 90;
+const REFRESH_HOURS = 12;
+
+interface CalendarFeedRow {
+  id: string;
+  home_id: string;
+  user_id: string;
+  token: string;
+  created_at: string;
+}
+
+/**
+ * calendar-feed: iCalendar subscription for a home's maintenance plan
+ *
+ * GET ?token=…  (no auth; the token is the credential)
+ *   → text/calendar with open maintenance_tasks, dated defer_with_date
+ *     decisions and warranty / registration deadlines for the feed's home
+ *
+ * POST (user JWT, body `action`):
+ * - get     { homeId }  → the caller's feed URL for the home, created on first use
+ * - rotate  { homeId }  → revokes the current URL and issues a new one
+ * - revoke  { homeId }  → turns the feed off
+ *
+ * Events are built by _shared/icalendar.ts, the same module the app uses for
+ * single-task .ics downloads.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  try {
+    if (req.method === 'GET') {
+      return await serveFeed(supabase, new URL(req.url).searchParams.get('token'));
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return json({ error: 'Missing authorization header' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (authError || !user) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { action, homeId } = body;
+    if (typeof homeId !== 'string' || !homeId) {
+      return json({ error: 'homeId is required' }, 400);
+    }
+    if (!(await validateHomeAccess(homeId, user.id))) {
+      return json({ error: 'Not a member of this home' }, 403);
+    }
+
+    switch (action) {
+      case 'get':
+        return json(feedResponse(await activeFeed(supabase, homeId, user.id) ?? await createFeed(supabase, homeId, user.id)));
+      case 'rotate':
+        await revokeFeed(supabase, homeId, user.id);
+        return json(feedResponse(await createFeed(supabase, homeId, user.id)));
+      case 'revoke':
+        await revokeFeed(supabase, homeId, user.id);
+        return json({ success: true });
+      default:
+        return json({ error: `Unknown action: ${action}` }, 400);
+    }
+  } catch (error) {
+    console.error('[calendar-feed] Error:', error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// ── Tokens ──
+
+function generateFeedToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function feedUrl(token: string): string {
+  const base = Deno.env.get('SUPABASE_URL')!.replace(/\/$/, '');
+  return `${base}/functions/v1/calendar-feed?token=${token}`;
+}
+
+function feedResponse(feed: CalendarFeedRow) {
+  const url = feedUrl(feed.token);
+  return {
+    url,
+    // Opens the subscribe prompt in Apple Calendar / Outlook
+    webcalUrl: url.replace(/^https?:/, 'webcal:'),
+    createdAt: feed.created_at,
+  };
+}
+
+async function activeFeed(supabase: AdminClient, homeId: string, userId: string): Promise<CalendarFeedRow | null> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select('id, home_id, user_id, token, created_at')
+    .eq('home_id', homeId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+async function createFeed(supabase: AdminClient, homeId: string, userId: string): Promise<CalendarFeedRow> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .insert({ home_id: homeId, user_id: userId, token: generateFeedToken() })
+    .select('id, home_id, user_id, token, created_at')
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+async function revokeFeed(supabase: AdminClient, homeId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('calendar_feeds')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('home_id', homeId)
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+  if (error) throw error;
+}
+
+// ── Feed ──
+
+async function serveFeed(supabase: AdminClient, token: string | null): Promise<Response> {
+  if (!token) {
+    return new Response('Missing token', { status: 400, headers: corsHeaders });
+  }
+
+  const { data: feed } = await supabase
+    .from('calendar_feeds')
+    .select('id, home_id, user_id, token, created_at')
+    .eq('token', token)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  // A member who left the home loses the feed with their access
+  if (!feed || !(await validateHomeAccess(feed.home_id, feed.user_id))) {
+    return new Response('Calendar not found', { status: 404, headers: corsHeaders });
+  }
+
+  const { data: home } = await supabase
+    .from('homes')
+    .select('address')
+    .eq('id', feed.home_id)
+    .maybeSingle();
+
+  const appUrl = (Deno.env.get('APP_URL') ?? 'https://habitta.app').replace(/\/$/, '');
+  const today = new Date().toISOString().slice(0, 10);
+  const events = [
+    ...(await taskEvents(supabase, feed.home_id, today, appUrl)),
+    ...(await deferralEvents(supabase, feed.home_id, appUrl)),
+    ...(await warrantyEvents(supabase, feed.home_id, today, appUrl)),
+  ];
+
+  await supabase
+    .from('calendar_feeds')
+    .update({ last_accessed_at: new Date().toISOString() })
+    .eq('id', feed.id);
+
+  const ics = buildCalendar(events, {
+    name: home?.address ? `Habitta · ${home.address}` : 'Habitta',
+    description: 'Maintenance, replacement plans and warranty deadlines from Habitta',
+    refreshHours: REFRESH_HOURS,
+  });
+
+  return new Response(ics, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="habitta.ics"',
+      'Cache-Control': 'private, max-age=900',
+    },
+  });
+}
+
+async function taskEvents(supabase: AdminClient, homeId: string, today: string, appUrl: string): Promise<CalendarEvent[]> {
+  const since = new Date(`${today}T00:00:00Z`);
+  since.setUTCDate(since.getUTCDate() - TASK_LOOKBACK_DAYS);
+
+  const { data: tasks, error } = await supabase
+    .from('maintenance_tasks')
+    .select('id, title, description, due_date, status, priority, category, cost')
+    .eq('home_id', homeId)
+    .not('status', 'in', '(completed,skipped)')
+    .gte('due_date', since.toISOString().slice(0, 10))
+    .order('due_date', { ascending: true })
+    .limit(500);
+  if (error) throw error;
+
+  return (tasks || [])
+    .map((task: CalendarTaskRow) => taskEvent(task, appUrl))
+    .filter((event: CalendarEvent | null): event is CalendarEvent => event !== null);
+}
+
+/**
+ * The latest dated deferral per system; earlier ones were superseded
+ */
+async function deferralEvents(supabase: AdminClient, homeId: string, appUrl: string): Promise<CalendarEvent[]> {
+  const { data: decisions, error } = await supabase
+    .from('decision_events')
+    .select('id, system_id, defer_until, user_notes, created_at, home_systems(system_key)')
+    .eq('home_id', homeId)
+    .eq('decision_type', 'defer_with_date')
+    .not('defer_until', 'is', null)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+
+  const seen = new Set<string>();
+  const events: CalendarEvent[] = [];
+  for (const d of decisions || []) {
+    const systemKey = d.home_systems?.system_key;
+    if (!systemKey || seen.has(d.system_id)) continue;
+    seen.add(d.system_id);
+    events.push(deferralEvent({ id: d.id, defer_until: d.defer_until, system_key: systemKey, user_notes: d.user_notes }, appUrl));
+  }
+  return events;
+}
+
+async function warrantyEvents(supabase: AdminClient, homeId: string, today: string, appUrl: string): Promise<CalendarEvent[]> {
+  const { data: assets, error } = await supabase
+    .from('home_assets')
+    .select('id, kind, manufacturer, install_date')
+    .eq('home_id', homeId)
+    .eq('status', 'active');
+  if (error) throw error;
+  if (!assets || assets.length === 0) return [];
+
+  const { data: warrantyRows } = await supabase
+    .from('asset_warranties')
+    .select('asset_id, parts_years, labor_years, coverage_start, parts_expires_on, labor_expires_on, transferable, registered_parts_years, registration_deadline, registered, source, confirmed_at')
+    .in('asset_id', assets.map((a: { id: string }) => a.id));
+
+  const rowsByAsset = new Map<string, AssetWarrantyRow>(
+    (warrantyRows || []).map((r: AssetWarrantyRow & { asset_id: string }) => [r.asset_id, r]),
+  );
+
+  const events: CalendarEvent[] = [];
+  for (const asset of assets) {
+    const stored = rowsByAsset.get(asset.id);
+    const ref = { kind: asset.kind, manufacturer: asset.manufacturer, installDate: asset.install_date };
+    const storedWarranty = stored ? warrantyFromRow(stored) : null;
+    // Read-only feed: a stale estimate is re-derived here, maintenance-alerts stores it
+    const warranty = (storedWarranty && rederiveDefaultWarranty(storedWarranty, ref))
+      ?? storedWarranty
+      ?? buildDefaultWarranty(ref);
+
+    const alerts = getWarrantyAlerts(warranty, asset.kind.replace(/_/g, ' '), {
+      today,
+      horizonDays: WARRANTY_HORIZON_DAYS,
+    });
+    for (const alert of alerts) {
+      events.push(warrantyEvent({ ...alert, assetId: asset.id, assetKind: asset.kind }, appUrl));
+    }
+  }
+  return events;
+}
@@ -0,0 +1,289 @@
+/**
+ * calibrate-cost-model - Feeds reported replacement costs back into the regional cost model
+ *
+ * ARCHITECTURE:
+ * - Batch job. Invoked by intelligence-scheduler (?job=cost-calibration) or by an admin
+ * - Pairs each replacement event with a reported cost (home_events.cost_actual)
+ *   with the band capital-timeline predicted for that home and system
+ *   (cost_predictions), and fits a correction factor per system × metro
+ * - Writes a NEW versioned cost_models row (labor indices carried over from
+ *   the active version) — never edits old versions
+ * - Consumers load the active row via _shared/regionalCost.ts
+ *
+ * Fitting:
+ * - Ratio = actual / predicted midpoint, with the previous actuals factor
+ *   backed out so corrections don't compound
+ * - Geometric mean of ratios, shrunk toward 1.0 by n / (n + SHRINKAGE_PRIOR)
+ * - Metro cells need MIN_METRO_SAMPLES; every system with data gets an 'all' cell
+ *
+ * Request body (all optional):
+ * - dryRun: boolean — fit and return, but do not write or activate
+ * - activate: boolean (default true) — make the new version the active one
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { validateInternalSecret } from '../_shared/internalAuth.ts';
+import { isSystemType, SYSTEM_CONFIGS, type SystemType } from '../_shared/systemConfigs.ts';
+import {
+  REGIONAL_COST_MODEL_NAME,
+  loadActiveRegionalCostModel,
+  type ActualsAdjustments,
+  type CostProvenance,
+} from '../_shared/regionalCost.ts';
+
+// ============== Constants ==============
+
+/** Pseudo-observations at ratio 1.0; a handful of reports can't swing a metro */
+const SHRINKAGE_PRIOR = 5;
+const MIN_METRO_SAMPLES = 3;
+
+/** Ratios outside this range are typos or partial jobs, not market signal */
+const MIN_RATIO = 0.25;
+const MAX_RATIO = 4;
+
+/** PostgREST returns at most 1000 rows per request; reads page at that size */
+const PAGE_SIZE = 1000;
+
+// ============== Types ==============
+
+interface CostObservation {
+  systemType: SystemType;
+  metro: string | null;
+  ratio: number;
+}
+
+interface PredictionRow {
+  home_id: string;
+  system_type: string | null;
+  estimated_cost_min: number | null;
+  estimated_cost_max: number | null;
+  market_factors: unknown;
+}
+
+interface ReplacementEventRow {
+  home_id: string;
+  cost_actual: number | string;
+  metadata: { system_kind?: string } | null;
+  home_assets: { kind: string | null } | null;
+}
+
+// ============== Helpers ==============
+
+function normalizeSystemType(raw: unknown): SystemType | null {
+  if (typeof raw !== 'string' || !raw) return null;
+  const key = raw.toLowerCase().replace(/_replacement$/, '');
+  if (key === 'electrical') return 'electrical_panel';
+  if (key === 'ac' || key === 'air_conditioner' || key === 'furnace') return 'hvac';
+  return isSystemType(key) ? key : null;
+}
+
+/**
+ * Every row of a query, read PAGE_SIZE rows at a time until a short page
+ */
+async function fetchAllPages<T>(
+  label: string,
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load ${label}: ${error.message}`);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// ============== Observation Gathering ==============
+
+async function gatherObservations(supabase: ReturnType<typeof createClient>) {
+  const counts = { events: 0, matched: 0, unmatched: 0, outliers: 0 };
+
+  const predictions = await fetchAllPages<PredictionRow>('cost predictions', (from, to) => supabase
+    .from('cost_predictions')
+    .select('home_id, system_type, estimated_cost_min, estimated_cost_max, market_factors')
+    .eq('prediction_type', 'replacement')
+    .not('home_id', 'is', null)
+    .order('id')
+    .range(from, to));
+
+  const predictionByKey = new Map<string, { midpoint: number; provenance: CostProvenance | null }>();
+  for (const p of predictions) {
+    if (p.estimated_cost_min == null || p.estimated_cost_max == null) continue;
+    // Stored in cents
+    const midpoint = (p.estimated_cost_min + p.estimated_cost_max) / 2 / 100;
+    if (midpoint <= 0) continue;
+    predictionByKey.set(`${p.home_id}:${p.system_type}`, {
+      midpoint,
+      provenance: (p.market_factors ?? null) as CostProvenance | null,
+    });
+  }
+
+  const events = await fetchAllPages<ReplacementEventRow>('replacement events', (from, to) => supabase
+    .from('home_events')
+    .select('home_id, cost_actual, metadata, home_assets(kind)')
+    .eq('event_type', 'replacement')
+    .not('cost_actual', 'is', null)
+    .order('id')
+    .range(from, to));
+
+  const observations: CostObservation[] = [];
+  for (const event of events) {
+    counts.events++;
+    const systemType = normalizeSystemType(event.home_assets?.kind ?? event.metadata?.system_kind);
+    const prediction = systemType ? predictionByKey.get(`${event.home_id}:${systemType}`) : undefined;
+    if (!systemType || !prediction) {
+      counts.unmatched++;
+      continue;
+    }
+
+    // Back out the correction already applied so factors don't compound
+    const previousFactor = prediction.provenance?.actuals?.factor ?? 1;
+    const ratio = Number(event.cost_actual) / (prediction.midpoint / previousFactor);
+    if (!Number.isFinite(ratio) || ratio < MIN_RATIO || ratio > MAX_RATIO) {
+      counts.outliers++;
+      continue;
+    }
+
+    observations.push({ systemType, metro: prediction.provenance?.metro ?? null, ratio });
+    counts.matched++;
+  }
+
+  return { observations, counts };
+}
+
+// ============== Fitting ==============
+
+function shrunkFactor(ratios: number[]): number {
+  const n = ratios.length;
+  const meanLog = ratios.reduce((sum, r) => sum + Math.log(r), 0) / n;
+  return Math.round(Math.exp(meanLog * (n / (n + SHRINKAGE_PRIOR))) * 1000) / 1000;
+}
+
+function fitAdjustments(observations: CostObservation[]): ActualsAdjustments {
+  const adjustments: ActualsAdjustments = {};
+
+  for (const systemType of Object.keys(SYSTEM_CONFIGS) as SystemType[]) {
+    const forSystem = observations.filter(o => o.systemType === systemType);
+    if (forSystem.length === 0) continue;
+
+    const cells: Record<string, { factor: number; count: number }> = {
+      all: { factor: shrunkFactor(forSystem.map(o => o.ratio)), count: forSystem.length },
+    };
+
+    const byMetro = new Map<string, number[]>();
+    for (const o of forSystem) {
+      if (!o.metro) continue;
+      byMetro.set(o.metro, [...(byMetro.get(o.metro) ?? []), o.ratio]);
+    }
+    for (const [metro, ratios] of byMetro) {
+      if (ratios.length < MIN_METRO_SAMPLES) continue;
+      cells[metro] = { factor: shrunkFactor(ratios), count: ratios.length };
+    }
+
+    adjustments[systemType] = cells;
+  }
+
+  return adjustments;
+}
+
+// ============== Handler ==============
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    // Auth: internal scheduler call, or an admin user
+    if (!validateInternalSecret(req)) {
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+      const { data: { user } } = token
+        ? await supabase.auth.getUser(token)
+        : { data: { user: null } };
+
+      const { data: isAdmin } = user
+        ? await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' })
+        : { data: false };
+
+      if (!isAdmin) {
+        return new Response(
+          JSON.stringify({ error: 'Admin access required' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const dryRun = body?.dryRun === true;
+    const activate = body?.activate !== false;
+
+    const activeModel = await loadActiveRegionalCostModel(supabase);
+    if (!activeModel) throw new Error('No active regional cost model to calibrate');
+
+    const { observations, counts } = await gatherObservations(supabase);
+    const actualAdjustments = fitAdjustments(observations);
+
+    const fittedAt = new Date().toISOString();
+    const version = `regional_cost_${fittedAt.replace(/[-:]/g, '').replace(/\..*$/, '')}`;
+
+    const adjustedSystems = Object.keys(actualAdjustments);
+    console.log(`[calibrate-cost-model] ${version}: ${counts.matched}/${counts.events} replacement costs matched, adjusted ${adjustedSystems.join(', ') || 'none'}`);
+
+    if (dryRun || adjustedSystems.length === 0) {
+      return new Response(
+        JSON.stringify({ version, written: false, counts, actualAdjustments }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('cost_models')
+      .insert({
+        model_name: REGIONAL_COST_MODEL_NAME,
+        version,
+        is_active: false,
+        labor_indices: activeModel.laborIndices,
+        actual_adjustments: actualAdjustments,
+        fitted_at: fittedAt,
+      })
+      .select('id')
+      .single();
+
+    if (insertError) throw new Error(`Failed to store cost model: ${insertError.message}`);
+
+    if (activate) {
+      // Deactivate first so readers never see two active versions
+      const { error: deactivateError } = await supabase
+        .from('cost_models')
+        .update({ is_active: false })
+        .eq('model_name', REGIONAL_COST_MODEL_NAME)
+        .eq('is_active', true);
+      if (deactivateError) throw new Error(`Failed to deactivate previous cost model: ${deactivateError.message}`);
+
+      const { error: activateError } = await supabase
+        .from('cost_models')
+        .update({ is_active: true })
+        .eq('id', inserted.id);
+      if (activateError) throw new Error(`Failed to activate cost model: ${activateError.message}`);
+    }
+
+    return new Response(
+      JSON.stringify({ id: inserted.id, version, written: true, active: activate, counts, actualAdjustments }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('[calibrate-cost-model] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Calibration failed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,404 @@
+/**
+ * calibrate-failure-curves - Fits failure curves from observed lifetimes
+ *
+ * ARCHITECTURE:
+ * - Batch job. Invoked by intelligence-scheduler (?job=calibration) or by an admin
+ * - Gathers lifetime observations, fits a Weibull curve per system × climate zone,
+ *   and writes a NEW versioned row to ml_models (never edits old versions)
+ * - Consumers load the active row via _shared/failureCalibrationLoader.ts
+ *
+ * Observation sources:
+ * 1. system_install_events — a 'replaced' event closes the previous unit's life
+ * 2. prediction_accuracy — rows with an actual_date are observed replacements
+ *    Both measure from the replaced unit's known install year (never the
+ *    home's build year); replacements without one are skipped
+ * 3. labels — inspector age bucket; the unit was running, so right-censored (down-weighted)
+ * 4. systems — units still in service are right-censored at their current age
+ *
+ * Request body (all optional):
+ * - dryRun: boolean — fit and return, but do not write or activate
+ * - activate: boolean (default true) — make the new version the active one
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { validateInternalSecret } from '../_shared/internalAuth.ts';
+import { classifyClimate, type ClimateZoneType } from '../_shared/systemInference.ts';
+import { isSystemType, SYSTEM_CONFIGS, type SystemType } from '../_shared/systemConfigs.ts';
+import {
+  calibrateCurve,
+  bandCoverage,
+  type LifetimeObservation,
+} from '../_shared/survivalFit.ts';
+import {
+  FAILURE_CALIBRATION_MODEL_NAME,
+  FAILURE_CALIBRATION_MODEL_TYPE,
+  type CalibrationZoneKey,
+  type CalibratedCurveParams,
+  type FailureCalibrationConfig,
+} from '../_shared/failureCalibration.ts';
+
+// ============== Constants ==============
+
+const LABEL_WEIGHT = 0.5;
+const PREDICTION_WEIGHT = 1;
+const INSTALL_EVENT_WEIGHT = 1;
+const CENSORED_WEIGHT = 1;
+
+/** Lifetimes outside this range are data-entry errors, not failures */
+const MIN_LIFETIME_YEARS = 1;
+const MAX_LIFETIME_YEARS = 80;
+
+const AGE_BUCKET_MIDPOINTS: Record<string, number> = {
+  '0-5': 2.5,
+  '5-10': 7.5,
+  '10-15': 12.5,
+  '15-20': 17.5,
+  '20-25': 22.5,
+  '25+': 27.5,
+};
+
+// ============== Types ==============
+
+interface TaggedObservation extends LifetimeObservation {
+  systemType: SystemType;
+  climateZone: ClimateZoneType;
+}
+
+interface HomeRow {
+  id: string;
+  state: string | null;
+  city: string | null;
+  zip_code: string | null;
+  fips_code: string | null;
+}
+
+// ============== Helpers ==============
+
+function normalizeSystemType(raw: string | null | undefined): SystemType | null {
+  if (!raw) return null;
+  const key = raw.toLowerCase().replace(/_replacement$/, '');
+  if (key === 'electrical') return 'electrical_panel';
+  return isSystemType(key) ? key : null;
+}
+
+function zoneFor(state: string | null, zipCode: string | null, fipsCode?: string | null): ClimateZoneType {
+  return classifyClimate(state || '', undefined, fipsCode || undefined, zipCode || undefined).climateZone;
+}
+
+function isPlausibleLifetime(years: number): boolean {
+  return Number.isFinite(years) && years >= MIN_LIFETIME_YEARS && years <= MAX_LIFETIME_YEARS;
+}
+
+// ============== Observation Gathering ==============
+
+async function gatherObservations(supabase: ReturnType<typeof createClient>) {
+  const currentYear = new Date().getFullYear();
+  const observations: TaggedObservation[] = [];
+  const sourceCounts: Record<string, number> = {
+    install_events: 0,
+    prediction_accuracy: 0,
+    labels: 0,
+    censored: 0,
+  };
+
+  const { data: homes, error: homesError } = await supabase
+    .from('homes')
+    .select('id, state, city, zip_code, fips_code');
+  if (homesError) throw new Error(`Failed to load homes: ${homesError.message}`);
+
+  const homeById = new Map<string, HomeRow>((homes || []).map((h: HomeRow) => [h.id, h]));
+
+  // Replacement years already observed, keyed home:system — used to dedupe sources
+  const observedReplacements = new Set<string>();
+
+  const { data: systems, error: systemsError } = await supabase
+    .from('systems')
+    .select('home_id, kind, install_year')
+    .not('install_year', 'is', null);
+  if (systemsError) throw new Error(`Failed to load systems: ${systemsError.message}`);
+
+  // Known install years per home:system. A replacement is only a lifetime
+  // when the unit it replaced has a known install year; the home's build
+  // year would assume that unit was the original
+  const installYears = new Map<string, number[]>();
+  const noteInstall = (homeId: string, systemType: SystemType, year: number | null) => {
+    if (!year) return;
+    const key = `${homeId}:${systemType}`;
+    installYears.set(key, [...(installYears.get(key) ?? []), year]);
+  };
+  const installBefore = (homeId: string, systemType: SystemType, year: number): number | null => {
+    const earlier = (installYears.get(`${homeId}:${systemType}`) ?? []).filter(y => y < year);
+    return earlier.length > 0 ? Math.max(...earlier) : null;
+  };
+
+  // 1. Install events: a 'replaced' event ends the previous unit's life
+  const { data: events, error: eventsError } = await supabase
+    .from('system_install_events')
+    .select('home_id, prev_install_year, new_install_year, new_replacement_status, systems(kind)')
+    .eq('new_replacement_status', 'replaced')
+    .not('new_install_year', 'is', null);
+  if (eventsError) throw new Error(`Failed to load install events: ${eventsError.message}`);
+
+  for (const system of systems || []) {
+    const systemType = normalizeSystemType(system.kind);
+    if (systemType) noteInstall(system.home_id, systemType, system.install_year);
+  }
+  for (const event of events || []) {
+    const systemType = normalizeSystemType(event.systems?.kind);
+    if (!systemType) continue;
+    noteInstall(event.home_id, systemType, event.prev_install_year);
+    noteInstall(event.home_id, systemType, event.new_install_year);
+  }
+
+  for (const event of events || []) {
+    const home = homeById.get(event.home_id);
+    const systemType = normalizeSystemType(event.systems?.kind);
+    if (!home || !systemType) continue;
+
+    const previousInstall = event.prev_install_year ?? installBefore(home.id, systemType, event.new_install_year);
+    if (!previousInstall) continue;
+
+    const lifetime = event.new_install_year - previousInstall;
+    if (!isPlausibleLifetime(lifetime)) continue;
+
+    const key = `${home.id}:${systemType}:${event.new_install_year}`;
+    if (observedReplacements.has(key)) continue;
+    observedReplacements.add(key);
+
+    observations.push({
+      systemType,
+      climateZone: zoneFor(home.state, home.zip_code, home.fips_code),
+      ageYears: lifetime,
+      observed: true,
+      weight: INSTALL_EVENT_WEIGHT,
+    });
+    sourceCounts.install_events++;
+  }
+
+  // 2. prediction_accuracy: closed-out predictions carry the actual replacement date
+  const { data: outcomes, error: outcomesError } = await supabase
+    .from('prediction_accuracy')
+    .select('property_id, prediction_type, actual_date')
+    .not('actual_date', 'is', null);
+  if (outcomesError) throw new Error(`Failed to load prediction outcomes: ${outcomesError.message}`);
+
+  for (const outcome of outcomes || []) {
+    const home = homeById.get(outcome.property_id);
+    const systemType = normalizeSystemType(outcome.prediction_type);
+    if (!home || !systemType) continue;
+
+    const replacedYear = new Date(outcome.actual_date).getFullYear();
+    const key = `${home.id}:${systemType}:${replacedYear}`;
+    if (observedReplacements.has(key)) continue;
+
+    const previousInstall = installBefore(home.id, systemType, replacedYear);
+    if (!previousInstall) continue;
+
+    const lifetime = replacedYear - previousInstall;
+    if (!isPlausibleLifetime(lifetime)) continue;
+    observedReplacements.add(key);
+
+    observations.push({
+      systemType,
+      climateZone: zoneFor(home.state, home.zip_code, home.fips_code),
+      ageYears: lifetime,
+      observed: true,
+      weight: PREDICTION_WEIGHT,
+    });
+    sourceCounts.prediction_accuracy++;
+  }
+
+  // 3. Labels: the inspector saw the unit running at this age. Their
+  //    remaining-years guess is the kind of estimate being calibrated, so it
+  //    never enters the likelihood as a failure
+  const { data: labels, error: labelsError } = await supabase
+    .from('labels')
+    .select('hvac_age_bucket, roof_age_bucket, labeler_confidence_0_1, addresses(state, postal_code)');
+  if (labelsError) throw new Error(`Failed to load labels: ${labelsError.message}`);
+
+  for (const label of labels || []) {
+    const zone = zoneFor(label.addresses?.state ?? null, label.addresses?.postal_code ?? null);
+    const confidence = label.labeler_confidence_0_1 ?? 1;
+
+    const labeled: Array<[SystemType, string | null]> = [
+      ['hvac', label.hvac_age_bucket],
+      ['roof', label.roof_age_bucket],
+    ];
+
+    for (const [systemType, bucket] of labeled) {
+      const age = bucket ? AGE_BUCKET_MIDPOINTS[bucket] : undefined;
+      if (age === undefined || !isPlausibleLifetime(age)) continue;
+
+      observations.push({
+        systemType,
+        climateZone: zone,
+        ageYears: age,
+        observed: false,
+        weight: LABEL_WEIGHT * confidence,
+      });
+      sourceCounts.labels++;
+    }
+  }
+
+  // 4. Systems still in service: right-censored at their current age
+  for (const system of systems || []) {
+    const home = homeById.get(system.home_id);
+    const systemType = normalizeSystemType(system.kind);
+    if (!home || !systemType) continue;
+
+    const age = currentYear - system.install_year;
+    if (!isPlausibleLifetime(age)) continue;
+
+    observations.push({
+      systemType,
+      climateZone: zoneFor(home.state, home.zip_code, home.fips_code),
+      ageYears: age,
+      observed: false,
+      weight: CENSORED_WEIGHT,
+    });
+    sourceCounts.censored++;
+  }
+
+  return { observations, sourceCounts };
+}
+
+// ============== Fitting ==============
+
+function fitAll(observations: TaggedObservation[]) {
+  const params: FailureCalibrationConfig['params'] = {};
+  const coverages: number[] = [];
+
+  for (const systemType of Object.keys(SYSTEM_CONFIGS) as SystemType[]) {
+    const config = SYSTEM_CONFIGS[systemType];
+    const prior = { medianYears: config.baselineLifespan, sigmaYears: config.sigma };
+    const forSystem = observations.filter(o => o.systemType === systemType);
+
+    const cells: Partial<Record<CalibrationZoneKey, CalibratedCurveParams>> = {};
+
+    const overall = calibrateCurve(forSystem, prior);
+    if (!overall) continue;
+    cells.all = overall;
+
+    const coverage = bandCoverage(forSystem, overall);
+    if (coverage !== null) coverages.push(coverage);
+
+    // Zone cells shrink toward the system-wide fit, not the static prior
+    const zones = new Set(forSystem.map(o => o.climateZone));
+    for (const zone of zones) {
+      const zoneCurve = calibrateCurve(
+        forSystem.filter(o => o.climateZone === zone),
+        { medianYears: overall.medianYears, sigmaYears: overall.sigmaYears }
+      );
+      if (zoneCurve) cells[zone] = zoneCurve;
+    }
+
+    params[systemType] = cells;
+  }
+
+  const accuracy = coverages.length > 0
+    ? coverages.reduce((a, b) => a + b, 0) / coverages.length
+    : null;
+
+  return { params, accuracy };
+}
+
+// ============== Handler ==============
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    // Auth: internal scheduler call, or an admin user
+    if (!validateInternalSecret(req)) {
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+      const { data: { user } } = token
+        ? await supabase.auth.getUser(token)
+        : { data: { user: null } };
+
+      const { data: isAdmin } = user
+        ? await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' })
+        : { data: false };
+
+      if (!isAdmin) {
+        return new Response(
+          JSON.stringify({ error: 'Admin access required' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const dryRun = body?.dryRun === true;
+    const activate = body?.activate !== false;
+
+    const { observations, sourceCounts } = await gatherObservations(supabase);
+    const { params, accuracy } = fitAll(observations);
+
+    const fittedAt = new Date().toISOString();
+    const version = `failure_curves_${fittedAt.replace(/[-:]/g, '').replace(/\..*$/, '')}`;
+    const modelConfig: FailureCalibrationConfig = { params, sourceCounts, fittedAt };
+
+    const calibratedSystems = Object.keys(params);
+    console.log(`[calibrate-failure-curves] ${version}: ${observations.length} observations, calibrated ${calibratedSystems.join(', ') || 'none'}`);
+
+    if (dryRun || calibratedSystems.length === 0) {
+      return new Response(
+        JSON.stringify({ version, written: false, accuracy, modelConfig }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('ml_models')
+      .insert({
+        model_name: FAILURE_CALIBRATION_MODEL_NAME,
+        model_type: FAILURE_CALIBRATION_MODEL_TYPE,
+        version,
+        accuracy_score: accuracy,
+        training_date: fittedAt,
+        is_active: false,
+        model_config: modelConfig,
+      })
+      .select('id')
+      .single();
+
+    if (insertError) throw new Error(`Failed to store calibration: ${insertError.message}`);
+
+    if (activate) {
+      // Deactivate first so readers never see two active versions
+      const { error: deactivateError } = await supabase
+        .from('ml_models')
+        .update({ is_active: false })
+        .eq('model_name', FAILURE_CALIBRATION_MODEL_NAME)
+        .eq('is_active', true);
+      if (deactivateError) throw new Error(`Failed to deactivate previous calibration: ${deactivateError.message}`);
+
+      const { error: activateError } = await supabase
+        .from('ml_models')
+        .update({ is_active: true })
+        .eq('id', inserted.id);
+      if (activateError) throw new Error(`Failed to activate calibration: ${activateError.message}`);
+    }
+
+    return new Response(
+      JSON.stringify({ id: inserted.id, version, written: true, active: activate, accuracy, modelConfig }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('[calibrate-failure-curves] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Calibration failed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
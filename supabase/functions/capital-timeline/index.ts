@@ -7,12 +7,23 @@
  * - It calls pure calculators for lifecycle math
  * - It returns pre-formatted labels (UI renders blindly)
  * - NEW: Material-aware, climate-gated, confidence-bounded
+ * - Cost bands are regionalized (labor index, size, reported actuals) via
+ *   _shared/regionalCost.ts and recorded to cost_predictions
+ * - A cached Google Solar analysis gives the roof measured area, pitch and
+ *   planes (_shared/roofGeometry.ts) for cost, lifespan and the segment breakdown
+ * - Completed maintenance is scored per system (_shared/maintenanceAdherence.ts)
+ *   and shifts each window through applyMaintenanceAdherence; the shift is
+ *   reported as eventShiftYears
  * 
  * Authority Priority:
  * 1. User overrides (owner_reported, inspection) — User corrects data
  * 2. Permit data (permit_verified) — Authoritative public records
  * 3. Heuristic inference — Fallback from yearBuilt
  * 
+ * Lanes:
+ * - Core systems (every home has them) always get a lane
+ * - Optional systems (pool, solar, mini-split) only when a system record or permit exists
+ * 
  * Actions:
  * - 'timeline': Full HomeCapitalTimeline
  * - 'rollup': Just the CapitalOutlook
@@ -22,6 +33,7 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { corsHeaders } from '../_shared/cors.ts';
 import { 
+  applyMaintenanceAdherence,
   calculateSystemLifecycle,
   calculateRoofLifecycle,
   dataQualityFromConfidence,
@@ -32,12 +44,33 @@ import {
   deriveCostConfidence,
   deriveTypicalBand,
   normalizeRoofMaterial,
+  inferRenewalInstallYear,
+  isConfigDrivenSystem,
   type ResolvedInstallInput,
   type LifecycleOutput,
   type PropertyContext,
   type ResolvedClimateContext,
   type ConfidenceLevel,
 } from '../_shared/systemInference.ts';
+import { isSystemType, SYSTEM_CONFIGS, type SystemType } from '../_shared/systemConfigs.ts';
+import { syncPropertyClimate } from '../_shared/propertyClimate.ts';
+import { calculateCapitalOutlook, type CapitalOutlook } from '../_shared/capitalOutlook.ts';
+import { simulateCapitalExposure } from '../_shared/capitalExposureSimulation.ts';
+import { getCalibratedCurve } from '../_shared/failureCalibration.ts';
+import { loadActiveFailureCalibration } from '../_shared/failureCalibrationLoader.ts';
+import {
+  formatCostProvenance,
+  loadActiveRegionalCostModel,
+  regionalizeCost,
+  type CostContext,
+  type CostProvenance,
+  type RegionalCostEstimate,
+  type RegionalCostModel,
+} from '../_shared/regionalCost.ts';
+import type { RoofGeometry } from '../_shared/roofGeometry.ts';
+import { loadRoofGeometry } from '../_shared/roofGeometryLoader.ts';
+import { scoreMaintenanceAdherence, type MaintenanceAdherence } from '../_shared/maintenanceAdherence.ts';
+import { loadMaintenanceRecords } from '../_shared/maintenanceAdherenceLoader.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
@@ -57,7 +90,7 @@ interface HomeCapitalTimeline {
 }
 
 interface SystemTimelineEntry {
-  systemId: 'hvac' | 'roof' | 'water_heater';
+  systemId: SystemType;
   systemLabel: string;
   category: 'mechanical' | 'structural' | 'utility';
   installSource: 'permit' | 'inferred' | 'unknown';
@@ -89,6 +122,8 @@ interface SystemTimelineEntry {
     expectedDelayYears?: number;
     uncertaintyReduction?: 'low' | 'medium' | 'high';
     explanation: string;
+    adherence?: MaintenanceAdherence;
+    appliedShiftYears?: number;
   };
   disclosureNote: string;
   // Pre-formatted labels for UI
@@ -105,16 +140,8 @@ interface SystemTimelineEntry {
   costConfidence?: string;
   costAttributionLine?: string;
   costDisclaimer?: string;
-}
-
-interface CapitalOutlook {
-  horizons: Array<{
-    yearsAhead: 3 | 5 | 10;
-    lowEstimate: number;
-    highEstimate: number;
-    methodology: 'weighted';
-  }>;
-  methodologyNote: string;
+  /** Roof only: measured segments and their source */
+  roofGeometry?: RoofGeometry;
 }
 
 // ============== Confidence Scoring ==============
@@ -179,13 +206,23 @@ function formatInstalledLine(
  * for cost attribution language.
  */
 function formatCostAttributionLine(
+  systemType: string,
+  material: string | null | undefined,
+  climate: ResolvedClimateContext,
+  provenance?: CostProvenance
+): string {
+  const climateLine = formatClimateCostLine(systemType, material, climate);
+  const provenanceLine = provenance ? formatCostProvenance(provenance) : null;
+  return provenanceLine ? `${climateLine} ${provenanceLine}` : climateLine;
+}
+
+function formatClimateCostLine(
   systemType: string,
   material: string | null | undefined,
   climate: ResolvedClimateContext
 ): string {
-  const systemLabel = systemType === 'water_heater' ? 'water heater'
-    : systemType === 'hvac' ? 'HVAC system'
-    : systemType;
+  const systemLabel = systemType === 'hvac' ? 'HVAC system'
+    : (isSystemType(systemType) ? SYSTEM_CONFIGS[systemType].displayName : systemType).toLowerCase();
 
   // HVAC has duty-cycle-specific copy
   if (systemType === 'hvac') {
@@ -230,6 +267,16 @@ function formatCostDisclaimer(systemType: string): string {
       return 'Final pricing varies with equipment efficiency, ductwork condition, and access.';
     case 'water_heater':
       return 'Final pricing varies with fuel type and installation requirements.';
+    case 'electrical_panel':
+      return 'Final pricing varies with service amperage and utility requirements.';
+    case 'plumbing':
+      return 'Final pricing varies with pipe material and how much is replaced.';
+    case 'pool':
+      return 'Final pricing varies with which equipment is replaced.';
+    case 'solar':
+      return 'Final pricing varies with system size and whether only the inverter is replaced.';
+    case 'mini_split':
+      return 'Final pricing is per zone and varies with line set length.';
     default:
       return 'Final pricing varies based on site conditions.';
   }
@@ -300,7 +347,7 @@ interface PermitRecord {
 }
 
 function resolveInstallAuthority(
-  systemType: 'hvac' | 'roof' | 'water_heater',
+  systemType: SystemType,
   userSystem: SystemRow | undefined,
   permits: PermitRecord[],
   yearBuilt: number
@@ -374,8 +421,12 @@ function resolveInstallAuthority(
       break;
       
     default:
-      inferredYear = yearBuilt;
-      rationale = 'Age estimated from home construction date';
+      if (isConfigDrivenSystem(systemType)) {
+        ({ installYear: inferredYear, rationale } = inferRenewalInstallYear(systemType, yearBuilt, currentYear));
+      } else {
+        inferredYear = yearBuilt;
+        rationale = 'Age estimated from home construction date';
+      }
   }
   
   return {
@@ -387,12 +438,26 @@ function resolveInstallAuthority(
   };
 }
 
-function formatSystemLabel(systemType: 'hvac' | 'roof' | 'water_heater'): string {
-  switch (systemType) {
-    case 'hvac': return 'HVAC System';
-    case 'water_heater': return 'Water Heater';
-    case 'roof': return 'Roof';
-  }
+function formatSystemLabel(systemType: SystemType): string {
+  return SYSTEM_CONFIGS[systemType].displayName;
+}
+
+// ============== Lane Selection ==============
+
+/** Every home has these — always shown, heuristic if nothing else */
+const CORE_SYSTEMS: SystemType[] = ['hvac', 'roof', 'water_heater', 'electrical_panel', 'plumbing'];
+
+/** Not every home has these — shown only with evidence */
+const OPTIONAL_SYSTEMS: SystemType[] = ['pool', 'solar', 'mini_split'];
+
+function selectTimelineSystems(
+  systems: SystemRow[] | null,
+  permits: PermitRecord[]
+): SystemType[] {
+  const evidenced = OPTIONAL_SYSTEMS.filter(sysType =>
+    selectBestSystemRecord(systems, sysType) !== undefined || hasValidPermit(sysType, permits)
+  );
+  return [...CORE_SYSTEMS, ...evidenced];
 }
 
 // ============== ATTOM Material Fallback ==============
@@ -461,66 +526,6 @@ async function resolveRoofMaterialFromAttom(
   }
 }
 
-// ============== Weighted Exposure Logic ==============
-
-function calculateWeightedExposure(
-  system: SystemTimelineEntry,
-  horizonCutoff: number
-): { low: number; high: number } {
-  const { earlyYear, likelyYear } = system.replacementWindow;
-  
-  if (earlyYear > horizonCutoff) {
-    return { low: 0, high: 0 };
-  }
-  
-  if (likelyYear <= horizonCutoff) {
-    return { 
-      low: system.capitalCost.low, 
-      high: system.capitalCost.high 
-    };
-  }
-  
-  if (earlyYear <= horizonCutoff) {
-    return { 
-      low: Math.round(system.capitalCost.low * 0.3), 
-      high: Math.round(system.capitalCost.high * 0.5) 
-    };
-  }
-  
-  return { low: 0, high: 0 };
-}
-
-function calculateCapitalOutlook(
-  systems: SystemTimelineEntry[],
-  currentYear: number
-): CapitalOutlook {
-  const horizons: CapitalOutlook['horizons'] = [];
-  
-  for (const years of [3, 5, 10] as const) {
-    const cutoff = currentYear + years;
-    let low = 0;
-    let high = 0;
-    
-    for (const sys of systems) {
-      const exposure = calculateWeightedExposure(sys, cutoff);
-      low += exposure.low;
-      high += exposure.high;
-    }
-    
-    horizons.push({ 
-      yearsAhead: years, 
-      lowEstimate: low, 
-      highEstimate: high,
-      methodology: 'weighted'
-    });
-  }
-  
-  return {
-    horizons,
-    methodologyNote: 'Estimates weighted by replacement probability within each horizon'
-  };
-}
-
 // ============== Entry Builder ==============
 
 /**
@@ -528,11 +533,13 @@ function calculateCapitalOutlook(
  * Now includes earned confidence metadata (v3)
  */
 function buildTimelineEntry(
-  systemType: 'hvac' | 'roof' | 'water_heater',
+  systemType: SystemType,
   resolvedInstall: ResolvedInstallInput,
   lifecycle: LifecycleOutput,
   climate: ResolvedClimateContext,
-  materialSource?: string
+  cost: RegionalCostEstimate,
+  materialSource?: string,
+  roofGeometry?: RoofGeometry
 ): SystemTimelineEntry {
   const dataQuality = dataQualityFromConfidence(resolvedInstall.confidenceScore);
   const confidenceLevel = dataQuality;
@@ -552,10 +559,10 @@ function buildTimelineEntry(
     },
     windowUncertainty: lifecycle.replacementWindow.windowUncertainty,
     capitalCost: {
-      low: lifecycle.capitalCost.low,
-      high: lifecycle.capitalCost.high,
-      typicalLow: lifecycle.capitalCost.typicalLow,
-      typicalHigh: lifecycle.capitalCost.typicalHigh,
+      low: cost.low,
+      high: cost.high,
+      typicalLow: cost.typicalLow,
+      typicalHigh: cost.typicalHigh,
       currency: 'USD',
       costDrivers: lifecycle.capitalCost.costDrivers,
     },
@@ -570,17 +577,117 @@ function buildTimelineEntry(
     ),
     confidenceScore: resolvedInstall.confidenceScore,
     confidenceLevel,
+    // Maintenance record behind the window
+    lastEventAt: lifecycle.maintenanceEffect.adherence?.lastServicedOn ?? undefined,
+    eventShiftYears: lifecycle.maintenanceEffect.appliedShiftYears || undefined,
     // Earned confidence fields (v3)
     materialType: lifecycle.materialType,
     materialSource: materialSource || (lifecycle.materialType ? 'inferred' : undefined),
     climateZone: lifecycle.climateZone,
     climateConfidence: lifecycle.climateConfidence,
     costConfidence: lifecycle.costConfidence,
-    costAttributionLine: formatCostAttributionLine(systemType, lifecycle.materialType, climate),
+    costAttributionLine: formatCostAttributionLine(systemType, lifecycle.materialType, climate, cost.provenance),
     costDisclaimer: formatCostDisclaimer(systemType),
+    roofGeometry: systemType === 'roof' ? roofGeometry : undefined,
   };
 }
 
+// ============== Regional Cost ==============
+
+function regionalizeLifecycleCost(
+  systemType: SystemType,
+  lifecycle: LifecycleOutput,
+  costModel: RegionalCostModel | null,
+  costContext: CostContext
+): RegionalCostEstimate {
+  return regionalizeCost(
+    systemType,
+    lifecycle.capitalCost,
+    lifecycle.costConfidence ?? 'low',
+    costModel,
+    { ...costContext, material: lifecycle.materialType }
+  );
+}
+
+/**
+ * Nameplate tonnage and tank size decoded from model numbers. These live on
+ * the home_systems equipment row, not the canonical systems row; the most
+ * recently updated unit of each kind wins.
+ */
+async function loadNameplateSizes(
+  supabase: ReturnType<typeof createClient>,
+  homeId: string
+): Promise<Pick<CostContext, 'hvacTonnage' | 'waterHeaterGallons'>> {
+  const { data, error } = await supabase
+    .from('home_systems')
+    .select('capacity_value, capacity_unit, equipment_kind')
+    .eq('home_id', homeId)
+    .not('capacity_value', 'is', null)
+    .order('last_updated_at', { ascending: false, nullsFirst: false });
+
+  if (error || !data) return {};
+
+  const sizes: Pick<CostContext, 'hvacTonnage' | 'waterHeaterGallons'> = {};
+  for (const row of data) {
+    const value = Number(row.capacity_value);
+    if (row.capacity_unit === 'tons' && sizes.hvacTonnage === undefined) {
+      sizes.hvacTonnage = value;
+    } else if (row.capacity_unit === 'gallons' && row.equipment_kind === 'water_heater' && sizes.waterHeaterGallons === undefined) {
+      sizes.waterHeaterGallons = value;
+    }
+  }
+  return sizes;
+}
+
+const COST_CONFIDENCE_SCORES: Record<ConfidenceLevel, number> = {
+  high: 0.8,
+  medium: 0.6,
+  low: 0.4,
+};
+
+/** Predictions are refreshed on every timeline build; this only bounds stale reads */
+const COST_PREDICTION_VALID_DAYS = 30;
+
+/**
+ * Record each system's regionalized band to cost_predictions, so
+ * calibrate-cost-model can compare it with the cost the owner reports.
+ * Best-effort: a failed write never fails the timeline.
+ */
+async function recordCostPredictions(
+  supabase: ReturnType<typeof createClient>,
+  homeId: string,
+  costModel: RegionalCostModel | null,
+  entries: SystemTimelineEntry[],
+  provenance: Map<SystemType, CostProvenance>
+): Promise<void> {
+  const now = new Date();
+  const validUntil = new Date(now.getTime() + COST_PREDICTION_VALID_DAYS * 86_400_000);
+
+  const rows = entries.map(e => ({
+    home_id: homeId,
+    system_type: e.systemId,
+    prediction_type: 'replacement',
+    // Cents, matching the column convention
+    estimated_cost_min: Math.round(e.capitalCost.low * 100),
+    estimated_cost_max: Math.round(e.capitalCost.high * 100),
+    confidence_level: COST_CONFIDENCE_SCORES[(e.costConfidence ?? 'low') as ConfidenceLevel] ?? 0.4,
+    market_factors: provenance.get(e.systemId) ?? null,
+    data_sources: provenance.get(e.systemId)?.actuals
+      ? ['regional_cost_model', 'owner_reported_actuals']
+      : ['regional_cost_model'],
+    cost_model_id: costModel?.id ?? null,
+    valid_until: validUntil.toISOString().split('T')[0],
+    updated_at: now.toISOString(),
+  }));
+
+  const { error } = await supabase
+    .from('cost_predictions')
+    .upsert(rows, { onConflict: 'home_id,system_type,prediction_type' });
+  if (error) {
+    console.warn('[capital-timeline] Failed to record cost predictions:', error.message);
+  }
+}
+
 // ============== Main Handler ==============
 
 Deno.serve(async (req) => {
@@ -646,6 +753,12 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Measured roof from the cached Google Solar analysis, when there is one
+    const roofGeometry = await loadRoofGeometry(supabase, home.address_id);
+
+    // Completed tasks and logged service, scored per system below
+    const maintenanceRecords = await loadMaintenanceRecords(supabase, homeId);
+
     // Build property context
     // Sprint 1: Use year_built_effective as primary age anchor
     const propertyContext: PropertyContext = {
@@ -658,13 +771,40 @@ Deno.serve(async (req) => {
       grossSqft: home.gross_sqft || undefined,
       roomsTotal: home.rooms_total || undefined,
       groundFloorSqft: home.ground_floor_sqft || undefined,
+      roofGeometry: roofGeometry ?? undefined,
     };
 
-    // Use new climate classification with FIPS precision (Sprint 2)
-    const climateContext = classifyClimate(propertyContext.state, propertyContext.city, home.fips_code || undefined);
+    // Climate from the shared resolver (FIPS → ZIP → state), same lookup the dashboard uses
+    const climateContext = classifyClimate(
+      propertyContext.state,
+      propertyContext.city,
+      home.fips_code || undefined,
+      home.zip_code || undefined,
+      home.latitude
+    );
+    if (climateContext.profile) {
+      await syncPropertyClimate(supabase, home, climateContext.profile);
+    }
+
+    // Regional cost model: labor index by ZIP3, size, reported actuals
+    const costModel = await loadActiveRegionalCostModel(supabase);
+    const costContext: CostContext = {
+      zipCode: home.zip_code,
+      grossSqft: home.gross_sqft || home.square_feet || undefined,
+      groundFloorSqft: home.ground_floor_sqft || undefined,
+      roofGeometry: roofGeometry ?? undefined,
+      ...await loadNameplateSizes(supabase, homeId),
+    };
 
     // Single system detail request
     if (action === 'system-detail' && systemType) {
+      if (!isSystemType(systemType)) {
+        return new Response(
+          JSON.stringify({ error: `Unsupported systemType: ${systemType}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
       const userSystem = selectBestSystemRecord(systems, systemType);
       
       const resolvedInstall = resolveInstallAuthority(
@@ -690,8 +830,15 @@ Deno.serve(async (req) => {
           climateContext
         );
       }
+      lifecycle = applyMaintenanceAdherence(
+        lifecycle,
+        scoreMaintenanceAdherence(systemType, maintenanceRecords, { installYear: resolvedInstall.installYear })
+      );
       
-      const entry = buildTimelineEntry(systemType, resolvedInstall, lifecycle, climateContext, entryMaterialSource);
+      const cost = regionalizeLifecycleCost(systemType, lifecycle, costModel, costContext);
+      const entry = buildTimelineEntry(
+        systemType, resolvedInstall, lifecycle, climateContext, cost, entryMaterialSource, roofGeometry ?? undefined
+      );
       
       return new Response(
         JSON.stringify(entry),
@@ -709,9 +856,10 @@ Deno.serve(async (req) => {
       confidenceReduction = 0.05;
     }
 
-    // Generate timelines for all systems
-    const systemTypes: ('hvac' | 'roof' | 'water_heater')[] = ['hvac', 'roof', 'water_heater'];
+    // Generate timelines for core systems plus any evidenced optional systems
+    const systemTypes = selectTimelineSystems(systems, permits || []);
     const timelineEntries: SystemTimelineEntry[] = [];
+    const costProvenance = new Map<SystemType, CostProvenance>();
     const limitingFactors: string[] = [];
 
     if (dataMatchConfidence === 'low') {
@@ -743,26 +891,44 @@ Deno.serve(async (req) => {
           climateContext
         );
       }
+      lifecycle = applyMaintenanceAdherence(
+        lifecycle,
+        scoreMaintenanceAdherence(sysType, maintenanceRecords, { installYear: resolvedInstall.installYear })
+      );
       
       // Sprint 3: Apply data match confidence reduction to the resolved install
       if (confidenceReduction > 0) {
         resolvedInstall.confidenceScore = Math.max(0, resolvedInstall.confidenceScore - confidenceReduction);
       }
 
-      const entry = buildTimelineEntry(sysType, resolvedInstall, lifecycle, climateContext, entryMaterialSource);
+      const cost = regionalizeLifecycleCost(sysType, lifecycle, costModel, costContext);
+      const entry = buildTimelineEntry(
+        sysType, resolvedInstall, lifecycle, climateContext, cost, entryMaterialSource, roofGeometry ?? undefined
+      );
       timelineEntries.push(entry);
+      costProvenance.set(sysType, cost.provenance);
       
       if (entry.dataQuality === 'low') {
         limitingFactors.push(`${entry.systemLabel} install date is estimated`);
       }
     }
 
+    await recordCostPredictions(supabase, homeId, costModel, timelineEntries, costProvenance);
+
     // Calculate data completeness
     const highQualityCount = timelineEntries.filter(e => e.dataQuality === 'high').length;
     const completenessPercent = Math.round((highQualityCount / timelineEntries.length) * 100);
 
-    // Calculate capital outlook
-    const capitalOutlook = calculateCapitalOutlook(timelineEntries, currentYear);
+    // Calculate capital outlook: weighted roll-up plus Monte Carlo spend bands
+    const calibration = await loadActiveFailureCalibration(supabase);
+    const capitalOutlook: CapitalOutlook = {
+      ...calculateCapitalOutlook(timelineEntries, currentYear),
+      simulation: simulateCapitalExposure(timelineEntries, {
+        currentYear,
+        calibratedShape: (systemId) =>
+          getCalibratedCurve(calibration, systemId, climateContext.climateZone)?.shape ?? null,
+      }),
+    };
 
     // Just rollup
     if (action === 'rollup') {
@@ -793,6 +959,8 @@ Deno.serve(async (req) => {
       climateZone: climateContext.climateZone,
       climateConfidence: climateContext.climateConfidence,
       hvacDutyCycle: climateContext.dutyCycle.hvac,
+      costModelVersion: costModel?.version ?? null,
+      roofMeasured: !!roofGeometry,
       // Per-system telemetry with earned confidence fields
       sources: timelineEntries.map(e => ({ 
         system: e.systemId, 
@@ -804,6 +972,7 @@ Deno.serve(async (req) => {
         climateZone: e.climateZone,
         climateConfidence: e.climateConfidence,
         costConfidence: e.costConfidence,
+        maintenanceShift: e.eventShiftYears ?? 0,
       }))
     });
 
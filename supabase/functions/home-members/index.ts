@@ -0,0 +1,410 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getHomeRole } from "../_shared/internalAuth.ts";
+import {
+  HOME_ROLE_LABELS,
+  INVITATION_TTL_DAYS,
+  canAssignRole,
+  canManageMember,
+  invitationAcceptError,
+  invitationExpiry,
+  isHomeMemberRole,
+  isValidEmail,
+  normalizeEmail,
+  type HomeMemberRole,
+} from "../_shared/homeMembership.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type AdminClient = ReturnType<typeof createClient>;
+
+/**
+ * home-members: Household membership for a shared home
+ *
+ * Actions (POST body `action`):
+ * - list         { homeId }                → members (with name/email) + open invitations
+ * - invite       { homeId, email, role }   → emails a single-use link
+ * - preview      { token }                 → invitation summary for the accept page
+ * - accept       { token }                 → joins the home as the invited role
+ * - revoke       { invitationId }
+ * - update_role  { memberId, role }
+ * - remove       { memberId }              → also used to leave a home
+ *
+ * Membership rules live in _shared/homeMembership.ts; every write here runs
+ * with the service role after those checks.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return json({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const body = await req.json();
+    console.log('[home-members] Action:', body.action, 'user:', user.id);
+
+    switch (body.action) {
+      case 'list':
+        return await list(supabase, user.id, body.homeId);
+      case 'invite':
+        return await invite(supabase, user.id, body);
+      case 'preview':
+        return await preview(supabase, body.token);
+      case 'accept':
+        return await accept(supabase, user.id, user.email, body.token);
+      case 'revoke':
+        return await revoke(supabase, user.id, body.invitationId);
+      case 'update_role':
+        return await updateRole(supabase, user.id, body.memberId, body.role);
+      case 'remove':
+        return await removeMember(supabase, user.id, body.memberId);
+      default:
+        return json({ error: `Unknown action: ${body.action}` }, 400);
+    }
+  } catch (error) {
+    console.error('[home-members] Error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return json({ error: message }, 500);
+  }
+});
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function generateInviteToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function inviteUrl(token: string): string {
+  const appUrl = (Deno.env.get('APP_URL') ?? 'https://habitta.app').replace(/\/$/, '');
+  return `${appUrl}/invite/${token}`;
+}
+
+// ============================================================================
+// INVITATIONS
+// ============================================================================
+
+async function invite(
+  supabase: AdminClient,
+  userId: string,
+  body: { homeId?: string; email?: string; role?: string }
+): Promise<Response> {
+  const { homeId, email, role } = body;
+  if (!homeId || !email || !isValidEmail(email)) {
+    return json({ error: 'A home and a valid email are required' }, 400);
+  }
+  if (!isHomeMemberRole(role)) {
+    return json({ error: `Unknown role: ${role}` }, 400);
+  }
+
+  const actorRole = await getHomeRole(homeId, userId);
+  if (!actorRole || !canAssignRole(actorRole, role)) {
+    return json({ error: `You can't invite someone as ${HOME_ROLE_LABELS[role].toLowerCase()}` }, 403);
+  }
+
+  const normalized = normalizeEmail(email);
+
+  // Re-inviting replaces the open invitation (fresh token and expiry)
+  await supabase
+    .from('home_invitations')
+    .update({ status: 'revoked' })
+    .eq('home_id', homeId)
+    .eq('email', normalized)
+    .eq('status', 'pending');
+
+  const inviteToken = generateInviteToken();
+  const { data: invitation, error: insertError } = await supabase
+    .from('home_invitations')
+    .insert({
+      home_id: homeId,
+      email: normalized,
+      role,
+      token: inviteToken,
+      invited_by: userId,
+      expires_at: invitationExpiry(),
+    })
+    .select('id, home_id, email, role, status, expires_at, created_at')
+    .single();
+
+  if (insertError) throw insertError;
+
+  const { data: home } = await supabase
+    .from('homes')
+    .select('address, city, state')
+    .eq('id', homeId)
+    .single();
+  const { data: inviter } = await supabase.auth.admin.getUserById(userId);
+
+  const url = inviteUrl(inviteToken);
+  const emailSent = await sendInvitationEmail({
+    to: normalized,
+    url,
+    role,
+    homeLabel: home ? `${home.address}, ${home.city}` : 'a home',
+    inviterName: (inviter?.user?.user_metadata?.full_name as string | undefined) ?? inviter?.user?.email ?? 'A Habitta member',
+  });
+
+  // The link is returned either way so it can be shared directly if email fails
+  return json({ invitation, inviteUrl: url, emailSent });
+}
+
+async function sendInvitationEmail(args: {
+  to: string;
+  url: string;
+  role: HomeMemberRole;
+  homeLabel: string;
+  inviterName: string;
+}): Promise<boolean> {
+  const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY');
+  if (!RESEND_API_KEY) {
+    console.error('[home-members] RESEND_API_KEY is not configured');
+    return false;
+  }
+
+  const roleLabel = HOME_ROLE_LABELS[args.role].toLowerCase();
+
+  try {
+    const res = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${RESEND_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: 'Habitta <hello@habitta.app>',
+        to: [args.to],
+        subject: `${args.inviterName} shared ${args.homeLabel} with you on Habitta`,
+        html: `
+          <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 560px; margin: 0 auto; padding: 40px 20px;">
+            <h1 style="color: #1a1a2e; font-size: 24px; margin-bottom: 16px;">You've been invited to a home</h1>
+            <p style="color: #4a4a5a; font-size: 16px; line-height: 1.6;">
+              ${escapeHtml(args.inviterName)} invited you to ${escapeHtml(args.homeLabel)} as a ${roleLabel}.
+            </p>
+            <p style="margin: 32px 0;">
+              <a href="${args.url}" style="background: #1a1a2e; color: #fff; padding: 12px 20px; border-radius: 8px; text-decoration: none; font-size: 16px;">Accept invitation</a>
+            </p>
+            <p style="color: #888; font-size: 14px;">This link works once and expires in ${INVITATION_TTL_DAYS} days. Sign in with ${escapeHtml(args.to)} to accept it.</p>
+          </div>
+        `,
+      }),
+    });
+
+    if (!res.ok) {
+      console.error('[home-members] Resend API error:', res.status, await res.text());
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('[home-members] Failed to send invitation email:', error);
+    return false;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[ch]!);
+}
+
+async function loadInvitation(supabase: AdminClient, token: unknown) {
+  if (typeof token !== 'string' || !token) return null;
+  const { data } = await supabase
+    .from('home_invitations')
+    .select('id, home_id, email, role, status, expires_at, invited_by, homes(address, city, state)')
+    .eq('token', token)
+    .maybeSingle();
+  return data;
+}
+
+async function preview(supabase: AdminClient, token: unknown): Promise<Response> {
+  const invitation = await loadInvitation(supabase, token);
+  if (!invitation) return json({ error: 'Invitation not found' }, 404);
+
+  const home = invitation.homes as { address: string; city: string; state: string } | null;
+  return json({
+    email: invitation.email,
+    role: invitation.role,
+    status: invitation.status,
+    expiresAt: invitation.expires_at,
+    home: home ? { address: home.address, city: home.city, state: home.state } : null,
+  });
+}
+
+async function accept(
+  supabase: AdminClient,
+  userId: string,
+  email: string | undefined,
+  token: unknown
+): Promise<Response> {
+  const invitation = await loadInvitation(supabase, token);
+  if (!invitation) return json({ error: 'Invitation not found' }, 404);
+
+  const acceptError = invitationAcceptError(invitation, email);
+  if (acceptError) return json({ error: acceptError }, 409);
+
+  const existingRole = await getHomeRole(invitation.home_id, userId);
+  if (!existingRole) {
+    const { error: memberError } = await supabase
+      .from('home_members')
+      .insert({
+        home_id: invitation.home_id,
+        user_id: userId,
+        role: invitation.role,
+        invited_by: invitation.invited_by,
+      });
+    if (memberError) throw memberError;
+  }
+
+  const { error: updateError } = await supabase
+    .from('home_invitations')
+    .update({ status: 'accepted', accepted_by: userId, accepted_at: new Date().toISOString() })
+    .eq('id', invitation.id);
+  if (updateError) throw updateError;
+
+  return json({ homeId: invitation.home_id, role: existingRole ?? invitation.role });
+}
+
+async function revoke(supabase: AdminClient, userId: string, invitationId: unknown): Promise<Response> {
+  if (typeof invitationId !== 'string') return json({ error: 'invitationId is required' }, 400);
+
+  const { data: invitation } = await supabase
+    .from('home_invitations')
+    .select('id, home_id, role, status')
+    .eq('id', invitationId)
+    .maybeSingle();
+  if (!invitation) return json({ error: 'Invitation not found' }, 404);
+
+  const actorRole = await getHomeRole(invitation.home_id, userId);
+  if (!actorRole || !canAssignRole(actorRole, invitation.role)) {
+    return json({ error: "You can't cancel this invitation" }, 403);
+  }
+
+  const { error } = await supabase
+    .from('home_invitations')
+    .update({ status: 'revoked' })
+    .eq('id', invitationId)
+    .eq('status', 'pending');
+  if (error) throw error;
+
+  return json({ success: true });
+}
+
+// ============================================================================
+// MEMBERS
+// ============================================================================
+
+async function list(supabase: AdminClient, userId: string, homeId: unknown): Promise<Response> {
+  if (typeof homeId !== 'string') return json({ error: 'homeId is required' }, 400);
+
+  const actorRole = await getHomeRole(homeId, userId);
+  if (!actorRole) return json({ error: 'Home not found' }, 404);
+
+  const { data: rows, error } = await supabase
+    .from('home_members')
+    .select('id, user_id, role, created_at')
+    .eq('home_id', homeId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+
+  // Names and emails live in auth.users; households are small
+  const members = await Promise.all((rows ?? []).map(async (row) => {
+    const { data } = await supabase.auth.admin.getUserById(row.user_id);
+    return {
+      id: row.id,
+      userId: row.user_id,
+      role: row.role,
+      joinedAt: row.created_at,
+      email: data?.user?.email ?? null,
+      fullName: (data?.user?.user_metadata?.full_name as string | undefined) ?? null,
+    };
+  }));
+
+  let invitations: unknown[] = [];
+  if (actorRole === 'owner' || actorRole === 'co_owner') {
+    const { data: pending } = await supabase
+      .from('home_invitations')
+      .select('id, email, role, status, expires_at, created_at')
+      .eq('home_id', homeId)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+    invitations = pending ?? [];
+  }
+
+  return json({ role: actorRole, members, invitations });
+}
+
+async function loadMember(supabase: AdminClient, memberId: unknown) {
+  if (typeof memberId !== 'string') return null;
+  const { data } = await supabase
+    .from('home_members')
+    .select('id, home_id, user_id, role')
+    .eq('id', memberId)
+    .maybeSingle();
+  return data;
+}
+
+async function updateRole(
+  supabase: AdminClient,
+  userId: string,
+  memberId: unknown,
+  role: unknown
+): Promise<Response> {
+  if (!isHomeMemberRole(role)) return json({ error: `Unknown role: ${role}` }, 400);
+
+  const member = await loadMember(supabase, memberId);
+  if (!member) return json({ error: 'Member not found' }, 404);
+
+  const actorRole = await getHomeRole(member.home_id, userId);
+  const isSelf = member.user_id === userId;
+  // Changing roles (unlike leaving) needs authority over both the old and new role
+  if (
+    !actorRole ||
+    isSelf ||
+    !canManageMember(actorRole, member.role, false) ||
+    !canAssignRole(actorRole, role)
+  ) {
+    return json({ error: "You can't change this member's role" }, 403);
+  }
+
+  const { error } = await supabase.from('home_members').update({ role }).eq('id', member.id);
+  if (error) throw error;
+
+  return json({ success: true });
+}
+
+async function removeMember(supabase: AdminClient, userId: string, memberId: unknown): Promise<Response> {
+  const member = await loadMember(supabase, memberId);
+  if (!member) return json({ error: 'Member not found' }, 404);
+
+  const actorRole = await getHomeRole(member.home_id, userId);
+  if (!actorRole || !canManageMember(actorRole, member.role, member.user_id === userId)) {
+    return json({ error: "You can't remove this member" }, 403);
+  }
+
+  const { error } = await supabase.from('home_members').delete().eq('id', member.id);
+  if (error) throw error;
+
+  return json({ success: true });
+}
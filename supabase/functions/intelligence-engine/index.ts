@@ -3,7 +3,13 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.51.0';
 import { deriveHVACPermitSignal, deriveSystemPermitSignal, type HVACPermitSignal, type SystemPermitSignal, type PermitSystemType } from '../_shared/permitSignal.ts';
 import { SYSTEM_CONFIGS } from '../_shared/systemConfigs.ts';
-import { inferRoofTimeline, inferWaterHeaterTimeline, getRegionContext, type PropertyContext, type InferredTimeline } from '../_shared/systemInference.ts';
+import { classifyPermitWork, isSystemPermit, type PermitText } from '../_shared/permitClassifier.ts';
+import { inferRoofTimeline, inferWaterHeaterTimeline, getRegionContext, applyMaintenanceAdherence, getMaintenanceEffect, maintenanceShiftYears, measuredMaintenanceEffect, type PropertyContext, type InferredTimeline, type MaintenanceEffect } from '../_shared/systemInference.ts';
+import { scoreMaintenanceAdherence } from '../_shared/maintenanceAdherence.ts';
+import { loadMaintenanceRecords } from '../_shared/maintenanceAdherenceLoader.ts';
+import { loadRoofGeometry } from '../_shared/roofGeometryLoader.ts';
+import { getCalibratedCurve } from '../_shared/failureCalibration.ts';
+import { loadActiveFailureCalibration } from '../_shared/failureCalibrationLoader.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -719,7 +725,7 @@ async function getExplanations(entityId: string, entityType: 'system' | 'task' |
 
 const HVAC_BASELINE_LIFESPAN = 14;      // South Florida realistic average (years)
 const HVAC_CLIMATE_MULTIPLIER = 0.85;   // Miami-Dade heat/humidity penalty (~15% reduction)
-const HVAC_MAINTENANCE_BOOST = 1.1;     // ~10% extension for recent maintenance
+const HVAC_MAINTENANCE_BOOST = 1.1;     // ~10% extension; only for legacy habitta_system_events when no measured record exists
 
 // ============== HVAC Failure Window Scoring (v1) ==============
 // Inline implementation - edge functions can't import from src/
@@ -795,6 +801,12 @@ interface HVACFailureInputs {
   hasUsageSignal: boolean;
   /** Install context classification for quality penalty */
   installSource?: 'permit_replacement' | 'permit_install' | 'inferred' | 'default';
+  /** Fitted baseline from the active failure calibration; constants when absent */
+  calibratedBaseline?: {
+    version: string;
+    median_lifespan_years: number;
+    sigma_years: number;
+  } | null;
 }
 
 interface HVACFailureResult {
@@ -819,7 +831,8 @@ function scoreHVACFailureWindow(
     environmentIndex,
     installVerified,
     hasUsageSignal,
-    installSource
+    installSource,
+    calibratedBaseline
   } = inputs;
 
   // Normalize all indices
@@ -846,8 +859,9 @@ function scoreHVACFailureWindow(
   M_total = clampValue(M_total, HVAC_FAILURE_CONSTANTS.clamps.multiplier_min, HVAC_FAILURE_CONSTANTS.clamps.multiplier_max);
 
   // Lifespan calculations
-  const L50_base = HVAC_FAILURE_CONSTANTS.baseline.median_lifespan_years;
-  const sigma_base = HVAC_FAILURE_CONSTANTS.baseline.sigma_years;
+  const baseline = calibratedBaseline ?? HVAC_FAILURE_CONSTANTS.baseline;
+  const L50_base = baseline.median_lifespan_years;
+  const sigma_base = baseline.sigma_years;
   const L50_effective = L50_base * M_total;
 
   const age_years = Math.max(yearsBetween(installDate, now), 0);
@@ -888,7 +902,9 @@ function scoreHVACFailureWindow(
     years_remaining_p50: Number(years_remaining_p50.toFixed(1)),
     confidence_0_1: Number(confidence.toFixed(2)),
     provenance: {
-      model_version: HVAC_FAILURE_CONSTANTS.model_version,
+      model_version: calibratedBaseline
+        ? `${HVAC_FAILURE_CONSTANTS.model_version}+${calibratedBaseline.version}`
+        : HVAC_FAILURE_CONSTANTS.model_version,
       multipliers: { M_climate, M_maintenance, M_install, M_usage, M_environment, M_unknowns, M_total },
       baseline: { L50_base, sigma_base },
       effective: { L50_effective, sigma_effective }
@@ -951,6 +967,7 @@ interface HVACSystemPrediction {
     confidence_0_1: number;
     provenance?: any;
   };
+  maintenanceEffect?: MaintenanceEffect;
 }
 
 function determineHVACSystemAge(
@@ -964,15 +981,18 @@ function determineHVACSystemAge(
     return { ageYears: currentYear - explicitInstallYear, installSource: 'permit_replacement' };
   }
   
-  // Priority 2: HVAC replacement permit (includes "change out", "upgrade")
-  const replacementKeywords = ['replace', 'change out', 'upgrade', 'new unit', 'changeout'];
-  const hvacReplacementPermit = permits.find(p => {
-    const desc = (p.description || p.work_description || '').toLowerCase();
-    const isHVAC = desc.includes('hvac') || desc.includes('air condition') || 
-                   desc.includes('a/c') || desc.includes('ac unit') ||
-                   (p.permit_type || '').toLowerCase().includes('mechanical');
-    return isHVAC && replacementKeywords.some(kw => desc.includes(kw));
-  });
+  // Work type comes from the shared classifier, so "replace compressor" is a
+  // repair and not a new system
+  const hvacPermits = permits
+    .map(p => ({
+      permit: p,
+      text: { description: p.description || p.work_description, permit_type: p.permit_type } as PermitText,
+    }))
+    .filter(({ text }) => isSystemPermit('hvac', text));
+
+  // Priority 2: HVAC replacement permit (includes "change out", "new unit")
+  const hvacReplacementPermit = hvacPermits
+    .find(({ text }) => classifyPermitWork('hvac', text) === 'replacement')?.permit;
   
   if (hvacReplacementPermit?.issue_date) {
     return { 
@@ -981,14 +1001,9 @@ function determineHVACSystemAge(
     };
   }
   
-  // Priority 3: Any HVAC permit (install, new)
-  const hvacInstallPermit = permits.find(p => {
-    const desc = (p.description || p.work_description || '').toLowerCase();
-    const isHVAC = desc.includes('hvac') || desc.includes('air condition') || 
-                   desc.includes('a/c') || desc.includes('ac unit') ||
-                   (p.permit_type || '').toLowerCase().includes('mechanical');
-    return isHVAC && (desc.includes('install') || desc.includes('new'));
-  });
+  // Priority 3: HVAC install permit (install, new)
+  const hvacInstallPermit = hvacPermits
+    .find(({ text }) => classifyPermitWork('hvac', text) === 'install')?.permit;
   
   if (hvacInstallPermit?.issue_date) {
     return { 
@@ -1010,12 +1025,16 @@ function calculateHVACSurvivalCore(
   installYear: number | null,
   homeYearBuilt: number | null,
   hasRecentMaintenance: boolean,
-  permits: any[]
+  permits: any[],
+  measuredShiftYears: number | null = null
 ): HVACSurvivalCore {
   const { ageYears, installSource } = determineHVACSystemAge(installYear, homeYearBuilt, permits);
   
-  const maintenanceMultiplier = hasRecentMaintenance ? HVAC_MAINTENANCE_BOOST : 1.0;
-  const adjustedLifespanYears = HVAC_BASELINE_LIFESPAN * HVAC_CLIMATE_MULTIPLIER * maintenanceMultiplier;
+  // A measured maintenance record replaces the flat boost
+  const baseLifespanYears = HVAC_BASELINE_LIFESPAN * HVAC_CLIMATE_MULTIPLIER;
+  const adjustedLifespanYears = measuredShiftYears !== null
+    ? baseLifespanYears + measuredShiftYears
+    : baseLifespanYears * (hasRecentMaintenance ? HVAC_MAINTENANCE_BOOST : 1.0);
   const remainingYears = Math.max(0, adjustedLifespanYears - ageYears);
   
   const status: HVACSurvivalCore['status'] = 
@@ -1111,6 +1130,7 @@ function buildHVACPredictionOutput(
     isSouthFlorida?: boolean;
     hasLimitedHistory?: boolean;
     permitSignal?: HVACPermitSignal;  // Centralized permit signal
+    maintenanceEffect?: MaintenanceEffect;
   }
 ): HVACSystemPrediction {
   const { status, remainingYears, hasRecentMaintenance, installSource, ageYears } = core;
@@ -1260,6 +1280,7 @@ function buildHVACPredictionOutput(
     history: context.history,
     lifespan,
     optimization,
+    maintenanceEffect: context.maintenanceEffect,
   };
 }
 
@@ -1326,9 +1347,16 @@ async function getHVACPrediction(homeId: string): Promise<HVACSystemPrediction>
     .gte('event_date', twelveMonthsAgo.toISOString().split('T')[0])
     .limit(5);
   
-  const hasRecentMaintenance = (recentMaintenance?.length || 0) > 0;
   const maintenanceCount = recentMaintenance?.length || 0;
   
+  // 4.5 Measured record from completed tasks and logged maintenance events
+  const maintenanceRecords = await loadMaintenanceRecords(supabase, homeId);
+  const adherence = scoreMaintenanceAdherence('hvac', maintenanceRecords, { installYear: explicitInstallYear });
+  const hasMeasuredMaintenance = adherence.level !== 'none';
+  const maintenanceEffect = measuredMaintenanceEffect(getMaintenanceEffect('hvac'), adherence);
+  // Recency of 0.5 or better is a service within the last 12 months
+  const hasRecentMaintenance = maintenanceCount > 0 || adherence.components.recency >= 0.5;
+  
   // 5. Get maintenance history for display
   const { data: historyEvents } = await supabase
     .from('habitta_system_events')
@@ -1349,7 +1377,8 @@ async function getHVACPrediction(homeId: string): Promise<HVACSystemPrediction>
     explicitInstallYear,
     home?.year_built,
     hasRecentMaintenance,
-    permits || []
+    permits || [],
+    hasMeasuredMaintenance ? maintenanceShiftYears(maintenanceEffect, adherence) : null
   );
   
   // 7. Calculate failure window using new scoring model
@@ -1364,19 +1393,27 @@ async function getHVACPrediction(homeId: string): Promise<HVACSystemPrediction>
     zip_code: home?.zip_code
   });
   
-  // Calculate maintenance score (0-1 based on recent events)
-  const maintenanceScore = Math.min(maintenanceCount / 2, 1); // 2+ events = max score
+  // Maintenance score (0-1): the adherence index, else legacy event count (2+ events = max)
+  const maintenanceScore = hasMeasuredMaintenance ? adherence.index : Math.min(maintenanceCount / 2, 1);
   
   // Calculate feature completeness (what data do we have?)
   let featureCompleteness = 0.25; // Base
   if (explicitInstallYear) featureCompleteness += 0.30;
   if (permits && permits.length > 0) featureCompleteness += 0.20;
-  if (maintenanceCount > 0) featureCompleteness += 0.15;
+  if (maintenanceCount > 0 || hasMeasuredMaintenance) featureCompleteness += 0.15;
   if (hvacSystem?.confidence) featureCompleteness += 0.10;
   featureCompleteness = Math.min(featureCompleteness, 1);
   
   const installVerified = core.installSource === 'permit_replacement' || core.installSource === 'permit_install';
   
+  // Fitted lifespan curve, if one is active. Uses the system-wide cell:
+  // climate is already applied through M_climate, so a zone cell would double-count it
+  const calibration = await loadActiveFailureCalibration(supabase);
+  const hvacCurve = getCalibratedCurve(calibration, 'hvac');
+  const calibratedBaseline = calibration && hvacCurve
+    ? { version: calibration.version, median_lifespan_years: hvacCurve.medianYears, sigma_years: hvacCurve.sigmaYears }
+    : null;
+  
   const failureWindow = scoreHVACFailureWindow({
     installDate,
     climateStressIndex,
@@ -1387,7 +1424,8 @@ async function getHVACPrediction(homeId: string): Promise<HVACSystemPrediction>
     usageIndex: 0,
     environmentIndex: 0,
     // Pass install source for replacement penalty calculation
-    installSource: permitSignal.installSource || core.installSource
+    installSource: permitSignal.installSource || core.installSource,
+    calibratedBaseline
   });
   
   console.log(`[getHVACPrediction] Failure window calculated:`, {
@@ -1398,7 +1436,7 @@ async function getHVACPrediction(homeId: string): Promise<HVACSystemPrediction>
   
   // 8. Determine if South Florida
   const isSouthFlorida = climateStressIndex >= 0.7;
-  const hasLimitedHistory = maintenanceCount < 2;
+  const hasLimitedHistory = maintenanceCount < 2 && adherence.serviceCount < 2;
   
   // 9. Build presentation with lifespan block and permit signal
   return buildHVACPredictionOutput(core, {
@@ -1409,6 +1447,7 @@ async function getHVACPrediction(homeId: string): Promise<HVACSystemPrediction>
     isSouthFlorida,
     hasLimitedHistory,
     permitSignal,  // Pass centralized signal for UI messaging
+    maintenanceEffect,
   });
 }
 
@@ -1467,6 +1506,7 @@ interface SystemPredictionOutput {
     contributesToOutlook: boolean;
     estimatedCost: { low: number; high: number };
   };
+  maintenanceEffect?: MaintenanceEffect;
 }
 
 /**
@@ -1597,6 +1637,7 @@ function buildRoofPredictionOutput(
       contributesToOutlook: true,
       estimatedCost: capitalCost,
     },
+    maintenanceEffect: timeline.maintenanceEffect,
   };
 }
 
@@ -1606,7 +1647,7 @@ async function getRoofPrediction(homeId: string): Promise<SystemPredictionOutput
   // 1. Fetch home data
   const { data: home } = await supabase
     .from('homes')
-    .select('year_built, state, city')
+    .select('year_built, state, city, address_id')
     .eq('id', homeId)
     .single();
 
@@ -1667,13 +1708,17 @@ async function getRoofPrediction(homeId: string): Promise<SystemPredictionOutput
     state: home?.state || 'FL',
     city: home?.city,
     roofMaterial: 'unknown',
+    roofGeometry: (await loadRoofGeometry(supabase, home?.address_id)) ?? undefined,
   };
 
   // 5. Get region context
   const region = getRegionContext(home?.state || 'FL', home?.city);
 
-  // 6. Use timeline inference (SINGLE SOURCE OF TRUTH)
-  const timeline = inferRoofTimeline(property, region, permits || []);
+  // 6. Use timeline inference (SINGLE SOURCE OF TRUTH), moved by the maintenance record
+  const adherence = scoreMaintenanceAdherence('roof', await loadMaintenanceRecords(supabase, homeId), {
+    installYear: systemInstallYear,
+  });
+  const timeline = applyMaintenanceAdherence(inferRoofTimeline(property, region, permits || []), adherence);
 
   // 7. Override installSource/dataQuality based on actual data source
   if (installSource === 'systems_table') {
@@ -1827,6 +1872,7 @@ function buildWaterHeaterPredictionOutput(
       contributesToOutlook: true,
       estimatedCost: capitalCost,
     },
+    maintenanceEffect: timeline.maintenanceEffect,
   };
 }
 
@@ -1902,8 +1948,11 @@ async function getWaterHeaterPrediction(homeId: string): Promise<SystemPredictio
   // 5. Get region context
   const region = getRegionContext(home?.state || 'FL', home?.city);
 
-  // 6. Use timeline inference (SINGLE SOURCE OF TRUTH)
-  const timeline = inferWaterHeaterTimeline(property, region, permits || []);
+  // 6. Use timeline inference (SINGLE SOURCE OF TRUTH), moved by the maintenance record
+  const adherence = scoreMaintenanceAdherence('water_heater', await loadMaintenanceRecords(supabase, homeId), {
+    installYear: systemInstallYear,
+  });
+  const timeline = applyMaintenanceAdherence(inferWaterHeaterTimeline(property, region, permits || []), adherence);
 
   // 7. Override installSource/dataQuality based on actual data source
   if (installSource === 'systems_table') {
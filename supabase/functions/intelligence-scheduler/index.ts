@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.51.0';
+import { getInternalSecretHeader } from '../_shared/internalAuth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -108,6 +109,97 @@ async function checkPermitUpdates() {
   }
 }
 
+// Failure curve calibration — refits lifespan curves from observed replacements
+async function runFailureCalibration() {
+  console.log('Starting failure curve calibration...');
+
+  try {
+    const { data, error } = await supabase.functions.invoke('calibrate-failure-curves', {
+      body: {},
+      headers: getInternalSecretHeader(),
+    });
+
+    if (error) {
+      console.error('Failure calibration error:', error);
+      return { error: error.message };
+    }
+
+    console.log(`Failure calibration complete: ${data?.version} (written: ${data?.written})`);
+
+    return {
+      success: true,
+      version: data?.version,
+      written: data?.written,
+      accuracy: data?.accuracy,
+    };
+
+  } catch (err) {
+    console.error('Failure calibration failed:', err);
+    return { error: 'Failure calibration failed', details: err.message };
+  }
+}
+
+// Cost model calibration — folds reported replacement costs into the regional cost model
+async function runCostCalibration() {
+  console.log('Starting cost model calibration...');
+
+  try {
+    const { data, error } = await supabase.functions.invoke('calibrate-cost-model', {
+      body: {},
+      headers: getInternalSecretHeader(),
+    });
+
+    if (error) {
+      console.error('Cost calibration error:', error);
+      return { error: error.message };
+    }
+
+    console.log(`Cost calibration complete: ${data?.version} (written: ${data?.written})`);
+
+    return {
+      success: true,
+      version: data?.version,
+      written: data?.written,
+      counts: data?.counts,
+    };
+
+  } catch (err) {
+    console.error('Cost calibration failed:', err);
+    return { error: 'Cost calibration failed', details: err.message };
+  }
+}
+
+// Notification dispatch — emails and pushes new maintenance alerts, or the weekly digest
+async function runNotificationDispatch(mode: 'alerts' | 'digest') {
+  console.log(`Starting notification dispatch (${mode})...`);
+
+  try {
+    const { data, error } = await supabase.functions.invoke('notification-dispatch', {
+      body: { mode },
+      headers: getInternalSecretHeader(),
+    });
+
+    if (error) {
+      console.error('Notification dispatch error:', error);
+      return { error: error.message };
+    }
+
+    console.log(`Notification dispatch complete: ${data?.sent} sent, ${data?.failed} failed, ${data?.deferred} deferred`);
+
+    return {
+      success: true,
+      users: data?.users,
+      sent: data?.sent,
+      failed: data?.failed,
+      deferred: data?.deferred,
+    };
+
+  } catch (err) {
+    console.error('Notification dispatch failed:', err);
+    return { error: 'Notification dispatch failed', details: err.message };
+  }
+}
+
 // Main scheduler handler
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -135,6 +227,22 @@ serve(async (req) => {
         result = await checkPermitUpdates();
         break;
 
+      case 'calibration':
+        result = await runFailureCalibration();
+        break;
+
+      case 'cost-calibration':
+        result = await runCostCalibration();
+        break;
+
+      case 'notifications':
+        result = await runNotificationDispatch('alerts');
+        break;
+
+      case 'digest':
+        result = await runNotificationDispatch('digest');
+        break;
+
       case 'all': {
         const nightlyResult = await runNightlyUpdate();
         const weatherResult = await checkWeatherAlerts();
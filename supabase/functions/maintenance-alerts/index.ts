@@ -1,5 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import {
+  buildDefaultWarranty,
+  getWarrantyAlerts,
+  rederiveDefaultWarranty,
+  warrantyFromRow,
+  warrantyToRow,
+  type AssetWarrantyRow,
+  type WarrantyAlert,
+} from "../_shared/assetWarranty.ts";
 
 const cors = {
   "Access-Control-Allow-Origin": "*",
@@ -10,6 +19,109 @@ const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY")!;
 const SERVICE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
+/** Warranty deadlines are surfaced further out than tasks — registration windows are short */
+const WARRANTY_HORIZON_DAYS = 60;
+
+interface AssetWarrantyAlert extends WarrantyAlert {
+  assetId: string;
+  assetKind: string;
+}
+
+/**
+ * Warranty alerts for active assets: registration deadlines, expiring
+ * coverage, and coverage still in force ahead of a planned replacement.
+ * Assets without a stored warranty get brand-default terms seeded.
+ */
+async function buildWarrantyAlerts(
+  admin: ReturnType<typeof createClient>,
+  userId: string,
+  homeId: string | undefined,
+  today: string,
+): Promise<AssetWarrantyAlert[]> {
+  let assetQuery = admin
+    .from("home_assets")
+    .select("id, home_id, kind, manufacturer, install_date")
+    .eq("user_id", userId)
+    .eq("status", "active");
+  if (homeId) assetQuery = assetQuery.eq("home_id", homeId);
+
+  const { data: assets, error: assetError } = await assetQuery;
+  if (assetError) throw assetError;
+  if (!assets || assets.length === 0) return [];
+
+  const assetIds = assets.map((a: { id: string }) => a.id);
+  const { data: warrantyRows, error: warrantyError } = await admin
+    .from("asset_warranties")
+    .select("asset_id, parts_years, labor_years, coverage_start, parts_expires_on, labor_expires_on, transferable, registered_parts_years, registration_deadline, registered, source, confirmed_at")
+    .in("asset_id", assetIds);
+  if (warrantyError) throw warrantyError;
+
+  const rowsByAsset = new Map<string, AssetWarrantyRow>(
+    (warrantyRows || []).map((r: AssetWarrantyRow & { asset_id: string }) => [r.asset_id, r]),
+  );
+
+  // Planned replacements: latest dated deferral per system kind
+  const homeIds = [...new Set(assets.map((a: { home_id: string }) => a.home_id))];
+  const { data: deferrals } = await admin
+    .from("decision_events")
+    .select("home_id, defer_until, created_at, home_systems(system_key)")
+    .in("home_id", homeIds)
+    .eq("decision_type", "defer_with_date")
+    .not("defer_until", "is", null)
+    .order("created_at", { ascending: false });
+
+  const plannedByHomeKind = new Map<string, string>();
+  for (const d of deferrals || []) {
+    const key = `${d.home_id}:${d.home_systems?.system_key}`;
+    if (d.home_systems?.system_key && !plannedByHomeKind.has(key)) {
+      plannedByHomeKind.set(key, d.defer_until.substring(0, 10));
+    }
+  }
+
+  const alerts: AssetWarrantyAlert[] = [];
+  const seeds: Record<string, unknown>[] = [];
+  const refreshes: Record<string, unknown>[] = [];
+
+  for (const asset of assets) {
+    const stored = rowsByAsset.get(asset.id);
+    const ref = { kind: asset.kind, manufacturer: asset.manufacturer, installDate: asset.install_date };
+    const storedWarranty = stored ? warrantyFromRow(stored) : null;
+    // Unconfirmed estimates follow the asset's current install date and brand
+    const refreshed = storedWarranty ? rederiveDefaultWarranty(storedWarranty, ref) : null;
+    const warranty = refreshed ?? storedWarranty ?? buildDefaultWarranty(ref);
+
+    if (!stored || refreshed) {
+      (stored ? refreshes : seeds).push({ asset_id: asset.id, home_id: asset.home_id, user_id: userId, ...warrantyToRow(warranty) });
+    }
+
+    const label = asset.kind.replace(/_/g, " ");
+    const assetAlerts = getWarrantyAlerts(warranty, label, {
+      today,
+      horizonDays: WARRANTY_HORIZON_DAYS,
+      plannedReplacementDate: plannedByHomeKind.get(`${asset.home_id}:${asset.kind}`) ?? null,
+    });
+    for (const alert of assetAlerts) {
+      alerts.push({ ...alert, assetId: asset.id, assetKind: asset.kind });
+    }
+  }
+
+  if (seeds.length > 0) {
+    const { error: seedError } = await admin
+      .from("asset_warranties")
+      .upsert(seeds, { onConflict: "asset_id", ignoreDuplicates: true });
+    if (seedError) console.error("[maintenance-alerts] Failed to seed warranties:", seedError);
+  }
+
+  if (refreshes.length > 0) {
+    const { error: refreshError } = await admin
+      .from("asset_warranties")
+      .upsert(refreshes, { onConflict: "asset_id" });
+    if (refreshError) console.error("[maintenance-alerts] Failed to refresh warranties:", refreshError);
+  }
+
+  return alerts.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") return new Response(null, { headers: cors });
 
@@ -19,10 +131,10 @@ serve(async (req) => {
     const expectedSecret = Deno.env.get("INTERNAL_ENRICH_SECRET");
     const isInternal = expectedSecret && internalSecret === expectedSecret;
 
+    const body = await req.json().catch(() => ({}));
     let userId: string | null = null;
 
     if (isInternal) {
-      const body = await req.json().catch(() => ({}));
       userId = body.userId;
     } else {
       const supaUser = createClient(SUPABASE_URL, ANON_KEY, {
@@ -43,7 +155,7 @@ serve(async (req) => {
       });
     }
 
-    const { homeId, daysAhead = 7 } = await req.json().catch(() => ({}));
+    const { homeId, daysAhead = 7 } = body;
 
     const admin = createClient(SUPABASE_URL, SERVICE_KEY);
     const now = new Date();
@@ -53,9 +165,9 @@ serve(async (req) => {
     // Query upcoming and overdue tasks
     let query = admin
       .from("maintenance_tasks")
-      .select("id, title, due_date, priority, status, category, system_type, cost")
+      .select("id, home_id, title, due_date, priority, status, category, system_type, cost")
       .eq("user_id", userId)
-      .neq("status", "completed")
+      .not("status", "in", "(completed,skipped)")
       .order("due_date", { ascending: true });
 
     if (homeId) {
@@ -87,6 +199,14 @@ serve(async (req) => {
 
     const totalCost = [...overdue, ...upcoming].reduce((sum, t) => sum + (t.cost || 0), 0);
 
+    // Warranty alerts are non-fatal: tasks still return if they fail
+    let warrantyAlerts: AssetWarrantyAlert[] = [];
+    try {
+      warrantyAlerts = await buildWarrantyAlerts(admin, userId, homeId, now.toISOString().substring(0, 10));
+    } catch (warrantyError) {
+      console.error("[maintenance-alerts] Warranty alerts failed:", warrantyError);
+    }
+
     // Build chat message
     let chatMessage = "";
     if (overdue.length > 0 || upcoming.length > 0) {
@@ -111,6 +231,13 @@ serve(async (req) => {
       }
     }
 
+    if (warrantyAlerts.length > 0) {
+      chatMessage += `${chatMessage ? " " : ""}${warrantyAlerts[0].message}`;
+      if (warrantyAlerts.length > 1) {
+        chatMessage += ` (${warrantyAlerts.length - 1} more warranty reminder${warrantyAlerts.length > 2 ? "s" : ""}.)`;
+      }
+    }
+
     return new Response(JSON.stringify({
       overdue: overdue.length,
       upcoming: upcoming.length,
@@ -118,6 +245,7 @@ serve(async (req) => {
       estimatedCost: totalCost,
       bySystem,
       tasks: [...overdue, ...upcoming],
+      warrantyAlerts,
       chatMessage: chatMessage || null,
     }), {
       headers: { ...cors, "Content-Type": "application/json" },
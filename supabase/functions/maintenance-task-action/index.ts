@@ -0,0 +1,285 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { validateHomeAccess } from "../_shared/internalAuth.ts";
+import { taskRequiresAbsentSystem } from "../_shared/maintenanceSystems.ts";
+import { buildKnownSystems } from "../_shared/maintenanceSystemsLoader.ts";
+import {
+  addDaysToDate,
+  DEFAULT_SNOOZE_DAYS,
+  nextDueDate,
+  recurrenceRuleForTask,
+  snoozedDueDate,
+  type MaintenanceTaskAction,
+} from "../_shared/maintenanceRecurrence.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type AdminClient = ReturnType<typeof createClient>;
+
+interface MaintenanceTaskRow {
+  id: string;
+  home_id: string | null;
+  user_id: string;
+  title: string;
+  description: string | null;
+  category: string | null;
+  system_type: string | null;
+  priority: string | null;
+  cost: number | null;
+  status: string | null;
+  due_date: string | null;
+  recurring: boolean | null;
+  recurrence_interval: string | null;
+  recurrence_rule: unknown;
+  series_id: string | null;
+  original_due_date: string | null;
+  snooze_count: number | null;
+}
+
+const MAX_SNOOZE_DAYS = 90;
+const PERFORMERS = ['diy', 'professional'];
+/** today() is the UTC date; a user east of UTC may already be a day ahead */
+const COMPLETED_DATE_SLACK_DAYS = 1;
+
+/**
+ * maintenance-task-action: Close out or defer a maintenance task
+ *
+ * Actions (POST body `action`, always with `taskId`):
+ * - complete  { completedDate?, performedBy? }
+ *                                 → completed; next occurrence due from completedDate.
+ *                                   performedBy ('diy' | 'professional') feeds the
+ *                                   system's maintenance adherence score
+ * - skip                          → skipped; next occurrence due from the skipped due date
+ * - snooze    { snoozeDays? }     → same task, later due date; no new occurrence
+ * - reopen                        → back to pending; removes the untouched occurrence
+ *                                   that completing or skipping created
+ *
+ * Next-due rules live in _shared/maintenanceRecurrence.ts. A series stops
+ * generating once the home no longer has the system it maintains (e.g. the
+ * pool was removed), using the same filter as seed-maintenance-plan.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return json({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const body = await req.json();
+    const action = body.action as MaintenanceTaskAction;
+    console.log('[maintenance-task-action] Action:', action, 'task:', body.taskId, 'user:', user.id);
+
+    if (!body.taskId) {
+      return json({ error: 'taskId required' }, 400);
+    }
+
+    const { data: task, error: taskError } = await supabase
+      .from('maintenance_tasks')
+      .select('*')
+      .eq('id', body.taskId)
+      .maybeSingle<MaintenanceTaskRow>();
+    if (taskError) throw taskError;
+    if (!task) {
+      return json({ error: 'Task not found' }, 404);
+    }
+
+    // Same access as the maintenance_tasks UPDATE policies
+    const canEdit = task.user_id === user.id ||
+      (!!task.home_id && await validateHomeAccess(task.home_id, user.id, 'recordEvents'));
+    if (!canEdit) {
+      return json({ error: 'Not allowed to update this task' }, 403);
+    }
+
+    switch (action) {
+      case 'complete':
+        return await complete(supabase, task, body.completedDate, body.performedBy);
+      case 'skip':
+        return await skip(supabase, task);
+      case 'snooze':
+        return await snooze(supabase, task, body.snoozeDays);
+      case 'reopen':
+        return await reopen(supabase, task);
+      default:
+        return json({ error: `Unknown action: ${body.action}` }, 400);
+    }
+  } catch (error) {
+    console.error('[maintenance-task-action] Error:', error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// ── Actions ──
+
+async function complete(
+  supabase: AdminClient,
+  task: MaintenanceTaskRow,
+  completedDate?: string,
+  performedBy?: string
+) {
+  const completedOn = isDate(completedDate) ? completedDate!.slice(0, 10) : today();
+  if (completedOn > addDaysToDate(today(), COMPLETED_DATE_SLACK_DAYS)) {
+    return json({ error: 'completedDate cannot be in the future' }, 400);
+  }
+  if (performedBy !== undefined && !PERFORMERS.includes(performedBy)) {
+    return json({ error: `performedBy must be one of: ${PERFORMERS.join(', ')}` }, 400);
+  }
+
+  const { data: updated, error } = await supabase
+    .from('maintenance_tasks')
+    .update({
+      status: 'completed',
+      completed_date: new Date(`${completedOn}T12:00:00Z`).toISOString(),
+      ...(performedBy ? { performed_by: performedBy } : {}),
+    })
+    .eq('id', task.id)
+    .select()
+    .single();
+  if (error) throw error;
+
+  const next = await scheduleNext(supabase, task, completedOn);
+  return json({ task: updated, next });
+}
+
+async function skip(supabase: AdminClient, task: MaintenanceTaskRow) {
+  const { data: updated, error } = await supabase
+    .from('maintenance_tasks')
+    .update({ status: 'skipped', completed_date: null })
+    .eq('id', task.id)
+    .select()
+    .single();
+  if (error) throw error;
+
+  const next = await scheduleNext(supabase, task, task.due_date ?? today());
+  return json({ task: updated, next });
+}
+
+async function snooze(supabase: AdminClient, task: MaintenanceTaskRow, snoozeDays?: number) {
+  if (task.status === 'completed' || task.status === 'skipped') {
+    return json({ error: `Cannot snooze a ${task.status} task` }, 400);
+  }
+  const days = Number.isInteger(snoozeDays) ? snoozeDays! : DEFAULT_SNOOZE_DAYS;
+  if (days < 1 || days > MAX_SNOOZE_DAYS) {
+    return json({ error: `snoozeDays must be between 1 and ${MAX_SNOOZE_DAYS}` }, 400);
+  }
+
+  const { data: updated, error } = await supabase
+    .from('maintenance_tasks')
+    .update({
+      status: 'pending',
+      due_date: snoozedDueDate(task.due_date, today(), days),
+      original_due_date: task.original_due_date ?? task.due_date,
+      snooze_count: (task.snooze_count ?? 0) + 1,
+    })
+    .eq('id', task.id)
+    .select()
+    .single();
+  if (error) throw error;
+
+  return json({ task: updated, next: null });
+}
+
+async function reopen(supabase: AdminClient, task: MaintenanceTaskRow) {
+  const { data: updated, error } = await supabase
+    .from('maintenance_tasks')
+    .update({ status: 'pending', completed_date: null, performed_by: null })
+    .eq('id', task.id)
+    .select()
+    .single();
+  if (error) throw error;
+
+  // Only the occurrence nobody has touched yet; a snoozed or started one stays
+  const { error: deleteError } = await supabase
+    .from('maintenance_tasks')
+    .delete()
+    .eq('previous_task_id', task.id)
+    .eq('status', 'pending')
+    .eq('snooze_count', 0);
+  if (deleteError) throw deleteError;
+
+  return json({ task: updated, next: null });
+}
+
+// ── Recurrence ──
+
+/**
+ * Insert the series' next occurrence after `task`, or return null when the
+ * task is one-off, already has one, or maintains a system the home no
+ * longer has
+ */
+async function scheduleNext(supabase: AdminClient, task: MaintenanceTaskRow, from: string) {
+  const rule = recurrenceRuleForTask(task);
+  if (!rule) return null;
+
+  const { data: existing } = await supabase
+    .from('maintenance_tasks')
+    .select('*')
+    .eq('previous_task_id', task.id)
+    .maybeSingle();
+  if (existing) return existing;
+
+  if (task.home_id) {
+    const knownSystems = await buildKnownSystems(supabase, task.home_id);
+    if (taskRequiresAbsentSystem(task, knownSystems)) {
+      console.log(`[maintenance-task-action] Series ${task.series_id ?? task.id} ended: home no longer has ${task.system_type}`);
+      return null;
+    }
+  }
+
+  const { data: next, error } = await supabase
+    .from('maintenance_tasks')
+    .insert({
+      home_id: task.home_id,
+      user_id: task.user_id,
+      title: task.title,
+      description: task.description,
+      category: task.category,
+      system_type: task.system_type,
+      priority: task.priority,
+      cost: task.cost,
+      status: 'pending',
+      due_date: nextDueDate(rule, from, task.due_date),
+      recurring: true,
+      recurrence_interval: task.recurrence_interval,
+      recurrence_rule: rule,
+      series_id: task.series_id ?? task.id,
+      previous_task_id: task.id,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  return next;
+}
+
+function isDate(value: unknown): boolean {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value);
+}
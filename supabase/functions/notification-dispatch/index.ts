@@ -0,0 +1,416 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getInternalSecretHeader, validateRequest } from "../_shared/internalAuth.ts";
+import {
+  alertNotificationItems,
+  channelEnabled,
+  composeAlertEmail,
+  composeDigestEmail,
+  composePushPayload,
+  DIGEST_LOCAL_HOUR,
+  digestDedupKey,
+  isDigestDue,
+  isQuietHours,
+  kindEnabled,
+  localTime,
+  resolvePreferences,
+  type MaintenanceAlertsSummary,
+  type NotificationChannel,
+  type NotificationItem,
+  type NotificationPreferences,
+} from "../_shared/notificationRules.ts";
+import {
+  emailTransportFromEnv,
+  sendWebPush,
+  vapidKeysFromEnv,
+  type DeliveryResult,
+  type EmailTransport,
+  type VapidKeys,
+} from "../_shared/notificationTransports.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type AdminClient = ReturnType<typeof createClient>;
+
+/** "Coming up" reaches this far ahead; the digest looks a week out */
+const DUE_SOON_DAYS = 3;
+const DIGEST_DAYS = 7;
+/**
+ * Users handled per scheduled run; later users wait for the next run (see
+ * nextUserBatch). Kept under PostgREST's 1000-row cap so a short page
+ * always means the last one
+ */
+const MAX_USERS_PER_RUN = 500;
+
+type ScheduledMode = 'alerts' | 'digest';
+
+/** Distinct candidate users after the cursor, in user_id order, at most `limit` */
+type CandidateQuery = (after: string | null, limit: number) => PromiseLike<{ data: Array<{ user_id: string }> | null; error: unknown }>;
+
+interface Transports {
+  email: EmailTransport | null;
+  vapid: VapidKeys | null;
+}
+
+interface RunStats {
+  users: number;
+  sent: number;
+  failed: number;
+  /** Held back by quiet hours (R2 in notificationRules) */
+  deferred: number;
+}
+
+/**
+ * notification-dispatch: Delivers maintenance-alerts to homeowners outside the app
+ *
+ * Modes (POST body `mode`):
+ * - alerts  (internal, hourly)  → new overdue / due-soon / warranty items by email and push
+ * - digest  (internal, hourly)  → weekly digest email for users whose digest is due
+ * - test    (user JWT)          → a test message on the caller's enabled channels
+ *
+ * What to send and the dedup keys come from _shared/notificationRules.ts;
+ * delivery from _shared/notificationTransports.ts. Every attempt is logged in
+ * notification_deliveries, and a 'sent' row is what stops a repeat.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await validateRequest(req);
+    if (!auth.authorized) {
+      return json({ error: auth.error ?? 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+    const transports: Transports = { email: emailTransportFromEnv(), vapid: vapidKeysFromEnv() };
+
+    const body = await req.json().catch(() => ({}));
+    const mode = body.mode ?? 'alerts';
+    console.log('[notification-dispatch] Mode:', mode, 'internal:', auth.isInternal);
+
+    if (mode === 'test') {
+      if (!auth.userId) return json({ error: 'Test notifications need a signed-in user' }, 400);
+      return json(await sendTest(supabase, transports, auth.userId));
+    }
+
+    if (!auth.isInternal) {
+      return json({ error: `Mode ${mode} is scheduler-only` }, 403);
+    }
+
+    switch (mode) {
+      case 'alerts':
+        return json(await runAlerts(supabase, transports));
+      case 'digest':
+        return json(await runDigest(supabase, transports));
+      default:
+        return json({ error: `Unknown mode: ${mode}` }, 400);
+    }
+  } catch (error) {
+    console.error('[notification-dispatch] Error:', error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// ── Modes ──
+
+async function runAlerts(supabase: AdminClient, transports: Transports): Promise<RunStats> {
+  const now = new Date();
+  const today = now.toISOString().slice(0, 10);
+  const horizon = new Date(now.getTime() + DUE_SOON_DAYS * 86_400_000).toISOString().slice(0, 10);
+
+  // Anyone with an open task inside the window, or assets whose warranties may need a reminder
+  const userIds = await nextUserBatch(supabase, 'alerts', (after, limit) =>
+    supabase.rpc('notification_alert_candidates', { p_after: after, p_due_before: horizon, p_limit: limit })
+  );
+  const prefsByUser = await loadPreferences(supabase, userIds);
+  const stats: RunStats = { users: 0, sent: 0, failed: 0, deferred: 0 };
+
+  for (const userId of userIds) {
+    const prefs = prefsByUser.get(userId)!;
+    if (!prefs.email_enabled && !prefs.push_enabled) continue;
+    if (isQuietHours(prefs, now)) {
+      stats.deferred++;
+      continue;
+    }
+
+    try {
+      const summary = await fetchAlerts(supabase, userId, DUE_SOON_DAYS);
+      const items = alertNotificationItems(summary, today).filter(i => kindEnabled(prefs, i.kind));
+      if (items.length === 0) continue;
+
+      stats.users++;
+      for (const channel of ['email', 'push'] as NotificationChannel[]) {
+        if (!channelEnabled(prefs, channel)) continue;
+        const fresh = await undelivered(supabase, userId, channel, items);
+        if (fresh.length === 0) continue;
+
+        const result = await deliver(supabase, transports, userId, channel, fresh);
+        if (!result) continue;
+        await logDeliveries(supabase, userId, channel, fresh, result);
+        if (result.ok) stats.sent++;
+        else stats.failed++;
+      }
+    } catch (error) {
+      console.error(`[notification-dispatch] Alerts failed for ${userId}:`, error);
+      stats.failed++;
+    }
+  }
+
+  console.log('[notification-dispatch] Alerts run:', stats);
+  return stats;
+}
+
+async function runDigest(supabase: AdminClient, transports: Transports): Promise<RunStats> {
+  const now = new Date();
+  const today = now.toISOString().slice(0, 10);
+
+  // Chosen by local time: only users whose digest is due now and not yet sent
+  const userIds = await nextUserBatch(supabase, 'digest', (after, limit) =>
+    supabase.rpc('notification_digest_candidates', { p_after: after, p_local_hour: DIGEST_LOCAL_HOUR, p_limit: limit })
+  );
+  const prefsByUser = await loadPreferences(supabase, userIds);
+  const stats: RunStats = { users: 0, sent: 0, failed: 0, deferred: 0 };
+
+  for (const userId of userIds) {
+    const prefs = prefsByUser.get(userId)!;
+    if (!prefs.weekly_digest || !prefs.email_enabled || !isDigestDue(prefs, now)) continue;
+    if (isQuietHours(prefs, now)) {
+      stats.deferred++;
+      continue;
+    }
+
+    try {
+      const item: NotificationItem = {
+        kind: 'weekly_digest',
+        dedupKey: digestDedupKey(localTime(now, prefs.timezone).date),
+        subjectId: null,
+        homeId: null,
+        title: 'Your week at home',
+        body: '',
+        url: '/maintenance',
+      };
+      if ((await undelivered(supabase, userId, 'email', [item])).length === 0) continue;
+
+      const summary = await fetchAlerts(supabase, userId, DIGEST_DAYS);
+      // Nothing due and no warranty deadlines: skip rather than send an empty digest
+      if (summary.tasks.length === 0 && summary.warrantyAlerts.length === 0) continue;
+
+      stats.users++;
+      const result = await sendEmail(supabase, transports, userId, composeDigestEmail(summary, today, appUrl()));
+      if (!result) continue;
+      await logDeliveries(supabase, userId, 'email', [item], result);
+      if (result.ok) stats.sent++;
+      else stats.failed++;
+    } catch (error) {
+      console.error(`[notification-dispatch] Digest failed for ${userId}:`, error);
+      stats.failed++;
+    }
+  }
+
+  console.log('[notification-dispatch] Digest run:', stats);
+  return stats;
+}
+
+async function sendTest(supabase: AdminClient, transports: Transports, userId: string) {
+  const prefs = (await loadPreferences(supabase, [userId])).get(userId)!;
+  const item: NotificationItem = {
+    kind: 'test',
+    dedupKey: `test:${Date.now()}`,
+    subjectId: null,
+    homeId: null,
+    title: 'Habitta notifications are on',
+    body: 'This is how maintenance reminders will reach you.',
+    url: '/settings',
+  };
+
+  const results: Partial<Record<NotificationChannel, DeliveryResult | null>> = {};
+  for (const channel of ['email', 'push'] as NotificationChannel[]) {
+    if (!channelEnabled(prefs, channel)) continue;
+    const result = await deliver(supabase, transports, userId, channel, [item]);
+    if (result) await logDeliveries(supabase, userId, channel, [item], result);
+    results[channel] = result;
+  }
+  return { results };
+}
+
+// ── Delivery ──
+
+/**
+ * Send `items` as one message on `channel`; null when the channel has
+ * nowhere to go (no transport configured, no email, no subscriptions)
+ */
+async function deliver(
+  supabase: AdminClient,
+  transports: Transports,
+  userId: string,
+  channel: NotificationChannel,
+  items: NotificationItem[],
+): Promise<(DeliveryResult & { transport: string }) | null> {
+  if (channel === 'email') {
+    return sendEmail(supabase, transports, userId, composeAlertEmail(items, appUrl()));
+  }
+  return sendPush(supabase, transports, userId, JSON.stringify(composePushPayload(items)));
+}
+
+async function sendEmail(
+  supabase: AdminClient,
+  transports: Transports,
+  userId: string,
+  content: { subject: string; html: string; text: string },
+): Promise<(DeliveryResult & { transport: string }) | null> {
+  if (!transports.email) return null;
+  const { data, error } = await supabase.auth.admin.getUserById(userId);
+  const to = data?.user?.email;
+  if (error || !to) return null;
+
+  const result = await transports.email.send({ to, ...content });
+  return { ...result, transport: transports.email.name };
+}
+
+async function sendPush(
+  supabase: AdminClient,
+  transports: Transports,
+  userId: string,
+  payload: string,
+): Promise<(DeliveryResult & { transport: string }) | null> {
+  if (!transports.vapid) return null;
+  const { data: subscriptions } = await supabase
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .eq('user_id', userId);
+  if (!subscriptions || subscriptions.length === 0) return null;
+
+  // Delivered if any of the user's browsers accepted it
+  const errors: string[] = [];
+  let delivered = false;
+  for (const sub of subscriptions) {
+    const result = await sendWebPush(sub, payload, transports.vapid);
+    if (result.ok) {
+      delivered = true;
+      await supabase.from('push_subscriptions').update({ last_used_at: new Date().toISOString() }).eq('id', sub.id);
+    } else if (result.expired) {
+      await supabase.from('push_subscriptions').delete().eq('id', sub.id);
+      errors.push(result.error ?? 'expired');
+    } else {
+      errors.push(result.error ?? 'failed');
+    }
+  }
+
+  return { ok: delivered, error: delivered ? undefined : errors.join('; '), transport: 'web_push' };
+}
+
+// ── Log & dedup ──
+
+async function undelivered(
+  supabase: AdminClient,
+  userId: string,
+  channel: NotificationChannel,
+  items: NotificationItem[],
+): Promise<NotificationItem[]> {
+  const { data: sent, error } = await supabase
+    .from('notification_deliveries')
+    .select('dedup_key')
+    .eq('user_id', userId)
+    .eq('channel', channel)
+    .eq('status', 'sent')
+    .in('dedup_key', items.map(i => i.dedupKey));
+  if (error) throw error;
+
+  const sentKeys = new Set((sent || []).map((r: { dedup_key: string }) => r.dedup_key));
+  return items.filter(i => !sentKeys.has(i.dedupKey));
+}
+
+async function logDeliveries(
+  supabase: AdminClient,
+  userId: string,
+  channel: NotificationChannel,
+  items: NotificationItem[],
+  result: DeliveryResult & { transport: string },
+): Promise<void> {
+  const { error } = await supabase.from('notification_deliveries').insert(
+    items.map(i => ({
+      user_id: userId,
+      home_id: i.homeId,
+      kind: i.kind,
+      channel,
+      dedup_key: i.dedupKey,
+      subject_id: i.subjectId,
+      status: result.ok ? 'sent' : 'failed',
+      transport: result.transport,
+      error: result.error ?? null,
+    })),
+  );
+  // A concurrent run may have logged the same key; the message already went out
+  if (error) console.error('[notification-dispatch] Failed to log deliveries:', error);
+}
+
+// ── Helpers ──
+
+async function fetchAlerts(supabase: AdminClient, userId: string, daysAhead: number): Promise<MaintenanceAlertsSummary> {
+  const { data, error } = await supabase.functions.invoke('maintenance-alerts', {
+    body: { userId, daysAhead },
+    headers: getInternalSecretHeader(),
+  });
+  if (error) throw error;
+  return data as MaintenanceAlertsSummary;
+}
+
+async function loadPreferences(supabase: AdminClient, userIds: string[]): Promise<Map<string, NotificationPreferences>> {
+  const { data, error } = userIds.length === 0
+    ? { data: [], error: null }
+    : await supabase.from('notification_preferences').select('*').in('user_id', userIds);
+  if (error) throw error;
+
+  const rows = new Map((data || []).map((r: NotificationPreferences & { user_id: string }) => [r.user_id, r]));
+  return new Map(userIds.map(id => [id, resolvePreferences(rows.get(id))]));
+}
+
+/**
+ * The next MAX_USERS_PER_RUN candidates after this mode's cursor, in
+ * user_id order, so successive runs walk every user instead of the same
+ * first batch. The cursor (notification_dispatch_cursors) wraps to the
+ * start once a run reaches the last candidate.
+ */
+async function nextUserBatch(supabase: AdminClient, mode: ScheduledMode, candidates: CandidateQuery): Promise<string[]> {
+  const { data: cursor, error: cursorError } = await supabase
+    .from('notification_dispatch_cursors')
+    .select('last_user_id')
+    .eq('mode', mode)
+    .maybeSingle<{ last_user_id: string | null }>();
+  if (cursorError) throw cursorError;
+
+  const { data, error } = await candidates(cursor?.last_user_id ?? null, MAX_USERS_PER_RUN);
+  if (error) throw error;
+  const batch = (data || []).map(row => row.user_id);
+  const reachedEnd = batch.length < MAX_USERS_PER_RUN;
+
+  const { error: saveError } = await supabase
+    .from('notification_dispatch_cursors')
+    .upsert({
+      mode,
+      last_user_id: reachedEnd ? null : batch[batch.length - 1],
+      updated_at: new Date().toISOString(),
+    });
+  if (saveError) throw saveError;
+
+  return batch;
+}
+
+function appUrl(): string {
+  return (Deno.env.get('APP_URL') ?? 'https://habitta.app').replace(/\/$/, '');
+}
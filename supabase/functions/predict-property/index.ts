@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { isSystemPermit, type PermitText } from '../_shared/permitClassifier.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -229,48 +230,24 @@ function clampConfidence(confidence: number): number {
   return Math.max(0, Math.min(0.98, confidence));
 }
 
-// Phase 1.5: Enhanced HVAC detection with comprehensive anti-patterns
+/** Shovels raw permits name the work class `work_type` */
+function shovelsPermitText(permit: { description?: string; permit_type?: string; type?: string; work_type?: string }): PermitText {
+  return {
+    description: permit.description,
+    permit_type: permit.permit_type,
+    type: permit.type,
+    work_class: permit.work_type,
+  };
+}
+
+// Category matching (and its exclusions: pool heat pumps, shutters,
+// mini-splits) is the shared permit classifier's
 function isHvacPermit(permit: any): boolean {
-  const desc = (permit.description || '').toLowerCase();
-  const workType = (permit.work_type || '').toLowerCase();
-  const permitType = (permit.permit_type || '').toLowerCase();
-  
-  // Phase 1.5: Comprehensive anti-patterns - hard exclusions first
-  const antiPatterns = [
-    /\b(hurricane[\s-]?shutter|shutter|accordion|roll[\s-]?up|storm[\s-]?shutter)\b/,
-    /\b(paver|driveway|concrete|walkway|sidewalk|asphalt)\b/,
-    /\b(pool|spa|deck|fence|gate|pergola)\b/,
-    /\b(window|door|screen|glass)\b.*\b(install|replace|repair|frame)\b/,
-    /\b(misc|miscellaneous)\b.*\b(paver|driveway|shutter|fence|deck)\b/,
-    /\b(electrical|plumbing)\b.*\b(outlet|fixture|pipe|drain)\b/,
-    /\b(kitchen|bathroom|cabinet|counter|tile)\b/,
-    /\b(paint|flooring|carpet|wood|vinyl)\b/,
-    /\b(landscaping|irrigation|sprinkler)\b/
-  ];
-  
-  // Check anti-patterns first - hard exclusion
-  for (const antiPattern of antiPatterns) {
-    if (antiPattern.test(`${desc} ${workType} ${permitType}`)) {
-      return false;
-    }
-  }
-  
-  // Enhanced HVAC patterns - must match at least one
-  const hvacPatterns = [
-    /\b(a\/c|air\s*conditioning?|hvac|heat\s*pump|air\s*handler)\b/,
-    /\b(change[\s-]?out|changeout|replacement|install|swap).*\b(a\/c|air|hvac|cooling|heating|unit)\b/,
-    /\b(split|package|central)[\s-]?(system|unit|air)\b/,
-    /\b(\d+[\s-]?ton|tonnage)\b.*\b(a\/c|air|cooling|system|unit)\b/,
-    /\bmechanical\b.*\b(air|cooling|heating|ventilation)\b/,
-    /\b(mechout|mech[\s-]?out|mechanical[\s-]?permit)\b/,
-    /\b(ductwork|duct|ventilation|thermostat)\b/
-  ];
-  
-  // Must match HVAC pattern
-  const isHvac = hvacPatterns.some(pattern => pattern.test(`${desc} ${workType} ${permitType}`));
+  const text = shovelsPermitText(permit);
+  const isHvac = isSystemPermit('hvac', text) || isSystemPermit('mini_split', text);
   
   if (isHvac) {
-    console.log(`HVAC permit detected: ${desc} | ${workType} | ${permitType}`);
+    console.log(`HVAC permit detected: ${text.description} | ${text.work_class} | ${text.permit_type}`);
   }
   
   return isHvac;
@@ -437,9 +414,7 @@ const predictionRules: PredictionRule[] = [
       // Check for roof permits first (highest confidence)
       if (shovelsData?.permits) {
         const roofPermits = shovelsData.permits.filter((p: any) => 
-          p.description?.toLowerCase().includes('roof') || 
-          p.work_type?.toLowerCase().includes('roof') ||
-          p.permit_type?.toLowerCase().includes('roof')
+          isSystemPermit('roof', shovelsPermitText(p))
         );
         
         if (roofPermits.length > 0) {
@@ -942,9 +917,8 @@ const predictionRules: PredictionRule[] = [
       // Check permits for water heater type first
       if (shovelsData?.permits) {
         const whPermits = shovelsData.permits.filter((p: any) => 
-          p.description?.toLowerCase().includes('water heater') ||
-          p.description?.toLowerCase().includes('hot water') ||
-          p.work_type?.toLowerCase().includes('plumbing')
+          isSystemPermit('water_heater', shovelsPermitText(p)) ||
+          isSystemPermit('plumbing', shovelsPermitText(p))
         );
         
         if (whPermits.length > 0) {
@@ -1037,8 +1011,7 @@ const predictionRules: PredictionRule[] = [
       // Check for water heater permits
       if (shovelsData?.permits) {
         const whPermits = shovelsData.permits.filter((p: any) => 
-          p.description?.toLowerCase().includes('water heater') ||
-          p.description?.toLowerCase().includes('hot water')
+          isSystemPermit('water_heater', shovelsPermitText(p))
         );
         
         if (whPermits.length > 0) {
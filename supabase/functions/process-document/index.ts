@@ -0,0 +1,214 @@
+/**
+ * process-document - OCR + field extraction for uploaded home documents
+ *
+ * ARCHITECTURE:
+ * - Called by the client right after a file lands in the 'documents' bucket
+ *   and its `documents` row is inserted (src/lib/documentIngestion.ts)
+ * - Text extraction: Google Vision (DOCUMENT_TEXT_DETECTION for images,
+ *   files:annotate for PDFs); plain text is read as-is
+ * - Classification + field extraction: _shared/documentExtraction.ts
+ * - Writes results back to the `documents` row. Does NOT touch systems —
+ *   the client feeds the result through applySystemUpdate()
+ *
+ * Auth: JWT required, caller must be able to edit the document's home
+ * (owner or co-owner), or own the document when it has no home
+ *
+ * Request body:
+ * - documentId: string
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { extractDocumentFields } from '../_shared/documentExtraction.ts';
+import { validateHomeAccess } from '../_shared/internalAuth.ts';
+
+const STORAGE_BUCKET = 'documents';
+
+/** Vision's synchronous PDF endpoint reads at most 5 pages */
+const PDF_MAX_PAGES = 5;
+
+/** Cap stored OCR text; extraction runs on the full text */
+const MAX_STORED_TEXT = 50000;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function toBase64(bytes: ArrayBuffer): string {
+  // Chunked to avoid stack overflow on large files
+  const uint8Array = new Uint8Array(bytes);
+  let binaryString = '';
+  const chunkSize = 8192;
+  for (let i = 0; i < uint8Array.length; i += chunkSize) {
+    binaryString += String.fromCharCode(...uint8Array.slice(i, i + chunkSize));
+  }
+  return btoa(binaryString);
+}
+
+async function extractText(file: Blob, contentType: string): Promise<string> {
+  if (contentType.startsWith('text/')) {
+    return await file.text();
+  }
+
+  const apiKey = Deno.env.get('GOOGLE_VISION_API_KEY');
+  if (!apiKey) {
+    throw new Error('GOOGLE_VISION_API_KEY not configured');
+  }
+
+  const content = toBase64(await file.arrayBuffer());
+
+  if (contentType === 'application/pdf') {
+    const response = await fetch(`https://vision.googleapis.com/v1/files:annotate?key=${apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        requests: [{
+          inputConfig: { content, mimeType: 'application/pdf' },
+          features: [{ type: 'DOCUMENT_TEXT_DETECTION' }],
+          pages: Array.from({ length: PDF_MAX_PAGES }, (_, i) => i + 1),
+        }],
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Google Vision API error: ${response.statusText}`);
+    }
+    const data = await response.json();
+    const pages: Array<{ fullTextAnnotation?: { text?: string } }> = data.responses?.[0]?.responses ?? [];
+    return pages.map((page) => page.fullTextAnnotation?.text ?? '').join('\n');
+  }
+
+  if (contentType.startsWith('image/')) {
+    const response = await fetch(`https://vision.googleapis.com/v1/images:annotate?key=${apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        requests: [{
+          image: { content },
+          features: [{ type: 'DOCUMENT_TEXT_DETECTION' }],
+        }],
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Google Vision API error: ${response.statusText}`);
+    }
+    const data = await response.json();
+    return data.responses?.[0]?.fullTextAnnotation?.text ?? '';
+  }
+
+  throw new Error(`Unsupported content type: ${contentType}`);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  let documentId: string | undefined;
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '').trim();
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const body: { documentId?: string } = await req.json();
+    documentId = body.documentId;
+    if (!documentId) {
+      return jsonResponse({ error: 'Missing required field: documentId' }, 400);
+    }
+
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, user_id, home_id, type, file_url, content_type, expiry_date')
+      .eq('id', documentId)
+      .maybeSingle();
+
+    if (docError || !document) {
+      return jsonResponse({ error: 'Document not found' }, 404);
+    }
+    const canProcess = document.home_id
+      ? await validateHomeAccess(document.home_id, user.id, 'editHome')
+      : document.user_id === user.id;
+    if (!canProcess) {
+      return jsonResponse({ error: 'Forbidden' }, 403);
+    }
+
+    console.log('[process-document] Processing:', documentId, document.content_type);
+
+    await supabase
+      .from('documents')
+      .update({ extraction_status: 'processing', extraction_error: null })
+      .eq('id', documentId);
+
+    const { data: file, error: downloadError } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .download(document.file_url);
+
+    if (downloadError || !file) {
+      throw new Error(`Failed to download document: ${downloadError?.message ?? 'not found'}`);
+    }
+
+    const contentType = document.content_type || file.type || 'application/octet-stream';
+    const text = await extractText(file, contentType);
+    const extraction = extractDocumentFields(text);
+
+    console.log('[process-document] Extracted:', {
+      documentType: extraction.documentType,
+      systemKey: extraction.systemKey,
+      fields: Object.keys(extraction.fieldConfidence),
+    });
+
+    // The owner's declared type wins; detection only fills in 'other'
+    const resolvedType = document.type === 'other' ? extraction.documentType : document.type;
+
+    const { error: updateError } = await supabase
+      .from('documents')
+      .update({
+        type: resolvedType,
+        extraction_status: 'extracted',
+        extracted_text: text.substring(0, MAX_STORED_TEXT),
+        extracted_fields: extraction,
+        extraction_confidence: extraction.typeConfidence,
+        system_key: extraction.systemKey ?? null,
+        expiry_date: document.expiry_date ?? extraction.warranty?.expiresOn ?? null,
+        processed_at: new Date().toISOString(),
+      })
+      .eq('id', documentId);
+
+    if (updateError) {
+      throw new Error(`Failed to store extraction: ${updateError.message}`);
+    }
+
+    return jsonResponse({ documentId, documentType: resolvedType, extraction });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[process-document] Error:', message);
+
+    if (documentId) {
+      await supabase
+        .from('documents')
+        .update({
+          extraction_status: 'failed',
+          extraction_error: message,
+          processed_at: new Date().toISOString(),
+        })
+        .eq('id', documentId);
+    }
+
+    return jsonResponse({ error: message }, 500);
+  }
+});
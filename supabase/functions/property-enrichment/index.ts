@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { normalizeAttom } from '../_shared/normalizeAttom.ts';
+import { classifyClimate } from '../_shared/systemInference.ts';
+import { syncPropertyClimate } from '../_shared/propertyClimate.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -79,7 +81,7 @@ serve(async (req) => {
     // 1. Fetch home record
     const { data: home, error: homeError } = await supabase
       .from('homes')
-      .select('id, address, city, state, zip_code, year_built, square_feet, year_built_effective, build_quality, arch_style, data_match_confidence, fips_code, gross_sqft, rooms_total, ground_floor_sqft, bedrooms, bathrooms, property_type')
+      .select('id, property_id, address, city, state, zip_code, year_built, square_feet, year_built_effective, build_quality, arch_style, data_match_confidence, fips_code, gross_sqft, rooms_total, ground_floor_sqft, bedrooms, bathrooms, property_type, latitude')
       .eq('id', home_id)
       .single();
 
@@ -87,6 +89,9 @@ serve(async (req) => {
       throw new Error(`Home not found: ${home_id}`);
     }
 
+    // County FIPS for climate resolution; ATTOM may fill it in below
+    let fipsCode: string | null = home.fips_code || null;
+
     // 2. Check if already enriched (skip if we have year_built AND square_feet AND year_built_effective)
     if (home.year_built && home.square_feet && home.year_built_effective !== null) {
       console.log('[property-enrichment] Home already enriched, skipping ATTOM call');
@@ -187,6 +192,7 @@ serve(async (req) => {
         if (normalized.archStyle && !home.arch_style) updates.arch_style = normalized.archStyle;
         if (normalized.dataMatchConfidence && !home.data_match_confidence) updates.data_match_confidence = normalized.dataMatchConfidence;
         if (normalized.fipsCode && !home.fips_code) updates.fips_code = normalized.fipsCode;
+        if (normalized.fipsCode && !fipsCode) fipsCode = normalized.fipsCode;
         if (normalized.grossSqft && !home.gross_sqft) updates.gross_sqft = normalized.grossSqft;
         if (normalized.roomsTotal && !home.rooms_total) updates.rooms_total = normalized.roomsTotal;
         if (normalized.groundFloorSqft && !home.ground_floor_sqft) updates.ground_floor_sqft = normalized.groundFloorSqft;
@@ -208,6 +214,12 @@ serve(async (req) => {
       }
     }
 
+    // 4.5 Resolve climate now that FIPS may be known, and store it for the home
+    const climate = classifyClimate(home.state || '', home.city, fipsCode || undefined, home.zip_code || undefined, home.latitude);
+    if (climate.profile) {
+      await syncPropertyClimate(supabase, home, climate.profile);
+    }
+
     // 5. Chain to permit-enrichment (with timeout)
     await chainToPermitEnrichmentWithTimeout(supabase, home_id, expectedSecret);
 
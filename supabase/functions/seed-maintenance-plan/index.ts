@@ -1,6 +1,10 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { taskRequiresAbsentSystem } from "../_shared/maintenanceSystems.ts";
+import { buildKnownSystems } from "../_shared/maintenanceSystemsLoader.ts";
+import { firstSeasonalDate, type RecurrenceRule } from "../_shared/maintenanceRecurrence.ts";
+import { isClimateZoneType, resolveHomeClimate, type ClimateZoneType } from "../_shared/climateResolver.ts";
 
 const cors = { 
   "Access-Control-Allow-Origin": "*", 
@@ -15,78 +19,6 @@ const SERVICE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
 function ymd(d: Date) { return d.toISOString().slice(0,10); }
 function addDays(d: Date, n: number) { const x=new Date(d); x.setDate(x.getDate()+n); return x; }
-function nextMonthDate(month: number, day=15) { 
-  const now=new Date(); 
-  const t=new Date(now.getFullYear(), month-1, day); 
-  if (t<now) t.setFullYear(now.getFullYear()+1); 
-  return t; 
-}
-
-// ── System Normalization ──
-
-const SYSTEM_ALIASES: Record<string, string> = {
-  swimming_pool: "pool", inground_pool: "pool", above_ground_pool: "pool",
-  spa_pool: "spa", hot_tub: "spa", jacuzzi: "spa",
-  irrigation: "sprinkler", sprinkler_system: "sprinkler",
-  ac: "hvac", furnace: "hvac", heat_pump: "hvac", air_conditioning: "hvac",
-  water_heater: "water_heater", tankless: "water_heater", boiler: "water_heater",
-  ev_charger: "ev_charger", backup_generator: "generator",
-};
-
-function normalizeSystemType(type?: string | null): string | null {
-  if (!type) return null;
-  const t = type.trim().toLowerCase().replace(/[\s-]+/g, '_');
-  return SYSTEM_ALIASES[t] || t;
-}
-
-const OPTIONAL_SYSTEMS = new Set([
-  "pool", "solar", "sprinkler", "spa", "generator", "septic", "well", "ev_charger",
-]);
-
-const KEYWORD_SYSTEM_MAP: Record<string, string> = {
-  pool: "pool", spa: "spa", irrigation: "sprinkler",
-  sprinkler: "sprinkler", solar: "solar", generator: "generator",
-};
-
-// ── Climate Zone Derivation ──
-
-type ClimateZoneType = 'high_heat' | 'coastal' | 'freeze_thaw' | 'moderate';
-
-function deriveClimateZone(state?: string, city?: string, lat?: number | null): ClimateZoneType {
-  const location = `${city || ''} ${state || ''}`.toLowerCase();
-
-  if (
-    location.includes('miami') || location.includes('fort lauderdale') ||
-    location.includes('west palm') || location.includes('tampa') ||
-    location.includes('orlando') || location.includes('phoenix') ||
-    location.includes('tucson') || location.includes('las vegas') ||
-    location.includes('houston') || location.includes('san antonio') ||
-    ['florida','fl','az','arizona'].includes((state || '').toLowerCase()) ||
-    (lat != null && lat < 28)
-  ) return 'high_heat';
-
-  if (
-    location.includes('beach') || location.includes('coast') ||
-    location.includes('key ') || location.includes('island') ||
-    location.includes('santa monica') || location.includes('san diego') ||
-    location.includes('malibu')
-  ) return 'coastal';
-
-  if (
-    location.includes('boston') || location.includes('chicago') ||
-    location.includes('minneapolis') || location.includes('denver') ||
-    location.includes('detroit') || location.includes('milwaukee') ||
-    location.includes('buffalo') || location.includes('cleveland') ||
-    location.includes('pittsburgh') || location.includes('new york') ||
-    location.includes('nyc') || location.includes('philadelphia') ||
-    ['mn','wi','mi','nd','sd','mt','wy','vt','nh','me','ny','pa','nj','ct','ma','ri',
-     'oh','il','in','ia','ne','ks','mo','co','id','wa','or','ut','ak',
-     'minnesota','wisconsin','michigan'].includes((state || '').toLowerCase()) ||
-    (lat != null && lat > 42)
-  ) return 'freeze_thaw';
-
-  return 'moderate';
-}
 
 // ── Priority & Category Mapping ──
 
@@ -107,62 +39,25 @@ function mapPriority(urg?: string | null) {
   return "medium"; 
 }
 
-// ── System-Aware Filtering ──
-
-function taskRequiresAbsentSystem(task: any, knownSystems: Set<string>): boolean {
-  // Check system_type field
-  const sysType = normalizeSystemType(task.system_type);
-  if (sysType && OPTIONAL_SYSTEMS.has(sysType) && !knownSystems.has(sysType)) return true;
-
-  // Secondary keyword check on title + description
-  const text = `${task.title || ''} ${task.description || ''}`.toLowerCase();
-  for (const [keyword, system] of Object.entries(KEYWORD_SYSTEM_MAP)) {
-    if (text.includes(keyword) && !knownSystems.has(system)) return true;
-  }
-  return false;
-}
-
-async function buildKnownSystems(admin: any, homeId: string): Promise<Set<string>> {
-  const knownSystems = new Set<string>();
-
-  // Source 1: Canonical systems table (home_id anchored)
-  const { data: homeSys } = await admin
-    .from("systems")
-    .select("kind")
-    .eq("home_id", homeId);
-  for (const s of (homeSys || [])) {
-    const n = normalizeSystemType(s.kind);
-    if (n) knownSystems.add(n);
-  }
-
-  // Source 2: Permits table (home_id anchored) - check system_tags + description
-  const { data: homePermits } = await admin
-    .from("permits")
-    .select("system_tags, description, trade")
-    .eq("home_id", homeId);
-  for (const p of (homePermits || [])) {
-    for (const tag of (p.system_tags || [])) {
-      const n = normalizeSystemType(tag);
-      if (n) knownSystems.add(n);
-    }
-    const desc = `${p.description || ''} ${p.trade || ''}`.toLowerCase();
-    for (const [keyword, system] of Object.entries(KEYWORD_SYSTEM_MAP)) {
-      if (desc.includes(keyword)) knownSystems.add(system);
-    }
-  }
-
-  return knownSystems;
-}
-
 // ── Climate-Aware Seasonal Templates ──
 
 interface SeasonalTask {
-  month: number;
+  /** Yearly anchor month; ignored when `recurrence` is set */
+  month?: number;
   title: string;
   category: string;
   system_type: string;
   description: string;
   priority: string;
+  recurrence?: RecurrenceRule;
+}
+
+function hvacFilterTask(days: number): SeasonalTask {
+  return { title: "Replace HVAC filter", category: "hvac", system_type: "hvac", description: `Replace the air filter every ${days} days of use. Next change is scheduled from the day you complete this one.`, priority: "medium", recurrence: { kind: "usage", days } };
+}
+
+function templateRecurrence(t: SeasonalTask): RecurrenceRule {
+  return t.recurrence ?? { kind: "seasonal", months: [t.month!] };
 }
 
 function seasonalTemplates(climateZone: ClimateZoneType): SeasonalTask[] {
@@ -186,6 +81,7 @@ function seasonalTemplates(climateZone: ClimateZoneType): SeasonalTask[] {
         { month: 11, title: "Winterize exterior plumbing", category: "plumbing", system_type: "plumbing", description: "Shut off hose bibs. Insulate exposed pipes. Drain sprinkler system.", priority: "urgent" },
         { month: 11, title: "Weatherstrip doors & windows", category: "exterior", system_type: "exterior", description: "Replace worn weatherstripping to reduce drafts and heating costs.", priority: "medium" },
         { month: 11, title: "Snow equipment check", category: "exterior", system_type: "exterior", description: "Service snow blower. Stock ice melt and shovels.", priority: "low" },
+        hvacFilterTask(90),
         ...common,
       ];
 
@@ -194,13 +90,12 @@ function seasonalTemplates(climateZone: ClimateZoneType): SeasonalTask[] {
         { month: 3, title: "AC deep service", category: "hvac", system_type: "hvac", description: "Full AC tune-up. Clean coils, check refrigerant, replace filter. Critical before summer.", priority: "high" },
         { month: 3, title: "Pool pump & equipment service", category: "exterior", system_type: "pool", description: "Service pool pump, check filter, inspect equipment for wear.", priority: "medium" },
         { month: 4, title: "Irrigation system check", category: "exterior", system_type: "sprinkler", description: "Test irrigation zones. Check for leaks and adjust timers for dry season.", priority: "medium" },
-        { month: 6, title: "AC filter replacement (Summer)", category: "hvac", system_type: "hvac", description: "Monthly filter check recommended in high-use months.", priority: "medium" },
         { month: 7, title: "Pest prevention sweep", category: "exterior", system_type: "exterior", description: "Inspect and seal entry points. Check for termites (high humidity risk).", priority: "medium" },
         { month: 7, title: "Water heater inspection", category: "plumbing", system_type: "water_heater", description: "Check anode rod. Flush sediment. Higher temps accelerate wear.", priority: "medium" },
         { month: 9, title: "Hurricane shutter & storm prep check", category: "exterior", system_type: "exterior", description: "Inspect shutters, secure loose outdoor items, check emergency supplies.", priority: "high" },
         { month: 10, title: "Roof inspection post-storm season", category: "exterior", system_type: "roof", description: "Inspect for storm damage. Check flashings and soft spots.", priority: "high" },
-        { month: 10, title: "AC filter replacement (Fall)", category: "hvac", system_type: "hvac", description: "Replace filter after heavy summer use.", priority: "medium" },
         { month: 12, title: "Exterior paint & seal check", category: "exterior", system_type: "exterior", description: "UV and humidity degrade coatings faster. Inspect and touch up.", priority: "low" },
+        hvacFilterTask(60),
         ...common,
       ];
 
@@ -215,6 +110,7 @@ function seasonalTemplates(climateZone: ClimateZoneType): SeasonalTask[] {
         { month: 9, title: "Roof & flashing inspection", category: "exterior", system_type: "roof", description: "Salt air and moisture accelerate flashing deterioration.", priority: "high" },
         { month: 10, title: "Exterior stain & seal", category: "exterior", system_type: "exterior", description: "Reapply protective coatings before winter moisture season.", priority: "medium" },
         { month: 12, title: "Plumbing corrosion check", category: "plumbing", system_type: "plumbing", description: "Inspect exposed pipes and fixtures for salt-related corrosion.", priority: "medium" },
+        hvacFilterTask(90),
         ...common,
       ];
 
@@ -228,6 +124,7 @@ function seasonalTemplates(climateZone: ClimateZoneType): SeasonalTask[] {
         { month: 9, title: "HVAC heating tune-up", category: "hvac", system_type: "hvac", description: "Service furnace or heat pump before heating season.", priority: "medium" },
         { month: 10, title: "Roof & flashing inspection", category: "exterior", system_type: "roof", description: "Inspect shingles, flashings, and penetrations.", priority: "high" },
         { month: 10, title: "Gutter clean (leaf season)", category: "exterior", system_type: "roof", description: "Clear gutters to prevent water damage.", priority: "medium" },
+        hvacFilterTask(90),
         ...common,
       ];
   }
@@ -289,9 +186,9 @@ serve(async (req) => {
 
     console.log("Found home:", home.address);
 
-    // Derive climate zone
-    const climateZone: ClimateZoneType = overrideZone || deriveClimateZone(home.state, home.city, home.latitude);
-    console.log(`Climate zone: ${climateZone} (state: ${home.state}, city: ${home.city})`);
+    // Climate zone from the shared resolver, the same lookup capital-timeline and the dashboard use
+    const climateZone: ClimateZoneType = isClimateZoneType(overrideZone) ? overrideZone : resolveHomeClimate(home).zone;
+    console.log(`Climate zone: ${climateZone} (state: ${home.state}, zip: ${home.zip_code}, fips: ${home.fips_code})`);
 
     // Build known systems set (home_id anchored only)
     const knownSystems = await buildKnownSystems(admin, homeId);
@@ -356,16 +253,19 @@ serve(async (req) => {
       });
     }
 
-    // Add seasonal templates
+    // Add seasonal templates as recurring series: only the first occurrence
+    // is seeded, maintenance-task-action creates each one after it
     for (const t of base) {
-      const due = nextMonthDate(t.month, 15);
+      const recurrence = templateRecurrence(t);
+      const due = recurrence.kind === "seasonal" ? firstSeasonalDate(recurrence, ymd(now)) : ymd(addDays(now, 14));
       push({ 
         title: t.title, 
         description: t.description, 
         category: t.category, 
         system_type: t.system_type,
         priority: t.priority, 
-        due_date: ymd(due) 
+        due_date: due,
+        recurrence_rule: recurrence,
       });
     }
 
@@ -378,6 +278,7 @@ serve(async (req) => {
     // Filter out existing tasks unless force mode
     const horizonEnd = ymd(addDays(now, Math.max(1, Math.min(24, Number(months))) * 30));
     let existing: any[] = [];
+    let openSeries: any[] = [];
     
     if (!force) {
       const { data: ex } = await admin
@@ -387,12 +288,23 @@ serve(async (req) => {
         .gte("due_date", ymd(now))
         .lte("due_date", horizonEnd);
       existing = ex || [];
+
+      // A series with an open occurrence already has its next due date
+      const { data: open } = await admin
+        .from("maintenance_tasks")
+        .select("title")
+        .eq("home_id", home.id)
+        .eq("recurring", true)
+        .in("status", ["pending", "in_progress", "overdue"]);
+      openSeries = open || [];
     }
     
     const exists = new Set(existing.map(e => `${e.title.toLowerCase()}|${e.due_date}`));
+    const seriesExists = new Set(openSeries.map(e => e.title.toLowerCase()));
 
     const rows = systemFilteredCandidates
       .filter(t => force || !exists.has(`${String(t.title).toLowerCase()}|${t.due_date}`))
+      .filter(t => force || !t.recurrence_rule || !seriesExists.has(String(t.title).toLowerCase()))
       .map(t => ({
         home_id: home.id,
         user_id: userId,
@@ -404,8 +316,10 @@ serve(async (req) => {
         status: "pending",
         due_date: t.due_date,
         cost: t.cost ?? null,
-        recurring: false,
+        recurring: !!t.recurrence_rule,
         recurrence_interval: null,
+        recurrence_rule: t.recurrence_rule ?? null,
+        series_id: t.recurrence_rule ? crypto.randomUUID() : null,
       }));
 
     let inserted = 0;
@@ -1,22 +1,27 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { deriveHVACPermitSignal } from '../_shared/permitSignal.ts'
+import { validateHomeAccess } from '../_shared/internalAuth.ts'
+import { checkPermitUploadAccess } from '../_shared/permitUpload.ts'
+import { classifyPermit, isEnergyRelatedPermit } from '../_shared/permitClassifier.ts'
 import { 
   normalizeShovelsPermit, 
-  normalizeMiamiDadePermit, 
   toPermitDbRecord,
   type NormalizedPermit,
   type PermitSource 
 } from '../_shared/permitNormalizers.ts'
+import {
+  fetchJurisdictionPermits,
+  matchJurisdictions,
+  parsePermitCsv,
+} from '../_shared/permitAdapters.ts'
+import { loadPermitJurisdictions } from '../_shared/permitJurisdictionsLoader.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// Miami-Dade ArcGIS API endpoint
-const MIAMI_DADE_API = 'https://services.arcgis.com/8Pc9XBTAsYuxx9Ny/arcgis/rest/services/BuildingPermit_gdb/FeatureServer/0/query';
-
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -51,64 +56,112 @@ serve(async (req) => {
       console.log('[shovels-permits] Internal call validated via secret')
     }
 
-    const { address, homeId, folio: requestFolio, source: requestedSource } = await req.json()
+    const {
+      address,
+      homeId,
+      folio: requestFolio,
+      source: requestedSource,
+      jurisdiction: uploadJurisdiction,
+      csv,
+    } = await req.json()
     console.log('Syncing permits for address:', address, 'homeId:', homeId, 'folio:', requestFolio, 'source:', requestedSource)
 
-    // Fetch folio from homes table if homeId provided but no folio in request
+    // Uploaded CSVs are written straight to the home's permits
+    if (csv) {
+      const denial = await checkPermitUploadAccess(
+        user?.id,
+        homeId,
+        (uploadHomeId, userId) => validateHomeAccess(uploadHomeId, userId, 'editHome')
+      )
+      if (denial) {
+        return new Response(
+          JSON.stringify({ success: false, error: denial.error }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: denial.status,
+          },
+        )
+      }
+    }
+
+    // Home location drives jurisdiction matching; folio is the parcel id
     let folio = requestFolio;
-    if (!folio && homeId) {
+    let homeLocation: { fips_code: string | null; zip_code: string | null; city: string | null; state: string | null } | null = null;
+    if (homeId) {
       const { data: homeData } = await supabaseClient
         .from('homes')
-        .select('folio')
+        .select('folio, fips_code, zip_code, city, state')
         .eq('id', homeId)
         .single();
       
-      if (homeData?.folio) {
+      homeLocation = homeData;
+      if (!folio && homeData?.folio) {
         folio = homeData.folio;
         console.log(`[shovels-permits] Found stored folio from homes table: ${folio}`);
       }
     }
 
-    // Determine which source(s) to query
-    // Priority: explicit source > folio detection > default to shovels
-    let sources: PermitSource[] = ['shovels'];
-    
-    if (requestedSource === 'miami_dade' || folio) {
-      sources = ['miami_dade'];
-    } else if (requestedSource === 'both') {
-      sources = ['shovels', 'miami_dade'];
-    }
-    
-    // For Florida addresses, prefer Miami-Dade when available
-    const isMiamiDade = address?.toLowerCase().includes('miami') || 
-                        address?.toLowerCase().includes('fl 33') ||
-                        folio;
-    if (isMiamiDade && !requestedSource) {
-      sources = ['miami_dade', 'shovels']; // Try Miami-Dade first
-    }
-
+    const jurisdictions = await loadPermitJurisdictions(supabaseClient);
     let normalizedPermits: NormalizedPermit[] = [];
+    let sources: PermitSource[] = [];
 
-    // ========== MIAMI-DADE SOURCE ==========
-    if (sources.includes('miami_dade')) {
-      try {
-        const miamiPermits = await fetchMiamiDadePermits(address, folio);
-        normalizedPermits.push(...miamiPermits);
-        console.log(`[miami-dade] Retrieved ${miamiPermits.length} permits`);
-      } catch (err) {
-        console.error('[miami-dade] Error fetching permits:', err);
-        // Continue to try other sources
+    if (csv) {
+      // ========== CSV UPLOAD ==========
+      const layout = jurisdictions.find(j => j.id === (uploadJurisdiction || 'csv_upload'));
+      if (!layout) {
+        throw new Error(`Unknown permit jurisdiction: ${uploadJurisdiction}`);
+      }
+      normalizedPermits = parsePermitCsv(csv, layout);
+      sources = [layout.id];
+      console.log(`[${layout.id}] Parsed ${normalizedPermits.length} permits from upload`);
+    } else {
+      // Determine which source(s) to query
+      // Priority: explicit source > matched jurisdictions then Shovels
+      const matched = matchJurisdictions(jurisdictions, {
+        fipsCode: homeLocation?.fips_code,
+        zipCode: homeLocation?.zip_code ?? address?.match(/\b(\d{5})(?:-\d{4})?\s*$/)?.[1],
+        city: homeLocation?.city,
+        state: homeLocation?.state,
+      });
+
+      let targets = matched;
+      sources = [...matched.map(j => j.id), 'shovels'];
+
+      if (requestedSource === 'shovels') {
+        targets = [];
+        sources = ['shovels'];
+      } else if (requestedSource === 'both') {
+        sources = ['shovels', ...matched.map(j => j.id)];
+      } else if (requestedSource) {
+        targets = jurisdictions.filter(j => j.id === requestedSource);
+        sources = targets.map(j => j.id);
       }
-    }
 
-    // ========== SHOVELS SOURCE ==========
-    if (sources.includes('shovels')) {
-      try {
-        const shovelsPermits = await fetchShovelsPermits(address);
-        normalizedPermits.push(...shovelsPermits);
-        console.log(`[shovels] Retrieved ${shovelsPermits.length} permits`);
-      } catch (err) {
-        console.error('[shovels] Error fetching permits:', err);
+      // ========== JURISDICTION SOURCES ==========
+      for (const jurisdiction of targets) {
+        try {
+          const permits = await fetchJurisdictionPermits(
+            jurisdiction,
+            { address, parcelId: folio },
+            { socrataAppToken: Deno.env.get('SOCRATA_APP_TOKEN') }
+          );
+          normalizedPermits.push(...permits);
+          console.log(`[${jurisdiction.id}] Retrieved ${permits.length} permits`);
+        } catch (err) {
+          console.error(`[${jurisdiction.id}] Error fetching permits:`, err);
+          // Continue to try other sources
+        }
+      }
+
+      // ========== SHOVELS SOURCE ==========
+      if (sources.includes('shovels') && address) {
+        try {
+          const shovelsPermits = await fetchShovelsPermits(address);
+          normalizedPermits.push(...shovelsPermits);
+          console.log(`[shovels] Retrieved ${shovelsPermits.length} permits`);
+        } catch (err) {
+          console.error('[shovels] Error fetching permits:', err);
+        }
       }
     }
 
@@ -173,8 +226,8 @@ serve(async (req) => {
     // Process and insert permits
     let permitsInserted = 0
     for (const permit of normalizedPermits) {
-      const isEnergy = isEnergyRelated(permit);
-      const tags = extractSystemTags(permit);
+      const isEnergy = isEnergyRelatedPermit(permit);
+      const tags = classifyPermit(permit).categories;
       const hash = generateHash({ 
         number: permit.permit_number, 
         issue_date: permit.date_issued, 
@@ -351,166 +404,6 @@ serve(async (req) => {
 
 // ========== SOURCE FETCHERS ==========
 
-/**
- * Normalize folio to digits only for reliable matching
- */
-function normalizeFolioForQuery(folio: string): string {
-  return folio.replace(/[^0-9]/g, '');
-}
-
-/**
- * Fetch permits from Miami-Dade ArcGIS API
- * Uses folio-first strategy - FOLIO field stores raw digits without dashes
- */
-async function fetchMiamiDadePermits(address?: string, folio?: string): Promise<NormalizedPermit[]> {
-  let whereClause = '1=1';
-  let searchStrategy = 'none';
-  
-  if (folio) {
-    // Normalize folio to digits only - Miami-Dade stores FOLIO as raw digits
-    const normalizedFolio = normalizeFolioForQuery(folio);
-    whereClause = `FOLIO='${normalizedFolio}'`;
-    searchStrategy = 'folio-exact';
-    console.log(`[miami-dade] Folio search: ${normalizedFolio}`);
-  } else if (address) {
-    // Miami-Dade uses abbreviated address format: "3082 NW 64 ST" not "NORTHWEST 64TH STREET"
-    const normalizedAddr = normalizeMiamiDadeAddress(address);
-    
-    if (normalizedAddr) {
-      whereClause = `ADDRESS LIKE '${normalizedAddr}%'`;
-      searchStrategy = 'address-prefix';
-    } else {
-      // Fallback: extract just the street number for broader matching
-      const streetNumMatch = address.match(/^(\d+)/);
-      if (streetNumMatch) {
-        whereClause = `ADDRESS LIKE '${streetNumMatch[1]}%'`;
-        searchStrategy = 'address-number';
-      }
-    }
-    console.log(`[miami-dade] Address fallback: ${normalizedAddr || 'number-only'}`);
-  }
-
-  console.log(`[miami-dade] Search strategy: ${searchStrategy}, where: ${whereClause}`);
-
-  // Build query with reasonable limits
-  const params = new URLSearchParams({
-    where: whereClause,
-    outFields: '*',
-    outSR: '4326',
-    f: 'json',
-    resultRecordCount: '100',
-    orderByFields: 'ISSUDATE DESC'
-  });
-
-  const response = await fetch(`${MIAMI_DADE_API}?${params.toString()}`);
-  
-  if (!response.ok) {
-    throw new Error(`Miami-Dade API returned ${response.status}`);
-  }
-
-  const data = await response.json();
-  
-  if (data.error) {
-    throw new Error(`Miami-Dade API error: ${data.error.message}`);
-  }
-
-  let features = data.features || [];
-  console.log(`[miami-dade] Query: ${whereClause}, Results: ${features.length}`);
-
-  // SUFFIX FALLBACK: If exact folio match returns 0 results, try LIKE with suffix pattern
-  if (features.length === 0 && folio && searchStrategy === 'folio-exact') {
-    const normalizedFolio = normalizeFolioForQuery(folio);
-    // Try LIKE pattern with last 4 digits of folio (the property-specific portion)
-    const suffix = normalizedFolio.slice(-4);
-    const fallbackWhere = `FOLIO LIKE '%-${suffix}'`;
-    console.log(`[miami-dade] Retrying with folio suffix pattern: %-${suffix}`);
-    
-    const fallbackParams = new URLSearchParams({
-      where: fallbackWhere,
-      outFields: '*',
-      outSR: '4326',
-      f: 'json',
-      resultRecordCount: '100',
-      orderByFields: 'ISSUDATE DESC'
-    });
-
-    const fallbackResponse = await fetch(`${MIAMI_DADE_API}?${fallbackParams.toString()}`);
-    if (fallbackResponse.ok) {
-      const fallbackData = await fallbackResponse.json();
-      if (!fallbackData.error) {
-        features = fallbackData.features || [];
-        console.log(`[miami-dade] Suffix fallback results: ${features.length}`);
-      }
-    }
-  }
-
-  return features.map((f: any) => normalizeMiamiDadePermit(f.attributes || f));
-}
-
-/**
- * Normalize address to Miami-Dade format:
- * - "3082 Northwest 64th Street" -> "3082 NW 64 ST"
- * - Uses standard abbreviations: NW, NE, SW, SE, ST, AVE, CT, DR, etc.
- */
-function normalizeMiamiDadeAddress(address: string): string | null {
-  // Remove everything after comma (city, state, zip)
-  const streetPart = address.split(',')[0].trim().toUpperCase();
-  
-  // Extract: street number + direction + street name/number + suffix
-  const match = streetPart.match(/^(\d+)\s+(NORTHWEST|NORTHEAST|SOUTHWEST|SOUTHEAST|NW|NE|SW|SE|N|S|E|W)?\s*(.+)$/i);
-  
-  if (!match) return null;
-  
-  const streetNum = match[1];
-  let direction = (match[2] || '').toUpperCase();
-  let streetName = match[3].toUpperCase();
-  
-  // Normalize direction abbreviations
-  const directionMap: Record<string, string> = {
-    'NORTHWEST': 'NW',
-    'NORTHEAST': 'NE', 
-    'SOUTHWEST': 'SW',
-    'SOUTHEAST': 'SE',
-    'NORTH': 'N',
-    'SOUTH': 'S',
-    'EAST': 'E',
-    'WEST': 'W'
-  };
-  direction = directionMap[direction] || direction;
-  
-  // Normalize street suffixes
-  const suffixMap: Record<string, string> = {
-    'STREET': 'ST',
-    'AVENUE': 'AVE',
-    'COURT': 'CT',
-    'DRIVE': 'DR',
-    'BOULEVARD': 'BLVD',
-    'LANE': 'LN',
-    'PLACE': 'PL',
-    'ROAD': 'RD',
-    'TERRACE': 'TER',
-    'WAY': 'WAY',
-    'CIRCLE': 'CIR'
-  };
-  
-  for (const [full, abbrev] of Object.entries(suffixMap)) {
-    streetName = streetName.replace(new RegExp(`\\b${full}\\b`, 'g'), abbrev);
-  }
-  
-  // Remove ordinal suffixes: 64TH -> 64, 1ST -> 1, 2ND -> 2, 3RD -> 3
-  streetName = streetName.replace(/(\d+)(ST|ND|RD|TH)\b/g, '$1');
-  
-  // Clean up extra spaces
-  streetName = streetName.replace(/\s+/g, ' ').trim();
-  
-  // Build the normalized address
-  const parts = [streetNum];
-  if (direction) parts.push(direction);
-  parts.push(streetName);
-  
-  return parts.join(' ').replace(/'/g, "''"); // Escape for SQL
-}
-
 /**
  * Address suffix normalization map for Shovels API matching
  */
@@ -629,39 +522,6 @@ function countFields(permit: NormalizedPermit): number {
   return Object.values(permit).filter(v => v != null && v !== '').length;
 }
 
-function isEnergyRelated(permit: NormalizedPermit): boolean {
-  const energyKeywords = [
-    'solar', 'hvac', 'heat pump', 'insulation', 'window', 'door', 
-    'electrical', 'energy', 'efficient', 'panel', 'battery'
-  ]
-  
-  const text = `${permit.description || ''} ${permit.permit_type || ''} ${permit.work_class || ''}`.toLowerCase()
-  return energyKeywords.some(keyword => text.includes(keyword))
-}
-
-function extractSystemTags(permit: NormalizedPermit): string[] {
-  const tags: string[] = []
-  const text = `${permit.description || ''} ${permit.permit_type || ''} ${permit.work_class || ''}`.toLowerCase()
-  
-  const systemMap: Record<string, string[]> = {
-    'hvac': ['hvac', 'heat', 'air', 'furnace', 'ac', 'mechanical', 'a/c', 'condenser'],
-    'electrical': ['electrical', 'electric', 'panel', 'wiring'],
-    'plumbing': ['plumb', 'water', 'sewer', 'pipe'],
-    'roofing': ['roof', 'shingle', 'gutter', 're-roof'],
-    'solar': ['solar', 'photovoltaic', 'pv'],
-    'windows': ['window', 'glass'],
-    'insulation': ['insulation', 'insulate']
-  }
-  
-  for (const [system, keywords] of Object.entries(systemMap)) {
-    if (keywords.some(keyword => text.includes(keyword))) {
-      tags.push(system)
-    }
-  }
-  
-  return tags
-}
-
 function generateHash(data: any): string {
   // Simple hash function for deduplication
   const str = JSON.stringify(data)
@@ -4,11 +4,12 @@
  * Handles user corrections to system install data.
  * Strategy A: Returns updated prediction payload directly to prevent UI jitter.
  * 
- * Auth: JWT required, verifies user owns home
+ * Auth: JWT required, verifies user may edit the home (owner or co-owner)
  * Idempotent: Uses client_request_id in metadata
  */
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { validateHomeAccess } from '../_shared/internalAuth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -225,7 +226,7 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? Deno.env.get('SUPABASE_ANON_KEY') ?? ''
     );
 
-    // Verify user owns the home
+    // Verify the home exists and the user may edit it
     const { data: home, error: homeError } = await supabaseAdmin
       .from('homes')
       .select('id, user_id, year_built')
@@ -239,7 +240,7 @@ Deno.serve(async (req) => {
       );
     }
 
-    if (home.user_id !== userId) {
+    if (!(await validateHomeAccess(homeId, userId, 'editHome'))) {
       return new Response(
         JSON.stringify({ error: 'Access denied to this home' }),
         { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -356,7 +357,7 @@ Deno.serve(async (req) => {
     // Upsert system record
     const systemPayload = {
       home_id: homeId,
-      user_id: userId,
+      user_id: home.user_id, // The system stays the home owner's when a co-owner corrects it
       kind: normalizedKind, // Always lowercase
       install_year: newInstallYear,
       install_month: newInstallMonth,
@@ -0,0 +1,145 @@
+-- Persisted analytics events (client-batched from src/lib/analytics/persist.ts)
+CREATE TABLE public.analytics_events (
+  -- Client-generated so retried batches are idempotent
+  id UUID PRIMARY KEY,
+  event_name TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  home_id UUID REFERENCES public.homes(id) ON DELETE SET NULL,
+  session_id TEXT NOT NULL,
+  surface TEXT NOT NULL,
+  system_slug TEXT,
+  properties JSONB NOT NULL DEFAULT '{}'::jsonb,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_analytics_events_name_occurred ON public.analytics_events (event_name, occurred_at);
+CREATE INDEX idx_analytics_events_user_occurred ON public.analytics_events (user_id, occurred_at);
+CREATE INDEX idx_analytics_events_surface_occurred ON public.analytics_events (surface, occurred_at);
+
+-- Enable RLS
+ALTER TABLE public.analytics_events ENABLE ROW LEVEL SECURITY;
+
+-- Anyone may write events; signed-in users may only attribute events to themselves
+CREATE POLICY "Clients can insert their own analytics events"
+  ON public.analytics_events FOR INSERT
+  WITH CHECK (user_id IS NULL OR auth.uid() = user_id);
+
+-- Only admins can read events
+CREATE POLICY "Admins can view analytics events"
+  ON public.analytics_events FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Funnel: onboarding → first system confirmed → first planning session.
+-- Cohort = users who completed onboarding in the last p_days.
+-- Each step is attributed to the surface of the user's first occurrence.
+CREATE OR REPLACE FUNCTION public.rpc_analytics_funnel(p_days INTEGER DEFAULT 30)
+RETURNS TABLE(
+  step_order INTEGER,
+  step TEXT,
+  surface TEXT,
+  users BIGINT
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin role required';
+  END IF;
+
+  RETURN QUERY
+  WITH firsts AS (
+    SELECT DISTINCT ON (e.user_id, e.event_name)
+      e.user_id, e.event_name, e.surface
+    FROM public.analytics_events e
+    WHERE e.user_id IS NOT NULL
+      AND e.event_name IN ('onboarding_completed', 'system_confirmed', 'planning_session_started')
+    ORDER BY e.user_id, e.event_name, e.occurred_at
+  ),
+  onboarded AS (
+    SELECT DISTINCT e.user_id
+    FROM public.analytics_events e
+    WHERE e.event_name = 'onboarding_completed'
+      AND e.user_id IS NOT NULL
+      AND e.occurred_at >= now() - make_interval(days => p_days)
+  ),
+  confirmed AS (
+    SELECT f.user_id FROM firsts f
+    JOIN onboarded o ON o.user_id = f.user_id
+    WHERE f.event_name = 'system_confirmed'
+  ),
+  planned AS (
+    SELECT f.user_id FROM firsts f
+    JOIN confirmed c ON c.user_id = f.user_id
+    WHERE f.event_name = 'planning_session_started'
+  )
+  SELECT 1, 'onboarding_completed'::TEXT, f.surface, COUNT(*)
+  FROM firsts f JOIN onboarded o ON o.user_id = f.user_id
+  WHERE f.event_name = 'onboarding_completed'
+  GROUP BY f.surface
+  UNION ALL
+  SELECT 2, 'system_confirmed'::TEXT, f.surface, COUNT(*)
+  FROM firsts f JOIN confirmed c ON c.user_id = f.user_id
+  WHERE f.event_name = 'system_confirmed'
+  GROUP BY f.surface
+  UNION ALL
+  SELECT 3, 'planning_session_started'::TEXT, f.surface, COUNT(*)
+  FROM firsts f JOIN planned p ON p.user_id = f.user_id
+  WHERE f.event_name = 'planning_session_started'
+  GROUP BY f.surface
+  ORDER BY 1, 4 DESC;
+END;
+$function$;
+
+-- Weekly retention by EventContext.surface.
+-- Cohort = week of a user's first event on a surface within the window;
+-- offsets are only counted once they are fully observable.
+CREATE OR REPLACE FUNCTION public.rpc_analytics_surface_retention(p_weeks INTEGER DEFAULT 8)
+RETURNS TABLE(
+  surface TEXT,
+  week_offset INTEGER,
+  cohort_users BIGINT,
+  retained_users BIGINT
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin role required';
+  END IF;
+
+  RETURN QUERY
+  WITH activity AS (
+    SELECT DISTINCT e.user_id, e.surface, date_trunc('week', e.occurred_at)::date AS week
+    FROM public.analytics_events e
+    WHERE e.user_id IS NOT NULL
+      AND e.occurred_at >= date_trunc('week', now()) - make_interval(weeks => p_weeks)
+  ),
+  cohorts AS (
+    SELECT a.user_id, a.surface, MIN(a.week) AS cohort_week
+    FROM activity a
+    GROUP BY a.user_id, a.surface
+  ),
+  offsets AS (
+    SELECT generate_series(0, p_weeks) AS week_offset
+  )
+  SELECT
+    c.surface,
+    o.week_offset,
+    COUNT(*) AS cohort_users,
+    COUNT(a.user_id) AS retained_users
+  FROM cohorts c
+  CROSS JOIN offsets o
+  LEFT JOIN activity a
+    ON a.user_id = c.user_id
+   AND a.surface = c.surface
+   AND a.week = c.cohort_week + o.week_offset * 7
+  WHERE c.cohort_week + o.week_offset * 7 <= date_trunc('week', now())::date
+  GROUP BY c.surface, o.week_offset
+  ORDER BY c.surface, o.week_offset;
+END;
+$function$;
@@ -0,0 +1,25 @@
+-- Climate resolved from the bundled ZIP/FIPS dataset (climateResolver.ts),
+-- stored per home so SQL consumers see the same climate as the app
+
+ALTER TABLE public.property_climate_data
+  ADD COLUMN IF NOT EXISTS home_id UUID REFERENCES public.homes(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS zip_code TEXT,
+  ADD COLUMN IF NOT EXISTS county_fips TEXT,
+  ADD COLUMN IF NOT EXISTS iecc_zone TEXT,
+  ADD COLUMN IF NOT EXISTS cooling_degree_days INTEGER,
+  ADD COLUMN IF NOT EXISTS heating_degree_days INTEGER,
+  ADD COLUMN IF NOT EXISTS coast_distance_km NUMERIC,
+  ADD COLUMN IF NOT EXISTS resolution TEXT,      -- 'county', 'zip', 'state', 'latitude', 'default'
+  ADD COLUMN IF NOT EXISTS data_source TEXT,     -- 'bundled' or another ClimateDataSource id
+  ADD COLUMN IF NOT EXISTS dataset_version TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_property_climate_data_home
+  ON public.property_climate_data(home_id);
+
+CREATE INDEX IF NOT EXISTS idx_property_climate_data_county
+  ON public.property_climate_data(county_fips);
+
+CREATE POLICY "Users can view climate data for their homes" ON public.property_climate_data
+  FOR SELECT USING (home_id IN (
+    SELECT id FROM public.homes WHERE user_id = auth.uid()
+  ));
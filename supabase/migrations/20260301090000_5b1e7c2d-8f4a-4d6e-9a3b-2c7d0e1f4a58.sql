@@ -0,0 +1,22 @@
+-- Document ingestion: uploaded receipts, invoices, warranties and inspection
+-- reports are OCR'd by process-document and their extracted facts stored here.
+-- file_url holds the object path in the private 'documents' bucket.
+
+ALTER TABLE public.documents DROP CONSTRAINT IF EXISTS documents_type_check;
+ALTER TABLE public.documents ADD CONSTRAINT documents_type_check
+  CHECK (type IN ('warranty', 'insurance', 'permit', 'receipt', 'invoice', 'inspection_report', 'manual', 'other'));
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS content_type TEXT,
+  ADD COLUMN IF NOT EXISTS extraction_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (extraction_status IN ('pending', 'processing', 'extracted', 'failed')),
+  ADD COLUMN IF NOT EXISTS extracted_text TEXT,
+  ADD COLUMN IF NOT EXISTS extracted_fields JSONB,   -- DocumentExtraction (documentExtraction.ts)
+  ADD COLUMN IF NOT EXISTS extraction_confidence NUMERIC,
+  ADD COLUMN IF NOT EXISTS extraction_error TEXT,
+  ADD COLUMN IF NOT EXISTS system_key TEXT,
+  ADD COLUMN IF NOT EXISTS processed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS applied_at TIMESTAMPTZ;  -- When extracted fields went through applySystemUpdate
+
+CREATE INDEX IF NOT EXISTS idx_documents_home_created
+  ON public.documents(home_id, created_at DESC);
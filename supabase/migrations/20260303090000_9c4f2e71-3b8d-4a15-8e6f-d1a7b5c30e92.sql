@@ -0,0 +1,51 @@
+-- ============================================================
+-- ASSET WARRANTIES — one warranty record per home_assets row
+-- Seeded from brand defaults (assetWarranty.ts), confirmed by the owner
+-- ============================================================
+CREATE TABLE public.asset_warranties (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  asset_id uuid NOT NULL UNIQUE REFERENCES public.home_assets(id) ON DELETE CASCADE,
+  home_id uuid NOT NULL REFERENCES public.homes(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  parts_years integer NOT NULL,
+  labor_years integer NOT NULL,
+  coverage_start date,                     -- install date
+  parts_expires_on date,
+  labor_expires_on date,
+  transferable boolean NOT NULL DEFAULT false,
+  registered_parts_years integer,          -- extended term when registered; null if registration doesn't extend
+  registration_deadline date,
+  registered boolean NOT NULL DEFAULT false,
+  source text NOT NULL DEFAULT 'brand_default',  -- brand_default | document | owner
+  confirmed_at timestamptz,                -- set when the owner confirms the terms
+  document_id uuid REFERENCES public.documents(id) ON DELETE SET NULL,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_asset_warranties_home ON public.asset_warranties (home_id);
+CREATE INDEX idx_asset_warranties_parts_expiry ON public.asset_warranties (parts_expires_on);
+
+CREATE TRIGGER update_asset_warranties_updated_at
+  BEFORE UPDATE ON public.asset_warranties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.asset_warranties ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own asset warranties"
+  ON public.asset_warranties FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create asset warranties"
+  ON public.asset_warranties FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own asset warranties"
+  ON public.asset_warranties FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Service role full access to asset warranties"
+  ON public.asset_warranties FOR ALL
+  USING (auth.role() = 'service_role');
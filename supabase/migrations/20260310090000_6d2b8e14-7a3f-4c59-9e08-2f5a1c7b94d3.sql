@@ -0,0 +1,247 @@
+-- ============================================================
+-- HOME MEMBERS — shared access per home with roles
+-- Capabilities mirror supabase/functions/_shared/homeMembership.ts:
+--   owner        view, record events, edit home, manage members
+--   co_owner     view, record events, edit home, invite viewers/service pros
+--   viewer       view
+--   service_pro  view, record events
+-- Existing owner policies (user_id = auth.uid()) are kept; the
+-- membership policies below are additive.
+-- ============================================================
+CREATE TYPE public.home_member_role AS ENUM ('owner', 'co_owner', 'viewer', 'service_pro');
+
+CREATE TABLE public.home_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  home_id uuid NOT NULL REFERENCES public.homes(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.home_member_role NOT NULL,
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (home_id, user_id)
+);
+
+-- Exactly one owner per home (homes.user_id)
+CREATE UNIQUE INDEX idx_home_members_one_owner ON public.home_members (home_id) WHERE role = 'owner';
+CREATE INDEX idx_home_members_user ON public.home_members (user_id);
+
+CREATE TRIGGER update_home_members_updated_at
+  BEFORE UPDATE ON public.home_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+
+-- ============================================================
+-- HOME INVITATIONS — emailed, single-use, expiring
+-- ============================================================
+CREATE TABLE public.home_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  home_id uuid NOT NULL REFERENCES public.homes(id) ON DELETE CASCADE,
+  email text NOT NULL,                     -- lower-cased
+  role public.home_member_role NOT NULL CHECK (role <> 'owner'),
+  token text NOT NULL UNIQUE,
+  status text NOT NULL DEFAULT 'pending',  -- pending | accepted | revoked
+  invited_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  accepted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at timestamptz,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One open invitation per address per home (re-inviting replaces it)
+CREATE UNIQUE INDEX idx_home_invitations_pending
+  ON public.home_invitations (home_id, email) WHERE status = 'pending';
+
+
+-- ============================================================
+-- Membership checks (SECURITY DEFINER so policies on home_members
+-- itself don't recurse)
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.has_home_role(_user_id uuid, _home_id uuid, _roles public.home_member_role[])
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  select exists (
+    select 1
+    from public.home_members
+    where user_id = _user_id
+      and home_id = _home_id
+      and role = any(_roles)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_home_member(_user_id uuid, _home_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  select exists (
+    select 1
+    from public.home_members
+    where user_id = _user_id
+      and home_id = _home_id
+  );
+$$;
+
+
+-- ============================================================
+-- Owners are members: backfill + keep in sync on new homes
+-- ============================================================
+INSERT INTO public.home_members (home_id, user_id, role)
+SELECT h.id, h.user_id, 'owner'
+FROM public.homes h
+WHERE h.user_id IS NOT NULL
+ON CONFLICT (home_id, user_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.add_home_owner_member()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  INSERT INTO public.home_members (home_id, user_id, role)
+  VALUES (NEW.id, NEW.user_id, 'owner')
+  ON CONFLICT (home_id, user_id) DO UPDATE SET role = 'owner';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_home_owner_member_on_insert
+  AFTER INSERT ON public.homes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_home_owner_member();
+
+
+-- ============================================================
+-- HOME EVENTS attribution — who recorded each row
+-- user_id stays the home owner's account so owner-keyed reads keep
+-- working; recorded_by is the member who actually wrote it.
+-- ============================================================
+ALTER TABLE public.home_events
+  ADD COLUMN recorded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+UPDATE public.home_events SET recorded_by = user_id WHERE recorded_by IS NULL;
+
+CREATE INDEX idx_home_events_recorded_by ON public.home_events (recorded_by);
+
+CREATE OR REPLACE FUNCTION public.attribute_home_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  -- Signed-in writers are always attributed to themselves; service-role
+  -- writes (chat, integrations) pass recorded_by explicitly
+  NEW.recorded_by := COALESCE(auth.uid(), NEW.recorded_by, NEW.user_id);
+  SELECT h.user_id INTO NEW.user_id FROM public.homes h WHERE h.id = NEW.home_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER attribute_home_event_before_insert
+  BEFORE INSERT ON public.home_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.attribute_home_event();
+
+
+-- ============================================================
+-- RLS
+-- ============================================================
+ALTER TABLE public.home_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.home_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Members see who else shares the home; changes go through the
+-- home-members edge function (service role)
+CREATE POLICY "Members can view household members"
+  ON public.home_members FOR SELECT
+  USING (public.is_home_member(auth.uid(), home_id));
+
+CREATE POLICY "Service role full access to home members"
+  ON public.home_members FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Member managers can view invitations"
+  ON public.home_invitations FOR SELECT
+  USING (public.has_home_role(auth.uid(), home_id, ARRAY['owner', 'co_owner']::public.home_member_role[]));
+
+CREATE POLICY "Service role full access to home invitations"
+  ON public.home_invitations FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- homes
+CREATE POLICY "Members can view shared homes"
+  ON public.homes FOR SELECT
+  USING (public.is_home_member(auth.uid(), id));
+
+CREATE POLICY "Co-owners can update shared homes"
+  ON public.homes FOR UPDATE
+  USING (public.has_home_role(auth.uid(), id, ARRAY['co_owner']::public.home_member_role[]))
+  WITH CHECK (public.has_home_role(auth.uid(), id, ARRAY['co_owner']::public.home_member_role[]));
+
+-- home_events (append-only: still no UPDATE or DELETE)
+CREATE POLICY "Members can view shared home events"
+  ON public.home_events FOR SELECT
+  USING (public.is_home_member(auth.uid(), home_id));
+
+CREATE POLICY "Recording members can insert home events"
+  ON public.home_events FOR INSERT
+  WITH CHECK (
+    recorded_by = auth.uid()
+    AND public.has_home_role(auth.uid(), home_id, ARRAY['owner', 'co_owner', 'service_pro']::public.home_member_role[])
+  );
+
+-- home_assets
+CREATE POLICY "Members can view shared home assets"
+  ON public.home_assets FOR SELECT
+  USING (public.is_home_member(auth.uid(), home_id));
+
+CREATE POLICY "Recording members can create home assets"
+  ON public.home_assets FOR INSERT
+  WITH CHECK (public.has_home_role(auth.uid(), home_id, ARRAY['owner', 'co_owner', 'service_pro']::public.home_member_role[]));
+
+CREATE POLICY "Co-owners can update shared home assets"
+  ON public.home_assets FOR UPDATE
+  USING (public.has_home_role(auth.uid(), home_id, ARRAY['owner', 'co_owner']::public.home_member_role[]));
+
+-- home_systems
+CREATE POLICY "Members can view shared home systems"
+  ON public.home_systems FOR SELECT
+  USING (public.is_home_member(auth.uid(), home_id));
+
+CREATE POLICY "Co-owners can manage shared home systems"
+  ON public.home_systems FOR ALL
+  USING (public.has_home_role(auth.uid(), home_id, ARRAY['owner', 'co_owner']::public.home_member_role[]))
+  WITH CHECK (public.has_home_role(auth.uid(), home_id, ARRAY['owner', 'co_owner']::public.home_member_role[]));
+
+-- maintenance_tasks (service pros can mark work done)
+CREATE POLICY "Members can view shared maintenance tasks"
+  ON public.maintenance_tasks FOR SELECT
+  USING (public.is_home_member(auth.uid(), home_id));
+
+CREATE POLICY "Recording members can update shared maintenance tasks"
+  ON public.maintenance_tasks FOR UPDATE
+  USING (public.has_home_role(auth.uid(), home_id, ARRAY['owner', 'co_owner', 'service_pro']::public.home_member_role[]));
+
+-- interventions
+CREATE POLICY "Members can view shared interventions"
+  ON public.interventions FOR SELECT
+  USING (public.is_home_member(auth.uid(), home_id));
+
+CREATE POLICY "Co-owners can update shared interventions"
+  ON public.interventions FOR UPDATE
+  USING (public.has_home_role(auth.uid(), home_id, ARRAY['owner', 'co_owner']::public.home_member_role[]));
+
+-- asset_warranties
+CREATE POLICY "Members can view shared asset warranties"
+  ON public.asset_warranties FOR SELECT
+  USING (public.is_home_member(auth.uid(), home_id));
+
+CREATE POLICY "Co-owners can manage shared asset warranties"
+  ON public.asset_warranties FOR ALL
+  USING (public.has_home_role(auth.uid(), home_id, ARRAY['owner', 'co_owner']::public.home_member_role[]))
+  WITH CHECK (public.has_home_role(auth.uid(), home_id, ARRAY['owner', 'co_owner']::public.home_member_role[]));
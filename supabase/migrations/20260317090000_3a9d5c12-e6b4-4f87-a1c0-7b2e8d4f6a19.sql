@@ -0,0 +1,49 @@
+-- ============================================================
+-- REPLACEMENT SCENARIOS — named what-if plans on the capital timeline
+-- planned_years maps system id -> planned replacement year, e.g.
+--   {"hvac": 2027, "roof": 2030}
+-- Systems not in the map follow the inferred replacement window.
+-- ============================================================
+CREATE TABLE public.replacement_scenarios (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  home_id uuid NOT NULL REFERENCES public.homes(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,  -- who saved it
+  name text NOT NULL,
+  planned_years jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (home_id, name)
+);
+
+CREATE INDEX idx_replacement_scenarios_home ON public.replacement_scenarios (home_id);
+
+CREATE TRIGGER update_replacement_scenarios_updated_at
+  BEFORE UPDATE ON public.replacement_scenarios
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.replacement_scenarios ENABLE ROW LEVEL SECURITY;
+
+-- Every member can compare plans; owners and co-owners keep them
+CREATE POLICY "Members can view replacement scenarios"
+  ON public.replacement_scenarios FOR SELECT
+  USING (public.is_home_member(auth.uid(), home_id));
+
+CREATE POLICY "Co-owners can create replacement scenarios"
+  ON public.replacement_scenarios FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND public.has_home_role(auth.uid(), home_id, ARRAY['owner', 'co_owner']::public.home_member_role[])
+  );
+
+CREATE POLICY "Co-owners can update replacement scenarios"
+  ON public.replacement_scenarios FOR UPDATE
+  USING (public.has_home_role(auth.uid(), home_id, ARRAY['owner', 'co_owner']::public.home_member_role[]));
+
+CREATE POLICY "Co-owners can delete replacement scenarios"
+  ON public.replacement_scenarios FOR DELETE
+  USING (public.has_home_role(auth.uid(), home_id, ARRAY['owner', 'co_owner']::public.home_member_role[]));
+
+CREATE POLICY "Service role full access to replacement scenarios"
+  ON public.replacement_scenarios FOR ALL
+  USING (auth.role() = 'service_role');
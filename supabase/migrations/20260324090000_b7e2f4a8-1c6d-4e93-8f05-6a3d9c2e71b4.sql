@@ -0,0 +1,40 @@
+-- ============================================================
+-- RESERVE PLANS — capital reserve (sinking fund) inputs per home
+-- The simulation itself runs client-side (src/services/reservePlanner.ts)
+-- ============================================================
+CREATE TABLE public.reserve_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  home_id uuid NOT NULL UNIQUE REFERENCES public.homes(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,  -- last saved by
+  current_savings numeric NOT NULL DEFAULT 0 CHECK (current_savings >= 0),
+  monthly_contribution numeric NOT NULL DEFAULT 0 CHECK (monthly_contribution >= 0),
+  escalation_rate numeric NOT NULL DEFAULT 0.03 CHECK (escalation_rate >= 0 AND escalation_rate <= 0.25),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_reserve_plans_updated_at
+  BEFORE UPDATE ON public.reserve_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.reserve_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view reserve plans"
+  ON public.reserve_plans FOR SELECT
+  USING (public.is_home_member(auth.uid(), home_id));
+
+CREATE POLICY "Co-owners can create reserve plans"
+  ON public.reserve_plans FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND public.has_home_role(auth.uid(), home_id, ARRAY['owner', 'co_owner']::public.home_member_role[])
+  );
+
+CREATE POLICY "Co-owners can update reserve plans"
+  ON public.reserve_plans FOR UPDATE
+  USING (public.has_home_role(auth.uid(), home_id, ARRAY['owner', 'co_owner']::public.home_member_role[]));
+
+CREATE POLICY "Service role full access to reserve plans"
+  ON public.reserve_plans FOR ALL
+  USING (auth.role() = 'service_role');
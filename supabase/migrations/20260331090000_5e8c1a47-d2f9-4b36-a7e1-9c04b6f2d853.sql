@@ -0,0 +1,146 @@
+-- ============================================================
+-- REGIONAL REPLACEMENT COST MODEL
+-- cost_models gains versioned, activatable rows so the timeline's
+-- national cost bands can be regionalized (ZIP3 labor index) and
+-- corrected by owner-reported actuals (home_events.cost_actual).
+-- Written by calibrate-cost-model; read via _shared/regionalCost.ts
+-- ============================================================
+
+-- Existing rows are the delay-cost impact model (useCostModel)
+ALTER TABLE public.cost_models
+  ADD COLUMN model_name text NOT NULL DEFAULT 'delay_impact',
+  ADD COLUMN version text,
+  ADD COLUMN is_active boolean NOT NULL DEFAULT false,
+  ADD COLUMN labor_indices jsonb,        -- {"334": {"metro": "...", "index": 0.90}}; national = 1.00
+  ADD COLUMN actual_adjustments jsonb,   -- {"hvac": {"all": {"factor": 1.08, "count": 12}, "Miami": {...}}}
+  ADD COLUMN fitted_at timestamptz;
+
+-- Readers never see two active versions of a model
+CREATE UNIQUE INDEX idx_cost_models_active
+  ON public.cost_models (model_name)
+  WHERE is_active;
+
+-- ============================================================
+-- COST PREDICTIONS — per-home replacement estimates from the timeline
+-- Legacy rows are keyed by property_id; timeline rows by home_id + system_type.
+-- Amounts stay in cents, matching the existing columns.
+-- ============================================================
+ALTER TABLE public.cost_predictions
+  ADD COLUMN home_id uuid REFERENCES public.homes(id) ON DELETE CASCADE,
+  ADD COLUMN system_type text,
+  ADD COLUMN cost_model_id uuid REFERENCES public.cost_models(id) ON DELETE SET NULL,
+  ADD COLUMN updated_at timestamptz DEFAULT now();
+
+CREATE UNIQUE INDEX idx_cost_predictions_home_system
+  ON public.cost_predictions (home_id, system_type, prediction_type);
+
+CREATE POLICY "Members can view home cost predictions"
+  ON public.cost_predictions FOR SELECT
+  USING (home_id IS NOT NULL AND public.is_home_member(auth.uid(), home_id));
+
+CREATE POLICY "Service role full access to cost predictions"
+  ON public.cost_predictions FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Actuals feed calibrate-cost-model
+CREATE INDEX idx_home_events_cost_actual
+  ON public.home_events (event_type)
+  WHERE cost_actual IS NOT NULL;
+
+-- ============================================================
+-- SEED — regional model v1: metro construction labor indices by ZIP3,
+-- no actuals yet. ZIP3s not listed fall back to national (1.00).
+-- ============================================================
+INSERT INTO public.cost_models (model_name, version, is_active, labor_indices, actual_adjustments, fitted_at)
+VALUES (
+  'regional_replacement_cost',
+  'regional_cost_v1',
+  true,
+  '{
+    "021": {"metro": "Boston", "index": 1.25},
+    "022": {"metro": "Boston", "index": 1.25},
+    "024": {"metro": "Boston", "index": 1.25},
+    "100": {"metro": "New York", "index": 1.38},
+    "101": {"metro": "New York", "index": 1.38},
+    "102": {"metro": "New York", "index": 1.38},
+    "104": {"metro": "New York", "index": 1.38},
+    "112": {"metro": "New York", "index": 1.38},
+    "113": {"metro": "New York", "index": 1.38},
+    "114": {"metro": "New York", "index": 1.38},
+    "152": {"metro": "Pittsburgh", "index": 1.04},
+    "190": {"metro": "Philadelphia", "index": 1.22},
+    "191": {"metro": "Philadelphia", "index": 1.22},
+    "200": {"metro": "Washington", "index": 1.02},
+    "203": {"metro": "Washington", "index": 1.02},
+    "220": {"metro": "Washington", "index": 1.02},
+    "222": {"metro": "Washington", "index": 1.02},
+    "282": {"metro": "Charlotte", "index": 0.82},
+    "300": {"metro": "Atlanta", "index": 0.88},
+    "301": {"metro": "Atlanta", "index": 0.88},
+    "303": {"metro": "Atlanta", "index": 0.88},
+    "322": {"metro": "Jacksonville", "index": 0.83},
+    "327": {"metro": "Orlando", "index": 0.85},
+    "328": {"metro": "Orlando", "index": 0.85},
+    "330": {"metro": "Miami", "index": 0.92},
+    "331": {"metro": "Miami", "index": 0.92},
+    "332": {"metro": "Miami", "index": 0.92},
+    "333": {"metro": "Fort Lauderdale / West Palm Beach", "index": 0.90},
+    "334": {"metro": "Fort Lauderdale / West Palm Beach", "index": 0.90},
+    "335": {"metro": "Tampa", "index": 0.86},
+    "336": {"metro": "Tampa", "index": 0.86},
+    "337": {"metro": "Tampa", "index": 0.86},
+    "372": {"metro": "Nashville", "index": 0.85},
+    "441": {"metro": "Cleveland", "index": 1.00},
+    "481": {"metro": "Detroit", "index": 1.05},
+    "482": {"metro": "Detroit", "index": 1.05},
+    "553": {"metro": "Minneapolis", "index": 1.12},
+    "554": {"metro": "Minneapolis", "index": 1.12},
+    "606": {"metro": "Chicago", "index": 1.30},
+    "607": {"metro": "Chicago", "index": 1.30},
+    "608": {"metro": "Chicago", "index": 1.30},
+    "631": {"metro": "St. Louis", "index": 1.04},
+    "641": {"metro": "Kansas City", "index": 1.00},
+    "750": {"metro": "Dallas", "index": 0.84},
+    "751": {"metro": "Dallas", "index": 0.84},
+    "752": {"metro": "Dallas", "index": 0.84},
+    "770": {"metro": "Houston", "index": 0.86},
+    "772": {"metro": "Houston", "index": 0.86},
+    "786": {"metro": "Austin", "index": 0.85},
+    "787": {"metro": "Austin", "index": 0.85},
+    "800": {"metro": "Denver", "index": 0.98},
+    "802": {"metro": "Denver", "index": 0.98},
+    "841": {"metro": "Salt Lake City", "index": 0.90},
+    "850": {"metro": "Phoenix", "index": 0.88},
+    "852": {"metro": "Phoenix", "index": 0.88},
+    "853": {"metro": "Phoenix", "index": 0.88},
+    "889": {"metro": "Las Vegas", "index": 1.02},
+    "891": {"metro": "Las Vegas", "index": 1.02},
+    "900": {"metro": "Los Angeles", "index": 1.18},
+    "902": {"metro": "Los Angeles", "index": 1.18},
+    "906": {"metro": "Los Angeles", "index": 1.18},
+    "913": {"metro": "Los Angeles", "index": 1.18},
+    "917": {"metro": "Los Angeles", "index": 1.18},
+    "918": {"metro": "Los Angeles", "index": 1.18},
+    "920": {"metro": "San Diego", "index": 1.14},
+    "921": {"metro": "San Diego", "index": 1.14},
+    "940": {"metro": "San Francisco Bay Area", "index": 1.45},
+    "941": {"metro": "San Francisco Bay Area", "index": 1.45},
+    "943": {"metro": "San Francisco Bay Area", "index": 1.45},
+    "944": {"metro": "San Francisco Bay Area", "index": 1.45},
+    "945": {"metro": "San Francisco Bay Area", "index": 1.45},
+    "946": {"metro": "San Francisco Bay Area", "index": 1.45},
+    "950": {"metro": "San Francisco Bay Area", "index": 1.45},
+    "951": {"metro": "San Francisco Bay Area", "index": 1.45},
+    "956": {"metro": "Sacramento", "index": 1.16},
+    "958": {"metro": "Sacramento", "index": 1.16},
+    "967": {"metro": "Honolulu", "index": 1.25},
+    "968": {"metro": "Honolulu", "index": 1.25},
+    "970": {"metro": "Portland", "index": 1.08},
+    "972": {"metro": "Portland", "index": 1.08},
+    "980": {"metro": "Seattle", "index": 1.15},
+    "981": {"metro": "Seattle", "index": 1.15},
+    "995": {"metro": "Anchorage", "index": 1.15}
+  }'::jsonb,
+  '{}'::jsonb,
+  now()
+);
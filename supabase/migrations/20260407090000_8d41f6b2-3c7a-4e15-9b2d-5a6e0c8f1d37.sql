@@ -0,0 +1,20 @@
+-- ============================================================
+-- EQUIPMENT SPECS — structured nameplate capacity and efficiency
+-- Decoded from the model number (supabase/functions/_shared/modelDecoding.ts)
+-- by applySystemUpdate; capacity_rating stays as the free-text read
+-- ============================================================
+ALTER TABLE public.home_systems
+  ADD COLUMN capacity_value numeric CHECK (capacity_value > 0),
+  ADD COLUMN capacity_unit text CHECK (capacity_unit IN ('tons', 'btuh', 'gallons')),
+  ADD COLUMN efficiency_rating numeric CHECK (efficiency_rating > 0),
+  ADD COLUMN efficiency_metric text CHECK (efficiency_metric IN ('SEER', 'AFUE')),
+  ADD COLUMN equipment_kind text CHECK (equipment_kind IN ('air_conditioner', 'heat_pump', 'furnace', 'water_heater')),
+  ADD COLUMN model_spec_version text;
+
+COMMENT ON COLUMN public.home_systems.capacity_value IS 'Nameplate capacity in capacity_unit: cooling tons, furnace input BTU/h or tank gallons';
+COMMENT ON COLUMN public.home_systems.model_spec_version IS 'Model decoder version that produced the structured spec';
+
+-- capital-timeline reads nameplate size per home
+CREATE INDEX idx_home_systems_capacity
+  ON public.home_systems (home_id, capacity_unit)
+  WHERE capacity_value IS NOT NULL;
@@ -0,0 +1,122 @@
+-- ============================================================
+-- PERMIT JURISDICTIONS — registry of municipal permit sources
+-- Read by shovels-permits through supabase/functions/_shared/permitAdapters.ts;
+-- onboarding a county is an INSERT here, not a deploy
+-- ============================================================
+CREATE TABLE public.permit_jurisdictions (
+  id text PRIMARY KEY,                -- stored as permits.source
+  name text NOT NULL,                 -- stored as permits.jurisdiction
+  adapter text NOT NULL CHECK (adapter IN ('arcgis_feature_server', 'socrata', 'csv')),
+  endpoint text,                      -- NULL for upload-only CSV layouts
+  match jsonb NOT NULL DEFAULT '{}'::jsonb,
+  lookup jsonb NOT NULL DEFAULT '{}'::jsonb,
+  field_map jsonb NOT NULL DEFAULT '{}'::jsonb,
+  type_map jsonb NOT NULL DEFAULT '{}'::jsonb,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.permit_jurisdictions.match IS 'Homes covered: {fipsCodes, zip3, cities, state}; any criterion matching is enough';
+COMMENT ON COLUMN public.permit_jurisdictions.lookup IS 'Query columns: {parcelField, parcelDigitsOnly, parcelSuffixFallback, addressField, addressStyle, orderBy}';
+COMMENT ON COLUMN public.permit_jurisdictions.field_map IS 'NormalizedPermit field → source columns in priority order, or {columns, join}';
+COMMENT ON COLUMN public.permit_jurisdictions.type_map IS 'Raw permit type code → readable permit type';
+
+CREATE TRIGGER update_permit_jurisdictions_updated_at
+  BEFORE UPDATE ON public.permit_jurisdictions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.permit_jurisdictions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view permit jurisdictions"
+  ON public.permit_jurisdictions FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage permit jurisdictions"
+  ON public.permit_jurisdictions FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Service role full access to permit jurisdictions"
+  ON public.permit_jurisdictions FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================================
+-- SEED: Miami-Dade County (previously hard-coded in shovels-permits)
+-- ============================================================
+INSERT INTO public.permit_jurisdictions (id, name, adapter, endpoint, match, lookup, field_map, type_map)
+VALUES (
+  'miami_dade',
+  'Miami-Dade County',
+  'arcgis_feature_server',
+  'https://services.arcgis.com/8Pc9XBTAsYuxx9Ny/arcgis/rest/services/BuildingPermit_gdb/FeatureServer/0/query',
+  '{
+    "fipsCodes": ["12086"],
+    "zip3": ["331"],
+    "state": "FL",
+    "cities": ["miami", "miami beach", "north miami", "north miami beach", "miami gardens", "miami lakes",
+               "miami shores", "hialeah", "hialeah gardens", "homestead", "florida city", "coral gables",
+               "doral", "kendall", "aventura", "cutler bay", "palmetto bay", "pinecrest", "south miami",
+               "sweetwater", "key biscayne", "opa-locka", "sunny isles beach", "surfside", "bal harbour"]
+  }'::jsonb,
+  '{
+    "parcelField": "FOLIO",
+    "parcelDigitsOnly": true,
+    "parcelSuffixFallback": 4,
+    "addressField": "ADDRESS",
+    "addressStyle": "abbreviated",
+    "orderBy": "ISSUDATE"
+  }'::jsonb,
+  '{
+    "permit_number": ["PROCNUM", "ID"],
+    "permit_type": ["TYPE"],
+    "work_class": ["WORKCLASS"],
+    "description": {"columns": ["DESC1", "DESC2", "DESC3", "DESC4", "DESC5", "DESC6", "DESC7", "DESC8", "DESC9", "DESC10"], "join": " "},
+    "status": ["STATDESC", "STATUS"],
+    "date_issued": ["ISSUDATE"],
+    "date_finaled": ["LSTINSDT", "BLDCMPDT"],
+    "approval_date": ["LSTAPPRDT"],
+    "valuation": ["PROJVAL"],
+    "contractor_name": ["CONTRNAME"],
+    "contractor_license": ["CONTRLICNO"],
+    "parcel_id": ["FOLIO"]
+  }'::jsonb,
+  '{
+    "MECH": "Mechanical",
+    "BLDG": "Building",
+    "ELEC": "Electrical",
+    "PLUM": "Plumbing",
+    "ROOF": "Roofing",
+    "DEMO": "Demolition",
+    "FIRE": "Fire"
+  }'::jsonb
+);
+
+-- ============================================================
+-- SEED: generic CSV upload layout (never auto-matched)
+-- Common export headers from county and city permit portals
+-- ============================================================
+INSERT INTO public.permit_jurisdictions (id, name, adapter, endpoint, field_map)
+VALUES (
+  'csv_upload',
+  'Uploaded permit records',
+  'csv',
+  NULL,
+  '{
+    "permit_number": ["permit_number", "permit number", "permit_no", "permit #", "permit", "record number"],
+    "permit_type": ["permit_type", "permit type", "type", "record type"],
+    "work_class": ["work_class", "work class", "work type"],
+    "description": ["description", "work description", "project description", "scope of work"],
+    "status": ["status", "permit status", "current status"],
+    "date_issued": ["date_issued", "issue date", "issued date", "issued", "date issued"],
+    "date_finaled": ["date_finaled", "final date", "finaled date", "completed date", "closed date"],
+    "approval_date": ["approval_date", "approval date", "approved date"],
+    "valuation": ["valuation", "job value", "project value", "estimated cost", "value"],
+    "contractor_name": ["contractor_name", "contractor", "contractor name"],
+    "contractor_license": ["contractor_license", "license number", "contractor license"],
+    "jurisdiction": ["jurisdiction", "county", "city"],
+    "source_url": ["source_url", "url", "link"],
+    "parcel_id": ["parcel_id", "parcel", "parcel number", "apn", "folio", "pin"]
+  }'::jsonb
+);
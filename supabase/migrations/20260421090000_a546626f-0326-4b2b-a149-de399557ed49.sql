@@ -0,0 +1,41 @@
+-- ============================================================
+-- MAINTENANCE RECURRENCE — rules, series and skip/snooze
+-- Next occurrences are created by the maintenance-task-action function from
+-- supabase/functions/_shared/maintenanceRecurrence.ts; one open row per series
+-- ============================================================
+ALTER TABLE public.maintenance_tasks
+  ADD COLUMN recurrence_rule jsonb,
+  ADD COLUMN series_id uuid,
+  ADD COLUMN previous_task_id uuid REFERENCES public.maintenance_tasks(id) ON DELETE SET NULL,
+  ADD COLUMN original_due_date date,
+  ADD COLUMN snooze_count integer NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.maintenance_tasks.recurrence_rule IS '{kind: interval, months} | {kind: seasonal, months, day?} | {kind: usage, days}; NULL falls back to recurrence_interval';
+COMMENT ON COLUMN public.maintenance_tasks.series_id IS 'Shared by every occurrence of a recurring task';
+COMMENT ON COLUMN public.maintenance_tasks.previous_task_id IS 'Occurrence whose completion or skip created this one';
+COMMENT ON COLUMN public.maintenance_tasks.original_due_date IS 'Due date before the first snooze';
+
+ALTER TABLE public.maintenance_tasks DROP CONSTRAINT IF EXISTS maintenance_tasks_status_check;
+ALTER TABLE public.maintenance_tasks ADD CONSTRAINT maintenance_tasks_status_check
+  CHECK (status IN ('pending', 'in_progress', 'completed', 'overdue', 'skipped'));
+
+CREATE INDEX idx_maintenance_tasks_series ON public.maintenance_tasks(series_id);
+CREATE INDEX idx_maintenance_tasks_previous ON public.maintenance_tasks(previous_task_id);
+
+-- ============================================================
+-- BACKFILL: rules for tasks created with the legacy interval picker
+-- ============================================================
+UPDATE public.maintenance_tasks
+SET
+  recurrence_rule = jsonb_build_object(
+    'kind', 'interval',
+    'months', CASE recurrence_interval
+      WHEN 'monthly' THEN 1
+      WHEN 'quarterly' THEN 3
+      WHEN 'biannually' THEN 6
+      WHEN 'annually' THEN 12
+    END
+  ),
+  series_id = id
+WHERE recurring = true
+  AND recurrence_interval IN ('monthly', 'quarterly', 'biannually', 'annually');
@@ -0,0 +1,115 @@
+-- ============================================================
+-- NOTIFICATION PREFERENCES — per-user channels, alert kinds, quiet hours
+-- No row means defaults (see DEFAULT_NOTIFICATION_PREFERENCES in
+-- supabase/functions/_shared/notificationRules.ts)
+-- ============================================================
+CREATE TABLE public.notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email_enabled boolean NOT NULL DEFAULT true,
+  push_enabled boolean NOT NULL DEFAULT false,
+  task_overdue boolean NOT NULL DEFAULT true,
+  task_due_soon boolean NOT NULL DEFAULT true,
+  warranty boolean NOT NULL DEFAULT true,
+  weekly_digest boolean NOT NULL DEFAULT true,
+  digest_day smallint NOT NULL DEFAULT 0 CHECK (digest_day BETWEEN 0 AND 6),     -- 0 = Sunday
+  quiet_hours_start smallint DEFAULT 21 CHECK (quiet_hours_start BETWEEN 0 AND 23),
+  quiet_hours_end smallint DEFAULT 8 CHECK (quiet_hours_end BETWEEN 0 AND 23),
+  timezone text NOT NULL DEFAULT 'America/New_York',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences"
+  ON public.notification_preferences FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notification preferences"
+  ON public.notification_preferences FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification preferences"
+  ON public.notification_preferences FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access to notification preferences"
+  ON public.notification_preferences FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================================
+-- PUSH SUBSCRIPTIONS — one row per browser that allowed Web Push
+-- ============================================================
+CREATE TABLE public.push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_used_at timestamptz
+);
+
+CREATE INDEX idx_push_subscriptions_user ON public.push_subscriptions(user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push subscriptions"
+  ON public.push_subscriptions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own push subscriptions"
+  ON public.push_subscriptions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own push subscriptions"
+  ON public.push_subscriptions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own push subscriptions"
+  ON public.push_subscriptions FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access to push subscriptions"
+  ON public.push_subscriptions FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================================
+-- NOTIFICATION DELIVERIES — what was sent, where, and whether it worked
+-- A 'sent' row per (user, channel, dedup_key) is what stops repeats
+-- ============================================================
+CREATE TABLE public.notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  home_id uuid REFERENCES public.homes(id) ON DELETE SET NULL,
+  kind text NOT NULL CHECK (kind IN ('task_overdue', 'task_due_soon', 'warranty', 'weekly_digest', 'test')),
+  channel text NOT NULL CHECK (channel IN ('email', 'push')),
+  dedup_key text NOT NULL,
+  subject_id text,                    -- task or asset id
+  status text NOT NULL CHECK (status IN ('sent', 'failed')),
+  transport text,                     -- resend | smtp | log | web_push
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_notification_deliveries_sent
+  ON public.notification_deliveries(user_id, channel, dedup_key)
+  WHERE status = 'sent';
+CREATE INDEX idx_notification_deliveries_user_created
+  ON public.notification_deliveries(user_id, created_at DESC);
+
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification deliveries"
+  ON public.notification_deliveries FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access to notification deliveries"
+  ON public.notification_deliveries FOR ALL
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,28 @@
+-- ============================================================
+-- CALENDAR FEEDS — tokenized iCalendar subscription URLs, one per
+-- member per home. calendar-feed serves the .ics by token and is the
+-- only writer; rotating revokes the old token.
+-- ============================================================
+CREATE TABLE public.calendar_feeds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  home_id uuid NOT NULL REFERENCES public.homes(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  revoked_at timestamptz,
+  last_accessed_at timestamptz
+);
+
+CREATE UNIQUE INDEX idx_calendar_feeds_active
+  ON public.calendar_feeds(home_id, user_id)
+  WHERE revoked_at IS NULL;
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar feeds"
+  ON public.calendar_feeds FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access to calendar feeds"
+  ON public.calendar_feeds FOR ALL
+  USING (auth.role() = 'service_role');
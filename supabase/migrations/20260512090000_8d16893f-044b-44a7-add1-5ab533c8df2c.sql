@@ -0,0 +1,15 @@
+-- ============================================================
+-- MAINTENANCE ADHERENCE — who did the work on a completed task
+-- Read by supabase/functions/_shared/maintenanceAdherence.ts, which scores
+-- each system's record (regularity, recency, professional share) and
+-- shifts its replacement window on the capital timeline
+-- ============================================================
+ALTER TABLE public.maintenance_tasks
+  ADD COLUMN performed_by text
+    CHECK (performed_by IN ('diy', 'professional'));
+
+COMMENT ON COLUMN public.maintenance_tasks.performed_by IS 'diy | professional; NULL when the owner did not say';
+
+CREATE INDEX idx_maintenance_tasks_completed
+  ON public.maintenance_tasks(home_id, completed_date)
+  WHERE status = 'completed';
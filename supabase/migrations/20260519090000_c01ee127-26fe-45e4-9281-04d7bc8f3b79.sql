@@ -0,0 +1,28 @@
+-- ============================================================
+-- HOMES ownership guard — only the owner can change homes.user_id
+-- "Co-owners can update shared homes" allows any column, and every
+-- owner policy keys on user_id, so rewriting it would hand a co-owner
+-- the home (including delete). Service-role writes have no auth.uid()
+-- and are unaffected.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.guard_home_owner_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+     AND auth.uid() IS NOT NULL
+     AND auth.uid() IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Only the home owner can change its owner'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_home_owner_change_before_update
+  BEFORE UPDATE OF user_id ON public.homes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_home_owner_change();
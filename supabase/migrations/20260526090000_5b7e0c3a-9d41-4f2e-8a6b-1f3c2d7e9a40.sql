@@ -0,0 +1,27 @@
+-- ============================================================
+-- NOTIFICATIONS — email is opt-in
+-- Matches DEFAULT_NOTIFICATION_PREFERENCES (R4 in
+-- supabase/functions/_shared/notificationRules.ts). Users without a row
+-- get the defaults, so they stop receiving email until they turn it on;
+-- saved rows keep the choice their owner made.
+-- ============================================================
+ALTER TABLE public.notification_preferences
+  ALTER COLUMN email_enabled SET DEFAULT false;
+
+-- ============================================================
+-- NOTIFICATION DISPATCH CURSORS — where each scheduled mode stopped
+-- notification-dispatch handles a capped batch of users per run, in
+-- user_id order; the next run resumes after last_user_id, and NULL
+-- means start from the first user. Service role only.
+-- ============================================================
+CREATE TABLE public.notification_dispatch_cursors (
+  mode text PRIMARY KEY CHECK (mode IN ('alerts', 'digest')),
+  last_user_id uuid,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_dispatch_cursors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to notification dispatch cursors"
+  ON public.notification_dispatch_cursors FOR ALL
+  USING (auth.role() = 'service_role');
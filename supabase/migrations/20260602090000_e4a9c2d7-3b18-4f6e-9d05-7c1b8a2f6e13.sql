@@ -0,0 +1,46 @@
+-- ============================================================
+-- SHARED ROW guard — members can't re-home or re-own a row
+-- The member UPDATE policies on maintenance_tasks, home_assets,
+-- interventions and asset_warranties check the caller's role on the
+-- row's home but not the columns changed. Every owner policy (delete
+-- included) keys on user_id, so a co-owner or service pro setting
+-- user_id to themselves would take the row over; moving home_id would
+-- carry it out of the household. Only the row's owner may change
+-- either. Service-role writes have no auth.uid() and are unaffected.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.guard_shared_row_owner_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF (NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.home_id IS DISTINCT FROM OLD.home_id)
+     AND auth.uid() IS NOT NULL
+     AND auth.uid() IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Only the owner of this % row can change its user_id or home_id', TG_TABLE_NAME
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_shared_row_owner_change_before_update
+  BEFORE UPDATE OF user_id, home_id ON public.maintenance_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_shared_row_owner_change();
+
+CREATE TRIGGER guard_shared_row_owner_change_before_update
+  BEFORE UPDATE OF user_id, home_id ON public.home_assets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_shared_row_owner_change();
+
+CREATE TRIGGER guard_shared_row_owner_change_before_update
+  BEFORE UPDATE OF user_id, home_id ON public.interventions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_shared_row_owner_change();
+
+CREATE TRIGGER guard_shared_row_owner_change_before_update
+  BEFORE UPDATE OF user_id, home_id ON public.asset_warranties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_shared_row_owner_change();
@@ -0,0 +1,98 @@
+-- ============================================================
+-- NOTIFICATION DISPATCH CANDIDATES — distinct users per scheduled run
+-- notification-dispatch walks users in user_id order behind its cursor
+-- (notification_dispatch_cursors). Reading source tables directly
+-- returned one row per task or asset, and PostgREST's row cap cut those
+-- pages short, so a run could not tell a truncated page from the last
+-- one. These return distinct user ids, at most p_limit of them.
+-- Only users who turned a channel on can be sent anything (R4 in
+-- supabase/functions/_shared/notificationRules.ts). Service role only.
+-- ============================================================
+
+-- Users with an open task due by p_due_before, or an active asset
+-- whose warranty may need a reminder
+CREATE OR REPLACE FUNCTION public.notification_alert_candidates(
+  p_after UUID,
+  p_due_before DATE,
+  p_limit INTEGER
+)
+RETURNS TABLE(user_id UUID)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  RETURN QUERY
+  SELECT c.user_id
+  FROM (
+    SELECT t.user_id
+    FROM public.maintenance_tasks t
+    WHERE t.status NOT IN ('completed', 'skipped')
+      AND t.due_date <= p_due_before
+    UNION
+    SELECT a.user_id
+    FROM public.home_assets a
+    WHERE a.status = 'active'
+  ) c
+  WHERE c.user_id IS NOT NULL
+    AND (p_after IS NULL OR c.user_id > p_after)
+    AND EXISTS (
+      SELECT 1 FROM public.notification_preferences p
+      WHERE p.user_id = c.user_id AND (p.email_enabled OR p.push_enabled)
+    )
+  ORDER BY c.user_id
+  LIMIT p_limit;
+END;
+$function$;
+
+-- Users whose weekly digest is due now: it is their digest day and at
+-- least p_local_hour in their own timezone (unknown zones count as UTC),
+-- and no digest went out for that local date. The dedup key matches
+-- digestDedupKey() in notificationRules.ts.
+CREATE OR REPLACE FUNCTION public.notification_digest_candidates(
+  p_after UUID,
+  p_local_hour INTEGER,
+  p_limit INTEGER
+)
+RETURNS TABLE(user_id UUID)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  RETURN QUERY
+  WITH zones AS (
+    SELECT z.name FROM pg_timezone_names z
+  ),
+  local_prefs AS (
+    SELECT p.user_id, p.digest_day, now() AT TIME ZONE COALESCE(zones.name, 'UTC') AS local_now
+    FROM public.notification_preferences p
+    LEFT JOIN zones ON zones.name = p.timezone
+    WHERE p.weekly_digest
+      AND p.email_enabled
+      AND (p_after IS NULL OR p.user_id > p_after)
+  )
+  SELECT lp.user_id
+  FROM local_prefs lp
+  WHERE EXTRACT(DOW FROM lp.local_now) = lp.digest_day
+    AND EXTRACT(HOUR FROM lp.local_now) >= p_local_hour
+    AND EXISTS (SELECT 1 FROM public.homes h WHERE h.user_id = lp.user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notification_deliveries d
+      WHERE d.user_id = lp.user_id
+        AND d.channel = 'email'
+        AND d.status = 'sent'
+        AND d.dedup_key = 'weekly_digest:' || to_char(lp.local_now, 'YYYY-MM-DD')
+    )
+  ORDER BY lp.user_id
+  LIMIT p_limit;
+END;
+$function$;